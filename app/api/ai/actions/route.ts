@@ -13,13 +13,20 @@
 // -> 200 { result?: any, error?: string, consentType?: string, retryAfter?: number }
 
 import { generateObject, generateText } from 'ai';
-import { getModel, type AIProvider } from '@/lib/ai/config';
+import { type AIProvider } from '@/lib/ai/config';
+import {
+  buildAIModelChain,
+  createModelWithFallback,
+  parseAIFallbackChain,
+  providerCredentialsFromSettings,
+} from '@/lib/ai/provider';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
 import { isAIFeatureEnabled } from '@/lib/ai/features/server';
+import { AIBudgetExceededError, createAIUsageMeter, type AIUsageMeter } from '@/lib/ai/usage';
 
 export const maxDuration = 60;
 
@@ -173,7 +180,7 @@ export async function POST(req: Request) {
 
   const { data: orgSettings, error: orgError } = await supabase
     .from('organization_settings')
-    .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key')
+    .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key, ai_local_base_url, ai_local_key, ai_fallback_chain')
     .eq('organization_id', profile.organization_id)
     .single();
 
@@ -211,27 +218,40 @@ export async function POST(req: Request) {
     }
   }
 
-  // Frontend expects "AI consent required" as a *payload* error.
   const provider: AIProvider = (orgSettings?.ai_provider ?? 'google') as AIProvider;
-  const apiKey: string | null =
-    provider === 'google'
-      ? (orgSettings?.ai_google_key ?? null)
-      : provider === 'openai'
-        ? (orgSettings?.ai_openai_key ?? null)
-        : (orgSettings?.ai_anthropic_key ?? null);
-
-  if (orgError || !apiKey) {
+  const chain = orgError
+    ? []
+    : buildAIModelChain({
+        primary: { provider, model: orgSettings?.ai_model || '' },
+        fallbacks: parseAIFallbackChain(orgSettings?.ai_fallback_chain),
+        credentials: providerCredentialsFromSettings(orgSettings),
+      });
+
+  // Frontend expects "AI consent required" as a *payload* error.
+  if (chain.length === 0) {
     return json<AIActionResponse>({ error: 'AI consent required', consentType: 'AI_CONSENT' }, 200);
   }
 
-  const modelId = orgSettings.ai_model || '';
-  const model = getModel(provider, apiKey, modelId);
+  let meter: AIUsageMeter;
+  try {
+    meter = await createAIUsageMeter({
+      organizationId: profile.organization_id,
+      userId: user.id,
+      source: 'action',
+      feature: featureKey ?? action,
+    });
+  } catch (err) {
+    if (err instanceof AIBudgetExceededError) return json<AIActionResponse>({ error: err.message }, 429);
+    throw err;
+  }
+
+  const model = createModelWithFallback(chain, meter.middleware);
 
   try {
     switch (action) {
       case 'analyzeLead': {
         const { deal, stageLabel } = data as any;
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_analyze');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_analyze', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           dealTitle: deal?.title || '',
           dealValue: deal?.value?.toLocaleString?.('pt-BR') ?? deal?.value ?? 0,
@@ -249,7 +269,7 @@ export async function POST(req: Request) {
 
       case 'generateEmailDraft': {
         const { deal } = data as any;
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_email_draft');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_email_draft', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           contactName: deal?.contactName || 'Cliente',
           companyName: deal?.companyName || 'Empresa',
@@ -345,7 +365,7 @@ Responda em português do Brasil.`,
                 { id: 'OTHER', name: 'Outros' },
               ];
 
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_generate_structure');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_generate_structure', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           description,
           lifecycleJson: JSON.stringify(lifecycleList),
@@ -362,7 +382,7 @@ Responda em português do Brasil.`,
 
       case 'generateBoardStrategy': {
         const { boardData } = data as any;
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_generate_strategy');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_generate_strategy', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           boardName: boardData?.boardName || '',
         });
@@ -381,7 +401,7 @@ Responda em português do Brasil.`,
         const boardContext = currentBoard
           ? `\nBoard atual (JSON):\n${JSON.stringify(currentBoard)}`
           : '';
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_refine');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_boards_refine', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           userInstruction,
           boardContext,
@@ -398,7 +418,7 @@ Responda em português do Brasil.`,
 
       case 'generateObjectionResponse': {
         const { deal, objection } = data as any;
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_objection_responses');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_deals_objection_responses', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           objection,
           dealTitle: deal?.title || '',
@@ -448,7 +468,7 @@ Responda em português.`,
       }
 
       case 'generateDailyBriefing': {
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_inbox_daily_briefing');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_inbox_daily_briefing', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           dataJson: JSON.stringify(data),
         });
@@ -472,7 +492,7 @@ Responda em português.`,
 
       case 'generateSalesScript': {
         const { deal, scriptType, context } = data as any;
-        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_inbox_sales_script');
+        const resolved = await getResolvedPrompt(supabase as any, profile.organization_id as any, 'task_inbox_sales_script', { bucketKey: user.id });
         const prompt = renderPromptTemplate(resolved?.content || '', {
           scriptType: scriptType || 'geral',
           dealTitle: deal?.title || '',
@@ -492,6 +512,7 @@ Responda em português.`,
       }
     }
   } catch (err: any) {
+    if (err instanceof AIBudgetExceededError) return json<AIActionResponse>({ error: err.message }, 429);
     console.error('[api/ai/actions] Error:', err);
     return json<AIActionResponse>({ error: err?.message || 'Internal Server Error' }, 200);
   }
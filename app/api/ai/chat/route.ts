@@ -7,11 +7,12 @@ import { createClient } from '@/lib/supabase/server';
 import type { CRMCallOptions } from '@/types/ai';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
 import { isAIFeatureEnabled } from '@/lib/ai/features/server';
+import type { AIProvider } from '@/lib/ai/config';
+import { AI_PROVIDER_LABELS, providerCredentialsFromSettings } from '@/lib/ai/provider';
+import { AIBudgetExceededError, createAIUsageMeter, type AIUsageMeter } from '@/lib/ai/usage';
 
 export const maxDuration = 60;
 
-type AIProvider = 'google' | 'openai' | 'anthropic';
-
 function asOptionalString(v: unknown): string | undefined {
     return typeof v === 'string' ? v : undefined;
 }
@@ -132,7 +133,7 @@ export async function POST(req: Request) {
     // 3. Get AI settings (org-wide: organization_settings é a fonte de verdade)
     const { data: orgSettings } = await supabase
         .from('organization_settings')
-        .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key')
+        .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key, ai_local_base_url, ai_local_key, ai_local_supports_tools')
         .eq('organization_id', organizationId)
         .maybeSingle();
 
@@ -155,24 +156,41 @@ export async function POST(req: Request) {
     const provider = (orgSettings?.ai_provider ?? 'google') as AIProvider;
     const modelId: string | null = orgSettings?.ai_model ?? null;
 
-    const apiKey: string | null =
-        provider === 'google'
-            ? (orgSettings?.ai_google_key ?? null)
-            : provider === 'openai'
-                ? (orgSettings?.ai_openai_key ?? null)
-                : (orgSettings?.ai_anthropic_key ?? null);
+    const credentials = providerCredentialsFromSettings(orgSettings)[provider] ?? null;
+
+    if (!credentials) {
+        return new Response(
+            provider === 'openai_compatible'
+                ? 'Base URL do servidor local não configurada. Configure em Configurações → Inteligência Artificial.'
+                : `API key não configurada para ${AI_PROVIDER_LABELS[provider] ?? provider}. Configure em Configurações → Inteligência Artificial.`,
+            { status: 400 }
+        );
+    }
 
-    if (!apiKey) {
-        const providerLabel = provider === 'google' ? 'Google Gemini' : provider === 'openai' ? 'OpenAI' : 'Anthropic';
+    if (provider === 'openai_compatible' && !modelId) {
         return new Response(
-            `API key não configurada para ${providerLabel}. Configure em Configurações → Inteligência Artificial.`,
+            'Modelo do servidor local não configurado. Configure em Configurações → Inteligência Artificial.',
             { status: 400 }
         );
     }
 
+    // Modelos locais só recebem as tools do CRM depois que o probe confirmou suporte a tool calling.
+    const toolsEnabled = provider !== 'openai_compatible' || (orgSettings as any)?.ai_local_supports_tools === true;
+
     const resolvedModelId =
         modelId || (provider === 'google' ? 'gemini-2.5-flash' : provider === 'openai' ? 'gpt-4o' : 'claude-sonnet-4-5');
 
+    // 4. Orçamento mensal de IA (org/usuário) + medição de tokens por chamada do agente
+    let meter: AIUsageMeter;
+    try {
+        meter = await createAIUsageMeter({ organizationId, userId: user.id, source: 'chat', feature: 'ai_chat_agent' });
+    } catch (err) {
+        if (err instanceof AIBudgetExceededError) {
+            return new Response(err.message, { status: 429 });
+        }
+        throw err;
+    }
+
     // 5. Build type-safe context for agent
     const context: CRMCallOptions = {
         organizationId,
@@ -214,13 +232,18 @@ export async function POST(req: Request) {
         ai: {
             provider,
             modelId: resolvedModelId,
+            toolsEnabled,
         },
     });
 
     // 6. Create agent with API key and context
     let agent: Awaited<ReturnType<typeof createCRMAgent>>;
     try {
-        agent = await createCRMAgent(context, user.id, apiKey, resolvedModelId, provider);
+        agent = await createCRMAgent(context, user.id, credentials.apiKey, resolvedModelId, provider, {
+            baseURL: credentials.baseURL,
+            toolsEnabled,
+            usage: meter.middleware,
+        });
     } catch (err: any) {
         const message = String(err?.message || err || 'Erro desconhecido');
         // Ex.: quando o provider é Gemini mas o modelId é OpenAI (ou vice-versa), o SDK retorna mensagens parecidas.
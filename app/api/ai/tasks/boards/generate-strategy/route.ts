@@ -1,6 +1,7 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { GenerateBoardStrategyInputSchema, BoardStrategyOutputSchema } from '@/lib/ai/tasks/schemas';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_board_generate_strategy');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_board_generate_strategy');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Gerar estratégia do board.' } }, 403);
@@ -32,7 +33,7 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => null);
     const { boardData } = GenerateBoardStrategyInputSchema.parse(body);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_boards_generate_strategy');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_boards_generate_strategy', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       boardName: boardData?.boardName || '',
     });
@@ -47,6 +48,7 @@ export async function POST(req: Request) {
     return json(result.object);
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
@@ -1,6 +1,7 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { RefineBoardInputSchema, RefineBoardOutputSchema } from '@/lib/ai/tasks/schemas';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_board_refine');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_board_refine');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Refinar board.' } }, 403);
@@ -35,7 +36,7 @@ export async function POST(req: Request) {
     const historyContext = chatHistory ? `\nHistórico:\n${JSON.stringify(chatHistory)}` : '';
     const boardContext = currentBoard ? `\nBoard atual (JSON):\n${JSON.stringify(currentBoard)}` : '';
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_boards_refine');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_boards_refine', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       userInstruction,
       boardContext,
@@ -52,6 +53,7 @@ export async function POST(req: Request) {
     return json(result.object);
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
@@ -1,6 +1,7 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { AnalyzeLeadInputSchema, AnalyzeLeadOutputSchema } from '@/lib/ai/tasks/schemas';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_deal_analyze');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_deal_analyze');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Análise de deal.' } }, 403);
@@ -35,7 +36,7 @@ export async function POST(req: Request) {
     const value = deal?.value ?? 0;
     const formattedValue = typeof value === 'number' ? value.toLocaleString('pt-BR') : String(value);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_analyze');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_analyze', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       dealTitle: deal?.title || '',
       dealValue: formattedValue,
@@ -53,6 +54,7 @@ export async function POST(req: Request) {
     return json(result.object);
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
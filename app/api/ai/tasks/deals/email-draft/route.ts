@@ -1,8 +1,9 @@
 import { generateText } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { GenerateEmailDraftInputSchema } from '@/lib/ai/tasks/schemas';
-import { getResolvedPrompt } from '@/lib/ai/prompts/server';
+import { getResolvedPrompt, toPromptUsage } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
 import { isAIFeatureEnabled } from '@/lib/ai/features/server';
 
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_email_draft');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_email_draft');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Rascunho de e-mail.' } }, 403);
@@ -32,7 +33,7 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => null);
     const { deal } = GenerateEmailDraftInputSchema.parse(body);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_email_draft');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_email_draft', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       contactName: deal?.contactName || 'Cliente',
       companyName: deal?.companyName || 'Empresa',
@@ -45,9 +46,10 @@ export async function POST(req: Request) {
       prompt,
     });
 
-    return json({ text: result.text });
+    return json({ text: result.text, prompt: toPromptUsage(resolved, 'task_deals_email_draft') });
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
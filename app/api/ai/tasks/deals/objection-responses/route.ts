@@ -1,8 +1,9 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { GenerateObjectionResponseInputSchema, ObjectionResponseOutputSchema } from '@/lib/ai/tasks/schemas';
-import { getResolvedPrompt } from '@/lib/ai/prompts/server';
+import { getResolvedPrompt, toPromptUsage } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
 import { isAIFeatureEnabled } from '@/lib/ai/features/server';
 
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_objection_responses');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_objection_responses');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Objeções.' } }, 403);
@@ -32,7 +33,7 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => null);
     const { deal, objection } = GenerateObjectionResponseInputSchema.parse(body);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_objection_responses');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_deals_objection_responses', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       objection,
       dealTitle: deal?.title || '',
@@ -45,9 +46,10 @@ export async function POST(req: Request) {
       prompt,
     });
 
-    return json(result.object);
+    return json({ ...result.object, prompt: toPromptUsage(resolved, 'task_deals_objection_responses') });
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
@@ -1,6 +1,7 @@
 import { generateText } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { GenerateDailyBriefingInputSchema } from '@/lib/ai/tasks/schemas';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_daily_briefing');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_daily_briefing');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Briefing diário.' } }, 403);
@@ -32,7 +33,7 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => null);
     const { radarData } = GenerateDailyBriefingInputSchema.parse(body);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_inbox_daily_briefing');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_inbox_daily_briefing', { bucketKey: userId });
     const prompt = renderPromptTemplate(resolved?.content || '', {
       dataJson: JSON.stringify({ radarData }),
     });
@@ -46,6 +47,7 @@ export async function POST(req: Request) {
     return json({ text: result.text });
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
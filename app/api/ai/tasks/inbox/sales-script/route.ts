@@ -1,6 +1,7 @@
 import { generateText } from 'ai';
 import { z } from 'zod';
-import { requireAITaskContext, AITaskHttpError } from '@/lib/ai/tasks/server';
+import { requireAITaskContext, AITaskHttpError, aiBudgetHttpError } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
 import { GenerateSalesScriptInputSchema } from '@/lib/ai/tasks/schemas';
 import { getResolvedPrompt } from '@/lib/ai/prompts/server';
 import { renderPromptTemplate } from '@/lib/ai/prompts/render';
@@ -23,7 +24,7 @@ function json(body: unknown, status = 200): Response {
  */
 export async function POST(req: Request) {
   try {
-    const { model, supabase, organizationId } = await requireAITaskContext(req);
+    const { model, supabase, organizationId, userId } = await requireAITaskContext(req, 'ai_sales_script');
     const enabled = await isAIFeatureEnabled(supabase as any, organizationId, 'ai_sales_script');
     if (!enabled) {
       return json({ error: { code: 'AI_FEATURE_DISABLED', message: 'Função de IA desativada: Script de vendas.' } }, 403);
@@ -32,7 +33,7 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => null);
     const { deal, scriptType, context } = GenerateSalesScriptInputSchema.parse(body);
 
-    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_inbox_sales_script');
+    const resolved = await getResolvedPrompt(supabase, organizationId, 'task_inbox_sales_script', { bucketKey: userId });
     const template = resolved?.content || '';
     const prompt = renderPromptTemplate(template, {
       scriptType: scriptType || 'geral',
@@ -49,6 +50,7 @@ export async function POST(req: Request) {
     return json({ script: result.text, scriptType, generatedFor: deal?.title });
   } catch (err: unknown) {
     if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
     if (err instanceof z.ZodError) {
       return json({ error: { code: 'INVALID_INPUT', message: 'Payload inválido.' } }, 400);
     }
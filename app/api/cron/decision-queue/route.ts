@@ -0,0 +1,51 @@
+import { timingSafeEqual } from 'crypto';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { runDecisionAnalyzers } from '@/lib/decisions/server';
+
+export const maxDuration = 300;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/** `Authorization: Bearer <CRON_SECRET>` (formato do Vercel Cron; serve para qualquer agendador). */
+function isAuthorizedCron(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const given = Buffer.from(req.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Run agendado dos analyzers da Central de Decisões para todas as organizações.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET) return json({ error: 'CRON_SECRET not configured' }, 503);
+  if (!isAuthorizedCron(req)) return json({ error: 'Unauthorized' }, 401);
+
+  const admin = createStaticAdminClient();
+  const { data: orgs, error } = await admin.from('organizations').select('id').is('deleted_at', null);
+  if (error) return json({ error: error.message }, 500);
+
+  const runs: Array<{ organizationId: string; addedDecisions?: number; error?: string }> = [];
+  for (const org of orgs || []) {
+    try {
+      const summary = await runDecisionAnalyzers(admin, org.id, { trigger: 'schedule' });
+      runs.push({ organizationId: org.id, addedDecisions: summary.addedDecisions });
+    } catch (err) {
+      console.error(`[api/cron/decision-queue] org ${org.id} failed:`, err);
+      runs.push({ organizationId: org.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return json({ ok: true, runs });
+}
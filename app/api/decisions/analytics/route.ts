@@ -0,0 +1,72 @@
+import { createClient } from '@/lib/supabase/server';
+import { analyzers } from '@/features/decisions/analyzers';
+import type { DecisionAnalyticsReport } from '@/lib/decisions/analytics';
+import { loadAnalyzerOverrides, loadDecisionAnalytics } from '@/lib/decisions/server';
+
+export const maxDuration = 30;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+function parseBoundedInt(raw: string | null, fallback: number, min: number, max: number): number {
+  const value = Number(raw);
+  if (!raw || !Number.isInteger(value)) return fallback;
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Relatório de resultados da Central de Decisões (`?days=90&window=14`): taxas de aprovação,
+ * rejeição e adiamento por analyzer, tempo até a decisão e avanço dos deals na janela.
+ * Inclui o ajuste de prioridade atual de cada analyzer (padrão da organização).
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const days = parseBoundedInt(url.searchParams.get('days'), 90, 7, 365);
+  const windowDays = parseBoundedInt(url.searchParams.get('window'), 14, 1, 90);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  try {
+    const [report, overrides] = await Promise.all([
+      loadDecisionAnalytics(supabase, me.organization_id, { days, windowDays }),
+      loadAnalyzerOverrides(supabase, me.organization_id),
+    ]);
+
+    const names = new Map(analyzers.map((a) => [a.id, a.name]));
+    return json<DecisionAnalyticsReport>({
+      ...report,
+      isAdmin: me.role === 'admin',
+      analyzers: report.analyzers.map((stats) => ({
+        ...stats,
+        analyzerName: names.get(stats.analyzerId) ?? stats.analyzerId,
+        priorityOffset:
+          overrides.find((o) => o.analyzerId === stats.analyzerId && o.boardId === null)?.priorityOffset ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error('[decisions/analytics] failed:', error);
+    return json({ error: error instanceof Error ? error.message : 'Erro ao gerar o relatório' }, 500);
+  }
+}
@@ -0,0 +1,50 @@
+import { createClient, createStaticAdminClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { runDecisionAnalyzers } from '@/lib/decisions/server';
+
+export const maxDuration = 60;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * "Analisar Agora" da Central de Decisões: roda os analyzers da organização no servidor.
+ * As decisões novas chegam na tela via realtime (ai_decisions).
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  try {
+    const summary = await runDecisionAnalyzers(createStaticAdminClient(), me.organization_id, {
+      trigger: 'manual',
+      triggeredBy: me.id,
+    });
+    return json(summary);
+  } catch (err) {
+    console.error('[api/decisions/run] Error:', err);
+    return json({ error: 'Falha ao analisar o CRM' }, 500);
+  }
+}
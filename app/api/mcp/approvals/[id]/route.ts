@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { decideMcpApproval } from '@/lib/mcp/approvals';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+const DecisionSchema = z
+  .object({
+    decision: z.enum(['approve', 'reject']),
+    reason: z.string().max(1000).optional(),
+  })
+  .strict();
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ * Aprova (e executa) ou rejeita uma chamada MCP pendente.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @param {{ params: Promise<{ id: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const { id } = await ctx.params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = DecisionSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  // RLS: membros enxergam os pedidos da própria organização.
+  const { data: approval, error: approvalError } = await supabase
+    .from('mcp_tool_approvals')
+    .select('id, requested_by')
+    .eq('organization_id', me.organization_id)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (approvalError) return json({ error: approvalError.message }, 500);
+  if (!approval) return json({ error: 'Not found' }, 404);
+  if (me.role !== 'admin' && approval.requested_by !== user.id) return json({ error: 'Forbidden' }, 403);
+
+  const result = await decideMcpApproval({
+    organizationId: me.organization_id,
+    approvalId: id,
+    userId: user.id,
+    decision: parsed.data.decision,
+    reason: parsed.data.reason,
+  });
+  if (!result.ok) return json({ error: result.error }, result.status);
+
+  return json({
+    ok: true,
+    status: result.approval.status,
+    error: result.approval.error,
+  });
+}
@@ -0,0 +1,50 @@
+import { createClient } from '@/lib/supabase/server';
+import { listPendingMcpApprovals } from '@/lib/mcp/approvals';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ * Lista as chamadas MCP aguardando aprovação humana na organização do usuário.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  try {
+    const approvals = await listPendingMcpApprovals(me.organization_id);
+    return json({
+      approvals: approvals.map((a) => ({
+        id: a.id,
+        toolName: a.tool_name,
+        toolTitle: a.tool_title || a.tool_name,
+        arguments: a.arguments ?? {},
+        requestedBy: a.requested_by,
+        createdAt: a.created_at,
+        expiresAt: a.expires_at,
+        // Só admins ou o dono da API key podem decidir.
+        canDecide: me.role === 'admin' || a.requested_by === user.id,
+      })),
+    });
+  } catch (e: any) {
+    return json({ error: e?.message || 'Failed to list approvals' }, 500);
+  }
+}
@@ -1,25 +1,57 @@
-import { NextResponse } from 'next/server';
+import { after, NextResponse } from 'next/server';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { getClientIp, hasApiKeyScope } from '@/lib/public-api/scopes';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { buildMcpToolAuditEntry, recordApiKeyAuditEvent, type ApiKeyAuditOutcome } from '@/lib/public-api/audit';
 import { createStaticAdminClient } from '@/lib/supabase/server';
-import { buildCrmMcpRegistry } from '@/lib/mcp/crmRegistry';
+import { buildCrmMcpRegistry, type CrmMcpRegistry } from '@/lib/mcp/crmRegistry';
 import { zodToJsonSchema2020 } from '@/lib/mcp/zodToJsonSchema';
+import { CRM_RESOURCE_TEMPLATES, listCrmResources, readCrmResource } from '@/lib/mcp/crmResources';
+import { CRM_RESOURCE_SCOPES, canReadCrmResource, canUseMcpTool, crmResourceScope } from '@/lib/mcp/scopes';
+import { buildCrmMcpPromptMessages, listCrmMcpPrompts } from '@/lib/mcp/crmPrompts';
+import { getPromptCatalogMap } from '@/lib/ai/prompts/catalog';
+import { getResolvedPrompt } from '@/lib/ai/prompts/server';
+import { recordAIUsageEvent } from '@/lib/ai/usage';
+import type { ToolProgressReporter } from '@/lib/ai/toolProgress';
+import {
+  MCP_APPROVAL_DESCRIPTION_SUFFIX,
+  MCP_APPROVAL_STATUS_TOOL,
+  createMcpApprovalRequest,
+  getMcpApprovalForApiKey,
+  toMcpApprovalPayload,
+} from '@/lib/mcp/approvals';
+import {
+  MCP_PROTOCOL_VERSION,
+  MCP_SESSION_HEADER,
+  acceptsEventStream,
+  encodeSseKeepAlive,
+  encodeSseMessage,
+  getProgressToken,
+  isJsonRpcRequest,
+  jsonRpcError,
+  jsonRpcNotification,
+  jsonRpcResult,
+  parseJsonRpcBody,
+  toolsFingerprint,
+  type JsonRpcMessage,
+} from '@/lib/mcp/transport';
+import {
+  closeMcpSession,
+  createMcpSession,
+  getUsableMcpSession,
+  updateMcpSessionToolsFingerprint,
+  type McpSession,
+} from '@/lib/mcp/sessions';
 
 export const runtime = 'nodejs';
+export const maxDuration = 60;
 
-type JsonRpcRequest = {
-  jsonrpc: '2.0';
-  id?: string | number | null;
-  method: string;
-  params?: any;
-};
-
-function jsonRpcResult(id: JsonRpcRequest['id'], result: unknown) {
-  return { jsonrpc: '2.0', id: id ?? null, result };
-}
+/** Older revisions we still answer with their own version string (same wire format for what we use). */
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2025-06-18', '2025-03-26'];
 
-function jsonRpcError(id: JsonRpcRequest['id'], code: number, message: string, data?: unknown) {
-  return { jsonrpc: '2.0', id: id ?? null, error: { code, message, ...(data ? { data } : {}) } };
-}
+/** The GET stream closes before `maxDuration`; clients reconnect (Streamable HTTP allows it). */
+const SSE_STREAM_MAX_MS = 50_000;
+const SSE_KEEPALIVE_MS = 15_000;
 
 function getApiKeyFromHeaders(request: Request) {
   const headerKey = request.headers.get('x-api-key');
@@ -36,12 +68,10 @@ async function authMcp(request: Request) {
   const apiKey = getApiKeyFromHeaders(request);
   if (!apiKey) return { ok: false as const, status: 401, body: { error: 'Missing API key', code: 'AUTH_MISSING' } };
 
-  // `authPublicApi` expects X-Api-Key. Most MCP clients use Authorization: Bearer, so we normalize here.
-  const headers = new Headers(request.headers);
-  headers.set('x-api-key', apiKey);
-  const normalized = new Request(request.url, { method: request.method, headers });
-
-  return await authPublicApi(normalized);
+  // Most MCP clients use Authorization: Bearer, so we pass the token explicitly.
+  // Same key rules as the Public API (expiry, IP allowlist, rate limit), plus the `mcp:call` scope.
+  // Each tool/resource also checks its own resource scope (lib/mcp/scopes.ts).
+  return await authPublicApi(request, 'mcp:call', { token: apiKey });
 }
 
 function toToolResult(payload: unknown, opts?: { isError?: boolean }) {
@@ -72,107 +102,515 @@ async function resolveApiKeyOwnerUserId(opts: { apiKeyId: string; organizationId
   return data.created_by as string | null;
 }
 
-export async function GET() {
-  return NextResponse.json({
-    ok: true,
-    name: 'crmia-next-mcp',
-    endpoint: '/api/mcp',
-    auth: 'Authorization: Bearer <API_KEY> (or X-Api-Key header)',
-    protocolVersion: '2025-11-25',
+type McpRequestContext = {
+  auth: { organizationId: string; apiKeyId: string; apiKeyPrefix: string; scopes: string[] };
+  userId: string;
+  registry: CrmMcpRegistry;
+  session: McpSession | null;
+  client: { ip: string | null; userAgent: string | null };
+};
+
+/** Result of one JSON-RPC message: the response (null for notifications) and the HTTP status when sent alone. */
+type HandledMessage = { response: object | null; status: number; sessionId?: string };
+
+/** Server→client messages sent before the response (SSE mode only). */
+type Emit = (message: unknown) => void;
+
+function mcpError(status: number, message: string) {
+  return NextResponse.json(jsonRpcError(null, -32000, message), { status });
+}
+
+/** Tools the key can call: out-of-scope tools are not advertised. */
+function publishedTools(registry: CrmMcpRegistry, scopes: readonly string[]) {
+  const tools = registry.tools.filter((t) => canUseMcpTool(scopes, t)).map((t) => ({
+    name: t.name,
+    title: t.title,
+    description: t.needsApproval ? `${t.description}${MCP_APPROVAL_DESCRIPTION_SUFFIX}` : t.description,
+    inputSchema: zodToJsonSchema2020(t.inputSchemaZod),
+  }));
+  tools.push({
+    name: MCP_APPROVAL_STATUS_TOOL.name,
+    title: MCP_APPROVAL_STATUS_TOOL.title,
+    description: MCP_APPROVAL_STATUS_TOOL.description,
+    inputSchema: zodToJsonSchema2020(MCP_APPROVAL_STATUS_TOOL.inputSchemaZod),
   });
+  return tools;
 }
 
-export async function POST(request: Request) {
-  const auth = await authMcp(request);
-  if (!auth.ok) {
-    // JSON-RPC friendly error envelope (MCP clients will still see 401 if they surface it)
-    return NextResponse.json({ jsonrpc: '2.0', id: null, error: { code: -32001, message: auth.body.error, data: auth.body } }, { status: auth.status });
+async function callTool(body: JsonRpcMessage, ctx: McpRequestContext, emit: Emit | null): Promise<HandledMessage> {
+  const { auth, registry, userId } = ctx;
+  const ok = (result: unknown) => ({ response: jsonRpcResult(body.id, result), status: 200 });
+
+  const toolName = body.params?.name;
+  const args = body.params?.arguments ?? {};
+  if (typeof toolName !== 'string' || !toolName) {
+    return { response: jsonRpcError(body.id, -32602, 'Invalid params: missing tool name'), status: 400 };
+  }
+
+  if (toolName === MCP_APPROVAL_STATUS_TOOL.name) {
+    const parsed = MCP_APPROVAL_STATUS_TOOL.inputSchemaZod.safeParse(args);
+    if (!parsed.success) return ok(toToolResult({ error: 'Invalid approval token' }, { isError: true }));
+    try {
+      const approval = await getMcpApprovalForApiKey({
+        organizationId: auth.organizationId,
+        apiKeyId: auth.apiKeyId,
+        token: parsed.data.token,
+      });
+      if (!approval) return ok(toToolResult({ error: 'Approval not found' }, { isError: true }));
+      return ok(toToolResult(toMcpApprovalPayload(approval)));
+    } catch (e: any) {
+      return ok(toToolResult({ error: e?.message || 'Failed to load approval' }, { isError: true }));
+    }
   }
 
-  const body = (await request.json().catch(() => null)) as JsonRpcRequest | null;
-  if (!body || body.jsonrpc !== '2.0' || typeof body.method !== 'string') {
-    return NextResponse.json(jsonRpcError(null, -32600, 'Invalid Request'), { status: 400 });
+  const tool = registry.toolByMcpName[toolName];
+  const draft = registry.tools.find((t) => t.name === toolName);
+  if (!tool || !draft) {
+    return { response: jsonRpcError(body.id, -32602, `Unknown tool: ${toolName}`), status: 400 };
+  }
+  if (!canUseMcpTool(auth.scopes, draft)) {
+    return {
+      response: jsonRpcError(body.id, -32001, `API key is missing the ${draft.scope ?? '*'} scope for ${toolName}`, {
+        code: 'AUTH_SCOPE_MISSING',
+        scope: draft.scope ?? '*',
+      }),
+      status: 403,
+    };
   }
 
-  const userId = await resolveApiKeyOwnerUserId({ apiKeyId: auth.apiKeyId, organizationId: auth.organizationId });
-  if (!userId) {
-    return NextResponse.json(
-      { jsonrpc: '2.0', id: body.id ?? null, error: { code: -32001, message: 'Invalid API key owner', data: { code: 'AUTH_OWNER_INVALID' } } },
-      { status: 401 }
-    );
+  // Validate inputs using the underlying Zod schema when available (no schema: best-effort execute).
+  let toolArgs: any = args;
+  const schema: any = (tool as any).inputSchema;
+  if (schema && typeof schema.safeParse === 'function') {
+    const parsed = schema.safeParse(args);
+    if (!parsed.success) {
+      const msg = parsed.error?.issues?.map((i: any) => i?.message).filter(Boolean).join('; ') || 'Invalid tool arguments';
+      return ok(toToolResult({ error: msg }, { isError: true }));
+    }
+    toolArgs = parsed.data;
   }
 
-  // Minimal context for MCP execution. Tool args can still include boardId/dealId/etc.
-  const registry = buildCrmMcpRegistry({
-    context: { organizationId: auth.organizationId },
-    userId,
+  // Destructive tools wait for a human (Decision Queue); the client polls the returned token.
+  if (draft.needsApproval) {
+    try {
+      const approval = await createMcpApprovalRequest({
+        organizationId: auth.organizationId,
+        apiKeyId: auth.apiKeyId,
+        userId,
+        tool: draft,
+        args: toolArgs ?? {},
+      });
+      return ok(toToolResult(toMcpApprovalPayload(approval)));
+    } catch (e: any) {
+      return ok(toToolResult({ error: e?.message || 'Failed to request approval' }, { isError: true }));
+    }
+  }
+
+  // `notifications/progress` only when the client asked for it and the response is an SSE stream.
+  const progressToken = getProgressToken(body);
+  const reportProgress: ToolProgressReporter | undefined =
+    emit && progressToken !== null
+      ? (progress, total, message) =>
+          emit(
+            jsonRpcNotification('notifications/progress', {
+              progressToken,
+              progress,
+              ...(total !== undefined ? { total } : {}),
+              ...(message ? { message } : {}),
+            })
+          )
+      : undefined;
+
+  try {
+    const out = await (tool as any).execute(toolArgs, {
+      toolCallId: `mcp-${String(body.id ?? '')}`,
+      messages: [],
+      experimental_context: reportProgress ? { reportProgress } : undefined,
+    });
+    return ok(toToolResult(out));
+  } catch (e: any) {
+    return ok(toToolResult({ error: e?.message || 'Tool execution failed' }, { isError: true }));
+  }
+}
+
+/** One `audit_logs` entry per `tools/call` (the generic public API audit is off for this route). */
+function auditToolCall(body: JsonRpcMessage, ctx: McpRequestContext, handled: HandledMessage) {
+  const response = handled.response as { error?: { message?: string }; result?: any } | null;
+  const structured = response?.result?.structuredContent as Record<string, any> | undefined;
+  const approval = structured?.approval as { token?: string; status?: string } | undefined;
+  const toolName = typeof body.params?.name === 'string' ? body.params.name : '';
+
+  let outcome: ApiKeyAuditOutcome = 'success';
+  let error: string | null = null;
+  if (response?.error) {
+    outcome = 'error';
+    error = response.error.message ?? null;
+  } else if (response?.result?.isError) {
+    outcome = 'error';
+    error = typeof structured?.error === 'string' ? structured.error : null;
+  } else if (toolName !== MCP_APPROVAL_STATUS_TOOL.name && approval?.status === 'pending') {
+    outcome = 'pending_approval';
+  }
+
+  const entry = buildMcpToolAuditEntry({
+    toolName,
+    apiKeyPrefix: ctx.auth.apiKeyPrefix,
+    args: body.params?.arguments ?? {},
+    result: outcome === 'pending_approval' ? null : structured ?? null,
+    outcome,
+    error,
+    extra: outcome === 'pending_approval' && approval?.token ? { approval_id: approval.token } : undefined,
   });
 
+  after(() =>
+    recordApiKeyAuditEvent({
+      organizationId: ctx.auth.organizationId,
+      apiKeyId: ctx.auth.apiKeyId,
+      apiKeyPrefix: ctx.auth.apiKeyPrefix,
+      userId: ctx.userId,
+      ipAddress: ctx.client.ip,
+      userAgent: ctx.client.userAgent,
+      entry,
+    })
+  );
+}
+
+/**
+ * MCP tool calls run CRM code, not a model: they are metered as zero-token events so the usage
+ * dashboard can show MCP traffic per API key next to chat/task consumption.
+ */
+function meterToolCall(body: JsonRpcMessage, ctx: McpRequestContext) {
+  const toolName = typeof body.params?.name === 'string' ? body.params.name : '';
+  if (!toolName) return;
+  after(() =>
+    recordAIUsageEvent({
+      organizationId: ctx.auth.organizationId,
+      userId: ctx.userId,
+      apiKeyId: ctx.auth.apiKeyId,
+      source: 'mcp',
+      feature: toolName,
+      provider: null,
+      model: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+    })
+  );
+}
+
+async function handleMessage(body: JsonRpcMessage, ctx: McpRequestContext, emit: Emit | null): Promise<HandledMessage> {
+  const { auth, registry } = ctx;
+
+  // Notifications (`notifications/initialized`, `notifications/cancelled`, ...) and client responses: no reply.
+  if (!isJsonRpcRequest(body)) return { response: null, status: 202 };
+
   // MCP core methods
   if (body.method === 'initialize') {
-    return NextResponse.json(
-      jsonRpcResult(body.id, {
-        protocolVersion: '2025-11-25',
+    const requested = body.params?.protocolVersion;
+    const protocolVersion =
+      typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION;
+
+    // Best-effort: without a session row the client simply stays stateless.
+    let sessionId: string | undefined;
+    try {
+      const session = await createMcpSession({
+        organizationId: auth.organizationId,
+        apiKeyId: auth.apiKeyId,
+        protocolVersion,
+        clientInfo: body.params?.clientInfo,
+        toolsFingerprint: toolsFingerprint(publishedTools(registry, auth.scopes)),
+      });
+      sessionId = session.id;
+    } catch {
+      sessionId = undefined;
+    }
+
+    return {
+      response: jsonRpcResult(body.id, {
+        protocolVersion,
         serverInfo: { name: 'crmia-next-mcp', version: '0.1.0' },
-        capabilities: { tools: { listChanged: false } },
-      })
-    );
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: false, listChanged: false },
+          prompts: { listChanged: false },
+        },
+      }),
+      status: 200,
+      sessionId,
+    };
   }
 
-  if (body.method === 'notifications/initialized') {
-    // Notification: no response required by JSON-RPC, but returning 204 keeps proxies happy.
-    return new NextResponse(null, { status: 204 });
+  if (body.method === 'ping') {
+    return { response: jsonRpcResult(body.id, {}), status: 200 };
   }
 
   if (body.method === 'tools/list') {
-    const tools = registry.tools.map((t) => ({
-      name: t.name,
-      title: t.title,
-      description: t.description,
-      inputSchema: zodToJsonSchema2020(t.inputSchemaZod),
-    }));
-
-    return NextResponse.json(jsonRpcResult(body.id, { tools }));
+    const tools = publishedTools(registry, auth.scopes);
+    // The session now knows this list: `list_changed` fires only for later changes.
+    if (ctx.session) {
+      const fingerprint = toolsFingerprint(tools);
+      if (fingerprint !== ctx.session.tools_fingerprint) {
+        await updateMcpSessionToolsFingerprint(ctx.session.id, fingerprint).catch(() => undefined);
+      }
+    }
+    return { response: jsonRpcResult(body.id, { tools }), status: 200 };
   }
 
   if (body.method === 'tools/call') {
-    const toolName = body.params?.name;
-    const args = body.params?.arguments ?? {};
-    if (typeof toolName !== 'string' || !toolName) {
-      return NextResponse.json(jsonRpcError(body.id, -32602, 'Invalid params: missing tool name'), { status: 400 });
-    }
+    const handled = await callTool(body, ctx, emit);
+    auditToolCall(body, ctx, handled);
+    meterToolCall(body, ctx);
+    return handled;
+  }
 
-    const tool = registry.toolByMcpName[toolName];
-    if (!tool) {
-      return NextResponse.json(jsonRpcError(body.id, -32602, `Unknown tool: ${toolName}`), { status: 400 });
+  if (body.method === 'resources/list') {
+    try {
+      const resources = (await listCrmResources(auth.organizationId)).filter((r) => canReadCrmResource(auth.scopes, r.uri));
+      return { response: jsonRpcResult(body.id, { resources }), status: 200 };
+    } catch (e: any) {
+      return { response: jsonRpcError(body.id, -32603, e?.message || 'Failed to list resources'), status: 500 };
     }
+  }
 
-    // Validate inputs using the underlying Zod schema when available.
-    const schema: any = (tool as any).inputSchema;
-    if (schema && typeof schema.safeParse === 'function') {
-      const parsed = schema.safeParse(args);
-      if (!parsed.success) {
-        const msg = parsed.error?.issues?.map((i: any) => i?.message).filter(Boolean).join('; ') || 'Invalid tool arguments';
-        return NextResponse.json(jsonRpcResult(body.id, toToolResult({ error: msg }, { isError: true })));
-      }
+  if (body.method === 'resources/templates/list') {
+    const resourceTemplates = CRM_RESOURCE_TEMPLATES.filter((t) => hasApiKeyScope(auth.scopes, CRM_RESOURCE_SCOPES[t.name]));
+    return { response: jsonRpcResult(body.id, { resourceTemplates }), status: 200 };
+  }
 
-      try {
-        const out = await (tool as any).execute(parsed.data);
-        return NextResponse.json(jsonRpcResult(body.id, toToolResult(out)));
-      } catch (e: any) {
-        return NextResponse.json(jsonRpcResult(body.id, toToolResult({ error: e?.message || 'Tool execution failed' }, { isError: true })));
-      }
+  if (body.method === 'resources/read') {
+    const uri = body.params?.uri;
+    if (typeof uri !== 'string' || !uri) {
+      return { response: jsonRpcError(body.id, -32602, 'Invalid params: missing uri'), status: 400 };
+    }
+    if (!canReadCrmResource(auth.scopes, uri)) {
+      const scope = crmResourceScope(uri);
+      return {
+        response: jsonRpcError(body.id, -32001, `API key is missing the ${scope} scope`, { code: 'AUTH_SCOPE_MISSING', scope, uri }),
+        status: 403,
+      };
     }
 
-    // No schema: best-effort execute.
     try {
-      const out = await (tool as any).execute(args);
-      return NextResponse.json(jsonRpcResult(body.id, toToolResult(out)));
+      const contents = await readCrmResource(auth.organizationId, uri);
+      if (!contents) {
+        // MCP: -32002 = resource not found
+        return { response: jsonRpcError(body.id, -32002, 'Resource not found', { uri }), status: 404 };
+      }
+      return { response: jsonRpcResult(body.id, { contents: [contents] }), status: 200 };
     } catch (e: any) {
-      return NextResponse.json(jsonRpcResult(body.id, toToolResult({ error: e?.message || 'Tool execution failed' }, { isError: true })));
+      return { response: jsonRpcError(body.id, -32603, e?.message || 'Failed to read resource'), status: 500 };
+    }
+  }
+
+  if (body.method === 'prompts/list') {
+    return { response: jsonRpcResult(body.id, { prompts: listCrmMcpPrompts() }), status: 200 };
+  }
+
+  if (body.method === 'prompts/get') {
+    const promptName = body.params?.name;
+    const item = typeof promptName === 'string' ? getPromptCatalogMap()[promptName] : undefined;
+    if (!item) {
+      return { response: jsonRpcError(body.id, -32602, `Unknown prompt: ${String(promptName ?? '')}`), status: 400 };
     }
+
+    // Organization overrides (Central de I.A) win over the catalog default, same as the AI routes.
+    const resolved = await getResolvedPrompt(createStaticAdminClient(), auth.organizationId, item.key);
+    return {
+      response: jsonRpcResult(
+        body.id,
+        buildCrmMcpPromptMessages({ item, template: resolved?.content ?? item.defaultTemplate, args: body.params?.arguments })
+      ),
+      status: 200,
+    };
+  }
+
+  return { response: jsonRpcError(body.id, -32601, `Method not found: ${body.method}`), status: 404 };
+}
+
+/** Authenticates the key and resolves the `Mcp-Session-Id` header (if any). */
+async function openMcpRequest(request: Request) {
+  const auth = await authMcp(request);
+  if (!auth.ok) {
+    // JSON-RPC friendly error envelope (MCP clients will still see 401 if they surface it)
+    return {
+      ok: false as const,
+      response: NextResponse.json(
+        { jsonrpc: '2.0', id: null, error: { code: -32001, message: auth.body.error, data: auth.body } },
+        { status: auth.status, headers: 'headers' in auth ? auth.headers : undefined }
+      ),
+    };
+  }
+
+  const sessionId = request.headers.get(MCP_SESSION_HEADER)?.trim() || null;
+  let session: McpSession | null = null;
+  if (sessionId) {
+    session = await getUsableMcpSession(sessionId, auth).catch(() => null);
+    // Streamable HTTP: unknown/expired session -> 404, the client must send a new `initialize`.
+    if (!session) return { ok: false as const, response: mcpError(404, 'Session not found or expired') };
   }
 
-  return NextResponse.json(jsonRpcError(body.id, -32601, `Method not found: ${body.method}`), { status: 404 });
+  return { ok: true as const, auth, sessionId, session };
+}
+
+async function resolveRequestContext(request: Request, auth: McpRequestContext['auth'], session: McpSession | null) {
+  const userId = await resolveApiKeyOwnerUserId({ apiKeyId: auth.apiKeyId, organizationId: auth.organizationId });
+  if (!userId) return null;
+
+  // Minimal context for MCP execution. Tool args can still include boardId/dealId/etc.
+  const registry = buildCrmMcpRegistry({
+    context: { organizationId: auth.organizationId },
+    userId,
+  });
+  const client = { ip: getClientIp(request), userAgent: request.headers.get('user-agent') };
+  return { auth, userId, registry, session, client } satisfies McpRequestContext;
 }
 
+const SSE_HEADERS = {
+  'content-type': 'text/event-stream; charset=utf-8',
+  'cache-control': 'no-cache, no-transform',
+  connection: 'keep-alive',
+};
+
+export const GET = withPublicApiUsage(async (request: Request) => {
+  // Plain GET: health/metadata (kept for humans and the settings page).
+  if (!acceptsEventStream(request)) {
+    return NextResponse.json({
+      ok: true,
+      name: 'crmia-next-mcp',
+      endpoint: '/api/mcp',
+      auth: 'Authorization: Bearer <API_KEY> (or X-Api-Key header)',
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      transport: 'streamable-http',
+    });
+  }
+
+  const opened = await openMcpRequest(request);
+  if (!opened.ok) return opened.response;
+  if (!opened.session) return mcpError(400, `Missing ${MCP_SESSION_HEADER} header`);
+
+  const ctx = await resolveRequestContext(request, opened.auth, opened.session);
+  if (!ctx) return mcpError(401, 'Invalid API key owner');
+
+  const session = opened.session;
+  const encoder = new TextEncoder();
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  const stopTimers = () => {
+    clearInterval(keepAlive);
+    clearTimeout(deadline);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        stopTimers();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+
+      // The tool list only changes with a deploy (new code = new process), so checking on connect is enough:
+      // clients reconnect after each `SSE_STREAM_MAX_MS` window.
+      const fingerprint = toolsFingerprint(publishedTools(ctx.registry, ctx.auth.scopes));
+      if (session.tools_fingerprint && session.tools_fingerprint !== fingerprint) {
+        controller.enqueue(encoder.encode(encodeSseMessage(jsonRpcNotification('notifications/tools/list_changed'))));
+        void updateMcpSessionToolsFingerprint(session.id, fingerprint).catch(() => undefined);
+      } else {
+        controller.enqueue(encoder.encode(encodeSseKeepAlive()));
+      }
+
+      keepAlive = setInterval(() => controller.enqueue(encoder.encode(encodeSseKeepAlive())), SSE_KEEPALIVE_MS);
+      deadline = setTimeout(close, SSE_STREAM_MAX_MS);
+      request.signal?.addEventListener('abort', close);
+    },
+    cancel: stopTimers,
+  });
+
+  return new Response(stream, { status: 200, headers: { ...SSE_HEADERS, [MCP_SESSION_HEADER]: session.id } });
+});
+
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const opened = await openMcpRequest(request);
+  if (!opened.ok) return opened.response;
+
+  const raw = await request.json().catch(() => undefined);
+  if (raw === undefined) {
+    return NextResponse.json(jsonRpcError(null, -32700, 'Parse error'), { status: 400 });
+  }
+  const parsed = parseJsonRpcBody(raw);
+  if (!parsed.ok) return NextResponse.json(parsed.error, { status: 400 });
+
+  const { messages, batch } = parsed;
+  const firstId = messages.find((m) => m.id !== undefined)?.id;
+  if (batch && messages.some((m) => m.method === 'initialize')) {
+    return NextResponse.json(jsonRpcError(firstId, -32600, 'initialize must not be part of a batch'), { status: 400 });
+  }
+
+  const ctx = await resolveRequestContext(request, opened.auth, opened.session);
+  if (!ctx) {
+    return NextResponse.json(
+      { jsonrpc: '2.0', id: firstId ?? null, error: { code: -32001, message: 'Invalid API key owner', data: { code: 'AUTH_OWNER_INVALID' } } },
+      { status: 401 }
+    );
+  }
+
+  const sessionHeaders: Record<string, string> = opened.sessionId ? { [MCP_SESSION_HEADER]: opened.sessionId } : {};
+
+  // Only notifications / client responses: nothing to answer.
+  if (!messages.some(isJsonRpcRequest)) {
+    return new NextResponse(null, { status: 202, headers: sessionHeaders });
+  }
+
+  // SSE when the client accepts it and some request wants progress; otherwise a plain JSON body.
+  const wantsStream = acceptsEventStream(request) && messages.some((m) => isJsonRpcRequest(m) && getProgressToken(m) !== null);
+  if (wantsStream) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const emit: Emit = (message) => controller.enqueue(encoder.encode(encodeSseMessage(message)));
+        for (const message of messages) {
+          try {
+            const handled = await handleMessage(message, ctx, emit);
+            if (handled.response) emit(handled.response);
+          } catch (e: any) {
+            // Headers are already sent: report the failure in-band.
+            if (isJsonRpcRequest(message)) emit(jsonRpcError(message.id, -32603, e?.message || 'Internal error'));
+          }
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream, { status: 200, headers: { ...SSE_HEADERS, ...sessionHeaders } });
+  }
+
+  // Batch entries run in order (tools may depend on earlier writes).
+  const results: HandledMessage[] = [];
+  for (const message of messages) results.push(await handleMessage(message, ctx, null));
+
+  const newSessionId = results.find((r) => r.sessionId)?.sessionId;
+  const headers = newSessionId ? { [MCP_SESSION_HEADER]: newSessionId } : sessionHeaders;
+
+  if (!batch) {
+    const [only] = results;
+    return NextResponse.json(only.response, { status: only.status, headers });
+  }
+  return NextResponse.json(
+    results.map((r) => r.response).filter(Boolean),
+    { status: 200, headers }
+  );
+}, { audit: false });
+
+export const DELETE = withPublicApiUsage(async (request: Request) => {
+  const opened = await openMcpRequest(request);
+  if (!opened.ok) return opened.response;
+  if (!opened.session) return mcpError(400, `Missing ${MCP_SESSION_HEADER} header`);
+
+  try {
+    await closeMcpSession(opened.session.id);
+  } catch (e: any) {
+    return mcpError(500, e?.message || 'Failed to close session');
+  }
+  return new NextResponse(null, { status: 204 });
+}, { audit: false });
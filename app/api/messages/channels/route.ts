@@ -0,0 +1,26 @@
+import { createClient } from '@/lib/supabase/server';
+import { configuredChannels } from '@/lib/messaging/transports';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Canais com envio pelo servidor configurado (`{ email, whatsapp, sms }`).
+ *
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  return json({ channels: configuredChannels() });
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { sendDealMessage } from '@/lib/messaging/server';
+import { MESSAGING_CHANNELS, MessagingError } from '@/lib/messaging/types';
+
+export const maxDuration = 30;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+const SendMessageSchema = z
+  .object({
+    channel: z.enum(MESSAGING_CHANNELS),
+    dealId: z.string().uuid().nullable().optional(),
+    contactId: z.string().uuid().nullable().optional(),
+    /** Sobrescreve o email/telefone do contato; a mensagem continua presa ao deal/contato. */
+    to: z.string().trim().max(320).nullable().optional(),
+    subject: z.string().max(300).optional(),
+    message: z.string().trim().min(1).max(10_000),
+    logContext: z.string().max(2000).optional(),
+  })
+  .strict()
+  .refine((v) => Boolean(v.dealId || v.contactId), { message: 'Informe dealId ou contactId', path: ['dealId'] });
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Envia email/WhatsApp/SMS pelo transporte configurado no servidor e registra no deal.
+ * Sempre para um deal/contato da organização: `to` só troca o endereço daquele registro.
+ * `503 NOT_CONFIGURED` quando o canal não tem transporte (o client cai no wa.me/mailto).
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = SendMessageSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { message, ...input } = parsed.data;
+
+  try {
+    const result = await sendDealMessage(supabase, {
+      ...input,
+      body: message,
+      organizationId: me.organization_id,
+      userId: me.id,
+    });
+    return json({ ok: true, ...result });
+  } catch (err) {
+    if (err instanceof MessagingError) return json({ error: err.message, code: err.code }, err.status);
+    console.error('[api/messages/send] Error:', err);
+    return json({ error: 'Falha ao enviar a mensagem' }, 500);
+  }
+}
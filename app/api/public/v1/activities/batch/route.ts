@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { ActivityCreateSchema, activityBatchKeys, ActivityPatchSchema, createActivity, updateActivity } from '@/lib/public-api/activitiesUpsert';
+import { BatchRequestSchema, invalidItem, runBatch } from '@/lib/public-api/batch';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+
+export const runtime = 'nodejs';
+// Lote de até `PUBLIC_API_BATCH_MAX_ITEMS` itens, em paralelo limitado (ver lib/public-api/batch.ts).
+export const maxDuration = 60;
+
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'activities:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const body = await request.json().catch(() => null);
+  const parsed = BatchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  // Item com `id` = atualização; sem `id` = criação.
+  const result = await runBatch(parsed.data.items, async (item) => {
+    if (item && typeof item === 'object' && 'id' in item) {
+      const update = ActivityPatchSchema.safeParse(item);
+      if (!update.success) return invalidItem();
+      return updateActivity({ organizationId: auth.organizationId, input: update.data });
+    }
+    const create = ActivityCreateSchema.safeParse(item);
+    if (!create.success) return invalidItem();
+    return createActivity({ organizationId: auth.organizationId, input: create.data });
+  }, activityBatchKeys);
+  return NextResponse.json(result);
+});
@@ -1,26 +1,17 @@
 import { NextResponse } from 'next/server';
-import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import { ActivityCreateSchema, createActivity } from '@/lib/public-api/activitiesUpsert';
 import { sanitizeUUID } from '@/lib/supabase/utils';
-import { normalizeText } from '@/lib/public-api/sanitize';
 
 export const runtime = 'nodejs';
 
-const ActivityCreateSchema = z.object({
-  type: z.string().min(1),
-  title: z.string().min(1),
-  description: z.string().optional(),
-  date: z.string().optional(), // ISO
-  deal_id: z.string().uuid().optional(),
-  contact_id: z.string().uuid().optional(),
-  client_company_id: z.string().uuid().optional(),
-}).strict();
-
-export async function GET(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'activities:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const url = new URL(request.url);
   const dealId = sanitizeUUID(url.searchParams.get('deal_id'));
@@ -68,11 +59,13 @@ export async function GET(request: Request) {
     })),
     nextCursor,
   });
-}
+});
 
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'activities:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = ActivityCreateSchema.safeParse(body);
@@ -80,32 +73,6 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
   }
 
-  const now = new Date();
-  const date = parsed.data.date ? new Date(parsed.data.date) : now;
-  if (Number.isNaN(date.getTime())) {
-    return NextResponse.json({ error: 'Invalid date', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const sb = createStaticAdminClient();
-  const insertPayload: any = {
-    organization_id: auth.organizationId,
-    title: normalizeText(parsed.data.title) || parsed.data.title,
-    description: normalizeText(parsed.data.description),
-    type: normalizeText(parsed.data.type) || parsed.data.type,
-    date: date.toISOString(),
-    completed: false,
-    deal_id: sanitizeUUID(parsed.data.deal_id) || null,
-    contact_id: sanitizeUUID(parsed.data.contact_id) || null,
-    client_company_id: sanitizeUUID(parsed.data.client_company_id) || null,
-    created_at: now.toISOString(),
-  };
-
-  const { data, error } = await sb
-    .from('activities')
-    .insert(insertPayload)
-    .select('id,title,description,type,date,completed,deal_id,contact_id,client_company_id,created_at')
-    .single();
-  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-  return NextResponse.json({ data, action: 'created' }, { status: 201 });
-}
-
+  const res = await createActivity({ organizationId: auth.organizationId, input: parsed.data });
+  return NextResponse.json(res.body, { status: res.status });
+});
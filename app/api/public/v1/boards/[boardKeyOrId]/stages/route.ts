@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { isValidUUID } from '@/lib/supabase/utils';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: Request, ctx: { params: Promise<{ boardKeyOrId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ boardKeyOrId: string }> }) => {
+  const auth = await authPublicApi(request, 'boards:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const { boardKeyOrId } = await ctx.params;
   const value = String(boardKeyOrId || '').trim();
@@ -43,5 +44,5 @@ export async function GET(request: Request, ctx: { params: Promise<{ boardKeyOrI
       order: s.order ?? 0,
     })),
   });
-}
+});
 
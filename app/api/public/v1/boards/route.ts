@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'boards:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const url = new URL(request.url);
   const q = (url.searchParams.get('q') || '').trim();
@@ -49,5 +50,5 @@ export async function GET(request: Request) {
     })),
     nextCursor,
   });
-}
+});
 
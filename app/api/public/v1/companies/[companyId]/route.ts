@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { isValidUUID } from '@/lib/supabase/utils';
 import { normalizeText, normalizeUrl } from '@/lib/public-api/sanitize';
@@ -13,9 +15,9 @@ const CompanyPatchSchema = z.object({
   industry: z.string().nullable().optional(),
 }).strict();
 
-export async function GET(request: Request, ctx: { params: Promise<{ companyId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ companyId: string }> }) => {
+  const auth = await authPublicApi(request, 'companies:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const { companyId } = await ctx.params;
   if (!isValidUUID(companyId)) {
@@ -35,11 +37,13 @@ export async function GET(request: Request, ctx: { params: Promise<{ companyId:
   if (!data) return NextResponse.json({ error: 'Company not found', code: 'NOT_FOUND' }, { status: 404 });
 
   return NextResponse.json({ data });
-}
+});
 
-export async function PATCH(request: Request, ctx: { params: Promise<{ companyId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const PATCH = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ companyId: string }> }) => {
+  const auth = await authPublicApi(request, 'companies:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const { companyId } = await ctx.params;
   if (!isValidUUID(companyId)) {
@@ -71,5 +75,5 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ companyId
   if (!data) return NextResponse.json({ error: 'Company not found', code: 'NOT_FOUND' }, { status: 404 });
 
   return NextResponse.json({ data });
-}
+});
 
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { BatchRequestSchema, invalidItem, runBatch } from '@/lib/public-api/batch';
+import { companyBatchKeys, CompanyUpsertSchema, upsertCompany } from '@/lib/public-api/companiesUpsert';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+
+export const runtime = 'nodejs';
+// Lote de até `PUBLIC_API_BATCH_MAX_ITEMS` itens, em paralelo limitado (ver lib/public-api/batch.ts).
+export const maxDuration = 60;
+
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'companies:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const body = await request.json().catch(() => null);
+  const parsed = BatchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const result = await runBatch(parsed.data.items, async (item) => {
+    const input = CompanyUpsertSchema.safeParse(item);
+    if (!input.success) return invalidItem();
+    return upsertCompany({ organizationId: auth.organizationId, input: input.data });
+  }, companyBatchKeys);
+  return NextResponse.json(result);
+});
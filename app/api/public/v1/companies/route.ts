@@ -1,21 +1,17 @@
 import { NextResponse } from 'next/server';
-import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import { CompanyUpsertSchema, upsertCompany } from '@/lib/public-api/companiesUpsert';
 import { normalizeText, normalizeUrl } from '@/lib/public-api/sanitize';
 
 export const runtime = 'nodejs';
 
-const CompanyUpsertSchema = z.object({
-  name: z.string().optional(),
-  website: z.string().optional(),
-  industry: z.string().optional(),
-}).strict();
-
-export async function GET(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'companies:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const url = new URL(request.url);
   const q = (url.searchParams.get('q') || '').trim();
@@ -56,11 +52,13 @@ export async function GET(request: Request) {
     })),
     nextCursor,
   });
-}
+});
 
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'companies:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = CompanyUpsertSchema.safeParse(body);
@@ -68,68 +66,6 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
   }
 
-  const name = normalizeText(parsed.data.name);
-  const website = normalizeUrl(parsed.data.website);
-  const industry = normalizeText(parsed.data.industry);
-
-  if (!website && !name) {
-    return NextResponse.json({ error: 'Provide website or name', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const sb = createStaticAdminClient();
-
-  let lookup = sb
-    .from('crm_companies')
-    .select('id')
-    .eq('organization_id', auth.organizationId)
-    .is('deleted_at', null);
-
-  if (website) lookup = lookup.eq('website', website);
-  else if (name) lookup = lookup.ilike('name', name);
-
-  const existing = await lookup.maybeSingle();
-  if (existing.error) return NextResponse.json({ error: existing.error.message, code: 'DB_ERROR' }, { status: 500 });
-
-  const now = new Date().toISOString();
-  const payload: any = {
-    organization_id: auth.organizationId,
-    name: name || '',
-    website,
-    industry,
-    updated_at: now,
-  };
-
-  if (existing.data?.id) {
-    if (!payload.name) delete payload.name;
-    const { data, error } = await sb
-      .from('crm_companies')
-      .update(payload)
-      .eq('id', existing.data.id)
-      .select('id,name,website,industry,created_at,updated_at')
-      .single();
-    if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-    return NextResponse.json({ data, action: 'updated' });
-  }
-
-  if (!name) {
-    return NextResponse.json({ error: 'Name is required to create a new company', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const insertPayload = {
-    organization_id: auth.organizationId,
-    name,
-    website,
-    industry,
-    created_at: now,
-    updated_at: now,
-  };
-
-  const { data, error } = await sb
-    .from('crm_companies')
-    .insert(insertPayload)
-    .select('id,name,website,industry,created_at,updated_at')
-    .single();
-  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-  return NextResponse.json({ data, action: 'created' }, { status: 201 });
-}
-
+  const res = await upsertCompany({ organizationId: auth.organizationId, input: parsed.data });
+  return NextResponse.json(res.body, { status: res.status });
+});
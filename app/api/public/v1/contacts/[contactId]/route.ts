@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { isValidUUID } from '@/lib/supabase/utils';
 import { normalizeEmail, normalizePhone, normalizeText } from '@/lib/public-api/sanitize';
@@ -43,9 +45,9 @@ function toIsoTimestamp(v: string | undefined | null) {
   return d.toISOString();
 }
 
-export async function GET(request: Request, ctx: { params: Promise<{ contactId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ contactId: string }> }) => {
+  const auth = await authPublicApi(request, 'contacts:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const { contactId } = await ctx.params;
   if (!isValidUUID(contactId)) {
@@ -65,11 +67,13 @@ export async function GET(request: Request, ctx: { params: Promise<{ contactId:
   if (!data) return NextResponse.json({ error: 'Contact not found', code: 'NOT_FOUND' }, { status: 404 });
 
   return NextResponse.json({ data });
-}
+});
 
-export async function PATCH(request: Request, ctx: { params: Promise<{ contactId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const PATCH = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ contactId: string }> }) => {
+  const auth = await authPublicApi(request, 'contacts:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const { contactId } = await ctx.params;
   if (!isValidUUID(contactId)) {
@@ -132,5 +136,5 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ contactId
   if (!data) return NextResponse.json({ error: 'Contact not found', code: 'NOT_FOUND' }, { status: 404 });
 
   return NextResponse.json({ data });
-}
+});
 
@@ -1,77 +1,18 @@
 import { NextResponse } from 'next/server';
-import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
-import { normalizeEmail, normalizePhone, normalizeText } from '@/lib/public-api/sanitize';
+import { ContactUpsertSchema, upsertContact } from '@/lib/public-api/contactsUpsert';
+import { normalizeEmail, normalizePhone } from '@/lib/public-api/sanitize';
 import { sanitizeUUID } from '@/lib/supabase/utils';
 
 export const runtime = 'nodejs';
 
-const ContactUpsertSchema = z.object({
-  name: z.string().optional(),
-  email: z.string().optional(),
-  phone: z.string().optional(),
-  role: z.string().optional(),
-  company_name: z.string().optional(),
-  client_company_id: z.string().uuid().optional(),
-  avatar: z.string().optional(),
-  status: z.string().optional(),
-  stage: z.string().optional(),
-  birth_date: z.string().optional(), // YYYY-MM-DD
-  last_interaction: z.string().optional(), // ISO
-  last_purchase_date: z.string().optional(), // YYYY-MM-DD
-  total_value: z.number().optional(),
-  source: z.string().optional(),
-  notes: z.string().optional(),
-}).strict();
-
-function toIsoDateString(v: string | undefined) {
-  const s = (v || '').trim();
-  if (!s) return null;
-  // Accept YYYY-MM-DD or ISO; store as YYYY-MM-DD
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return '__INVALID__';
-  return d.toISOString().slice(0, 10);
-}
-
-function toIsoTimestamp(v: string | undefined) {
-  const s = (v || '').trim();
-  if (!s) return null;
-  const d = new Date(s);
-  if (Number.isNaN(d.getTime())) return '__INVALID__';
-  return d.toISOString();
-}
-
-async function resolveCompanyIdFromName(opts: { organizationId: string; companyName: string }) {
-  const sb = createStaticAdminClient();
-  const name = normalizeText(opts.companyName);
-  if (!name) return null;
-
-  const existing = await sb
-    .from('crm_companies')
-    .select('id')
-    .eq('organization_id', opts.organizationId)
-    .is('deleted_at', null)
-    .ilike('name', name)
-    .maybeSingle();
-  if (existing.error) throw existing.error;
-  if (existing.data?.id) return existing.data.id as string;
-
-  const now = new Date().toISOString();
-  const created = await sb
-    .from('crm_companies')
-    .insert({ organization_id: opts.organizationId, name, created_at: now, updated_at: now })
-    .select('id')
-    .single();
-  if (created.error) throw created.error;
-  return created.data.id as string;
-}
-
-export async function GET(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'contacts:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const url = new URL(request.url);
   const q = (url.searchParams.get('q') || '').trim();
@@ -128,11 +69,13 @@ export async function GET(request: Request) {
     })),
     nextCursor,
   });
-}
+});
 
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'contacts:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = ContactUpsertSchema.safeParse(body);
@@ -140,96 +83,6 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
   }
 
-  const email = normalizeEmail(parsed.data.email);
-  const phone = normalizePhone(parsed.data.phone);
-  const name = normalizeText(parsed.data.name);
-  const companyName = normalizeText(parsed.data.company_name);
-
-  if (!email && !phone) {
-    return NextResponse.json({ error: 'Provide email or phone', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const sb = createStaticAdminClient();
-
-  const birthDate = toIsoDateString(parsed.data.birth_date);
-  if (birthDate === '__INVALID__') return NextResponse.json({ error: 'Invalid birth_date', code: 'VALIDATION_ERROR' }, { status: 422 });
-  const lastPurchaseDate = toIsoDateString(parsed.data.last_purchase_date);
-  if (lastPurchaseDate === '__INVALID__') return NextResponse.json({ error: 'Invalid last_purchase_date', code: 'VALIDATION_ERROR' }, { status: 422 });
-  const lastInteraction = toIsoTimestamp(parsed.data.last_interaction);
-  if (lastInteraction === '__INVALID__') return NextResponse.json({ error: 'Invalid last_interaction', code: 'VALIDATION_ERROR' }, { status: 422 });
-
-  let clientCompanyId = sanitizeUUID(parsed.data.client_company_id) || null;
-  if (!clientCompanyId && companyName) {
-    try {
-      clientCompanyId = await resolveCompanyIdFromName({ organizationId: auth.organizationId, companyName });
-    } catch (e: any) {
-      return NextResponse.json({ error: e?.message || 'Invalid company', code: 'VALIDATION_ERROR' }, { status: 422 });
-    }
-  }
-
-  let lookup = sb
-    .from('contacts')
-    .select('id')
-    .eq('organization_id', auth.organizationId)
-    .is('deleted_at', null);
-
-  if (email && phone) lookup = lookup.or(`email.eq.${email},phone.eq.${phone}`);
-  else if (email) lookup = lookup.eq('email', email);
-  else if (phone) lookup = lookup.eq('phone', phone);
-
-  const existing = await lookup.maybeSingle();
-  if (existing.error) return NextResponse.json({ error: existing.error.message, code: 'DB_ERROR' }, { status: 500 });
-
-  const now = new Date().toISOString();
-  const payload: any = {
-    organization_id: auth.organizationId,
-    email,
-    phone,
-    role: normalizeText(parsed.data.role),
-    company_name: companyName,
-    client_company_id: clientCompanyId,
-    avatar: normalizeText(parsed.data.avatar),
-    status: normalizeText(parsed.data.status),
-    stage: normalizeText(parsed.data.stage),
-    source: normalizeText(parsed.data.source),
-    notes: normalizeText(parsed.data.notes),
-    birth_date: birthDate,
-    last_interaction: lastInteraction,
-    last_purchase_date: lastPurchaseDate,
-    total_value: parsed.data.total_value ?? undefined,
-    updated_at: now,
-  };
-
-  if (existing.data?.id) {
-    if (name) payload.name = name;
-    const { data, error } = await sb
-      .from('contacts')
-      .update(payload)
-      .eq('id', existing.data.id)
-      .select('id,name,email,phone,role,company_name,client_company_id,avatar,notes,status,stage,source,birth_date,last_interaction,last_purchase_date,total_value,created_at,updated_at')
-      .single();
-    if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-    return NextResponse.json({ data: data, action: 'updated' });
-  }
-
-  if (!name) {
-    return NextResponse.json({ error: 'Name is required to create a new contact', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const insertPayload = {
-    ...payload,
-    name,
-    created_at: now,
-    status: 'ACTIVE',
-    stage: 'LEAD',
-  };
-
-  const { data, error } = await sb
-    .from('contacts')
-    .insert(insertPayload)
-    .select('id,name,email,phone,role,company_name,client_company_id,avatar,notes,status,stage,source,birth_date,last_interaction,last_purchase_date,total_value,created_at,updated_at')
-    .single();
-  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-  return NextResponse.json({ data, action: 'created' }, { status: 201 });
-}
-
+  const res = await upsertContact({ organizationId: auth.organizationId, input: parsed.data });
+  return NextResponse.json(res.body, { status: res.status });
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { DEAL_FILE_URL_TTL_SECONDS, DEAL_FILES_BUCKET, requireOrgDeal } from '@/lib/public-api/dealRelations';
+import { isValidUUID } from '@/lib/supabase/utils';
+
+export const runtime = 'nodejs';
+
+const FILE_FIELDS = 'id,deal_id,file_name,file_path,file_size,mime_type,created_at';
+
+type Params = { params: Promise<{ dealId: string; fileId: string }> };
+
+/** Metadados + `download_url` assinada (expira em `DEAL_FILE_URL_TTL_SECONDS`). */
+export const GET = withPublicApiUsage(async (request: Request, ctx: Params) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId, fileId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+  if (!isValidUUID(fileId)) {
+    return NextResponse.json({ error: 'Invalid file id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deal_files')
+    .select(FILE_FIELDS)
+    .eq('deal_id', dealId)
+    .eq('id', fileId)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'File not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  const { data: signed, error: signError } = await sb.storage
+    .from(DEAL_FILES_BUCKET)
+    .createSignedUrl((data as any).file_path, DEAL_FILE_URL_TTL_SECONDS, { download: (data as any).file_name });
+  if (signError || !signed) {
+    return NextResponse.json({ error: signError?.message || 'Storage error', code: 'STORAGE_ERROR' }, { status: 500 });
+  }
+
+  const expiresAt = new Date(Date.now() + DEAL_FILE_URL_TTL_SECONDS * 1000).toISOString();
+  return NextResponse.json({ data: { ...data, download_url: signed.signedUrl, download_url_expires_at: expiresAt } });
+});
+
+export const DELETE = withPublicApiUsage(async (request: Request, ctx: Params) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId, fileId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+  if (!isValidUUID(fileId)) {
+    return NextResponse.json({ error: 'Invalid file id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deal_files')
+    .select('id,file_path')
+    .eq('deal_id', dealId)
+    .eq('id', fileId)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'File not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  // Mesmo comportamento da UI (`lib/supabase/dealFiles.ts`): falha no storage não impede remover o registro.
+  await sb.storage.from(DEAL_FILES_BUCKET).remove([(data as any).file_path]);
+
+  const { error: deleteError } = await sb.from('deal_files').delete().eq('id', fileId);
+  if (deleteError) return NextResponse.json({ error: deleteError.message, code: 'DB_ERROR' }, { status: 500 });
+
+  return NextResponse.json({ data: { id: fileId }, action: 'deleted' });
+});
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import {
+  DEAL_FILE_MAX_BYTES,
+  DEAL_FILES_BUCKET,
+  dealFileStoragePath,
+  requireOrgDeal,
+} from '@/lib/public-api/dealRelations';
+import { normalizeText } from '@/lib/public-api/sanitize';
+
+export const runtime = 'nodejs';
+
+const FILE_FIELDS = 'id,deal_id,file_name,file_path,file_size,mime_type,created_at';
+
+const FileCreateSchema = z.object({
+  file_name: z.string().min(1),
+  file_size: z.number().int().min(1).max(DEAL_FILE_MAX_BYTES),
+  mime_type: z.string().optional(),
+}).strict();
+
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const url = new URL(request.url);
+  const limit = parseLimit(url.searchParams.get('limit'));
+  const offset = decodeOffsetCursor(url.searchParams.get('cursor'));
+
+  const sb = createStaticAdminClient();
+  const from = offset;
+  const to = offset + limit - 1;
+  const { data, count, error } = await sb
+    .from('deal_files')
+    .select(FILE_FIELDS, { count: 'exact' })
+    .eq('deal_id', dealId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to);
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const total = count ?? 0;
+  const nextOffset = to + 1;
+  const nextCursor = nextOffset < total ? encodeOffsetCursor(nextOffset) : null;
+
+  return NextResponse.json({ data: data || [], nextCursor });
+});
+
+/**
+ * Registra o arquivo e devolve uma URL assinada de upload:
+ * o cliente envia o conteúdo com `PUT upload.url` (sem passar pelo nosso servidor).
+ */
+export const POST = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const body = await request.json().catch(() => null);
+  const parsed = FileCreateSchema.safeParse(body);
+  const fileName = parsed.success ? normalizeText(parsed.data.file_name) : null;
+  if (!parsed.success || !fileName) {
+    return NextResponse.json(
+      { error: `Invalid payload (file_size max ${DEAL_FILE_MAX_BYTES} bytes)`, code: 'VALIDATION_ERROR' },
+      { status: 422 }
+    );
+  }
+
+  const sb = createStaticAdminClient();
+  const path = dealFileStoragePath(dealId, fileName);
+  const { data: upload, error: uploadError } = await sb.storage.from(DEAL_FILES_BUCKET).createSignedUploadUrl(path);
+  if (uploadError || !upload) {
+    return NextResponse.json({ error: uploadError?.message || 'Storage error', code: 'STORAGE_ERROR' }, { status: 500 });
+  }
+
+  const { data, error } = await sb
+    .from('deal_files')
+    .insert({
+      deal_id: dealId,
+      file_name: fileName,
+      file_path: path,
+      file_size: parsed.data.file_size,
+      mime_type: normalizeText(parsed.data.mime_type) || 'application/octet-stream',
+    })
+    .select(FILE_FIELDS)
+    .single();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  return NextResponse.json(
+    {
+      data,
+      upload: { method: 'PUT', url: upload.signedUrl, token: upload.token, path: upload.path },
+      action: 'created',
+    },
+    { status: 201 }
+  );
+});
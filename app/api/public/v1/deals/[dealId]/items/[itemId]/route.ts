@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { recalculateDealValue, requireOrgDeal } from '@/lib/public-api/dealRelations';
+import { normalizeText } from '@/lib/public-api/sanitize';
+import { isValidUUID } from '@/lib/supabase/utils';
+
+export const runtime = 'nodejs';
+
+const ITEM_FIELDS = 'id,deal_id,product_id,name,quantity,price,created_at';
+
+const ItemPatchSchema = z.object({
+  name: z.string().min(1).optional(),
+  quantity: z.number().int().min(1).optional(),
+  price: z.number().min(0).optional(),
+}).strict();
+
+type Params = { params: Promise<{ dealId: string; itemId: string }> };
+
+export const PATCH = withPublicApiUsage(async (request: Request, ctx: Params) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const { dealId, itemId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid item id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = ItemPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const updates: any = {};
+  if (parsed.data.name !== undefined) updates.name = normalizeText(parsed.data.name) || parsed.data.name;
+  if (parsed.data.quantity !== undefined) updates.quantity = parsed.data.quantity;
+  if (parsed.data.price !== undefined) updates.price = parsed.data.price;
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deal_items')
+    .update(updates)
+    .eq('deal_id', dealId)
+    .eq('id', itemId)
+    .select(ITEM_FIELDS)
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'Item not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  const dealValue = await recalculateDealValue(auth.organizationId, dealId);
+  return NextResponse.json({ data: { ...data, price: Number((data as any).price ?? 0) }, deal_value: dealValue });
+});
+
+export const DELETE = withPublicApiUsage(async (request: Request, ctx: Params) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId, itemId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+  if (!isValidUUID(itemId)) {
+    return NextResponse.json({ error: 'Invalid item id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deal_items')
+    .delete()
+    .eq('deal_id', dealId)
+    .eq('id', itemId)
+    .select('id')
+    .maybeSingle();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'Item not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  const dealValue = await recalculateDealValue(auth.organizationId, dealId);
+  return NextResponse.json({ data: { id: itemId }, deal_value: dealValue, action: 'deleted' });
+});
@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import { recalculateDealValue, requireOrgDeal } from '@/lib/public-api/dealRelations';
+import { normalizeText } from '@/lib/public-api/sanitize';
+import { sanitizeUUID } from '@/lib/supabase/utils';
+
+export const runtime = 'nodejs';
+
+const ITEM_FIELDS = 'id,deal_id,product_id,name,quantity,price,created_at';
+
+// Com `product_id`, `name`/`price` vêm do catálogo quando não enviados (item personalizado: sem `product_id`).
+const ItemCreateSchema = z.object({
+  product_id: z.string().uuid().optional(),
+  name: z.string().optional(),
+  quantity: z.number().int().min(1).optional(),
+  price: z.number().min(0).optional(),
+}).strict();
+
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const url = new URL(request.url);
+  const limit = parseLimit(url.searchParams.get('limit'));
+  const offset = decodeOffsetCursor(url.searchParams.get('cursor'));
+
+  const sb = createStaticAdminClient();
+  const from = offset;
+  const to = offset + limit - 1;
+  const { data, count, error } = await sb
+    .from('deal_items')
+    .select(ITEM_FIELDS, { count: 'exact' })
+    .eq('deal_id', dealId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to);
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const total = count ?? 0;
+  const nextOffset = to + 1;
+  const nextCursor = nextOffset < total ? encodeOffsetCursor(nextOffset) : null;
+
+  return NextResponse.json({
+    data: (data || []).map((i: any) => ({ ...i, price: Number(i.price ?? 0) })),
+    nextCursor,
+  });
+});
+
+export const POST = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const body = await request.json().catch(() => null);
+  const parsed = ItemCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const productId = sanitizeUUID(parsed.data.product_id);
+  let name = normalizeText(parsed.data.name);
+  let price = parsed.data.price;
+
+  if (productId) {
+    const { data: product, error } = await sb
+      .from('products')
+      .select('id,name,price')
+      .eq('organization_id', auth.organizationId)
+      .eq('id', productId)
+      .maybeSingle();
+    if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+    if (!product) return NextResponse.json({ error: 'Product not found', code: 'NOT_FOUND' }, { status: 404 });
+    name = name || (product as any).name;
+    price = price ?? Number((product as any).price ?? 0);
+  }
+
+  if (!name) {
+    return NextResponse.json({ error: 'Provide product_id or name', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const { data, error } = await sb
+    .from('deal_items')
+    .insert({
+      organization_id: auth.organizationId,
+      deal_id: dealId,
+      product_id: productId || null,
+      name,
+      quantity: parsed.data.quantity ?? 1,
+      price: price ?? 0,
+    })
+    .select(ITEM_FIELDS)
+    .single();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const dealValue = await recalculateDealValue(auth.organizationId, dealId);
+  return NextResponse.json(
+    { data: { ...data, price: Number((data as any).price ?? 0) }, deal_value: dealValue, action: 'created' },
+    { status: 201 }
+  );
+});
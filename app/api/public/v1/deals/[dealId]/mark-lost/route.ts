@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { isValidUUID } from '@/lib/supabase/utils';
 import { normalizeText } from '@/lib/public-api/sanitize';
@@ -11,9 +13,11 @@ const MarkLostSchema = z.object({
   loss_reason: z.string().optional(),
 }).strict();
 
-export async function POST(request: Request, ctx: { params: Promise<{ dealId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const { dealId } = await ctx.params;
   if (!isValidUUID(dealId)) {
@@ -48,5 +52,5 @@ export async function POST(request: Request, ctx: { params: Promise<{ dealId: st
   if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
   if (!data) return NextResponse.json({ error: 'Deal not found', code: 'NOT_FOUND' }, { status: 404 });
   return NextResponse.json({ data, action: 'lost' });
-}
+});
 
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { isValidUUID, sanitizeUUID } from '@/lib/supabase/utils';
 import { moveStageByDealId } from '@/lib/public-api/dealsMoveStage';
 
@@ -14,9 +16,11 @@ const MoveStageSchema = z.object({
   message: 'to_stage_id or to_stage_label is required',
 });
 
-export async function POST(request: Request, ctx: { params: Promise<{ dealId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const { dealId } = await ctx.params;
   if (!isValidUUID(dealId)) {
@@ -36,5 +40,5 @@ export async function POST(request: Request, ctx: { params: Promise<{ dealId: st
     mark: parsed.data.mark ?? null,
   });
   return NextResponse.json(res.body, { status: res.status });
-}
+});
 
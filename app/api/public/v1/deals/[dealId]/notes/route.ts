@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import { requireOrgDeal } from '@/lib/public-api/dealRelations';
+import { normalizeText } from '@/lib/public-api/sanitize';
+
+export const runtime = 'nodejs';
+
+const NoteCreateSchema = z.object({
+  content: z.string().min(1),
+}).strict();
+
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const url = new URL(request.url);
+  const limit = parseLimit(url.searchParams.get('limit'));
+  const offset = decodeOffsetCursor(url.searchParams.get('cursor'));
+
+  const sb = createStaticAdminClient();
+  const from = offset;
+  const to = offset + limit - 1;
+  const { data, count, error } = await sb
+    .from('deal_notes')
+    .select('id,deal_id,content,created_at,updated_at', { count: 'exact' })
+    .eq('deal_id', dealId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, to);
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const total = count ?? 0;
+  const nextOffset = to + 1;
+  const nextCursor = nextOffset < total ? encodeOffsetCursor(nextOffset) : null;
+
+  return NextResponse.json({ data: data || [], nextCursor });
+});
+
+export const POST = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const { dealId } = await ctx.params;
+  const deal = await requireOrgDeal(auth.organizationId, dealId);
+  if (!deal.ok) return NextResponse.json(deal.body, { status: deal.status });
+
+  const body = await request.json().catch(() => null);
+  const parsed = NoteCreateSchema.safeParse(body);
+  const content = parsed.success ? normalizeText(parsed.data.content) : null;
+  if (!content) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const now = new Date().toISOString();
+  const { data, error } = await sb
+    .from('deal_notes')
+    .insert({ deal_id: dealId, content, created_at: now, updated_at: now })
+    .select('id,deal_id,content,created_at,updated_at')
+    .single();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  return NextResponse.json({ data, action: 'created' }, { status: 201 });
+});
@@ -1,23 +1,16 @@
 import { NextResponse } from 'next/server';
-import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
-import { isValidUUID, sanitizeUUID } from '@/lib/supabase/utils';
-import { normalizeText } from '@/lib/public-api/sanitize';
+import { isValidUUID } from '@/lib/supabase/utils';
+import { DealPatchSchema, updateDeal } from '@/lib/public-api/dealsUpsert';
 
 export const runtime = 'nodejs';
 
-const DealPatchSchema = z.object({
-  title: z.string().optional(),
-  value: z.number().optional(),
-  contact_id: z.string().uuid().optional(),
-  client_company_id: z.string().uuid().nullable().optional(),
-  loss_reason: z.string().nullable().optional(),
-}).strict();
-
-export async function GET(request: Request, ctx: { params: Promise<{ dealId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const { dealId } = await ctx.params;
   if (!isValidUUID(dealId)) {
@@ -37,11 +30,13 @@ export async function GET(request: Request, ctx: { params: Promise<{ dealId: str
   if (!data) return NextResponse.json({ error: 'Deal not found', code: 'NOT_FOUND' }, { status: 404 });
 
   return NextResponse.json({ data });
-}
+});
 
-export async function PATCH(request: Request, ctx: { params: Promise<{ dealId: string }> }) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const PATCH = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ dealId: string }> }) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const { dealId } = await ctx.params;
   if (!isValidUUID(dealId)) {
@@ -54,26 +49,7 @@ export async function PATCH(request: Request, ctx: { params: Promise<{ dealId: s
     return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
   }
 
-  const updates: any = {};
-  if (parsed.data.title !== undefined) updates.title = normalizeText(parsed.data.title);
-  if (parsed.data.value !== undefined) updates.value = Number(parsed.data.value ?? 0);
-  if (parsed.data.contact_id !== undefined) updates.contact_id = sanitizeUUID(parsed.data.contact_id);
-  if (parsed.data.client_company_id !== undefined) updates.client_company_id = parsed.data.client_company_id === null ? null : (sanitizeUUID(parsed.data.client_company_id) || null);
-  if (parsed.data.loss_reason !== undefined) updates.loss_reason = parsed.data.loss_reason === null ? null : normalizeText(parsed.data.loss_reason);
-  updates.updated_at = new Date().toISOString();
-
-  const sb = createStaticAdminClient();
-  const { data, error } = await sb
-    .from('deals')
-    .update(updates)
-    .eq('organization_id', auth.organizationId)
-    .eq('id', dealId)
-    .select('id,title,value,board_id,stage_id,contact_id,client_company_id,is_won,is_lost,loss_reason,closed_at,created_at,updated_at')
-    .maybeSingle();
-
-  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-  if (!data) return NextResponse.json({ error: 'Deal not found', code: 'NOT_FOUND' }, { status: 404 });
-
-  return NextResponse.json({ data });
-}
-
+  const res = await updateDeal({ organizationId: auth.organizationId, dealId, input: parsed.data });
+  if (!res.ok) return NextResponse.json(res.body, { status: res.status });
+  return NextResponse.json({ data: res.body.data });
+});
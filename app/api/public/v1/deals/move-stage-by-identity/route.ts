@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { moveStageByIdentity } from '@/lib/public-api/dealsMoveStage';
 
 export const runtime = 'nodejs';
@@ -15,9 +17,11 @@ const MoveStageByIdentitySchema = z.object({
 }).strict().refine((v) => !!(v.phone || v.email), { message: 'phone or email is required' })
   .refine((v) => !!(v.to_stage_id || v.to_stage_label), { message: 'to_stage_id or to_stage_label is required' });
 
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = MoveStageByIdentitySchema.safeParse(body);
@@ -35,5 +39,5 @@ export async function POST(request: Request) {
   });
   // Compatibility alias (old name) — keep working.
   return NextResponse.json(res.body, { status: res.status });
-}
+});
 
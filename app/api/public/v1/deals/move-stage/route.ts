@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { isValidUUID } from '@/lib/supabase/utils';
 import { moveStageByDealId, moveStageByIdentity } from '@/lib/public-api/dealsMoveStage';
 
@@ -28,9 +30,11 @@ const MoveStageSchema = z.object({
     return !!(v.board_key_or_id && (v.phone || v.email));
   }, { message: 'Provide deal_id OR (board_key_or_id + phone/email)' });
 
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = MoveStageSchema.safeParse(body);
@@ -62,5 +66,5 @@ export async function POST(request: Request) {
     mark,
   });
   return NextResponse.json(res.body, { status: res.status });
-}
+});
 
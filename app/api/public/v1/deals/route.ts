@@ -1,36 +1,18 @@
 import { NextResponse } from 'next/server';
-import { z } from 'zod';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 import { createStaticAdminClient } from '@/lib/supabase/server';
 import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
-import { resolveBoardIdFromKey, resolveFirstStageId } from '@/lib/public-api/resolve';
-import { normalizeEmail, normalizePhone, normalizeText } from '@/lib/public-api/sanitize';
+import { resolveBoardIdFromKey } from '@/lib/public-api/resolve';
+import { createDeal, DealCreateSchema } from '@/lib/public-api/dealsUpsert';
 import { isValidUUID, sanitizeUUID } from '@/lib/supabase/utils';
 
 export const runtime = 'nodejs';
 
-const ContactInlineSchema = z.object({
-  name: z.string().optional(),
-  email: z.string().optional(),
-  phone: z.string().optional(),
-  role: z.string().optional(),
-  client_company_id: z.string().uuid().optional(),
-}).strict();
-
-const DealCreateSchema = z.object({
-  title: z.string().min(1),
-  value: z.number().optional(),
-  board_id: z.string().uuid().optional(),
-  board_key: z.string().min(1).optional(),
-  stage_id: z.string().uuid().optional(),
-  contact_id: z.string().uuid().optional(),
-  contact: ContactInlineSchema.optional(),
-  client_company_id: z.string().uuid().optional(),
-}).strict();
-
-export async function GET(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'deals:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
 
   const url = new URL(request.url);
   const q = (url.searchParams.get('q') || '').trim();
@@ -96,65 +78,13 @@ export async function GET(request: Request) {
     })),
     nextCursor,
   });
-}
-
-async function upsertContactForDeal(opts: {
-  organizationId: string;
-  contact: z.infer<typeof ContactInlineSchema>;
-}) {
-  const sb = createStaticAdminClient();
-  const email = normalizeEmail(opts.contact.email);
-  const phone = normalizePhone(opts.contact.phone);
-  const name = normalizeText(opts.contact.name);
-  if (!email && !phone) {
-    throw new Error('Provide contact.email or contact.phone');
-  }
-
-  let lookup = sb
-    .from('contacts')
-    .select('id')
-    .eq('organization_id', opts.organizationId)
-    .is('deleted_at', null);
-  if (email && phone) lookup = lookup.or(`email.eq.${email},phone.eq.${phone}`);
-  else if (email) lookup = lookup.eq('email', email);
-  else lookup = lookup.eq('phone', phone);
-
-  const existing = await lookup.maybeSingle();
-  if (existing.error) throw existing.error;
+});
 
-  const now = new Date().toISOString();
-  const base: any = {
-    organization_id: opts.organizationId,
-    email,
-    phone,
-    role: normalizeText(opts.contact.role),
-    client_company_id: sanitizeUUID(opts.contact.client_company_id) || null,
-    updated_at: now,
-  };
-
-  if (existing.data?.id) {
-    if (name) base.name = name;
-    const { data, error } = await sb.from('contacts').update(base).eq('id', existing.data.id).select('id').single();
-    if (error) throw error;
-    return data.id as string;
-  }
-
-  if (!name) throw new Error('contact.name is required to create a new contact');
-  const insert = {
-    ...base,
-    name,
-    created_at: now,
-    status: 'ACTIVE',
-    stage: 'LEAD',
-  };
-  const { data, error } = await sb.from('contacts').insert(insert).select('id').single();
-  if (error) throw error;
-  return data.id as string;
-}
-
-export async function POST(request: Request) {
-  const auth = await authPublicApi(request);
-  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status });
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'deals:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
 
   const body = await request.json().catch(() => null);
   const parsed = DealCreateSchema.safeParse(body);
@@ -162,59 +92,6 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
   }
 
-  const sb = createStaticAdminClient();
-
-  let boardId = sanitizeUUID(parsed.data.board_id);
-  if (!boardId && parsed.data.board_key) {
-    boardId = await resolveBoardIdFromKey({ organizationId: auth.organizationId, boardKey: parsed.data.board_key });
-  }
-  if (!boardId) {
-    return NextResponse.json({ error: 'Provide board_id or board_key', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  let stageId = sanitizeUUID(parsed.data.stage_id);
-  if (!stageId) {
-    stageId = await resolveFirstStageId({ organizationId: auth.organizationId, boardId });
-  }
-  if (!stageId) {
-    return NextResponse.json({ error: 'No stages found for board', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  let contactId = sanitizeUUID(parsed.data.contact_id);
-  if (!contactId && parsed.data.contact) {
-    try {
-      contactId = await upsertContactForDeal({ organizationId: auth.organizationId, contact: parsed.data.contact });
-    } catch (e: any) {
-      return NextResponse.json({ error: e?.message || 'Invalid contact', code: 'VALIDATION_ERROR' }, { status: 422 });
-    }
-  }
-  if (!contactId) {
-    return NextResponse.json({ error: 'Provide contact_id or contact', code: 'VALIDATION_ERROR' }, { status: 422 });
-  }
-
-  const now = new Date().toISOString();
-  const value = Number(parsed.data.value ?? 0);
-  const insertPayload: any = {
-    organization_id: auth.organizationId,
-    title: parsed.data.title.trim(),
-    value,
-    board_id: boardId,
-    stage_id: stageId,
-    contact_id: contactId,
-    client_company_id: sanitizeUUID(parsed.data.client_company_id) || null,
-    is_won: false,
-    is_lost: false,
-    created_at: now,
-    updated_at: now,
-  };
-
-  const { data, error } = await sb
-    .from('deals')
-    .insert(insertPayload)
-    .select('id,title,value,board_id,stage_id,contact_id,client_company_id,is_won,is_lost,loss_reason,closed_at,created_at,updated_at')
-    .single();
-  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
-
-  return NextResponse.json({ data, action: 'created' }, { status: 201 });
-}
-
+  const res = await createDeal({ organizationId: auth.organizationId, input: parsed.data });
+  return NextResponse.json(res.body, { status: res.status });
+});
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { parseLimit } from '@/lib/public-api/cursor';
+import {
+  PUBLIC_API_EVENTS_DEFAULT_LIMIT,
+  PUBLIC_API_EVENTS_MAX_LIMIT,
+  decodeEventCursor,
+  encodeEventCursor,
+  parseEventTypes,
+  resolveReadableEventTypes,
+  toPublicApiEvent,
+  type PublicApiEventRow,
+} from '@/lib/public-api/events';
+
+export const runtime = 'nodejs';
+
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'events:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const url = new URL(request.url);
+  const cursorParam = url.searchParams.get('cursor');
+  const afterSeq = decodeEventCursor(cursorParam);
+  if (afterSeq === undefined) {
+    return NextResponse.json({ error: 'Invalid cursor', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+  const types = parseEventTypes(url.searchParams.get('types'));
+  if (types === undefined) {
+    return NextResponse.json({ error: 'Unknown event type in types', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+  const readable = resolveReadableEventTypes(auth.scopes, types);
+  if (readable.missing) {
+    return NextResponse.json(
+      { error: `API key is missing the ${readable.missing} scope`, code: 'AUTH_SCOPE_MISSING' },
+      { status: 403 }
+    );
+  }
+  const limit = parseLimit(url.searchParams.get('limit'), {
+    defaultLimit: PUBLIC_API_EVENTS_DEFAULT_LIMIT,
+    max: PUBLIC_API_EVENTS_MAX_LIMIT,
+  });
+
+  const sb = createStaticAdminClient();
+  // Pede 1 a mais só para saber se há próxima página.
+  const { data, error } = await sb.rpc('list_public_api_events', {
+    p_organization_id: auth.organizationId,
+    p_after_seq: afterSeq ?? 0,
+    p_limit: limit + 1,
+    p_event_types: readable.types,
+  });
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const rows = ((data || []) as PublicApiEventRow[]).slice(0, limit);
+  const events = rows.map(toPublicApiEvent);
+  const last = rows[rows.length - 1];
+
+  return NextResponse.json({
+    data: events,
+    // Sem eventos novos, o cursor não anda: guarde e repita a chamada no próximo ciclo.
+    nextCursor: last ? encodeEventCursor(Number(last.feed_seq)) : cursorParam || encodeEventCursor(afterSeq ?? 0),
+    hasMore: (data || []).length > limit,
+  });
+});
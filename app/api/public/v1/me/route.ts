@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
 import { authPublicApi } from '@/lib/public-api/auth';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
 
 export const runtime = 'nodejs';
 
-export async function GET(request: Request) {
+export const GET = withPublicApiUsage(async (request: Request) => {
   const auth = await authPublicApi(request);
   if (!auth.ok) {
-    return NextResponse.json(auth.body, { status: auth.status });
+    return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
   }
 
   return NextResponse.json({
@@ -14,7 +15,9 @@ export async function GET(request: Request) {
       organization_id: auth.organizationId,
       organization_name: auth.organizationName,
       api_key_prefix: auth.apiKeyPrefix,
+      scopes: auth.scopes,
+      expires_at: auth.expiresAt,
     },
   });
-}
+});
 
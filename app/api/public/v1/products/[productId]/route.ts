@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { isValidUUID } from '@/lib/supabase/utils';
+import { normalizeText } from '@/lib/public-api/sanitize';
+
+export const runtime = 'nodejs';
+
+const PRODUCT_FIELDS = 'id,name,description,price,sku,active,created_at,updated_at';
+
+const ProductPatchSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  price: z.number().min(0).optional(),
+  sku: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+}).strict();
+
+export const GET = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ productId: string }> }) => {
+  const auth = await authPublicApi(request, 'products:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const { productId } = await ctx.params;
+  if (!isValidUUID(productId)) {
+    return NextResponse.json({ error: 'Invalid product id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('products')
+    .select(PRODUCT_FIELDS)
+    .eq('organization_id', auth.organizationId)
+    .eq('id', productId)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'Product not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  return NextResponse.json({ data });
+});
+
+export const PATCH = withPublicApiUsage(async (request: Request, ctx: { params: Promise<{ productId: string }> }) => {
+  const auth = await authPublicApi(request, 'products:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const { productId } = await ctx.params;
+  if (!isValidUUID(productId)) {
+    return NextResponse.json({ error: 'Invalid product id', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = ProductPatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const updates: any = {};
+  if (parsed.data.name !== undefined) updates.name = normalizeText(parsed.data.name) || parsed.data.name;
+  if (parsed.data.description !== undefined) updates.description = parsed.data.description === null ? null : normalizeText(parsed.data.description);
+  if (parsed.data.price !== undefined) updates.price = parsed.data.price;
+  if (parsed.data.sku !== undefined) updates.sku = parsed.data.sku === null ? null : normalizeText(parsed.data.sku);
+  if (parsed.data.active !== undefined) updates.active = parsed.data.active;
+  updates.updated_at = new Date().toISOString();
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('products')
+    .update(updates)
+    .eq('organization_id', auth.organizationId)
+    .eq('id', productId)
+    .select(PRODUCT_FIELDS)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  if (!data) return NextResponse.json({ error: 'Product not found', code: 'NOT_FOUND' }, { status: 404 });
+
+  return NextResponse.json({ data });
+});
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authPublicApi } from '@/lib/public-api/auth';
+import { beginIdempotentRequest } from '@/lib/public-api/idempotency';
+import { withPublicApiUsage } from '@/lib/public-api/usage';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { decodeOffsetCursor, encodeOffsetCursor, parseLimit } from '@/lib/public-api/cursor';
+import { normalizeText } from '@/lib/public-api/sanitize';
+
+export const runtime = 'nodejs';
+
+const PRODUCT_FIELDS = 'id,name,description,price,sku,active,created_at,updated_at';
+
+const ProductUpsertSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  price: z.number().min(0).optional(),
+  sku: z.string().optional(),
+  active: z.boolean().optional(),
+}).strict();
+
+export const GET = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'products:read');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+
+  const url = new URL(request.url);
+  const q = (url.searchParams.get('q') || '').trim();
+  const sku = normalizeText(url.searchParams.get('sku'));
+  const active = url.searchParams.get('active');
+  const limit = parseLimit(url.searchParams.get('limit'));
+  const offset = decodeOffsetCursor(url.searchParams.get('cursor'));
+
+  const sb = createStaticAdminClient();
+  let query = sb
+    .from('products')
+    .select(PRODUCT_FIELDS, { count: 'exact' })
+    .eq('organization_id', auth.organizationId)
+    .order('name', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (q) query = query.ilike('name', `%${q}%`);
+  if (sku) query = query.eq('sku', sku);
+  if (active === 'true' || active === 'false') query = query.eq('active', active === 'true');
+
+  const from = offset;
+  const to = offset + limit - 1;
+  const { data, count, error } = await query.range(from, to);
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+
+  const total = count ?? 0;
+  const nextOffset = to + 1;
+  const nextCursor = nextOffset < total ? encodeOffsetCursor(nextOffset) : null;
+
+  return NextResponse.json({
+    data: (data || []).map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      description: p.description ?? null,
+      price: Number(p.price ?? 0),
+      sku: p.sku ?? null,
+      active: p.active ?? true,
+      created_at: p.created_at,
+      updated_at: p.updated_at,
+    })),
+    nextCursor,
+  });
+});
+
+/** Upsert por `sku` (quando enviado); sem `sku`, sempre cria. */
+export const POST = withPublicApiUsage(async (request: Request) => {
+  const auth = await authPublicApi(request, 'products:write');
+  if (!auth.ok) return NextResponse.json(auth.body, { status: auth.status, headers: auth.headers });
+  const replay = await beginIdempotentRequest(request, auth);
+  if (replay) return replay;
+
+  const body = await request.json().catch(() => null);
+  const parsed = ProductUpsertSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid payload', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const name = normalizeText(parsed.data.name);
+  const sku = normalizeText(parsed.data.sku);
+  const sb = createStaticAdminClient();
+
+  let existingId: string | null = null;
+  if (sku) {
+    const existing = await sb
+      .from('products')
+      .select('id')
+      .eq('organization_id', auth.organizationId)
+      .eq('sku', sku)
+      .limit(1)
+      .maybeSingle();
+    if (existing.error) return NextResponse.json({ error: existing.error.message, code: 'DB_ERROR' }, { status: 500 });
+    existingId = (existing.data as any)?.id ?? null;
+  }
+
+  const now = new Date().toISOString();
+  const payload: any = { updated_at: now };
+  if (name) payload.name = name;
+  if (parsed.data.description !== undefined) payload.description = normalizeText(parsed.data.description);
+  if (parsed.data.price !== undefined) payload.price = parsed.data.price;
+  if (parsed.data.active !== undefined) payload.active = parsed.data.active;
+
+  if (existingId) {
+    const { data, error } = await sb
+      .from('products')
+      .update(payload)
+      .eq('organization_id', auth.organizationId)
+      .eq('id', existingId)
+      .select(PRODUCT_FIELDS)
+      .single();
+    if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+    return NextResponse.json({ data, action: 'updated' });
+  }
+
+  if (!name) {
+    return NextResponse.json({ error: 'Name is required to create a new product', code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const { data, error } = await sb
+    .from('products')
+    .insert({
+      ...payload,
+      organization_id: auth.organizationId,
+      sku,
+      price: parsed.data.price ?? 0,
+      active: parsed.data.active ?? true,
+      created_at: now,
+    })
+    .select(PRODUCT_FIELDS)
+    .single();
+  if (error) return NextResponse.json({ error: error.message, code: 'DB_ERROR' }, { status: 500 });
+  return NextResponse.json({ data, action: 'created' }, { status: 201 });
+});
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { createClient, createStaticAdminClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { stopRunningPromptExperiment } from '@/lib/ai/prompts/server';
+import { comparePromptExperiment, type PromptFeedbackRow } from '@/lib/ai/prompts/versions';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+const EXPERIMENT_FIELDS = 'id, key, control_version, variant_version, traffic_percent, status, started_at, ended_at';
+
+async function requireAdmin() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: json({ error: 'Unauthorized' }, 401) } as const;
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return { error: json({ error: 'Profile not found' }, 404) } as const;
+  if (me.role !== 'admin') return { error: json({ error: 'Forbidden' }, 403) } as const;
+
+  return { supabase, userId: me.id as string, organizationId: me.organization_id as string } as const;
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Último teste A/B da key (em andamento ou encerrado) com o aceite de cada braço.
+ *
+ * @param {Request} _req - Parâmetro `_req`.
+ * @param {{ params: Promise<{ key: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET(_req: Request, ctx: { params: Promise<{ key: string }> }) {
+  const { key } = await ctx.params;
+  const auth = await requireAdmin();
+  if ('error' in auth) return auth.error;
+
+  const { data: experiment, error } = await auth.supabase
+    .from('ai_prompt_experiments')
+    .select(EXPERIMENT_FIELDS)
+    .eq('organization_id', auth.organizationId)
+    .eq('key', key)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) return json({ error: error.message }, 500);
+  if (!experiment) return json({ experiment: null, comparison: null });
+
+  const { data: rows, error: statsError } = await createStaticAdminClient().rpc('ai_prompt_feedback_stats', {
+    p_organization_id: auth.organizationId,
+    p_key: key,
+    p_since: experiment.started_at,
+  });
+
+  if (statsError) return json({ error: statsError.message }, 500);
+
+  const comparison = comparePromptExperiment((rows || []) as PromptFeedbackRow[], {
+    control: experiment.control_version,
+    variant: experiment.variant_version,
+  });
+
+  return json({ experiment, comparison });
+}
+
+const StartExperimentSchema = z
+  .object({
+    variantVersion: z.number().int().min(1),
+    trafficPercent: z.number().int().min(1).max(99).default(50),
+  })
+  .strict();
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Inicia um teste A/B: `trafficPercent`% dos usuários recebem `variantVersion`; o restante, a versão ativa.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @param {{ params: Promise<{ key: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ key: string }> }) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const { key } = await ctx.params;
+  const auth = await requireAdmin();
+  if ('error' in auth) return auth.error;
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = StartExperimentSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { variantVersion, trafficPercent } = parsed.data;
+
+  const { data: versions, error: versionsError } = await auth.supabase
+    .from('ai_prompt_templates')
+    .select('version, is_active')
+    .eq('organization_id', auth.organizationId)
+    .eq('key', key);
+
+  if (versionsError) return json({ error: versionsError.message }, 500);
+
+  const variant = (versions || []).find((v) => v.version === variantVersion);
+  if (!variant) return json({ error: 'Version not found' }, 404);
+  if (variant.is_active) return json({ error: 'A versão candidata não pode ser a versão ativa' }, 400);
+
+  const active = (versions || []).find((v) => v.is_active);
+
+  const { data: experiment, error: insertError } = await auth.supabase
+    .from('ai_prompt_experiments')
+    .insert({
+      organization_id: auth.organizationId,
+      key,
+      control_version: active?.version ?? null,
+      variant_version: variantVersion,
+      traffic_percent: trafficPercent,
+      created_by: auth.userId,
+    })
+    .select(EXPERIMENT_FIELDS)
+    .single();
+
+  if (insertError) {
+    // unique parcial: já existe um teste em andamento para a key
+    if (insertError.code === '23505') return json({ error: 'Já existe um teste em andamento para este prompt' }, 409);
+    return json({ error: insertError.message }, 500);
+  }
+
+  return json({ ok: true, experiment });
+}
+
+/**
+ * Handler HTTP `DELETE` deste endpoint (Next.js Route Handler).
+ *
+ * Encerra o teste em andamento (os resultados continuam disponíveis no `GET`).
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @param {{ params: Promise<{ key: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function DELETE(req: Request, ctx: { params: Promise<{ key: string }> }) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const { key } = await ctx.params;
+  const auth = await requireAdmin();
+  if ('error' in auth) return auth.error;
+
+  await stopRunningPromptExperiment(auth.supabase, auth.organizationId, key);
+  return json({ ok: true });
+}
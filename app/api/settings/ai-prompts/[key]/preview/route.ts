@@ -0,0 +1,145 @@
+import { generateText } from 'ai';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { getResolvedPrompt } from '@/lib/ai/prompts/server';
+import { listPromptTemplateVariables, renderPromptTemplate } from '@/lib/ai/prompts/render';
+import { AITaskHttpError, aiBudgetHttpError, requireAITaskContext } from '@/lib/ai/tasks/server';
+import { AIBudgetExceededError } from '@/lib/ai/usage';
+
+export const maxDuration = 60;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+const PreviewPromptSchema = z
+  .object({
+    /** Rascunho da tela; ausente = `version` ou a versão ativa/padrão. */
+    content: z.string().min(1).max(50_000).optional(),
+    version: z.number().int().min(1).optional(),
+    dealId: z.string().uuid().optional(),
+    /** Variáveis extras/sobrescritas (ex.: `objection`, `scriptType`). */
+    vars: z.record(z.string(), z.string().max(5_000)).optional(),
+    /** Também executa o prompt no modelo da organização (consome tokens). */
+    run: z.boolean().optional(),
+  })
+  .strict();
+
+type PreviewDealRow = {
+  title: string;
+  value: number | null;
+  probability: number | null;
+  status: string | null;
+  ai_summary: string | null;
+  contact: { name: string | null; company_name: string | null } | null;
+  company: { name: string | null } | null;
+  stage: { name: string | null; label: string | null } | null;
+};
+
+/** Mesmas variáveis que as rotas de `/api/ai/tasks/deals/*` montam a partir do deal. */
+function dealPromptVariables(deal: PreviewDealRow): Record<string, unknown> {
+  return {
+    dealTitle: deal.title,
+    dealValue: Number(deal.value ?? 0).toLocaleString('pt-BR'),
+    stageLabel: deal.stage?.label || deal.stage?.name || deal.status || '',
+    probability: deal.probability ?? 50,
+    contactName: deal.contact?.name || 'Cliente',
+    companyName: deal.company?.name || deal.contact?.company_name || 'Empresa',
+    context: deal.ai_summary || '',
+  };
+}
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Sandbox da Central de I.A: renderiza o prompt (rascunho, versão ou ativo) com os dados de um deal
+ * e, opcionalmente, executa no modelo da organização. Nada é salvo.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @param {{ params: Promise<{ key: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ key: string }> }) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const { key } = await ctx.params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = PreviewPromptSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { content, version, dealId, vars, run } = parsed.data;
+
+  let template = content ?? null;
+  if (template === null && version !== undefined) {
+    const { data: row, error } = await supabase
+      .from('ai_prompt_templates')
+      .select('content')
+      .eq('organization_id', me.organization_id)
+      .eq('key', key)
+      .eq('version', version)
+      .maybeSingle();
+    if (error) return json({ error: error.message }, 500);
+    if (!row) return json({ error: 'Version not found' }, 404);
+    template = row.content as string;
+  }
+  if (template === null) {
+    template = (await getResolvedPrompt(supabase, me.organization_id, key))?.content ?? null;
+  }
+  if (!template) return json({ error: 'Prompt not found' }, 404);
+
+  let variables: Record<string, unknown> = {};
+  if (dealId) {
+    const { data: deal, error } = await supabase
+      .from('deals')
+      .select(
+        'title, value, probability, status, ai_summary, contact:contacts(name, company_name), company:crm_companies(name), stage:board_stages(name, label)'
+      )
+      .eq('organization_id', me.organization_id)
+      .eq('id', dealId)
+      .maybeSingle();
+    if (error) return json({ error: error.message }, 500);
+    if (!deal) return json({ error: 'Deal not found' }, 404);
+    variables = dealPromptVariables(deal as unknown as PreviewDealRow);
+  }
+  variables = { ...variables, ...(vars ?? {}) };
+
+  const prompt = renderPromptTemplate(template, variables);
+  const missing = listPromptTemplateVariables(template).filter((name) => {
+    const v = variables[name];
+    return v === undefined || v === null || v === '';
+  });
+
+  if (!run) return json({ prompt, variables, missing });
+
+  try {
+    const { model } = await requireAITaskContext(req, 'ai_prompt_preview');
+    const result = await generateText({ model, maxRetries: 1, prompt });
+    return json({ prompt, variables, missing, output: result.text });
+  } catch (err: unknown) {
+    if (err instanceof AITaskHttpError) return err.toResponse();
+    if (err instanceof AIBudgetExceededError) return aiBudgetHttpError(err).toResponse();
+
+    console.error('[api/settings/ai-prompts/preview] Error:', err);
+    return json({ error: { code: 'INTERNAL_ERROR', message: 'Erro ao executar o prompt.' } }, 500);
+  }
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { stopRunningPromptExperiment } from '@/lib/ai/prompts/server';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+const RollbackPromptSchema = z
+  .object({
+    version: z.number().int().min(1),
+  })
+  .strict();
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Reativa uma versão anterior do prompt (o histórico é mantido; a versão atual só é desativada).
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @param {{ params: Promise<{ key: string; }>; }} ctx - Contexto de execução.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ key: string }> }) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const { key } = await ctx.params;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = RollbackPromptSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { version } = parsed.data;
+
+  const { data: target, error: targetError } = await supabase
+    .from('ai_prompt_templates')
+    .select('id, is_active')
+    .eq('organization_id', me.organization_id)
+    .eq('key', key)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (targetError) return json({ error: targetError.message }, 500);
+  if (!target) return json({ error: 'Version not found' }, 404);
+  if (target.is_active) return json({ ok: true, key, version });
+
+  const now = new Date().toISOString();
+
+  // Apenas um "active" por key: desativa a atual antes de reativar a escolhida.
+  const { error: deactivateError } = await supabase
+    .from('ai_prompt_templates')
+    .update({ is_active: false, updated_at: now })
+    .eq('organization_id', me.organization_id)
+    .eq('key', key)
+    .eq('is_active', true);
+
+  if (deactivateError) return json({ error: deactivateError.message }, 500);
+
+  const { error: activateError } = await supabase
+    .from('ai_prompt_templates')
+    .update({ is_active: true, updated_at: now })
+    .eq('id', target.id);
+
+  if (activateError) return json({ error: activateError.message }, 500);
+
+  await stopRunningPromptExperiment(supabase, me.organization_id, key);
+
+  return json({ ok: true, key, version });
+}
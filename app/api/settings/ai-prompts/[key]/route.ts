@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { stopRunningPromptExperiment } from '@/lib/ai/prompts/server';
 
 function json<T>(body: T, status = 200): Response {
   return new Response(JSON.stringify(body), {
@@ -83,6 +84,8 @@ export async function DELETE(req: Request, ctx: { params: Promise<{ key: string
 
   if (error) return json({ error: error.message }, 500);
 
+  await stopRunningPromptExperiment(supabase, me.organization_id, key);
+
   return json({ ok: true });
 }
 
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { stopRunningPromptExperiment } from '@/lib/ai/prompts/server';
 
 function json<T>(body: T, status = 200): Response {
   return new Response(JSON.stringify(body), {
@@ -123,6 +124,9 @@ export async function POST(req: Request) {
 
   if (insertError) return json({ error: insertError.message }, 500);
 
+  // A versão de controle mudou: o teste A/B em andamento deixa de ser comparável.
+  await stopRunningPromptExperiment(supabase, me.organization_id, key);
+
   return json({ ok: true, key, version: nextVersion });
 }
 
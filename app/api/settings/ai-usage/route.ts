@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { createClient, createStaticAdminClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { startOfUsageMonth, summarizeAIUsage, type AIUsageSummaryRow } from '@/lib/ai/usage';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+async function requireAdmin() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { error: json({ error: 'Unauthorized' }, 401) } as const;
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return { error: json({ error: 'Profile not found' }, 404) } as const;
+  if (me.role !== 'admin') return { error: json({ error: 'Forbidden' }, 403) } as const;
+
+  return { supabase, organizationId: me.organization_id as string } as const;
+}
+
+const toBudget = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Consumo de IA do mês corrente (UTC) por função, usuário, modelo e chave de API, com os orçamentos.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET() {
+  const ctx = await requireAdmin();
+  if ('error' in ctx) return ctx.error;
+
+  const since = startOfUsageMonth();
+  const admin = createStaticAdminClient();
+
+  const [summaryRes, settingsRes, profilesRes, keysRes] = await Promise.all([
+    admin.rpc('ai_usage_summary', { p_organization_id: ctx.organizationId, p_since: since }),
+    ctx.supabase
+      .from('organization_settings')
+      .select('ai_monthly_budget_usd, ai_user_monthly_budget_usd')
+      .eq('organization_id', ctx.organizationId)
+      .maybeSingle(),
+    ctx.supabase.from('profiles').select('id, first_name, last_name, nickname, email').eq('organization_id', ctx.organizationId),
+    ctx.supabase.from('api_keys').select('id, name, key_prefix').eq('organization_id', ctx.organizationId),
+  ]);
+
+  if (summaryRes.error) return json({ error: summaryRes.error.message }, 500);
+  if (settingsRes.error) return json({ error: settingsRes.error.message }, 500);
+
+  const users: Record<string, string> = {};
+  for (const p of profilesRes.data || []) {
+    users[p.id] = p.nickname || [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email || p.id;
+  }
+  const apiKeys: Record<string, string> = {};
+  for (const k of keysRes.data || []) apiKeys[k.id] = `${k.name} (${k.key_prefix}…)`;
+
+  return json({
+    since,
+    budgets: {
+      organizationUsd: toBudget(settingsRes.data?.ai_monthly_budget_usd),
+      userUsd: toBudget(settingsRes.data?.ai_user_monthly_budget_usd),
+    },
+    ...summarizeAIUsage((summaryRes.data || []) as AIUsageSummaryRow[]),
+    users,
+    apiKeys,
+  });
+}
+
+const Budget = z.number().min(0).max(1_000_000).nullable();
+
+const UpdateBudgetsSchema = z
+  .object({
+    /** `null` = sem limite. */
+    organizationUsd: Budget.optional(),
+    userUsd: Budget.optional(),
+  })
+  .strict();
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Atualiza os orçamentos mensais (USD estimados) da organização e por usuário.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const ctx = await requireAdmin();
+  if ('error' in ctx) return ctx.error;
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = UpdateBudgetsSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (parsed.data.organizationUsd !== undefined) updates.ai_monthly_budget_usd = parsed.data.organizationUsd;
+  if (parsed.data.userUsd !== undefined) updates.ai_user_monthly_budget_usd = parsed.data.userUsd;
+
+  const { error } = await ctx.supabase
+    .from('organization_settings')
+    .update(updates)
+    .eq('organization_id', ctx.organizationId);
+
+  if (error) return json({ error: error.message }, 500);
+  return json({ ok: true });
+}
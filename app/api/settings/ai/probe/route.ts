@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { normalizeLocalBaseUrl, probeOpenAICompatibleModel } from '@/lib/ai/localProvider';
+
+export const maxDuration = 30;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'content-type': 'application/json; charset=utf-8',
+    },
+  });
+}
+
+const ProbeLocalModelSchema = z
+  .object({
+    /** Valores ainda não salvos (rascunho da tela); ausentes = config salva da organização. */
+    baseUrl: z.string().max(500).optional(),
+    apiKey: z.string().optional(),
+    model: z.string().min(1).max(200).optional(),
+  })
+  .strict();
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Testa o servidor compatível com OpenAI (conectividade + tool calling). Quando o teste é da
+ * configuração salva, o resultado é gravado em `ai_local_supports_tools` e libera (ou não) as
+ * ferramentas do agente.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  // Mitigação CSRF: endpoint autenticado por cookies.
+  if (!isAllowedOrigin(req)) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('organization_id, role')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError || !profile?.organization_id) {
+    return json({ error: 'Profile not found' }, 404);
+  }
+
+  if (profile.role !== 'admin') {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  const rawBody = await req.json().catch(() => ({}));
+  const parsed = ProbeLocalModelSchema.safeParse(rawBody ?? {});
+  if (!parsed.success) {
+    return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+  }
+
+  const { data: orgSettings, error: orgError } = await supabase
+    .from('organization_settings')
+    .select('ai_provider, ai_model, ai_local_base_url, ai_local_key')
+    .eq('organization_id', profile.organization_id)
+    .maybeSingle();
+
+  if (orgError) {
+    return json({ error: orgError.message }, 500);
+  }
+
+  const savedBaseUrl = orgSettings?.ai_local_base_url || null;
+  const savedModel = orgSettings?.ai_provider === 'openai_compatible' ? orgSettings?.ai_model || null : null;
+
+  const baseUrl = parsed.data.baseUrl !== undefined ? normalizeLocalBaseUrl(parsed.data.baseUrl) : savedBaseUrl;
+  const model = parsed.data.model?.trim() || savedModel;
+  if (!baseUrl) {
+    return json({ error: 'Base URL inválida ou não configurada' }, 400);
+  }
+  if (!model) {
+    return json({ error: 'Informe o modelo do servidor local' }, 400);
+  }
+
+  const apiKey = parsed.data.apiKey !== undefined ? parsed.data.apiKey : orgSettings?.ai_local_key || '';
+  const result = await probeOpenAICompatibleModel({ baseURL: baseUrl, apiKey, model });
+
+  // Só a config salva tem o resultado persistido (o agente lê esse flag).
+  const persisted = baseUrl === savedBaseUrl && model === savedModel;
+  if (persisted) {
+    const { error: updateError } = await supabase
+      .from('organization_settings')
+      .update({
+        ai_local_supports_tools: result.supportsTools,
+        ai_local_probed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('organization_id', profile.organization_id);
+
+    if (updateError) {
+      return json({ error: updateError.message }, 500);
+    }
+  }
+
+  return json({ ...result, baseUrl, model, persisted });
+}
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { MAX_AI_FALLBACKS, parseAIFallbackChain } from '@/lib/ai/provider';
+import { normalizeLocalBaseUrl } from '@/lib/ai/localProvider';
 
 function json<T>(body: T, status = 200): Response {
   return new Response(JSON.stringify(body), {
@@ -11,16 +13,31 @@ function json<T>(body: T, status = 200): Response {
   });
 }
 
-type Provider = 'google' | 'openai' | 'anthropic';
+type Provider = 'google' | 'openai' | 'anthropic' | 'openai_compatible';
+
+const PROVIDERS = ['google', 'openai', 'anthropic', 'openai_compatible'] as const;
 
 const UpdateOrgAISettingsSchema = z
   .object({
     aiEnabled: z.boolean().optional(),
-    aiProvider: z.enum(['google', 'openai', 'anthropic']).optional(),
+    aiProvider: z.enum(PROVIDERS).optional(),
     aiModel: z.string().min(1).max(200).optional(),
     aiGoogleKey: z.string().optional(),
     aiOpenaiKey: z.string().optional(),
     aiAnthropicKey: z.string().optional(),
+    aiLocalBaseUrl: z.string().max(500).optional(),
+    aiLocalKey: z.string().optional(),
+    aiFallbackChain: z
+      .array(
+        z
+          .object({
+            provider: z.enum(PROVIDERS),
+            model: z.string().max(200).optional(),
+          })
+          .strict()
+      )
+      .max(MAX_AI_FALLBACKS)
+      .optional(),
   })
   .strict();
 
@@ -51,7 +68,9 @@ export async function GET() {
 
   const { data: orgSettings, error: orgError } = await supabase
     .from('organization_settings')
-    .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key')
+    .select(
+      'ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key, ai_fallback_chain, ai_local_base_url, ai_local_key, ai_local_supports_tools, ai_local_probed_at'
+    )
     .eq('organization_id', profile.organization_id)
     .maybeSingle();
 
@@ -60,6 +79,14 @@ export async function GET() {
   }
 
   const aiEnabled = typeof orgSettings?.ai_enabled === 'boolean' ? orgSettings.ai_enabled : true;
+  const aiFallbackChain = parseAIFallbackChain(orgSettings?.ai_fallback_chain);
+  const local = {
+    aiHasLocalBaseUrl: Boolean(orgSettings?.ai_local_base_url),
+    aiHasLocalKey: Boolean(orgSettings?.ai_local_key),
+    // NULL = modelo local ainda não testado (as tools do agente ficam desligadas).
+    aiLocalSupportsTools: typeof orgSettings?.ai_local_supports_tools === 'boolean' ? orgSettings.ai_local_supports_tools : null,
+    aiLocalProbedAt: orgSettings?.ai_local_probed_at ?? null,
+  };
 
   // Security: members should NOT receive raw API keys.
   if (profile.role !== 'admin') {
@@ -67,12 +94,16 @@ export async function GET() {
       aiEnabled,
       aiProvider: (orgSettings?.ai_provider || 'google') as Provider,
       aiModel: orgSettings?.ai_model || 'gemini-2.5-flash',
+    aiFallbackChain,
       aiGoogleKey: '',
       aiOpenaiKey: '',
       aiAnthropicKey: '',
+      aiLocalBaseUrl: '',
+      aiLocalKey: '',
       aiHasGoogleKey: Boolean(orgSettings?.ai_google_key),
       aiHasOpenaiKey: Boolean(orgSettings?.ai_openai_key),
       aiHasAnthropicKey: Boolean(orgSettings?.ai_anthropic_key),
+      ...local,
     });
   }
 
@@ -80,12 +111,16 @@ export async function GET() {
     aiEnabled,
     aiProvider: (orgSettings?.ai_provider || 'google') as Provider,
     aiModel: orgSettings?.ai_model || 'gemini-2.5-flash',
+    aiFallbackChain,
     aiGoogleKey: orgSettings?.ai_google_key || '',
     aiOpenaiKey: orgSettings?.ai_openai_key || '',
     aiAnthropicKey: orgSettings?.ai_anthropic_key || '',
+    aiLocalBaseUrl: orgSettings?.ai_local_base_url || '',
+    aiLocalKey: orgSettings?.ai_local_key || '',
     aiHasGoogleKey: Boolean(orgSettings?.ai_google_key),
     aiHasOpenaiKey: Boolean(orgSettings?.ai_openai_key),
     aiHasAnthropicKey: Boolean(orgSettings?.ai_anthropic_key),
+    ...local,
   });
 }
 
@@ -148,6 +183,7 @@ export async function POST(req: Request) {
   if (updates.aiEnabled !== undefined) dbUpdates.ai_enabled = updates.aiEnabled;
   if (updates.aiProvider !== undefined) dbUpdates.ai_provider = updates.aiProvider;
   if (updates.aiModel !== undefined) dbUpdates.ai_model = updates.aiModel;
+  if (updates.aiFallbackChain !== undefined) dbUpdates.ai_fallback_chain = parseAIFallbackChain(updates.aiFallbackChain);
 
   const googleKey = normalizeKey(updates.aiGoogleKey);
   if (googleKey !== undefined) dbUpdates.ai_google_key = googleKey;
@@ -158,6 +194,23 @@ export async function POST(req: Request) {
   const anthropicKey = normalizeKey(updates.aiAnthropicKey);
   if (anthropicKey !== undefined) dbUpdates.ai_anthropic_key = anthropicKey;
 
+  if (updates.aiLocalBaseUrl !== undefined) {
+    const baseUrl = normalizeLocalBaseUrl(updates.aiLocalBaseUrl);
+    if (updates.aiLocalBaseUrl.trim() && !baseUrl) {
+      return json({ error: 'Base URL inválida (use http:// ou https://)' }, 400);
+    }
+    dbUpdates.ai_local_base_url = baseUrl;
+  }
+
+  const localKey = normalizeKey(updates.aiLocalKey);
+  if (localKey !== undefined) dbUpdates.ai_local_key = localKey;
+
+  // Outro servidor/modelo: o resultado do probe de tool calling deixa de valer.
+  if (updates.aiLocalBaseUrl !== undefined || updates.aiModel !== undefined) {
+    dbUpdates.ai_local_supports_tools = null;
+    dbUpdates.ai_local_probed_at = null;
+  }
+
   const { error: upsertError } = await supabase
     .from('organization_settings')
     .upsert(dbUpdates, { onConflict: 'organization_id' });
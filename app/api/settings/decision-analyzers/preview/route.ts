@@ -0,0 +1,85 @@
+import { createClient, createStaticAdminClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { analyzers } from '@/features/decisions/analyzers';
+import { AnalyzerSettingInputSchema, previewAnalyzerSetting, sanitizeAnalyzerParams } from '@/lib/decisions/analyzerSettings';
+import { filterNewDecisions } from '@/lib/decisions/queue';
+import { loadAnalyzerInput, loadAnalyzerOverrides, loadDedupeState } from '@/lib/decisions/server';
+
+export const maxDuration = 60;
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Dry-run de uma regra ainda não salva: roda o analyzer com a config proposta sobre os dados
+ * atuais da organização, sem gravar nada. `decisions` são as que entrariam na fila;
+ * `alreadyQueued` conta as que já estão abertas ou em cooldown.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = AnalyzerSettingInputSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const input = parsed.data;
+  const analyzer = analyzers.find((a) => a.id === input.analyzerId);
+  if (!analyzer) return json({ error: 'Analyzer não encontrado' }, 404);
+
+  const params = sanitizeAnalyzerParams(analyzer.config.params, input.params);
+  if (!params.ok) return json({ error: params.error }, 400);
+
+  try {
+    const admin = createStaticAdminClient();
+    const [data, overrides] = await Promise.all([
+      loadAnalyzerInput(admin, me.organization_id),
+      loadAnalyzerOverrides(admin, me.organization_id),
+    ]);
+
+    const run = previewAnalyzerSetting(data.deals, data.activities, overrides, { ...input, params: params.params });
+    if (!run) return json({ enabled: false, decisions: [], alreadyQueued: 0, itemsAnalyzed: 0 });
+
+    const { openKeys, processedAt } = await loadDedupeState(admin, me.organization_id, run.config.cooldownDays ?? 0);
+    const fresh = filterNewDecisions(run.result.decisions, {
+      openKeys,
+      processedAt,
+      cooldownDays: run.config.cooldownDays ?? 0,
+    });
+
+    return json({
+      enabled: true,
+      decisions: fresh,
+      alreadyQueued: run.result.decisions.length - fresh.length,
+      itemsAnalyzed: run.result.metadata.itemsAnalyzed,
+      errors: run.result.metadata.errors,
+    });
+  } catch (err) {
+    console.error('[api/settings/decision-analyzers/preview] Error:', err);
+    return json({ error: 'Falha ao simular a regra' }, 500);
+  }
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { analyzers } from '@/features/decisions/analyzers';
+import { MAX_PRIORITY_OFFSET } from '@/lib/decisions/analyzerSettings';
+
+const PriorityInputSchema = z
+  .object({
+    analyzerId: z.string().min(1).max(120),
+    priorityOffset: z.number().int().min(-MAX_PRIORITY_OFFSET).max(MAX_PRIORITY_OFFSET),
+  })
+  .strict();
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Ajusta só a prioridade de um analyzer no padrão da organização (aplicar a sugestão do
+ * relatório da Central de Decisões), sem mexer nos demais campos da regra.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = PriorityInputSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const { analyzerId, priorityOffset } = parsed.data;
+  if (!analyzers.some((a) => a.id === analyzerId)) return json({ error: 'Analyzer não encontrado' }, 404);
+
+  // Upsert parcial: sem regra, cria uma que herda o resto do código; com regra, atualiza só a prioridade
+  const { error } = await supabase.from('ai_decision_analyzer_settings').upsert(
+    {
+      organization_id: me.organization_id,
+      analyzer_id: analyzerId,
+      board_id: null,
+      priority_offset: priorityOffset,
+      updated_by: me.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'organization_id,analyzer_id,board_id' }
+  );
+
+  if (error) return json({ error: error.message }, 500);
+  return json({ ok: true, priorityOffset });
+}
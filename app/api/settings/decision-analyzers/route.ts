@@ -0,0 +1,168 @@
+import { createClient } from '@/lib/supabase/server';
+import { isAllowedOrigin } from '@/lib/security/sameOrigin';
+import { analyzers } from '@/features/decisions/analyzers';
+import {
+  ANALYZER_SETTING_FIELDS,
+  AnalyzerSettingInputSchema,
+  fromAnalyzerSettingRow,
+  sanitizeAnalyzerParams,
+  type AnalyzerSettingRow,
+} from '@/lib/decisions/analyzerSettings';
+
+function json<T>(body: T, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+/**
+ * Handler HTTP `GET` deste endpoint (Next.js Route Handler).
+ *
+ * Analyzers da Central de Decisões (defaults do código) e as regras salvas da organização.
+ *
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+
+  const { data, error } = await supabase
+    .from('ai_decision_analyzer_settings')
+    .select(ANALYZER_SETTING_FIELDS)
+    .eq('organization_id', me.organization_id);
+
+  if (error) return json({ error: error.message }, 500);
+
+  return json({
+    isAdmin: me.role === 'admin',
+    analyzers: analyzers.map((a) => ({ id: a.id, name: a.name, description: a.description, config: a.config })),
+    settings: ((data || []) as AnalyzerSettingRow[]).map(fromAnalyzerSettingRow),
+  });
+}
+
+/**
+ * Handler HTTP `POST` deste endpoint (Next.js Route Handler).
+ *
+ * Salva a regra de um analyzer no padrão da organização (`boardId: null`) ou em um board.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function POST(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  const rawBody = await req.json().catch(() => null);
+  const parsed = AnalyzerSettingInputSchema.safeParse(rawBody);
+  if (!parsed.success) return json({ error: 'Invalid payload', details: parsed.error.flatten() }, 400);
+
+  const input = parsed.data;
+  const analyzer = analyzers.find((a) => a.id === input.analyzerId);
+  if (!analyzer) return json({ error: 'Analyzer não encontrado' }, 404);
+
+  const params = sanitizeAnalyzerParams(analyzer.config.params, input.params);
+  if (!params.ok) return json({ error: params.error }, 400);
+
+  if (input.boardId) {
+    const { data: board } = await supabase
+      .from('boards')
+      .select('id')
+      .eq('id', input.boardId)
+      .eq('organization_id', me.organization_id)
+      .maybeSingle();
+    if (!board) return json({ error: 'Board não encontrado' }, 404);
+  }
+
+  const { error } = await supabase.from('ai_decision_analyzer_settings').upsert(
+    {
+      organization_id: me.organization_id,
+      analyzer_id: input.analyzerId,
+      board_id: input.boardId,
+      enabled: input.enabled,
+      params: params.params,
+      max_decisions_per_run: input.maxDecisionsPerRun ?? null,
+      cooldown_days: input.cooldownDays ?? null,
+      // Ajustado pelo relatório da Central de Decisões; sem o campo, mantém o valor salvo
+      ...(input.priorityOffset !== undefined ? { priority_offset: input.priorityOffset } : {}),
+      updated_by: me.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'organization_id,analyzer_id,board_id' }
+  );
+
+  if (error) return json({ error: error.message }, 500);
+  return json({ ok: true });
+}
+
+/**
+ * Handler HTTP `DELETE` deste endpoint (Next.js Route Handler).
+ *
+ * Remove a regra (`?analyzerId=...&boardId=...`; sem `boardId` = padrão da organização),
+ * voltando ao padrão do escopo acima.
+ *
+ * @param {Request} req - Objeto da requisição.
+ * @returns {Promise<Response>} Retorna um valor do tipo `Promise<Response>`.
+ */
+export async function DELETE(req: Request) {
+  if (!isAllowedOrigin(req)) return json({ error: 'Forbidden' }, 403);
+
+  const url = new URL(req.url);
+  const analyzerId = url.searchParams.get('analyzerId');
+  const boardId = url.searchParams.get('boardId');
+  if (!analyzerId) return json({ error: 'analyzerId é obrigatório' }, 400);
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return json({ error: 'Unauthorized' }, 401);
+
+  const { data: me, error: meError } = await supabase
+    .from('profiles')
+    .select('id, role, organization_id')
+    .eq('id', user.id)
+    .single();
+
+  if (meError || !me?.organization_id) return json({ error: 'Profile not found' }, 404);
+  if (me.role !== 'admin') return json({ error: 'Forbidden' }, 403);
+
+  let query = supabase
+    .from('ai_decision_analyzer_settings')
+    .delete()
+    .eq('organization_id', me.organization_id)
+    .eq('analyzer_id', analyzerId);
+  query = boardId ? query.eq('board_id', boardId) : query.is('board_id', null);
+
+  const { error } = await query;
+  if (error) return json({ error: error.message }, 500);
+  return json({ ok: true });
+}
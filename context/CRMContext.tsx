@@ -163,12 +163,17 @@ interface CRMContextType {
   setIsGlobalAIOpen: (isOpen: boolean) => void;
 
   // AI Configuration
-  aiProvider: 'google' | 'openai' | 'anthropic';
-  setAiProvider: (provider: 'google' | 'openai' | 'anthropic') => Promise<void>;
+  aiProvider: 'google' | 'openai' | 'anthropic' | 'openai_compatible';
+  setAiProvider: (provider: 'google' | 'openai' | 'anthropic' | 'openai_compatible') => Promise<void>;
   aiApiKey: string;
   setAiApiKey: (key: string) => Promise<void>;
   aiModel: string;
   setAiModel: (model: string) => Promise<void>;
+  aiLocalBaseUrl: string;
+  aiLocalKey: string;
+  aiLocalSupportsTools: boolean | null;
+  setAiLocalConfig: (config: { baseUrl: string; apiKey: string }) => Promise<void>;
+  setAiLocalSupportsTools: (supported: boolean | null) => void;
   aiOrgEnabled: boolean;
   setAiOrgEnabled: (enabled: boolean) => Promise<void>;
   aiKeyConfigured: boolean;
@@ -278,6 +283,11 @@ const CRMInnerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     setAiApiKey,
     aiModel,
     setAiModel,
+    aiLocalBaseUrl,
+    aiLocalKey,
+    aiLocalSupportsTools,
+    setAiLocalConfig,
+    setAiLocalSupportsTools,
     aiOrgEnabled,
     setAiOrgEnabled,
     aiKeyConfigured,
@@ -854,6 +864,11 @@ const CRMInnerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
       setAiApiKey,
       aiModel,
       setAiModel,
+      aiLocalBaseUrl,
+      aiLocalKey,
+      aiLocalSupportsTools,
+      setAiLocalConfig,
+      setAiLocalSupportsTools,
       aiOrgEnabled,
       setAiOrgEnabled,
       aiKeyConfigured,
@@ -929,6 +944,11 @@ const CRMInnerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
       setAiApiKey,
       aiModel,
       setAiModel,
+      aiLocalBaseUrl,
+      aiLocalKey,
+      aiLocalSupportsTools,
+      setAiLocalConfig,
+      setAiLocalSupportsTools,
       aiOrgEnabled,
       setAiOrgEnabled,
       aiKeyConfigured,
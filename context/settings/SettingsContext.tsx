@@ -22,7 +22,7 @@ const DEFAULT_LIFECYCLE_STAGES: LifecycleStage[] = [
 ];
 
 interface AIConfig {
-  provider: 'google' | 'openai' | 'anthropic';
+  provider: 'google' | 'openai' | 'anthropic' | 'openai_compatible';
   apiKey: string;
   model: string;
   thinking: boolean;
@@ -66,6 +66,13 @@ interface SettingsContextType {
   aiGoogleKey: string;
   aiOpenaiKey: string;
   aiAnthropicKey: string;
+  /** Servidor compatível com OpenAI (provider `openai_compatible`); vazio para membros. */
+  aiLocalBaseUrl: string;
+  aiLocalKey: string;
+  /** Resultado do probe de tool calling do modelo local (null = não testado). */
+  aiLocalSupportsTools: boolean | null;
+  setAiLocalConfig: (config: { baseUrl: string; apiKey: string }) => Promise<void>;
+  setAiLocalSupportsTools: (supported: boolean | null) => void;
   aiModel: string;
   setAiModel: (model: string) => Promise<void>;
   /** Toggle org-wide: admin controla se IA está ativa para a organização */
@@ -142,6 +149,10 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [aiHasGoogleKey, setAiHasGoogleKey] = useState<boolean>(false);
   const [aiHasOpenaiKey, setAiHasOpenaiKey] = useState<boolean>(false);
   const [aiHasAnthropicKey, setAiHasAnthropicKey] = useState<boolean>(false);
+  const [aiLocalBaseUrl, setAiLocalBaseUrlState] = useState<string>('');
+  const [aiLocalKey, setAiLocalKeyState] = useState<string>('');
+  const [aiHasLocalBaseUrl, setAiHasLocalBaseUrl] = useState<boolean>(false);
+  const [aiLocalSupportsTools, setAiLocalSupportsTools] = useState<boolean | null>(null);
   const [aiFeatureFlags, setAiFeatureFlags] = useState<Record<string, boolean>>({});
   const [aiThinking, setAiThinkingState] = useState<boolean>(true);
   const [aiSearch, setAiSearchState] = useState<boolean>(true);
@@ -153,18 +164,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       case 'google': return aiGoogleKey;
       case 'openai': return aiOpenaiKey;
       case 'anthropic': return aiAnthropicKey;
+      case 'openai_compatible': return aiLocalKey;
       default: return '';
     }
-  }, [aiProvider, aiGoogleKey, aiOpenaiKey, aiAnthropicKey]);
+  }, [aiProvider, aiGoogleKey, aiOpenaiKey, aiAnthropicKey, aiLocalKey]);
 
   const aiKeyConfigured = useMemo(() => {
     switch (aiProvider) {
       case 'google': return aiHasGoogleKey || Boolean(aiGoogleKey && aiGoogleKey.trim());
       case 'openai': return aiHasOpenaiKey || Boolean(aiOpenaiKey && aiOpenaiKey.trim());
       case 'anthropic': return aiHasAnthropicKey || Boolean(aiAnthropicKey && aiAnthropicKey.trim());
+      // Servidor local: a key é opcional, o que conta é a base URL.
+      case 'openai_compatible': return aiHasLocalBaseUrl || Boolean(aiLocalBaseUrl && aiLocalBaseUrl.trim());
       default: return false;
     }
-  }, [aiProvider, aiHasGoogleKey, aiHasOpenaiKey, aiHasAnthropicKey, aiGoogleKey, aiOpenaiKey, aiAnthropicKey]);
+  }, [aiProvider, aiHasGoogleKey, aiHasOpenaiKey, aiHasAnthropicKey, aiHasLocalBaseUrl, aiGoogleKey, aiOpenaiKey, aiAnthropicKey, aiLocalBaseUrl]);
 
   // UI State
   const [isGlobalAIOpen, setIsGlobalAIOpen] = useState(false);
@@ -222,6 +236,10 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
               aiHasGoogleKey?: boolean;
               aiHasOpenaiKey?: boolean;
               aiHasAnthropicKey?: boolean;
+              aiLocalBaseUrl?: string;
+              aiLocalKey?: string;
+              aiHasLocalBaseUrl?: boolean;
+              aiLocalSupportsTools?: boolean | null;
             };
 
             setAiOrgEnabledState(typeof aiData.aiEnabled === 'boolean' ? aiData.aiEnabled : true);
@@ -233,6 +251,10 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
             setAiHasGoogleKey(Boolean(aiData.aiHasGoogleKey));
             setAiHasOpenaiKey(Boolean(aiData.aiHasOpenaiKey));
             setAiHasAnthropicKey(Boolean(aiData.aiHasAnthropicKey));
+            setAiLocalBaseUrlState(aiData.aiLocalBaseUrl || '');
+            setAiLocalKeyState(aiData.aiLocalKey || '');
+            setAiHasLocalBaseUrl(Boolean(aiData.aiHasLocalBaseUrl));
+            setAiLocalSupportsTools(typeof aiData.aiLocalSupportsTools === 'boolean' ? aiData.aiLocalSupportsTools : null);
           } else {
             const body = await aiRes.json().catch(() => null);
             const message = body?.error || `Falha ao carregar config de IA (HTTP ${aiRes.status})`;
@@ -429,6 +451,10 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
           await updateOrgAISettings({ aiAnthropicKey: key });
           setAiAnthropicKeyState(key);
           break;
+        case 'openai_compatible':
+          await updateOrgAISettings({ aiLocalKey: key });
+          setAiLocalKeyState(key);
+          break;
       }
     },
     [updateOrgAISettings, aiProvider]
@@ -438,6 +464,19 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     async (model: string) => {
       await updateOrgAISettings({ aiModel: model });
       setAiModelState(model);
+      // O backend invalida o probe do modelo local ao trocar de modelo.
+      setAiLocalSupportsTools(null);
+    },
+    [updateOrgAISettings]
+  );
+
+  const setAiLocalConfig = useCallback(
+    async ({ baseUrl, apiKey }: { baseUrl: string; apiKey: string }) => {
+      await updateOrgAISettings({ aiLocalBaseUrl: baseUrl, aiLocalKey: apiKey });
+      setAiLocalBaseUrlState(baseUrl.trim());
+      setAiLocalKeyState(apiKey.trim());
+      setAiHasLocalBaseUrl(Boolean(baseUrl.trim()));
+      setAiLocalSupportsTools(null);
     },
     [updateOrgAISettings]
   );
@@ -558,6 +597,11 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       aiGoogleKey,
       aiOpenaiKey,
       aiAnthropicKey,
+      aiLocalBaseUrl,
+      aiLocalKey,
+      aiLocalSupportsTools,
+      setAiLocalConfig,
+      setAiLocalSupportsTools,
       aiModel,
       setAiModel,
       aiOrgEnabled,
@@ -604,6 +648,11 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       aiGoogleKey,
       aiOpenaiKey,
       aiAnthropicKey,
+      aiLocalBaseUrl,
+      aiLocalKey,
+      aiLocalSupportsTools,
+      setAiLocalConfig,
+      setAiLocalSupportsTools,
       aiModel,
       setAiModel,
       aiOrgEnabled,
@@ -15,6 +15,8 @@ import {
   generateEmailDraft,
   generateObjectionResponse,
 } from '@/lib/ai/tasksClient';
+import type { PromptUsage } from '@/lib/ai/prompts/versions';
+import { aiSuggestionsService } from '@/lib/supabase/aiSuggestions';
 import {
   BrainCircuit,
   Mail,
@@ -34,6 +36,7 @@ import {
   Bot,
   Tag as TagIcon,
   Plus,
+  Copy,
 } from 'lucide-react';
 import { StageProgressBar } from '../StageProgressBar';
 import { ActivityRow } from '@/features/activities/components/ActivityRow';
@@ -110,12 +113,14 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
   const [isDrafting, setIsDrafting] = useState(false);
   const [aiResult, setAiResult] = useState<{ suggestion: string; score: number } | null>(null);
   const [emailDraft, setEmailDraft] = useState<string | null>(null);
+  const [emailDraftPrompt, setEmailDraftPrompt] = useState<PromptUsage | null>(null);
   const [newNote, setNewNote] = useState('');
   const [activeTab, setActiveTab] = useState<'timeline' | 'products' | 'info'>('timeline');
   const noteTextareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const [objection, setObjection] = useState('');
   const [objectionResponses, setObjectionResponses] = useState<string[]>([]);
+  const [objectionPrompt, setObjectionPrompt] = useState<PromptUsage | null>(null);
   const [isGeneratingObjections, setIsGeneratingObjections] = useState(false);
 
   const [selectedProductId, setSelectedProductId] = useState('');
@@ -147,7 +152,9 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
       setEditValue(deal.value.toString());
       setAiResult(null);
       setEmailDraft(null);
+      setEmailDraftPrompt(null);
       setObjectionResponses([]);
+      setObjectionPrompt(null);
       setObjection('');
       setActiveTab('timeline');
       setIsEditingTitle(false);
@@ -244,7 +251,8 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
     try {
       // Performance: stageLabel memoized above.
       const draft = await generateEmailDraft(deal, stageLabel);
-      setEmailDraft(draft);
+      setEmailDraft(draft.text);
+      setEmailDraftPrompt(draft.prompt);
     } catch (error: any) {
       console.error('[DealDetailModal] generateEmailDraft failed:', error);
       addToast(
@@ -261,8 +269,9 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
     if (!objection.trim()) return;
     setIsGeneratingObjections(true);
     try {
-      const responses = await generateObjectionResponse(deal, objection);
-      setObjectionResponses(responses);
+      const result = await generateObjectionResponse(deal, objection);
+      setObjectionResponses(result.responses);
+      setObjectionPrompt(result.prompt);
     } catch (error: any) {
       console.error('[DealDetailModal] generateObjectionResponse failed:', error);
       addToast(
@@ -274,6 +283,30 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
     }
   };
 
+  // Feedback (usou/descartou) alimenta a comparação de versões de prompt na Central de I.A.
+  const sendPromptFeedback = (prompt: PromptUsage | null, action: 'ACCEPTED' | 'DISMISSED') => {
+    if (!prompt) return;
+    void aiSuggestionsService.recordPromptFeedback(prompt, deal.id, action).then(({ error }) => {
+      if (error) console.warn('[DealDetailModal] prompt feedback failed:', error.message);
+    });
+  };
+
+  const copyAIText = async (text: string, prompt: PromptUsage | null) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      addToast('Copiado!', 'success');
+      sendPromptFeedback(prompt, 'ACCEPTED');
+    } catch {
+      addToast('Falha ao copiar', 'warning');
+    }
+  };
+
+  const discardEmailDraft = () => {
+    sendPromptFeedback(emailDraftPrompt, 'DISMISSED');
+    setEmailDraft(null);
+    setEmailDraftPrompt(null);
+  };
+
   const handleAddNote = () => {
     if (!newNote.trim()) return;
 
@@ -1083,9 +1116,31 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
                       )}
                       {emailDraft && (
                         <div className="bg-white/80 dark:bg-black/40 backdrop-blur-md p-4 rounded-lg border border-primary-100 dark:border-primary-500/20">
-                          <h4 className="text-xs font-bold text-primary-700 dark:text-primary-300 uppercase tracking-wider mb-2">
-                            Rascunho de Email
-                          </h4>
+                          <div className="flex items-center justify-between gap-2 mb-2">
+                            <h4 className="text-xs font-bold text-primary-700 dark:text-primary-300 uppercase tracking-wider">
+                              Rascunho de Email
+                            </h4>
+                            <div className="flex items-center gap-1">
+                              <button
+                                type="button"
+                                onClick={() => copyAIText(emailDraft, emailDraftPrompt)}
+                                className="p-1.5 rounded-md text-primary-700 dark:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-500/10"
+                                title="Copiar rascunho"
+                                aria-label="Copiar rascunho"
+                              >
+                                <Copy size={14} />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={discardEmailDraft}
+                                className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-white/10"
+                                title="Descartar rascunho"
+                                aria-label="Descartar rascunho"
+                              >
+                                <X size={14} />
+                              </button>
+                            </div>
+                          </div>
                           <p className="text-sm text-slate-700 dark:text-slate-200 leading-relaxed italic">
                             "{emailDraft}"
                           </p>
@@ -1139,7 +1194,16 @@ export const DealDetailModal: React.FC<DealDetailModalProps> = ({ dealId, isOpen
                               <div className="shrink-0 w-6 h-6 bg-rose-100 dark:bg-rose-500/20 rounded-full flex items-center justify-center text-rose-600 dark:text-rose-400 font-bold text-xs">
                                 {idx + 1}
                               </div>
-                              <p className="text-sm text-slate-700 dark:text-slate-200">{resp}</p>
+                              <p className="flex-1 text-sm text-slate-700 dark:text-slate-200">{resp}</p>
+                              <button
+                                type="button"
+                                onClick={() => copyAIText(resp, objectionPrompt)}
+                                className="shrink-0 self-start p-1.5 rounded-md text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-500/10"
+                                title="Copiar resposta"
+                                aria-label="Copiar resposta"
+                              >
+                                <Copy size={14} />
+                              </button>
                             </div>
                           ))}
                         </div>
@@ -113,10 +113,14 @@ function buildExecutionHeader(opts: {
   channel: 'WHATSAPP' | 'EMAIL';
   context?: MessageLogContext | null;
   outsideCRM?: boolean;
+  /** Envio pelo servidor: o registro já traz o canal */
+  omitChannel?: boolean;
 }) {
   const lines: string[] = [];
   lines.push('Fonte: Cockpit');
-  lines.push(`Canal: ${opts.channel === 'WHATSAPP' ? 'WhatsApp' : 'E-mail'}`);
+  if (!opts.omitChannel) {
+    lines.push(`Canal: ${opts.channel === 'WHATSAPP' ? 'WhatsApp' : 'E-mail'}`);
+  }
 
   if (opts.outsideCRM) {
     lines.push('Fora do CRM: sim');
@@ -1153,6 +1157,12 @@ export default function DealCockpitClient({ dealId }: { dealId?: string }) {
     async (ev: MessageExecutedEvent) => {
       if (!selectedDeal) return;
 
+      // Enviado pelo servidor: a atividade já foi registrada na rota de envio
+      if (ev.sentByServer) {
+        setMessageLogContext(null);
+        return;
+      }
+
       const payloadKey = `${ev.channel}|${ev.subject ?? ''}|${ev.message ?? ''}`;
       const nextKey = hashString(payloadKey);
       const now = Date.now();
@@ -2513,6 +2523,11 @@ export default function DealCockpitClient({ dealId }: { dealId?: string }) {
         initialSubject={messagePrefill?.subject}
         initialMessage={messagePrefill?.message}
         onExecuted={(ev) => void handleMessageExecuted(ev)}
+        send={{
+          dealId: selectedDeal?.id,
+          contactId: contact?.id,
+          logContext: buildExecutionHeader({ channel: messageChannel, context: messageLogContext, omitChannel: true }),
+        }}
         aiContext={{
           cockpitSnapshot: cockpitSnapshot ?? undefined,
           nextBestAction: {
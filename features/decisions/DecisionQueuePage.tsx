@@ -3,7 +3,7 @@
  * Central de Decisões - Página principal
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Sparkles,
   RefreshCw,
@@ -15,9 +15,15 @@ import {
   Loader2,
   Inbox,
   Zap,
+  ShieldAlert,
+  BarChart3,
 } from 'lucide-react';
+import { useToast } from '@/context/ToastContext';
 import { DecisionCard } from './components/DecisionCard';
+import { McpApprovalCard } from './components/McpApprovalCard';
+import { DecisionOutcomeReport } from './components/DecisionOutcomeReport';
 import { useDecisionQueue } from './hooks/useDecisionQueue';
+import { useMcpApprovals } from './hooks/useMcpApprovals';
 import { PRIORITY_LABELS, CATEGORY_LABELS } from './types';
 
 // Performance: reuse formatter instance.
@@ -37,6 +43,7 @@ export const DecisionQueuePage: React.FC = () => {
     decisions,
     stats,
     lastAnalyzedAt,
+    isLoading,
     isAnalyzing,
     executingIds,
     runAnalyzers,
@@ -46,6 +53,30 @@ export const DecisionQueuePage: React.FC = () => {
     approveAll,
     clearAll,
   } = useDecisionQueue();
+  const { approvals: mcpApprovals, decide: decideMcpApproval } = useMcpApprovals();
+  const { addToast } = useToast();
+  const [showReport, setShowReport] = useState(false);
+
+  const handleMcpDecision = (id: string, decision: 'approve' | 'reject') => {
+    decideMcpApproval.mutate(
+      { id, decision },
+      {
+        onSuccess: (res) => {
+          if (decision === 'reject') addToast('Pedido rejeitado', 'info');
+          else if (res.status === 'executed') addToast('Ferramenta executada com sucesso', 'success');
+          else addToast(res.error || 'A ferramenta falhou ao executar', 'error');
+        },
+        onError: (e) => addToast(e.message || 'Erro ao registrar a decisão', 'error'),
+      }
+    );
+  };
+
+  const handleRunAnalyzers = async () => {
+    const result = await runAnalyzers();
+    if (!result) addToast('Erro ao analisar o CRM', 'error');
+    else if (result.addedDecisions > 0) addToast(`${result.addedDecisions} novas decisões na fila`, 'success');
+    else addToast('Nenhuma decisão nova', 'info');
+  };
 
   const lastAnalyzedLabel = useMemo(() => {
     if (!lastAnalyzedAt) return 'Nunca analisado';
@@ -92,7 +123,20 @@ export const DecisionQueuePage: React.FC = () => {
 
         <div className="flex items-center gap-2">
           <button
-            onClick={runAnalyzers}
+            onClick={() => setShowReport(v => !v)}
+            className={`p-2 rounded-lg transition-colors ${
+              showReport
+                ? 'text-primary-600 dark:text-primary-400 bg-primary-50 dark:bg-primary-500/10'
+                : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-white/5'
+            }`}
+            title="Resultados da fila"
+            aria-pressed={showReport}
+          >
+            <BarChart3 size={18} />
+          </button>
+
+          <button
+            onClick={handleRunAnalyzers}
             disabled={isAnalyzing}
             className="flex items-center gap-2 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
           >
@@ -169,6 +213,9 @@ export const DecisionQueuePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Outcome analytics (aprovação, tempo até decidir e avanço dos deals) */}
+      {showReport && <DecisionOutcomeReport />}
+
       {/* Last analyzed info */}
       <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
         <span>Última análise: {lastAnalyzedLabel}</span>
@@ -183,8 +230,29 @@ export const DecisionQueuePage: React.FC = () => {
         )}
       </div>
 
+      {/* MCP approvals (human-in-the-loop for external integrations) */}
+      {mcpApprovals.length > 0 && (
+        <section>
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-red-600 dark:text-red-400 mb-3">
+            <ShieldAlert size={16} />
+            APROVAÇÕES PENDENTES (MCP) ({mcpApprovals.length})
+          </h2>
+          <div className="space-y-3">
+            {mcpApprovals.map(approval => (
+              <McpApprovalCard
+                key={approval.id}
+                approval={approval}
+                onApprove={id => handleMcpDecision(id, 'approve')}
+                onReject={id => handleMcpDecision(id, 'reject')}
+                isDeciding={decideMcpApproval.isPending && decideMcpApproval.variables?.id === approval.id}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Empty State */}
-      {decisions.length === 0 && (
+      {!isLoading && decisions.length === 0 && mcpApprovals.length === 0 && (
         <div className="text-center py-16">
           <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-primary-50 dark:bg-primary-500/10 text-primary-500 mb-4">
             <Sparkles size={32} />
@@ -193,11 +261,11 @@ export const DecisionQueuePage: React.FC = () => {
             Nenhuma decisão pendente
           </h2>
           <p className="text-sm text-slate-500 dark:text-slate-400 mb-6 max-w-md mx-auto">
-            Clique em "Analisar Agora" para que a IA analise seu CRM e sugira ações
-            baseadas em deals parados, atividades atrasadas e oportunidades.
+            A análise roda automaticamente todos os dias. Clique em "Analisar Agora" para que a IA
+            analise seu CRM e sugira ações baseadas em deals parados, atividades atrasadas e oportunidades.
           </p>
           <button
-            onClick={runAnalyzers}
+            onClick={handleRunAnalyzers}
             disabled={isAnalyzing}
             className="inline-flex items-center gap-2 px-6 py-3 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-xl transition-colors disabled:opacity-50"
           >
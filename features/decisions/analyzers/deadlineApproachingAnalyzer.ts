@@ -0,0 +1,135 @@
+/**
+ * Deadline Approaching Analyzer
+ * Detecta atividades que vencem nas próximas horas (antes de virarem atrasadas)
+ */
+
+import { Activity, DealView } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority, SuggestedAction } from '../types';
+import { activityAction, buildAnalyzerResult, bumpPriority, formatBRL, tomorrowAt, whatsAppAction } from './shared';
+
+// Performance: reuse formatter instance.
+const PT_BR_DATE_TIME_FORMATTER = new Intl.DateTimeFormat('pt-BR', {
+  day: '2-digit',
+  month: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+export const deadlineApproachingConfig: AnalyzerConfig = {
+  id: 'deadline_approaching',
+  name: 'Prazos Próximos',
+  description: 'Detecta atividades em aberto que vencem nas próximas horas',
+  enabled: true,
+  params: {
+    hoursAhead: 48,
+    criticalHours: 24,
+    highValue: 50000,
+    includedTypes: ['CALL', 'MEETING', 'EMAIL', 'TASK'],
+  },
+  maxDecisionsPerRun: 10,
+  cooldownDays: 1,
+};
+
+/**
+ * Função pública `analyzeDeadlinesApproaching` do projeto.
+ *
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeDeadlinesApproaching(
+  activities: Activity[],
+  deals: DealView[],
+  config: AnalyzerConfig = deadlineApproachingConfig
+): AnalyzerResult {
+  const params = config.params as {
+    hoursAhead: number;
+    criticalHours: number;
+    highValue: number;
+    includedTypes: string[];
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const horizon = nowTs + params.hoursAhead * 60 * 60 * 1000;
+  const dealMap = new Map(deals.map(d => [d.id, d]));
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const activity of activities) {
+    if (activity.completed) continue;
+    if (!params.includedTypes.includes(activity.type)) continue;
+
+    const ts = Date.parse(activity.date);
+    if (ts < nowTs || ts > horizon) continue;
+    analyzed++;
+
+    const deal = activity.dealId ? dealMap.get(activity.dealId) : undefined;
+    if (deal && (deal.isWon || deal.isLost)) continue;
+
+    const hoursLeft = Math.max(0, Math.round((ts - nowTs) / (60 * 60 * 1000)));
+    let priority: DecisionPriority = hoursLeft <= params.criticalHours ? 'high' : 'medium';
+    if (deal && (deal.value >= params.highValue || deal.probability >= 70)) priority = bumpPriority(priority);
+
+    const when = PT_BR_DATE_TIME_FORMATTER.format(new Date(ts));
+    const isConversation = activity.type === 'CALL' || activity.type === 'MEETING';
+
+    const markDone: SuggestedAction = {
+      id: crypto.randomUUID(),
+      type: 'dismiss',
+      label: 'Marcar como Feita',
+      icon: 'CheckCircle',
+      payload: { dealId: activity.dealId },
+      requiresConfirmation: false,
+      allowEdit: false,
+    };
+
+    const primary = deal && isConversation
+      ? whatsAppAction(
+          deal,
+          `Olá! Passando para confirmar nosso compromisso "${activity.title}" em ${when}. Está tudo certo?`,
+          'Confirmar por WhatsApp'
+        )
+      : markDone;
+
+    const alternatives: SuggestedAction[] = [];
+    if (primary !== markDone) alternatives.push(markDone);
+    if (deal) {
+      alternatives.push(activityAction(deal, {
+        label: 'Reagendar',
+        icon: 'CalendarPlus',
+        activityType: activity.type as 'CALL' | 'MEETING' | 'EMAIL' | 'TASK',
+        title: activity.title,
+        description: `Reagendado de ${when}. ${activity.description || ''}`.trim(),
+        date: tomorrowAt(ts),
+      }));
+    }
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'deadline_approaching',
+      priority,
+      category: 'deadline',
+      title: `Vence em ${hoursLeft}h: ${activity.title}`,
+      description: `${when} • ${deal ? `${deal.title} • ${formatBRL(deal.value)}` : 'Sem deal vinculado'}`,
+      reasoning: [
+        `"${activity.title}" vence em ${hoursLeft} ${hoursLeft === 1 ? 'hora' : 'horas'}.`,
+        isConversation ? 'Confirmar com o cliente antes reduz faltas e remarcações.' : 'Conclua ou reagende antes que vire atraso.',
+        deal && deal.probability >= 70 ? `O deal "${deal.title}" está em estágio avançado (${deal.probability}%).` : '',
+      ].filter(Boolean).join(' '),
+      dealId: activity.dealId || undefined,
+      contactId: deal?.contactId,
+      activityId: activity.id,
+      suggestedAction: primary,
+      alternativeActions: alternatives,
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(ts).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeDeadlinesApproaching;
@@ -0,0 +1,120 @@
+/**
+ * Deal At Risk Analyzer
+ * Detecta deals avançados (alta probabilidade) que acumulam sinais de risco
+ */
+
+import { DealView, Activity } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  bumpPriority,
+  daysSince,
+  formatBRL,
+  indexActivitiesByDeal,
+  isOpenDeal,
+  stageEnteredTs,
+  tomorrowAt,
+  whatsAppAction,
+} from './shared';
+
+export const dealAtRiskConfig: AnalyzerConfig = {
+  id: 'deals_at_risk',
+  name: 'Deals em Risco',
+  description: 'Detecta deals com alta probabilidade que acumulam sinais de risco (estágio parado, silêncio, atrasos)',
+  enabled: true,
+  params: {
+    minProbability: 50,
+    maxStageDays: 21,
+    silentDays: 10,
+    minSignals: 2,
+    highValue: 50000,
+  },
+  maxDecisionsPerRun: 10,
+  cooldownDays: 5,
+};
+
+/**
+ * Função pública `analyzeDealsAtRisk` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeDealsAtRisk(
+  deals: DealView[],
+  activities: Activity[],
+  config: AnalyzerConfig = dealAtRiskConfig
+): AnalyzerResult {
+  const params = config.params as {
+    minProbability: number;
+    maxStageDays: number;
+    silentDays: number;
+    minSignals: number;
+    highValue: number;
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const byDeal = indexActivitiesByDeal(activities, nowTs);
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue;
+    if (deal.probability < params.minProbability) continue;
+    analyzed++;
+
+    const index = byDeal.get(deal.id);
+    const stageDays = daysSince(stageEnteredTs(deal), nowTs);
+    const silentDays = daysSince(index?.lastCompletedTs ?? stageEnteredTs(deal), nowTs);
+
+    const signals: string[] = [];
+    if (stageDays >= params.maxStageDays) signals.push(`está em "${deal.stageLabel}" há ${stageDays} dias`);
+    if (silentDays >= params.silentDays) signals.push(`sem interação há ${silentDays} dias`);
+    if (index && index.overdueCount > 0) {
+      signals.push(`${index.overdueCount} ${index.overdueCount === 1 ? 'atividade atrasada' : 'atividades atrasadas'}`);
+    }
+    if (!index?.nextOpen) signals.push('nenhum próximo passo agendado');
+
+    if (signals.length < params.minSignals) continue;
+
+    let priority: DecisionPriority = signals.length >= 3 ? 'critical' : 'high';
+    if (deal.value >= params.highValue) priority = bumpPriority(priority);
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'deal_at_risk',
+      priority,
+      category: 'risk',
+      title: `Deal em risco: ${deal.title}`,
+      description: `${deal.probability}% • ${formatBRL(deal.value)} • ${signals.length} sinais de risco`,
+      reasoning: [
+        `Com ${deal.probability}% de probabilidade, este deal deveria estar avançando, mas ${signals.join(', ')}.`,
+        'Uma conversa de alinhamento ajuda a confirmar prazo, decisor e próximos passos antes que o deal esfrie.',
+      ].join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: activityAction(deal, {
+        label: 'Agendar Reunião',
+        icon: 'Calendar',
+        activityType: 'MEETING',
+        title: `Alinhamento: ${deal.title}`,
+        description: `Sinais de risco: ${signals.join('; ')}`,
+        date: tomorrowAt(nowTs),
+      }),
+      alternativeActions: [
+        whatsAppAction(deal, `Olá! Queria entender como está a avaliação de ${deal.title} do seu lado. Podemos conversar rapidamente esta semana?`),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 5 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeDealsAtRisk;
@@ -0,0 +1,112 @@
+/**
+ * Hot Lead Analyzer
+ * Detecta deals com muito engajamento recente e nenhum próximo passo agendado
+ */
+
+import { DealView, Activity } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  bumpPriority,
+  formatBRL,
+  indexActivitiesByDeal,
+  isOpenDeal,
+  tomorrowAt,
+  whatsAppAction,
+} from './shared';
+
+export const hotLeadConfig: AnalyzerConfig = {
+  id: 'hot_leads',
+  name: 'Leads Quentes',
+  description: 'Detecta deals com várias interações recentes e sem próximo passo agendado',
+  enabled: true,
+  params: {
+    windowDays: 7,
+    minRecentActivities: 3,
+    minProbability: 20,
+    highValue: 50000,
+  },
+  maxDecisionsPerRun: 10,
+  cooldownDays: 5,
+};
+
+/**
+ * Função pública `analyzeHotLeads` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeHotLeads(
+  deals: DealView[],
+  activities: Activity[],
+  config: AnalyzerConfig = hotLeadConfig
+): AnalyzerResult {
+  const params = config.params as {
+    windowDays: number;
+    minRecentActivities: number;
+    minProbability: number;
+    highValue: number;
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const windowStart = nowTs - params.windowDays * DAY_MS;
+  const byDeal = indexActivitiesByDeal(activities, nowTs);
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue;
+    if (deal.probability < params.minProbability) continue;
+    analyzed++;
+
+    const index = byDeal.get(deal.id);
+    if (!index || index.nextOpen) continue;
+
+    const recent = index.completedTs.filter(ts => ts >= windowStart && ts <= nowTs).length;
+    if (recent < params.minRecentActivities) continue;
+
+    let priority: DecisionPriority = recent >= params.minRecentActivities * 2 ? 'high' : 'medium';
+    if (deal.value >= params.highValue) priority = bumpPriority(priority);
+
+    const when = tomorrowAt(nowTs);
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'hot_lead',
+      priority,
+      category: 'opportunity',
+      title: `Lead quente: ${deal.title}`,
+      description: `${recent} interações em ${params.windowDays} dias • ${formatBRL(deal.value)} • ${deal.probability}% • ${deal.stageLabel}`,
+      reasoning: [
+        `${deal.contactName || 'O cliente'} teve ${recent} interações nos últimos ${params.windowDays} dias, mas não há próximo passo agendado.`,
+        'Aproveite o momento: leads engajados esfriam rápido sem um compromisso marcado.',
+        deal.value >= params.highValue ? `Com valor de ${formatBRL(deal.value)}, vale priorizar.` : '',
+      ].filter(Boolean).join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: activityAction(deal, {
+        label: 'Agendar Reunião',
+        icon: 'Calendar',
+        activityType: 'MEETING',
+        title: `Próximo passo: ${deal.title}`,
+        description: 'Reunião para avançar a negociação enquanto o lead está engajado',
+        date: when,
+      }),
+      alternativeActions: [
+        whatsAppAction(deal, `Olá! Que bom conversar com você nos últimos dias sobre ${deal.title}. Podemos marcar o próximo passo?`),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 3 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeHotLeads;
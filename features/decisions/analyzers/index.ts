@@ -1,70 +1,67 @@
 /**
  * Analyzers Registry
- * Ponto central para executar todos os analyzers
+ * Ponto central para executar todos os analyzers (funções puras; a persistência fica em lib/decisions/server.ts)
  */
 
 import { DealView, Activity } from '@/types';
-import { AnalyzerResult } from '../types';
+import { AnalyzerConfig, AnalyzerResult } from '../types';
 import { analyzeStagnantDeals, stagnantDealsConfig } from './stagnantDealsAnalyzer';
 import { analyzeOverdueActivities, overdueActivitiesConfig } from './overdueActivitiesAnalyzer';
-import decisionQueueService from '../services/decisionQueueService';
+import { analyzeHotLeads, hotLeadConfig } from './hotLeadAnalyzer';
+import { analyzeDeadlinesApproaching, deadlineApproachingConfig } from './deadlineApproachingAnalyzer';
+import { analyzeUnansweredProposals, unansweredProposalConfig } from './unansweredProposalAnalyzer';
+import { analyzeDealsAtRisk, dealAtRiskConfig } from './dealAtRiskAnalyzer';
+import { analyzeWinOpportunities, winOpportunityConfig } from './winOpportunityAnalyzer';
+import { analyzeRescueOpportunities, rescueOpportunityConfig } from './rescueOpportunityAnalyzer';
+import { analyzeNewLeadsAssigned, newLeadAssignedConfig } from './newLeadAssignedAnalyzer';
 
 export interface AnalyzerRegistry {
   id: string;
   name: string;
   description: string;
   enabled: boolean;
-  run: (deals: DealView[], activities: Activity[]) => AnalyzerResult;
+  config: AnalyzerConfig;
+  run: (deals: DealView[], activities: Activity[], config?: AnalyzerConfig) => AnalyzerResult;
+}
+
+function register(config: AnalyzerConfig, run: AnalyzerRegistry['run']): AnalyzerRegistry {
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    enabled: config.enabled,
+    config,
+    run,
+  };
 }
 
 // Registry of all available analyzers
 export const analyzers: AnalyzerRegistry[] = [
-  {
-    id: stagnantDealsConfig.id,
-    name: stagnantDealsConfig.name,
-    description: stagnantDealsConfig.description,
-    enabled: stagnantDealsConfig.enabled,
-    run: (deals, activities) => analyzeStagnantDeals(deals, activities),
-  },
-  {
-    id: overdueActivitiesConfig.id,
-    name: overdueActivitiesConfig.name,
-    description: overdueActivitiesConfig.description,
-    enabled: overdueActivitiesConfig.enabled,
-    run: (deals, activities) => analyzeOverdueActivities(activities, deals),
-  },
+  register(stagnantDealsConfig, (deals, activities, config) => analyzeStagnantDeals(deals, activities, config)),
+  register(overdueActivitiesConfig, (deals, activities, config) => analyzeOverdueActivities(activities, deals, config)),
+  register(hotLeadConfig, (deals, activities, config) => analyzeHotLeads(deals, activities, config)),
+  register(deadlineApproachingConfig, (deals, activities, config) => analyzeDeadlinesApproaching(activities, deals, config)),
+  register(unansweredProposalConfig, (deals, activities, config) => analyzeUnansweredProposals(deals, activities, config)),
+  register(dealAtRiskConfig, (deals, activities, config) => analyzeDealsAtRisk(deals, activities, config)),
+  register(winOpportunityConfig, (deals, activities, config) => analyzeWinOpportunities(deals, activities, config)),
+  register(rescueOpportunityConfig, (deals, _activities, config) => analyzeRescueOpportunities(deals, config)),
+  register(newLeadAssignedConfig, (deals, activities, config) => analyzeNewLeadsAssigned(deals, activities, config)),
 ];
 
 /**
- * Run all enabled analyzers and add decisions to queue
+ * Run all enabled analyzers (errors are isolated per analyzer)
  */
-export async function runAllAnalyzers(
-  deals: DealView[], 
+export function runAllAnalyzers(
+  deals: DealView[],
   activities: Activity[]
-): Promise<{
-  results: AnalyzerResult[];
-  totalDecisions: number;
-  addedDecisions: number;
-}> {
+): AnalyzerResult[] {
   const results: AnalyzerResult[] = [];
-  let totalDecisions = 0;
-  let addedDecisions = 0;
 
   for (const analyzer of analyzers) {
     if (!analyzer.enabled) continue;
 
     try {
-      const result = analyzer.run(deals, activities);
-      results.push(result);
-      
-      // Save analyzer result for history
-      decisionQueueService.saveAnalyzerResult(result);
-      
-      // Add decisions to queue
-      const added = decisionQueueService.addDecisions(result.decisions);
-      
-      totalDecisions += result.decisions.length;
-      addedDecisions += added;
+      results.push(analyzer.run(deals, activities, analyzer.config));
     } catch (error) {
       console.error(`Error running analyzer ${analyzer.id}:`, error);
       results.push({
@@ -81,10 +78,7 @@ export async function runAllAnalyzers(
     }
   }
 
-  // Clean up expired decisions
-  decisionQueueService.clearExpired();
-
-  return { results, totalDecisions, addedDecisions };
+  return results;
 }
 
 /**
@@ -96,16 +90,22 @@ export function runAnalyzer(
   activities: Activity[]
 ): AnalyzerResult | null {
   const analyzer = analyzers.find(a => a.id === analyzerId);
-  
+
   if (!analyzer) {
     return null;
   }
 
-  const result = analyzer.run(deals, activities);
-  decisionQueueService.saveAnalyzerResult(result);
-  decisionQueueService.addDecisions(result.decisions);
-  
-  return result;
+  return analyzer.run(deals, activities, analyzer.config);
 }
 
-export { analyzeStagnantDeals, analyzeOverdueActivities };
+export {
+  analyzeStagnantDeals,
+  analyzeOverdueActivities,
+  analyzeHotLeads,
+  analyzeDeadlinesApproaching,
+  analyzeUnansweredProposals,
+  analyzeDealsAtRisk,
+  analyzeWinOpportunities,
+  analyzeRescueOpportunities,
+  analyzeNewLeadsAssigned,
+};
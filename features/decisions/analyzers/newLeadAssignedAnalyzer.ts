@@ -0,0 +1,105 @@
+/**
+ * New Lead Assigned Analyzer
+ * Detecta deals recém-criados com responsável e nenhum contato feito (speed-to-lead)
+ */
+
+import { DealView, Activity } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  bumpPriority,
+  formatBRL,
+  indexActivitiesByDeal,
+  isOpenDeal,
+  whatsAppAction,
+} from './shared';
+
+export const newLeadAssignedConfig: AnalyzerConfig = {
+  id: 'new_leads',
+  name: 'Novos Leads',
+  description: 'Detecta deals criados nas últimas horas que ainda não tiveram primeiro contato',
+  enabled: true,
+  params: {
+    maxAgeHours: 48,
+    urgentAfterHours: 4,
+    highValue: 50000,
+  },
+  maxDecisionsPerRun: 15,
+  cooldownDays: 2,
+};
+
+/**
+ * Função pública `analyzeNewLeadsAssigned` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeNewLeadsAssigned(
+  deals: DealView[],
+  activities: Activity[],
+  config: AnalyzerConfig = newLeadAssignedConfig
+): AnalyzerResult {
+  const params = config.params as {
+    maxAgeHours: number;
+    urgentAfterHours: number;
+    highValue: number;
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const byDeal = indexActivitiesByDeal(activities, nowTs);
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue;
+    if (!deal.ownerId) continue;
+
+    const ageHours = Math.floor((nowTs - Date.parse(deal.createdAt)) / (60 * 60 * 1000));
+    if (ageHours < 0 || ageHours > params.maxAgeHours) continue;
+    analyzed++;
+
+    // Qualquer atividade (feita ou agendada) já conta como primeiro contato
+    if (byDeal.has(deal.id)) continue;
+
+    let priority: DecisionPriority = ageHours >= params.urgentAfterHours ? 'high' : 'medium';
+    if (deal.value >= params.highValue) priority = bumpPriority(priority);
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'new_lead_assigned',
+      priority,
+      category: 'follow_up',
+      title: `Novo lead sem contato: ${deal.title}`,
+      description: `${deal.contactName || 'Contato'} • ${formatBRL(deal.value)} • Criado há ${ageHours}h`,
+      reasoning: [
+        `Este deal foi criado há ${ageHours} ${ageHours === 1 ? 'hora' : 'horas'} e ainda não tem nenhuma atividade.`,
+        'Leads contatados nas primeiras horas convertem bem mais: faça o primeiro contato o quanto antes.',
+      ].join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: activityAction(deal, {
+        label: 'Ligar Agora',
+        icon: 'Phone',
+        activityType: 'CALL',
+        title: `Primeiro contato: ${deal.title}`,
+        description: 'Apresentação e qualificação do lead',
+        date: new Date(nowTs),
+      }),
+      alternativeActions: [
+        whatsAppAction(deal, `Olá${deal.contactName && deal.contactName !== 'Sem Contato' ? `, ${deal.contactName}` : ''}! Recebemos seu interesse em ${deal.title}. Posso te ligar para entender melhor o que você precisa?`),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 2 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeNewLeadsAssigned;
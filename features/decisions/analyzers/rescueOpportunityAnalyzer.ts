@@ -0,0 +1,111 @@
+/**
+ * Rescue Opportunity Analyzer
+ * Detecta deals perdidos há algum tempo que valem uma nova tentativa
+ */
+
+import { DealView } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  bumpPriority,
+  daysSince,
+  formatBRL,
+  tomorrowAt,
+  whatsAppAction,
+} from './shared';
+
+export const rescueOpportunityConfig: AnalyzerConfig = {
+  id: 'rescue_opportunities',
+  name: 'Oportunidades de Resgate',
+  description: 'Detecta deals perdidos há 30–180 dias para uma nova abordagem',
+  enabled: true,
+  params: {
+    minDaysSinceLoss: 30,
+    maxDaysSinceLoss: 180,
+    minDealValue: 0,
+    highValue: 50000,
+    // Motivos de perda que não valem resgate (comparação sem maiúsculas/minúsculas)
+    excludeLossReasons: [] as string[],
+  },
+  maxDecisionsPerRun: 5,
+  cooldownDays: 30,
+};
+
+/**
+ * Função pública `analyzeRescueOpportunities` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeRescueOpportunities(
+  deals: DealView[],
+  config: AnalyzerConfig = rescueOpportunityConfig
+): AnalyzerResult {
+  const params = config.params as {
+    minDaysSinceLoss: number;
+    maxDaysSinceLoss: number;
+    minDealValue: number;
+    highValue: number;
+    excludeLossReasons: string[];
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const excluded = new Set(params.excludeLossReasons.map(r => r.trim().toLowerCase()));
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!deal.isLost) continue;
+    analyzed++;
+
+    if (deal.value < params.minDealValue) continue;
+    if (deal.lossReason && excluded.has(deal.lossReason.trim().toLowerCase())) continue;
+
+    const daysSinceLoss = daysSince(Date.parse(deal.closedAt || deal.updatedAt), nowTs);
+    if (daysSinceLoss < params.minDaysSinceLoss || daysSinceLoss > params.maxDaysSinceLoss) continue;
+
+    let priority: DecisionPriority = 'low';
+    if (deal.value >= params.highValue) priority = bumpPriority(priority);
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'rescue_opportunity',
+      priority,
+      category: 'opportunity',
+      title: `Resgatar: ${deal.title}`,
+      description: `Perdido há ${daysSinceLoss} dias • ${formatBRL(deal.value)}${deal.lossReason ? ` • Motivo: ${deal.lossReason}` : ''}`,
+      reasoning: [
+        `Este deal foi perdido há ${daysSinceLoss} dias${deal.lossReason ? ` (motivo: ${deal.lossReason})` : ''}.`,
+        'Depois de algumas semanas, orçamento, prioridades ou o fornecedor escolhido podem ter mudado: vale uma nova abordagem.',
+      ].join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: whatsAppAction(
+        deal,
+        `Olá! Faz um tempo que conversamos sobre ${deal.title}. Muita coisa mudou por aqui e acho que hoje conseguimos te atender melhor. Podemos conversar?`,
+        'Retomar Contato'
+      ),
+      alternativeActions: [
+        activityAction(deal, {
+          label: 'Agendar Ligação',
+          icon: 'Phone',
+          activityType: 'CALL',
+          title: `Resgate: ${deal.title}`,
+          description: deal.lossReason ? `Perdido por: ${deal.lossReason}` : undefined,
+          date: tomorrowAt(nowTs),
+        }),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 14 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeRescueOpportunities;
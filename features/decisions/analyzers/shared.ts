@@ -0,0 +1,161 @@
+/**
+ * Helpers compartilhados pelos analyzers
+ * Índices de atividades por deal, datas e ações sugeridas mais comuns
+ */
+
+import { Activity, DealView } from '@/types';
+import { AnalyzerConfig, AnalyzerResult, Decision, DecisionPriority, SuggestedAction, PRIORITY_ORDER } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DealActivityIndex = {
+  /** Timestamp da atividade concluída mais recente do deal */
+  lastCompletedTs: number | null;
+  /** Próxima atividade em aberto (data futura) */
+  nextOpen: Activity | null;
+  /** Atividades em aberto com data passada */
+  overdueCount: number;
+  /** Timestamps das atividades concluídas (para contar engajamento numa janela) */
+  completedTs: number[];
+};
+
+/**
+ * Indexa as atividades por deal em O(A) (evita filter+sort por deal dentro dos analyzers).
+ */
+export function indexActivitiesByDeal(activities: Activity[], nowTs: number): Map<string, DealActivityIndex> {
+  const map = new Map<string, DealActivityIndex>();
+
+  for (const a of activities) {
+    if (!a.dealId) continue;
+    if (a.type === 'NOTE' || a.type === 'STATUS_CHANGE') continue;
+
+    let entry = map.get(a.dealId);
+    if (!entry) {
+      entry = { lastCompletedTs: null, nextOpen: null, overdueCount: 0, completedTs: [] };
+      map.set(a.dealId, entry);
+    }
+
+    const ts = Date.parse(a.date);
+    if (a.completed) {
+      entry.completedTs.push(ts);
+      if (entry.lastCompletedTs === null || ts > entry.lastCompletedTs) entry.lastCompletedTs = ts;
+    } else if (ts < nowTs) {
+      entry.overdueCount++;
+    } else if (!entry.nextOpen || ts < Date.parse(entry.nextOpen.date)) {
+      entry.nextOpen = a;
+    }
+  }
+
+  return map;
+}
+
+/** Dias inteiros entre `fromTs` e `nowTs`. */
+export function daysSince(fromTs: number, nowTs: number): number {
+  return Math.floor((nowTs - fromTs) / DAY_MS);
+}
+
+/** Desde quando o deal está no estágio atual (`lastStageChangeDate`, senão criação). */
+export function stageEnteredTs(deal: DealView): number {
+  return Date.parse(deal.lastStageChangeDate || deal.createdAt);
+}
+
+export function isOpenDeal(deal: DealView): boolean {
+  return !deal.isWon && !deal.isLost;
+}
+
+export function formatBRL(value: number): string {
+  return `R$ ${value.toLocaleString('pt-BR')}`;
+}
+
+/** Amanhã às `hour`h (horário local) a partir de `nowTs`. */
+export function tomorrowAt(nowTs: number, hour = 10): Date {
+  const d = new Date(nowTs);
+  d.setDate(d.getDate() + 1);
+  d.setHours(hour, 0, 0, 0);
+  return d;
+}
+
+/** Ação "criar atividade" com preview (agendar ligação/reunião/tarefa). */
+export function activityAction(
+  deal: DealView,
+  opts: {
+    label: string;
+    icon: string;
+    activityType: 'CALL' | 'MEETING' | 'EMAIL' | 'TASK';
+    title: string;
+    description?: string;
+    date: Date;
+  }
+): SuggestedAction {
+  return {
+    id: crypto.randomUUID(),
+    type: 'create_activity',
+    label: opts.label,
+    icon: opts.icon,
+    payload: {
+      activityType: opts.activityType,
+      activityTitle: opts.title,
+      activityDate: opts.date.toISOString(),
+      activityDescription: opts.description,
+      dealId: deal.id,
+      contactId: deal.contactId,
+    },
+    preview: {
+      title: opts.title,
+      scheduledFor: opts.date.toISOString(),
+      recipient: deal.contactName || deal.companyName,
+    },
+    requiresConfirmation: true,
+    allowEdit: true,
+  };
+}
+
+/** Ação "enviar WhatsApp" com a mensagem pré-preenchida. */
+export function whatsAppAction(deal: DealView, message: string, label = 'WhatsApp'): SuggestedAction {
+  return {
+    id: crypto.randomUUID(),
+    type: 'send_message',
+    label,
+    icon: 'MessageCircle',
+    payload: {
+      channel: 'whatsapp',
+      recipient: deal.contactName,
+      recipientName: deal.contactName,
+      messageTemplate: message,
+      dealId: deal.id,
+      contactId: deal.contactId,
+    },
+    requiresConfirmation: true,
+    allowEdit: true,
+  };
+}
+
+/** Ordena por prioridade, corta em `maxDecisionsPerRun` e monta o `AnalyzerResult`. */
+export function buildAnalyzerResult(
+  config: AnalyzerConfig,
+  decisions: Decision[],
+  itemsAnalyzed: number,
+  executedAt: string
+): AnalyzerResult {
+  const sorted = [...decisions]
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+    .slice(0, config.maxDecisionsPerRun);
+
+  return {
+    analyzerId: config.id,
+    analyzerName: config.name,
+    decisions: sorted,
+    metadata: {
+      executedAt,
+      itemsAnalyzed,
+      decisionsGenerated: sorted.length,
+    },
+  };
+}
+
+/** Sobe um nível de prioridade (ex.: deals de alto valor). */
+export function bumpPriority(priority: DecisionPriority): DecisionPriority {
+  if (priority === 'low') return 'medium';
+  if (priority === 'medium') return 'high';
+  return 'critical';
+}
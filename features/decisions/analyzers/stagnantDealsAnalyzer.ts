@@ -5,6 +5,7 @@
 
 import { DealView, Activity } from '@/types';
 import { Decision, AnalyzerResult, AnalyzerConfig, SuggestedAction } from '../types';
+import { daysSince, stageEnteredTs } from './shared';
 
 export const stagnantDealsConfig: AnalyzerConfig = {
   id: 'stagnant_deals',
@@ -196,6 +197,7 @@ export function analyzeStagnantDeals(
 
   // Filter deals first
   const eligibleDeals = deals.filter(deal => {
+    if (deal.isWon || deal.isLost) return false;
     if (params.excludeStatuses.includes(deal.status)) return false;
     if (deal.value < params.minDealValue) return false;
     return true;
@@ -214,8 +216,8 @@ export function analyzeStagnantDeals(
         (nowTs - Date.parse(lastActivity.date)) / (1000 * 60 * 60 * 24)
       );
     } else {
-      // If no activity, use deal creation date (approximate with 30 days)
-      daysSinceActivity = 30;
+      // Sem atividade: conta desde a entrada no estágio (ou criação do deal)
+      daysSinceActivity = daysSince(stageEnteredTs(deal), nowTs);
     }
 
     if (daysSinceActivity >= params.minDaysStagnant) {
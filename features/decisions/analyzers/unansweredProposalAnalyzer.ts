@@ -0,0 +1,123 @@
+/**
+ * Unanswered Proposal Analyzer
+ * Detecta deals em estágio de proposta sem nenhuma interação desde que a proposta foi enviada
+ */
+
+import { DealView, Activity } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  bumpPriority,
+  daysSince,
+  formatBRL,
+  indexActivitiesByDeal,
+  isOpenDeal,
+  stageEnteredTs,
+  tomorrowAt,
+  whatsAppAction,
+} from './shared';
+
+export const unansweredProposalConfig: AnalyzerConfig = {
+  id: 'unanswered_proposals',
+  name: 'Propostas sem Resposta',
+  description: 'Detecta deals em estágio de proposta sem interação há X dias',
+  enabled: true,
+  params: {
+    // Estágios cujo nome contém um destes termos são tratados como "proposta enviada"
+    stageKeywords: ['proposta', 'proposal', 'orcamento', 'cotacao', 'quote'],
+    minDaysWaiting: 3,
+    criticalDaysWaiting: 10,
+    highValue: 50000,
+  },
+  maxDecisionsPerRun: 10,
+  cooldownDays: 3,
+};
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Função pública `analyzeUnansweredProposals` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeUnansweredProposals(
+  deals: DealView[],
+  activities: Activity[],
+  config: AnalyzerConfig = unansweredProposalConfig
+): AnalyzerResult {
+  const params = config.params as {
+    stageKeywords: string[];
+    minDaysWaiting: number;
+    criticalDaysWaiting: number;
+    highValue: number;
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const keywords = params.stageKeywords.map(normalize);
+  const byDeal = indexActivitiesByDeal(activities, nowTs);
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue;
+
+    const stage = normalize(deal.stageLabel || '');
+    if (!keywords.some(k => stage.includes(k))) continue;
+    analyzed++;
+
+    const sentTs = stageEnteredTs(deal);
+    const daysWaiting = daysSince(sentTs, nowTs);
+    if (daysWaiting < params.minDaysWaiting) continue;
+
+    const index = byDeal.get(deal.id);
+    // Alguma interação depois da proposta = não está "sem resposta"
+    if (index?.lastCompletedTs && index.lastCompletedTs > sentTs) continue;
+    if (index?.nextOpen) continue;
+
+    let priority: DecisionPriority = daysWaiting >= params.criticalDaysWaiting ? 'high' : 'medium';
+    if (deal.value >= params.highValue) priority = bumpPriority(priority);
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'unanswered_proposal',
+      priority,
+      category: 'follow_up',
+      title: `Proposta sem resposta há ${daysWaiting} dias: ${deal.title}`,
+      description: `${deal.companyName || deal.contactName || 'Cliente'} • ${formatBRL(deal.value)} • Estágio: ${deal.stageLabel}`,
+      reasoning: [
+        `O deal está em "${deal.stageLabel}" há ${daysWaiting} dias sem nenhuma interação registrada desde então.`,
+        daysWaiting >= params.criticalDaysWaiting
+          ? 'Propostas paradas por tanto tempo costumam esfriar: uma ligação tende a destravar mais que um novo email.'
+          : 'Um follow-up curto agora mostra interesse e ajuda a tirar dúvidas sobre a proposta.',
+      ].join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: activityAction(deal, {
+        label: 'Agendar Ligação',
+        icon: 'Phone',
+        activityType: 'CALL',
+        title: `Follow-up da proposta: ${deal.title}`,
+        description: 'Tirar dúvidas e entender a posição do cliente sobre a proposta',
+        date: tomorrowAt(nowTs),
+      }),
+      alternativeActions: [
+        whatsAppAction(deal, `Olá! Conseguiu avaliar a proposta de ${deal.title}? Fico à disposição para ajustar o que for preciso.`),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 5 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeUnansweredProposals;
@@ -0,0 +1,105 @@
+/**
+ * Win Opportunity Analyzer
+ * Detecta deals prontos para fechar: alta probabilidade e conversa recente, sem reunião de fechamento marcada
+ */
+
+import { DealView, Activity } from '@/types';
+import { Decision, AnalyzerResult, AnalyzerConfig, DecisionPriority } from '../types';
+import {
+  DAY_MS,
+  activityAction,
+  buildAnalyzerResult,
+  daysSince,
+  formatBRL,
+  indexActivitiesByDeal,
+  isOpenDeal,
+  tomorrowAt,
+  whatsAppAction,
+} from './shared';
+
+export const winOpportunityConfig: AnalyzerConfig = {
+  id: 'win_opportunities',
+  name: 'Oportunidades de Fechar',
+  description: 'Detecta deals com alta probabilidade e interação recente, prontos para o fechamento',
+  enabled: true,
+  params: {
+    minProbability: 70,
+    maxDaysSinceActivity: 7,
+    highValue: 50000,
+  },
+  maxDecisionsPerRun: 10,
+  cooldownDays: 5,
+};
+
+/**
+ * Função pública `analyzeWinOpportunities` do projeto.
+ *
+ * @param {DealView[]} deals - Parâmetro `deals`.
+ * @param {Activity[]} activities - Parâmetro `activities`.
+ * @param {AnalyzerConfig} config - Parâmetro `config`.
+ * @returns {AnalyzerResult} Retorna um valor do tipo `AnalyzerResult`.
+ */
+export function analyzeWinOpportunities(
+  deals: DealView[],
+  activities: Activity[],
+  config: AnalyzerConfig = winOpportunityConfig
+): AnalyzerResult {
+  const params = config.params as {
+    minProbability: number;
+    maxDaysSinceActivity: number;
+    highValue: number;
+  };
+
+  const nowTs = Date.now();
+  const nowIso = new Date(nowTs).toISOString();
+  const byDeal = indexActivitiesByDeal(activities, nowTs);
+  const decisions: Decision[] = [];
+  let analyzed = 0;
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue;
+    if (deal.probability < params.minProbability) continue;
+    analyzed++;
+
+    const index = byDeal.get(deal.id);
+    if (!index?.lastCompletedTs || index.nextOpen) continue;
+
+    const daysSinceActivity = daysSince(index.lastCompletedTs, nowTs);
+    if (daysSinceActivity > params.maxDaysSinceActivity) continue;
+
+    const priority: DecisionPriority = deal.value >= params.highValue ? 'critical' : 'high';
+
+    decisions.push({
+      id: crypto.randomUUID(),
+      type: 'win_opportunity',
+      priority,
+      category: 'opportunity',
+      title: `Pronto para fechar: ${deal.title}`,
+      description: `${deal.probability}% • ${formatBRL(deal.value)} • Última interação há ${daysSinceActivity} ${daysSinceActivity === 1 ? 'dia' : 'dias'}`,
+      reasoning: [
+        `O deal está com ${deal.probability}% de probabilidade e teve interação há ${daysSinceActivity} ${daysSinceActivity === 1 ? 'dia' : 'dias'}.`,
+        'Não há reunião de fechamento agendada: propor o próximo passo agora aproveita o momento da negociação.',
+      ].join(' '),
+      dealId: deal.id,
+      contactId: deal.contactId,
+      suggestedAction: activityAction(deal, {
+        label: 'Agendar Fechamento',
+        icon: 'Calendar',
+        activityType: 'MEETING',
+        title: `Fechamento: ${deal.title}`,
+        description: 'Revisar condições finais e formalizar o fechamento',
+        date: tomorrowAt(nowTs),
+      }),
+      alternativeActions: [
+        whatsAppAction(deal, `Olá! Ficou alguma dúvida sobre ${deal.title}? Se estiver tudo certo, já posso te enviar o contrato para seguirmos.`),
+      ],
+      status: 'pending',
+      createdAt: nowIso,
+      expiresAt: new Date(nowTs + 3 * DAY_MS).toISOString(),
+    });
+  }
+
+  return buildAnalyzerResult(config, decisions, analyzed, nowIso);
+}
+
+export default analyzeWinOpportunities;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, BarChart3, Loader2 } from 'lucide-react';
+import { useToast } from '@/context/ToastContext';
+import { MAX_PRIORITY_OFFSET } from '@/lib/decisions/analyzerSettings';
+import type { OutcomeGroup } from '@/lib/decisions/analytics';
+import { useDecisionAnalytics } from '../hooks/useDecisionAnalytics';
+
+const PERIOD_OPTIONS = [30, 90, 180];
+const WINDOW_OPTIONS = [7, 14, 30];
+
+const selectClass =
+  'px-2 py-1.5 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${Math.round(hours)} h`;
+  return `${Math.round(hours / 24)} d`;
+}
+
+const formatOffset = (offset: number) => (offset > 0 ? `+${offset}` : String(offset));
+
+function formatAdvance(group: OutcomeGroup): string {
+  return group.observed === 0 ? '—' : `${formatRate(group.advanceRate)} de ${group.observed}`;
+}
+
+/**
+ * Componente React `DecisionOutcomeReport`.
+ * Resultados da fila: aprovação/rejeição/adiamento por analyzer, tempo até decidir e se os deals
+ * com sugestão aprovada avançaram mais que os ignorados. Admins aplicam o ajuste de prioridade sugerido.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const DecisionOutcomeReport: React.FC = () => {
+  const [days, setDays] = useState(90);
+  const [windowDays, setWindowDays] = useState(14);
+  const { report, isLoading, error, setPriority } = useDecisionAnalytics({ days, windowDays });
+  const { addToast } = useToast();
+
+  const applyPriority = (analyzerId: string, analyzerName: string, priorityOffset: number) => {
+    setPriority.mutate(
+      { analyzerId, priorityOffset },
+      {
+        onSuccess: () => addToast(`Prioridade de ${analyzerName} ajustada (${formatOffset(priorityOffset)})`, 'success'),
+        onError: (e) => addToast(e.message || 'Erro ao ajustar a prioridade', 'error'),
+      }
+    );
+  };
+
+  const totals = report?.totals;
+
+  return (
+    <section className="bg-white dark:bg-dark-card border border-slate-200 dark:border-white/10 rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-white">
+          <BarChart3 size={16} className="text-primary-500" />
+          Resultados da fila
+        </h2>
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <select aria-label="Período" value={days} onChange={(e) => setDays(Number(e.target.value))} className={selectClass}>
+            {PERIOD_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                Últimos {d} dias
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Janela de avanço do deal"
+            value={windowDays}
+            onChange={(e) => setWindowDays(Number(e.target.value))}
+            className={selectClass}
+          >
+            {WINDOW_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                Avanço em {d} dias
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          <Loader2 size={16} className="animate-spin" /> Calculando resultados...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+      ) : !report || !totals || totals.total === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Nenhuma decisão criada no período.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {[
+              { label: 'Aprovação', value: formatRate(totals.approvalRate), hint: `${totals.approved} aprovadas` },
+              { label: 'Rejeição', value: formatRate(totals.rejectionRate), hint: `${totals.rejected} rejeitadas` },
+              { label: 'Adiamento', value: formatRate(totals.snoozeRate), hint: `${totals.snoozed} adiadas` },
+              { label: 'Tempo até decidir', value: formatHours(totals.medianHoursToDecision), hint: 'mediana' },
+              {
+                label: 'Avanço dos deals',
+                value: `${formatRate(totals.approvedOutcome.advanceRate)} × ${formatRate(totals.ignoredOutcome.advanceRate)}`,
+                hint: 'aprovadas × ignoradas',
+              },
+            ].map((card) => (
+              <div key={card.label} className="rounded-lg border border-slate-200 dark:border-white/10 p-3">
+                <div className="text-xs font-medium text-slate-500 dark:text-slate-400">{card.label}</div>
+                <div className="text-lg font-bold text-slate-900 dark:text-white">{card.value}</div>
+                <div className="text-[11px] text-slate-400">{card.hint}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-white/10">
+                  <th className="py-2 pr-3 font-medium">Analyzer</th>
+                  <th className="py-2 pr-3 font-medium">Decisões</th>
+                  <th className="py-2 pr-3 font-medium">Aprov.</th>
+                  <th className="py-2 pr-3 font-medium">Rejeit.</th>
+                  <th className="py-2 pr-3 font-medium">Adiad.</th>
+                  <th className="py-2 pr-3 font-medium">Tempo</th>
+                  <th className="py-2 pr-3 font-medium">Avanço aprov.</th>
+                  <th className="py-2 pr-3 font-medium">Avanço ignor.</th>
+                  <th className="py-2 font-medium">Prioridade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.analyzers.map((row) => {
+                  const next = Math.max(
+                    -MAX_PRIORITY_OFFSET,
+                    Math.min(MAX_PRIORITY_OFFSET, row.priorityOffset + row.recommendation.offset)
+                  );
+                  const canApply = report.isAdmin && row.recommendation.offset !== 0 && next !== row.priorityOffset;
+                  const applying = setPriority.isPending && setPriority.variables?.analyzerId === row.analyzerId;
+                  return (
+                    <tr key={row.analyzerId} className="border-b border-slate-100 dark:border-white/5 text-slate-700 dark:text-slate-200">
+                      <td className="py-2 pr-3 font-medium">{row.analyzerName}</td>
+                      <td className="py-2 pr-3">{row.total}</td>
+                      <td className="py-2 pr-3">{formatRate(row.approvalRate)}</td>
+                      <td className="py-2 pr-3">{formatRate(row.rejectionRate)}</td>
+                      <td className="py-2 pr-3">{formatRate(row.snoozeRate)}</td>
+                      <td className="py-2 pr-3">{formatHours(row.medianHoursToDecision)}</td>
+                      <td className="py-2 pr-3">{formatAdvance(row.approvedOutcome)}</td>
+                      <td className="py-2 pr-3">{formatAdvance(row.ignoredOutcome)}</td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-2" title={row.recommendation.reason}>
+                          <span className="text-slate-500 dark:text-slate-400">
+                            {row.priorityOffset ? formatOffset(row.priorityOffset) : 'Padrão'}
+                          </span>
+                          {canApply ? (
+                            <button
+                              type="button"
+                              onClick={() => applyPriority(row.analyzerId, row.analyzerName, next)}
+                              disabled={applying}
+                              className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-200 dark:border-white/10 hover:bg-slate-100 dark:hover:bg-white/10 text-primary-600 dark:text-primary-400 font-medium disabled:opacity-50"
+                            >
+                              {applying ? (
+                                <Loader2 size={12} className="animate-spin" />
+                              ) : row.recommendation.offset > 0 ? (
+                                <ArrowUp size={12} />
+                              ) : (
+                                <ArrowDown size={12} />
+                              )}
+                              {row.recommendation.offset > 0 ? 'Subir' : 'Baixar'}
+                            </button>
+                          ) : null}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-[11px] text-slate-400">
+            Avanço = o deal mudou de estágio ou foi ganho até {report.windowDays} dias depois da decisão (só decisões cuja
+            janela já terminou). Ignoradas = rejeitadas, expiradas ou sem resposta. Passe o mouse na prioridade para ver o
+            motivo da sugestão.
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default DecisionOutcomeReport;
@@ -0,0 +1,86 @@
+/**
+ * MCP Approval Card
+ * Pedido de uma integração MCP para executar uma ferramenta destrutiva
+ */
+
+import React, { useMemo } from 'react';
+import { CheckCircle, XCircle, ShieldAlert, Loader2 } from 'lucide-react';
+import type { McpApproval } from '../hooks/useMcpApprovals';
+
+interface McpApprovalCardProps {
+  approval: McpApproval;
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+  isDeciding?: boolean;
+}
+
+/**
+ * Componente React `McpApprovalCard`.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const McpApprovalCard: React.FC<McpApprovalCardProps> = ({
+  approval,
+  onApprove,
+  onReject,
+  isDeciding = false,
+}) => {
+  const argsPreview = useMemo(() => JSON.stringify(approval.arguments, null, 2), [approval.arguments]);
+
+  return (
+    <div
+      className={`
+        border-l-4 border-l-red-500 rounded-lg border border-slate-200 dark:border-white/10
+        bg-red-50/50 dark:bg-red-500/5 overflow-hidden
+        ${isDeciding ? 'opacity-50 pointer-events-none' : ''}
+      `}
+    >
+      <div className="p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldAlert size={14} className="text-red-500" />
+          <span className="text-xs font-medium text-red-700 dark:text-red-400">Integração MCP</span>
+          <span className="text-xs text-slate-400 font-mono">{approval.toolName}</span>
+        </div>
+
+        <h3 className="font-semibold text-slate-900 dark:text-white text-sm leading-tight mb-1">
+          {approval.toolTitle}
+        </h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Solicitado em {new Date(approval.createdAt).toLocaleString('pt-BR')} · expira em{' '}
+          {new Date(approval.expiresAt).toLocaleString('pt-BR')}
+        </p>
+
+        <pre className="mt-3 p-3 rounded-lg bg-white/60 dark:bg-white/5 border border-slate-200 dark:border-white/10 text-xs text-slate-600 dark:text-slate-300 overflow-x-auto max-h-48">
+          {argsPreview}
+        </pre>
+      </div>
+
+      {approval.canDecide ? (
+        <div className="px-4 pb-4 flex items-center gap-2">
+          <button
+            onClick={() => onApprove(approval.id)}
+            disabled={isDeciding}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isDeciding ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />}
+            Aprovar e executar
+          </button>
+
+          <button
+            onClick={() => onReject(approval.id)}
+            disabled={isDeciding}
+            className="p-2 text-slate-500 hover:text-red-600 dark:text-slate-400 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 rounded-lg transition-colors"
+            title="Rejeitar"
+          >
+            <XCircle size={18} />
+          </button>
+        </div>
+      ) : (
+        <div className="px-4 pb-4 text-xs text-slate-500 dark:text-slate-400">
+          Apenas administradores ou o dono da chave de API podem decidir.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default McpApprovalCard;
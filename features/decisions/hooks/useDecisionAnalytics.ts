@@ -0,0 +1,38 @@
+/**
+ * Decision Analytics Hook
+ * Relatório de resultados da fila (aprovação, adiamento, tempo até decidir e avanço dos deals)
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/query/queryKeys';
+import decisionQueueService from '../services/decisionQueueService';
+
+/**
+ * Hook React `useDecisionAnalytics` que encapsula uma lógica reutilizável.
+ * @param opts - Período (`days`), janela de observação dos deals e se a consulta deve rodar.
+ * @returns Relatório e a mutation que aplica o ajuste de prioridade de um analyzer.
+ */
+export function useDecisionAnalytics(opts: { days: number; windowDays: number; enabled?: boolean }) {
+  const queryClient = useQueryClient();
+
+  const reportQuery = useQuery({
+    queryKey: queryKeys.decisions.analytics(opts.days, opts.windowDays),
+    queryFn: () => decisionQueueService.getAnalytics(opts.days, opts.windowDays),
+    enabled: opts.enabled ?? true,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const setPriority = useMutation({
+    mutationFn: ({ analyzerId, priorityOffset }: { analyzerId: string; priorityOffset: number }) =>
+      decisionQueueService.setAnalyzerPriority(analyzerId, priorityOffset),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.decisions.all, 'analytics'] });
+    },
+  });
+
+  return {
+    report: reportQuery.data ?? null,
+    isLoading: reportQuery.isLoading,
+    error: reportQuery.error as Error | null,
+    setPriority,
+  };
+}
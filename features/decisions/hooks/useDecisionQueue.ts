@@ -1,40 +1,64 @@
 /**
  * useDecisionQueue Hook
- * Hook principal para gerenciar a fila de decisões
+ * Hook principal para gerenciar a fila de decisões (ai_decisions + realtime)
  */
 
 import { useState, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useCRM } from '@/context/CRMContext';
-import { Decision, DecisionStats, SuggestedAction, ActionPayload } from '../types';
+import { queryKeys } from '@/lib/query/queryKeys';
+import { useRealtimeSync } from '@/lib/realtime/useRealtimeSync';
+import { Decision, DecisionStats, SuggestedAction } from '../types';
 import decisionQueueService from '../services/decisionQueueService';
-import { runAllAnalyzers } from '../analyzers';
+import { isChannelNotConfigured, sendMessage } from '@/lib/messaging/client';
+import { useOptionalToast } from '@/context/ToastContext';
+
+const EMPTY_DECISIONS: Decision[] = [];
 
 /**
  * Hook React `useDecisionQueue` que encapsula uma lógica reutilizável.
- * @returns {{ decisions: Decision[]; stats: DecisionStats; lastAnalyzedAt: string | undefined; isAnalyzing: boolean; executingIds: Set<string>; runAnalyzers: () => Promise<{ ...; }>; ... 5 more ...; refreshDecisions: () => void; }} Retorna um valor do tipo `{ decisions: Decision[]; stats: DecisionStats; lastAnalyzedAt: string | undefined; isAnalyzing: boolean; executingIds: Set<string>; runAnalyzers: () => Promise<{ ...; }>; ... 5 more ...; refreshDecisions: () => void; }`.
+ * @returns {{ decisions: Decision[]; stats: DecisionStats; lastAnalyzedAt: string | undefined; isAnalyzing: boolean; executingIds: Set<string>; runAnalyzers: () => Promise<DecisionRunSummary | null>; ... 5 more ...; refreshDecisions: () => Promise<void>; }} Retorna um valor do tipo `{ decisions: Decision[]; stats: DecisionStats; lastAnalyzedAt: string | undefined; isAnalyzing: boolean; executingIds: Set<string>; runAnalyzers: () => Promise<DecisionRunSummary | null>; ... 5 more ...; refreshDecisions: () => Promise<void>; }`.
  */
 export function useDecisionQueue() {
-  const { deals, activities, addActivity, updateActivity, updateDeal } = useCRM();
+  const { deals, addActivity, updateActivity, updateDeal } = useCRM();
+  const { addToast } = useOptionalToast();
+  const queryClient = useQueryClient();
+
+  // Outros dispositivos/usuários (e os runs agendados) alteram a fila: o realtime invalida queryKeys.decisions.
+  useRealtimeSync('ai_decisions');
+
+  const decisionsQuery = useQuery({
+    queryKey: queryKeys.decisions.lists(),
+    queryFn: () => decisionQueueService.getPendingDecisions(),
+  });
+  const lastRunQuery = useQuery({
+    queryKey: queryKeys.decisions.lastRun(),
+    queryFn: () => decisionQueueService.getLastAnalyzedAt(),
+  });
+
+  const decisions = decisionsQuery.data ?? EMPTY_DECISIONS;
+  const lastAnalyzedAt = lastRunQuery.data;
 
-  const [decisions, setDecisions] = useState<Decision[]>(() =>
-    decisionQueueService.getPendingDecisions()
-  );
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [executingIds, setExecutingIds] = useState<Set<string>>(new Set());
-  const [lastAnalyzedAt, setLastAnalyzedAt] = useState<string | undefined>(
-    decisionQueueService.getLastAnalyzedAt()
-  );
 
-  // Refresh decisions from storage
-  const refreshDecisions = useCallback(() => {
-    setDecisions(decisionQueueService.getPendingDecisions());
-    setLastAnalyzedAt(decisionQueueService.getLastAnalyzedAt());
-  }, []);
+  // Refresh decisions from the database
+  const refreshDecisions = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: queryKeys.decisions.all });
+  }, [queryClient]);
+
+  // Optimistic: remove from the visible queue right away (realtime/refetch confirms)
+  const removeLocally = useCallback((ids: string[]) => {
+    const drop = new Set(ids);
+    queryClient.setQueryData<Decision[]>(queryKeys.decisions.lists(), old =>
+      (old || []).filter(d => !drop.has(d.id))
+    );
+  }, [queryClient]);
 
   // Calculate stats
   const stats: DecisionStats = useMemo(() => {
     /**
-     * Performance: compute stats from in-memory state (avoids re-reading localStorage + sorting).
+     * Performance: compute stats from in-memory state.
      * `decisions` already comes from `getPendingDecisions()`.
      */
     const out: DecisionStats = {
@@ -63,18 +87,21 @@ export function useDecisionQueue() {
     return out;
   }, [decisions]);
 
-  // Run all analyzers
+  // Run all analyzers (server-side)
   const runAnalyzers = useCallback(async () => {
     setIsAnalyzing(true);
 
     try {
-      const result = await runAllAnalyzers(deals, activities);
-      refreshDecisions();
+      const result = await decisionQueueService.runAnalyzers();
+      await refreshDecisions();
       return result;
+    } catch (error) {
+      console.error('[DecisionQueue] Error running analyzers:', error);
+      return null;
     } finally {
       setIsAnalyzing(false);
     }
-  }, [deals, activities, refreshDecisions]);
+  }, [refreshDecisions]);
 
   // Execute action based on type
   const executeAction = useCallback(async (
@@ -123,6 +150,31 @@ export function useDecisionQueue() {
         }
 
         case 'send_message': {
+          const dealId = payload.dealId || decision.dealId;
+          const contactId = payload.contactId || decision.contactId;
+          const subject = payload.subject || deals.find(d => d.id === dealId)?.title || '';
+
+          // Envio pelo servidor para o contato do deal (registra a atividade); sem transporte configurado, cai no wa.me/mailto
+          if (payload.channel && payload.messageTemplate && (dealId || contactId)) {
+            try {
+              await sendMessage({
+                channel: payload.channel,
+                dealId,
+                contactId,
+                subject: payload.channel === 'email' && subject ? subject : undefined,
+                message: payload.messageTemplate,
+                logContext: 'Fonte: Fila de decisões',
+              });
+              addToast('Mensagem enviada', 'success');
+              return true;
+            } catch (error) {
+              if (!isChannelNotConfigured(error)) {
+                addToast(error instanceof Error ? error.message : 'Não foi possível enviar a mensagem.', 'error');
+                return false;
+              }
+            }
+          }
+
           // Abre WhatsApp Web com a mensagem pré-preenchida
           if (payload.channel === 'whatsapp' && payload.messageTemplate) {
             const message = encodeURIComponent(payload.messageTemplate);
@@ -137,9 +189,8 @@ export function useDecisionQueue() {
 
           // Para email, abre o cliente de email
           if (payload.channel === 'email' && payload.recipient) {
-            const subject = encodeURIComponent(`Follow-up`);
             const body = encodeURIComponent(payload.messageTemplate || '');
-            const url = `mailto:${payload.recipient}?subject=${subject}&body=${body}`;
+            const url = `mailto:${payload.recipient}?subject=${encodeURIComponent(subject)}&body=${body}`;
             window.open(url, '_blank');
             return true;
           }
@@ -157,7 +208,7 @@ export function useDecisionQueue() {
     }
 
     return false;
-  }, [addActivity, updateDeal, updateActivity]);
+  }, [deals, addActivity, updateDeal, updateActivity, addToast]);
 
   // Approve a decision
   const approveDecision = useCallback(async (
@@ -173,13 +224,21 @@ export function useDecisionQueue() {
     setExecutingIds(prev => new Set(prev).add(id));
 
     try {
-      const actionToExecute = action || decision.suggestedAction;
+      // Reserva antes de executar: outra aprovação da mesma decisão não repete a ação (atividade, mensagem).
+      const claimedAt = await decisionQueueService.claimDecision(id);
+      if (!claimedAt) {
+        addToast('Esta decisão já foi tratada por outra pessoa.', 'info');
+        removeLocally([id]);
+        return;
+      }
 
+      const actionToExecute = action || decision.suggestedAction;
       const success = await executeAction(actionToExecute, decision);
 
       if (success) {
-        decisionQueueService.updateDecisionStatus(id, 'approved');
-        refreshDecisions();
+        removeLocally([id]);
+      } else {
+        await decisionQueueService.releaseDecision(id, claimedAt, decision.status);
       }
     } catch (error) {
       console.error('[DecisionQueue] Error approving decision:', error);
@@ -190,21 +249,29 @@ export function useDecisionQueue() {
         return next;
       });
     }
-  }, [decisions, executeAction, refreshDecisions]);
+  }, [decisions, executeAction, removeLocally, addToast]);
 
   // Reject a decision
-  const rejectDecision = useCallback((id: string) => {
-    decisionQueueService.rejectDecision(id);
-    refreshDecisions();
-  }, [refreshDecisions]);
+  const rejectDecision = useCallback(async (id: string) => {
+    try {
+      await decisionQueueService.rejectDecision(id);
+      removeLocally([id]);
+    } catch (error) {
+      console.error('[DecisionQueue] Error rejecting decision:', error);
+    }
+  }, [removeLocally]);
 
   // Snooze a decision (default: 1 day)
-  const snoozeDecision = useCallback((id: string, hours: number = 24) => {
+  const snoozeDecision = useCallback(async (id: string, hours: number = 24) => {
     const until = new Date();
     until.setHours(until.getHours() + hours);
-    decisionQueueService.snoozeDecision(id, until);
-    refreshDecisions();
-  }, [refreshDecisions]);
+    try {
+      await decisionQueueService.snoozeDecision(id, until);
+      removeLocally([id]);
+    } catch (error) {
+      console.error('[DecisionQueue] Error snoozing decision:', error);
+    }
+  }, [removeLocally]);
 
   // Approve all pending decisions
   const approveAll = useCallback(async () => {
@@ -215,11 +282,16 @@ export function useDecisionQueue() {
     }
   }, [decisions, approveDecision]);
 
-  // Clear all decisions
-  const clearAll = useCallback(() => {
-    decisionQueueService.clearAll();
-    refreshDecisions();
-  }, [refreshDecisions]);
+  // Clear all visible decisions (they may come back on the next analysis)
+  const clearAll = useCallback(async () => {
+    const ids = decisions.map(d => d.id);
+    try {
+      await decisionQueueService.clearDecisions(ids);
+      removeLocally(ids);
+    } catch (error) {
+      console.error('[DecisionQueue] Error clearing decisions:', error);
+    }
+  }, [decisions, removeLocally]);
 
   return {
     // Data
@@ -228,6 +300,7 @@ export function useDecisionQueue() {
     lastAnalyzedAt,
 
     // State
+    isLoading: decisionsQuery.isLoading,
     isAnalyzing,
     executingIds,
 
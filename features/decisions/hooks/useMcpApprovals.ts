@@ -0,0 +1,64 @@
+/**
+ * MCP Approvals Hook
+ * Chamadas de ferramentas MCP destrutivas aguardando aprovação humana
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface McpApproval {
+  id: string;
+  toolName: string;
+  toolTitle: string;
+  arguments: Record<string, unknown>;
+  requestedBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  canDecide: boolean;
+}
+
+const MCP_APPROVALS_KEY = ['mcp-approvals'] as const;
+
+async function readJson(res: Response) {
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error || `Erro ${res.status}`);
+  return body;
+}
+
+/**
+ * Hook React `useMcpApprovals` que encapsula uma lógica reutilizável.
+ * @returns Pedidos pendentes e a mutation de decisão.
+ */
+export function useMcpApprovals() {
+  const queryClient = useQueryClient();
+
+  const approvalsQuery = useQuery({
+    queryKey: MCP_APPROVALS_KEY,
+    queryFn: async (): Promise<McpApproval[]> => {
+      const body = await readJson(await fetch('/api/mcp/approvals', { credentials: 'include' }));
+      return body?.approvals || [];
+    },
+    // Pedidos chegam de integrações externas; sem realtime, fazemos polling leve.
+    refetchInterval: 30_000,
+  });
+
+  const decide = useMutation({
+    mutationFn: async ({ id, decision, reason }: { id: string; decision: 'approve' | 'reject'; reason?: string }) => {
+      const res = await fetch(`/api/mcp/approvals/${encodeURIComponent(id)}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ decision, ...(reason ? { reason } : {}) }),
+      });
+      return (await readJson(res)) as { ok: true; status: string; error: string | null };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: MCP_APPROVALS_KEY });
+    },
+  });
+
+  return {
+    approvals: approvalsQuery.data || [],
+    isLoading: approvalsQuery.isLoading,
+    error: approvalsQuery.error as Error | null,
+    decide,
+  };
+}
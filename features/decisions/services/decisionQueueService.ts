@@ -1,64 +1,30 @@
 /**
  * Decision Queue Service
- * Gerencia a fila de decisões pendentes
+ * Gerencia a fila de decisões pendentes (tabela ai_decisions, compartilhada pela organização)
+ *
+ * As decisões são geradas no servidor (`/api/decisions/run` e o agendamento em `/api/cron/decision-queue`);
+ * aqui ficam a leitura e as decisões do usuário, sujeitas à RLS (dono do deal, decisões sem dono ou admin).
  */
 
-import { 
-  Decision, 
-  DecisionQueueState, 
-  DecisionStats, 
-  DecisionStatus,
-  DecisionPriority,
-  ActionPayload,
-  PRIORITY_ORDER 
-} from '../types';
-
-const STORAGE_KEY = 'crm_decision_queue';
-const PROCESSED_KEY = 'crm_processed_decisions';
-
-// ============================================
-// STORAGE
-// ============================================
-
-function loadState(): DecisionQueueState {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (data) {
-      return JSON.parse(data);
-    }
-  } catch (e) {
-    console.error('Error loading decision queue:', e);
-  }
-  return { decisions: [], analyzerResults: [] };
+import { supabase } from '@/lib/supabase/client';
+import {
+  AI_DECISION_FIELDS,
+  fromDecisionRow,
+  isDecisionActionable,
+  type AIDecisionRow,
+  type DecisionRunSummary,
+} from '@/lib/decisions/queue';
+import type { DecisionAnalyticsReport } from '@/lib/decisions/analytics';
+import { Decision, DecisionStatus, PRIORITY_ORDER } from '../types';
+
+function requireClient() {
+  if (!supabase) throw new Error('Supabase não configurado');
+  return supabase;
 }
 
-function saveState(state: DecisionQueueState): void {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch (e) {
-    console.error('Error saving decision queue:', e);
-  }
-}
-
-// Track processed decisions to avoid duplicates
-function getProcessedDecisions(): Set<string> {
-  try {
-    const data = localStorage.getItem(PROCESSED_KEY);
-    if (data) {
-      return new Set(JSON.parse(data));
-    }
-  } catch (e) {
-    console.error('Error loading processed decisions:', e);
-  }
-  return new Set();
-}
-
-function addProcessedDecision(key: string): void {
-  const processed = getProcessedDecisions();
-  processed.add(key);
-  // Keep only last 500 entries
-  const arr = Array.from(processed).slice(-500);
-  localStorage.setItem(PROCESSED_KEY, JSON.stringify(arr));
+async function currentUserId(): Promise<string | null> {
+  const { data } = await requireClient().auth.getUser();
+  return data.user?.id ?? null;
 }
 
 // ============================================
@@ -69,27 +35,23 @@ export const decisionQueueService = {
   // ============================================
   // READ OPERATIONS
   // ============================================
-  
-  getState(): DecisionQueueState {
-    return loadState();
-  },
 
-  getQueue(): Decision[] {
-    return loadState().decisions;
-  },
+  async getPendingDecisions(): Promise<Decision[]> {
+    const { data, error } = await requireClient()
+      .from('ai_decisions')
+      .select(AI_DECISION_FIELDS)
+      .in('status', ['pending', 'snoozed'])
+      .order('created_at', { ascending: false })
+      .limit(500);
+
+    if (error) throw error;
 
-  getPendingDecisions(): Decision[] {
-    const state = loadState();
     // Performance: use timestamps to avoid repeated Date allocations.
     const nowTs = Date.now();
-    
-    return state.decisions
-      .filter(d => {
-        if (d.status !== 'pending') return false;
-        if (d.expiresAt && Date.parse(d.expiresAt) < nowTs) return false;
-        if (d.snoozeUntil && Date.parse(d.snoozeUntil) > nowTs) return false;
-        return true;
-      })
+
+    return ((data || []) as unknown as AIDecisionRow[])
+      .map(fromDecisionRow)
+      .filter(d => isDecisionActionable(d, nowTs))
       .sort((a, b) => {
         // Sort by priority first
         const priorityDiff = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
@@ -99,254 +61,147 @@ export const decisionQueueService = {
       });
   },
 
-  getDecisionById(id: string): Decision | undefined {
-    return loadState().decisions.find(d => d.id === id);
-  },
+  async getLastAnalyzedAt(): Promise<string | undefined> {
+    const { data, error } = await requireClient()
+      .from('ai_decision_runs')
+      .select('finished_at')
+      .not('finished_at', 'is', null)
+      .order('finished_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-  getStats(): DecisionStats {
-    const pending = this.getPendingDecisions();
-    
-    const stats: DecisionStats = {
-      total: pending.length,
-      pending: pending.length,
-      critical: 0,
-      high: 0,
-      medium: 0,
-      low: 0,
-      byCategory: {
-        follow_up: 0,
-        deadline: 0,
-        opportunity: 0,
-        risk: 0,
-        routine: 0,
-      },
-      byType: {} as Record<string, number>,
-    };
-
-    for (const decision of pending) {
-      // Count by priority
-      stats[decision.priority]++;
-      
-      // Count by category
-      stats.byCategory[decision.category]++;
-      
-      // Count by type
-      stats.byType[decision.type] = (stats.byType[decision.type] || 0) + 1;
-    }
-
-    return stats;
+    if (error) throw error;
+    return (data?.finished_at as string | undefined) ?? undefined;
   },
 
   // ============================================
   // WRITE OPERATIONS
   // ============================================
 
-  addDecision(decision: Decision): void {
-    const state = loadState();
-    
-    // Check if already processed (avoid duplicates)
-    const dedupeKey = `${decision.type}:${decision.dealId || decision.contactId || decision.activityId}`;
-    const processed = getProcessedDecisions();
-    if (processed.has(dedupeKey)) {
-      return; // Skip duplicate
-    }
-    
-    // Check if similar pending decision exists
-    const existingSimilar = state.decisions.find(d => 
-      d.status === 'pending' &&
-      d.type === decision.type &&
-      d.dealId === decision.dealId &&
-      d.contactId === decision.contactId
-    );
-    
-    if (existingSimilar) {
-      return; // Skip duplicate
-    }
-
-    state.decisions.push(decision);
-    saveState(state);
-  },
+  async updateDecisionStatus(id: string, status: DecisionStatus): Promise<void> {
+    const now = new Date().toISOString();
+    // approved/rejected contam para o cooldown do analyzer (em todos os dispositivos)
+    const processed = status === 'approved' || status === 'rejected';
+
+    const { error } = await requireClient()
+      .from('ai_decisions')
+      .update({
+        status,
+        updated_at: now,
+        ...(processed ? { processed_at: now, processed_by: await currentUserId() } : {}),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Reserva a decisão para aprovação antes de executar a ação: o update só pega decisões ainda na fila,
+   * então duas aprovações simultâneas (outro usuário, outro dispositivo) não executam a ação duas vezes.
+   * Retorna o `processed_at` gravado (para `releaseDecision`) ou `null` se outra pessoa já decidiu.
+   */
+  async claimDecision(id: string): Promise<string | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await requireClient()
+      .from('ai_decisions')
+      .update({ status: 'approved', updated_at: now, processed_at: now, processed_by: await currentUserId() })
+      .eq('id', id)
+      .in('status', ['pending', 'snoozed'])
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? now : null;
+  },
+
+  /** Desfaz `claimDecision` quando a ação falhou (só se a reserva ainda é a mesma). */
+  async releaseDecision(id: string, claimedAt: string, previousStatus: DecisionStatus): Promise<void> {
+    const { error } = await requireClient()
+      .from('ai_decisions')
+      .update({ status: previousStatus, updated_at: new Date().toISOString(), processed_at: null, processed_by: null })
+      .eq('id', id)
+      .eq('status', 'approved')
+      .eq('processed_at', claimedAt);
+
+    if (error) throw error;
+  },
+
+  async rejectDecision(id: string, _reason?: string): Promise<void> {
+    await this.updateDecisionStatus(id, 'rejected');
+  },
+
+  async snoozeDecision(id: string, until: Date): Promise<void> {
+    const client = requireClient();
+    // snooze_count alimenta a taxa de adiamento do relatório (o status volta a pending quando vence)
+    const { data: current } = await client.from('ai_decisions').select('snooze_count').eq('id', id).maybeSingle();
+
+    const { error } = await client
+      .from('ai_decisions')
+      .update({
+        status: 'snoozed',
+        snoozed_until: until.toISOString(),
+        snooze_count: ((current?.snooze_count as number | null) ?? 0) + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
 
-  addDecisions(decisions: Decision[]): number {
-    /**
-     * Performance: batch-add with a single load/save.
-     * Previous implementation called `loadState()` multiple times per item.
-     */
-    const state = loadState();
-    const processed = getProcessedDecisions();
-
-    let added = 0;
-
-    for (const decision of decisions) {
-      // Check if already processed (avoid duplicates)
-      const dedupeKey = `${decision.type}:${decision.dealId || decision.contactId || decision.activityId}`;
-      if (processed.has(dedupeKey)) continue;
-
-      // Check if similar pending decision exists
-      const existingSimilar = state.decisions.find(d =>
-        d.status === 'pending' &&
-        d.type === decision.type &&
-        d.dealId === decision.dealId &&
-        d.contactId === decision.contactId
-      );
-      if (existingSimilar) continue;
-
-      state.decisions.push(decision);
-      added += 1;
-    }
-
-    if (added > 0) {
-      saveState(state);
-    }
-
-    return added;
+    if (error) throw error;
   },
 
-  updateDecisionStatus(id: string, status: DecisionStatus): void {
-    const state = loadState();
-    const decision = state.decisions.find(d => d.id === id);
-    
-    if (decision) {
-      decision.status = status;
-      decision.decidedAt = new Date().toISOString();
-      
-      // Mark as processed to avoid regenerating
-      if (status === 'approved' || status === 'rejected') {
-        const dedupeKey = `${decision.type}:${decision.dealId || decision.contactId || decision.activityId}`;
-        addProcessedDecision(dedupeKey);
-      }
-      
-      saveState(state);
-    }
-  },
+  /**
+   * Tira da fila as decisões informadas sem contar cooldown (podem voltar na próxima análise).
+   */
+  async clearDecisions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
 
-  // ============================================
-  // USER ACTIONS
-  // ============================================
-
-  async approveDecision(
-    id: string, 
-    modifiedPayload?: Partial<ActionPayload>
-  ): Promise<{ success: boolean; error?: string }> {
-    const decision = this.getDecisionById(id);
-    
-    if (!decision) {
-      return { success: false, error: 'Decisão não encontrada' };
-    }
-
-    if (decision.status !== 'pending') {
-      return { success: false, error: 'Decisão já foi processada' };
-    }
-
-    // Merge modifications into payload
-    const finalPayload = modifiedPayload 
-      ? { ...decision.suggestedAction.payload, ...modifiedPayload }
-      : decision.suggestedAction.payload;
-
-    // Execute the action (this will be expanded with actual execution)
-    const result = await this.executeAction(decision.suggestedAction.type, finalPayload);
-    
-    if (result.success) {
-      this.updateDecisionStatus(id, 'approved');
-    }
-
-    return result;
-  },
-
-  rejectDecision(id: string, _reason?: string): void {
-    this.updateDecisionStatus(id, 'rejected');
-  },
+    const { error } = await requireClient()
+      .from('ai_decisions')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .in('id', ids);
 
-  snoozeDecision(id: string, until: Date): void {
-    const state = loadState();
-    const decision = state.decisions.find(d => d.id === id);
-    
-    if (decision) {
-      decision.status = 'snoozed';
-      decision.snoozeUntil = until.toISOString();
-      saveState(state);
-    }
+    if (error) throw error;
   },
 
   // ============================================
-  // ACTION EXECUTION
+  // ANALYZERS
   // ============================================
 
-  async executeAction(
-    actionType: string, 
-    payload: ActionPayload
-  ): Promise<{ success: boolean; error?: string; result?: unknown }> {
-    // This will be called from the context where we have access to CRM functions
-    // For now, return a placeholder that indicates we need external execution
-    return {
-      success: true,
-      result: { actionType, payload, needsExternalExecution: true }
-    };
+  async runAnalyzers(): Promise<DecisionRunSummary> {
+    const res = await fetch('/api/decisions/run', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { accept: 'application/json' },
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Erro ${res.status}`);
+    return body as DecisionRunSummary;
   },
 
   // ============================================
-  // MAINTENANCE
+  // ANALYTICS
   // ============================================
 
-  clearExpired(): number {
-    const state = loadState();
-    const now = new Date();
-    const before = state.decisions.length;
-    
-    state.decisions = state.decisions.filter(d => {
-      if (d.status !== 'pending') return true; // Keep non-pending for history
-      if (d.expiresAt && new Date(d.expiresAt) < now) {
-        return false; // Remove expired
-      }
-      return true;
+  async getAnalytics(days: number, windowDays: number): Promise<DecisionAnalyticsReport> {
+    const qs = new URLSearchParams({ days: String(days), window: String(windowDays) });
+    const res = await fetch(`/api/decisions/analytics?${qs.toString()}`, {
+      credentials: 'include',
+      headers: { accept: 'application/json' },
     });
-
-    saveState(state);
-    return before - state.decisions.length;
-  },
-
-  clearCompleted(olderThanDays: number = 7): number {
-    const state = loadState();
-    const cutoff = new Date();
-    cutoff.setDate(cutoff.getDate() - olderThanDays);
-    const before = state.decisions.length;
-    
-    state.decisions = state.decisions.filter(d => {
-      if (d.status === 'pending') return true;
-      if (d.decidedAt && new Date(d.decidedAt) < cutoff) {
-        return false; // Remove old completed
-      }
-      return true;
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Erro ${res.status}`);
+    return body as DecisionAnalyticsReport;
+  },
+
+  /** Ajuste de prioridade do analyzer no padrão da organização (admin). */
+  async setAnalyzerPriority(analyzerId: string, priorityOffset: number): Promise<void> {
+    const res = await fetch('/api/settings/decision-analyzers/priority', {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'content-type': 'application/json', accept: 'application/json' },
+      body: JSON.stringify({ analyzerId, priorityOffset }),
     });
-
-    saveState(state);
-    return before - state.decisions.length;
-  },
-
-  clearAll(): void {
-    saveState({ decisions: [], analyzerResults: [] });
-  },
-
-  // ============================================
-  // ANALYZER RESULTS
-  // ============================================
-
-  saveAnalyzerResult(result: import('../types').AnalyzerResult): void {
-    const state = loadState();
-    state.analyzerResults = state.analyzerResults || [];
-    state.analyzerResults.push(result);
-    state.lastAnalyzedAt = new Date().toISOString();
-    
-    // Keep only last 10 results
-    if (state.analyzerResults.length > 10) {
-      state.analyzerResults = state.analyzerResults.slice(-10);
-    }
-    
-    saveState(state);
-  },
-
-  getLastAnalyzedAt(): string | undefined {
-    return loadState().lastAnalyzedAt;
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Erro ${res.status}`);
   },
 };
 
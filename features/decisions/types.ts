@@ -114,6 +114,7 @@ export interface ActionPayload {
   recipient?: string;
   recipientName?: string;
   messageTemplate?: string;
+  subject?: string;  // Email; sem ele, o título do deal
   
   // Para move_deal
   newStage?: string;
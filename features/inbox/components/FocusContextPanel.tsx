@@ -1878,6 +1878,7 @@ export const FocusContextPanel: React.FC<FocusContextPanelProps> = ({
                 contactPhone={contact?.phone}
                 initialSubject={messagePrefill?.subject}
                 initialMessage={messagePrefill?.message}
+                send={{ dealId: deal.id, contactId: contact?.id }}
                 aiContext={{
                     cockpitSnapshot,
                     nextBestAction: {
@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Copy, ExternalLink, Mail, MessageCircle, Sparkles, Loader2, AlertCircle } from 'lucide-react';
+import { Copy, ExternalLink, Mail, MessageCircle, Sparkles, Loader2, AlertCircle, Send } from 'lucide-react';
 import { Modal } from '@/components/ui/Modal';
 import { rewriteMessageDraft, type RewriteMessageDraftInput } from '@/lib/ai/actionsClient';
 import { isConsentError, isRateLimitError } from '@/lib/supabase/ai-proxy';
 import { toWhatsAppPhone } from '@/lib/phone';
+import { getMessagingChannels, isChannelNotConfigured, sendMessage } from '@/lib/messaging/client';
+import { useOptionalToast } from '@/context/ToastContext';
 
 export type MessageChannel = 'WHATSAPP' | 'EMAIL';
 
@@ -12,6 +14,8 @@ export type MessageExecutedEvent = {
     /** Para EMAIL */
     subject?: string;
     message: string;
+    /** true quando a mensagem saiu pelo servidor (a atividade já foi registrada no deal) */
+    sentByServer?: boolean;
 };
 
 interface MessageComposerModalProps {
@@ -23,8 +27,18 @@ interface MessageComposerModalProps {
     contactPhone?: string;
     initialSubject?: string;
     initialMessage?: string;
-    /** Dispara quando o usuário realmente executa (abre) WhatsApp/mailto */
+    /** Dispara quando o usuário realmente executa (abre) WhatsApp/mailto ou envia pelo servidor */
     onExecuted?: (event: MessageExecutedEvent) => void;
+    /**
+     * Envio pelo servidor (`/api/messages/send`): com o canal configurado, mostra "Enviar",
+     * que envia e registra a atividade no deal. Sem configuração, fica só o wa.me/mailto.
+     */
+    send?: {
+        dealId?: string;
+        contactId?: string;
+        /** Linhas extras no registro da atividade */
+        logContext?: string;
+    };
     /** Contexto rico opcional (ex.: cockpitSnapshot) para melhorar a reescrita com IA */
     aiContext?: {
         cockpitSnapshot?: unknown;
@@ -183,6 +197,7 @@ export function MessageComposerModal({
     initialMessage,
     onExecuted,
     aiContext,
+    send,
 }: MessageComposerModalProps) {
     const [subject, setSubject] = useState('');
     const [message, setMessage] = useState('');
@@ -190,6 +205,11 @@ export function MessageComposerModal({
     const [isRewriting, setIsRewriting] = useState(false);
     const [rewriteError, setRewriteError] = useState<string | null>(null);
     const [aiBadge, setAiBadge] = useState(false);
+    const [serverEnabled, setServerEnabled] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const [sendError, setSendError] = useState<string | null>(null);
+    const { addToast } = useOptionalToast();
+    const canUseServer = Boolean(send && (send.dealId || send.contactId));
 
     const phone = useMemo(() => formatPhoneForWhatsApp(contactPhone), [contactPhone]);
     const contactValue = useMemo(() => {
@@ -210,6 +230,19 @@ export function MessageComposerModal({
         setMessage(channel === 'WHATSAPP' ? formatForWhatsApp(nextMsg) : formatForEmail(nextMsg));
     }, [isOpen, initialSubject, initialMessage, channel]);
 
+    useEffect(() => {
+        if (!isOpen || !canUseServer) return;
+
+        let cancelled = false;
+        setSendError(null);
+        void getMessagingChannels().then((channels) => {
+            if (!cancelled) setServerEnabled(channel === 'WHATSAPP' ? channels.whatsapp : channels.email);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, canUseServer, channel]);
+
     const canOpen = useMemo(() => {
         if (channel === 'WHATSAPP') return Boolean(phone);
         return Boolean(contactEmail);
@@ -249,6 +282,35 @@ export function MessageComposerModal({
         onExecuted?.({ channel, subject, message: formatted });
     };
 
+    const handleSend = async () => {
+        if (!send || isSending) return;
+
+        const formatted = channel === 'WHATSAPP' ? formatForWhatsApp(message) : formatForEmail(message);
+        if (!formatted) return;
+        if (formatted !== message) setMessage(formatted);
+
+        setIsSending(true);
+        setSendError(null);
+        try {
+            await sendMessage({
+                channel: channel === 'WHATSAPP' ? 'whatsapp' : 'email',
+                dealId: send.dealId,
+                contactId: send.contactId,
+                subject: channel === 'EMAIL' ? subject : undefined,
+                message: formatted,
+                logContext: send.logContext,
+            });
+            addToast(channel === 'WHATSAPP' ? 'WhatsApp enviado' : 'Email enviado', 'success');
+            onExecuted?.({ channel, subject: channel === 'EMAIL' ? subject : undefined, message: formatted, sentByServer: true });
+            onClose();
+        } catch (err) {
+            if (isChannelNotConfigured(err)) setServerEnabled(false);
+            setSendError(err instanceof Error ? err.message : 'Não foi possível enviar a mensagem.');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
     const handleRewriteWithAI = async () => {
         if (isRewriting) return;
 
@@ -454,8 +516,27 @@ export function MessageComposerModal({
                         <ExternalLink size={16} />
                         {channel === 'WHATSAPP' ? 'Abrir no WhatsApp' : 'Abrir no email'}
                     </button>
+                    {canUseServer && serverEnabled && (
+                        <button
+                            type="button"
+                            onClick={() => void handleSend()}
+                            disabled={!canOpen || isSending || !message.trim()}
+                            className="px-4 py-2 rounded-lg text-sm font-semibold bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                            title="Envia pelo CRM e registra no deal"
+                        >
+                            {isSending ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+                            Enviar
+                        </button>
+                    )}
                 </div>
 
+                {sendError && (
+                    <div className="flex items-start gap-2 rounded-lg border border-red-200 dark:border-red-500/20 bg-red-50 dark:bg-red-950/20 p-3">
+                        <AlertCircle size={16} className="text-red-600 dark:text-red-400 mt-0.5" />
+                        <p className="text-sm text-red-700 dark:text-red-300">{sendError}</p>
+                    </div>
+                )}
+
                 {rewriteError && (
                     <div className="flex items-start gap-2 rounded-lg border border-red-200 dark:border-red-500/20 bg-red-50 dark:bg-red-950/20 p-3">
                         <AlertCircle size={16} className="text-red-600 dark:text-red-400 mt-0.5" />
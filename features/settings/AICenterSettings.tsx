@@ -5,6 +5,8 @@ import { useAuth } from '@/context/AuthContext';
 import { useCRM } from '@/context/CRMContext';
 import { AIConfigSection } from './components/AIConfigSection';
 import { AIFeaturesSection } from './components/AIFeaturesSection';
+import { AIUsageSection } from './components/AIUsageSection';
+import { DecisionAnalyzersSection } from './components/DecisionAnalyzersSection';
 
 /**
  * Componente React `AICenterSettings`.
@@ -61,6 +63,10 @@ export const AICenterSettings: React.FC = () => {
       <div className="mt-6">
         <AIFeaturesSection />
       </div>
+
+      <AIUsageSection />
+
+      <DecisionAnalyzersSection />
     </div>
   );
 };
@@ -6,6 +6,7 @@ import { CustomFieldsManager } from './components/CustomFieldsManager';
 import { ApiKeysSection } from './components/ApiKeysSection';
 import { WebhooksSection } from './components/WebhooksSection';
 import { McpSection } from './components/McpSection';
+import { AuditLogDashboard } from './components/AuditLogDashboard';
 import { DataStorageSettings } from './components/DataStorageSettings';
 import { ProductsCatalogManager } from './components/ProductsCatalogManager';
 import { AICenterSettings } from './AICenterSettings';
@@ -104,13 +105,13 @@ const ProductsSettings: React.FC = () => {
 };
 
 const IntegrationsSettings: React.FC = () => {
-  type IntegrationsSubTab = 'api' | 'webhooks' | 'mcp';
+  type IntegrationsSubTab = 'api' | 'webhooks' | 'mcp' | 'audit';
   const [subTab, setSubTab] = useState<IntegrationsSubTab>('api');
 
   useEffect(() => {
     const syncFromHash = () => {
     const h = typeof window !== 'undefined' ? (window.location.hash || '').replace('#', '') : '';
-    if (h === 'webhooks' || h === 'api' || h === 'mcp') setSubTab(h as IntegrationsSubTab);
+    if (h === 'webhooks' || h === 'api' || h === 'mcp' || h === 'audit') setSubTab(h as IntegrationsSubTab);
     };
 
     syncFromHash();
@@ -137,6 +138,7 @@ const IntegrationsSettings: React.FC = () => {
           { id: 'webhooks' as const, label: 'Webhooks' },
           { id: 'api' as const, label: 'API' },
           { id: 'mcp' as const, label: 'MCP' },
+          { id: 'audit' as const, label: 'Auditoria' },
         ] as const).map((t) => {
           const active = subTab === t.id;
           return (
@@ -159,6 +161,7 @@ const IntegrationsSettings: React.FC = () => {
       {subTab === 'api' && <ApiKeysSection />}
       {subTab === 'webhooks' && <WebhooksSection />}
       {subTab === 'mcp' && <McpSection />}
+      {subTab === 'audit' && <AuditLogDashboard />}
     </div>
   );
 };
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useCRM } from '@/context/CRMContext';
-import { Bot, Key, Cpu, CheckCircle, AlertCircle, Loader2, Save, Trash2, ChevronDown, ChevronUp, Shield } from 'lucide-react';
+import { Bot, Key, Cpu, CheckCircle, AlertCircle, Loader2, Save, Trash2, ChevronDown, ChevronUp, Shield, Layers, Plus, ArrowUp, ArrowDown, Server, Wrench } from 'lucide-react';
 import { useToast } from '@/context/ToastContext';
 import { useAuth } from '@/context/AuthContext';
 
@@ -37,8 +37,378 @@ const AI_PROVIDERS = [
             { id: 'gpt-4o', name: 'GPT-4o', description: 'Legacy flagship', price: '$2.50 / $10' },
         ]
     },
+    {
+        // Self-hosted (Ollama, vLLM, LM Studio): o modelo depende do servidor, então é sempre digitado.
+        id: 'openai_compatible',
+        name: 'Compatível com OpenAI (local)',
+        models: [] as { id: string; name: string; description: string; price: string }[],
+    },
 ] as const;
 
+type AIProviderId = (typeof AI_PROVIDERS)[number]['id'];
+type FallbackEntry = { provider: AIProviderId; model: string };
+
+// Mesmo limite de `MAX_AI_FALLBACKS` (lib/ai/provider) — o backend rejeita listas maiores.
+const MAX_FALLBACKS = 3;
+
+/**
+ * Cadeia de fallback (admin): provedores/modelos tentados, em ordem, quando o principal estoura cota.
+ * Carrega e salva direto em `/api/settings/ai` (`aiFallbackChain`); provedores sem chave são ignorados no servidor.
+ */
+const AIFallbackChainEditor: React.FC<{ primaryProvider: string; primaryModel: string }> = ({ primaryProvider, primaryModel }) => {
+    const { showToast } = useToast();
+    const [chain, setChain] = useState<FallbackEntry[]>([]);
+    const [hasKey, setHasKey] = useState<Record<AIProviderId, boolean>>({ google: false, openai: false, anthropic: false, openai_compatible: false });
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [dirty, setDirty] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const res = await fetch('/api/settings/ai', { headers: { accept: 'application/json' }, credentials: 'include' });
+                if (!res.ok) return;
+                const data = await res.json();
+                if (cancelled) return;
+                setChain(Array.isArray(data.aiFallbackChain) ? data.aiFallbackChain : []);
+                setHasKey({
+                    google: Boolean(data.aiHasGoogleKey),
+                    openai: Boolean(data.aiHasOpenaiKey),
+                    anthropic: Boolean(data.aiHasAnthropicKey),
+                    openai_compatible: Boolean(data.aiHasLocalBaseUrl),
+                });
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const update = (next: FallbackEntry[]) => {
+        setChain(next);
+        setDirty(true);
+    };
+
+    const move = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= chain.length) return;
+        const next = [...chain];
+        [next[index], next[target]] = [next[target], next[index]];
+        update(next);
+    };
+
+    const handleAdd = () => {
+        const provider = AI_PROVIDERS.find(p => p.id !== primaryProvider && hasKey[p.id])?.id
+            ?? AI_PROVIDERS.find(p => p.id !== primaryProvider)?.id
+            ?? 'google';
+        update([...chain, { provider, model: '' }]);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const res = await fetch('/api/settings/ai', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ aiFallbackChain: chain }),
+            });
+            if (!res.ok) {
+                const body = await res.json().catch(() => null);
+                throw new Error(body?.error || `Falha ao salvar cadeia de fallback (HTTP ${res.status})`);
+            }
+            setDirty(false);
+            showToast('Cadeia de fallback salva!', 'success');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Falha ao salvar cadeia de fallback', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectClass = 'w-full appearance-none bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 outline-none transition-all';
+
+    return (
+        <div className="space-y-3 border-t border-slate-200 dark:border-white/10 pt-4">
+            <div>
+                <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                    <Layers size={14} /> Cadeia de fallback
+                </h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                    Se {AI_PROVIDERS.find(p => p.id === primaryProvider)?.name} ({primaryModel}) estourar a cota ou o limite de requisições,
+                    as tarefas de IA tentam os provedores abaixo, nesta ordem. Provedores sem chave salva são ignorados.
+                </p>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center gap-2 text-xs text-slate-500"><Loader2 size={14} className="animate-spin" /> Carregando…</div>
+            ) : (
+                <>
+                    {chain.length === 0 && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 italic">Nenhum fallback configurado.</p>
+                    )}
+
+                    {chain.map((entry, index) => {
+                        const providerData = AI_PROVIDERS.find(p => p.id === entry.provider);
+                        const isCatalog = !entry.model || !!providerData?.models.some(m => m.id === entry.model);
+                        return (
+                            <div key={index} className="flex flex-wrap items-center gap-2">
+                                <span className="w-5 text-xs font-mono text-slate-400">{index + 1}.</span>
+                                <div className="flex-1 min-w-[140px]">
+                                    <select
+                                        aria-label={`Provedor do fallback ${index + 1}`}
+                                        value={entry.provider}
+                                        onChange={(e) => update(chain.map((c, i) => (i === index ? { provider: e.target.value as AIProviderId, model: '' } : c)))}
+                                        className={selectClass}
+                                    >
+                                        {AI_PROVIDERS.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}{hasKey[p.id] ? '' : p.id === 'openai_compatible' ? ' (sem base URL)' : ' (sem chave)'}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="flex-1 min-w-[180px]">
+                                    {entry.provider === 'openai_compatible' ? (
+                                        <input
+                                            type="text"
+                                            aria-label={`Modelo do fallback ${index + 1}`}
+                                            value={entry.model}
+                                            onChange={(e) => update(chain.map((c, i) => (i === index ? { ...c, model: e.target.value } : c)))}
+                                            placeholder="ID do modelo (ex: llama3.1)"
+                                            className={selectClass}
+                                        />
+                                    ) : (
+                                    <select
+                                        aria-label={`Modelo do fallback ${index + 1}`}
+                                        value={entry.model}
+                                        onChange={(e) => update(chain.map((c, i) => (i === index ? { ...c, model: e.target.value } : c)))}
+                                        className={selectClass}
+                                    >
+                                        <option value="">Modelo padrão do provedor</option>
+                                        {providerData?.models.map(m => (
+                                            <option key={m.id} value={m.id}>{m.name}</option>
+                                        ))}
+                                        {!isCatalog && <option value={entry.model}>{entry.model}</option>}
+                                    </select>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <button type="button" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Mover para cima" className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30">
+                                        <ArrowUp size={14} />
+                                    </button>
+                                    <button type="button" onClick={() => move(index, 1)} disabled={index === chain.length - 1} aria-label="Mover para baixo" className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30">
+                                        <ArrowDown size={14} />
+                                    </button>
+                                    <button type="button" onClick={() => update(chain.filter((_, i) => i !== index))} aria-label="Remover fallback" className="p-2 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                {!hasKey[entry.provider] && (
+                                    <p className="w-full pl-7 text-xs text-amber-600 dark:text-amber-400">
+                                        {entry.provider === 'openai_compatible'
+                                            ? 'Sem base URL salva para o servidor local: este passo será ignorado.'
+                                            : `Sem chave salva para ${providerData?.name}: este passo será ignorado.`}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={handleAdd}
+                            disabled={chain.length >= MAX_FALLBACKS}
+                            className="px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 bg-slate-100 dark:bg-white/5 hover:bg-slate-200 dark:hover:bg-white/10 text-slate-700 dark:text-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Plus size={16} /> Adicionar fallback
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={isSaving || !dirty}
+                            className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${isSaving || !dirty
+                                ? 'bg-slate-200 dark:bg-white/10 text-slate-400 cursor-not-allowed'
+                                : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm'
+                                }`}
+                        >
+                            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                            Salvar cadeia
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+type LocalProbeResult = {
+    reachable: boolean;
+    supportsTools: boolean;
+    models: string[];
+    error?: string;
+    persisted?: boolean;
+};
+
+/**
+ * Servidor compatível com OpenAI (admin): base URL, key opcional e teste de tool calling.
+ * As ferramentas do agente só ficam ativas depois que o teste confirma suporte (`ai_local_supports_tools`).
+ */
+const LocalProviderPanel: React.FC<{ model: string }> = ({ model }) => {
+    const { aiLocalBaseUrl, aiLocalKey, aiLocalSupportsTools, setAiLocalConfig, setAiLocalSupportsTools } = useCRM();
+    const { showToast } = useToast();
+
+    const [baseUrlDraft, setBaseUrlDraft] = useState(aiLocalBaseUrl);
+    const [keyDraft, setKeyDraft] = useState(aiLocalKey);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isProbing, setIsProbing] = useState(false);
+    const [probe, setProbe] = useState<LocalProbeResult | null>(null);
+
+    useEffect(() => {
+        setBaseUrlDraft(aiLocalBaseUrl);
+        setKeyDraft(aiLocalKey);
+    }, [aiLocalBaseUrl, aiLocalKey]);
+
+    const dirty = baseUrlDraft.trim() !== aiLocalBaseUrl || keyDraft.trim() !== aiLocalKey;
+    const configured = Boolean(aiLocalBaseUrl) && !dirty;
+
+    const handleSave = async () => {
+        if (!baseUrlDraft.trim()) {
+            showToast('Informe a base URL do servidor', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await setAiLocalConfig({ baseUrl: baseUrlDraft, apiKey: keyDraft });
+            setProbe(null);
+            showToast('Servidor local salvo! Teste o modelo para liberar as ferramentas do agente.', 'success');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Falha ao salvar servidor local', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleProbe = async () => {
+        setIsProbing(true);
+        try {
+            const res = await fetch('/api/settings/ai/probe', {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({}),
+            });
+            const body = await res.json().catch(() => null);
+            if (!res.ok) throw new Error(body?.error || `Falha ao testar o modelo (HTTP ${res.status})`);
+            const result = body as LocalProbeResult;
+            setProbe(result);
+            if (result.persisted) setAiLocalSupportsTools(result.supportsTools);
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Falha ao testar o modelo', 'error');
+        } finally {
+            setIsProbing(false);
+        }
+    };
+
+    const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 outline-none transition-all font-mono';
+
+    const toolsStatus = aiLocalSupportsTools === true
+        ? { tone: 'bg-green-50 dark:bg-green-900/10 text-green-800 dark:text-green-200', title: 'Pronto para uso', text: `O agente usa ${model} no seu servidor, com as ferramentas do CRM.` }
+        : aiLocalSupportsTools === false
+            ? { tone: 'bg-amber-50 dark:bg-amber-900/10 text-amber-800 dark:text-amber-200', title: 'Sem tool calling', text: `${model} não chama ferramentas: o agente conversa sem consultar/alterar dados do CRM. As tarefas de IA funcionam normalmente.` }
+            : { tone: 'bg-amber-50 dark:bg-amber-900/10 text-amber-800 dark:text-amber-200', title: 'Modelo não testado', text: 'As ferramentas do agente ficam desligadas até o teste confirmar suporte a tool calling.' };
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <label htmlFor="ai-local-base-url" className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <Server size={14} /> Base URL
+                    </label>
+                    <input
+                        id="ai-local-base-url"
+                        type="url"
+                        value={baseUrlDraft}
+                        onChange={(e) => setBaseUrlDraft(e.target.value)}
+                        placeholder="http://localhost:11434/v1"
+                        className={inputClass}
+                    />
+                    <p className="text-xs text-slate-500">Ollama, vLLM, LM Studio ou qualquer servidor com a API de Chat Completions da OpenAI.</p>
+                </div>
+                <div className="space-y-2">
+                    <label htmlFor="ai-local-key" className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
+                        <Key size={14} /> Chave de API (opcional)
+                    </label>
+                    <input
+                        id="ai-local-key"
+                        type="password"
+                        value={keyDraft}
+                        onChange={(e) => setKeyDraft(e.target.value)}
+                        placeholder="Deixe vazio se o servidor não exige"
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || !dirty}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${isSaving || !dirty
+                        ? 'bg-slate-200 dark:bg-white/10 text-slate-400 cursor-not-allowed'
+                        : 'bg-purple-600 hover:bg-purple-700 text-white shadow-sm'
+                        }`}
+                >
+                    {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                    Salvar servidor
+                </button>
+                <button
+                    type="button"
+                    onClick={handleProbe}
+                    disabled={isProbing || !configured}
+                    title={configured ? undefined : 'Salve a base URL antes de testar'}
+                    className="px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 bg-slate-100 dark:bg-white/5 hover:bg-slate-200 dark:hover:bg-white/10 text-slate-700 dark:text-slate-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isProbing ? <Loader2 size={16} className="animate-spin" /> : <Wrench size={16} />}
+                    Testar modelo ({model})
+                </button>
+            </div>
+
+            {probe && (
+                <div className="text-xs text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-white/5 rounded-lg p-3 space-y-1">
+                    <p><span className="font-semibold">Servidor:</span> {probe.reachable ? 'respondeu' : 'não respondeu'}</p>
+                    <p><span className="font-semibold">Tool calling:</span> {probe.supportsTools ? 'suportado' : 'não suportado'}</p>
+                    {probe.models.length > 0 && (
+                        <p>
+                            <span className="font-semibold">Modelos no servidor:</span> {probe.models.slice(0, 10).join(', ')}
+                            {probe.models.length > 10 ? '…' : ''}
+                        </p>
+                    )}
+                    {probe.error && <p className="text-red-600 dark:text-red-400 break-words">{probe.error}</p>}
+                </div>
+            )}
+
+            <div className={`rounded-lg p-3 flex items-start gap-3 ${configured ? toolsStatus.tone : 'bg-amber-50 dark:bg-amber-900/10 text-amber-800 dark:text-amber-200'}`}>
+                {configured && aiLocalSupportsTools === true ? (
+                    <CheckCircle className="shrink-0 mt-0.5" size={18} />
+                ) : (
+                    <AlertCircle className="shrink-0 mt-0.5" size={18} />
+                )}
+                <div className="text-sm">
+                    <p className="font-semibold">{configured ? toolsStatus.title : 'Configuração Pendente'}</p>
+                    <p className="opacity-90 mt-1">
+                        {configured ? toolsStatus.text : 'Informe a base URL do seu servidor e clique em Salvar.'}
+                    </p>
+                    <p className="opacity-75 mt-1 text-xs">Os dados dos clientes não saem da sua infraestrutura.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // Função para validar API key fazendo uma chamada real à API
 async function validateApiKey(provider: string, apiKey: string, model: string): Promise<{ valid: boolean; error?: string }> {
     if (!apiKey || apiKey.trim().length < 10) {
@@ -267,7 +637,7 @@ export const AIConfigSection: React.FC = () => {
     }, [modelSelectValue, aiModel, customModelDirty, isCatalogModel]);
 
     const handleProviderChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const newProviderId = e.target.value as 'google' | 'openai' | 'anthropic';
+        const newProviderId = e.target.value as AIProviderId;
         try {
             await setAiProvider(newProviderId);
 
@@ -527,6 +897,10 @@ export const AIConfigSection: React.FC = () => {
                     </div>
                 )}
 
+                {aiProvider === 'openai_compatible' ? (
+                    <LocalProviderPanel model={aiModel} />
+                ) : (
+                <>
                 {/* API Key */}
                 <div className="space-y-2">
                     <label className="text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2">
@@ -681,6 +1055,10 @@ export const AIConfigSection: React.FC = () => {
                         </p>
                     </div>
                 </div>
+                </>
+                )}
+
+                <AIFallbackChainEditor primaryProvider={aiProvider} primaryModel={aiModel} />
 
                     </>
                 )}
@@ -7,6 +7,7 @@ import { Copy, Loader2, Pencil, RotateCcw, SlidersHorizontal, ToggleLeft, Toggle
 import { useToast } from '@/context/ToastContext';
 import { Modal } from '@/components/ui/Modal';
 import { getPromptCatalogMap } from '@/lib/ai/prompts/catalog';
+import { PromptVersionsPanel } from './PromptVersionsPanel';
 
 type FeatureItem = {
   key: string;
@@ -16,7 +17,7 @@ type FeatureItem = {
   promptKey?: string;
 };
 
-const FEATURES: FeatureItem[] = [
+export const FEATURES: FeatureItem[] = [
   { key: 'ai_chat_agent', title: 'Chat do agente (Pilot)', description: 'Chat principal com ferramentas do CRM.', promptKey: 'agent_crm_base_instructions' },
   { key: 'ai_sales_script', title: 'Script de vendas', description: 'Geração de script (Inbox / ações).', promptKey: 'task_inbox_sales_script' },
   { key: 'ai_daily_briefing', title: 'Briefing diário', description: 'Resumo diário de prioridades.', promptKey: 'task_inbox_daily_briefing' },
@@ -302,6 +303,14 @@ export const AIFeaturesSection: React.FC = () => {
                 </button>
               </div>
             </div>
+
+            {!promptLoading ? (
+              <PromptVersionsPanel
+                promptKey={editingFeature.promptKey}
+                draft={promptDraft}
+                onChanged={() => void openPromptEditor(editingFeature)}
+              />
+            ) : null}
           </>
         ) : null}
       </Modal>
@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Gauge, Loader2, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import { FEATURES } from './AIFeaturesSection';
+
+type Totals = { requests: number; inputTokens: number; outputTokens: number; costUsd: number };
+type Breakdown = Array<{ key: string; totals: Totals }>;
+
+type UsagePayload = {
+  since: string;
+  budgets: { organizationUsd: number | null; userUsd: number | null };
+  totals: Totals;
+  byFeature: Breakdown;
+  byUser: Breakdown;
+  byModel: Breakdown;
+  byApiKey: Breakdown;
+  users: Record<string, string>;
+  apiKeys: Record<string, string>;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  task: 'Tarefa',
+  action: 'Ação',
+  mcp: 'MCP',
+};
+
+const TABS = [
+  { id: 'byFeature', label: 'Por função' },
+  { id: 'byUser', label: 'Por usuário' },
+  { id: 'byModel', label: 'Por modelo' },
+  { id: 'byApiKey', label: 'Por chave de API' },
+] as const;
+
+type TabId = (typeof TABS)[number]['id'];
+
+const usd = (v: number) => `US$ ${v.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+const int = (v: number) => v.toLocaleString('pt-BR');
+
+function budgetInput(v: number | null) {
+  return v === null ? '' : String(v);
+}
+
+function parseBudget(v: string): number | null | undefined {
+  const raw = v.trim().replace(',', '.');
+  if (!raw) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Componente React `AIUsageSection`.
+ * Consumo de IA do mês (tokens + custo estimado) e orçamentos mensais da organização/usuário. Admin-only.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const AIUsageSection: React.FC = () => {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const { showToast } = useToast();
+
+  const [data, setData] = useState<UsagePayload | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<TabId>('byFeature');
+  const [orgBudget, setOrgBudget] = useState('');
+  const [userBudget, setUserBudget] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/settings/ai-usage', { headers: { accept: 'application/json' } });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || `Falha ao carregar consumo (HTTP ${res.status})`);
+      const payload = body as UsagePayload;
+      setData(payload);
+      setOrgBudget(budgetInput(payload.budgets.organizationUsd));
+      setUserBudget(budgetInput(payload.budgets.userUsd));
+    } catch (e: any) {
+      setError(e?.message || 'Falha ao carregar consumo');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) void load();
+  }, [isAdmin, load]);
+
+  const featureTitles = useMemo(() => Object.fromEntries(FEATURES.map((f) => [f.key, f.title])), []);
+
+  const labelFor = (key: string) => {
+    if (!data) return key;
+    if (tab === 'byFeature') {
+      const [source, ...rest] = key.split(':');
+      const feature = rest.join(':');
+      return `${SOURCE_LABELS[source] ?? source} · ${featureTitles[feature] ?? feature}`;
+    }
+    if (tab === 'byUser') return data.users[key] ?? key;
+    if (tab === 'byApiKey') return data.apiKeys[key] ?? key;
+    return key;
+  };
+
+  const saveBudgets = async () => {
+    const organizationUsd = parseBudget(orgBudget);
+    const userUsd = parseBudget(userBudget);
+    if (organizationUsd === undefined || userUsd === undefined) {
+      showToast('Informe um valor em US$ (ou deixe vazio para sem limite).', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch('/api/settings/ai-usage', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', accept: 'application/json' },
+        body: JSON.stringify({ organizationUsd, userUsd }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || `Falha ao salvar (HTTP ${res.status})`);
+      showToast('Orçamentos de IA salvos', 'success');
+      await load();
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao salvar', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  const rows = data ? data[tab] : [];
+  const orgLimit = data?.budgets.organizationUsd ?? null;
+  const orgPct = orgLimit && data ? Math.min(100, (data.totals.costUsd / orgLimit) * 100) : null;
+
+  return (
+    <div id="ai-usage" className="mb-12 scroll-mt-8">
+      <div className="bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1 flex items-center gap-2">
+              <Gauge className="h-5 w-5" /> Consumo e orçamento de IA
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Tokens e custo estimado do mês corrente (UTC). Ao atingir o orçamento, chamadas de IA retornam erro até o próximo mês.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => void load()}
+            disabled={loading}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-slate-100 dark:hover:bg-white/10 text-slate-800 dark:text-white text-sm font-semibold inline-flex items-center gap-2 shrink-0"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Atualizar
+          </button>
+        </div>
+
+        {error ? <div className="mt-4 text-sm text-rose-600 dark:text-rose-400">{error}</div> : null}
+
+        {data ? (
+          <>
+            <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-2">
+              {[
+                { label: 'Requisições', value: int(data.totals.requests) },
+                { label: 'Tokens de entrada', value: int(data.totals.inputTokens) },
+                { label: 'Tokens de saída', value: int(data.totals.outputTokens) },
+                { label: 'Custo estimado', value: usd(data.totals.costUsd) },
+              ].map((card) => (
+                <div key={card.label} className="rounded-lg bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 px-3 py-2">
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{card.label}</div>
+                  <div className="text-lg font-bold text-slate-900 dark:text-white">{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {orgPct !== null ? (
+              <div className="mt-3">
+                <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+                  <span>Orçamento da organização</span>
+                  <span>
+                    {usd(data.totals.costUsd)} de {usd(orgLimit ?? 0)}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+                  <div
+                    className={`h-full ${orgPct >= 100 ? 'bg-rose-500' : orgPct >= 80 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${orgPct}%` }}
+                  />
+                </div>
+              </div>
+            ) : null}
+
+            <div className="mt-6 border-t border-slate-200 dark:border-white/10 pt-4">
+              <div className="flex flex-wrap gap-2 mb-3">
+                {TABS.map((t) => (
+                  <button
+                    key={t.id}
+                    type="button"
+                    onClick={() => setTab(t.id)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-semibold border ${
+                      tab === t.id
+                        ? 'bg-primary-600 border-primary-600 text-white'
+                        : 'border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-white/10'
+                    }`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+
+              {rows.length === 0 ? (
+                <div className="text-sm text-slate-500 dark:text-slate-400">Nenhum consumo registrado neste mês.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                        <th className="py-1 pr-3 font-medium">Item</th>
+                        <th className="py-1 pr-3 font-medium text-right">Requisições</th>
+                        <th className="py-1 pr-3 font-medium text-right">Entrada</th>
+                        <th className="py-1 pr-3 font-medium text-right">Saída</th>
+                        <th className="py-1 font-medium text-right">Custo</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.key} className="border-t border-slate-100 dark:border-white/5 text-slate-800 dark:text-slate-100">
+                          <td className="py-1.5 pr-3 truncate max-w-[260px]" title={row.key}>
+                            {labelFor(row.key)}
+                          </td>
+                          <td className="py-1.5 pr-3 text-right">{int(row.totals.requests)}</td>
+                          <td className="py-1.5 pr-3 text-right">{int(row.totals.inputTokens)}</td>
+                          <td className="py-1.5 pr-3 text-right">{int(row.totals.outputTokens)}</td>
+                          <td className="py-1.5 text-right">{usd(row.totals.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 border-t border-slate-200 dark:border-white/10 pt-4">
+              <div className="text-sm font-semibold text-slate-900 dark:text-white mb-2">Orçamentos mensais (US$)</div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <label className="text-xs text-slate-500 dark:text-slate-400">
+                  Organização
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={orgBudget}
+                    onChange={(e) => setOrgBudget(e.target.value)}
+                    placeholder="Sem limite"
+                    className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+                  />
+                </label>
+                <label className="text-xs text-slate-500 dark:text-slate-400">
+                  Por usuário
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={userBudget}
+                    onChange={(e) => setUserBudget(e.target.value)}
+                    placeholder="Sem limite"
+                    className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => void saveBudgets()}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white text-sm font-semibold inline-flex items-center justify-center gap-2"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                  Salvar orçamentos
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                Custo estimado pela tabela de preços pública de cada modelo; servidores locais não têm custo por token.
+              </p>
+            </div>
+          </>
+        ) : loading ? (
+          <div className="mt-6 flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+            <Loader2 className="h-4 w-4 animate-spin" /> Carregando consumo…
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React from 'react';
+
+import { API_KEY_FULL_ACCESS, API_KEY_SCOPE_GROUPS, normalizeApiKeyScopes, type ApiKeyScope } from '@/lib/public-api/scopes';
+
+export type ApiKeyPermissionsDraft = {
+  fullAccess: boolean;
+  scopes: ApiKeyScope[];
+  /** `yyyy-mm-dd` (input date) ou vazio = nunca expira. */
+  expiresOn: string;
+  /** Um IP/CIDR por linha (ou separados por vírgula). Vazio = qualquer IP. */
+  allowedIps: string;
+  /** Requisições por minuto (texto do input). */
+  rateLimitPerMinute: string;
+  /** Requisições por dia (UTC). Vazio = sem cota diária. */
+  dailyQuota: string;
+};
+
+export const DEFAULT_API_KEY_RATE_LIMIT_PER_MINUTE = 120;
+
+export const DEFAULT_API_KEY_PERMISSIONS: ApiKeyPermissionsDraft = {
+  fullAccess: true,
+  scopes: [],
+  expiresOn: '',
+  allowedIps: '',
+  rateLimitPerMinute: String(DEFAULT_API_KEY_RATE_LIMIT_PER_MINUTE),
+  dailyQuota: '',
+};
+
+function toDateInput(iso: string | null) {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Converte a linha de `api_keys` para o rascunho do formulário. */
+export function permissionsDraftFromKey(key: {
+  scopes: string[] | null;
+  expires_at: string | null;
+  allowed_ips: string[] | null;
+  rate_limit_per_minute: number | null;
+  daily_quota: number | null;
+}) {
+  const scopes = normalizeApiKeyScopes(key.scopes ?? [API_KEY_FULL_ACCESS]);
+  return {
+    fullAccess: scopes.includes(API_KEY_FULL_ACCESS),
+    scopes: scopes.filter((s): s is ApiKeyScope => s !== API_KEY_FULL_ACCESS),
+    expiresOn: toDateInput(key.expires_at),
+    allowedIps: (key.allowed_ips || []).join('\n'),
+    rateLimitPerMinute: String(key.rate_limit_per_minute ?? DEFAULT_API_KEY_RATE_LIMIT_PER_MINUTE),
+    dailyQuota: key.daily_quota ? String(key.daily_quota) : '',
+  } satisfies ApiKeyPermissionsDraft;
+}
+
+/** Parâmetros das RPCs `create_api_key` / `update_api_key`. */
+export function permissionsDraftToRpc(draft: ApiKeyPermissionsDraft) {
+  return {
+    p_scopes: draft.fullAccess ? [API_KEY_FULL_ACCESS] : draft.scopes,
+    // expira no fim do dia escolhido (horário local)
+    p_expires_at: draft.expiresOn ? new Date(`${draft.expiresOn}T23:59:59`).toISOString() : null,
+    p_allowed_ips: draft.allowedIps
+      .split(/[\s,;]+/)
+      .map((ip) => ip.trim())
+      .filter(Boolean),
+    p_rate_limit_per_minute: positiveIntOrNull(draft.rateLimitPerMinute) ?? DEFAULT_API_KEY_RATE_LIMIT_PER_MINUTE,
+    p_daily_quota: positiveIntOrNull(draft.dailyQuota),
+  };
+}
+
+function positiveIntOrNull(value: string) {
+  const n = Number(value.trim());
+  return value.trim() && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Resumo curto para a lista de chaves. */
+export function describeApiKeyScopes(scopes: string[] | null) {
+  const normalized = normalizeApiKeyScopes(scopes ?? [API_KEY_FULL_ACCESS]);
+  if (normalized.includes(API_KEY_FULL_ACCESS)) return ['acesso total'];
+  return normalized.length ? normalized : ['sem permissões'];
+}
+
+/**
+ * Componente React `ApiKeyPermissionsFields`.
+ * Campos de escopo, expiração, allowlist de IP e cotas de uma API key (criar/editar).
+ *
+ * @param {{ value: ApiKeyPermissionsDraft; onChange: (next: ApiKeyPermissionsDraft) => void; }} props - Rascunho controlado.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const ApiKeyPermissionsFields: React.FC<{
+  value: ApiKeyPermissionsDraft;
+  onChange: (next: ApiKeyPermissionsDraft) => void;
+}> = ({ value, onChange }) => {
+  const toggleScope = (scope: ApiKeyScope) => {
+    const has = value.scopes.includes(scope);
+    onChange({ ...value, scopes: has ? value.scopes.filter((s) => s !== scope) : [...value.scopes, scope] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-slate-800 dark:text-slate-100">
+        <input
+          type="checkbox"
+          checked={value.fullAccess}
+          onChange={(e) => onChange({ ...value, fullAccess: e.target.checked })}
+          className="rounded border-slate-300 dark:border-white/20"
+        />
+        <span className="font-semibold">Acesso total</span>
+        <span className="text-xs text-slate-500 dark:text-slate-400">(ler e alterar tudo + MCP)</span>
+      </label>
+
+      {!value.fullAccess && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {API_KEY_SCOPE_GROUPS.map((group) => (
+            <div
+              key={group.label}
+              className="rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 p-2.5"
+            >
+              <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1.5">{group.label}</div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {group.scopes.map(({ scope, label }) => (
+                  <label key={scope} className="flex items-center gap-1.5 text-xs text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={value.scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="rounded border-slate-300 dark:border-white/20"
+                    />
+                    {label}
+                    <span className="font-mono text-[10px] text-slate-400">{scope}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="md:col-span-2 text-[11px] text-slate-500 dark:text-slate-400">
+            “Criar/editar” já inclui leitura. Sem um escopo, a API responde 403 <span className="font-mono">AUTH_SCOPE_MISSING</span>.
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">Expira em (opcional)</div>
+          <input
+            type="date"
+            value={value.expiresOn}
+            onChange={(e) => onChange({ ...value, expiresOn: e.target.value })}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+          />
+          <div className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Vazio = não expira.</div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">IPs permitidos (opcional)</div>
+          <textarea
+            value={value.allowedIps}
+            onChange={(e) => onChange({ ...value, allowedIps: e.target.value })}
+            rows={2}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white font-mono text-xs"
+            placeholder={'203.0.113.10\n10.0.0.0/24'}
+          />
+          <div className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Um IP ou rede (CIDR) por linha. Vazio = qualquer IP.</div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">Limite por minuto</div>
+          <input
+            type="number"
+            min={1}
+            max={10000}
+            value={value.rateLimitPerMinute}
+            onChange={(e) => onChange({ ...value, rateLimitPerMinute: e.target.value })}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+          />
+          <div className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+            Acima disso a API responde 429 com <span className="font-mono">Retry-After</span>.
+          </div>
+        </div>
+        <div>
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">Cota diária (opcional)</div>
+          <input
+            type="number"
+            min={1}
+            value={value.dailyQuota}
+            onChange={(e) => onChange({ ...value, dailyQuota: e.target.value })}
+            className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+            placeholder="Sem limite"
+          />
+          <div className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">Requisições por dia (zera à meia-noite UTC).</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+
+import { supabase } from '@/lib/supabase/client';
+
+type UsageRow = {
+  api_key_id: string;
+  day: string;
+  endpoint: string;
+  request_count: number;
+  error_count: number;
+  rate_limited_count: number;
+};
+
+type Totals = { requests: number; errors: number; rateLimited: number };
+
+const PERIODS = [
+  { days: 7, label: '7 dias' },
+  { days: 30, label: '30 dias' },
+] as const;
+
+function utcDay(offsetDays: number) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - offsetDays);
+  return d.toISOString().slice(0, 10);
+}
+
+function add(totals: Totals, row: UsageRow): Totals {
+  return {
+    requests: totals.requests + row.request_count,
+    errors: totals.errors + row.error_count,
+    rateLimited: totals.rateLimited + row.rate_limited_count,
+  };
+}
+
+const EMPTY: Totals = { requests: 0, errors: 0, rateLimited: 0 };
+
+function errorRate(t: Totals) {
+  return t.requests ? `${((t.errors / t.requests) * 100).toFixed(1)}%` : '—';
+}
+
+/**
+ * Componente React `ApiKeyUsagePanel`.
+ * Uso da API pública por chave: requisições por dia, por endpoint e taxa de erro (`api_key_usage_daily`).
+ *
+ * @param {{ keys: Array<{ id: string; name: string }>; }} props - Chaves da organização (para o filtro).
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const ApiKeyUsagePanel: React.FC<{ keys: Array<{ id: string; name: string }> }> = ({ keys }) => {
+  const [keyId, setKeyId] = useState<string>('all');
+  const [days, setDays] = useState<number>(7);
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('api_key_usage_daily')
+        .select('api_key_id,day,endpoint,request_count,error_count,rate_limited_count')
+        .gte('day', utcDay(days - 1))
+        .order('day', { ascending: true })
+        .limit(5000);
+      if (keyId !== 'all') query = query.eq('api_key_id', keyId);
+      const { data, error: qErr } = await query;
+      if (qErr) throw qErr;
+      setRows((data || []) as UsageRow[]);
+    } catch (e: any) {
+      setError(e?.message || 'Erro ao carregar uso');
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [days, keyId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Totals>();
+    for (let i = days - 1; i >= 0; i--) map.set(utcDay(i), EMPTY);
+    for (const row of rows) map.set(row.day, add(map.get(row.day) ?? EMPTY, row));
+    return Array.from(map.entries());
+  }, [rows, days]);
+
+  const byEndpoint = useMemo(() => {
+    const map = new Map<string, Totals>();
+    for (const row of rows) map.set(row.endpoint, add(map.get(row.endpoint) ?? EMPTY, row));
+    return Array.from(map.entries()).sort((a, b) => b[1].requests - a[1].requests);
+  }, [rows]);
+
+  const total = useMemo(() => rows.reduce(add, EMPTY), [rows]);
+  const maxPerDay = Math.max(1, ...byDay.map(([, t]) => t.requests));
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-white/5 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="text-sm font-semibold text-slate-800 dark:text-slate-100 inline-flex items-center gap-2">
+          <BarChart3 className="h-4 w-4" />
+          Uso da API
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={keyId}
+            onChange={(e) => setKeyId(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+          >
+            <option value="all">Todas as chaves</option>
+            {keys.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm"
+          >
+            {PERIODS.map((p) => (
+              <option key={p.days} value={p.days}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void load()}
+            disabled={loading}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-slate-100 dark:hover:bg-white/10 text-slate-800 dark:text-white text-sm font-semibold inline-flex items-center gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Atualizar
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-sm text-rose-600 dark:text-rose-400">{error}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            {[
+              { label: 'Requisições', value: total.requests.toLocaleString('pt-BR') },
+              { label: 'Taxa de erro', value: errorRate(total) },
+              { label: 'Bloqueadas (429)', value: total.rateLimited.toLocaleString('pt-BR') },
+            ].map((card) => (
+              <div key={card.label} className="rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 p-3">
+                <div className="text-[11px] text-slate-500 dark:text-slate-400">{card.label}</div>
+                <div className="text-lg font-semibold text-slate-900 dark:text-white">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">Requisições por dia (UTC)</div>
+          <div className="flex items-end gap-1 h-24 mb-4">
+            {byDay.map(([day, t]) => (
+              <div
+                key={day}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={`${day}: ${t.requests} requisições, ${t.errors} erros, ${t.rateLimited} bloqueadas`}
+              >
+                <div
+                  className="w-full rounded-t bg-primary-500/80"
+                  style={{ height: `${(t.requests / maxPerDay) * 100}%`, minHeight: t.requests ? 2 : 0 }}
+                />
+                <div className="w-full bg-rose-500/80" style={{ height: `${(t.errors / maxPerDay) * 100}%` }} />
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-1">Por endpoint</div>
+          {byEndpoint.length === 0 ? (
+            <div className="text-sm text-slate-600 dark:text-slate-300">
+              {loading ? 'Carregando…' : 'Nenhuma chamada no período.'}
+            </div>
+          ) : (
+            <div className="rounded-lg border border-slate-200 dark:border-white/10 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-white dark:bg-white/5 text-slate-500 dark:text-slate-400">
+                  <tr>
+                    <th className="text-left font-semibold px-3 py-2">Endpoint</th>
+                    <th className="text-right font-semibold px-3 py-2">Requisições</th>
+                    <th className="text-right font-semibold px-3 py-2">Erros</th>
+                    <th className="text-right font-semibold px-3 py-2">% erro</th>
+                    <th className="text-right font-semibold px-3 py-2">429</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-white/10">
+                  {byEndpoint.map(([endpoint, t]) => (
+                    <tr key={endpoint} className="bg-white dark:bg-transparent text-slate-700 dark:text-slate-200">
+                      <td className="px-3 py-2 font-mono">{endpoint}</td>
+                      <td className="px-3 py-2 text-right">{t.requests.toLocaleString('pt-BR')}</td>
+                      <td className="px-3 py-2 text-right">{t.errors.toLocaleString('pt-BR')}</td>
+                      <td className="px-3 py-2 text-right">{errorRate(t)}</td>
+                      <td className="px-3 py-2 text-right">{t.rateLimited.toLocaleString('pt-BR')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
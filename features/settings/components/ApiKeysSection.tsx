@@ -1,17 +1,32 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Key, Copy, ExternalLink, CheckCircle2, Plus, Trash2, ShieldCheck, RefreshCw, TerminalSquare, Play } from 'lucide-react';
+import { Key, Copy, ExternalLink, CheckCircle2, Plus, Trash2, ShieldCheck, RefreshCw, TerminalSquare, Play, SlidersHorizontal } from 'lucide-react';
 
 import ConfirmModal from '@/components/ConfirmModal';
+import { Modal } from '@/components/ui/Modal';
 import { useOptionalToast } from '@/context/ToastContext';
 import { useBoards } from '@/context/boards/BoardsContext';
 import { supabase } from '@/lib/supabase/client';
 
 import { SettingsSection } from './SettingsSection';
+import {
+  ApiKeyPermissionsFields,
+  DEFAULT_API_KEY_PERMISSIONS,
+  describeApiKeyScopes,
+  permissionsDraftFromKey,
+  permissionsDraftToRpc,
+  type ApiKeyPermissionsDraft,
+} from './ApiKeyPermissionsFields';
+import { ApiKeyUsagePanel } from './ApiKeyUsagePanel';
 
 type ApiKeyRow = {
   id: string;
   name: string;
   key_prefix: string;
+  scopes: string[] | null;
+  expires_at: string | null;
+  allowed_ips: string[] | null;
+  rate_limit_per_minute: number | null;
+  daily_quota: number | null;
   created_at: string;
   last_used_at: string | null;
   revoked_at: string | null;
@@ -34,6 +49,10 @@ export const ApiKeysSection: React.FC = () => {
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<ApiKeyRow | null>(null);
   const [newKeyName, setNewKeyName] = useState('n8n');
+  const [newKeyPermissions, setNewKeyPermissions] = useState<ApiKeyPermissionsDraft>(DEFAULT_API_KEY_PERMISSIONS);
+  const [editTarget, setEditTarget] = useState<ApiKeyRow | null>(null);
+  const [editPermissions, setEditPermissions] = useState<ApiKeyPermissionsDraft>(DEFAULT_API_KEY_PERMISSIONS);
+  const [savingPermissions, setSavingPermissions] = useState(false);
   const [createdToken, setCreatedToken] = useState<string | null>(null);
   const [createdPrefix, setCreatedPrefix] = useState<string | null>(null);
   const [apiKeyToken, setApiKeyToken] = useState<string>(''); // token completo (apenas em memória)
@@ -81,7 +100,7 @@ export const ApiKeysSection: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('api_keys')
-        .select('id,name,key_prefix,created_at,last_used_at,revoked_at')
+        .select('id,name,key_prefix,scopes,expires_at,allowed_ips,rate_limit_per_minute,daily_quota,created_at,last_used_at,revoked_at')
         .order('created_at', { ascending: false });
       if (error) throw error;
       setKeys((data || []) as ApiKeyRow[]);
@@ -102,12 +121,19 @@ export const ApiKeysSection: React.FC = () => {
       return;
     }
     const name = newKeyName.trim() || 'Integração';
+    if (!newKeyPermissions.fullAccess && newKeyPermissions.scopes.length === 0) {
+      addToast('Escolha ao menos uma permissão (ou marque “Acesso total”).', 'warning');
+      return;
+    }
     setCreating(true);
     setCreatedToken(null);
     setCreatedPrefix(null);
     setTestResult(null);
     try {
-      const { data, error } = await supabase.rpc('create_api_key', { p_name: name });
+      const { data, error } = await supabase.rpc('create_api_key', {
+        p_name: name,
+        ...permissionsDraftToRpc(newKeyPermissions),
+      });
       if (error) throw error;
       const row = Array.isArray(data) ? data[0] : data;
       const token = row?.token as string | undefined;
@@ -143,6 +169,34 @@ export const ApiKeysSection: React.FC = () => {
     }
   };
 
+  const openEditPermissions = (k: ApiKeyRow) => {
+    setEditTarget(k);
+    setEditPermissions(permissionsDraftFromKey(k));
+  };
+
+  const savePermissions = async () => {
+    if (!supabase || !editTarget) return;
+    if (!editPermissions.fullAccess && editPermissions.scopes.length === 0) {
+      addToast('Escolha ao menos uma permissão (ou marque “Acesso total”).', 'warning');
+      return;
+    }
+    setSavingPermissions(true);
+    try {
+      const { error } = await supabase.rpc('update_api_key', {
+        p_api_key_id: editTarget.id,
+        ...permissionsDraftToRpc(editPermissions),
+      });
+      if (error) throw error;
+      addToast('Permissões atualizadas.', 'success');
+      setEditTarget(null);
+      await loadKeys();
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao salvar permissões', 'error');
+    } finally {
+      setSavingPermissions(false);
+    }
+  };
+
   const deleteRevokedKey = async (id: string) => {
     if (!supabase) {
       addToast('Supabase não configurado neste ambiente.', 'error');
@@ -447,6 +501,11 @@ export const ApiKeysSection: React.FC = () => {
             </button>
           </div>
 
+          <div className="mt-3 rounded-lg border border-slate-200 dark:border-white/10 bg-white/60 dark:bg-black/20 p-3">
+            <div className="text-xs font-semibold text-slate-700 dark:text-slate-200 mb-2">Permissões da nova chave</div>
+            <ApiKeyPermissionsFields value={newKeyPermissions} onChange={setNewKeyPermissions} />
+          </div>
+
           {createdToken && (
             <div className="mt-3 rounded-lg border border-emerald-200 dark:border-emerald-500/30 bg-emerald-50 dark:bg-emerald-500/10 p-3">
               <div className="text-xs font-semibold text-emerald-700 dark:text-emerald-300 mb-2 flex items-center gap-2">
@@ -837,54 +896,116 @@ export const ApiKeysSection: React.FC = () => {
                 Nenhuma chave criada ainda.
               </div>
             ) : (
-              keys.map((k) => (
-                <div key={k.id} className="p-4 bg-white dark:bg-white/5 flex items-center justify-between gap-4">
-                  <div className="min-w-0">
-                    <div className="text-sm font-semibold text-slate-900 dark:text-white truncate">
-                      {k.name}
+              keys.map((k) => {
+                const expired = !!k.expires_at && new Date(k.expires_at).getTime() <= Date.now();
+                return (
+                  <div key={k.id} className="p-4 bg-white dark:bg-white/5 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold text-slate-900 dark:text-white truncate">
+                        {k.name}
+                        {k.revoked_at ? (
+                          <span className="ml-2 text-xs font-semibold text-rose-600 dark:text-rose-400">revogada</span>
+                        ) : expired ? (
+                          <span className="ml-2 text-xs font-semibold text-amber-600 dark:text-amber-400">expirada</span>
+                        ) : (
+                          <span className="ml-2 text-xs font-semibold text-emerald-600 dark:text-emerald-400">ativa</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 font-mono">
+                        {k.key_prefix}…
+                      </div>
+                      <div className="mt-1.5 flex flex-wrap gap-1">
+                        {describeApiKeyScopes(k.scopes).map((scope) => (
+                          <span
+                            key={scope}
+                            className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-white/10 text-[10px] font-mono text-slate-600 dark:text-slate-300"
+                          >
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        Último uso: {k.last_used_at ? new Date(k.last_used_at).toLocaleString('pt-BR') : '—'}
+                        {k.expires_at ? ` · Expira: ${new Date(k.expires_at).toLocaleDateString('pt-BR')}` : ''}
+                        {k.allowed_ips?.length ? ` · IPs: ${k.allowed_ips.join(', ')}` : ''}
+                        {k.rate_limit_per_minute ? ` · ${k.rate_limit_per_minute}/min` : ''}
+                        {k.daily_quota ? ` · ${k.daily_quota.toLocaleString('pt-BR')}/dia` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!k.revoked_at && (
+                        <button
+                          type="button"
+                          onClick={() => openEditPermissions(k)}
+                          className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-slate-100 dark:hover:bg-white/10 text-slate-800 dark:text-white text-sm font-semibold inline-flex items-center gap-2"
+                        >
+                          <SlidersHorizontal className="h-4 w-4" />
+                          Permissões
+                        </button>
+                      )}
                       {k.revoked_at ? (
-                        <span className="ml-2 text-xs font-semibold text-rose-600 dark:text-rose-400">revogada</span>
+                        <button
+                          type="button"
+                          disabled={deletingId === k.id}
+                          onClick={() => openDeleteConfirm(k)}
+                          className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:opacity-60 text-rose-700 dark:text-rose-300 text-sm font-semibold inline-flex items-center gap-2"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          {deletingId === k.id ? 'Excluindo…' : 'Excluir'}
+                        </button>
                       ) : (
-                        <span className="ml-2 text-xs font-semibold text-emerald-600 dark:text-emerald-400">ativa</span>
+                        <button
+                          type="button"
+                          disabled={revokingId === k.id}
+                          onClick={() => revokeKey(k.id)}
+                          className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:opacity-60 text-rose-700 dark:text-rose-300 text-sm font-semibold inline-flex items-center gap-2"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          {revokingId === k.id ? 'Revogando…' : 'Revogar'}
+                        </button>
                       )}
                     </div>
-                    <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 font-mono">
-                      {k.key_prefix}…
-                    </div>
-                    <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-                      Último uso: {k.last_used_at ? new Date(k.last_used_at).toLocaleString('pt-BR') : '—'}
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {k.revoked_at ? (
-                      <button
-                        type="button"
-                        disabled={deletingId === k.id}
-                        onClick={() => openDeleteConfirm(k)}
-                        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:opacity-60 text-rose-700 dark:text-rose-300 text-sm font-semibold inline-flex items-center gap-2"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                        {deletingId === k.id ? 'Excluindo…' : 'Excluir'}
-                      </button>
-                    ) : (
-                      <button
-                        type="button"
-                        disabled={revokingId === k.id}
-                        onClick={() => revokeKey(k.id)}
-                        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-rose-50 dark:hover:bg-rose-500/10 disabled:opacity-60 text-rose-700 dark:text-rose-300 text-sm font-semibold inline-flex items-center gap-2"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                        {revokingId === k.id ? 'Revogando…' : 'Revogar'}
-                      </button>
-                    )}
                   </div>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
         </div>
+
+        <ApiKeyUsagePanel keys={keys} />
       </div>
 
+      <Modal
+        isOpen={!!editTarget}
+        onClose={() => setEditTarget(null)}
+        title={editTarget ? `Permissões — ${editTarget.name}` : 'Permissões'}
+        size="lg"
+      >
+        <div className="space-y-4">
+          <div className="text-xs text-slate-600 dark:text-slate-300">
+            Vale na próxima chamada: integrações usando esta chave passam a receber 403 no que não estiver liberado.
+          </div>
+          <ApiKeyPermissionsFields value={editPermissions} onChange={setEditPermissions} />
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditTarget(null)}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={savePermissions}
+              disabled={savingPermissions}
+              className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-60 text-white text-sm font-semibold"
+            >
+              {savingPermissions ? 'Salvando…' : 'Salvar'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
       <ConfirmModal
         isOpen={deleteConfirmOpen}
         onClose={() => setDeleteConfirmOpen(false)}
@@ -20,7 +20,8 @@ import {
   User,
   Activity,
   Bell,
-  Check
+  Check,
+  KeyRound
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase/client';
 import { useAuth } from '@/context/AuthContext';
@@ -55,7 +56,7 @@ const formatRelative = (dateStr: string, nowTs: number) => {
 
 interface AuditLogEntry {
   id: string;
-  user_id: string;
+  user_id: string | null;
   action: string;
   resource_type: string;
   resource_id: string | null;
@@ -64,10 +65,19 @@ interface AuditLogEntry {
   user_agent: string | null;
   severity: 'info' | 'warning' | 'critical';
   created_at: string;
+  // Chamadas feitas com API key (API pública / MCP)
+  api_key_id: string | null;
+  api_key_prefix: string | null;
   // Joined data
   user_email?: string;
 }
 
+interface ApiKeyOption {
+  id: string;
+  name: string;
+  key_prefix: string;
+}
+
 interface SecurityAlert {
   id: string;
   alert_type: string;
@@ -115,6 +125,8 @@ const ACTION_LABELS: Record<string, string> = {
   PASSWORD_CHANGE: 'Alteração de Senha',
   USER_CREATED: 'Usuário Criado',
   USER_DELETED: 'Usuário Excluído',
+  API_KEY_REQUEST: 'Chamada da API (chave)',
+  MCP_TOOL_CALL: 'Tool MCP',
 };
 
 /**
@@ -134,6 +146,9 @@ export const AuditLogDashboard: React.FC = () => {
   const [severityFilter, setSeverityFilter] = useState<string>('all');
   const [actionFilter, setActionFilter] = useState<string>('all');
   const [timeFilter, setTimeFilter] = useState<string>('7d');
+  // 'all' | 'any_key' (qualquer chamada com API key) | id da key
+  const [keyFilter, setKeyFilter] = useState<string>('all');
+  const [apiKeys, setApiKeys] = useState<ApiKeyOption[]>([]);
 
   // Stats
   const [stats, setStats] = useState({
@@ -185,6 +200,17 @@ export const AuditLogDashboard: React.FC = () => {
         .order('created_at', { ascending: false })
         .limit(100);
 
+      // Logs antigos (log_audit_event) não têm organização; os de API key sempre têm.
+      if (profile?.organization_id) {
+        query = query.or(`organization_id.eq.${profile.organization_id},organization_id.is.null`);
+      }
+
+      if (keyFilter === 'any_key') {
+        query = query.not('api_key_id', 'is', null);
+      } else if (keyFilter !== 'all') {
+        query = query.eq('api_key_id', keyFilter);
+      }
+
       if (severityFilter !== 'all') {
         query = query.eq('severity', severityFilter);
       }
@@ -221,7 +247,19 @@ export const AuditLogDashboard: React.FC = () => {
 
   useEffect(() => {
     fetchLogs();
-  }, [severityFilter, actionFilter, timeFilter, isAdmin]);
+  }, [severityFilter, actionFilter, timeFilter, keyFilter, isAdmin]);
+
+  // Chaves de API da organização (inclui revogadas: o histórico continua filtrável).
+  useEffect(() => {
+    if (!isAdmin || !sb) return;
+    sb
+      .from('api_keys')
+      .select('id, name, key_prefix')
+      .order('created_at', { ascending: false })
+      .then(({ data }) => setApiKeys((data as ApiKeyOption[]) || []));
+  }, [isAdmin, sb]);
+
+  const apiKeyNames = new Map(apiKeys.map((k) => [k.id, k.name]));
 
   if (!isAdmin) {
     return (
@@ -345,6 +383,22 @@ export const AuditLogDashboard: React.FC = () => {
             <option value="DATA_EXPORT">Exportação</option>
             <option value="DATA_DELETION">Exclusão</option>
             <option value="REVOKE_AI_CONSENT">Revogação IA</option>
+            <option value="API_KEY_REQUEST">API pública</option>
+            <option value="MCP_TOOL_CALL">Tools MCP</option>
+          </select>
+
+          <select
+            value={keyFilter}
+            onChange={(e) => setKeyFilter(e.target.value)}
+            className="px-3 py-1.5 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-700 dark:text-slate-300 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="all">Todas as Origens</option>
+            <option value="any_key">Qualquer chave de API</option>
+            {apiKeys.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.name} ({k.key_prefix}…)
+              </option>
+            ))}
           </select>
 
           <select
@@ -414,10 +468,17 @@ export const AuditLogDashboard: React.FC = () => {
                           <Clock className="w-3.5 h-3.5" />
                           {formatRelative(log.created_at, nowTs)}
                         </span>
-                        <span className="flex items-center gap-1">
-                          <User className="w-3.5 h-3.5" />
-                          {log.user_id.slice(0, 8)}...
-                        </span>
+                        {log.api_key_prefix ? (
+                          <span className="flex items-center gap-1">
+                            <KeyRound className="w-3.5 h-3.5" />
+                            {(log.api_key_id && apiKeyNames.get(log.api_key_id)) || 'Chave'} ({log.api_key_prefix}…)
+                          </span>
+                        ) : log.user_id ? (
+                          <span className="flex items-center gap-1">
+                            <User className="w-3.5 h-3.5" />
+                            {log.user_id.slice(0, 8)}...
+                          </span>
+                        ) : null}
                         {log.resource_type && (
                           <span className="text-slate-400">
                             {log.resource_type}
@@ -436,12 +497,23 @@ export const AuditLogDashboard: React.FC = () => {
                                 {formatDate(log.created_at)}
                               </p>
                             </div>
-                            <div>
-                              <span className="text-slate-500 dark:text-slate-400">User ID:</span>
-                              <p className="text-slate-700 dark:text-slate-300 font-mono text-xs">
-                                {log.user_id}
-                              </p>
-                            </div>
+                            {log.user_id && (
+                              <div>
+                                <span className="text-slate-500 dark:text-slate-400">User ID:</span>
+                                <p className="text-slate-700 dark:text-slate-300 font-mono text-xs">
+                                  {log.user_id}
+                                </p>
+                              </div>
+                            )}
+                            {log.api_key_prefix && (
+                              <div>
+                                <span className="text-slate-500 dark:text-slate-400">Chave de API:</span>
+                                <p className="text-slate-700 dark:text-slate-300 font-mono text-xs">
+                                  {log.api_key_prefix}…
+                                  {log.api_key_id && apiKeyNames.get(log.api_key_id) && ` (${apiKeyNames.get(log.api_key_id)})`}
+                                </p>
+                              </div>
+                            )}
                             {log.ip_address && (
                               <div>
                                 <span className="text-slate-500 dark:text-slate-400">IP:</span>
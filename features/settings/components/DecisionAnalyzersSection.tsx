@@ -0,0 +1,533 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Eye, Loader2, Pencil, RotateCcw, Save, ToggleLeft, ToggleRight, Workflow } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import { Modal } from '@/components/ui/Modal';
+import { useBoards } from '@/lib/query/hooks/useBoardsQuery';
+import type { AnalyzerConfig, Decision } from '@/features/decisions/types';
+import {
+  ANALYZER_PARAM_LABELS,
+  resolveAnalyzerConfig,
+  type AnalyzerOverride,
+} from '@/lib/decisions/analyzerSettings';
+
+type AnalyzerInfo = { id: string; name: string; description: string; config: AnalyzerConfig };
+
+type SettingsPayload = {
+  isAdmin: boolean;
+  analyzers: AnalyzerInfo[];
+  settings: AnalyzerOverride[];
+};
+
+type PreviewPayload = {
+  enabled: boolean;
+  decisions: Decision[];
+  alreadyQueued: number;
+  itemsAnalyzed: number;
+  errors?: string[];
+};
+
+type Draft = {
+  enabled: boolean;
+  params: Record<string, string>;
+  maxDecisionsPerRun: string;
+  cooldownDays: string;
+};
+
+const PRIORITY_LABELS: Record<Decision['priority'], string> = {
+  critical: 'Crítica',
+  high: 'Alta',
+  medium: 'Média',
+  low: 'Baixa',
+};
+
+const inputClass =
+  'w-full px-3 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+function toDraft(config: AnalyzerConfig): Draft {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.params)) {
+    params[key] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return {
+    enabled: config.enabled,
+    params,
+    maxDecisionsPerRun: String(config.maxDecisionsPerRun),
+    cooldownDays: String(config.cooldownDays ?? 0),
+  };
+}
+
+/**
+ * Monta o payload da regra só com o que difere do escopo acima (código ou padrão da organização),
+ * para que mudanças futuras no escopo acima continuem valendo.
+ */
+function fromDraft(
+  draft: Draft,
+  inherited: AnalyzerConfig,
+  analyzerId: string,
+  boardId: string | null
+): AnalyzerOverride | string {
+  const params: Record<string, unknown> = {};
+
+  for (const [key, fallback] of Object.entries(inherited.params)) {
+    const raw = (draft.params[key] ?? '').trim();
+    let value: unknown;
+    if (typeof fallback === 'number') {
+      value = Number(raw.replace(',', '.'));
+      if (!raw || !Number.isFinite(value as number) || (value as number) < 0) {
+        return `${ANALYZER_PARAM_LABELS[key] ?? key}: informe um número maior ou igual a zero`;
+      }
+    } else if (typeof fallback === 'boolean') {
+      value = raw === 'true';
+    } else if (Array.isArray(fallback)) {
+      value = raw.split(',').map((v) => v.trim()).filter(Boolean);
+    } else {
+      continue;
+    }
+    if (JSON.stringify(value) !== JSON.stringify(fallback)) params[key] = value;
+  }
+
+  const maxDecisionsPerRun = Number(draft.maxDecisionsPerRun);
+  const cooldownDays = Number(draft.cooldownDays);
+  if (!Number.isInteger(maxDecisionsPerRun) || maxDecisionsPerRun < 1 || maxDecisionsPerRun > 100) {
+    return 'Máximo de decisões por análise: informe um inteiro entre 1 e 100';
+  }
+  if (!Number.isInteger(cooldownDays) || cooldownDays < 0 || cooldownDays > 365) {
+    return 'Cooldown: informe um inteiro entre 0 e 365 dias';
+  }
+
+  return {
+    analyzerId,
+    boardId,
+    enabled: draft.enabled,
+    params,
+    maxDecisionsPerRun: maxDecisionsPerRun === inherited.maxDecisionsPerRun ? null : maxDecisionsPerRun,
+    cooldownDays: cooldownDays === (inherited.cooldownDays ?? 0) ? null : cooldownDays,
+  };
+}
+
+/**
+ * Componente React `DecisionAnalyzersSection`.
+ * Regras dos analyzers da Central de Decisões (ligar/desligar e parâmetros) por organização ou board,
+ * com pré-visualização das decisões que a regra geraria. Admin-only.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const DecisionAnalyzersSection: React.FC = () => {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const { showToast } = useToast();
+  const { data: boards = [] } = useBoards();
+
+  const [data, setData] = useState<SettingsPayload | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<AnalyzerInfo | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<PreviewPayload | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/settings/decision-analyzers', { headers: { accept: 'application/json' } });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || `Falha ao carregar regras (HTTP ${res.status})`);
+      setData(body as SettingsPayload);
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao carregar regras', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [showToast]);
+
+  useEffect(() => {
+    if (isAdmin) void load();
+  }, [isAdmin, load]);
+
+  const settings = useMemo(() => data?.settings ?? [], [data]);
+
+  const overrideFor = (analyzerId: string) =>
+    settings.find((s) => s.analyzerId === analyzerId && s.boardId === boardId);
+
+  /** Config que vale no escopo sem a regra dele (código + padrão da organização, se for board). */
+  const inheritedFor = (analyzer: AnalyzerInfo) =>
+    resolveAnalyzerConfig(
+      analyzer.config,
+      settings.filter((s) => !(s.analyzerId === analyzer.id && s.boardId === boardId)),
+      boardId
+    );
+
+  const effectiveFor = (analyzer: AnalyzerInfo) => resolveAnalyzerConfig(analyzer.config, settings, boardId);
+
+  const save = async (setting: AnalyzerOverride) => {
+    const res = await fetch('/api/settings/decision-analyzers', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json' },
+      body: JSON.stringify(setting),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Falha ao salvar (HTTP ${res.status})`);
+  };
+
+  const toggle = async (analyzer: AnalyzerInfo) => {
+    const current = overrideFor(analyzer.id);
+    const enabled = !effectiveFor(analyzer).enabled;
+    setSavingId(analyzer.id);
+    try {
+      await save({
+        analyzerId: analyzer.id,
+        boardId,
+        enabled,
+        params: current?.params ?? {},
+        maxDecisionsPerRun: current?.maxDecisionsPerRun ?? null,
+        cooldownDays: current?.cooldownDays ?? null,
+      });
+      showToast(enabled ? 'Analyzer ativado' : 'Analyzer desativado', 'success');
+      await load();
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao salvar', 'error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const openEditor = (analyzer: AnalyzerInfo) => {
+    setEditing(analyzer);
+    setDraft(toDraft(effectiveFor(analyzer)));
+    setPreview(null);
+  };
+
+  const closeEditor = () => {
+    if (saving) return;
+    setEditing(null);
+    setDraft(null);
+    setPreview(null);
+  };
+
+  const buildSetting = (): AnalyzerOverride | null => {
+    if (!editing || !draft) return null;
+    const setting = fromDraft(draft, inheritedFor(editing), editing.id, boardId);
+    if (typeof setting === 'string') {
+      showToast(setting, 'error');
+      return null;
+    }
+    return setting;
+  };
+
+  const runPreview = async () => {
+    const setting = buildSetting();
+    if (!setting) return;
+    setPreviewing(true);
+    try {
+      const res = await fetch('/api/settings/decision-analyzers/preview', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', accept: 'application/json' },
+        body: JSON.stringify(setting),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || `Falha na pré-visualização (HTTP ${res.status})`);
+      setPreview(body as PreviewPayload);
+    } catch (e: any) {
+      showToast(e?.message || 'Falha na pré-visualização', 'error');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    const setting = buildSetting();
+    if (!setting) return;
+    setSaving(true);
+    try {
+      await save(setting);
+      showToast('Regra salva', 'success');
+      await load();
+      setEditing(null);
+      setDraft(null);
+      setPreview(null);
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao salvar', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetOverride = async (analyzer: AnalyzerInfo) => {
+    setSaving(true);
+    try {
+      const qs = new URLSearchParams({ analyzerId: analyzer.id });
+      if (boardId) qs.set('boardId', boardId);
+      const res = await fetch(`/api/settings/decision-analyzers?${qs.toString()}`, {
+        method: 'DELETE',
+        headers: { accept: 'application/json' },
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(body?.error || `Falha ao restaurar (HTTP ${res.status})`);
+      showToast('Regra restaurada (voltou ao padrão)', 'success');
+      await load();
+      setEditing(null);
+      setDraft(null);
+      setPreview(null);
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao restaurar', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  const scopeLabel = boardId ? boards.find((b) => b.id === boardId)?.name || 'Board' : 'Padrão da organização';
+
+  return (
+    <div id="decision-analyzers" className="mb-12 scroll-mt-8">
+      <div className="bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1 flex items-center gap-2">
+              <Workflow className="h-5 w-5" /> Regras da Central de Decisões
+            </h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Ligue/desligue cada analyzer e ajuste os parâmetros. Regras de um board valem só para os deals dele; os
+              demais seguem o padrão da organização.
+            </p>
+          </div>
+          <select
+            aria-label="Escopo das regras"
+            value={boardId ?? ''}
+            onChange={(e) => setBoardId(e.target.value || null)}
+            className="max-w-[240px] px-3 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500 shrink-0"
+          >
+            <option value="">Padrão da organização</option>
+            {boards.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-6 border-t border-slate-200 dark:border-white/10 pt-4">
+          {loading && !data ? (
+            <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+              <Loader2 className="h-4 w-4 animate-spin" /> Carregando regras...
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {(data?.analyzers ?? []).map((analyzer) => {
+                const enabled = effectiveFor(analyzer).enabled;
+                const custom = Boolean(overrideFor(analyzer.id));
+                const priorityOffset = overrideFor(analyzer.id)?.priorityOffset;
+                const busy = savingId === analyzer.id;
+                return (
+                  <div
+                    key={analyzer.id}
+                    className="flex items-center justify-between gap-3 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50/60 dark:bg-white/3 px-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-semibold text-slate-900 dark:text-white truncate flex items-center gap-2">
+                        {analyzer.name}
+                        {custom ? (
+                          <span className="text-[10px] uppercase tracking-wide font-bold px-1.5 py-0.5 rounded bg-primary-500/10 text-primary-700 dark:text-primary-300">
+                            Personalizado
+                          </span>
+                        ) : null}
+                        {priorityOffset ? (
+                          <span
+                            className="text-[10px] uppercase tracking-wide font-bold px-1.5 py-0.5 rounded bg-slate-500/10 text-slate-600 dark:text-slate-300"
+                            title="Ajuste de prioridade aplicado pelo relatório da Central de Decisões"
+                          >
+                            Prioridade {priorityOffset > 0 ? `+${priorityOffset}` : priorityOffset}
+                          </span>
+                        ) : null}
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 truncate">{analyzer.description}</div>
+                    </div>
+
+                    <div className="flex items-center gap-2 shrink-0">
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin text-slate-400" /> : null}
+                      <button
+                        type="button"
+                        onClick={() => openEditor(analyzer)}
+                        disabled={busy}
+                        className="px-2 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-slate-100 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Editar regra"
+                        aria-label={`Editar regra de ${analyzer.name}`}
+                      >
+                        <Pencil className="h-4 w-4 text-slate-600 dark:text-slate-300" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void toggle(analyzer)}
+                        disabled={busy}
+                        className="px-2 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 hover:bg-slate-100 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={enabled ? 'Desativar' : 'Ativar'}
+                        aria-label={enabled ? `Desativar ${analyzer.name}` : `Ativar ${analyzer.name}`}
+                      >
+                        {enabled ? (
+                          <ToggleRight className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ToggleLeft className="h-4 w-4 text-red-500" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Modal
+        isOpen={Boolean(editing && draft)}
+        onClose={closeEditor}
+        title={editing ? `${editing.name} · ${scopeLabel}` : 'Regra'}
+        size="xl"
+        bodyClassName="space-y-4"
+      >
+        {editing && draft ? (
+          <>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-800 dark:text-slate-100">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              />
+              Analyzer ativo neste escopo
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {Object.entries(editing.config.params).map(([key, fallback]) => {
+                const label = ANALYZER_PARAM_LABELS[key] ?? key;
+                if (typeof fallback === 'boolean') {
+                  return (
+                    <label key={key} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                      <input
+                        type="checkbox"
+                        checked={draft.params[key] === 'true'}
+                        onChange={(e) => setDraft({ ...draft, params: { ...draft.params, [key]: String(e.target.checked) } })}
+                      />
+                      {label}
+                    </label>
+                  );
+                }
+                return (
+                  <label key={key} className="block">
+                    <span className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">
+                      {label}
+                      {Array.isArray(fallback) ? ' (separados por vírgula)' : ''}
+                    </span>
+                    <input
+                      type={typeof fallback === 'number' ? 'number' : 'text'}
+                      min={typeof fallback === 'number' ? 0 : undefined}
+                      value={draft.params[key] ?? ''}
+                      onChange={(e) => setDraft({ ...draft, params: { ...draft.params, [key]: e.target.value } })}
+                      className={inputClass}
+                    />
+                  </label>
+                );
+              })}
+
+              <label className="block">
+                <span className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">
+                  Máximo de decisões por análise
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={draft.maxDecisionsPerRun}
+                  onChange={(e) => setDraft({ ...draft, maxDecisionsPerRun: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1">
+                  Cooldown após aprovar/rejeitar (dias)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={draft.cooldownDays}
+                  onChange={(e) => setDraft({ ...draft, cooldownDays: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            {preview ? (
+              <div className="rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-white/5 p-4 space-y-2">
+                {!preview.enabled ? (
+                  <p className="text-sm text-slate-600 dark:text-slate-300">
+                    Com o analyzer desativado, nenhuma decisão é gerada neste escopo.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm text-slate-700 dark:text-slate-200">
+                      {preview.itemsAnalyzed} itens analisados · <strong>{preview.decisions.length}</strong> decisões novas
+                      {preview.alreadyQueued > 0 ? ` · ${preview.alreadyQueued} já na fila ou em cooldown` : ''}
+                    </p>
+                    {preview.errors?.length ? (
+                      <p className="text-xs text-red-600 dark:text-red-400">{preview.errors.join(' · ')}</p>
+                    ) : null}
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-slate-200 dark:divide-white/10">
+                      {preview.decisions.map((d) => (
+                        <li key={d.id} className="py-2">
+                          <div className="text-sm font-medium text-slate-900 dark:text-white">
+                            <span className="text-xs text-slate-500 dark:text-slate-400 mr-2">{PRIORITY_LABELS[d.priority]}</span>
+                            {d.title}
+                          </div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">{d.description}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            ) : null}
+
+            <div className="flex items-center justify-between gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => void resetOverride(editing)}
+                disabled={saving || !overrideFor(editing.id)}
+                className="px-4 py-2 rounded-lg text-sm font-medium inline-flex items-center gap-2 border border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 disabled:text-slate-400 disabled:cursor-not-allowed"
+              >
+                <RotateCcw size={16} />
+                Restaurar padrão
+              </button>
+
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => void runPreview()}
+                  disabled={saving || previewing}
+                  className="px-4 py-2 rounded-lg text-sm font-medium inline-flex items-center gap-2 border border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 disabled:opacity-60"
+                >
+                  {previewing ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+                  Pré-visualizar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void saveDraft()}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-white inline-flex items-center gap-2 bg-primary-600 hover:bg-primary-700 disabled:bg-slate-300 dark:disabled:bg-white/10 disabled:cursor-not-allowed"
+                >
+                  {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                  Salvar
+                </button>
+              </div>
+            </div>
+          </>
+        ) : null}
+      </Modal>
+    </div>
+  );
+};
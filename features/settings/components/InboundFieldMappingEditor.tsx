@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2, ArrowRight } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { supabase } from '@/lib/supabase/client';
+import { useToast } from '@/context/ToastContext';
+import { cn } from '@/lib/utils/cn';
+import {
+  INBOUND_CUSTOM_FIELD_PREFIX,
+  INBOUND_MAPPING_TRANSFORMS,
+  applyInboundFieldMapping,
+  normalizeInboundFieldMapping,
+  type InboundFieldMappingRule,
+  type InboundMappingTransform,
+} from '@/supabase/functions/webhook-in/fieldMapping';
+
+type EditableRule = {
+  target: string;
+  source: string;
+  value: string;
+  transforms: InboundMappingTransform[];
+};
+
+const CORE_TARGET_LABELS: Array<{ value: string; label: string }> = [
+  { value: 'contact_name', label: 'Contato · nome' },
+  { value: 'email', label: 'Contato · e-mail' },
+  { value: 'phone', label: 'Contato · telefone' },
+  { value: 'company_name', label: 'Empresa · nome' },
+  { value: 'source', label: 'Contato · origem' },
+  { value: 'notes', label: 'Contato · observações' },
+  { value: 'deal_title', label: 'Negócio · título' },
+  { value: 'deal_value', label: 'Negócio · valor' },
+  { value: 'tags', label: 'Negócio · tags' },
+  { value: 'external_event_id', label: 'ID do evento (dedupe)' },
+];
+
+const TRANSFORM_LABELS: Record<InboundMappingTransform, string> = {
+  trim: 'aparar',
+  lowercase: 'minúsculas',
+  uppercase: 'MAIÚSCULAS',
+  digits: 'só dígitos',
+  number: 'número',
+  split: 'separar por vírgula',
+  first: 'primeiro item',
+};
+
+const FIELD_CLASS =
+  'w-full px-3 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const SAMPLE_PLACEHOLDER = `{
+  "data": {
+    "buyer": { "name": "Maria", "email": "maria@exemplo.com" },
+    "product": { "name": "Curso X" }
+  }
+}`;
+
+function toEditable(rule: InboundFieldMappingRule): EditableRule {
+  return {
+    target: rule.target,
+    source: rule.source || '',
+    value: rule.value === undefined || rule.value === null ? '' : String(rule.value),
+    transforms: rule.transforms || [],
+  };
+}
+
+/** Converte as linhas em regras válidas, lembrando de qual linha veio cada regra (para mostrar erros). */
+function toRules(rows: EditableRule[]): { rules: InboundFieldMappingRule[]; rowIndexes: number[] } {
+  const rules: InboundFieldMappingRule[] = [];
+  const rowIndexes: number[] = [];
+  rows.forEach((r, index) => {
+    const [rule] = normalizeInboundFieldMapping([
+      { target: r.target, source: r.source, value: r.value === '' ? undefined : r.value, transforms: r.transforms },
+    ]);
+    if (!rule) return;
+    rules.push(rule);
+    rowIndexes.push(index);
+  });
+  return { rules, rowIndexes };
+}
+
+/**
+ * Componente React `InboundFieldMappingEditor`.
+ * Edita as regras de `integration_inbound_sources.field_mapping` e testa contra um payload de exemplo.
+ *
+ * @param {{ isOpen: boolean; onClose: () => void; sourceId: string; organizationId: string; initialRules: unknown; onSaved: (rules: InboundFieldMappingRule[]) => void; }} props - Fonte inbound editada.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const InboundFieldMappingEditor: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  sourceId: string;
+  organizationId: string;
+  initialRules: unknown;
+  onSaved: (rules: InboundFieldMappingRule[]) => void;
+}> = ({ isOpen, onClose, sourceId, organizationId, initialRules, onSaved }) => {
+  const { addToast } = useToast();
+
+  const [rows, setRows] = useState<EditableRule[]>([]);
+  const [customFieldKeys, setCustomFieldKeys] = useState<Array<{ key: string; label: string }>>([]);
+  const [sample, setSample] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setRows(normalizeInboundFieldMapping(initialRules).map(toEditable));
+
+    (async () => {
+      const [{ data: defs }, { data: lastEvent }] = await Promise.all([
+        supabase
+          .from('custom_field_definitions')
+          .select('key,label')
+          .eq('organization_id', organizationId)
+          .eq('entity_type', 'deal')
+          .order('label'),
+        supabase
+          .from('webhook_events_in')
+          .select('payload')
+          .eq('organization_id', organizationId)
+          .eq('source_id', sourceId)
+          .order('received_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+      setCustomFieldKeys((defs as any) || []);
+      setSample(lastEvent?.payload ? JSON.stringify(lastEvent.payload, null, 2) : '');
+    })();
+  }, [isOpen, sourceId, organizationId, initialRules]);
+
+  const preview = useMemo(() => {
+    if (!sample.trim()) return null;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(sample);
+    } catch {
+      return { invalidJson: true as const };
+    }
+    const { rules, rowIndexes } = toRules(rows);
+    const result = applyInboundFieldMapping(parsed, rules);
+    const errorsByRow = new Map<number, string[]>();
+    for (const e of result.errors) {
+      const row = rowIndexes[e.index];
+      errorsByRow.set(row, [...(errorsByRow.get(row) || []), e.message]);
+    }
+    return { invalidJson: false as const, result, errorsByRow };
+  }, [sample, rows]);
+
+  function updateRow(index: number, patch: Partial<EditableRule>) {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function toggleTransform(index: number, t: InboundMappingTransform) {
+    const current = rows[index]?.transforms || [];
+    updateRow(index, { transforms: current.includes(t) ? current.filter((x) => x !== t) : [...current, t] });
+  }
+
+  async function handleSave() {
+    const { rules } = toRules(rows);
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('integration_inbound_sources')
+        .update({ field_mapping: rules })
+        .eq('id', sourceId);
+      if (error) throw error;
+      addToast('Mapeamento salvo.', 'success');
+      onSaved(rules);
+      onClose();
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao salvar mapeamento', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const targetOptions = [
+    ...CORE_TARGET_LABELS,
+    ...customFieldKeys.map((f) => ({ value: `${INBOUND_CUSTOM_FIELD_PREFIX}${f.key}`, label: `Campo personalizado · ${f.label}` })),
+  ];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Mapeamento de campos" size="xl" bodyClassName="max-h-[75vh] overflow-auto">
+      <div className="space-y-5">
+        <div className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed">
+          Diga onde cada informação está no JSON que sua ferramenta envia. Ex.: <code className="font-mono">$.data.buyer.email</code>,{' '}
+          <code className="font-mono">items[0].name</code>, <code className="font-mono">tags[*]</code>. Campos sem regra continuam usando os
+          nomes padrão (<code className="font-mono">email</code>, <code className="font-mono">deal_title</code>...).
+        </div>
+
+        <div className="space-y-3">
+          {rows.map((row, index) => (
+            <div
+              key={index}
+              className="p-3 rounded-xl bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 space-y-2"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                <select value={row.target} onChange={(e) => updateRow(index, { target: e.target.value })} className={FIELD_CLASS}>
+                  {targetOptions.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                  {!targetOptions.some((t) => t.value === row.target) ? <option value={row.target}>{row.target}</option> : null}
+                </select>
+                <input
+                  value={row.source}
+                  onChange={(e) => updateRow(index, { source: e.target.value })}
+                  placeholder="Caminho no JSON (ex.: $.data.buyer.email)"
+                  className={cn(FIELD_CLASS, 'font-mono')}
+                />
+                <input
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  placeholder="Valor fixo / padrão (opcional)"
+                  className={FIELD_CLASS}
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  className="inline-flex items-center justify-center px-2 py-2 rounded-lg text-red-600 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                  aria-label="Remover regra"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {INBOUND_MAPPING_TRANSFORMS.map((t) => (
+                  <button
+                    key={t}
+                    type="button"
+                    onClick={() => toggleTransform(index, t)}
+                    className={cn(
+                      'px-2 py-0.5 rounded-full text-[11px] font-semibold border transition-colors',
+                      row.transforms.includes(t)
+                        ? 'bg-primary-600 border-primary-600 text-white'
+                        : 'bg-white dark:bg-white/5 border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300'
+                    )}
+                  >
+                    {TRANSFORM_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+              {preview && !preview.invalidJson
+                ? (preview.errorsByRow.get(index) || []).map((message) => (
+                    <div key={message} className="text-xs text-red-600 dark:text-red-300">
+                      {message}
+                    </div>
+                  ))
+                : null}
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => setRows((prev) => [...prev, { target: 'email', source: '', value: '', transforms: [] }])}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Adicionar regra
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <div className="text-xs font-bold text-slate-600 dark:text-slate-300">Payload de exemplo</div>
+            <textarea
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              placeholder={SAMPLE_PLACEHOLDER}
+              rows={12}
+              className={cn(FIELD_CLASS, 'font-mono text-[11px]')}
+            />
+            <div className="text-[11px] text-slate-500 dark:text-slate-400">
+              Preenchido com o último envio recebido, quando existir. Cole aqui um JSON real da sua ferramenta.
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs font-bold text-slate-600 dark:text-slate-300">Resultado</div>
+            <pre className="p-3 min-h-[12rem] rounded-xl bg-slate-50 dark:bg-black/30 border border-slate-200 dark:border-white/10 text-[11px] font-mono whitespace-pre-wrap break-all">
+              {!preview
+                ? 'Cole um payload para testar.'
+                : preview.invalidJson
+                  ? 'JSON inválido.'
+                  : JSON.stringify(
+                      {
+                        ...preview.result.fields,
+                        tags: preview.result.tags,
+                        custom_fields: preview.result.customFields,
+                      },
+                      null,
+                      2
+                    )}
+            </pre>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+          >
+            Salvar mapeamento
+            <ArrowRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { ArrowRight, Copy, Check } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { supabase } from '@/lib/supabase/client';
+import { useToast } from '@/context/ToastContext';
+import { cn } from '@/lib/utils/cn';
+import { INBOUND_PROVIDERS, isInboundProvider, type InboundProvider } from '@/supabase/functions/webhook-in/providers';
+
+const PROVIDER_INFO: Record<
+  InboundProvider,
+  { label: string; secretLabel: string | null; secretHint: string; steps: string[] }
+> = {
+  generic: {
+    label: 'Genérico (n8n, Make, formulários)',
+    secretLabel: null,
+    secretHint: '',
+    steps: [
+      'Envie um POST JSON para a URL com o header X-Webhook-Secret.',
+      'Use os nomes padrão (name, email, phone, deal_title...) ou configure o mapeamento de campos.',
+    ],
+  },
+  hotmart: {
+    label: 'Hotmart',
+    secretLabel: 'Hottok',
+    secretHint: 'Hotmart → Ferramentas → Webhook (API e notificações) → copie o Hottok da conta.',
+    steps: [
+      'Na Hotmart, crie um webhook (versão 2.0.0) apontando para a URL abaixo.',
+      'Marque os eventos de compra aprovada/completa, carrinho abandonado, reembolso, chargeback e cancelamento.',
+      'Compra aprovada marca o negócio como ganho; reembolso/chargeback marca como perdido.',
+    ],
+  },
+  kiwify: {
+    label: 'Kiwify',
+    secretLabel: 'Token do webhook',
+    secretHint: 'Kiwify → Apps → Webhooks → o token aparece ao criar o webhook.',
+    steps: [
+      'Na Kiwify, crie um webhook com a URL abaixo e selecione os produtos.',
+      'Marque compra aprovada, carrinho abandonado, reembolso e chargeback.',
+      'A Kiwify assina cada envio (?signature=) com o token; nós validamos essa assinatura.',
+    ],
+  },
+  eduzz: {
+    label: 'Eduzz',
+    secretLabel: 'Chave secreta (Developer Hub)',
+    secretHint: 'Eduzz → Developer Hub → Webhooks → chave usada na assinatura X-Signature.',
+    steps: [
+      'No Developer Hub da Eduzz, cadastre a URL abaixo como webhook.',
+      'Assine os eventos de fatura paga, cancelada/reembolsada e carrinho abandonado.',
+    ],
+  },
+  rdstation: {
+    label: 'RD Station Marketing',
+    secretLabel: null,
+    secretHint: '',
+    steps: [
+      'No RD Station, vá em Integrações → Webhooks e crie um webhook de conversão ou oportunidade.',
+      'Use a URL com ?token= (abaixo): o RD Station não permite headers personalizados. O token na URL só é aceito com este preset.',
+      'Leads marcados como oportunidade chegam com a tag "Oportunidade".',
+    ],
+  },
+};
+
+const FIELD_CLASS =
+  'w-full px-3 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/** URL que a plataforma deve chamar (RD Station precisa do secret na query). */
+function buildProviderUrl(provider: InboundProvider, webhookUrl: string, secret: string) {
+  return provider === 'rdstation' ? `${webhookUrl}?token=${encodeURIComponent(secret)}` : webhookUrl;
+}
+
+/**
+ * Componente React `InboundProviderSettings`.
+ * Escolhe o preset de provedor da fonte inbound e guarda o segredo do lado da plataforma.
+ *
+ * @param {{ isOpen: boolean; onClose: () => void; sourceId: string; webhookUrl: string; secret: string; provider: string; providerSecret: string | null; onSaved: (provider: InboundProvider, providerSecret: string | null) => void; }} props - Fonte inbound editada.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const InboundProviderSettings: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  sourceId: string;
+  webhookUrl: string;
+  secret: string;
+  provider: string;
+  providerSecret: string | null;
+  onSaved: (provider: InboundProvider, providerSecret: string | null) => void;
+}> = ({ isOpen, onClose, sourceId, webhookUrl, secret, provider, providerSecret, onSaved }) => {
+  const { addToast } = useToast();
+
+  const [selected, setSelected] = useState<InboundProvider>('generic');
+  const [secretDraft, setSecretDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setSelected(isInboundProvider(provider) ? provider : 'generic');
+    setSecretDraft(providerSecret || '');
+    setCopied(false);
+  }, [isOpen, provider, providerSecret]);
+
+  const info = PROVIDER_INFO[selected];
+  const providerUrl = buildProviderUrl(selected, webhookUrl, secret);
+  const needsSecret = !!info.secretLabel;
+
+  async function copyUrl() {
+    try {
+      await navigator.clipboard.writeText(providerUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1200);
+    } catch {
+      addToast('Não foi possível copiar.', 'error');
+    }
+  }
+
+  async function handleSave() {
+    const nextSecret = needsSecret ? secretDraft.trim() || null : null;
+    if (needsSecret && !nextSecret) {
+      addToast(`Informe o ${info.secretLabel} para validar os envios da ${info.label}.`, 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('integration_inbound_sources')
+        .update({ provider: selected, provider_secret: nextSecret, updated_at: new Date().toISOString() })
+        .eq('id', sourceId);
+      if (error) throw error;
+      addToast('Provedor salvo.', 'success');
+      onSaved(selected, nextSecret);
+      onClose();
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao salvar provedor', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Provedor do webhook" size="lg">
+      <div className="space-y-5">
+        <div className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed">
+          Escolha a plataforma que vai enviar os eventos. Com um preset, entendemos o JSON nativo dela (compra, carrinho abandonado,
+          reembolso) sem precisar mapear campos.
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {INBOUND_PROVIDERS.map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => setSelected(p)}
+              className={cn(
+                'px-3 py-2 rounded-lg text-sm font-semibold border text-left transition-colors',
+                selected === p
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'bg-white dark:bg-white/5 border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/10'
+              )}
+            >
+              {PROVIDER_INFO[p].label}
+            </button>
+          ))}
+        </div>
+
+        <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-600 dark:text-slate-300">
+          {info.steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+
+        <div className="space-y-1">
+          <div className="text-xs font-bold text-slate-600 dark:text-slate-300">URL para colar na plataforma</div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 px-3 py-2 rounded-lg bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 text-xs font-mono break-all">
+              {providerUrl}
+            </code>
+            <button
+              type="button"
+              onClick={copyUrl}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors"
+            >
+              <Copy className="h-4 w-4" />
+              Copiar
+              {copied && <Check className="h-4 w-4 text-green-600" />}
+            </button>
+          </div>
+        </div>
+
+        {needsSecret ? (
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-600 dark:text-slate-300">{info.secretLabel}</label>
+            <input
+              value={secretDraft}
+              onChange={(e) => setSecretDraft(e.target.value)}
+              placeholder={info.secretLabel || ''}
+              className={cn(FIELD_CLASS, 'font-mono')}
+            />
+            <div className="text-[11px] text-slate-500 dark:text-slate-400">{info.secretHint}</div>
+          </div>
+        ) : null}
+
+        <div className="flex items-center justify-end gap-2 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+          >
+            Salvar provedor
+            <ArrowRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
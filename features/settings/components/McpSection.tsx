@@ -2,6 +2,7 @@ import React, { useMemo, useRef, useState } from 'react';
 import { ServerCog, Copy, CheckCircle2, Play, AlertTriangle, RefreshCw, ChevronDown } from 'lucide-react';
 import { useOptionalToast } from '@/context/ToastContext';
 import { supabase } from '@/lib/supabase/client';
+import { MCP_DEFAULT_KEY_SCOPES } from '@/lib/mcp/scopes';
 import { SettingsSection } from './SettingsSection';
 
 /**
@@ -58,7 +59,8 @@ export const McpSection: React.FC = () => {
     setCreatingKey(true);
     try {
       const name = `MCP ${new Date().toLocaleDateString('pt-BR')}`;
-      const { data, error } = await supabase.rpc('create_api_key', { p_name: name });
+      // Key dedicada ao MCP: `mcp:call` + os escopos dos dados que as tools/resources usam.
+      const { data, error } = await supabase.rpc('create_api_key', { p_name: name, p_scopes: MCP_DEFAULT_KEY_SCOPES });
       if (error) throw error;
       const row = Array.isArray(data) ? data[0] : data;
       const token = row?.token as string | undefined;
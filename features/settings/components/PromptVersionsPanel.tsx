@@ -0,0 +1,385 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { FlaskConical, GitCompare, History, Loader2, Play, RotateCcw, Square } from 'lucide-react';
+import { useCRM } from '@/context/CRMContext';
+import { useToast } from '@/context/ToastContext';
+import { diffPromptLines, MIN_EXPERIMENT_SAMPLE, type PromptArmStats } from '@/lib/ai/prompts/versions';
+
+type PromptVersion = {
+  version: number;
+  content: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+type Experiment = {
+  id: string;
+  control_version: number | null;
+  variant_version: number;
+  traffic_percent: number;
+  status: 'running' | 'stopped';
+  started_at: string;
+  ended_at: string | null;
+};
+
+type Comparison = {
+  control: PromptArmStats;
+  variant: PromptArmStats;
+  winner: 'control' | 'variant' | null;
+  zScore: number | null;
+};
+
+type PreviewResult = { prompt: string; missing: string[]; output?: string };
+
+const sectionTitle = 'text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2';
+const inputClass =
+  'px-3 py-2 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-white/5 text-slate-900 dark:text-white text-sm';
+const secondaryButton =
+  'px-3 py-1.5 rounded-lg border border-slate-200 dark:border-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-white/5 text-xs font-medium inline-flex items-center gap-1.5 disabled:opacity-50';
+
+async function requestJson(url: string, init?: RequestInit) {
+  const res = await fetch(url, { credentials: 'include', ...init, headers: { accept: 'application/json', ...(init?.body ? { 'content-type': 'application/json' } : {}) } });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error?.message || data?.error || `HTTP ${res.status}`);
+  return data;
+}
+
+const versionLabel = (v: number | null) => (v === null ? 'padrão' : `v${v}`);
+const rate = (s: PromptArmStats) => (s.acceptanceRate === null ? '—' : `${Math.round(s.acceptanceRate * 100)}%`);
+
+/**
+ * Componente React `PromptVersionsPanel`.
+ * Histórico (diff + restaurar), preview com um deal e teste A/B de um prompt da Central de I.A.
+ *
+ * @param {{ promptKey: string; draft: string; onChanged: () => void; }} props - Key do prompt, rascunho atual do editor e
+ * callback após mudar a versão ativa.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const PromptVersionsPanel: React.FC<{ promptKey: string; draft: string; onChanged: () => void }> = ({
+  promptKey,
+  draft,
+  onChanged,
+}) => {
+  const { deals } = useCRM();
+  const { showToast } = useToast();
+  const base = `/api/settings/ai-prompts/${encodeURIComponent(promptKey)}`;
+
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [experiment, setExperiment] = useState<Experiment | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const [diffVersion, setDiffVersion] = useState<number | null>(null);
+
+  const [dealId, setDealId] = useState('');
+  const [extraVars, setExtraVars] = useState('');
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+
+  const [variantVersion, setVariantVersion] = useState<number | ''>('');
+  const [trafficPercent, setTrafficPercent] = useState(50);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [history, exp] = await Promise.all([requestJson(base), requestJson(`${base}/experiment`)]);
+      setVersions((history?.versions || []) as PromptVersion[]);
+      setExperiment((exp?.experiment as Experiment | null) ?? null);
+      setComparison((exp?.comparison as Comparison | null) ?? null);
+    } catch (e: any) {
+      showToast(e?.message || 'Falha ao carregar versões', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [base, showToast]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const diff = useMemo(() => {
+    const target = versions.find((v) => v.version === diffVersion);
+    return target ? diffPromptLines(target.content, draft) : null;
+  }, [versions, diffVersion, draft]);
+
+  const run = async (label: string, fn: () => Promise<void>) => {
+    setBusy(label);
+    try {
+      await fn();
+    } catch (e: any) {
+      showToast(e?.message || 'Falha na operação', 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const rollback = (version: number) =>
+    run(`rollback-${version}`, async () => {
+      await requestJson(`${base}/rollback`, { method: 'POST', body: JSON.stringify({ version }) });
+      showToast(`Versão v${version} restaurada`, 'success');
+      onChanged();
+      await load();
+    });
+
+  const parseExtraVars = () => {
+    const vars: Record<string, string> = {};
+    for (const line of extraVars.split('\n')) {
+      const idx = line.indexOf('=');
+      if (idx > 0) vars[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+    }
+    return vars;
+  };
+
+  const runPreview = (execute: boolean) =>
+    run(execute ? 'preview-run' : 'preview', async () => {
+      const data = await requestJson(`${base}/preview`, {
+        method: 'POST',
+        body: JSON.stringify({
+          content: draft.trim() ? draft : undefined,
+          dealId: dealId || undefined,
+          vars: parseExtraVars(),
+          run: execute,
+        }),
+      });
+      setPreview(data as PreviewResult);
+    });
+
+  const startExperiment = () =>
+    run('experiment', async () => {
+      if (variantVersion === '') return;
+      await requestJson(`${base}/experiment`, {
+        method: 'POST',
+        body: JSON.stringify({ variantVersion, trafficPercent }),
+      });
+      showToast('Teste A/B iniciado', 'success');
+      await load();
+    });
+
+  const stopExperiment = () =>
+    run('experiment', async () => {
+      await requestJson(`${base}/experiment`, { method: 'DELETE' });
+      showToast('Teste A/B encerrado', 'success');
+      await load();
+    });
+
+  const candidates = versions.filter((v) => !v.is_active);
+  const running = experiment?.status === 'running' ? experiment : null;
+
+  if (loading && versions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+        <Loader2 className="h-4 w-4 animate-spin" /> Carregando versões…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5 border-t border-slate-200 dark:border-white/10 pt-4">
+      {/* Histórico */}
+      <div>
+        <div className={sectionTitle}>
+          <History size={16} /> Versões
+        </div>
+        {versions.length === 0 ? (
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Sem versões salvas: o prompt padrão do catálogo está em uso.</p>
+        ) : (
+          <div className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+            {versions.map((v) => (
+              <div
+                key={v.version}
+                className="flex items-center justify-between gap-2 rounded-lg border border-slate-200 dark:border-white/10 px-3 py-1.5 text-xs"
+              >
+                <div className="text-slate-700 dark:text-slate-200">
+                  <span className="font-mono font-semibold">v{v.version}</span>
+                  {v.is_active ? <span className="ml-2 text-emerald-600 dark:text-emerald-400 font-semibold">ativa</span> : null}
+                  {running?.variant_version === v.version ? (
+                    <span className="ml-2 text-amber-600 dark:text-amber-400 font-semibold">candidata A/B</span>
+                  ) : null}
+                  <span className="ml-2 text-slate-400">{new Date(v.created_at).toLocaleString('pt-BR')}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => setDiffVersion(diffVersion === v.version ? null : v.version)}
+                    className={secondaryButton}
+                  >
+                    <GitCompare size={12} /> Diff
+                  </button>
+                  {!v.is_active ? (
+                    <button type="button" onClick={() => rollback(v.version)} disabled={busy !== null} className={secondaryButton}>
+                      {busy === `rollback-${v.version}` ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                      Restaurar
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {diff ? (
+          <div className="mt-2">
+            <div className="text-xs text-slate-500 dark:text-slate-400 mb-1">v{diffVersion} → editor</div>
+            <pre className="max-h-56 overflow-auto rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 p-2 text-xs font-mono whitespace-pre-wrap">
+              {diff.map((line, idx) => (
+                <div
+                  key={idx}
+                  className={
+                    line.type === 'add'
+                      ? 'bg-emerald-50 text-emerald-800 dark:bg-emerald-500/10 dark:text-emerald-300'
+                      : line.type === 'remove'
+                        ? 'bg-rose-50 text-rose-800 dark:bg-rose-500/10 dark:text-rose-300'
+                        : 'text-slate-600 dark:text-slate-300'
+                  }
+                >
+                  {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          </div>
+        ) : null}
+      </div>
+
+      {/* Preview */}
+      <div>
+        <div className={sectionTitle}>
+          <Play size={16} /> Preview com um deal
+        </div>
+        <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+          <select value={dealId} onChange={(e) => setDealId(e.target.value)} className={inputClass}>
+            <option value="">Sem deal (só variáveis extras)</option>
+            {deals.slice(0, 200).map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.title}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={extraVars}
+            onChange={(e) => setExtraVars(e.target.value)}
+            placeholder={'Variáveis extras (uma por linha)\nobjection=Achamos caro'}
+            rows={2}
+            className={`${inputClass} font-mono text-xs`}
+          />
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          <button type="button" onClick={() => runPreview(false)} disabled={busy !== null} className={secondaryButton}>
+            {busy === 'preview' ? <Loader2 size={12} className="animate-spin" /> : null}
+            Renderizar
+          </button>
+          <button type="button" onClick={() => runPreview(true)} disabled={busy !== null} className={secondaryButton}>
+            {busy === 'preview-run' ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            Executar no modelo
+          </button>
+        </div>
+        {preview ? (
+          <div className="mt-2 space-y-2">
+            {preview.missing.length > 0 ? (
+              <div className="text-xs text-amber-700 dark:text-amber-300">
+                Variáveis sem valor: {preview.missing.map((v) => `{{${v}}}`).join(', ')}
+              </div>
+            ) : null}
+            <pre className="max-h-48 overflow-auto rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 p-2 text-xs whitespace-pre-wrap text-slate-700 dark:text-slate-200">
+              {preview.prompt}
+            </pre>
+            {preview.output !== undefined ? (
+              <pre className="max-h-64 overflow-auto rounded-lg bg-primary-50/60 dark:bg-primary-500/10 border border-primary-100 dark:border-primary-500/20 p-2 text-xs whitespace-pre-wrap text-slate-800 dark:text-slate-100">
+                {preview.output}
+              </pre>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      {/* Teste A/B */}
+      <div>
+        <div className={sectionTitle}>
+          <FlaskConical size={16} /> Teste A/B
+        </div>
+        {running ? (
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-600 dark:text-slate-300">
+            <span>
+              Em andamento desde {new Date(running.started_at).toLocaleString('pt-BR')}: {running.traffic_percent}% dos usuários recebem{' '}
+              <span className="font-mono font-semibold">v{running.variant_version}</span>.
+            </span>
+            <button type="button" onClick={stopExperiment} disabled={busy !== null} className={secondaryButton}>
+              {busy === 'experiment' ? <Loader2 size={12} className="animate-spin" /> : <Square size={12} />}
+              Encerrar
+            </button>
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Salve ao menos duas versões para comparar.</p>
+        ) : (
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <select
+              value={variantVersion}
+              onChange={(e) => setVariantVersion(e.target.value ? Number(e.target.value) : '')}
+              className={inputClass}
+            >
+              <option value="">Versão candidata…</option>
+              {candidates.map((v) => (
+                <option key={v.version} value={v.version}>
+                  v{v.version}
+                </option>
+              ))}
+            </select>
+            <label className="text-xs text-slate-600 dark:text-slate-300 inline-flex items-center gap-2">
+              Tráfego
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={trafficPercent}
+                onChange={(e) => setTrafficPercent(Math.min(99, Math.max(1, Number(e.target.value) || 50)))}
+                className={`${inputClass} w-20`}
+              />
+              %
+            </label>
+            <button type="button" onClick={startExperiment} disabled={busy !== null || variantVersion === ''} className={secondaryButton}>
+              {busy === 'experiment' ? <Loader2 size={12} className="animate-spin" /> : <FlaskConical size={12} />}
+              Iniciar teste
+            </button>
+          </div>
+        )}
+
+        {experiment && comparison ? (
+          <div className="mt-3">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-slate-400">
+                  <th className="py-1 font-medium">Braço</th>
+                  <th className="py-1 font-medium text-right">Usadas</th>
+                  <th className="py-1 font-medium text-right">Descartadas</th>
+                  <th className="py-1 font-medium text-right">Aceite</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700 dark:text-slate-200">
+                {(['control', 'variant'] as const).map((arm) => {
+                  const s = comparison[arm];
+                  return (
+                    <tr key={arm} className="border-t border-slate-100 dark:border-white/5">
+                      <td className="py-1">
+                        {arm === 'control' ? 'Controle' : 'Candidata'} ({versionLabel(s.version)})
+                        {comparison.winner === arm ? <span className="ml-2 text-emerald-600 dark:text-emerald-400 font-semibold">vencedora</span> : null}
+                      </td>
+                      <td className="py-1 text-right">{s.accepted}</td>
+                      <td className="py-1 text-right">{s.dismissed}</td>
+                      <td className="py-1 text-right">{rate(s)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Aceite = respostas copiadas/usadas ÷ feedback total. Vencedora só com ao menos {MIN_EXPERIMENT_SAMPLE} feedbacks por braço e
+              diferença significativa (95%).
+            </p>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,480 @@
+import React, { useState } from 'react';
+import { History, RefreshCw, RotateCcw, Eye } from 'lucide-react';
+import { Modal } from '@/components/ui/Modal';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/context/ToastContext';
+import { cn } from '@/lib/utils/cn';
+import { OUTBOUND_WEBHOOK_EVENTS } from '@/lib/webhooks/events';
+
+type Direction = 'outbound' | 'inbound';
+
+type OutboundLogRow = {
+  id: string;
+  endpoint_id: string;
+  status: string;
+  attempted_at: string;
+  attempt_count: number;
+  next_attempt_at: string | null;
+  completed_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  event: { id: string; event_type: string; payload: unknown; created_at: string } | null;
+  endpoint: { name: string; url: string } | null;
+};
+
+type InboundLogRow = {
+  id: string;
+  source_id: string;
+  provider: string;
+  external_event_id: string | null;
+  payload: unknown;
+  status: string;
+  error: string | null;
+  created_contact_id: string | null;
+  created_deal_id: string | null;
+  received_at: string;
+  source: { name: string } | null;
+};
+
+type Inspected = { direction: 'outbound'; row: OutboundLogRow } | { direction: 'inbound'; row: InboundLogRow };
+
+const PAGE_SIZE = 50;
+
+const OUTBOUND_STATUSES: Record<string, { label: string; className: string }> = {
+  queued: { label: 'Enviando', className: 'bg-blue-100 dark:bg-blue-500/10 text-blue-700 dark:text-blue-300' },
+  retrying: { label: 'Nova tentativa', className: 'bg-amber-100 dark:bg-amber-500/10 text-amber-700 dark:text-amber-300' },
+  delivered: { label: 'Entregue', className: 'bg-green-100 dark:bg-green-500/10 text-green-700 dark:text-green-400' },
+  dead: { label: 'Não entregue', className: 'bg-red-100 dark:bg-red-500/10 text-red-700 dark:text-red-300' },
+  failed: { label: 'Falhou', className: 'bg-red-100 dark:bg-red-500/10 text-red-700 dark:text-red-300' },
+};
+
+const INBOUND_STATUSES: Record<string, { label: string; className: string }> = {
+  received: { label: 'Recebido', className: 'bg-blue-100 dark:bg-blue-500/10 text-blue-700 dark:text-blue-300' },
+  processed: { label: 'Processado', className: 'bg-green-100 dark:bg-green-500/10 text-green-700 dark:text-green-400' },
+  ignored: { label: 'Ignorado', className: 'bg-slate-100 dark:bg-white/10 text-slate-600 dark:text-slate-300' },
+  failed: { label: 'Falhou', className: 'bg-red-100 dark:bg-red-500/10 text-red-700 dark:text-red-300' },
+};
+
+const FIELD_CLASS =
+  'px-3 py-2 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+function formatJson(value: unknown) {
+  if (value == null) return '—';
+  if (typeof value === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function StatusBadge({ status, direction }: { status: string; direction: Direction }) {
+  const meta = (direction === 'outbound' ? OUTBOUND_STATUSES : INBOUND_STATUSES)[status];
+  return (
+    <span
+      className={cn(
+        'text-[10px] font-bold px-2 py-0.5 rounded uppercase whitespace-nowrap',
+        meta?.className || 'bg-slate-100 dark:bg-white/10 text-slate-600 dark:text-slate-300'
+      )}
+    >
+      {meta?.label || status}
+    </span>
+  );
+}
+
+/**
+ * Componente React `WebhookDeliveryLog`.
+ * Log de entregas (saída) e eventos recebidos (entrada), com filtros, inspeção de payload e reenvio manual.
+ *
+ * @param {{ sources: Array<{ id: string; name: string; secret: string; active: boolean }>; endpoints: Array<{ id: string; name: string }>; buildInboundUrl: (sourceId: string) => string; }} props - Fontes/endpoints da organização.
+ * @returns {Element} Retorna um valor do tipo `Element`.
+ */
+export const WebhookDeliveryLog: React.FC<{
+  sources: Array<{ id: string; name: string; secret: string; active: boolean }>;
+  endpoints: Array<{ id: string; name: string }>;
+  buildInboundUrl: (sourceId: string) => string;
+}> = ({ sources, endpoints, buildInboundUrl }) => {
+  const { profile } = useAuth();
+  const { addToast } = useToast();
+
+  const [direction, setDirection] = useState<Direction>('outbound');
+  const [targetId, setTargetId] = useState('');
+  const [status, setStatus] = useState('');
+  const [eventType, setEventType] = useState('');
+  const [since, setSince] = useState('');
+
+  const [outboundRows, setOutboundRows] = useState<OutboundLogRow[]>([]);
+  const [inboundRows, setInboundRows] = useState<InboundLogRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [inspected, setInspected] = useState<Inspected | null>(null);
+
+  async function loadLog() {
+    if (!profile?.organization_id) return;
+    setLoading(true);
+    try {
+      const sinceIso = since ? new Date(`${since}T00:00:00`).toISOString() : null;
+
+      if (direction === 'outbound') {
+        let query = supabase
+          .from('webhook_deliveries')
+          .select(
+            'id,endpoint_id,status,attempted_at,attempt_count,next_attempt_at,completed_at,response_status,response_body,error,' +
+              'event:webhook_events_out!inner(id,event_type,payload,created_at),endpoint:integration_outbound_endpoints(name,url)'
+          )
+          .eq('organization_id', profile.organization_id)
+          .order('attempted_at', { ascending: false })
+          .limit(PAGE_SIZE);
+        if (targetId) query = query.eq('endpoint_id', targetId);
+        if (status) query = query.eq('status', status);
+        if (eventType) query = query.eq('event.event_type', eventType);
+        if (sinceIso) query = query.gte('attempted_at', sinceIso);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        setOutboundRows((data as any) || []);
+      } else {
+        let query = supabase
+          .from('webhook_events_in')
+          .select(
+            'id,source_id,provider,external_event_id,payload,status,error,created_contact_id,created_deal_id,received_at,' +
+              'source:integration_inbound_sources(name)'
+          )
+          .eq('organization_id', profile.organization_id)
+          .order('received_at', { ascending: false })
+          .limit(PAGE_SIZE);
+        if (targetId) query = query.eq('source_id', targetId);
+        if (status) query = query.eq('status', status);
+        if (eventType.trim()) query = query.ilike('provider', `%${eventType.trim()}%`);
+        if (sinceIso) query = query.gte('received_at', sinceIso);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        setInboundRows((data as any) || []);
+      }
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao carregar o log de webhooks', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  React.useEffect(() => {
+    loadLog();
+  }, [direction, targetId, status, eventType, since, profile?.organization_id]);
+
+  function switchDirection(next: Direction) {
+    if (next === direction) return;
+    setDirection(next);
+    setTargetId('');
+    setStatus('');
+    setEventType('');
+    setInspected(null);
+  }
+
+  async function replayOutbound(row: OutboundLogRow) {
+    setReplayingId(row.id);
+    try {
+      const { error } = await supabase.rpc('replay_webhook_delivery', { p_delivery_id: row.id });
+      if (error) throw error;
+      addToast('Reenvio disparado. Acompanhe o status em alguns instantes.', 'success');
+      setInspected(null);
+      await loadLog();
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao reenviar entrega', 'error');
+    } finally {
+      setReplayingId(null);
+    }
+  }
+
+  async function replayInbound(row: InboundLogRow) {
+    const source = sources.find((s) => s.id === row.source_id);
+    if (!source?.active) {
+      addToast('A entrada de leads desse evento foi removida ou está desativada.', 'error');
+      return;
+    }
+
+    setReplayingId(row.id);
+    try {
+      const res = await fetch(buildInboundUrl(source.id), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Secret': source.secret,
+          'X-Webhook-Replay-Of': row.id,
+        },
+        body: '{}',
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.details || json?.error || 'Falha ao reprocessar evento');
+      addToast(json?.message || 'Evento reprocessado.', 'success');
+      setInspected(null);
+      await loadLog();
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao reprocessar evento', 'error');
+    } finally {
+      setReplayingId(null);
+    }
+  }
+
+  const statusOptions = direction === 'outbound' ? OUTBOUND_STATUSES : INBOUND_STATUSES;
+  const targets = direction === 'outbound' ? endpoints : sources;
+
+  return (
+    <div className="p-5 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Log de entregas
+          </h4>
+          <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">
+            Veja o que o CRM enviou e recebeu, inspecione o conteúdo e reenvie quando algo falhar.
+          </p>
+        </div>
+        <div className="inline-flex rounded-xl bg-slate-100 dark:bg-white/10 p-1 border border-slate-200 dark:border-white/10">
+          {(['outbound', 'inbound'] as const).map((d) => (
+            <button
+              key={d}
+              type="button"
+              onClick={() => switchDirection(d)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-xs font-bold transition-colors',
+                direction === d
+                  ? 'bg-white dark:bg-black/30 text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white'
+              )}
+            >
+              {d === 'outbound' ? 'Saída' : 'Entrada'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={FIELD_CLASS}>
+          <option value="">{direction === 'outbound' ? 'Todos os endpoints' : 'Todas as entradas'}</option>
+          {targets.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value)} className={FIELD_CLASS}>
+          <option value="">Todos os status</option>
+          {Object.entries(statusOptions).map(([value, meta]) => (
+            <option key={value} value={value}>
+              {meta.label}
+            </option>
+          ))}
+        </select>
+        {direction === 'outbound' ? (
+          <select value={eventType} onChange={(e) => setEventType(e.target.value)} className={FIELD_CLASS}>
+            <option value="">Todos os eventos</option>
+            {OUTBOUND_WEBHOOK_EVENTS.map((ev) => (
+              <option key={ev.type} value={ev.type}>
+                {ev.label}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            value={eventType}
+            onChange={(e) => setEventType(e.target.value)}
+            placeholder="Origem (ex.: hotmart)"
+            className={FIELD_CLASS}
+          />
+        )}
+        <input
+          type="date"
+          value={since}
+          onChange={(e) => setSince(e.target.value)}
+          title="A partir de"
+          className={FIELD_CLASS}
+        />
+        <button
+          type="button"
+          onClick={loadLog}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+        >
+          <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+          Atualizar
+        </button>
+      </div>
+
+      <div className="mt-4 divide-y divide-slate-100 dark:divide-white/5 border border-slate-200 dark:border-white/10 rounded-xl overflow-hidden">
+        {direction === 'outbound'
+          ? outboundRows.map((row) => (
+              <div key={row.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={row.status} direction="outbound" />
+                    <span className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">
+                      {row.event?.event_type || 'evento'}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                    {new Date(row.attempted_at).toLocaleString()} · {row.endpoint?.name || 'endpoint removido'} · {row.attempt_count}{' '}
+                    tentativa(s)
+                    {row.response_status ? ` · HTTP ${row.response_status}` : ''}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setInspected({ direction: 'outbound', row })}
+                    className="inline-flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                  >
+                    <Eye className="h-3.5 w-3.5" />
+                    Ver
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => replayOutbound(row)}
+                    disabled={replayingId === row.id || row.status === 'queued'}
+                    className="inline-flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    {replayingId === row.id ? 'Reenviando...' : 'Reenviar'}
+                  </button>
+                </div>
+              </div>
+            ))
+          : inboundRows.map((row) => (
+              <div key={row.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={row.status} direction="inbound" />
+                    <span className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">
+                      {row.provider}
+                      {row.external_event_id ? ` · ${row.external_event_id}` : ''}
+                    </span>
+                  </div>
+                  <div className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                    {new Date(row.received_at).toLocaleString()} · {row.source?.name || 'entrada removida'}
+                    {row.error ? ` · ${row.error}` : ''}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setInspected({ direction: 'inbound', row })}
+                    className="inline-flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                  >
+                    <Eye className="h-3.5 w-3.5" />
+                    Ver
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => replayInbound(row)}
+                    disabled={replayingId === row.id}
+                    className="inline-flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    {replayingId === row.id ? 'Reprocessando...' : 'Reprocessar'}
+                  </button>
+                </div>
+              </div>
+            ))}
+
+        {(direction === 'outbound' ? outboundRows.length : inboundRows.length) === 0 ? (
+          <div className="px-3 py-6 text-center text-sm text-slate-500 dark:text-slate-400">
+            {loading ? 'Carregando...' : 'Nada encontrado com esses filtros.'}
+          </div>
+        ) : null}
+      </div>
+
+      {(direction === 'outbound' ? outboundRows.length : inboundRows.length) === PAGE_SIZE ? (
+        <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Mostrando os {PAGE_SIZE} mais recentes. Use os filtros para encontrar registros mais antigos.
+        </div>
+      ) : null}
+
+      <Modal
+        isOpen={!!inspected}
+        onClose={() => setInspected(null)}
+        title={inspected?.direction === 'inbound' ? 'Evento recebido' : 'Entrega enviada'}
+        size="lg"
+        bodyClassName="max-h-[70vh] overflow-auto"
+      >
+        {inspected ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+              <StatusBadge status={inspected.row.status} direction={inspected.direction} />
+              {inspected.direction === 'outbound' ? (
+                <>
+                  <span className="font-mono">{inspected.row.event?.event_type}</span>
+                  <span>· {inspected.row.endpoint?.url || 'endpoint removido'}</span>
+                  <span>· {inspected.row.attempt_count} tentativa(s)</span>
+                  {inspected.row.next_attempt_at && inspected.row.status === 'retrying' ? (
+                    <span>· próxima em {new Date(inspected.row.next_attempt_at).toLocaleString()}</span>
+                  ) : null}
+                </>
+              ) : (
+                <>
+                  <span className="font-mono">{inspected.row.provider}</span>
+                  {inspected.row.external_event_id ? <span>· {inspected.row.external_event_id}</span> : null}
+                  {inspected.row.created_deal_id ? (
+                    <span>
+                      · deal <span className="font-mono">{inspected.row.created_deal_id}</span>
+                    </span>
+                  ) : null}
+                </>
+              )}
+            </div>
+
+            {inspected.row.error ? (
+              <div className="p-3 rounded-xl bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 text-xs text-red-800 dark:text-red-200 break-words">
+                {inspected.row.error}
+              </div>
+            ) : null}
+
+            <div className="space-y-1">
+              <div className="text-xs font-bold text-slate-600 dark:text-slate-300">Payload</div>
+              <pre className="p-3 rounded-xl bg-slate-50 dark:bg-black/30 border border-slate-200 dark:border-white/10 text-[11px] font-mono whitespace-pre-wrap break-all">
+                {formatJson(inspected.direction === 'outbound' ? inspected.row.event?.payload : inspected.row.payload)}
+              </pre>
+            </div>
+
+            {inspected.direction === 'outbound' ? (
+              <div className="space-y-1">
+                <div className="text-xs font-bold text-slate-600 dark:text-slate-300">
+                  Resposta {inspected.row.response_status ? `(HTTP ${inspected.row.response_status})` : ''}
+                </div>
+                <pre className="p-3 rounded-xl bg-slate-50 dark:bg-black/30 border border-slate-200 dark:border-white/10 text-[11px] font-mono whitespace-pre-wrap break-all">
+                  {formatJson(inspected.row.response_body)}
+                </pre>
+              </div>
+            ) : null}
+
+            <div className="flex items-center justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setInspected(null)}
+                className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+              >
+                Fechar
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  inspected.direction === 'outbound' ? replayOutbound(inspected.row) : replayInbound(inspected.row)
+                }
+                disabled={replayingId === inspected.row.id || inspected.row.status === 'queued'}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {inspected.direction === 'outbound' ? 'Reenviar' : 'Reprocessar'}
+              </button>
+            </div>
+          </div>
+        ) : null}
+      </Modal>
+    </div>
+  );
+};
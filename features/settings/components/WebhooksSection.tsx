@@ -1,6 +1,9 @@
 import React, { useMemo, useState } from 'react';
-import { Webhook, ArrowRight, Copy, Check, Link as LinkIcon, Pencil, Power, Trash2, KeyRound, HelpCircle } from 'lucide-react';
+import { Webhook, ArrowRight, Copy, Check, Link as LinkIcon, Pencil, Power, Trash2, KeyRound, HelpCircle, RotateCcw, AlertTriangle, Shuffle, Store } from 'lucide-react';
 import { SettingsSection } from './SettingsSection';
+import { WebhookDeliveryLog } from './WebhookDeliveryLog';
+import { InboundFieldMappingEditor } from './InboundFieldMappingEditor';
+import { InboundProviderSettings } from './InboundProviderSettings';
 import { Modal } from '@/components/ui/Modal';
 import ConfirmModal from '@/components/ConfirmModal';
 import { useBoards } from '@/context/boards/BoardsContext';
@@ -8,6 +11,12 @@ import { supabase } from '@/lib/supabase/client';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/context/ToastContext';
 import { cn } from '@/lib/utils/cn';
+import {
+  DEFAULT_OUTBOUND_WEBHOOK_EVENTS,
+  OUTBOUND_WEBHOOK_EVENTS,
+  normalizeOutboundWebhookEvents,
+  type OutboundWebhookEventType,
+} from '@/lib/webhooks/events';
 
 type InboundSourceRow = {
   id: string;
@@ -15,6 +24,9 @@ type InboundSourceRow = {
   entry_board_id: string;
   entry_stage_id: string;
   secret: string;
+  field_mapping: unknown[];
+  provider: string;
+  provider_secret: string | null;
   active: boolean;
 };
 
@@ -23,9 +35,20 @@ type OutboundEndpointRow = {
   name: string;
   url: string;
   secret: string;
+  events: string[];
+  max_attempts: number;
   active: boolean;
 };
 
+type DeadDeliveryRow = {
+  id: string;
+  attempted_at: string;
+  attempt_count: number;
+  response_status: number | null;
+  error: string | null;
+  event: { event_type: string } | null;
+};
+
 type InboundEventRow = {
   id: string;
   received_at: string;
@@ -35,6 +58,8 @@ type InboundEventRow = {
   created_deal_id: string | null;
 };
 
+const DEFAULT_MAX_ATTEMPTS = 5;
+
 function generateSecret() {
   const bytes = new Uint8Array(24);
   crypto.getRandomValues(bytes);
@@ -92,6 +117,12 @@ export const WebhooksSection: React.FC = () => {
   // Follow-up modal
   const [isFollowUpOpen, setIsFollowUpOpen] = useState(false);
   const [followUpUrl, setFollowUpUrl] = useState('');
+  const [followUpMaxAttempts, setFollowUpMaxAttempts] = useState(DEFAULT_MAX_ATTEMPTS);
+  const [followUpEvents, setFollowUpEvents] = useState<OutboundWebhookEventType[]>(DEFAULT_OUTBOUND_WEBHOOK_EVENTS);
+
+  // Dead-letter (entregas que esgotaram as tentativas)
+  const [deadDeliveries, setDeadDeliveries] = useState<DeadDeliveryRow[]>([]);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
 
   // Quick start (produto) — inbound/outbound
   const [isQuickStartOpen, setIsQuickStartOpen] = useState(false);
@@ -105,6 +136,8 @@ export const WebhooksSection: React.FC = () => {
 
   // Confirm modals
   const [confirmDeleteInboundOpen, setConfirmDeleteInboundOpen] = useState(false);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [isProviderOpen, setIsProviderOpen] = useState(false);
   const [confirmDeleteOutboundOpen, setConfirmDeleteOutboundOpen] = useState(false);
 
   const canUse = profile?.role === 'admin' && !!profile?.organization_id;
@@ -132,22 +165,55 @@ export const WebhooksSection: React.FC = () => {
     try {
       const { data: srcData } = await supabase
         .from('integration_inbound_sources')
-        .select('id,name,entry_board_id,entry_stage_id,secret,active')
+        .select('id,name,entry_board_id,entry_stage_id,secret,field_mapping,provider,provider_secret,active')
         .order('created_at', { ascending: false });
       setSources((srcData as any) || []);
 
       const { data: epData } = await supabase
         .from('integration_outbound_endpoints')
-        .select('id,name,url,secret,active')
+        .select('id,name,url,secret,events,max_attempts,active')
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle();
       setEndpoint((epData as any) || null);
+      if (epData?.id) await loadDeadDeliveries(epData.id);
+      else setDeadDeliveries([]);
     } finally {
       setLoading(false);
     }
   }
 
+  async function loadDeadDeliveries(endpointId: string) {
+    if (!canUse) return;
+    if (!supabase) return;
+    if (!profile?.organization_id) return;
+    const { data } = await supabase
+      .from('webhook_deliveries')
+      .select('id,attempted_at,attempt_count,response_status,error,event:webhook_events_out(event_type)')
+      .eq('organization_id', profile.organization_id)
+      .eq('endpoint_id', endpointId)
+      .eq('status', 'dead')
+      .order('attempted_at', { ascending: false })
+      .limit(5);
+    setDeadDeliveries((data as any) || []);
+  }
+
+  async function handleReplayDelivery(deliveryId: string) {
+    if (!canUse) return;
+    if (!endpoint?.id) return;
+    setReplayingId(deliveryId);
+    try {
+      const { error } = await supabase.rpc('replay_webhook_delivery', { p_delivery_id: deliveryId });
+      if (error) throw error;
+      addToast('Reenvio disparado. Acompanhe o status em alguns instantes.', 'success');
+      await loadDeadDeliveries(endpoint.id);
+    } catch (e: any) {
+      addToast(e?.message || 'Erro ao reenviar entrega', 'error');
+    } finally {
+      setReplayingId(null);
+    }
+  }
+
   React.useEffect(() => {
     if (!canUse) return;
     if (!supabase) return;
@@ -212,7 +278,7 @@ export const WebhooksSection: React.FC = () => {
 
       const sourceId = (data as any)?.id as string;
       setSources((prev) => [
-        { id: sourceId, name: 'Entrada de Leads', entry_board_id: selectedBoard.id, entry_stage_id: selectedStageId, secret, active: true },
+        { id: sourceId, name: 'Entrada de Leads', entry_board_id: selectedBoard.id, entry_stage_id: selectedStageId, secret, field_mapping: [], provider: 'generic', provider_secret: null, active: true },
         ...prev,
       ]);
       setInboundStep(2);
@@ -289,9 +355,16 @@ export const WebhooksSection: React.FC = () => {
     }
   }
 
+  function toggleFollowUpEvent(type: OutboundWebhookEventType) {
+    setFollowUpEvents((prev) =>
+      normalizeOutboundWebhookEvents(prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type])
+    );
+  }
+
   async function handleSaveFollowUp() {
     if (!canUse) return;
     if (!followUpUrl.trim()) return;
+    if (followUpEvents.length === 0) return;
 
     setLoading(true);
     try {
@@ -300,9 +373,11 @@ export const WebhooksSection: React.FC = () => {
           .from('integration_outbound_endpoints')
           .update({
             url: followUpUrl.trim(),
+            events: followUpEvents,
+            max_attempts: followUpMaxAttempts,
           })
           .eq('id', endpoint.id)
-          .select('id,name,url,secret,active')
+          .select('id,name,url,secret,events,max_attempts,active')
           .single();
         if (error) throw error;
         setEndpoint(data as any);
@@ -316,10 +391,11 @@ export const WebhooksSection: React.FC = () => {
             name: 'Follow-up (Webhook)',
             url: followUpUrl.trim(),
             secret,
-            events: ['deal.stage_changed'],
+            events: followUpEvents,
+            max_attempts: followUpMaxAttempts,
             active: true,
           })
-          .select('id,name,url,secret,active')
+          .select('id,name,url,secret,events,max_attempts,active')
           .single();
 
         if (error) throw error;
@@ -328,6 +404,8 @@ export const WebhooksSection: React.FC = () => {
       }
       setIsFollowUpOpen(false);
       setFollowUpUrl('');
+      setFollowUpMaxAttempts(DEFAULT_MAX_ATTEMPTS);
+      setFollowUpEvents(DEFAULT_OUTBOUND_WEBHOOK_EVENTS);
     } catch (e: any) {
       addToast(e?.message || 'Erro ao salvar follow-up', 'error');
     } finally {
@@ -416,7 +494,7 @@ export const WebhooksSection: React.FC = () => {
         .from('integration_outbound_endpoints')
         .update({ secret: nextSecret })
         .eq('id', endpoint.id)
-        .select('id,name,url,secret,active')
+        .select('id,name,url,secret,events,max_attempts,active')
         .single();
       if (error) throw error;
       setEndpoint(data as any);
@@ -439,6 +517,7 @@ export const WebhooksSection: React.FC = () => {
         .eq('id', endpoint.id);
       if (error) throw error;
       setEndpoint(null);
+      setDeadDeliveries([]);
       addToast('Follow-up removido.', 'success');
     } catch (e: any) {
       addToast(e?.message || 'Erro ao excluir follow-up', 'error');
@@ -451,7 +530,7 @@ export const WebhooksSection: React.FC = () => {
     <SettingsSection title="Webhooks" icon={Webhook}>
       <p className="text-sm text-slate-600 dark:text-slate-300 mb-5 leading-relaxed">
         Ative automações sem técnico: escolha onde os leads entram e (opcionalmente) conecte um endpoint
-        para follow-up quando um lead mudar de etapa.
+        para follow-up quando algo acontecer no CRM (lead mudou de etapa, negócio ganho/perdido, atividade concluída...).
       </p>
 
       <div className="mb-5 flex items-center justify-between gap-3">
@@ -523,6 +602,32 @@ export const WebhooksSection: React.FC = () => {
                     <Pencil className="h-4 w-4" />
                     Ajustar / Testar
                   </button>
+                  <button
+                    onClick={() => setIsProviderOpen(true)}
+                    disabled={loading}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+                  >
+                    <Store className="h-4 w-4" />
+                    Provedor
+                    {activeInbound.provider && activeInbound.provider !== 'generic' ? (
+                      <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-primary-100 dark:bg-primary-500/10 text-primary-700 dark:text-primary-300">
+                        {activeInbound.provider}
+                      </span>
+                    ) : null}
+                  </button>
+                  <button
+                    onClick={() => setIsMappingOpen(true)}
+                    disabled={loading}
+                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+                  >
+                    <Shuffle className="h-4 w-4" />
+                    Mapear campos
+                    {activeInbound.field_mapping?.length ? (
+                      <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-primary-100 dark:bg-primary-500/10 text-primary-700 dark:text-primary-300">
+                        {activeInbound.field_mapping.length}
+                      </span>
+                    ) : null}
+                  </button>
                   <button
                     onClick={() => handleToggleInboundActive(!activeInbound.active)}
                     disabled={loading}
@@ -573,7 +678,7 @@ export const WebhooksSection: React.FC = () => {
               <div>
                 <h4 className="text-sm font-bold text-slate-900 dark:text-white">Follow-up (Webhook de saída)</h4>
                 <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">
-                  Quando um lead mudar de etapa, enviamos um aviso para seu WhatsApp/n8n/Make.
+                  Quando um lead mudar de etapa (ou outro evento escolhido), enviamos um aviso para seu WhatsApp/n8n/Make.
                 </p>
               </div>
               <span className={`text-[10px] font-bold px-2 py-1 rounded uppercase ${endpoint?.active ? 'bg-green-100 dark:bg-green-500/10 text-green-700 dark:text-green-400' : 'bg-slate-100 dark:bg-white/10 text-slate-600 dark:text-slate-300'}`}>
@@ -605,7 +710,12 @@ export const WebhooksSection: React.FC = () => {
                     {copiedKey === 'outboundSecret' && <Check className="h-4 w-4 text-green-600" />}
                   </button>
                   <button
-                    onClick={() => { setFollowUpUrl(endpoint.url); setIsFollowUpOpen(true); }}
+                    onClick={() => {
+                      setFollowUpUrl(endpoint.url);
+                      setFollowUpMaxAttempts(endpoint.max_attempts ?? DEFAULT_MAX_ATTEMPTS);
+                      setFollowUpEvents(normalizeOutboundWebhookEvents(endpoint.events));
+                      setIsFollowUpOpen(true);
+                    }}
                     disabled={loading}
                     className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
                   >
@@ -637,6 +747,56 @@ export const WebhooksSection: React.FC = () => {
                     Excluir
                   </button>
                 </div>
+
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {OUTBOUND_WEBHOOK_EVENTS.filter((ev) => (endpoint.events || []).includes(ev.type)).map((ev) => (
+                    <span
+                      key={ev.type}
+                      title={ev.type}
+                      className="px-2 py-0.5 rounded-full text-[11px] font-semibold bg-slate-100 dark:bg-white/10 text-slate-600 dark:text-slate-300"
+                    >
+                      {ev.label}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  Se o destino falhar, tentamos de novo automaticamente (até {endpoint.max_attempts ?? DEFAULT_MAX_ATTEMPTS}x, com intervalos crescentes).
+                </div>
+
+                {deadDeliveries.length > 0 ? (
+                  <div className="mt-3 p-3 rounded-xl bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 space-y-2">
+                    <div className="flex items-center gap-2 text-xs font-bold text-red-800 dark:text-red-200">
+                      <AlertTriangle className="h-4 w-4" />
+                      Avisos que não foram entregues
+                    </div>
+                    {deadDeliveries.map((d) => (
+                      <div
+                        key={d.id}
+                        className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-white dark:bg-black/20 border border-red-100 dark:border-red-500/20"
+                      >
+                        <div className="min-w-0">
+                          <div className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate">
+                            {d.event?.event_type || 'evento'} · {new Date(d.attempted_at).toLocaleString()}
+                          </div>
+                          <div className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                            {d.attempt_count} tentativa(s)
+                            {d.response_status ? ` · HTTP ${d.response_status}` : ''}
+                            {d.error ? ` · ${d.error}` : ''}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleReplayDelivery(d.id)}
+                          disabled={replayingId === d.id || !endpoint.active}
+                          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 transition-colors disabled:opacity-60"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          {replayingId === d.id ? 'Reenviando...' : 'Reenviar'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
               </div>
             ) : (
               <div className="mt-4">
@@ -651,6 +811,14 @@ export const WebhooksSection: React.FC = () => {
               </div>
             )}
           </div>
+
+          {hasInbound || endpoint ? (
+            <WebhookDeliveryLog
+              sources={sources}
+              endpoints={endpoint ? [endpoint] : []}
+              buildInboundUrl={buildWebhookUrl}
+            />
+          ) : null}
         </div>
       )}
 
@@ -702,8 +870,15 @@ export const WebhooksSection: React.FC = () => {
           {quickStartTab === 'outbound' ? (
         <div className="space-y-4">
               <div className="text-sm text-slate-700 dark:text-slate-200 leading-relaxed">
-                <b>Follow-up</b> envia um aviso quando um lead muda de etapa. Você cola uma URL (n8n/Make/WhatsApp) e
-                valida o Secret no seu lado.
+                <b>Follow-up</b> envia um aviso quando um lead muda de etapa (ou em outros eventos que você escolher). Você cola uma URL (n8n/Make/WhatsApp) e
+                confere a assinatura no seu lado.
+              </div>
+              <div className="p-4 rounded-2xl bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 text-xs text-slate-600 dark:text-slate-300 leading-relaxed">
+                O Secret <b>não é enviado</b> no aviso. Cada envio traz{' '}
+                <code className="font-mono">X-Webhook-Id</code>, <code className="font-mono">X-Webhook-Timestamp</code> e{' '}
+                <code className="font-mono">X-Webhook-Signature</code> (<code className="font-mono">v1=</code> + HMAC-SHA256 de{' '}
+                <code className="font-mono">timestamp.id.body</code> com o seu Secret). Recalcule no seu destino e descarte
+                avisos com assinatura diferente ou timestamp antigo.
               </div>
               <div className="p-4 rounded-2xl bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10">
                 <div className="flex items-center justify-between gap-3">
@@ -722,6 +897,10 @@ export const WebhooksSection: React.FC = () => {
                     onClick={() => {
                       setIsQuickStartOpen(false);
                       if (endpoint?.url) setFollowUpUrl(endpoint.url);
+                      if (endpoint) {
+                        setFollowUpMaxAttempts(endpoint.max_attempts ?? DEFAULT_MAX_ATTEMPTS);
+                        setFollowUpEvents(normalizeOutboundWebhookEvents(endpoint.events));
+                      }
                       setIsFollowUpOpen(true);
                     }}
                     className="inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-primary-600 text-white hover:bg-primary-700 transition-colors"
@@ -732,7 +911,7 @@ export const WebhooksSection: React.FC = () => {
                 </div>
               </div>
               <div className="text-xs text-slate-500 dark:text-slate-400">
-                Dica: para testar, mova um deal de etapa — o aviso dispara somente na mudança.
+                Dica: para testar, mova um deal de etapa (ou dispare outro evento escolhido) — o aviso sai na hora.
               </div>
             </div>
           ) : (
@@ -898,7 +1077,8 @@ export const WebhooksSection: React.FC = () => {
                           </div>
             <div className="text-xs text-slate-500 dark:text-slate-400">
                             Envie no header <code className="font-mono">X-Webhook-Secret</code> (ou{' '}
-                            <code className="font-mono">Authorization: Bearer</code>).
+                            <code className="font-mono">Authorization: Bearer</code>). O secret na URL (
+                            <code className="font-mono">?token=</code>) só é aceito com o preset RD Station.
             </div>
           </div>
 
@@ -1132,7 +1312,7 @@ export const WebhooksSection: React.FC = () => {
       >
         <div className="space-y-4">
           <div className="text-sm text-slate-600 dark:text-slate-300">
-            Cole a URL do seu WhatsApp/n8n/Make. Quando um lead mudar de etapa, enviaremos um aviso.
+            Cole a URL do seu WhatsApp/n8n/Make e escolha quais acontecimentos do CRM devem gerar um aviso.
           </div>
           <div className="space-y-2">
             <label className="text-xs font-bold text-slate-600 dark:text-slate-300">URL do destino</label>
@@ -1143,6 +1323,47 @@ export const WebhooksSection: React.FC = () => {
               className="w-full px-4 py-2.5 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 text-slate-900 dark:text-white"
             />
           </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-600 dark:text-slate-300">Quando avisar</label>
+            <div className="space-y-1 max-h-56 overflow-y-auto pr-1">
+              {OUTBOUND_WEBHOOK_EVENTS.map((ev) => (
+                <label
+                  key={ev.type}
+                  className="flex items-start gap-2 px-3 py-2 rounded-lg hover:bg-slate-50 dark:hover:bg-white/5 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={followUpEvents.includes(ev.type)}
+                    onChange={() => toggleFollowUpEvent(ev.type)}
+                    className="mt-0.5 rounded border-slate-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-semibold text-slate-800 dark:text-slate-100">{ev.label}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">
+                      {ev.description} <span className="font-mono">{ev.type}</span>
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {followUpEvents.length === 0 ? (
+              <div className="text-xs text-red-600 dark:text-red-300">Selecione pelo menos um evento.</div>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-600 dark:text-slate-300">Tentativas em caso de falha</label>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={followUpMaxAttempts}
+              onChange={(e) => setFollowUpMaxAttempts(Math.max(1, Math.min(20, Number(e.target.value) || 1)))}
+              className="w-full px-4 py-2.5 bg-slate-50 dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 text-slate-900 dark:text-white"
+            />
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              Depois disso o aviso fica em “não entregues” e você pode reenviar manualmente.
+            </div>
+          </div>
 
           <div className="flex items-center justify-end gap-2 pt-2">
             <button
@@ -1153,7 +1374,7 @@ export const WebhooksSection: React.FC = () => {
             </button>
             <button
               onClick={handleSaveFollowUp}
-              disabled={loading || !followUpUrl.trim()}
+              disabled={loading || !followUpUrl.trim() || followUpEvents.length === 0}
               className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
             >
               {endpoint?.id ? 'Salvar' : 'Conectar'}
@@ -1163,6 +1384,36 @@ export const WebhooksSection: React.FC = () => {
         </div>
       </Modal>
 
+      {activeInbound && profile?.organization_id ? (
+        <InboundFieldMappingEditor
+          isOpen={isMappingOpen}
+          onClose={() => setIsMappingOpen(false)}
+          sourceId={activeInbound.id}
+          organizationId={profile.organization_id}
+          initialRules={activeInbound.field_mapping}
+          onSaved={(rules) =>
+            setSources((prev) => prev.map((s) => (s.id === activeInbound.id ? { ...s, field_mapping: rules } : s)))
+          }
+        />
+      ) : null}
+
+      {activeInbound ? (
+        <InboundProviderSettings
+          isOpen={isProviderOpen}
+          onClose={() => setIsProviderOpen(false)}
+          sourceId={activeInbound.id}
+          webhookUrl={buildWebhookUrl(activeInbound.id)}
+          secret={activeInbound.secret}
+          provider={activeInbound.provider}
+          providerSecret={activeInbound.provider_secret}
+          onSaved={(provider, providerSecret) =>
+            setSources((prev) =>
+              prev.map((s) => (s.id === activeInbound.id ? { ...s, provider, provider_secret: providerSecret } : s))
+            )
+          }
+        />
+      ) : null}
+
       <ConfirmModal
         isOpen={confirmDeleteInboundOpen}
         onClose={() => setConfirmDeleteInboundOpen(false)}
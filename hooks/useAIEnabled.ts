@@ -21,8 +21,8 @@ export interface UseAIEnabledResult {
   isAIEnabled: boolean;
   /** A API Key configurada */
   apiKey: string | null;
-  /** Provider configurado (google, openai, anthropic) */
-  provider: 'google' | 'openai' | 'anthropic';
+  /** Provider configurado (google, openai, anthropic, openai_compatible) */
+  provider: 'google' | 'openai' | 'anthropic' | 'openai_compatible';
   /** Navega para as configurações de IA */
   goToSettings: () => void;
 }
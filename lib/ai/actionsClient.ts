@@ -11,7 +11,7 @@ import type { ParsedAction } from '@/types/aiActions';
  * O parâmetro `config` (legado) é aceito apenas para compatibilidade de assinatura.
  */
 export interface AIConfigLegacy {
-  provider: 'google' | 'openai' | 'anthropic';
+  provider: 'google' | 'openai' | 'anthropic' | 'openai_compatible';
   apiKey: string;
   model: string;
   thinking: boolean;
@@ -2,8 +2,8 @@
  * @fileoverview Configuração de provedores de IA para o CRM.
  * 
  * Este módulo abstrai a criação de clientes de diferentes provedores de IA
- * (Google Gemini, OpenAI, Anthropic Claude), permitindo trocar entre eles
- * de forma transparente.
+ * (Google Gemini, OpenAI, Anthropic Claude e servidores compatíveis com a API da
+ * OpenAI — Ollama, vLLM, LM Studio), permitindo trocar entre eles de forma transparente.
  * 
  * @module services/ai/config
  */
@@ -15,9 +15,18 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 /**
  * Provedores de IA suportados pelo sistema.
  * 
- * @typedef {'google' | 'openai' | 'anthropic'} AIProvider
+ * `openai_compatible` é um endpoint próprio (self-hosted) que fala o protocolo de
+ * Chat Completions da OpenAI; os dados não saem da infraestrutura do cliente.
+ *
+ * @typedef {'google' | 'openai' | 'anthropic' | 'openai_compatible'} AIProvider
  */
-export type AIProvider = 'google' | 'openai' | 'anthropic';
+export type AIProvider = 'google' | 'openai' | 'anthropic' | 'openai_compatible';
+
+/** Opções extras por provedor. */
+export type AIModelOptions = {
+    /** Base URL do servidor compatível com OpenAI (ex.: `http://localhost:11434/v1`). */
+    baseURL?: string;
+};
 
 /**
  * Cria e retorna uma instância do modelo de IA configurada.
@@ -26,10 +35,13 @@ export type AIProvider = 'google' | 'openai' | 'anthropic';
  * - Google: gemini-1.5-flash
  * - OpenAI: gpt-4o
  * - Anthropic: claude-3-5-sonnet-20240620
+ * - Compatível com OpenAI: sem padrão (o modelo depende do servidor); exige `options.baseURL`
+ *   e a API key é opcional.
  * 
  * @param provider - Provedor de IA a ser utilizado.
  * @param apiKey - Chave de API do provedor.
  * @param modelId - ID do modelo específico (opcional, usa padrão se não informado).
+ * @param options - Opções extras (base URL do provedor compatível com OpenAI).
  * @returns Instância configurada do modelo de IA.
  * @throws Error se a API key não for fornecida ou provedor não for suportado.
  * 
@@ -42,7 +54,20 @@ export type AIProvider = 'google' | 'openai' | 'anthropic';
  * const model = getModel('openai', 'sua-api-key', '');
  * ```
  */
-export const getModel = (provider: AIProvider, apiKey: string, modelId: string) => {
+export const getModel = (provider: AIProvider, apiKey: string, modelId: string, options: AIModelOptions = {}) => {
+    if (provider === 'openai_compatible') {
+        if (!options.baseURL) {
+            throw new Error('Base URL is missing');
+        }
+        if (!modelId) {
+            throw new Error('Model is missing');
+        }
+        // Servidores locais normalmente não exigem key; o SDK exige um valor.
+        const compatible = createOpenAI({ name: 'openai-compatible', baseURL: options.baseURL, apiKey: apiKey || 'not-needed' });
+        // Chat Completions: a Responses API (padrão do SDK) não é implementada por Ollama/vLLM/LM Studio.
+        return compatible.chat(modelId);
+    }
+
     if (!apiKey) {
         throw new Error('API Key is missing');
     }
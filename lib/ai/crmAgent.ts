@@ -1,13 +1,12 @@
-import { ToolLoopAgent, stepCountIs } from 'ai';
+import { ToolLoopAgent, stepCountIs, wrapLanguageModel, type LanguageModelMiddleware } from 'ai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { CRMCallOptionsSchema, type CRMCallOptions } from '@/types/ai';
 import { createCRMTools } from './tools';
+import { getModel, type AIProvider } from './config';
 import { formatPriorityPtBr } from '@/lib/utils/priority';
 
-type AIProvider = 'google' | 'openai' | 'anthropic';
-
 function sleep(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -438,21 +437,34 @@ APRESENTAÇÃO (MUITO IMPORTANTE):
 - NÃO cite nomes internos de tools (ex.: "listStagnantDeals", "markDealAsWon")
 - Sempre prefira: título do deal (nome do card) + contato + valor + estágio (quando fizer sentido)`;
 
+const NO_TOOLS_INSTRUCTIONS = `
+
+MODO SEM FERRAMENTAS:
+- O modelo configurado não executa ferramentas: você NÃO consegue consultar nem alterar dados do CRM
+- Responda só com o contexto acima; se o pedido exigir buscar/alterar dados, explique a limitação e oriente o usuário a fazer pela interface`;
+
 /**
  * Factory function to create a CRM Agent with dynamic context
  * 
  * @param context - Type-safe context from the request
  * @param userId - Current user ID
- * @param apiKey - Google AI API key from organization_settings
+ * @param apiKey - Provider API key from organization_settings (optional for `openai_compatible`)
  * @param modelId - Model to use (default: gemini-2.0-flash-exp)
+ * @param provider - AI provider configured for the organization
+ * @param options.baseURL - Base URL of the OpenAI-compatible server (`openai_compatible` only)
+ * @param options.toolsEnabled - false when the model can't call tools (local model not probed/unsupported)
+ * @param options.usage - Usage metering middleware (`lib/ai/usage`); also stops the tool loop when the budget runs out
  */
 export async function createCRMAgent(
     context: CRMCallOptions,
     userId: string,
     apiKey: string,
     modelId: string = 'gemini-2.0-flash-exp',
-    provider: AIProvider = 'google'
+    provider: AIProvider = 'google',
+    options: { baseURL?: string; toolsEnabled?: boolean; usage?: LanguageModelMiddleware } = {}
 ) {
+    const toolsEnabled = options.toolsEnabled ?? true;
+
     console.log('[CRMAgent] 🤖 Creating agent with context:', {
         boardId: context.boardId,
         boardName: context.boardName,
@@ -460,11 +472,12 @@ export async function createCRMAgent(
         userId,
         modelId,
         provider,
+        toolsEnabled,
     });
 
     // Create provider client with org-specific API key
     // NOTE: Model IDs are stored in organization_settings and passed through.
-    const model = (() => {
+    const providerModel = (() => {
         switch (provider) {
             case 'google': {
                 const google = createGoogleGenerativeAI({ apiKey });
@@ -494,6 +507,10 @@ export async function createCRMAgent(
                 const anthropic = createAnthropic({ apiKey });
                 return anthropic(modelId);
             }
+            case 'openai_compatible': {
+                // Self-hosted (Ollama/vLLM/LM Studio): dados não saem da infraestrutura do cliente.
+                return getModel('openai_compatible', apiKey, modelId, { baseURL: options.baseURL });
+            }
             default: {
                 // Should be unreachable due to type, but keep runtime safety.
                 const google = createGoogleGenerativeAI({ apiKey });
@@ -501,6 +518,7 @@ export async function createCRMAgent(
             }
         }
     })();
+    const model = options.usage ? wrapLanguageModel({ model: providerModel, middleware: options.usage }) : providerModel;
 
     // Create tools with context injected
     const tools = createCRMTools(context, userId);
@@ -513,7 +531,7 @@ export async function createCRMAgent(
     return new ToolLoopAgent({
         model,
         callOptionsSchema: CRMCallOptionsSchema,
-        instructions: BASE_INSTRUCTIONS,
+        instructions: toolsEnabled ? BASE_INSTRUCTIONS : BASE_INSTRUCTIONS + NO_TOOLS_INSTRUCTIONS,
         // prepareCall runs ONCE at the start - injects initial context
         prepareCall: ({ options, ...settings }) => {
             return {
@@ -578,6 +596,8 @@ export async function createCRMAgent(
             return {}; // No modifications needed
         },
         tools,
+        // Modelo sem suporte a tool calling: conversa apenas com o contexto injetado.
+        activeTools: toolsEnabled ? undefined : [],
         stopWhen: stepCountIs(10),
     });
 }
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Provedor self-hosted compatível com a API da OpenAI (Ollama, vLLM, LM Studio).
+ *
+ * Para clientes que não podem enviar dados a provedores de nuvem (contratos LGPD), a organização
+ * aponta `ai_local_base_url` para o próprio servidor. Nem todo modelo local sabe chamar ferramentas,
+ * então o probe (`probeOpenAICompatibleModel`) verifica isso antes de o agente ganhar as tools do CRM
+ * (`ai_local_supports_tools`).
+ *
+ * @module lib/ai/localProvider
+ */
+
+import { APICallError, generateText, tool } from 'ai';
+import { z } from 'zod';
+import { getModel } from './config';
+
+const PROBE_TIMEOUT_MS = 20_000;
+const PROBE_TOOL = 'crm_probe_echo';
+
+/**
+ * Normaliza a base URL informada pelo admin: só http(s), sem query/hash e sem `/` final.
+ * Retorna `null` se inválida. Endereços locais (localhost, rede interna) são o caso de uso, então são aceitos.
+ */
+export function normalizeLocalBaseUrl(value: string | null | undefined): string | null {
+  const raw = value?.trim();
+  if (!raw) return null;
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (url.username || url.password) return null;
+  url.search = '';
+  url.hash = '';
+  return url.toString().replace(/\/+$/, '');
+}
+
+export type LocalModelProbeResult = {
+  /** O servidor respondeu (lista de modelos ou uma geração). */
+  reachable: boolean;
+  /** O modelo emitiu a chamada de ferramenta pedida. */
+  supportsTools: boolean;
+  /** Modelos anunciados em `GET /models` (quando o servidor implementa). */
+  models: string[];
+  error?: string;
+};
+
+function describeError(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, 300);
+}
+
+async function listModels(baseURL: string, apiKey: string, signal: AbortSignal) {
+  const res = await fetch(`${baseURL}/models`, {
+    headers: { accept: 'application/json', ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}) },
+    signal,
+  });
+  if (!res.ok) throw new Error(`GET /models: HTTP ${res.status}`);
+  const body = (await res.json().catch(() => null)) as { data?: Array<{ id?: unknown }> } | null;
+  return (body?.data ?? []).map((m) => m?.id).filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Verifica conectividade e suporte a tool calling do modelo.
+ * Pede uma chamada obrigatória (`toolChoice: 'required'`) a uma ferramenta trivial, sem executá-la.
+ */
+export async function probeOpenAICompatibleModel(opts: {
+  baseURL: string;
+  apiKey?: string | null;
+  model: string;
+}): Promise<LocalModelProbeResult> {
+  const apiKey = opts.apiKey?.trim() || '';
+  const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+
+  let models: string[] = [];
+  let reachable = false;
+  try {
+    models = await listModels(opts.baseURL, apiKey, signal);
+    reachable = true;
+  } catch {
+    // Alguns servidores não implementam /models; a geração abaixo decide.
+  }
+
+  try {
+    const result = await generateText({
+      model: getModel('openai_compatible', apiKey, opts.model, { baseURL: opts.baseURL }),
+      prompt: `Call the ${PROBE_TOOL} tool with the text "ok".`,
+      tools: {
+        [PROBE_TOOL]: tool({
+          description: 'Echoes the given text. Used to check tool calling support.',
+          inputSchema: z.object({ text: z.string() }),
+        }),
+      },
+      toolChoice: 'required',
+      maxRetries: 0,
+      abortSignal: signal,
+    });
+    const supportsTools = result.toolCalls.some((call) => call.toolName === PROBE_TOOL);
+    return {
+      reachable: true,
+      supportsTools,
+      models,
+      ...(supportsTools ? {} : { error: 'O modelo respondeu, mas não chamou a ferramenta.' }),
+    };
+  } catch (error) {
+    // Resposta HTTP com erro (ex.: Ollama "does not support tools") ainda prova que o servidor está no ar.
+    const answered = APICallError.isInstance(error) && typeof error.statusCode === 'number';
+    return { reachable: reachable || answered, supportsTools: false, models, error: describeError(error) };
+  }
+}
@@ -22,3 +22,12 @@ export function renderPromptTemplate(template: string, vars: Record<string, unkn
   });
 }
 
+/**
+ * Variáveis `{{var}}` usadas no template (sem repetição, na ordem em que aparecem).
+ * Usado no preview para apontar variáveis que ficariam vazias.
+ */
+export function listPromptTemplateVariables(template: string): string[] {
+  const seen = new Set<string>();
+  for (const m of String(template || '').matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) seen.add(m[1]);
+  return Array.from(seen);
+}
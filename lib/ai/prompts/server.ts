@@ -2,6 +2,7 @@ import 'server-only';
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getPromptCatalogMap } from './catalog';
+import { pickPromptExperimentArm, type PromptExperimentArm, type PromptUsage } from './versions';
 
 export type PromptResolution = {
   key: string;
@@ -9,8 +10,21 @@ export type PromptResolution = {
   source: 'override' | 'default';
   version?: number;
   updatedAt?: string;
+  /** Presente quando um teste A/B está em andamento para a key (e a chamada informou `bucketKey`). */
+  experiment?: { id: string; arm: PromptExperimentArm };
 };
 
+/**
+ * Função pública `toPromptUsage` do projeto.
+ *
+ * @param {PromptResolution | null} resolved - Prompt resolvido.
+ * @param {string} key - Key do prompt.
+ * @returns {PromptUsage} Key e versão (`null` = padrão do catálogo).
+ */
+export function toPromptUsage(resolved: PromptResolution | null, key: string): PromptUsage {
+  return { key, version: resolved?.source === 'override' ? resolved.version ?? null : null };
+}
+
 type DbPromptRow = {
   key: string;
   content: string;
@@ -25,16 +39,27 @@ type DbPromptRow = {
  * @param {SupabaseClient<any, "public", "public", any, any>} supabase - Parâmetro `supabase`.
  * @param {string} organizationId - Identificador do recurso.
  * @param {string} key - Parâmetro `key`.
+ * @param {{ bucketKey?: string }} opts - `bucketKey` (ex.: id do usuário) habilita o teste A/B da key.
  * @returns {Promise<PromptResolution | null>} Retorna um valor do tipo `Promise<PromptResolution | null>`.
  */
 export async function getResolvedPrompt(
   supabase: SupabaseClient,
   organizationId: string,
-  key: string
+  key: string,
+  opts: { bucketKey?: string } = {}
 ): Promise<PromptResolution | null> {
   const catalog = getPromptCatalogMap();
   const fallback = catalog[key];
 
+  if (opts.bucketKey) {
+    const variant = await resolveExperimentVariant(supabase, organizationId, key, opts.bucketKey);
+    if (variant && 'content' in variant) return variant;
+    if (variant) {
+      const control = await getResolvedPrompt(supabase, organizationId, key);
+      return control ? { ...control, experiment: variant.experiment } : null;
+    }
+  }
+
   const { data, error } = await supabase
     .from('ai_prompt_templates')
     .select('key, content, version, is_active, updated_at')
@@ -68,3 +93,69 @@ export async function getResolvedPrompt(
   };
 }
 
+
+/**
+ * Teste A/B em andamento: braço `variant` → prompt da versão candidata; braço `control` → só o marcador
+ * (o chamador resolve a versão ativa normalmente). Falhas aqui nunca quebram a IA (cai no ativo).
+ */
+async function resolveExperimentVariant(
+  supabase: SupabaseClient,
+  organizationId: string,
+  key: string,
+  bucketKey: string
+): Promise<PromptResolution | { experiment: NonNullable<PromptResolution['experiment']> } | null> {
+  const { data: experiment, error } = await supabase
+    .from('ai_prompt_experiments')
+    .select('id, variant_version, traffic_percent')
+    .eq('organization_id', organizationId)
+    .eq('key', key)
+    .eq('status', 'running')
+    .maybeSingle();
+
+  if (error || !experiment) return null;
+
+  const arm = pickPromptExperimentArm(experiment, bucketKey);
+  const marker = { experiment: { id: experiment.id as string, arm } };
+  if (arm === 'control') return marker;
+
+  const { data: row } = await supabase
+    .from('ai_prompt_templates')
+    .select('key, content, version, is_active, updated_at')
+    .eq('organization_id', organizationId)
+    .eq('key', key)
+    .eq('version', experiment.variant_version)
+    .maybeSingle();
+
+  const variant = (row as DbPromptRow | null) ?? null;
+  if (!variant?.content) return { experiment: { ...marker.experiment, arm: 'control' } };
+
+  return {
+    key,
+    content: variant.content,
+    source: 'override',
+    version: variant.version,
+    updatedAt: variant.updated_at,
+    experiment: marker.experiment,
+  };
+}
+
+/**
+ * Encerra o teste A/B em andamento da key (ex.: nova versão salva, rollback ou reset para o padrão).
+ *
+ * @param {SupabaseClient} supabase - Client do admin (RLS).
+ * @param {string} organizationId - Identificador do recurso.
+ * @param {string} key - Key do prompt.
+ * @returns {Promise<void>} Não retorna valor.
+ */
+export async function stopRunningPromptExperiment(supabase: SupabaseClient, organizationId: string, key: string) {
+  const { error } = await supabase
+    .from('ai_prompt_experiments')
+    .update({ status: 'stopped', ended_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .eq('key', key)
+    .eq('status', 'running');
+
+  if (error) {
+    console.warn('[ai/prompts] Failed to stop experiment.', { key, message: error.message });
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Histórico de versões de prompt: diff entre versões e teste A/B (divisão de tráfego + aceite).
+ * Funções puras (usadas pelo servidor e pela Central de I.A).
+ */
+
+/** Key + versão que gerou uma resposta (devolvida ao client para o feedback do teste A/B). */
+export type PromptUsage = { key: string; version: number | null };
+
+export type PromptDiffLine = { type: 'same' | 'add' | 'remove'; text: string };
+
+/**
+ * Diff por linha (LCS). Prompts são curtos (dezenas de linhas), então O(n·m) é suficiente.
+ */
+export function diffPromptLines(before: string, after: string): PromptDiffLine[] {
+  const a = String(before ?? '').split('\n');
+  const b = String(after ?? '').split('\n');
+
+  // lcs[i][j] = tamanho da maior subsequência comum de a[i..] e b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'remove', text: a[i++] });
+    } else {
+      out.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) out.push({ type: 'add', text: b[j++] });
+  return out;
+}
+
+export type PromptExperimentArm = 'control' | 'variant';
+
+/** FNV-1a 32 bits: estável entre processos (o mesmo usuário sempre cai no mesmo braço). */
+function hash32(value: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Braço do teste para um usuário. O id do teste entra no hash para que testes diferentes
+ * não caiam sempre nos mesmos usuários.
+ */
+export function pickPromptExperimentArm(
+  experiment: { id: string; traffic_percent: number },
+  bucketKey: string
+): PromptExperimentArm {
+  const bucket = hash32(`${experiment.id}:${bucketKey}`) % 100;
+  return bucket < experiment.traffic_percent ? 'variant' : 'control';
+}
+
+export type PromptFeedbackRow = {
+  prompt_version: number | null;
+  accepted: number | string;
+  dismissed: number | string;
+};
+
+export type PromptArmStats = {
+  version: number | null;
+  accepted: number;
+  dismissed: number;
+  total: number;
+  /** accepted / total; `null` sem feedback */
+  acceptanceRate: number | null;
+};
+
+/** Amostra mínima por braço antes de declarar vencedor. */
+export const MIN_EXPERIMENT_SAMPLE = 20;
+
+function armStats(rows: PromptFeedbackRow[], version: number | null): PromptArmStats {
+  const row = rows.find((r) => (r.prompt_version ?? null) === version);
+  const accepted = Number(row?.accepted ?? 0);
+  const dismissed = Number(row?.dismissed ?? 0);
+  const total = accepted + dismissed;
+  return { version, accepted, dismissed, total, acceptanceRate: total ? accepted / total : null };
+}
+
+/**
+ * Compara o aceite dos dois braços (teste z de duas proporções, 95%).
+ * `winner` só é definido com amostra mínima nos dois braços e diferença significativa.
+ */
+export function comparePromptExperiment(
+  rows: PromptFeedbackRow[],
+  versions: { control: number | null; variant: number }
+): { control: PromptArmStats; variant: PromptArmStats; winner: PromptExperimentArm | null; zScore: number | null } {
+  const control = armStats(rows, versions.control);
+  const variant = armStats(rows, versions.variant);
+
+  if (control.total < MIN_EXPERIMENT_SAMPLE || variant.total < MIN_EXPERIMENT_SAMPLE) {
+    return { control, variant, winner: null, zScore: null };
+  }
+
+  const pooled = (control.accepted + variant.accepted) / (control.total + variant.total);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / control.total + 1 / variant.total));
+  if (!se) return { control, variant, winner: null, zScore: null };
+
+  const zScore = ((variant.acceptanceRate ?? 0) - (control.acceptanceRate ?? 0)) / se;
+  const winner = Math.abs(zScore) >= 1.96 ? (zScore > 0 ? 'variant' : 'control') : null;
+  return { control, variant, winner, zScore };
+}
@@ -1,16 +1,200 @@
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
+/**
+ * @fileoverview Resolução do modelo de IA da organização (provedor + cadeia de fallback).
+ *
+ * O provedor/modelo principal vem de `organization_settings` (Central de I.A.). Opcionalmente a
+ * organização define `ai_fallback_chain`: uma lista ordenada de provedores/modelos tentados quando o
+ * anterior responde com erro de cota/rate limit (429, `RESOURCE_EXHAUSTED`, `insufficient_quota`...).
+ *
+ * O fallback é um middleware do AI SDK: o modelo retornado é um único `LanguageModel`, então
+ * `generateText`/`generateObject`/`streamText` funcionam sem mudança nas rotas.
+ *
+ * @module lib/ai/provider
+ */
+
+import { APICallError, RetryError, wrapLanguageModel, type LanguageModelMiddleware } from 'ai';
+import { getModel, type AIProvider } from './config';
+
+export const AI_PROVIDERS: readonly AIProvider[] = ['google', 'openai', 'anthropic', 'openai_compatible'];
+
+/** Máximo de entradas na cadeia de fallback (além do provedor principal). */
+export const MAX_AI_FALLBACKS = 3;
+
+export type AIFallbackEntry = {
+  provider: AIProvider;
+  /** Vazio = modelo padrão do provedor (ver `getModel`). */
+  model: string;
+};
+
+/** Credenciais por provedor; `null` = provedor não configurado (fica fora da cadeia). */
+export type AIProviderCredentials = Partial<Record<AIProvider, { apiKey: string; baseURL?: string } | null>>;
+
+export type AIModelChainEntry = AIFallbackEntry & { apiKey: string; baseURL?: string };
+
+export const AI_PROVIDER_LABELS: Record<AIProvider, string> = {
+  google: 'Google Gemini',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  openai_compatible: 'Compatível com OpenAI (local)',
+};
+
+function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && (AI_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Normaliza o valor de `organization_settings.ai_fallback_chain` (jsonb).
+ * Entradas inválidas são descartadas; a ordem é preservada e duplicatas removidas.
+ */
+export function parseAIFallbackChain(value: unknown): AIFallbackEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  const out: AIFallbackEntry[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { provider, model } = item as { provider?: unknown; model?: unknown };
+    if (!isAIProvider(provider)) continue;
+
+    const entry = { provider, model: typeof model === 'string' ? model.trim().slice(0, 200) : '' };
+    const key = `${entry.provider}:${entry.model}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(entry);
+    if (out.length >= MAX_AI_FALLBACKS) break;
+  }
+  return out;
+}
+
+/**
+ * Credenciais por provedor a partir da linha de `organization_settings`.
+ * Os provedores de nuvem exigem key; o compatível com OpenAI exige a base URL (key opcional).
+ */
+export function providerCredentialsFromSettings(settings: {
+  ai_google_key?: string | null;
+  ai_openai_key?: string | null;
+  ai_anthropic_key?: string | null;
+  ai_local_base_url?: string | null;
+  ai_local_key?: string | null;
+} | null | undefined): AIProviderCredentials {
+  const keyed = (apiKey: string | null | undefined) => (apiKey?.trim() ? { apiKey: apiKey.trim() } : null);
+  const baseURL = settings?.ai_local_base_url?.trim();
+  return {
+    google: keyed(settings?.ai_google_key),
+    openai: keyed(settings?.ai_openai_key),
+    anthropic: keyed(settings?.ai_anthropic_key),
+    openai_compatible: baseURL ? { apiKey: settings?.ai_local_key?.trim() || '', baseURL } : null,
+  };
+}
+
+/**
+ * Monta a cadeia efetiva: o principal primeiro, depois os fallbacks.
+ * Provedores sem credencial são pulados (o principal também: nesse caso o primeiro fallback configurado assume).
+ */
+export function buildAIModelChain(opts: {
+  primary: AIFallbackEntry;
+  fallbacks: AIFallbackEntry[];
+  credentials: AIProviderCredentials;
+}): AIModelChainEntry[] {
+  const chain: AIModelChainEntry[] = [];
+  const seen = new Set<string>();
+  for (const entry of [opts.primary, ...opts.fallbacks]) {
+    const credentials = opts.credentials[entry.provider];
+    if (!credentials) continue;
+    // Servidor local não tem modelo padrão.
+    if (entry.provider === 'openai_compatible' && !entry.model) continue;
+    const key = `${entry.provider}:${entry.model}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    chain.push({ ...entry, ...credentials });
+  }
+  return chain;
+}
+
+const QUOTA_MESSAGE = /(rate.?limit|quota|resource.?exhausted|insufficient_quota|too many requests|overloaded)/i;
+
+/**
+ * Erro de cota/rate limit do provedor (o único caso em que o fallback entra).
+ * Erros de prompt, schema ou autenticação continuam subindo para a rota.
+ */
+export function isQuotaOrRateLimitError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) return isQuotaOrRateLimitError(error.lastError);
+
+  if (APICallError.isInstance(error)) {
+    if (error.statusCode === 429 || error.statusCode === 529) return true;
+    return QUOTA_MESSAGE.test(`${error.message} ${error.responseBody ?? ''}`);
+  }
+
+  if (error && typeof error === 'object') {
+    const e = error as { status?: unknown; statusCode?: unknown; message?: unknown };
+    const status = typeof e.statusCode === 'number' ? e.statusCode : e.status;
+    if (status === 429 || status === 529) return true;
+    if (typeof e.message === 'string') return QUOTA_MESSAGE.test(e.message);
+  }
+  return false;
+}
 
 /**
- * Creates a Google Generative AI provider with the given API key.
- * This allows for dynamic API key configuration per request,
- * since the key is stored in the database per organization.
+ * Middleware que tenta os próximos modelos da cadeia quando o atual estoura cota.
+ * Só a abertura da chamada é coberta: depois que um stream começou a emitir, não há troca de modelo.
  */
-export function createProvider(apiKey: string) {
-    return createGoogleGenerativeAI({ apiKey });
+export function createFallbackMiddleware(
+  fallbacks: Array<ReturnType<typeof getModel>>,
+  onFallback?: (info: { from: string; to: string; error: unknown }) => void
+): LanguageModelMiddleware {
+  const run = async <T>(
+    first: () => PromiseLike<T>,
+    next: (model: ReturnType<typeof getModel>) => PromiseLike<T>,
+    firstLabel: string
+  ): Promise<T> => {
+    let label = firstLabel;
+    try {
+      return await first();
+    } catch (error) {
+      let lastError = error;
+      for (const model of fallbacks) {
+        if (!isQuotaOrRateLimitError(lastError)) break;
+        const to = `${model.provider}:${model.modelId}`;
+        onFallback?.({ from: label, to, error: lastError });
+        try {
+          return await next(model);
+        } catch (e) {
+          lastError = e;
+          label = to;
+        }
+      }
+      throw lastError;
+    }
+  };
+
+  return {
+    specificationVersion: 'v3',
+    wrapGenerate: ({ doGenerate, params, model }) =>
+      run(doGenerate, (m) => m.doGenerate(params), `${model.provider}:${model.modelId}`),
+    wrapStream: ({ doStream, params, model }) =>
+      run(doStream, (m) => m.doStream(params), `${model.provider}:${model.modelId}`),
+  };
 }
 
 /**
- * Default model to use for the CRM assistant.
- * gemini-2.0-flash-exp has better tool/function calling support.
+ * Modelo da organização com fallback: o primeiro da cadeia responde; em erro de cota, os seguintes.
+ * Com uma única entrada retorna o próprio modelo. `usage` é o middleware de medição (`lib/ai/usage`).
  */
-export const DEFAULT_MODEL = 'gemini-2.0-flash-exp';
+export function createModelWithFallback(chain: AIModelChainEntry[], usage?: LanguageModelMiddleware) {
+  if (chain.length === 0) {
+    throw new Error('API Key is missing');
+  }
+
+  // A medição envolve cada modelo da cadeia: o consumo fica no provedor/modelo que de fato respondeu.
+  const [primary, ...rest] = chain.map((entry) => {
+    const model = getModel(entry.provider, entry.apiKey, entry.model, { baseURL: entry.baseURL });
+    return usage ? wrapLanguageModel({ model, middleware: usage }) : model;
+  });
+  if (rest.length === 0) return primary;
+
+  return wrapLanguageModel({
+    model: primary,
+    middleware: createFallbackMiddleware(rest, ({ from, to }) => {
+      console.warn(`[ai] cota esgotada em ${from}; tentando ${to}`);
+    }),
+  });
+}
@@ -2,7 +2,16 @@ import 'server-only';
 
 import { createClient } from '@/lib/supabase/server';
 import { isAllowedOrigin } from '@/lib/security/sameOrigin';
-import { getModel, type AIProvider } from '@/lib/ai/config';
+import { type AIProvider } from '@/lib/ai/config';
+import {
+  AI_PROVIDER_LABELS,
+  buildAIModelChain,
+  createModelWithFallback,
+  parseAIFallbackChain,
+  providerCredentialsFromSettings,
+  type AIModelChainEntry,
+} from '@/lib/ai/provider';
+import { AIBudgetExceededError, createAIUsageMeter } from '@/lib/ai/usage';
 
 export type AITaskContext = {
   supabase: Awaited<ReturnType<typeof createClient>>;
@@ -11,7 +20,9 @@ export type AITaskContext = {
   provider: AIProvider;
   modelId: string;
   apiKey: string;
-  model: ReturnType<typeof getModel>;
+  /** Provedores/modelos efetivos, na ordem em que são tentados (principal + fallbacks com key). */
+  chain: AIModelChainEntry[];
+  model: ReturnType<typeof createModelWithFallback>;
 };
 
 function json(body: unknown, status = 200): Response {
@@ -51,13 +62,21 @@ toResponse() {
   }
 }
 
+/**
+ * Orçamento de IA esgotado (antes ou no meio da geração) → 429 `AI_BUDGET_EXCEEDED`.
+ */
+export function aiBudgetHttpError(err: AIBudgetExceededError) {
+  return new AITaskHttpError(429, err.code, err.message);
+}
+
 /**
  * Função pública `requireAITaskContext` do projeto.
  *
  * @param {Request} req - Objeto da requisição.
+ * @param {string} feature - Chave da função de IA (registrada no consumo e no orçamento).
  * @returns {Promise<AITaskContext>} Retorna um valor do tipo `Promise<AITaskContext>`.
  */
-export async function requireAITaskContext(req: Request): Promise<AITaskContext> {
+export async function requireAITaskContext(req: Request, feature: string): Promise<AITaskContext> {
   // Mitigação CSRF: endpoint autenticado por cookies.
   if (!isAllowedOrigin(req)) {
     throw new AITaskHttpError(403, 'FORBIDDEN', 'Forbidden');
@@ -87,7 +106,7 @@ export async function requireAITaskContext(req: Request): Promise<AITaskContext>
 
   const { data: orgSettings, error: orgError } = await supabase
     .from('organization_settings')
-    .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key')
+    .select('ai_enabled, ai_provider, ai_model, ai_google_key, ai_openai_key, ai_anthropic_key, ai_local_base_url, ai_local_key, ai_fallback_chain')
     .eq('organization_id', organizationId)
     .single();
 
@@ -98,32 +117,43 @@ export async function requireAITaskContext(req: Request): Promise<AITaskContext>
 
   const provider: AIProvider = (orgSettings?.ai_provider ?? 'google') as AIProvider;
 
-  const apiKey: string | null =
-    provider === 'google'
-      ? (orgSettings?.ai_google_key ?? null)
-      : provider === 'openai'
-        ? (orgSettings?.ai_openai_key ?? null)
-        : (orgSettings?.ai_anthropic_key ?? null);
+  // Principal + fallbacks (na ordem da Central de I.A.); provedores sem key ficam de fora.
+  const chain = orgError
+    ? []
+    : buildAIModelChain({
+        primary: { provider, model: orgSettings?.ai_model || '' },
+        fallbacks: parseAIFallbackChain(orgSettings?.ai_fallback_chain),
+        credentials: providerCredentialsFromSettings(orgSettings),
+      });
 
-  if (orgError || !apiKey) {
-    const providerLabel = provider === 'google' ? 'Google Gemini' : provider === 'openai' ? 'OpenAI' : 'Anthropic';
+  if (chain.length === 0) {
     throw new AITaskHttpError(
       400,
       'AI_KEY_NOT_CONFIGURED',
-      `API key não configurada para ${providerLabel}. Configure em Configurações → Inteligência Artificial.`
+      provider === 'openai_compatible'
+        ? 'Base URL e modelo do servidor local não configurados. Configure em Configurações → Inteligência Artificial.'
+        : `API key não configurada para ${AI_PROVIDER_LABELS[provider] ?? provider}. Configure em Configurações → Inteligência Artificial.`
     );
   }
 
-  const modelId = orgSettings?.ai_model || '';
-  const model = getModel(provider, apiKey, modelId);
+  let meter;
+  try {
+    meter = await createAIUsageMeter({ organizationId, userId: user.id, source: 'task', feature });
+  } catch (err) {
+    if (err instanceof AIBudgetExceededError) throw aiBudgetHttpError(err);
+    throw err;
+  }
+
+  const model = createModelWithFallback(chain, meter.middleware);
 
   return {
     supabase,
     userId: user.id,
     organizationId,
-    provider,
-    modelId,
-    apiKey,
+    provider: chain[0].provider,
+    modelId: chain[0].model,
+    apiKey: chain[0].apiKey,
+    chain,
     model,
   };
 }
@@ -1,6 +1,7 @@
 'use client';
 
 import type { Deal, DealView, LifecycleStage } from '@/types';
+import type { PromptUsage } from '@/lib/ai/prompts/versions';
 
 export type AnalyzeLeadResult = {
   action: string;
@@ -91,10 +92,13 @@ export async function analyzeLead(
  *
  * @param {Deal | DealView} deal - Parâmetro `deal`.
  * @param {string | undefined} stageLabel - Parâmetro `stageLabel`.
- * @returns {Promise<string>} Retorna um valor do tipo `Promise<string>`.
+ * @returns {Promise<{ text: string; prompt: PromptUsage | null }>} Rascunho + versão do prompt (feedback do teste A/B).
  */
-export async function generateEmailDraft(deal: Deal | DealView, stageLabel?: string): Promise<string> {
-  const result = await postTask<{ text: string }>('/api/ai/tasks/deals/email-draft', {
+export async function generateEmailDraft(
+  deal: Deal | DealView,
+  stageLabel?: string
+): Promise<{ text: string; prompt: PromptUsage | null }> {
+  const result = await postTask<{ text: string; prompt?: PromptUsage }>('/api/ai/tasks/deals/email-draft', {
     deal: {
       title: deal.title,
       value: deal.value,
@@ -105,7 +109,7 @@ export async function generateEmailDraft(deal: Deal | DealView, stageLabel?: str
     stageLabel,
   });
 
-  return result.text;
+  return { text: result.text, prompt: result.prompt ?? null };
 }
 
 /**
@@ -113,18 +117,18 @@ export async function generateEmailDraft(deal: Deal | DealView, stageLabel?: str
  *
  * @param {Deal | DealView} deal - Parâmetro `deal`.
  * @param {string} objection - Parâmetro `objection`.
- * @returns {Promise<string[]>} Retorna um valor do tipo `Promise<string[]>`.
+ * @returns {Promise<{ responses: string[]; prompt: PromptUsage | null }>} Respostas + versão do prompt (feedback do teste A/B).
  */
 export async function generateObjectionResponse(
   deal: Deal | DealView,
   objection: string
-): Promise<string[]> {
-  const result = await postTask<{ responses: string[] }>('/api/ai/tasks/deals/objection-responses', {
+): Promise<{ responses: string[]; prompt: PromptUsage | null }> {
+  const result = await postTask<{ responses: string[]; prompt?: PromptUsage }>('/api/ai/tasks/deals/objection-responses', {
     deal: { title: deal.title, value: deal.value },
     objection,
   });
 
-  return result.responses;
+  return { responses: result.responses, prompt: result.prompt ?? null };
 }
 
 /**
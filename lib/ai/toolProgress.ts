@@ -0,0 +1,19 @@
+/**
+ * Progresso de tools longas.
+ *
+ * Quem executa a tool pode passar `experimental_context: { reportProgress }` nas opções do `execute`
+ * (o servidor MCP faz isso quando o client envia `_meta.progressToken`). Sem reporter, é no-op.
+ */
+export type ToolProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Lê o reporter de progresso das opções do `execute` (AI SDK `ToolExecutionOptions`).
+ *
+ * @param {unknown} options - Segundo argumento recebido pelo `execute` da tool.
+ * @returns {ToolProgressReporter} Função que reporta progresso (no-op se ninguém estiver ouvindo).
+ */
+export function getToolProgressReporter(options: unknown): ToolProgressReporter {
+  const ctx = (options as { experimental_context?: { reportProgress?: unknown } } | undefined)?.experimental_context;
+  const report = ctx?.reportProgress;
+  return typeof report === 'function' ? (report as ToolProgressReporter) : () => undefined;
+}
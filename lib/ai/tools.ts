@@ -2,6 +2,7 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import { createStaticAdminClient } from '@/lib/supabase/staticAdminClient';
 import type { CRMCallOptions } from '@/types/ai';
+import { getToolProgressReporter } from './toolProgress';
 
 /**
  * Creates all CRM tools with context injection
@@ -159,15 +160,17 @@ export function createCRMTools(context: CRMCallOptions, userId: string) {
             inputSchema: z.object({
                 boardId: z.string().optional().describe('ID do board (usa contexto se não fornecido)'),
             }),
-            execute: async ({ boardId }) => {
+            execute: async ({ boardId }, options) => {
                 // supabase is already initialized
                 const targetBoardId = boardId || context.boardId;
+                const reportProgress = getToolProgressReporter(options);
                 console.log('[AI] 🚀 analyzePipeline EXECUTED!', { targetBoardId });
 
                 if (!targetBoardId) {
                     return { error: 'Nenhum board selecionado. Vá para um board ou especifique qual.' };
                 }
 
+                reportProgress(0, 3, 'Carregando deals do board');
                 const { data: deals } = await supabase
                     .from('deals')
                     .select('id, title, value, is_won, is_lost, stage:board_stages(name, label)')
@@ -178,6 +181,7 @@ export function createCRMTools(context: CRMCallOptions, userId: string) {
                 const wonDeals = deals?.filter(d => d.is_won) || [];
                 const lostDeals = deals?.filter(d => d.is_lost) || [];
 
+                reportProgress(1, 3, 'Calculando métricas');
                 const totalValue = openDeals.reduce((sum, d) => sum + (d.value || 0), 0);
                 const wonValue = wonDeals.reduce((sum, d) => sum + (d.value || 0), 0);
                 const winRate = wonDeals.length + lostDeals.length > 0
@@ -185,6 +189,7 @@ export function createCRMTools(context: CRMCallOptions, userId: string) {
                     : 0;
 
                 // Agrupar por estágio
+                reportProgress(2, 3, 'Agrupando por estágio');
                 const stageMap = new Map<string, { count: number; value: number }>();
                 openDeals.forEach((deal: any) => {
                     const stageName = deal.stage?.name || deal.stage?.label || 'Sem estágio';
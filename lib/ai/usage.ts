@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Medição de consumo de IA (tokens + custo estimado) e orçamentos mensais.
+ *
+ * - Toda chamada ao modelo passa pelo middleware de `createAIUsageMeter` (via `createModelWithFallback`),
+ *   que grava uma linha em `ai_usage_events` com o provedor/modelo que de fato respondeu.
+ * - Orçamentos mensais (USD estimados) por organização e por usuário ficam em `organization_settings`.
+ *   O medidor recusa a requisição se o mês já estourou e interrompe o loop do agente quando o gasto
+ *   da própria requisição passa do que restava.
+ *
+ * @module lib/ai/usage
+ */
+
+import type { LanguageModelMiddleware } from 'ai';
+import { createStaticAdminClient } from '@/lib/supabase/staticAdminClient';
+import type { AIProvider } from './config';
+
+export type AIUsageSource = 'chat' | 'task' | 'action' | 'mcp';
+
+export type AIUsageContext = {
+  organizationId: string;
+  userId: string | null;
+  apiKeyId?: string | null;
+  source: AIUsageSource;
+  /** Chave da função de IA (`ai_email_draft`, `ai_chat_agent`...) ou nome da tool MCP. */
+  feature: string;
+};
+
+export type AIUsageEvent = AIUsageContext & {
+  provider: string | null;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+/** Preço por 1M tokens (entrada / saída), em USD. Referência: tabela exibida em AIConfigSection. */
+type ModelPrice = { input: number; output: number };
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'gpt-5.2-pro': { input: 21, output: 168 },
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+/** Modelo fora da tabela: preço do modelo recomendado do provedor. Servidor local não tem custo por token. */
+const PROVIDER_DEFAULT_PRICES: Record<AIProvider, ModelPrice> = {
+  google: MODEL_PRICES['gemini-2.5-flash'],
+  openai: MODEL_PRICES['gpt-4o'],
+  anthropic: MODEL_PRICES['claude-sonnet-4-5'],
+  openai_compatible: { input: 0, output: 0 },
+};
+
+/** `google.generative-ai` / `openai.chat` / `openai-compatible.chat` → provedor do CRM. */
+export function aiProviderFromModelProvider(provider: string): AIProvider | null {
+  const base = provider.split('.')[0];
+  if (base === 'google') return 'google';
+  if (base === 'openai') return 'openai';
+  if (base === 'anthropic') return 'anthropic';
+  if (base === 'openai-compatible') return 'openai_compatible';
+  return null;
+}
+
+function priceFor(provider: AIProvider | null, model: string): ModelPrice | null {
+  if (provider === 'openai_compatible') return PROVIDER_DEFAULT_PRICES.openai_compatible;
+  // Prefixo mais longo: `gemini-2.5-flash-lite` antes de `gemini-2.5-flash`, `gpt-5.2-chat-latest` → `gpt-5.2`.
+  const match = Object.keys(MODEL_PRICES)
+    .filter((id) => model === id || model.startsWith(`${id}-`) || model.startsWith(`${id}@`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (match) return MODEL_PRICES[match];
+  return provider ? PROVIDER_DEFAULT_PRICES[provider] : null;
+}
+
+/** Custo estimado (USD) de uma chamada. */
+export function estimateAICostUsd(opts: { provider: AIProvider | null; model: string; inputTokens: number; outputTokens: number }) {
+  const price = priceFor(opts.provider, opts.model);
+  if (!price) return 0;
+  const cost = (opts.inputTokens * price.input + opts.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/** Tokens do resultado de `doGenerate`/`finish` (formato v3: `{ inputTokens: { total }, outputTokens: { total } }`). */
+export function tokensFromUsage(usage: unknown): { inputTokens: number; outputTokens: number } {
+  const read = (v: unknown) => {
+    if (typeof v === 'number') return v;
+    const total = (v as { total?: unknown } | null | undefined)?.total;
+    return typeof total === 'number' ? total : 0;
+  };
+  const u = (usage ?? {}) as { inputTokens?: unknown; outputTokens?: unknown };
+  return { inputTokens: read(u.inputTokens), outputTokens: read(u.outputTokens) };
+}
+
+export type AIBudgetLimits = { organizationUsd: number | null; userUsd: number | null };
+export type AIBudgetSpend = { organizationUsd: number; userUsd: number };
+
+export type AIBudgetExceeded = { scope: 'organization' | 'user'; limitUsd: number; spentUsd: number };
+
+/** Quanto ainda pode ser gasto no mês (o menor entre org e usuário); `null` = sem limite. */
+export function remainingAIBudgetUsd(limits: AIBudgetLimits, spend: AIBudgetSpend): number | null {
+  const remaining = [
+    limits.organizationUsd === null ? null : limits.organizationUsd - spend.organizationUsd,
+    limits.userUsd === null ? null : limits.userUsd - spend.userUsd,
+  ].filter((v): v is number => v !== null);
+  return remaining.length ? Math.max(0, Math.min(...remaining)) : null;
+}
+
+/** Primeiro limite estourado (organização tem precedência), ou `null`. */
+export function findExceededAIBudget(limits: AIBudgetLimits, spend: AIBudgetSpend): AIBudgetExceeded | null {
+  if (limits.organizationUsd !== null && spend.organizationUsd >= limits.organizationUsd) {
+    return { scope: 'organization', limitUsd: limits.organizationUsd, spentUsd: spend.organizationUsd };
+  }
+  if (limits.userUsd !== null && spend.userUsd >= limits.userUsd) {
+    return { scope: 'user', limitUsd: limits.userUsd, spentUsd: spend.userUsd };
+  }
+  return null;
+}
+
+/**
+ * Orçamento mensal de IA esgotado. As rotas traduzem para HTTP 429 com `code: AI_BUDGET_EXCEEDED`.
+ */
+export class AIBudgetExceededError extends Error {
+  readonly code = 'AI_BUDGET_EXCEEDED';
+  readonly scope: AIBudgetExceeded['scope'];
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+
+  constructor(exceeded: AIBudgetExceeded) {
+    super(
+      exceeded.scope === 'organization'
+        ? `Orçamento mensal de IA da organização atingido (US$ ${exceeded.limitUsd.toFixed(2)}). Um admin pode ajustar em Configurações → Central de I.A.`
+        : `Seu orçamento mensal de IA foi atingido (US$ ${exceeded.limitUsd.toFixed(2)}). Fale com um admin da organização.`
+    );
+    this.name = 'AIBudgetExceededError';
+    this.scope = exceeded.scope;
+    this.limitUsd = exceeded.limitUsd;
+    this.spentUsd = exceeded.spentUsd;
+  }
+}
+
+/** Grava o evento. Best-effort: falha de medição nunca derruba a chamada de IA. */
+export async function recordAIUsageEvent(event: AIUsageEvent) {
+  try {
+    const sb = createStaticAdminClient();
+    await sb.from('ai_usage_events').insert({
+      organization_id: event.organizationId,
+      user_id: event.userId,
+      api_key_id: event.apiKeyId ?? null,
+      source: event.source,
+      feature_key: event.feature,
+      provider: event.provider,
+      model: event.model,
+      input_tokens: event.inputTokens,
+      output_tokens: event.outputTokens,
+      cost_usd: event.costUsd,
+    });
+  } catch {
+    // medição é best-effort
+  }
+}
+
+/** Limites e gasto do mês corrente da organização/usuário. */
+export async function loadAIBudgetState(organizationId: string, userId: string | null) {
+  const sb = createStaticAdminClient();
+  const [{ data: settings }, { data: spendRows }] = await Promise.all([
+    sb
+      .from('organization_settings')
+      .select('ai_monthly_budget_usd, ai_user_monthly_budget_usd')
+      .eq('organization_id', organizationId)
+      .maybeSingle(),
+    sb.rpc('ai_usage_month_spend', { p_organization_id: organizationId, p_user_id: userId }),
+  ]);
+
+  const num = (v: unknown) => (v === null || v === undefined || v === '' ? null : Number(v));
+  const row = (Array.isArray(spendRows) ? spendRows[0] : spendRows) as
+    | { organization_cost_usd?: unknown; user_cost_usd?: unknown }
+    | null
+    | undefined;
+
+  const limits: AIBudgetLimits = {
+    organizationUsd: num(settings?.ai_monthly_budget_usd),
+    userUsd: userId ? num(settings?.ai_user_monthly_budget_usd) : null,
+  };
+  const spend: AIBudgetSpend = {
+    organizationUsd: num(row?.organization_cost_usd) ?? 0,
+    userUsd: num(row?.user_cost_usd) ?? 0,
+  };
+  return { limits, spend };
+}
+
+export type AIUsageMeter = {
+  context: AIUsageContext;
+  /** Orçamento que ainda restava quando a requisição começou (`null` = sem limite). */
+  remainingUsd: number | null;
+  /** Gasto acumulado nesta requisição. */
+  spentUsd: () => number;
+  middleware: LanguageModelMiddleware;
+};
+
+/**
+ * Medidor da requisição: middleware que grava cada chamada e corta novas chamadas quando o gasto
+ * desta requisição alcança o orçamento que restava (protege contra loop do agente).
+ *
+ * `record` é injetável para testes; por padrão grava em `ai_usage_events`.
+ */
+export function createAIUsageMeterFromState(opts: {
+  context: AIUsageContext;
+  limits: AIBudgetLimits;
+  spend: AIBudgetSpend;
+  record?: (event: AIUsageEvent) => Promise<void>;
+}): AIUsageMeter {
+  const record = opts.record ?? recordAIUsageEvent;
+  const exceeded = findExceededAIBudget(opts.limits, opts.spend);
+  if (exceeded) throw new AIBudgetExceededError(exceeded);
+
+  const remainingUsd = remainingAIBudgetUsd(opts.limits, opts.spend);
+  let spent = 0;
+
+  const guard = () => {
+    if (remainingUsd === null || spent < remainingUsd) return;
+    const scope = findExceededAIBudget(opts.limits, {
+      organizationUsd: opts.spend.organizationUsd + spent,
+      userUsd: opts.spend.userUsd + spent,
+    });
+    throw new AIBudgetExceededError(scope ?? { scope: 'organization', limitUsd: opts.limits.organizationUsd ?? 0, spentUsd: spent });
+  };
+
+  const track = (model: { provider: string; modelId: string }, usage: unknown) => {
+    const tokens = tokensFromUsage(usage);
+    const provider = aiProviderFromModelProvider(model.provider);
+    const costUsd = estimateAICostUsd({ provider, model: model.modelId, ...tokens });
+    spent += costUsd;
+    return record({
+      ...opts.context,
+      provider: provider ?? model.provider,
+      model: model.modelId,
+      ...tokens,
+      costUsd,
+    });
+  };
+
+  return {
+    context: opts.context,
+    remainingUsd,
+    spentUsd: () => spent,
+    middleware: {
+      specificationVersion: 'v3',
+      wrapGenerate: async ({ doGenerate, model }) => {
+        guard();
+        const result = await doGenerate();
+        await track(model, result.usage);
+        return result;
+      },
+      wrapStream: async ({ doStream, model }) => {
+        guard();
+        const { stream, ...rest } = await doStream();
+        const metered = stream.pipeThrough(
+          new TransformStream({
+            transform(chunk, controller) {
+              if (chunk.type === 'finish') void track(model, chunk.usage);
+              controller.enqueue(chunk);
+            },
+          })
+        );
+        return { stream: metered, ...rest };
+      },
+    },
+  };
+}
+
+/** Carrega orçamento/gasto do mês e cria o medidor. Lança `AIBudgetExceededError` se o mês já estourou. */
+export async function createAIUsageMeter(context: AIUsageContext): Promise<AIUsageMeter> {
+  const { limits, spend } = await loadAIBudgetState(context.organizationId, context.userId);
+  return createAIUsageMeterFromState({ context, limits, spend });
+}
+
+/** Linha de `ai_usage_summary` (agregada por origem/função/modelo/usuário/chave). */
+export type AIUsageSummaryRow = {
+  source: AIUsageSource;
+  feature_key: string;
+  provider: string | null;
+  model: string | null;
+  user_id: string | null;
+  api_key_id: string | null;
+  requests: number | string;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string;
+};
+
+export type AIUsageTotals = { requests: number; inputTokens: number; outputTokens: number; costUsd: number };
+export type AIUsageBreakdown = Array<{ key: string; totals: AIUsageTotals }>;
+
+const EMPTY_TOTALS: AIUsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+function addRow(totals: AIUsageTotals, row: AIUsageSummaryRow): AIUsageTotals {
+  return {
+    requests: totals.requests + Number(row.requests || 0),
+    inputTokens: totals.inputTokens + Number(row.input_tokens || 0),
+    outputTokens: totals.outputTokens + Number(row.output_tokens || 0),
+    costUsd: totals.costUsd + Number(row.cost_usd || 0),
+  };
+}
+
+function breakdown(rows: AIUsageSummaryRow[], keyOf: (row: AIUsageSummaryRow) => string | null): AIUsageBreakdown {
+  const map = new Map<string, AIUsageTotals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    map.set(key, addRow(map.get(key) ?? EMPTY_TOTALS, row));
+  }
+  return Array.from(map.entries())
+    .map(([key, totals]) => ({ key, totals }))
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd || b.totals.requests - a.totals.requests);
+}
+
+/** Dobra as linhas do resumo nas visões do painel (por função, usuário, modelo e chave de API). */
+export function summarizeAIUsage(rows: AIUsageSummaryRow[]) {
+  return {
+    totals: rows.reduce(addRow, EMPTY_TOTALS),
+    byFeature: breakdown(rows, (r) => `${r.source}:${r.feature_key}`),
+    byUser: breakdown(rows, (r) => r.user_id),
+    byModel: breakdown(rows, (r) => (r.model ? `${r.provider ?? '?'}:${r.model}` : null)),
+    byApiKey: breakdown(rows, (r) => r.api_key_id),
+  };
+}
+
+/** Início do mês corrente (UTC) — mesma janela de `ai_usage_month_spend`. */
+export function startOfUsageMonth(now = new Date()) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
@@ -0,0 +1,247 @@
+/**
+ * Resultados da Central de Decisões: o que a equipe fez com cada sugestão (aprovou, rejeitou,
+ * adiou, ignorou), quanto tempo levou e se o deal andou depois. Funções puras (rota do relatório).
+ *
+ * "Andou" = o deal mudou de estágio ou foi ganho até `windowDays` depois da decisão. Não há
+ * histórico de estágios: a mudança vem de `deals.last_stage_change_date` (a última), então um deal
+ * que andou na janela e de novo depois dela conta como parado.
+ */
+
+export type DecisionOutcomeRow = {
+  analyzer_id: string | null;
+  status: string | null;
+  deal_id: string | null;
+  snooze_count: number | null;
+  created_at: string;
+  processed_at: string | null;
+};
+
+export type DealOutcomeRow = {
+  id: string;
+  is_won: boolean | null;
+  closed_at: string | null;
+  last_stage_change_date: string | null;
+};
+
+export const DECISION_OUTCOME_FIELDS = 'analyzer_id, status, deal_id, snooze_count, created_at, processed_at';
+export const DEAL_OUTCOME_FIELDS = 'id, is_won, closed_at, last_stage_change_date';
+
+/** Decisões decididas (aprovadas + rejeitadas) antes de sugerir ajuste de prioridade */
+export const MIN_DECIDED_FOR_TUNING = 10;
+/** Decisões observadas em cada grupo (aprovadas x ignoradas) para comparar o avanço */
+export const MIN_OUTCOME_SAMPLE = 5;
+
+export type OutcomeGroup = {
+  /** Decisões com deal cuja janela já terminou */
+  observed: number;
+  /** Deal mudou de estágio ou foi ganho na janela */
+  advanced: number;
+  won: number;
+  advanceRate: number | null;
+};
+
+export type PriorityRecommendation = {
+  /** Ajuste sugerido sobre o `priority_offset` atual (-1 = um nível abaixo) */
+  offset: -1 | 0 | 1;
+  reason: string;
+};
+
+export type OutcomeStats = {
+  total: number;
+  approved: number;
+  rejected: number;
+  expired: number;
+  /** pending + snoozed */
+  open: number;
+  /** Adiadas pelo menos uma vez */
+  snoozed: number;
+  /** approved / (approved + rejected) */
+  approvalRate: number | null;
+  rejectionRate: number | null;
+  /** snoozed / total */
+  snoozeRate: number | null;
+  medianHoursToDecision: number | null;
+  /** Deals com decisão aprovada */
+  approvedOutcome: OutcomeGroup;
+  /** Deals com decisão rejeitada, expirada ou aberta além da janela */
+  ignoredOutcome: OutcomeGroup;
+  /** advanceRate aprovadas - ignoradas, em pontos percentuais (null sem amostra nos dois grupos) */
+  lift: number | null;
+};
+
+export type AnalyzerOutcomeStats = OutcomeStats & {
+  analyzerId: string;
+  recommendation: PriorityRecommendation;
+};
+
+export type DecisionAnalytics = {
+  since: string;
+  windowDays: number;
+  generatedAt: string;
+  totals: OutcomeStats;
+  /** Por analyzer, do maior volume para o menor */
+  analyzers: AnalyzerOutcomeStats[];
+};
+
+/** Resposta de `/api/decisions/analytics` (com nome e ajuste de prioridade atual de cada analyzer). */
+export type DecisionAnalyticsReport = Omit<DecisionAnalytics, 'analyzers'> & {
+  isAdmin: boolean;
+  analyzers: Array<AnalyzerOutcomeStats & { analyzerName: string; priorityOffset: number }>;
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const rate = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function emptyGroup(): OutcomeGroup {
+  return { observed: 0, advanced: 0, won: 0, advanceRate: null };
+}
+
+const inWindow = (iso: string | null, from: number, to: number) => {
+  if (!iso) return false;
+  const ts = Date.parse(iso);
+  return Number.isFinite(ts) && ts > from && ts <= to;
+};
+
+function computeStats(
+  rows: DecisionOutcomeRow[],
+  deals: Map<string, DealOutcomeRow>,
+  windowMs: number,
+  now: number
+): OutcomeStats {
+  const stats: OutcomeStats = {
+    total: rows.length,
+    approved: 0,
+    rejected: 0,
+    expired: 0,
+    open: 0,
+    snoozed: 0,
+    approvalRate: null,
+    rejectionRate: null,
+    snoozeRate: null,
+    medianHoursToDecision: null,
+    approvedOutcome: emptyGroup(),
+    ignoredOutcome: emptyGroup(),
+    lift: null,
+  };
+  const hoursToDecision: number[] = [];
+
+  for (const row of rows) {
+    const status = row.status || 'pending';
+    const createdTs = Date.parse(row.created_at);
+    const processedTs = row.processed_at ? Date.parse(row.processed_at) : NaN;
+
+    if (status === 'approved') stats.approved += 1;
+    else if (status === 'rejected') stats.rejected += 1;
+    else if (status === 'expired') stats.expired += 1;
+    else stats.open += 1;
+
+    if ((row.snooze_count ?? 0) > 0 || status === 'snoozed') stats.snoozed += 1;
+
+    if ((status === 'approved' || status === 'rejected') && Number.isFinite(processedTs) && Number.isFinite(createdTs)) {
+      hoursToDecision.push(Math.max(0, processedTs - createdTs) / HOUR);
+    }
+
+    // Resultado do deal: só quando a janela inteira já passou
+    const deal = row.deal_id ? deals.get(row.deal_id) : undefined;
+    if (!deal) continue;
+
+    const refTs = Number.isFinite(processedTs) ? processedTs : createdTs;
+    if (!Number.isFinite(refTs) || refTs + windowMs > now) continue;
+
+    // Rejeitada, expirada ou ainda aberta depois da janela inteira = ignorada
+    const group = status === 'approved' ? stats.approvedOutcome : stats.ignoredOutcome;
+    const won = Boolean(deal.is_won) && inWindow(deal.closed_at, refTs, refTs + windowMs);
+    const moved = inWindow(deal.last_stage_change_date, refTs, refTs + windowMs);
+
+    group.observed += 1;
+    if (won || moved) group.advanced += 1;
+    if (won) group.won += 1;
+  }
+
+  for (const group of [stats.approvedOutcome, stats.ignoredOutcome]) {
+    group.advanceRate = rate(group.advanced, group.observed);
+  }
+
+  const decided = stats.approved + stats.rejected;
+  stats.approvalRate = rate(stats.approved, decided);
+  stats.rejectionRate = rate(stats.rejected, decided);
+  stats.snoozeRate = rate(stats.snoozed, stats.total);
+  stats.medianHoursToDecision = median(hoursToDecision);
+
+  if (stats.approvedOutcome.observed >= MIN_OUTCOME_SAMPLE && stats.ignoredOutcome.observed >= MIN_OUTCOME_SAMPLE) {
+    stats.lift = ((stats.approvedOutcome.advanceRate ?? 0) - (stats.ignoredOutcome.advanceRate ?? 0)) * 100;
+  }
+
+  return stats;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Sugestão de ajuste de prioridade do analyzer:
+ * - sobe quando a equipe aprova a maioria e aprovar não piora o avanço dos deals;
+ * - desce quando quase tudo é rejeitado ou quando aprovar não faz os deals andarem mais que ignorar.
+ */
+export function recommendPriorityOffset(stats: OutcomeStats): PriorityRecommendation {
+  const decided = stats.approved + stats.rejected;
+  if (decided < MIN_DECIDED_FOR_TUNING) {
+    return { offset: 0, reason: `Poucas decisões para avaliar (${decided} de ${MIN_DECIDED_FOR_TUNING})` };
+  }
+
+  const approvalRate = stats.approvalRate ?? 0;
+  if (approvalRate <= 0.25) {
+    return { offset: -1, reason: `Só ${percent(approvalRate)} das sugestões foram aprovadas` };
+  }
+  if (stats.lift !== null && stats.lift < 0) {
+    return { offset: -1, reason: 'Deals com a sugestão aprovada avançaram menos que os ignorados' };
+  }
+  if (approvalRate >= 0.6 && (stats.lift === null || stats.lift > 0)) {
+    const liftNote = stats.lift !== null ? ` e os deals avançaram ${Math.round(stats.lift)} p.p. a mais` : '';
+    return { offset: 1, reason: `${percent(approvalRate)} das sugestões foram aprovadas${liftNote}` };
+  }
+  return { offset: 0, reason: 'Resultados dentro do esperado' };
+}
+
+/**
+ * Relatório da fila no período: totais e um bloco por analyzer (com sugestão de prioridade).
+ * `deals` precisa conter os deals referenciados pelas decisões (os ausentes ficam fora do resultado).
+ */
+export function computeDecisionAnalytics(
+  rows: DecisionOutcomeRow[],
+  deals: DealOutcomeRow[],
+  opts: { since: string; windowDays: number; now?: number }
+): DecisionAnalytics {
+  const now = opts.now ?? Date.now();
+  const windowMs = Math.max(1, opts.windowDays) * DAY;
+  const dealsById = new Map(deals.map((d) => [d.id, d]));
+
+  const byAnalyzer = new Map<string, DecisionOutcomeRow[]>();
+  for (const row of rows) {
+    const key = row.analyzer_id || 'unknown';
+    const list = byAnalyzer.get(key);
+    if (list) list.push(row);
+    else byAnalyzer.set(key, [row]);
+  }
+
+  const analyzers = Array.from(byAnalyzer, ([analyzerId, list]) => {
+    const stats = computeStats(list, dealsById, windowMs, now);
+    return { analyzerId, ...stats, recommendation: recommendPriorityOffset(stats) };
+  }).sort((a, b) => b.total - a.total || a.analyzerId.localeCompare(b.analyzerId));
+
+  return {
+    since: opts.since,
+    windowDays: opts.windowDays,
+    generatedAt: new Date(now).toISOString(),
+    totals: computeStats(rows, dealsById, windowMs, now),
+    analyzers,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Regras dos analyzers configuradas pelo admin (tabela ai_decision_analyzer_settings).
+ *
+ * Cada linha sobrescreve o `AnalyzerConfig` do código em um escopo: padrão da organização
+ * (`board_id` NULL) ou um board específico. Deals de um board com regra própria rodam só com
+ * ela; os demais usam o padrão da organização. Funções puras (runner, preview e Settings).
+ */
+import { z } from 'zod';
+import type { Activity, DealView } from '@/types';
+import { PRIORITY_ORDER, type AnalyzerConfig, type AnalyzerResult, type DecisionPriority } from '@/features/decisions/types';
+import { analyzers as defaultAnalyzers, type AnalyzerRegistry } from '@/features/decisions/analyzers';
+
+export type AnalyzerSettingRow = {
+  analyzer_id: string;
+  board_id: string | null;
+  enabled: boolean;
+  params: Record<string, unknown> | null;
+  max_decisions_per_run: number | null;
+  cooldown_days: number | null;
+  priority_offset?: number | null;
+  updated_at?: string | null;
+};
+
+export type AnalyzerOverride = {
+  analyzerId: string;
+  /** `null` = padrão da organização */
+  boardId: string | null;
+  enabled: boolean;
+  /** Só as chaves alteradas (validadas contra os defaults do analyzer) */
+  params: Record<string, unknown>;
+  maxDecisionsPerRun?: number | null;
+  cooldownDays?: number | null;
+  /** Níveis de prioridade somados às decisões do escopo (+1 = medium vira high) */
+  priorityOffset?: number | null;
+};
+
+/** Resultado de um analyzer em um escopo (organização ou board). */
+export type ConfiguredAnalyzerResult = {
+  analyzerId: string;
+  boardId: string | null;
+  config: AnalyzerConfig;
+  priorityOffset: number;
+  result: AnalyzerResult;
+};
+
+export const ANALYZER_SETTING_FIELDS = 'analyzer_id, board_id, enabled, params, max_decisions_per_run, cooldown_days, priority_offset, updated_at';
+
+export const MAX_PRIORITY_OFFSET = 3;
+
+/** Payload de Settings (salvar) e do dry-run. */
+export const AnalyzerSettingInputSchema = z
+  .object({
+    analyzerId: z.string().min(1).max(120),
+    boardId: z.string().uuid().nullable(),
+    enabled: z.boolean(),
+    params: z.record(z.string(), z.unknown()).default({}),
+    maxDecisionsPerRun: z.number().int().min(1).max(100).nullable().optional(),
+    cooldownDays: z.number().int().min(0).max(365).nullable().optional(),
+    priorityOffset: z.number().int().min(-MAX_PRIORITY_OFFSET).max(MAX_PRIORITY_OFFSET).nullable().optional(),
+  })
+  .strict();
+
+/** Rótulos dos parâmetros exibidos em Settings (chaves sem rótulo aparecem pelo nome). */
+export const ANALYZER_PARAM_LABELS: Record<string, string> = {
+  minDaysStagnant: 'Dias sem atividade para considerar parado',
+  criticalDaysStagnant: 'Dias para prioridade crítica',
+  excludeStatuses: 'Status ignorados',
+  minDealValue: 'Valor mínimo do deal (R$)',
+  criticalDaysOverdue: 'Dias de atraso para prioridade alta',
+  includedTypes: 'Tipos de atividade',
+  windowDays: 'Janela de engajamento (dias)',
+  minRecentActivities: 'Interações mínimas na janela',
+  minProbability: 'Probabilidade mínima (%)',
+  highValue: 'Valor para subir a prioridade (R$)',
+  hoursAhead: 'Antecedência (horas)',
+  criticalHours: 'Horas para prioridade alta',
+  stageKeywords: 'Termos do estágio de proposta',
+  minDaysWaiting: 'Dias sem resposta',
+  criticalDaysWaiting: 'Dias para prioridade alta',
+  maxStageDays: 'Dias no estágio (sinal de risco)',
+  silentDays: 'Dias sem interação (sinal de risco)',
+  minSignals: 'Sinais mínimos',
+  maxDaysSinceActivity: 'Máximo de dias desde a última interação',
+  minDaysSinceLoss: 'Mínimo de dias desde a perda',
+  maxDaysSinceLoss: 'Máximo de dias desde a perda',
+  excludeLossReasons: 'Motivos de perda ignorados',
+  maxAgeHours: 'Idade máxima do deal (horas)',
+  urgentAfterHours: 'Horas sem contato para prioridade alta',
+};
+
+export function fromAnalyzerSettingRow(row: AnalyzerSettingRow): AnalyzerOverride {
+  return {
+    analyzerId: row.analyzer_id,
+    boardId: row.board_id,
+    enabled: Boolean(row.enabled),
+    params: row.params || {},
+    maxDecisionsPerRun: row.max_decisions_per_run,
+    cooldownDays: row.cooldown_days,
+    priorityOffset: row.priority_offset ?? null,
+  };
+}
+
+/**
+ * Valida os parâmetros contra os defaults do analyzer: só chaves conhecidas e com o mesmo tipo
+ * (número finito >= 0, lista de textos ou booleano). Listas são normalizadas (trim, sem vazios).
+ */
+export function sanitizeAnalyzerParams(
+  defaults: Record<string, unknown>,
+  input: Record<string, unknown>
+): { ok: true; params: Record<string, unknown> } | { ok: false; error: string } {
+  const params: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!(key in defaults)) return { ok: false, error: `Parâmetro desconhecido: ${key}` };
+    const fallback = defaults[key];
+
+    if (typeof fallback === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return { ok: false, error: `${key} deve ser um número maior ou igual a zero` };
+      }
+      params[key] = value;
+    } else if (typeof fallback === 'boolean') {
+      if (typeof value !== 'boolean') return { ok: false, error: `${key} deve ser verdadeiro ou falso` };
+      params[key] = value;
+    } else if (Array.isArray(fallback)) {
+      if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+        return { ok: false, error: `${key} deve ser uma lista de textos` };
+      }
+      params[key] = (value as string[]).map((v) => v.trim()).filter(Boolean);
+    } else {
+      return { ok: false, error: `Parâmetro não configurável: ${key}` };
+    }
+  }
+
+  return { ok: true, params };
+}
+
+/** Config efetiva de um analyzer: código < padrão da organização < board. */
+export function resolveAnalyzerConfig(
+  base: AnalyzerConfig,
+  overrides: AnalyzerOverride[],
+  boardId: string | null
+): AnalyzerConfig {
+  const orgOverride = overrides.find((o) => o.analyzerId === base.id && o.boardId === null);
+  const boardOverride = boardId ? overrides.find((o) => o.analyzerId === base.id && o.boardId === boardId) : undefined;
+
+  let config: AnalyzerConfig = { ...base, params: { ...base.params } };
+  for (const o of [orgOverride, boardOverride]) {
+    if (!o) continue;
+    config = {
+      ...config,
+      enabled: o.enabled,
+      params: { ...config.params, ...o.params },
+      maxDecisionsPerRun: o.maxDecisionsPerRun ?? config.maxDecisionsPerRun,
+      cooldownDays: o.cooldownDays ?? config.cooldownDays,
+    };
+  }
+  return config;
+}
+
+/** Ajuste de prioridade efetivo: regra do board, senão o padrão da organização. */
+export function resolvePriorityOffset(overrides: AnalyzerOverride[], analyzerId: string, boardId: string | null): number {
+  const boardOverride = boardId ? overrides.find((o) => o.analyzerId === analyzerId && o.boardId === boardId) : undefined;
+  const orgOverride = overrides.find((o) => o.analyzerId === analyzerId && o.boardId === null);
+  return boardOverride?.priorityOffset ?? orgOverride?.priorityOffset ?? 0;
+}
+
+const PRIORITIES_BY_ORDER = (Object.keys(PRIORITY_ORDER) as DecisionPriority[]).sort(
+  (a, b) => PRIORITY_ORDER[a] - PRIORITY_ORDER[b]
+);
+
+/** Sobe (offset > 0) ou desce a prioridade, limitado a critical/low. */
+export function shiftPriority(priority: DecisionPriority, offset: number): DecisionPriority {
+  const index = PRIORITY_ORDER[priority] - Math.trunc(offset);
+  return PRIORITIES_BY_ORDER[Math.min(PRIORITIES_BY_ORDER.length - 1, Math.max(0, index))];
+}
+
+/**
+ * Separa deals e atividades pelos escopos de um analyzer: um grupo por board com regra própria
+ * e o grupo padrão (demais boards e atividades sem deal).
+ */
+function partitionByScope(
+  analyzerId: string,
+  deals: DealView[],
+  activities: Activity[],
+  overrides: AnalyzerOverride[]
+): Map<string | null, { deals: DealView[]; activities: Activity[] }> {
+  const scopedBoards = new Set(
+    overrides.filter((o) => o.analyzerId === analyzerId && o.boardId).map((o) => o.boardId as string)
+  );
+
+  const groups = new Map<string | null, { deals: DealView[]; activities: Activity[] }>();
+  const groupFor = (boardId: string | null) => {
+    const key = boardId && scopedBoards.has(boardId) ? boardId : null;
+    let group = groups.get(key);
+    if (!group) {
+      group = { deals: [], activities: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  groupFor(null);
+  for (const boardId of scopedBoards) groupFor(boardId);
+
+  const boardByDeal = new Map<string, string>();
+  for (const deal of deals) {
+    boardByDeal.set(deal.id, deal.boardId);
+    groupFor(deal.boardId).deals.push(deal);
+  }
+  for (const activity of activities) {
+    groupFor((activity.dealId && boardByDeal.get(activity.dealId)) || null).activities.push(activity);
+  }
+
+  return groups;
+}
+
+/**
+ * Roda os analyzers habilitados com as regras da organização, um run por escopo.
+ * Erros ficam isolados por analyzer/escopo (como em `runAllAnalyzers`).
+ */
+export function runConfiguredAnalyzers(
+  deals: DealView[],
+  activities: Activity[],
+  overrides: AnalyzerOverride[],
+  opts: { registry?: AnalyzerRegistry[]; analyzerId?: string; boardId?: string | null } = {}
+): ConfiguredAnalyzerResult[] {
+  const registry = opts.registry ?? defaultAnalyzers;
+  const out: ConfiguredAnalyzerResult[] = [];
+
+  for (const analyzer of registry) {
+    if (opts.analyzerId && analyzer.id !== opts.analyzerId) continue;
+
+    for (const [boardId, group] of partitionByScope(analyzer.id, deals, activities, overrides)) {
+      if (opts.boardId !== undefined && opts.boardId !== boardId) continue;
+
+      const config = resolveAnalyzerConfig(analyzer.config, overrides, boardId);
+      if (!config.enabled) continue;
+
+      let result: AnalyzerResult;
+      try {
+        result = analyzer.run(group.deals, group.activities, config);
+      } catch (error) {
+        console.error(`Error running analyzer ${analyzer.id}:`, error);
+        result = {
+          analyzerId: analyzer.id,
+          analyzerName: analyzer.name,
+          decisions: [],
+          metadata: {
+            executedAt: new Date().toISOString(),
+            itemsAnalyzed: 0,
+            decisionsGenerated: 0,
+            errors: [String(error)],
+          },
+        };
+      }
+
+      const priorityOffset = resolvePriorityOffset(overrides, analyzer.id, boardId);
+      if (priorityOffset) {
+        result = {
+          ...result,
+          decisions: result.decisions.map((d) => ({ ...d, priority: shiftPriority(d.priority, priorityOffset) })),
+        };
+      }
+
+      out.push({ analyzerId: analyzer.id, boardId, config, priorityOffset, result });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Dry-run de uma regra ainda não salva: substitui (ou adiciona) `candidate` nas regras atuais
+ * e roda só aquele analyzer no escopo dele. `null` quando a regra desliga o analyzer.
+ */
+export function previewAnalyzerSetting(
+  deals: DealView[],
+  activities: Activity[],
+  overrides: AnalyzerOverride[],
+  candidate: AnalyzerOverride,
+  registry: AnalyzerRegistry[] = defaultAnalyzers
+): ConfiguredAnalyzerResult | null {
+  const isSameScope = (o: AnalyzerOverride) => o.analyzerId === candidate.analyzerId && o.boardId === candidate.boardId;
+  // Sem `priorityOffset` no candidato, vale o salvo (mesma regra do POST de Settings)
+  const saved = overrides.find(isSameScope);
+  const next = [
+    ...overrides.filter((o) => !isSameScope(o)),
+    candidate.priorityOffset === undefined ? { ...candidate, priorityOffset: saved?.priorityOffset ?? null } : candidate,
+  ];
+
+  const [run] = runConfiguredAnalyzers(deals, activities, next, {
+    registry,
+    analyzerId: candidate.analyzerId,
+    boardId: candidate.boardId,
+  });
+  return run ?? null;
+}
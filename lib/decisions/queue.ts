@@ -0,0 +1,175 @@
+/**
+ * Fila de decisões (ai_decisions): conversão linha <-> `Decision`, dedupe, dono e cooldown.
+ * Funções puras (usadas pelo runner no servidor e pelo client da Central de Decisões).
+ */
+import type {
+  AnalyzerResult,
+  Decision,
+  DecisionCategory,
+  DecisionPriority,
+  DecisionStatus,
+  DecisionType,
+  SuggestedAction,
+} from '@/features/decisions/types';
+
+export type AIDecisionRow = {
+  id: string;
+  organization_id: string | null;
+  user_id: string | null;
+  deal_id: string | null;
+  contact_id: string | null;
+  activity_id: string | null;
+  analyzer_id: string | null;
+  dedupe_key: string | null;
+  decision_type: string;
+  category: string | null;
+  priority: string | null;
+  title: string;
+  description: string | null;
+  suggested_action: SuggestedAction | null;
+  alternative_actions: SuggestedAction[] | null;
+  status: string | null;
+  snoozed_until: string | null;
+  expires_at: string | null;
+  processed_at: string | null;
+  ai_reasoning: string | null;
+  created_at: string;
+};
+
+/** Resumo de um run dos analyzers (resposta de `/api/decisions/run`). */
+export type DecisionRunSummary = {
+  runId: string | null;
+  analyzedAt: string;
+  addedDecisions: number;
+  totalDecisions: number;
+  results: Array<Omit<AnalyzerResult, 'decisions'>>;
+};
+
+export const AI_DECISION_FIELDS =
+  'id, organization_id, user_id, deal_id, contact_id, activity_id, analyzer_id, dedupe_key, decision_type, category, priority, title, description, suggested_action, alternative_actions, status, snoozed_until, expires_at, processed_at, ai_reasoning, created_at';
+
+/** Mesma chave para a mesma sugestão sobre a mesma entidade (independe do usuário). */
+export function decisionDedupeKey(decision: Pick<Decision, 'type' | 'dealId' | 'contactId' | 'activityId'>): string {
+  return `${decision.type}:${decision.dealId || decision.contactId || decision.activityId || ''}`;
+}
+
+/**
+ * Responsável pela decisão: dono da atividade (quando a decisão é sobre uma atividade) ou do deal.
+ * `null` = sem dono; a decisão fica visível para toda a equipe.
+ */
+export function resolveDecisionOwner(
+  decision: Pick<Decision, 'dealId' | 'activityId'>,
+  owners: { deals: Map<string, string | null>; activities: Map<string, string | null> }
+): string | null {
+  if (decision.activityId) {
+    const activityOwner = owners.activities.get(decision.activityId);
+    if (activityOwner) return activityOwner;
+  }
+  if (decision.dealId) return owners.deals.get(decision.dealId) ?? null;
+  return null;
+}
+
+/**
+ * Remove decisões que não devem entrar na fila:
+ * - já existe uma aberta (pending/snoozed) com a mesma chave;
+ * - a mesma chave foi aprovada/rejeitada há menos de `cooldownDays` do analyzer.
+ * Também remove repetições dentro do próprio lote.
+ */
+export function filterNewDecisions(
+  decisions: Decision[],
+  opts: {
+    openKeys: Set<string>;
+    /** dedupe_key -> último processed_at (ISO) */
+    processedAt: Map<string, string>;
+    cooldownDays: number;
+    now?: number;
+  }
+): Decision[] {
+  const now = opts.now ?? Date.now();
+  const cooldownMs = Math.max(0, opts.cooldownDays) * 24 * 60 * 60 * 1000;
+  const seen = new Set<string>();
+  const out: Decision[] = [];
+
+  for (const decision of decisions) {
+    const key = decisionDedupeKey(decision);
+    if (seen.has(key) || opts.openKeys.has(key)) continue;
+
+    const processed = opts.processedAt.get(key);
+    if (processed && now - Date.parse(processed) < cooldownMs) continue;
+
+    seen.add(key);
+    out.push(decision);
+  }
+
+  return out;
+}
+
+/** `Decision` (saída do analyzer) -> linha de ai_decisions. */
+export function toDecisionRow(
+  decision: Decision,
+  ctx: { organizationId: string; userId: string | null; analyzerId: string }
+): Omit<AIDecisionRow, 'processed_at' | 'snoozed_until'> {
+  return {
+    id: decision.id,
+    organization_id: ctx.organizationId,
+    user_id: ctx.userId,
+    deal_id: decision.dealId || null,
+    contact_id: decision.contactId || null,
+    activity_id: decision.activityId || null,
+    analyzer_id: ctx.analyzerId,
+    dedupe_key: decisionDedupeKey(decision),
+    decision_type: decision.type,
+    category: decision.category,
+    priority: decision.priority,
+    title: decision.title,
+    description: decision.description,
+    suggested_action: decision.suggestedAction,
+    alternative_actions: decision.alternativeActions ?? [],
+    status: 'pending',
+    expires_at: decision.expiresAt ?? null,
+    ai_reasoning: decision.reasoning,
+    created_at: decision.createdAt,
+  };
+}
+
+/** Linha de ai_decisions -> `Decision` usado pela UI. */
+export function fromDecisionRow(row: AIDecisionRow): Decision {
+  return {
+    id: row.id,
+    type: row.decision_type as DecisionType,
+    priority: (row.priority || 'medium') as DecisionPriority,
+    category: (row.category || 'follow_up') as DecisionCategory,
+    title: row.title,
+    description: row.description || '',
+    reasoning: row.ai_reasoning || '',
+    dealId: row.deal_id || undefined,
+    contactId: row.contact_id || undefined,
+    activityId: row.activity_id || undefined,
+    suggestedAction: (row.suggested_action || {
+      id: `${row.id}:dismiss`,
+      type: 'dismiss',
+      label: 'Dispensar',
+      payload: {},
+      requiresConfirmation: false,
+      allowEdit: false,
+    }) as SuggestedAction,
+    alternativeActions: row.alternative_actions || [],
+    status: (row.status || 'pending') as DecisionStatus,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at || undefined,
+    decidedAt: row.processed_at || undefined,
+    snoozeUntil: row.snoozed_until || undefined,
+    tenantId: row.organization_id || undefined,
+    userId: row.user_id || undefined,
+  };
+}
+
+/**
+ * Decisão aparece na fila: pendente e não expirada, ou adiada cujo prazo já passou.
+ */
+export function isDecisionActionable(decision: Decision, now: number = Date.now()): boolean {
+  if (decision.expiresAt && Date.parse(decision.expiresAt) < now) return false;
+  if (decision.status === 'pending') return true;
+  if (decision.status === 'snoozed') return !decision.snoozeUntil || Date.parse(decision.snoozeUntil) <= now;
+  return false;
+}
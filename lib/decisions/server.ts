@@ -0,0 +1,415 @@
+import 'server-only';
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Activity, DealView } from '@/types';
+import {
+  ANALYZER_SETTING_FIELDS,
+  fromAnalyzerSettingRow,
+  runConfiguredAnalyzers,
+  type AnalyzerOverride,
+  type AnalyzerSettingRow,
+} from './analyzerSettings';
+import {
+  DEAL_OUTCOME_FIELDS,
+  DECISION_OUTCOME_FIELDS,
+  computeDecisionAnalytics,
+  type DealOutcomeRow,
+  type DecisionAnalytics,
+  type DecisionOutcomeRow,
+} from './analytics';
+import {
+  decisionDedupeKey,
+  filterNewDecisions,
+  resolveDecisionOwner,
+  toDecisionRow,
+  type DecisionRunSummary,
+} from './queue';
+
+/** Atividades concluídas mais antigas que isso não mudam o resultado dos analyzers. */
+const ACTIVITY_LOOKBACK_DAYS = 90;
+/** Deals perdidos há mais tempo que isso não entram no analyzer de resgate. */
+const LOST_DEALS_LOOKBACK_DAYS = 180;
+/** Limite de decisões lidas pelo relatório de resultados. */
+const ANALYTICS_MAX_DECISIONS = 5000;
+/** O PostgREST corta cada resposta em `max_rows` (1000 em supabase/config.toml). */
+const PAGE_SIZE = 1000;
+
+/**
+ * Lê todas as páginas de uma consulta (`page(from, to)` aplica o `.range()`), até `maxRows` linhas.
+ * A consulta precisa de uma ordenação estável (ex.: terminar em `id`) para não pular/repetir linhas.
+ */
+async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: PostgrestError | null }>,
+  maxRows = Infinity
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; from < maxRows; from += PAGE_SIZE) {
+    const size = Math.min(PAGE_SIZE, maxRows - from);
+    const { data, error } = await page(from, from + size - 1);
+    if (error) throw error;
+    const chunk = (data || []) as T[];
+    rows.push(...chunk);
+    if (chunk.length < size) break;
+  }
+  return rows;
+}
+
+type DealRow = {
+  id: string;
+  title: string;
+  value: number | string | null;
+  probability: number | null;
+  priority: string | null;
+  board_id: string | null;
+  stage_id: string | null;
+  contact_id: string | null;
+  client_company_id: string | null;
+  owner_id: string | null;
+  tags: string[] | null;
+  ai_summary: string | null;
+  custom_fields: Record<string, unknown> | null;
+  last_stage_change_date: string | null;
+  is_won: boolean;
+  is_lost: boolean;
+  loss_reason: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  contact: { name: string | null; email: string | null } | null;
+  company: { name: string | null } | null;
+  stage: { name: string | null; label: string | null } | null;
+};
+
+type ActivityRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  type: Activity['type'];
+  date: string;
+  completed: boolean | null;
+  deal_id: string | null;
+  contact_id: string | null;
+  owner_id: string | null;
+};
+
+export type AnalyzerInput = {
+  deals: DealView[];
+  activities: Activity[];
+  owners: { deals: Map<string, string | null>; activities: Map<string, string | null> };
+};
+
+/**
+ * Carrega deals abertos (e perdidos recentemente, para o resgate) e atividades recentes da organização no formato que os analyzers usam no client.
+ */
+export async function loadAnalyzerInput(supabase: SupabaseClient, organizationId: string): Promise<AnalyzerInput> {
+  const since = new Date(Date.now() - ACTIVITY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const lostSince = new Date(Date.now() - LOST_DEALS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [dealRows, activityRows] = await Promise.all([
+    selectAllPages<DealRow>((from, to) =>
+      supabase
+        .from('deals')
+        .select(
+          'id, title, value, probability, priority, board_id, stage_id, contact_id, client_company_id, owner_id, tags, ai_summary, custom_fields, last_stage_change_date, is_won, is_lost, loss_reason, closed_at, created_at, updated_at, contact:contacts(name, email), company:crm_companies(name), stage:board_stages(name, label)'
+        )
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .eq('is_won', false)
+        .or(`is_lost.eq.false,closed_at.gte.${lostSince}`)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    selectAllPages<ActivityRow>((from, to) =>
+      supabase
+        .from('activities')
+        .select('id, title, description, type, date, completed, deal_id, contact_id, owner_id')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .or(`completed.eq.false,date.gte.${since}`)
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const deals: DealView[] = dealRows.map((d) => ({
+    id: d.id,
+    organizationId,
+    title: d.title,
+    contactId: d.contact_id || '',
+    clientCompanyId: d.client_company_id || undefined,
+    companyId: d.client_company_id || undefined,
+    boardId: d.board_id || '',
+    value: Number(d.value ?? 0),
+    items: [],
+    status: d.stage_id || '',
+    isWon: d.is_won,
+    isLost: d.is_lost,
+    lossReason: d.loss_reason || undefined,
+    closedAt: d.closed_at || undefined,
+    createdAt: d.created_at,
+    updatedAt: d.updated_at,
+    probability: d.probability ?? 0,
+    priority: (d.priority as DealView['priority']) || 'medium',
+    owner: { name: '', avatar: '' },
+    ownerId: d.owner_id || undefined,
+    tags: d.tags || [],
+    aiSummary: d.ai_summary || undefined,
+    customFields: d.custom_fields || {},
+    lastStageChangeDate: d.last_stage_change_date || undefined,
+    clientCompanyName: d.company?.name || undefined,
+    companyName: d.company?.name || undefined,
+    contactName: d.contact?.name || 'Sem Contato',
+    contactEmail: d.contact?.email || '',
+    stageLabel: d.stage?.label || d.stage?.name || 'Desconhecido',
+  }));
+
+  const dealTitles = new Map(deals.map((d) => [d.id, d.title]));
+
+  const activities: Activity[] = activityRows.map((a) => ({
+    id: a.id,
+    organizationId,
+    dealId: a.deal_id || '',
+    contactId: a.contact_id || undefined,
+    dealTitle: (a.deal_id && dealTitles.get(a.deal_id)) || '',
+    type: a.type,
+    title: a.title,
+    description: a.description || undefined,
+    date: a.date,
+    user: { name: '', avatar: '' },
+    completed: Boolean(a.completed),
+  }));
+
+  return {
+    deals,
+    activities,
+    owners: {
+      deals: new Map(dealRows.map((d) => [d.id, d.owner_id])),
+      activities: new Map(activityRows.map((a) => [a.id, a.owner_id])),
+    },
+  };
+}
+
+/** Regras dos analyzers configuradas em Settings (padrão da organização e por board). */
+export async function loadAnalyzerOverrides(supabase: SupabaseClient, organizationId: string): Promise<AnalyzerOverride[]> {
+  const { data, error } = await supabase
+    .from('ai_decision_analyzer_settings')
+    .select(ANALYZER_SETTING_FIELDS)
+    .eq('organization_id', organizationId);
+
+  if (error) throw error;
+  return ((data || []) as AnalyzerSettingRow[]).map(fromAnalyzerSettingRow);
+}
+
+/**
+ * Chaves com decisão aberta (pending/snoozed) e último `processed_at` por chave dentro do cooldown.
+ */
+export async function loadDedupeState(
+  supabase: SupabaseClient,
+  organizationId: string,
+  cooldownDays: number
+): Promise<{ openKeys: Set<string>; processedAt: Map<string, string> }> {
+  const cooldownSince = new Date(Date.now() - cooldownDays * 24 * 60 * 60 * 1000).toISOString();
+
+  type DedupeRow = { dedupe_key: string | null; processed_at: string | null };
+  const [openRows, processedRows] = await Promise.all([
+    selectAllPages<Pick<DedupeRow, 'dedupe_key'>>((from, to) =>
+      supabase
+        .from('ai_decisions')
+        .select('dedupe_key')
+        .eq('organization_id', organizationId)
+        .in('status', ['pending', 'snoozed'])
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+    selectAllPages<DedupeRow>((from, to) =>
+      supabase
+        .from('ai_decisions')
+        .select('dedupe_key, processed_at')
+        .eq('organization_id', organizationId)
+        .gte('processed_at', cooldownSince)
+        .order('processed_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const openKeys = new Set(openRows.map((r) => r.dedupe_key).filter((key): key is string => Boolean(key)));
+  const processedAt = new Map<string, string>();
+  for (const r of processedRows) {
+    // ordenado por processed_at: o último vence
+    if (r.dedupe_key && r.processed_at) processedAt.set(r.dedupe_key, r.processed_at);
+  }
+
+  return { openKeys, processedAt };
+}
+
+/**
+ * Relatório de resultados da fila (decisões criadas nos últimos `days` dias).
+ * Com o client da sessão, a RLS limita às decisões visíveis para o usuário.
+ */
+export async function loadDecisionAnalytics(
+  supabase: SupabaseClient,
+  organizationId: string,
+  opts: { days: number; windowDays: number }
+): Promise<DecisionAnalytics> {
+  const since = new Date(Date.now() - opts.days * 24 * 60 * 60 * 1000).toISOString();
+
+  const rows = await selectAllPages<DecisionOutcomeRow>(
+    (from, to) =>
+      supabase
+        .from('ai_decisions')
+        .select(DECISION_OUTCOME_FIELDS)
+        .eq('organization_id', organizationId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to),
+    ANALYTICS_MAX_DECISIONS
+  );
+
+  const dealIds = Array.from(new Set(rows.map((r) => r.deal_id).filter((id): id is string => Boolean(id))));
+  const deals: DealOutcomeRow[] = [];
+  // `.in()` vai na URL: lotes pequenos
+  for (let i = 0; i < dealIds.length; i += 200) {
+    const { data: dealRows, error: dealError } = await supabase
+      .from('deals')
+      .select(DEAL_OUTCOME_FIELDS)
+      .in('id', dealIds.slice(i, i + 200));
+    if (dealError) throw dealError;
+    deals.push(...((dealRows || []) as DealOutcomeRow[]));
+  }
+
+  return computeDecisionAnalytics(rows, deals, { since, windowDays: opts.windowDays });
+}
+
+/**
+ * Roda os analyzers de uma organização e grava as decisões novas em ai_decisions.
+ *
+ * - Dedupe por organização (uma decisão aberta por `tipo:entidade`), então dois vendedores
+ *   não recebem a mesma sugestão; o dono do deal/atividade vira o responsável.
+ * - Cooldown por analyzer a partir do `processed_at` (vale para todos os dispositivos).
+ * - Regras de Settings por organização/board (`ai_decision_analyzer_settings`).
+ * - Expira pendentes vencidas e devolve à fila as adiadas cujo prazo passou.
+ *
+ * Requer um client com service role (inserts não são permitidos pela RLS).
+ */
+export async function runDecisionAnalyzers(
+  supabase: SupabaseClient,
+  organizationId: string,
+  opts: { trigger: 'schedule' | 'manual'; triggeredBy?: string | null }
+): Promise<DecisionRunSummary> {
+  const startedAt = new Date().toISOString();
+
+  const { error: expireError } = await supabase
+    .from('ai_decisions')
+    .update({ status: 'expired', updated_at: startedAt })
+    .eq('organization_id', organizationId)
+    .in('status', ['pending', 'snoozed'])
+    .lt('expires_at', startedAt);
+  if (expireError) throw expireError;
+
+  const { error: unsnoozeError } = await supabase
+    .from('ai_decisions')
+    .update({ status: 'pending', snoozed_until: null, updated_at: startedAt })
+    .eq('organization_id', organizationId)
+    .eq('status', 'snoozed')
+    .lte('snoozed_until', startedAt);
+  if (unsnoozeError) throw unsnoozeError;
+
+  const [input, overrides] = await Promise.all([
+    loadAnalyzerInput(supabase, organizationId),
+    loadAnalyzerOverrides(supabase, organizationId),
+  ]);
+  const runs = runConfiguredAnalyzers(input.deals, input.activities, overrides);
+
+  const maxCooldownDays = Math.max(0, ...runs.map((r) => r.config.cooldownDays ?? 0));
+  const { openKeys, processedAt } = await loadDedupeState(supabase, organizationId, maxCooldownDays);
+
+  // Um item por analyzer no resumo, somando os escopos (organização + boards com regra própria)
+  const byAnalyzer = new Map<string, DecisionRunSummary['results'][number]>();
+  let totalDecisions = 0;
+  let addedDecisions = 0;
+
+  for (const { result, config } of runs) {
+    const fresh = filterNewDecisions(result.decisions, {
+      openKeys,
+      processedAt,
+      cooldownDays: config.cooldownDays ?? 0,
+    });
+
+    const rows = fresh.map((decision) =>
+      toDecisionRow(decision, {
+        organizationId,
+        userId: resolveDecisionOwner(decision, input.owners),
+        analyzerId: result.analyzerId,
+      })
+    );
+
+    const errors = [...(result.metadata.errors || [])];
+    const added = await insertDecisionRows(supabase, rows, errors);
+    for (const decision of fresh) openKeys.add(decisionDedupeKey(decision));
+
+    totalDecisions += result.decisions.length;
+    addedDecisions += added;
+
+    const previous = byAnalyzer.get(result.analyzerId);
+    const allErrors = [...(previous?.metadata.errors || []), ...errors];
+    byAnalyzer.set(result.analyzerId, {
+      analyzerId: result.analyzerId,
+      analyzerName: result.analyzerName,
+      metadata: {
+        executedAt: result.metadata.executedAt,
+        itemsAnalyzed: (previous?.metadata.itemsAnalyzed ?? 0) + result.metadata.itemsAnalyzed,
+        decisionsGenerated: (previous?.metadata.decisionsGenerated ?? 0) + result.metadata.decisionsGenerated,
+        ...(allErrors.length ? { errors: allErrors } : {}),
+      },
+    });
+  }
+
+  const results = [...byAnalyzer.values()];
+  const analyzedAt = new Date().toISOString();
+  const { data: run, error: runError } = await supabase
+    .from('ai_decision_runs')
+    .insert({
+      organization_id: organizationId,
+      trigger: opts.trigger,
+      triggered_by: opts.triggeredBy ?? null,
+      decisions_added: addedDecisions,
+      results,
+      started_at: startedAt,
+      finished_at: analyzedAt,
+    })
+    .select('id')
+    .single();
+
+  if (runError) console.error('[decisions] failed to record run:', runError);
+
+  return { runId: (run?.id as string | undefined) ?? null, analyzedAt, addedDecisions, totalDecisions, results };
+}
+
+/**
+ * Insere em lote; se outro run inseriu a mesma chave no meio tempo (unique parcial),
+ * cai para inserts individuais e ignora só as duplicadas.
+ */
+async function insertDecisionRows(
+  supabase: SupabaseClient,
+  rows: ReturnType<typeof toDecisionRow>[],
+  errors: string[]
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('ai_decisions').insert(rows);
+  if (!error) return rows.length;
+  if (error.code !== '23505') {
+    errors.push(error.message);
+    return 0;
+  }
+
+  let added = 0;
+  for (const row of rows) {
+    const { error: rowError } = await supabase.from('ai_decisions').insert(row);
+    if (!rowError) added++;
+    else if (rowError.code !== '23505') errors.push(rowError.message);
+  }
+  return added;
+}
@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { buildMcpToolAuditEntry, recordApiKeyAuditEvent } from '@/lib/public-api/audit';
+import { hasApiKeyScope, normalizeApiKeyScopes } from '@/lib/public-api/scopes';
+import { buildCrmMcpRegistry, type McpToolDraft } from './crmRegistry';
+import { canUseMcpTool } from './scopes';
+
+/**
+ * Human approval for MCP tool calls flagged `needsApproval` in `createCRMTools`.
+ *
+ * Flow:
+ * 1. `tools/call` on such a tool stores a `mcp_tool_approvals` row (plus a system notification) and returns
+ *    `{ approval: { token, status: 'pending' } }` instead of executing.
+ * 2. A human approves/rejects it in the Decision Queue (`POST /api/mcp/approvals/[id]`). On approval the
+ *    server executes the stored call as the API key owner and stores the tool output.
+ * 3. The MCP client polls `crm.approvals.get` with the token until the status is final.
+ *
+ * The requesting key is checked again right before execution: a key revoked, expired or narrowed while the
+ * request waited turns the approval into `failed` instead of running the tool.
+ */
+
+export const MCP_APPROVAL_STATUS_TOOL = {
+  name: 'crm.approvals.get',
+  title: 'Get approval status',
+  description:
+    'Read-only. Returns the status of a tool call waiting for human approval (token returned by a tool that requires approval). ' +
+    'Status: pending | approved (running) | executed (includes `result`) | failed | rejected | expired. Poll until the status is final.',
+  inputSchemaZod: z.object({ token: z.string().uuid() }).strict(),
+};
+
+/** Suffix added to `tools/list` descriptions of tools that wait for a human. */
+export const MCP_APPROVAL_DESCRIPTION_SUFFIX =
+  ` Requires human approval: the call returns a pending approval token; poll it with \`${MCP_APPROVAL_STATUS_TOOL.name}\`.`;
+
+export type McpApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed' | 'failed';
+
+export type McpApprovalRow = {
+  id: string;
+  organization_id: string;
+  api_key_id: string | null;
+  requested_by: string | null;
+  tool_name: string;
+  tool_title: string | null;
+  internal_key: string;
+  arguments: Record<string, unknown>;
+  status: McpApprovalStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_reason: string | null;
+  result: unknown;
+  error: string | null;
+  created_at: string;
+  expires_at: string;
+  executed_at: string | null;
+};
+
+const APPROVAL_FIELDS =
+  'id,organization_id,api_key_id,requested_by,tool_name,tool_title,internal_key,arguments,status,decided_by,decided_at,decision_reason,result,error,created_at,expires_at,executed_at';
+
+/** A pending request past `expires_at` is expired even before the row is updated. */
+export function effectiveMcpApprovalStatus(row: Pick<McpApprovalRow, 'status' | 'expires_at'>, now = Date.now()): McpApprovalStatus {
+  if (row.status === 'pending' && Date.parse(row.expires_at) <= now) return 'expired';
+  return row.status;
+}
+
+/** What the MCP client sees (tool result of the gated call and of `crm.approvals.get`). */
+export function toMcpApprovalPayload(row: McpApprovalRow, now = Date.now()) {
+  const status = effectiveMcpApprovalStatus(row, now);
+  const messages: Record<McpApprovalStatus, string> = {
+    pending: `Waiting for human approval in the CRM Decision Queue. Poll with ${MCP_APPROVAL_STATUS_TOOL.name}.`,
+    approved: 'Approved; the tool is running. Poll again shortly.',
+    executed: 'Approved and executed.',
+    failed: 'Approved, but the tool execution failed.',
+    rejected: 'Rejected by a human. The tool was not executed.',
+    expired: 'Nobody decided in time. The tool was not executed.',
+  };
+
+  return {
+    approval: {
+      token: row.id,
+      status,
+      tool: row.tool_name,
+      requested_at: row.created_at,
+      expires_at: row.expires_at,
+      decided_at: row.decided_at,
+      ...(row.decision_reason ? { reason: row.decision_reason } : {}),
+    },
+    message: messages[status],
+    ...(status === 'executed' ? { result: row.result } : {}),
+    ...(status === 'failed' && row.error ? { error: row.error } : {}),
+  };
+}
+
+/** Stores the pending call and notifies the organization. */
+export async function createMcpApprovalRequest(opts: {
+  organizationId: string;
+  apiKeyId: string;
+  userId: string;
+  tool: McpToolDraft;
+  args: Record<string, unknown>;
+}): Promise<McpApprovalRow> {
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('mcp_tool_approvals')
+    .insert({
+      organization_id: opts.organizationId,
+      api_key_id: opts.apiKeyId,
+      requested_by: opts.userId,
+      tool_name: opts.tool.name,
+      tool_title: opts.tool.title,
+      internal_key: opts.tool.internalKey,
+      arguments: opts.args,
+    })
+    .select(APPROVAL_FIELDS)
+    .single();
+  if (error) throw error;
+
+  // Best-effort: the request is already visible in the Decision Queue even if this insert fails.
+  await sb
+    .from('system_notifications')
+    .insert({
+      organization_id: opts.organizationId,
+      type: 'SYSTEM_WARNING',
+      severity: 'high',
+      title: `Aprovação pendente: ${opts.tool.title}`,
+      message: `Uma integração MCP quer executar "${opts.tool.title}". Aprove ou rejeite na Central de Decisões.`,
+      link: '/decisions',
+    });
+
+  return data as McpApprovalRow;
+}
+
+/** Only the API key that created the request can poll it. */
+export async function getMcpApprovalForApiKey(opts: { organizationId: string; apiKeyId: string; token: string }) {
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('mcp_tool_approvals')
+    .select(APPROVAL_FIELDS)
+    .eq('organization_id', opts.organizationId)
+    .eq('api_key_id', opts.apiKeyId)
+    .eq('id', opts.token)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as McpApprovalRow | null) ?? null;
+}
+
+export async function listPendingMcpApprovals(organizationId: string) {
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('mcp_tool_approvals')
+    .select(APPROVAL_FIELDS)
+    .eq('organization_id', organizationId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(100);
+  if (error) throw error;
+  return (data || []) as McpApprovalRow[];
+}
+
+export type McpApprovalApiKey = {
+  revoked_at: string | null;
+  expires_at: string | null;
+  scopes: string[] | null;
+};
+
+/** Why the requesting key can no longer run the tool (`null` = it still can). */
+export function mcpApprovalKeyError(
+  key: McpApprovalApiKey | null,
+  tool: Pick<McpToolDraft, 'scope'>,
+  now = Date.now()
+): string | null {
+  if (!key) return 'API key no longer exists';
+  if (key.revoked_at) return 'API key was revoked';
+  if (key.expires_at && Date.parse(key.expires_at) <= now) return 'API key expired';
+  const scopes = normalizeApiKeyScopes(key.scopes);
+  if (!hasApiKeyScope(scopes, 'mcp:call')) return 'API key is missing the mcp:call scope';
+  if (!canUseMcpTool(scopes, tool)) return `API key is missing the ${tool.scope ?? '*'} scope`;
+  return null;
+}
+
+async function executeApprovedCall(row: McpApprovalRow) {
+  const sb = createStaticAdminClient();
+  const finish = async (patch: Partial<McpApprovalRow>) => {
+    const { data, error } = await sb
+      .from('mcp_tool_approvals')
+      .update({ ...patch, executed_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .select(APPROVAL_FIELDS)
+      .single();
+    if (error) throw error;
+    return data as McpApprovalRow;
+  };
+
+  if (!row.requested_by) return finish({ status: 'failed', error: 'API key owner no longer exists' });
+
+  const registry = buildCrmMcpRegistry({ context: { organizationId: row.organization_id }, userId: row.requested_by });
+  const tool: any = registry.toolByMcpName[registry.mcpNameByInternalKey[row.internal_key] ?? ''];
+  const draft = registry.tools.find((t) => t.internalKey === row.internal_key);
+  if (!tool || !draft || typeof tool.execute !== 'function') {
+    return finish({ status: 'failed', error: `Tool not available: ${row.tool_name}` });
+  }
+
+  const { data: key, error: keyError } = row.api_key_id
+    ? await sb
+        .from('api_keys')
+        .select('revoked_at,expires_at,scopes')
+        .eq('organization_id', row.organization_id)
+        .eq('id', row.api_key_id)
+        .maybeSingle()
+    : { data: null, error: null };
+  if (keyError) return finish({ status: 'failed', error: keyError.message });
+  const keyProblem = mcpApprovalKeyError(key as McpApprovalApiKey | null, draft);
+  if (keyProblem) return finish({ status: 'failed', error: keyProblem });
+
+  let args: unknown = row.arguments ?? {};
+  if (tool.inputSchema && typeof tool.inputSchema.safeParse === 'function') {
+    const parsed = tool.inputSchema.safeParse(args);
+    if (!parsed.success) return finish({ status: 'failed', error: 'Invalid tool arguments' });
+    args = parsed.data;
+  }
+
+  try {
+    const out = await tool.execute(args);
+    const failed = !!out && typeof out === 'object' && !Array.isArray(out) && 'error' in out;
+    return finish({
+      status: failed ? 'failed' : 'executed',
+      result: out ?? null,
+      error: failed ? String((out as any).error) : null,
+    });
+  } catch (e: any) {
+    return finish({ status: 'failed', error: e?.message || 'Tool execution failed' });
+  }
+}
+
+export type McpApprovalDecisionResult =
+  | { ok: true; approval: McpApprovalRow }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Approves (and executes) or rejects a pending request.
+ * The status flip is conditional (`status = 'pending'`), so concurrent decisions execute the tool at most once.
+ */
+export async function decideMcpApproval(opts: {
+  organizationId: string;
+  approvalId: string;
+  userId: string;
+  decision: 'approve' | 'reject';
+  reason?: string | null;
+}): Promise<McpApprovalDecisionResult> {
+  const sb = createStaticAdminClient();
+  const now = new Date().toISOString();
+
+  const { data, error } = await sb
+    .from('mcp_tool_approvals')
+    .update({
+      status: opts.decision === 'approve' ? 'approved' : 'rejected',
+      decided_by: opts.userId,
+      decided_at: now,
+      decision_reason: opts.reason?.trim() || null,
+    })
+    .eq('organization_id', opts.organizationId)
+    .eq('id', opts.approvalId)
+    .eq('status', 'pending')
+    .gt('expires_at', now)
+    .select(APPROVAL_FIELDS)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!data) return { ok: false, status: 409, error: 'Pedido não encontrado, já decidido ou expirado' };
+
+  const row = data as McpApprovalRow;
+  if (opts.decision === 'reject') return { ok: true, approval: row };
+
+  try {
+    const executed = await executeApprovedCall(row);
+    await auditApprovedCall(executed);
+    return { ok: true, approval: executed };
+  } catch (e: any) {
+    return { ok: false, status: 500, error: e?.message || 'Falha ao executar a ferramenta' };
+  }
+}
+
+/** The deferred execution is audited like a direct `tools/call`, attributed to the approver. */
+async function auditApprovedCall(row: McpApprovalRow) {
+  const sb = createStaticAdminClient();
+  const { data: key } = row.api_key_id
+    ? await sb.from('api_keys').select('key_prefix').eq('id', row.api_key_id).maybeSingle()
+    : { data: null };
+  const apiKeyPrefix = (key as { key_prefix?: string } | null)?.key_prefix ?? null;
+
+  await recordApiKeyAuditEvent({
+    organizationId: row.organization_id,
+    apiKeyId: row.api_key_id,
+    apiKeyPrefix,
+    userId: row.decided_by,
+    entry: buildMcpToolAuditEntry({
+      toolName: row.tool_name,
+      apiKeyPrefix,
+      args: row.arguments,
+      result: row.result,
+      outcome: row.status === 'executed' ? 'success' : 'error',
+      error: row.error,
+      extra: { approval_id: row.id, approved_by: row.decided_by, requested_by: row.requested_by },
+    }),
+  });
+}
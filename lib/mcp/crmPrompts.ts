@@ -0,0 +1,63 @@
+import { PROMPT_CATALOG, type PromptCatalogItem } from '@/lib/ai/prompts/catalog';
+import { renderPromptTemplate } from '@/lib/ai/prompts/render';
+
+/**
+ * MCP prompts (`prompts/list`, `prompts/get`) backed by the AI prompt catalog.
+ *
+ * - One MCP prompt per catalog entry; the catalog `key` is the prompt name.
+ * - Arguments are the `{{var}}` placeholders of the template (all optional: missing ones render empty).
+ * - `prompts/get` renders the organization's active override when there is one (resolved by the caller).
+ */
+
+export type McpPromptArgument = { name: string; description: string; required: boolean };
+
+export type McpPrompt = {
+  name: string;
+  title: string;
+  description?: string;
+  arguments: McpPromptArgument[];
+};
+
+/** Placeholders in order of first appearance. */
+export function extractPromptTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const m of String(template || '').matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) {
+    if (!names.includes(m[1])) names.push(m[1]);
+  }
+  return names;
+}
+
+export function toMcpPrompt(item: PromptCatalogItem): McpPrompt {
+  return {
+    name: item.key,
+    title: item.title,
+    ...(item.notes ? { description: item.notes } : {}),
+    arguments: extractPromptTemplateVariables(item.defaultTemplate).map((name) => ({
+      name,
+      description: `Template variable \`${name}\`.`,
+      required: false,
+    })),
+  };
+}
+
+export function listCrmMcpPrompts(): McpPrompt[] {
+  return PROMPT_CATALOG.map(toMcpPrompt);
+}
+
+/** `prompts/get` result for an already-resolved template (override or catalog default). */
+export function buildCrmMcpPromptMessages(opts: {
+  item: PromptCatalogItem;
+  template: string;
+  args: Record<string, unknown> | null | undefined;
+}) {
+  // MCP clients send string arguments; JSON-ish variables (e.g. `dataJson`) are passed through verbatim.
+  const vars: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(opts.args || {})) {
+    if (v != null) vars[k] = typeof v === 'string' ? v : JSON.stringify(v);
+  }
+
+  return {
+    description: opts.item.title,
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text: renderPromptTemplate(opts.template, vars) } }],
+  };
+}
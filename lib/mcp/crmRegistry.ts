@@ -1,5 +1,6 @@
 import { createCRMTools } from '@/lib/ai/tools';
 import type { CRMCallOptions } from '@/types/ai';
+import type { ApiKeyScope } from '@/lib/public-api/scopes';
 import { getCrmCatalogEntry, type CrmToolCatalogEntry } from './crmToolCatalog';
 
 type AnyTool = {
@@ -25,6 +26,8 @@ export type McpToolDraft = {
   inputSchemaZod: unknown;
   /** Whether the underlying tool was marked as requiring approval in the product UI. */
   needsApproval: boolean;
+  /** API key scope required besides `mcp:call` (`null` = unmapped tool, full-access keys only). */
+  scope: ApiKeyScope | null;
 };
 
 export type CrmMcpRegistry = {
@@ -84,6 +87,7 @@ export function buildCrmMcpRegistry(params: {
       internalKey,
       inputSchemaZod,
       needsApproval,
+      scope: catalog?.scope ?? null,
     });
 
     toolByMcpName[name] = t;
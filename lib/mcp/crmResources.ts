@@ -0,0 +1,255 @@
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { isValidUUID } from '@/lib/supabase/utils';
+
+/**
+ * MCP resources (`resources/list`, `resources/templates/list`, `resources/read`) for CRM records.
+ *
+ * Addressing:
+ * - `crm://boards/{id}`        board + stages
+ * - `crm://deals/{id}`         deal + stage + contact
+ * - `crm://deals/{id}/notes`   notes of a deal (newest first)
+ * - `crm://contacts/{id}`      contact
+ *
+ * Everything is scoped to the organization of the API key (service-role client + explicit org filter).
+ */
+
+export const CRM_RESOURCE_MIME_TYPE = 'application/json';
+
+/** How many recent deals/contacts `resources/list` advertises (the rest is reachable via templates). */
+export const CRM_RESOURCE_LIST_LIMIT = 50;
+
+const DEAL_NOTES_READ_LIMIT = 100;
+
+export type CrmResourceKind = 'board' | 'deal' | 'deal_notes' | 'contact';
+
+export type CrmResourceRef = { kind: CrmResourceKind; id: string };
+
+export type McpResource = {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+};
+
+export type McpResourceContents = { uri: string; mimeType: string; text: string };
+
+/** One template per resource kind (`name` is the kind). */
+export const CRM_RESOURCE_TEMPLATES: Array<{
+  uriTemplate: string;
+  name: CrmResourceKind;
+  title: string;
+  description: string;
+  mimeType: string;
+}> = [
+  {
+    uriTemplate: 'crm://boards/{id}',
+    name: 'board',
+    title: 'Board',
+    description: 'A pipeline (board) with its ordered stages.',
+    mimeType: CRM_RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'crm://deals/{id}',
+    name: 'deal',
+    title: 'Deal',
+    description: 'A deal with its current stage and primary contact.',
+    mimeType: CRM_RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'crm://deals/{id}/notes',
+    name: 'deal_notes',
+    title: 'Deal notes',
+    description: `Notes written on a deal, newest first (up to ${DEAL_NOTES_READ_LIMIT}).`,
+    mimeType: CRM_RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'crm://contacts/{id}',
+    name: 'contact',
+    title: 'Contact',
+    description: 'A contact (lead/person).',
+    mimeType: CRM_RESOURCE_MIME_TYPE,
+  },
+];
+
+const URI_PATTERNS: Array<{ kind: CrmResourceKind; re: RegExp }> = [
+  { kind: 'board', re: /^crm:\/\/boards\/([^/]+)$/ },
+  { kind: 'deal', re: /^crm:\/\/deals\/([^/]+)$/ },
+  { kind: 'deal_notes', re: /^crm:\/\/deals\/([^/]+)\/notes$/ },
+  { kind: 'contact', re: /^crm:\/\/contacts\/([^/]+)$/ },
+];
+
+export function parseCrmResourceUri(uri: unknown): CrmResourceRef | null {
+  if (typeof uri !== 'string') return null;
+  for (const { kind, re } of URI_PATTERNS) {
+    const m = uri.trim().match(re);
+    if (m && isValidUUID(m[1])) return { kind, id: m[1].toLowerCase() };
+  }
+  return null;
+}
+
+export function crmResourceUri(ref: CrmResourceRef) {
+  switch (ref.kind) {
+    case 'board':
+      return `crm://boards/${ref.id}`;
+    case 'deal':
+      return `crm://deals/${ref.id}`;
+    case 'deal_notes':
+      return `crm://deals/${ref.id}/notes`;
+    case 'contact':
+      return `crm://contacts/${ref.id}`;
+  }
+}
+
+/** Boards plus the most recently updated open deals and contacts. */
+export async function listCrmResources(organizationId: string): Promise<McpResource[]> {
+  const sb = createStaticAdminClient();
+
+  const [boards, deals, contacts] = await Promise.all([
+    sb
+      .from('boards')
+      .select('id,name,description')
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true }),
+    sb
+      .from('deals')
+      .select('id,title,value')
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .eq('is_won', false)
+      .eq('is_lost', false)
+      .order('updated_at', { ascending: false })
+      .limit(CRM_RESOURCE_LIST_LIMIT),
+    sb
+      .from('contacts')
+      .select('id,name,email')
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .order('updated_at', { ascending: false })
+      .limit(CRM_RESOURCE_LIST_LIMIT),
+  ]);
+  if (boards.error) throw boards.error;
+  if (deals.error) throw deals.error;
+  if (contacts.error) throw contacts.error;
+
+  return [
+    ...(boards.data || []).map((b: any) => ({
+      uri: crmResourceUri({ kind: 'board', id: b.id }),
+      name: `board:${b.id}`,
+      title: b.name,
+      description: b.description || 'Board (pipeline) with its stages.',
+      mimeType: CRM_RESOURCE_MIME_TYPE,
+    })),
+    ...(deals.data || []).map((d: any) => ({
+      uri: crmResourceUri({ kind: 'deal', id: d.id }),
+      name: `deal:${d.id}`,
+      title: d.title,
+      description: `Open deal (value ${Number(d.value ?? 0)}). Notes at ${crmResourceUri({ kind: 'deal_notes', id: d.id })}.`,
+      mimeType: CRM_RESOURCE_MIME_TYPE,
+    })),
+    ...(contacts.data || []).map((c: any) => ({
+      uri: crmResourceUri({ kind: 'contact', id: c.id }),
+      name: `contact:${c.id}`,
+      title: c.name,
+      description: c.email ? `Contact <${c.email}>` : 'Contact',
+      mimeType: CRM_RESOURCE_MIME_TYPE,
+    })),
+  ];
+}
+
+async function readResourceData(organizationId: string, ref: CrmResourceRef): Promise<unknown | null> {
+  const sb = createStaticAdminClient();
+
+  if (ref.kind === 'board') {
+    const { data: board, error } = await sb
+      .from('boards')
+      .select('id,key,name,description,is_default,created_at,updated_at')
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .eq('id', ref.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!board) return null;
+
+    const { data: stages, error: stagesError } = await sb
+      .from('board_stages')
+      .select('id,label,name,color,order')
+      .eq('organization_id', organizationId)
+      .eq('board_id', ref.id)
+      .order('order', { ascending: true });
+    if (stagesError) throw stagesError;
+    return { ...board, stages: stages || [] };
+  }
+
+  if (ref.kind === 'deal' || ref.kind === 'deal_notes') {
+    const { data: deal, error } = await sb
+      .from('deals')
+      .select(
+        'id,title,value,probability,priority,board_id,stage_id,contact_id,client_company_id,is_won,is_lost,loss_reason,closed_at,created_at,updated_at'
+      )
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .eq('id', ref.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!deal) return null;
+
+    if (ref.kind === 'deal_notes') {
+      const { data: notes, error: notesError } = await sb
+        .from('deal_notes')
+        .select('id,content,created_at,updated_at')
+        .eq('deal_id', ref.id)
+        .order('created_at', { ascending: false })
+        .limit(DEAL_NOTES_READ_LIMIT);
+      if (notesError) throw notesError;
+      return { deal: { id: deal.id, title: deal.title }, notes: notes || [] };
+    }
+
+    const [stage, contact] = await Promise.all([
+      deal.stage_id
+        ? sb.from('board_stages').select('id,label').eq('id', deal.stage_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      deal.contact_id
+        ? sb
+            .from('contacts')
+            .select('id,name,email,phone,company_name')
+            .eq('organization_id', organizationId)
+            .eq('id', deal.contact_id)
+            .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+    if (stage.error) throw stage.error;
+    if (contact.error) throw contact.error;
+
+    return {
+      ...deal,
+      value: Number(deal.value ?? 0),
+      stage: stage.data,
+      contact: contact.data,
+      notes_uri: crmResourceUri({ kind: 'deal_notes', id: ref.id }),
+    };
+  }
+
+  const { data: contact, error } = await sb
+    .from('contacts')
+    .select('id,name,email,phone,role,company_name,client_company_id,notes,status,stage,source,birth_date,last_interaction,total_value,created_at,updated_at')
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .eq('id', ref.id)
+    .maybeSingle();
+  if (error) throw error;
+  return contact;
+}
+
+/** `null` when the URI is unknown or the record is not in the organization. */
+export async function readCrmResource(organizationId: string, uri: unknown): Promise<McpResourceContents | null> {
+  const ref = parseCrmResourceUri(uri);
+  if (!ref) return null;
+
+  const data = await readResourceData(organizationId, ref);
+  if (data == null) return null;
+
+  return { uri: crmResourceUri(ref), mimeType: CRM_RESOURCE_MIME_TYPE, text: JSON.stringify(data, null, 2) };
+}
@@ -0,0 +1,41 @@
+import { API_KEY_FULL_ACCESS, hasApiKeyScope, type ApiKeyScope } from '@/lib/public-api/scopes';
+import { parseCrmResourceUri, type CrmResourceKind } from './crmResources';
+
+/**
+ * Resource scopes on top of `mcp:call`.
+ *
+ * `mcp:call` only opens `/api/mcp`; each tool/resource also needs the scope of the data it touches,
+ * so a key with `mcp:call` + `deals:read` cannot move deals or read contacts through MCP.
+ */
+
+/** Scopes a key created by the MCP settings screen gets (every tool and resource). */
+export const MCP_DEFAULT_KEY_SCOPES: ApiKeyScope[] = [
+  'mcp:call',
+  'deals:write',
+  'contacts:write',
+  'activities:write',
+  'boards:write',
+];
+
+export const CRM_RESOURCE_SCOPES: Record<CrmResourceKind, ApiKeyScope> = {
+  board: 'boards:read',
+  deal: 'deals:read',
+  deal_notes: 'deals:read',
+  contact: 'contacts:read',
+};
+
+/** Tools without a catalog scope (`crm.unmapped.*`) are reserved to full-access keys. */
+export function canUseMcpTool(granted: readonly string[], tool: { scope: ApiKeyScope | null }) {
+  return tool.scope ? hasApiKeyScope(granted, tool.scope) : granted.includes(API_KEY_FULL_ACCESS);
+}
+
+/** `null` for URIs outside `crm://` (those end up as "not found" anyway). */
+export function crmResourceScope(uri: unknown): ApiKeyScope | null {
+  const ref = parseCrmResourceUri(uri);
+  return ref ? CRM_RESOURCE_SCOPES[ref.kind] : null;
+}
+
+export function canReadCrmResource(granted: readonly string[], uri: unknown) {
+  const scope = crmResourceScope(uri);
+  return scope === null || hasApiKeyScope(granted, scope);
+}
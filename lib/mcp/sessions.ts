@@ -0,0 +1,86 @@
+import { createStaticAdminClient } from '@/lib/supabase/server';
+
+/**
+ * `mcp_sessions` access for the Streamable HTTP transport.
+ * A session belongs to the API key that initialized it and expires after 24h without requests.
+ */
+
+export const MCP_SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type McpSession = {
+  id: string;
+  organization_id: string;
+  api_key_id: string;
+  protocol_version: string;
+  tools_fingerprint: string | null;
+  last_seen_at: string;
+  closed_at: string | null;
+};
+
+const SESSION_FIELDS = 'id,organization_id,api_key_id,protocol_version,tools_fingerprint,last_seen_at,closed_at';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Closed, idle-expired or owned by another key: the client must re-initialize (HTTP 404). */
+export function isMcpSessionUsable(
+  session: Pick<McpSession, 'organization_id' | 'api_key_id' | 'last_seen_at' | 'closed_at'>,
+  auth: { organizationId: string; apiKeyId: string },
+  now = Date.now()
+) {
+  if (session.closed_at) return false;
+  if (session.organization_id !== auth.organizationId || session.api_key_id !== auth.apiKeyId) return false;
+  return Date.parse(session.last_seen_at) + MCP_SESSION_IDLE_TTL_MS > now;
+}
+
+export async function createMcpSession(opts: {
+  organizationId: string;
+  apiKeyId: string;
+  protocolVersion: string;
+  clientInfo: unknown;
+  toolsFingerprint: string;
+}) {
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('mcp_sessions')
+    .insert({
+      organization_id: opts.organizationId,
+      api_key_id: opts.apiKeyId,
+      protocol_version: opts.protocolVersion,
+      client_info: opts.clientInfo ?? null,
+      tools_fingerprint: opts.toolsFingerprint,
+    })
+    .select(SESSION_FIELDS)
+    .single();
+  if (error) throw error;
+  return data as McpSession;
+}
+
+/** Returns the session if it can still be used by this API key (and refreshes `last_seen_at`). */
+export async function getUsableMcpSession(sessionId: string, auth: { organizationId: string; apiKeyId: string }) {
+  if (!UUID_RE.test(sessionId)) return null;
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb.from('mcp_sessions').select(SESSION_FIELDS).eq('id', sessionId).maybeSingle();
+  if (error) throw error;
+
+  const session = data as McpSession | null;
+  if (!session || !isMcpSessionUsable(session, auth)) return null;
+
+  await sb.from('mcp_sessions').update({ last_seen_at: new Date().toISOString() }).eq('id', session.id);
+  return session;
+}
+
+export async function updateMcpSessionToolsFingerprint(sessionId: string, fingerprint: string) {
+  const sb = createStaticAdminClient();
+  await sb.from('mcp_sessions').update({ tools_fingerprint: fingerprint }).eq('id', sessionId);
+}
+
+export async function closeMcpSession(sessionId: string) {
+  const sb = createStaticAdminClient();
+  const { error } = await sb
+    .from('mcp_sessions')
+    .update({ closed_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('closed_at', null);
+  if (error) throw error;
+}
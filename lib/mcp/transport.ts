@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * MCP Streamable HTTP transport helpers (pure; no DB / auth).
+ *
+ * - POST carries one JSON-RPC message or a batch (array). Requests get responses; notifications and
+ *   client responses get `202 Accepted` with no body.
+ * - When the client accepts `text/event-stream`, a POST can be answered with an SSE stream so the server
+ *   can send notifications (e.g. `notifications/progress`) before the final response.
+ * - GET with `Accept: text/event-stream` opens the server→client stream of a session.
+ */
+
+export const MCP_PROTOCOL_VERSION = '2025-11-25';
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+export type JsonRpcId = string | number | null;
+
+export type JsonRpcMessage = {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method?: string;
+  params?: any;
+  result?: unknown;
+  error?: unknown;
+};
+
+export function jsonRpcResult(id: JsonRpcId | undefined, result: unknown) {
+  return { jsonrpc: '2.0' as const, id: id ?? null, result };
+}
+
+export function jsonRpcError(id: JsonRpcId | undefined, code: number, message: string, data?: unknown) {
+  return { jsonrpc: '2.0' as const, id: id ?? null, error: { code, message, ...(data ? { data } : {}) } };
+}
+
+export function jsonRpcNotification(method: string, params?: unknown) {
+  return { jsonrpc: '2.0' as const, method, ...(params !== undefined ? { params } : {}) };
+}
+
+/** Request: has `method` and `id`. */
+export function isJsonRpcRequest(msg: JsonRpcMessage) {
+  return typeof msg.method === 'string' && msg.id !== undefined;
+}
+
+/** Notification: has `method`, no `id` (never answered). */
+export function isJsonRpcNotification(msg: JsonRpcMessage) {
+  return typeof msg.method === 'string' && msg.id === undefined;
+}
+
+function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const msg = value as JsonRpcMessage;
+  if (msg.jsonrpc !== '2.0') return false;
+  // Client responses (to server requests) are accepted and ignored.
+  if (msg.method === undefined) return msg.id !== undefined && ('result' in msg || 'error' in msg);
+  return typeof msg.method === 'string';
+}
+
+export type ParsedJsonRpcBody =
+  | { ok: true; batch: boolean; messages: JsonRpcMessage[] }
+  | { ok: false; error: ReturnType<typeof jsonRpcError> };
+
+/** Validates a POST body: one message or a non-empty batch of messages. */
+export function parseJsonRpcBody(body: unknown): ParsedJsonRpcBody {
+  const batch = Array.isArray(body);
+  const items = batch ? (body as unknown[]) : [body];
+  if (items.length === 0 || !items.every(isJsonRpcMessage)) {
+    return { ok: false, error: jsonRpcError(null, -32600, 'Invalid Request') };
+  }
+  return { ok: true, batch, messages: items as JsonRpcMessage[] };
+}
+
+/** True when the client listed `text/event-stream` in `Accept`. */
+export function acceptsEventStream(request: Request) {
+  return (request.headers.get('accept') || '').toLowerCase().includes('text/event-stream');
+}
+
+/** `params._meta.progressToken` of a request, if the client asked for progress notifications. */
+export function getProgressToken(msg: JsonRpcMessage): string | number | null {
+  const token = msg.params?._meta?.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : null;
+}
+
+/** One SSE event carrying a JSON-RPC message. */
+export function encodeSseMessage(message: unknown, eventId?: string) {
+  return `${eventId ? `id: ${eventId}\n` : ''}event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+/** SSE comment line; keeps proxies from closing an idle stream. */
+export function encodeSseKeepAlive() {
+  return ': keep-alive\n\n';
+}
+
+/**
+ * Stable hash of the published tool list. A session stores the hash it last saw;
+ * a different hash means the server must send `notifications/tools/list_changed`.
+ */
+export function toolsFingerprint(tools: Array<{ name: string; description?: string; inputSchema?: unknown }>) {
+  const canonical = tools
+    .map((t) => ({ name: t.name, description: t.description ?? '', inputSchema: t.inputSchema ?? null }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import type { MessagingChannel, MessagingErrorCode } from './types';
+
+export type SendMessageInput = {
+  channel: MessagingChannel;
+  dealId?: string | null;
+  contactId?: string | null;
+  to?: string | null;
+  subject?: string;
+  message: string;
+  logContext?: string;
+};
+
+export type SendMessageResponse = {
+  ok: true;
+  to: string;
+  transport: string;
+  providerMessageId: string | null;
+  activityId: string | null;
+};
+
+/** Erro de `/api/messages/send` com o `code` do servidor (ex.: `NOT_CONFIGURED`). */
+export class SendMessageError extends Error {
+  readonly code: MessagingErrorCode | null;
+
+  constructor(message: string, code: MessagingErrorCode | null) {
+    super(message);
+    this.name = 'SendMessageError';
+    this.code = code;
+  }
+}
+
+/**
+ * Envia pelo servidor (email/WhatsApp/SMS) e registra a atividade no deal.
+ */
+export async function sendMessage(input: SendMessageInput): Promise<SendMessageResponse> {
+  const res = await fetch('/api/messages/send', {
+    method: 'POST',
+    credentials: 'include',
+    headers: { 'content-type': 'application/json', accept: 'application/json' },
+    body: JSON.stringify(input),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new SendMessageError(body?.error || `Erro ${res.status}`, body?.code ?? null);
+  return body as SendMessageResponse;
+}
+
+/** Erro de canal sem transporte: a tela deve cair no wa.me/mailto. */
+export function isChannelNotConfigured(err: unknown): boolean {
+  return err instanceof SendMessageError && err.code === 'NOT_CONFIGURED';
+}
+
+/**
+ * Canais com envio pelo servidor. Em caso de erro, trata todos como não configurados.
+ */
+export async function getMessagingChannels(): Promise<Record<MessagingChannel, boolean>> {
+  try {
+    const res = await fetch('/api/messages/channels', { credentials: 'include', headers: { accept: 'application/json' } });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body?.channels) throw new Error();
+    return body.channels as Record<MessagingChannel, boolean>;
+  } catch {
+    return { email: false, whatsapp: false, sms: false };
+  }
+}
@@ -0,0 +1,67 @@
+import { isE164, normalizePhoneE164, toWhatsAppPhone } from '@/lib/phone';
+import { CHANNEL_LABELS, MessagingError, type MessagingChannel } from './types';
+
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * Destinatário no formato do canal: email validado, WhatsApp só com dígitos, SMS em E.164.
+ * `explicit` (informado na tela) tem precedência sobre o cadastro do contato.
+ */
+export function resolveRecipient(
+  channel: MessagingChannel,
+  contact: { email?: string | null; phone?: string | null } | null,
+  explicit?: string | null
+): string {
+  const raw = (explicit || (channel === 'email' ? contact?.email : contact?.phone) || '').trim();
+  if (!raw) {
+    throw new MessagingError(
+      'INVALID_RECIPIENT',
+      channel === 'email' ? 'Contato sem email cadastrado' : 'Contato sem telefone cadastrado'
+    );
+  }
+
+  if (channel === 'email') {
+    if (!EMAIL_RE.test(raw)) throw new MessagingError('INVALID_RECIPIENT', `Email inválido: ${raw}`);
+    return raw.toLowerCase();
+  }
+
+  const e164 = normalizePhoneE164(raw);
+  if (!isE164(e164)) throw new MessagingError('INVALID_RECIPIENT', `Telefone inválido para ${CHANNEL_LABELS[channel]}: ${raw}`);
+  return channel === 'whatsapp' ? toWhatsAppPhone(e164) : e164;
+}
+
+/**
+ * Atividade que registra a mensagem no deal (mesmo formato do Cockpit: email = EMAIL, demais = NOTE).
+ */
+export function buildMessageActivity(opts: {
+  channel: MessagingChannel;
+  to: string;
+  subject?: string;
+  body: string;
+  transport: string;
+  providerMessageId: string | null;
+  logContext?: string;
+}): { type: 'EMAIL' | 'NOTE'; title: string; description: string } {
+  const header = [
+    ...(opts.logContext?.trim() ? [opts.logContext.trim()] : []),
+    `Canal: ${CHANNEL_LABELS[opts.channel]}`,
+    'Enviado pelo CRM: sim',
+    `Para: ${opts.to}`,
+    ...(opts.providerMessageId ? [`ID no provedor (${opts.transport}): ${opts.providerMessageId}`] : []),
+  ];
+
+  if (opts.channel === 'email') {
+    const subject = opts.subject?.trim() || 'Email';
+    return {
+      type: 'EMAIL',
+      title: subject,
+      description: `${header.join('\n')}\nAssunto: ${subject}\n\n---\n\n${opts.body}`,
+    };
+  }
+
+  return {
+    type: 'NOTE',
+    title: CHANNEL_LABELS[opts.channel],
+    description: `${header.join('\n')}\n\n---\n\n${opts.body}`,
+  };
+}
@@ -0,0 +1,133 @@
+import 'server-only';
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolveTransport } from './transports';
+import { buildMessageActivity, resolveRecipient } from './recipients';
+import { CHANNEL_LABELS, MessagingError, type MessagingChannel, type MessagingTransport } from './types';
+
+type ContactRow = { id: string; name: string | null; email: string | null; phone: string | null };
+
+export type SendDealMessageInput = {
+  organizationId: string;
+  userId: string;
+  channel: MessagingChannel;
+  dealId?: string | null;
+  contactId?: string | null;
+  /** Sobrescreve o email/telefone do contato (exige `dealId` ou `contactId`) */
+  to?: string | null;
+  /** Email; sem ele, o título do deal */
+  subject?: string;
+  body: string;
+  /** Linhas extras no registro da atividade (ex.: origem no Cockpit) */
+  logContext?: string;
+};
+
+export type SendDealMessageResult = {
+  to: string;
+  transport: string;
+  providerMessageId: string | null;
+  /** `null` se a mensagem saiu mas o registro no deal falhou */
+  activityId: string | null;
+};
+
+/**
+ * Envia pelo transporte do canal e registra a mensagem como atividade concluída no deal.
+ *
+ * Usa o client da sessão: a RLS garante que o usuário enxerga o deal/contato e pode criar a atividade.
+ * Toda mensagem pertence a um deal ou contato da organização (não é um relay para endereços soltos).
+ */
+export async function sendDealMessage(
+  supabase: SupabaseClient,
+  input: SendDealMessageInput,
+  opts: { transport?: MessagingTransport | null } = {}
+): Promise<SendDealMessageResult> {
+  const transport = opts.transport !== undefined ? opts.transport : resolveTransport(input.channel);
+  if (!transport) {
+    throw new MessagingError('NOT_CONFIGURED', `Envio por ${CHANNEL_LABELS[input.channel]} não configurado no servidor`);
+  }
+
+  if (!input.dealId && !input.contactId) {
+    throw new MessagingError('INVALID_RECIPIENT', 'Informe o deal ou o contato da mensagem');
+  }
+
+  let contactId = input.contactId || null;
+  let subject = input.subject?.trim() || undefined;
+
+  if (input.dealId) {
+    const { data: deal, error } = await supabase
+      .from('deals')
+      .select('id, contact_id, title')
+      .eq('id', input.dealId)
+      .eq('organization_id', input.organizationId)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (error) throw error;
+    if (!deal) throw new MessagingError('NOT_FOUND', 'Deal não encontrado');
+    contactId = contactId || (deal.contact_id as string | null);
+    if (input.channel === 'email') subject = subject || (deal.title as string | null) || undefined;
+  }
+
+  let contact: ContactRow | null = null;
+  if (contactId) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, name, email, phone')
+      .eq('id', contactId)
+      .eq('organization_id', input.organizationId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new MessagingError('NOT_FOUND', 'Contato não encontrado');
+    contact = data as ContactRow;
+  }
+
+  const to = resolveRecipient(input.channel, contact, input.to);
+
+  let sent: Awaited<ReturnType<MessagingTransport['send']>>;
+  try {
+    sent = await transport.send({
+      channel: input.channel,
+      to,
+      toName: contact?.name || undefined,
+      subject,
+      body: input.body,
+    });
+  } catch (err) {
+    throw new MessagingError('PROVIDER_ERROR', err instanceof Error ? err.message : String(err));
+  }
+
+  const activity = buildMessageActivity({
+    channel: input.channel,
+    to,
+    subject,
+    body: input.body,
+    transport: sent.transport,
+    providerMessageId: sent.providerMessageId,
+    logContext: input.logContext,
+  });
+
+  const { data: row, error: logError } = await supabase
+    .from('activities')
+    .insert({
+      organization_id: input.organizationId,
+      deal_id: input.dealId || null,
+      contact_id: contactId,
+      owner_id: input.userId,
+      type: activity.type,
+      title: activity.title,
+      description: activity.description,
+      date: new Date().toISOString(),
+      completed: true,
+    })
+    .select('id')
+    .single();
+
+  // A mensagem já saiu: falha no registro não vira erro para o usuário
+  if (logError) console.error('[messaging] failed to log activity:', logError);
+
+  return {
+    to,
+    transport: sent.transport,
+    providerMessageId: sent.providerMessageId,
+    activityId: (row?.id as string | undefined) ?? null,
+  };
+}
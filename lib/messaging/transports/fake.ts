@@ -0,0 +1,25 @@
+import type { MessagingChannel, MessagingTransport, OutboundMessage, SendResult } from '../types';
+
+export type FakeTransport = MessagingTransport & {
+  /** Mensagens "enviadas", em ordem */
+  readonly sent: OutboundMessage[];
+};
+
+/**
+ * Transporte em memória para testes e desenvolvimento local (`MESSAGING_TRANSPORT=fake`).
+ * Não envia nada; guarda as mensagens em `sent`. Com `failWith`, toda chamada falha com essa mensagem.
+ */
+export function createFakeTransport(channel: MessagingChannel, opts: { failWith?: string } = {}): FakeTransport {
+  const sent: OutboundMessage[] = [];
+
+  return {
+    name: 'fake',
+    channel,
+    sent,
+    async send(message: OutboundMessage): Promise<SendResult> {
+      if (opts.failWith) throw new Error(opts.failWith);
+      sent.push(message);
+      return { transport: 'fake', providerMessageId: `fake-${channel}-${sent.length}` };
+    },
+  };
+}
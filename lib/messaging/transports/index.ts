@@ -0,0 +1,59 @@
+import type { MessagingChannel, MessagingTransport } from '../types';
+import { createFakeTransport } from './fake';
+import { createSmsHttpTransport } from './smsHttp';
+import { createSmtpTransport } from './smtp';
+import { createWhatsAppCloudTransport } from './whatsappCloud';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Transporte configurado para o canal (variáveis de ambiente do servidor) ou `null`.
+ *
+ * - Email: `SMTP_HOST`, `SMTP_FROM` (+ `SMTP_PORT`, `SMTP_SECURE`, `SMTP_USER`, `SMTP_PASS`)
+ * - WhatsApp: `WHATSAPP_CLOUD_TOKEN`, `WHATSAPP_CLOUD_PHONE_NUMBER_ID` (+ `WHATSAPP_CLOUD_API_VERSION`)
+ * - SMS: `SMS_HTTP_URL` (+ `SMS_HTTP_TOKEN`, `SMS_HTTP_FROM`)
+ * - `MESSAGING_TRANSPORT=fake`: todos os canais em memória (dev local; nada é enviado)
+ */
+export function resolveTransport(channel: MessagingChannel, env: Env = process.env): MessagingTransport | null {
+  if (env.MESSAGING_TRANSPORT === 'fake') return createFakeTransport(channel);
+
+  if (channel === 'email') {
+    if (!env.SMTP_HOST || !env.SMTP_FROM) return null;
+    const secure = env.SMTP_SECURE === 'true';
+    return createSmtpTransport({
+      host: env.SMTP_HOST,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+      from: env.SMTP_FROM,
+    });
+  }
+
+  if (channel === 'whatsapp') {
+    if (!env.WHATSAPP_CLOUD_TOKEN || !env.WHATSAPP_CLOUD_PHONE_NUMBER_ID) return null;
+    return createWhatsAppCloudTransport({
+      accessToken: env.WHATSAPP_CLOUD_TOKEN,
+      phoneNumberId: env.WHATSAPP_CLOUD_PHONE_NUMBER_ID,
+      apiVersion: env.WHATSAPP_CLOUD_API_VERSION || undefined,
+    });
+  }
+
+  if (!env.SMS_HTTP_URL) return null;
+  return createSmsHttpTransport({
+    url: env.SMS_HTTP_URL,
+    token: env.SMS_HTTP_TOKEN || undefined,
+    from: env.SMS_HTTP_FROM || undefined,
+  });
+}
+
+/** Quais canais têm transporte configurado (a UI decide entre "Enviar" e abrir wa.me/mailto). */
+export function configuredChannels(env: Env = process.env): Record<MessagingChannel, boolean> {
+  return {
+    email: resolveTransport('email', env) !== null,
+    whatsapp: resolveTransport('whatsapp', env) !== null,
+    sms: resolveTransport('sms', env) !== null,
+  };
+}
+
+export { createFakeTransport, createSmsHttpTransport, createSmtpTransport, createWhatsAppCloudTransport };
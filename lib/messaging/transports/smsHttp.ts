@@ -0,0 +1,45 @@
+import type { MessagingTransport, OutboundMessage, SendResult } from '../types';
+
+export type SmsHttpConfig = {
+  url: string;
+  /** Enviado como `Authorization: Bearer <token>` */
+  token?: string;
+  from?: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+};
+
+/**
+ * Provedor de SMS genérico via HTTP: `POST <url>` com `{ to, from, text }` em JSON.
+ * O id da mensagem é lido de `id`, `messageId` ou `sid` na resposta (quando houver).
+ * Para provedores com outro formato, use um gateway/adaptador na frente.
+ */
+export function createSmsHttpTransport(config: SmsHttpConfig): MessagingTransport {
+  const doFetch = config.fetchImpl ?? fetch;
+
+  return {
+    name: 'sms_http',
+    channel: 'sms',
+    async send(message: OutboundMessage): Promise<SendResult> {
+      const res = await doFetch(config.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(config.token ? { authorization: `Bearer ${config.token}` } : {}),
+        },
+        body: JSON.stringify({ to: message.to, ...(config.from ? { from: config.from } : {}), text: message.body }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 15_000),
+      });
+
+      const body = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+
+      if (!res.ok) {
+        const detail = typeof body?.error === 'string' ? body.error : typeof body?.message === 'string' ? body.message : '';
+        throw new Error(detail || `Provedor de SMS respondeu HTTP ${res.status}`);
+      }
+
+      const id = body?.id ?? body?.messageId ?? body?.sid;
+      return { transport: 'sms_http', providerMessageId: id === undefined || id === null ? null : String(id) };
+    },
+  };
+}
@@ -0,0 +1,236 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import type { MessagingTransport, OutboundMessage, SendResult } from '../types';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** TLS implícito (porta 465). Sem ele, usa STARTTLS quando o servidor oferece. */
+  secure?: boolean;
+  /** Recusa enviar em texto puro quando o servidor não oferece STARTTLS (padrão: true) */
+  requireTls?: boolean;
+  user?: string;
+  pass?: string;
+  /** Remetente: `vendas@empresa.com` ou `Empresa <vendas@empresa.com>` */
+  from: string;
+  /** Nome usado no EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; text: string };
+
+const CRLF = '\r\n';
+
+/** Cabeçalho com acentos vira encoded-word (RFC 2047); ASCII passa direto. */
+export function encodeHeaderWord(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ').trim();
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/** Endereço de `Nome <email>` (ou o próprio texto). */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function formatFrom(value: string): string {
+  const match = value.match(/^(.*)<([^>]+)>\s*$/);
+  if (!match) return value.trim();
+  const name = match[1].trim().replace(/^"|"$/g, '');
+  return name ? `${encodeHeaderWord(name)} <${match[2].trim()}>` : `<${match[2].trim()}>`;
+}
+
+/**
+ * Mensagem MIME em texto puro (UTF-8, corpo em base64 — sem problemas de linha longa ou ponto inicial).
+ */
+export function buildMimeMessage(opts: {
+  from: string;
+  to: string;
+  toName?: string;
+  subject?: string;
+  body: string;
+  messageId: string;
+  date?: Date;
+}): string {
+  const to = opts.toName ? `${encodeHeaderWord(opts.toName)} <${opts.to}>` : opts.to;
+  const encodedBody = Buffer.from(opts.body.replace(/\r?\n/g, CRLF), 'utf8').toString('base64');
+  const bodyLines = encodedBody.match(/.{1,76}/g) ?? [];
+
+  return [
+    `From: ${formatFrom(opts.from)}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeaderWord(opts.subject || '')}`,
+    `Date: ${(opts.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${opts.messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...bodyLines,
+  ].join(CRLF);
+}
+
+/** Conversa SMTP sobre um socket (texto puro ou TLS), uma resposta por comando. */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (r: SmtpReply) => void; reject: (e: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let idx: number;
+    while ((idx = this.buffer.indexOf(CRLF)) >= 0) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.lines.push(line);
+      // Última linha da resposta: "250 ok" (multilinha usa "250-...")
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.map((l) => l.slice(4)).join('\n') };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  };
+
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onClose = () => this.fail(new Error('Conexão SMTP encerrada'));
+
+  private fail(error: Error) {
+    if (!this.failure) this.failure = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(this.failure);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('Tempo esgotado na conexão SMTP')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket) {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+    socket.setTimeout(0);
+  }
+
+  read(): Promise<SmtpReply> {
+    const ready = this.replies.shift();
+    if (ready) return Promise.resolve(ready);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label}: ${reply.code} ${reply.text}`.trim());
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}${CRLF}`);
+    return this.expect(expected, label);
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: plain, servername }, () => resolve(s));
+      s.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close() {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('Tempo esgotado ao conectar no SMTP')));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Envio por SMTP (RFC 5321) sem dependências: STARTTLS/TLS implícito, AUTH PLAIN e uma mensagem por conexão.
+ */
+export function createSmtpTransport(config: SmtpConfig): MessagingTransport {
+  const timeoutMs = config.timeoutMs ?? 20_000;
+  const fromAddress = extractAddress(config.from);
+  const domain = fromAddress.split('@')[1] || 'localhost';
+
+  return {
+    name: 'smtp',
+    channel: 'email',
+    async send(message: OutboundMessage): Promise<SendResult> {
+      if (/[\r\n<>\s]/.test(message.to)) throw new Error('Destinatário inválido');
+
+      const messageId = `<${randomUUID()}@${domain}>`;
+      const mime = buildMimeMessage({
+        from: config.from,
+        to: message.to,
+        toName: message.toName,
+        subject: message.subject,
+        body: message.body,
+        messageId,
+      });
+
+      const session = new SmtpSession(await connect(config, timeoutMs), timeoutMs);
+      const clientName = config.clientName || domain;
+
+      try {
+        await session.expect([220], 'greeting');
+        const ehlo = await session.command(`EHLO ${clientName}`, [250]);
+
+        if (!config.secure) {
+          if (/^STARTTLS\b/im.test(ehlo.text)) {
+            await session.command('STARTTLS', [220]);
+            await session.upgrade(config.host);
+            await session.command(`EHLO ${clientName}`, [250]);
+          } else if (config.requireTls !== false) {
+            throw new Error('Servidor SMTP não oferece STARTTLS (defina SMTP_SECURE=true para TLS direto)');
+          }
+        }
+
+        if (config.user) {
+          const token = Buffer.from(`\u0000${config.user}\u0000${config.pass ?? ''}`, 'utf8').toString('base64');
+          await session.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+        }
+
+        await session.command(`MAIL FROM:<${fromAddress}>`, [250], 'MAIL FROM');
+        await session.command(`RCPT TO:<${message.to}>`, [250, 251], 'RCPT TO');
+        await session.command('DATA', [354]);
+        // base64 não gera linhas começando com ".", então não há dot-stuffing no corpo
+        await session.command(`${mime}${CRLF}.`, [250], 'DATA');
+        await session.command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        session.close();
+      }
+
+      return { transport: 'smtp', providerMessageId: messageId };
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { MessagingTransport, OutboundMessage, SendResult } from '../types';
+
+export type WhatsAppCloudConfig = {
+  accessToken: string;
+  phoneNumberId: string;
+  apiVersion?: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+};
+
+/**
+ * WhatsApp Cloud API (Meta): mensagem de texto para um número em dígitos (sem `+`).
+ *
+ * Texto livre só é entregue dentro da janela de 24h após a última mensagem do cliente;
+ * fora dela a API responde erro (a mensagem do provedor volta para o usuário).
+ */
+export function createWhatsAppCloudTransport(config: WhatsAppCloudConfig): MessagingTransport {
+  const doFetch = config.fetchImpl ?? fetch;
+  const url = `https://graph.facebook.com/${config.apiVersion || 'v21.0'}/${encodeURIComponent(config.phoneNumberId)}/messages`;
+
+  return {
+    name: 'whatsapp_cloud',
+    channel: 'whatsapp',
+    async send(message: OutboundMessage): Promise<SendResult> {
+      const res = await doFetch(url, {
+        method: 'POST',
+        headers: {
+          authorization: `Bearer ${config.accessToken}`,
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: message.to,
+          type: 'text',
+          text: { preview_url: false, body: message.body },
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 15_000),
+      });
+
+      const body = (await res.json().catch(() => null)) as
+        | { messages?: Array<{ id?: string }>; error?: { message?: string } }
+        | null;
+
+      if (!res.ok) {
+        throw new Error(body?.error?.message || `WhatsApp Cloud API respondeu HTTP ${res.status}`);
+      }
+
+      return { transport: 'whatsapp_cloud', providerMessageId: body?.messages?.[0]?.id ?? null };
+    },
+  };
+}
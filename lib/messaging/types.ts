@@ -0,0 +1,61 @@
+/**
+ * Camada de mensagens: canais (email, WhatsApp, SMS) e o contrato dos transportes.
+ * Os transportes rodam só no servidor; o client chama `/api/messages/send`.
+ */
+
+export const MESSAGING_CHANNELS = ['email', 'whatsapp', 'sms'] as const;
+
+export type MessagingChannel = (typeof MESSAGING_CHANNELS)[number];
+
+export type OutboundMessage = {
+  channel: MessagingChannel;
+  /** Email, ou telefone no formato do canal (WhatsApp: só dígitos; SMS: E.164) */
+  to: string;
+  toName?: string;
+  /** Só email */
+  subject?: string;
+  body: string;
+};
+
+export type SendResult = {
+  /** Nome do transporte que enviou (ex.: `smtp`, `whatsapp_cloud`, `fake`) */
+  transport: string;
+  providerMessageId: string | null;
+};
+
+export interface MessagingTransport {
+  readonly name: string;
+  readonly channel: MessagingChannel;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
+
+export type MessagingErrorCode = 'NOT_CONFIGURED' | 'INVALID_RECIPIENT' | 'NOT_FOUND' | 'PROVIDER_ERROR';
+
+const STATUS_BY_CODE: Record<MessagingErrorCode, number> = {
+  NOT_CONFIGURED: 503,
+  INVALID_RECIPIENT: 400,
+  NOT_FOUND: 404,
+  PROVIDER_ERROR: 502,
+};
+
+/**
+ * Falha ao enviar. As rotas traduzem `status` para HTTP e devolvem `code`
+ * (o client usa `NOT_CONFIGURED` para cair no wa.me/mailto).
+ */
+export class MessagingError extends Error {
+  readonly code: MessagingErrorCode;
+  readonly status: number;
+
+  constructor(code: MessagingErrorCode, message: string) {
+    super(message);
+    this.name = 'MessagingError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+export const CHANNEL_LABELS: Record<MessagingChannel, string> = {
+  email: 'E-mail',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
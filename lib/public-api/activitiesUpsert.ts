@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { normalizeText } from '@/lib/public-api/sanitize';
+import { sanitizeUUID } from '@/lib/supabase/utils';
+import { batchItemField, type PublicApiWriteResult } from '@/lib/public-api/batch';
+
+export const ActivityCreateSchema = z.object({
+  type: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  date: z.string().optional(), // ISO
+  deal_id: z.string().uuid().optional(),
+  contact_id: z.string().uuid().optional(),
+  client_company_id: z.string().uuid().optional(),
+}).strict();
+
+/** Só no batch: item com `id` atualiza a atividade existente. */
+export const ActivityPatchSchema = z.object({
+  id: z.string().uuid(),
+  type: z.string().min(1).optional(),
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  date: z.string().optional(), // ISO
+  completed: z.boolean().optional(),
+  deal_id: z.string().uuid().nullable().optional(),
+  contact_id: z.string().uuid().nullable().optional(),
+  client_company_id: z.string().uuid().nullable().optional(),
+}).strict();
+
+export type ActivityCreateInput = z.infer<typeof ActivityCreateSchema>;
+export type ActivityPatchInput = z.infer<typeof ActivityPatchSchema>;
+
+/** Chave de dedupe de um item de `POST /activities/batch`: só atualizações da mesma atividade. */
+export function activityBatchKeys(item: unknown): Array<string | null> {
+  const id = normalizeText(batchItemField(item, 'id'));
+  return [id ? `activity:${id}` : null];
+}
+
+const ACTIVITY_FIELDS = 'id,title,description,type,date,completed,deal_id,contact_id,client_company_id,created_at';
+
+/** Cria uma atividade (`POST /activities` e itens sem `id` em `POST /activities/batch`). */
+export async function createActivity(opts: { organizationId: string; input: ActivityCreateInput }): Promise<PublicApiWriteResult> {
+  const input = opts.input;
+  const now = new Date();
+  const date = input.date ? new Date(input.date) : now;
+  if (Number.isNaN(date.getTime())) {
+    return { ok: false, status: 422, body: { error: 'Invalid date', code: 'VALIDATION_ERROR' } };
+  }
+
+  const sb = createStaticAdminClient();
+  const insertPayload: any = {
+    organization_id: opts.organizationId,
+    title: normalizeText(input.title) || input.title,
+    description: normalizeText(input.description),
+    type: normalizeText(input.type) || input.type,
+    date: date.toISOString(),
+    completed: false,
+    deal_id: sanitizeUUID(input.deal_id) || null,
+    contact_id: sanitizeUUID(input.contact_id) || null,
+    client_company_id: sanitizeUUID(input.client_company_id) || null,
+    created_at: now.toISOString(),
+  };
+
+  const { data, error } = await sb
+    .from('activities')
+    .insert(insertPayload)
+    .select(ACTIVITY_FIELDS)
+    .single();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  return { ok: true, status: 201, body: { data, action: 'created' } };
+}
+
+/** Atualiza uma atividade da organização (itens com `id` em `POST /activities/batch`). */
+export async function updateActivity(opts: { organizationId: string; input: ActivityPatchInput }): Promise<PublicApiWriteResult> {
+  const input = opts.input;
+  const updates: any = {};
+  if (input.type !== undefined) updates.type = normalizeText(input.type) || input.type;
+  if (input.title !== undefined) updates.title = normalizeText(input.title) || input.title;
+  if (input.description !== undefined) updates.description = input.description === null ? null : normalizeText(input.description);
+  if (input.date !== undefined) {
+    const date = new Date(input.date);
+    if (Number.isNaN(date.getTime())) {
+      return { ok: false, status: 422, body: { error: 'Invalid date', code: 'VALIDATION_ERROR' } };
+    }
+    updates.date = date.toISOString();
+  }
+  if (input.completed !== undefined) updates.completed = input.completed;
+  if (input.deal_id !== undefined) updates.deal_id = sanitizeUUID(input.deal_id) || null;
+  if (input.contact_id !== undefined) updates.contact_id = sanitizeUUID(input.contact_id) || null;
+  if (input.client_company_id !== undefined) updates.client_company_id = sanitizeUUID(input.client_company_id) || null;
+  if (Object.keys(updates).length === 0) {
+    return { ok: false, status: 422, body: { error: 'Nothing to update', code: 'VALIDATION_ERROR' } };
+  }
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('activities')
+    .update(updates)
+    .eq('organization_id', opts.organizationId)
+    .eq('id', input.id)
+    .is('deleted_at', null)
+    .select(ACTIVITY_FIELDS)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  if (!data) return { ok: false, status: 404, body: { error: 'Activity not found', code: 'NOT_FOUND' } };
+  return { ok: true, status: 200, body: { data, action: 'updated' } };
+}
@@ -0,0 +1,195 @@
+import { createStaticAdminClient } from '@/lib/supabase/server';
+
+/**
+ * Trilha de auditoria das chamadas feitas com API key (`audit_logs`).
+ *
+ * - API pública: `withPublicApiUsage` grava uma entrada `API_KEY_REQUEST` para cada POST/PATCH/PUT/DELETE.
+ * - MCP: cada `tools/call` grava `MCP_TOOL_CALL` (inclusive a execução depois de uma aprovação humana).
+ *
+ * Argumentos vão redigidos (segredos mascarados, textos longos cortados); a entrada guarda a key
+ * (`api_key_id` / `api_key_prefix`), a rota ou tool, os ids afetados e o resultado.
+ */
+
+export type ApiKeyAuditAction = 'API_KEY_REQUEST' | 'MCP_TOOL_CALL';
+export type ApiKeyAuditOutcome = 'success' | 'error' | 'denied' | 'pending_approval';
+
+export const AUDIT_REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEY = /(pass(word)?|secret|token|api[_-]?key|authorization|signature|credential|private[_-]?key)/i;
+const MAX_STRING = 500;
+const MAX_ARRAY = 50;
+const MAX_DEPTH = 6;
+const MAX_RESOURCE_IDS = 50;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** Só chamadas que alteram dados entram na auditoria da API pública. */
+export function isAuditedMethod(method: string) {
+  return MUTATING_METHODS.has(method.toUpperCase());
+}
+
+/** Cópia dos argumentos segura para guardar: chaves sensíveis mascaradas, strings/arrays/profundidade limitados. */
+export function redactAuditArguments(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value ?? null;
+  if (typeof value === 'string') return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY).map((v) => redactAuditArguments(v, depth + 1));
+    return value.length > MAX_ARRAY ? [...items, `… +${value.length - MAX_ARRAY}`] : items;
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+    out[key] = SENSITIVE_KEY.test(key) ? AUDIT_REDACTED : redactAuditArguments(v, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * Ids (UUID) afetados: campos `id`, `*Id` e `*_id` dos valores informados (argumentos, resposta).
+ * A ordem é preservada e a lista é deduplicada.
+ */
+export function collectAuditResourceIds(...values: unknown[]): string[] {
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  const add = (v: unknown) => {
+    if (typeof v !== 'string' || !UUID_RE.test(v) || seen.has(v) || ids.length >= MAX_RESOURCE_IDS) return;
+    seen.add(v);
+    ids.push(v);
+  };
+
+  const walk = (value: unknown, depth: number) => {
+    if (!value || typeof value !== 'object' || depth > MAX_DEPTH) return;
+    if (Array.isArray(value)) {
+      for (const item of value.slice(0, MAX_ARRAY)) walk(item, depth + 1);
+      return;
+    }
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      if (key === 'id' || /(Id|_id)$/.test(key)) add(v);
+      else if (/(Ids|_ids)$/.test(key) && Array.isArray(v)) v.forEach(add);
+      walk(v, depth + 1);
+    }
+  };
+
+  for (const value of values) walk(value, 0);
+  return ids;
+}
+
+function parseJson(text: string | null | undefined): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export type ApiKeyAuditEntry = {
+  action: ApiKeyAuditAction;
+  resourceType: string;
+  resourceId: string | null;
+  severity: 'info' | 'warning';
+  details: Record<string, unknown>;
+};
+
+/**
+ * Monta a entrada de uma chamada da API pública.
+ * `endpoint` é o template agregado (`PATCH /deals/{id}`); os ids vêm da URL e do corpo da resposta.
+ */
+export function buildPublicApiAuditEntry(opts: {
+  method: string;
+  url: string;
+  endpoint: string;
+  apiKeyPrefix: string;
+  status: number;
+  requestBody: string | null;
+  responseBody: string | null;
+}): ApiKeyAuditEntry {
+  const pathIds = new URL(opts.url, 'http://localhost').pathname.split('/').filter((seg) => UUID_RE.test(seg));
+  const response = parseJson(opts.responseBody) as { data?: unknown; error?: unknown; code?: unknown } | null;
+  const resourceIds = collectAuditResourceIds({ pathIds }, response?.data ?? null);
+
+  const route = opts.endpoint.replace(/^[A-Z]+ /, '');
+  const resourceType = route.split('/').filter(Boolean)[0] || 'public_api';
+  const ok = opts.status < 400;
+
+  return {
+    action: 'API_KEY_REQUEST',
+    resourceType,
+    resourceId: resourceIds[0] ?? null,
+    severity: ok ? 'info' : 'warning',
+    details: {
+      source: 'public_api',
+      api_key_prefix: opts.apiKeyPrefix,
+      route: opts.endpoint,
+      arguments: redactAuditArguments(parseJson(opts.requestBody) ?? {}),
+      resource_ids: resourceIds,
+      outcome: ok ? 'success' : opts.status === 401 || opts.status === 403 ? 'denied' : 'error',
+      status: opts.status,
+      ...(!ok && response?.code ? { error_code: response.code } : {}),
+    },
+  };
+}
+
+/** Monta a entrada de um `tools/call` do MCP. */
+export function buildMcpToolAuditEntry(opts: {
+  toolName: string;
+  apiKeyPrefix: string | null;
+  args: unknown;
+  result: unknown;
+  outcome: ApiKeyAuditOutcome;
+  error?: string | null;
+  extra?: Record<string, unknown>;
+}): ApiKeyAuditEntry {
+  const resourceIds = collectAuditResourceIds(opts.args, opts.result);
+  return {
+    action: 'MCP_TOOL_CALL',
+    resourceType: 'mcp_tool',
+    resourceId: resourceIds[0] ?? null,
+    severity: opts.outcome === 'success' || opts.outcome === 'pending_approval' ? 'info' : 'warning',
+    details: {
+      source: 'mcp',
+      ...(opts.apiKeyPrefix ? { api_key_prefix: opts.apiKeyPrefix } : {}),
+      tool: opts.toolName,
+      arguments: redactAuditArguments(opts.args ?? {}),
+      resource_ids: resourceIds,
+      outcome: opts.outcome,
+      ...(opts.error ? { error: String(opts.error).slice(0, MAX_STRING) } : {}),
+      ...(opts.extra ?? {}),
+    },
+  };
+}
+
+/** Grava a entrada. Best-effort: falha de auditoria nunca derruba a chamada. */
+export async function recordApiKeyAuditEvent(opts: {
+  organizationId: string;
+  apiKeyId: string | null;
+  apiKeyPrefix: string | null;
+  userId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  entry: ApiKeyAuditEntry;
+}) {
+  try {
+    const sb = createStaticAdminClient();
+    await sb.from('audit_logs').insert({
+      organization_id: opts.organizationId,
+      user_id: opts.userId ?? null,
+      api_key_id: opts.apiKeyId,
+      api_key_prefix: opts.apiKeyPrefix,
+      action: opts.entry.action,
+      resource_type: opts.entry.resourceType,
+      resource_id: opts.entry.resourceId,
+      details: opts.entry.details,
+      severity: opts.entry.severity,
+      ip_address: opts.ipAddress ?? null,
+      user_agent: opts.userAgent ?? null,
+    });
+  } catch {
+    // auditoria é best-effort
+  }
+}
@@ -1,8 +1,18 @@
 import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import { getClientIp, hasApiKeyScope, normalizeApiKeyScopes, type ApiKeyScope } from './scopes';
+import { consumeApiKeyRateLimit, markPublicApiRequest, publicApiEndpointLabel, rateLimitHeaders } from './usage';
 
 export type PublicApiAuthResult =
-  | { ok: true; organizationId: string; organizationName: string; apiKeyId: string; apiKeyPrefix: string }
-  | { ok: false; status: number; body: { error: string; code?: string } };
+  | {
+      ok: true;
+      organizationId: string;
+      organizationName: string;
+      apiKeyId: string;
+      apiKeyPrefix: string;
+      scopes: string[];
+      expiresAt: string | null;
+    }
+  | { ok: false; status: number; body: { error: string; code?: string }; headers?: Record<string, string> };
 
 function getAnonSupabase() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -11,8 +21,20 @@ function getAnonSupabase() {
   return createSupabaseClient(url, anon);
 }
 
-export async function authPublicApi(request: Request): Promise<PublicApiAuthResult> {
-  const token = request.headers.get('x-api-key') || '';
+/**
+ * Autentica a API key (`X-Api-Key`) e aplica as restrições da key:
+ * expiração (401 `AUTH_EXPIRED`), allowlist de IP (403 `AUTH_IP_NOT_ALLOWED`),
+ * escopo quando `requiredScope` é informado (403 `AUTH_SCOPE_MISSING`)
+ * e cota por minuto/dia (429 `RATE_LIMITED` + `Retry-After`).
+ *
+ * `opts.token` permite passar a key lida de outro header (ex.: `Authorization: Bearer` no MCP).
+ */
+export async function authPublicApi(
+  request: Request,
+  requiredScope?: ApiKeyScope,
+  opts?: { token?: string }
+): Promise<PublicApiAuthResult> {
+  const token = opts?.token ?? (request.headers.get('x-api-key') || '');
   if (!token.trim()) {
     return { ok: false, status: 401, body: { error: 'Missing X-Api-Key', code: 'AUTH_MISSING' } };
   }
@@ -27,11 +49,16 @@ export async function authPublicApi(request: Request): Promise<PublicApiAuthResu
     api_key_prefix: string;
     organization_id: string;
     organization_name: string;
+    scopes: string[] | null;
+    expires_at: string | null;
+    ip_allowed: boolean | null;
   };
 
   // Supabase RPC return types are not strongly typed here (no generated Database types),
   // so we validate the shape defensively.
-  const { data, error } = await sb.rpc('validate_api_key', { p_token: token }).maybeSingle();
+  const { data, error } = await sb
+    .rpc('validate_api_key', { p_token: token, p_client_ip: getClientIp(request) })
+    .maybeSingle();
   const row = (data ?? null) as ValidateApiKeyRow | null;
   if (
     error ||
@@ -45,12 +72,51 @@ export async function authPublicApi(request: Request): Promise<PublicApiAuthResu
     return { ok: false, status: 401, body: { error: 'Invalid API key', code: 'AUTH_INVALID' } };
   }
 
+  const endpoint = publicApiEndpointLabel(request.method, request.url);
+  const usage = {
+    apiKeyId: row.api_key_id,
+    apiKeyPrefix: row.api_key_prefix,
+    organizationId: row.organization_id,
+    endpoint,
+  };
+  markPublicApiRequest(request, { ...usage, rateLimit: null });
+
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) {
+    return { ok: false, status: 401, body: { error: 'API key expired', code: 'AUTH_EXPIRED' } };
+  }
+
+  if (row.ip_allowed === false) {
+    return { ok: false, status: 403, body: { error: 'API key not allowed from this IP', code: 'AUTH_IP_NOT_ALLOWED' } };
+  }
+
+  const scopes = normalizeApiKeyScopes(row.scopes);
+  if (requiredScope && !hasApiKeyScope(scopes, requiredScope)) {
+    return {
+      ok: false,
+      status: 403,
+      body: { error: `API key is missing the ${requiredScope} scope`, code: 'AUTH_SCOPE_MISSING' },
+    };
+  }
+
+  const rateLimit = await consumeApiKeyRateLimit(row.api_key_id, endpoint);
+  markPublicApiRequest(request, { ...usage, rateLimit });
+  if (rateLimit && !rateLimit.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      body: { error: `Rate limit exceeded. Retry in ${rateLimit.retryAfterSeconds}s`, code: 'RATE_LIMITED' },
+      headers: rateLimitHeaders(rateLimit),
+    };
+  }
+
   return {
     ok: true,
     apiKeyId: row.api_key_id,
     apiKeyPrefix: row.api_key_prefix,
     organizationId: row.organization_id,
     organizationName: row.organization_name,
+    scopes,
+    expiresAt: row.expires_at ?? null,
   };
 }
 
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/**
+ * Endpoints `POST /<recurso>/batch` da API pública.
+ *
+ * - Cada item roda a mesma lógica do endpoint unitário (`contactsUpsert.ts`, `dealsUpsert.ts`...).
+ * - Itens rodam em paralelo (até `PUBLIC_API_BATCH_CONCURRENCY`), mas itens com uma chave em comum
+ *   (mesmo email, telefone, website, id...) rodam em ordem: um contato repetido no lote não gera duplicado.
+ * - Um item inválido não derruba o lote: o resultado vem por item, na posição (`index`) do request.
+ */
+
+export const PUBLIC_API_BATCH_MAX_ITEMS = 500;
+
+/**
+ * Itens simultâneos por lote: 500 itens lentos (~3-4 queries cada) cabem no `maxDuration` das
+ * rotas `/batch` (60s) sem abrir uma conexão por item.
+ */
+export const PUBLIC_API_BATCH_CONCURRENCY = 10;
+
+export const BatchRequestSchema = z.object({
+  items: z.array(z.unknown()).min(1).max(PUBLIC_API_BATCH_MAX_ITEMS),
+}).strict();
+
+/** Resultado de uma operação de escrita (mesmo formato de `dealsMoveStage.ts`). */
+export type PublicApiWriteResult =
+  | { ok: true; status: number; body: { data: unknown; action: string } }
+  | { ok: false; status: number; body: { error: string; code: string } };
+
+export type BatchItemResult =
+  | { index: number; ok: true; status: number; action: string; data: unknown }
+  | { index: number; ok: false; status: number; error: string; code: string };
+
+export function invalidItem(error = 'Invalid payload'): PublicApiWriteResult {
+  return { ok: false, status: 422, body: { error, code: 'VALIDATION_ERROR' } };
+}
+
+/** Lê `item[field]` de um item ainda não validado (para montar as chaves de `runBatch`). */
+export function batchItemField(item: unknown, field: string): string | undefined {
+  const value = item && typeof item === 'object' ? (item as Record<string, unknown>)[field] : undefined;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * `keysOf` devolve as chaves de dedupe do item (ex.: `email:ana@x.com`); um item só começa depois dos
+ * itens anteriores que compartilham alguma chave.
+ */
+export async function runBatch(
+  items: unknown[],
+  handle: (item: unknown) => Promise<PublicApiWriteResult>,
+  keysOf: (item: unknown) => Array<string | null> = () => []
+) {
+  const results: BatchItemResult[] = new Array(items.length);
+  const lastRunByKey = new Map<string, Promise<void>>();
+
+  const runItem = async (index: number) => {
+    let res: PublicApiWriteResult;
+    try {
+      res = await handle(items[index]);
+    } catch (e: any) {
+      res = { ok: false, status: 500, body: { error: e?.message || 'Unexpected error', code: 'DB_ERROR' } };
+    }
+    results[index] = res.ok
+      ? { index, ok: true, status: res.status, action: res.body.action, data: res.body.data }
+      : { index, ok: false, status: res.status, error: res.body.error, code: res.body.code };
+  };
+
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < items.length) {
+      const index = cursor++;
+      const keys = [...new Set(keysOf(items[index]).filter((k): k is string => Boolean(k)))];
+      const run = Promise.all(keys.map((k) => lastRunByKey.get(k))).then(() => runItem(index));
+      for (const k of keys) lastRunByKey.set(k, run);
+      await run;
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(PUBLIC_API_BATCH_CONCURRENCY, items.length) }, () => worker());
+  await Promise.all(workers);
+  return { data: results, summary: summarizeBatch(results) };
+}
+
+export function summarizeBatch(results: BatchItemResult[]) {
+  const summary = { total: results.length, created: 0, updated: 0, failed: 0 };
+  for (const r of results) {
+    if (!r.ok) summary.failed++;
+    else if (r.action === 'created') summary.created++;
+    else summary.updated++;
+  }
+  return summary;
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { normalizeText, normalizeUrl } from '@/lib/public-api/sanitize';
+import { batchItemField, type PublicApiWriteResult } from '@/lib/public-api/batch';
+
+export const CompanyUpsertSchema = z.object({
+  name: z.string().optional(),
+  website: z.string().optional(),
+  industry: z.string().optional(),
+}).strict();
+
+export type CompanyUpsertInput = z.infer<typeof CompanyUpsertSchema>;
+
+/** Chaves de dedupe de um item de `POST /companies/batch` (website e nome, como no lookup). */
+export function companyBatchKeys(item: unknown): Array<string | null> {
+  const website = normalizeUrl(batchItemField(item, 'website'));
+  const name = normalizeText(batchItemField(item, 'name'));
+  return [website ? `website:${website}` : null, name ? `name:${name.toLowerCase()}` : null];
+}
+
+/** Upsert de empresa por website (ou nome) (`POST /companies` e `POST /companies/batch`). */
+export async function upsertCompany(opts: { organizationId: string; input: CompanyUpsertInput }): Promise<PublicApiWriteResult> {
+  const name = normalizeText(opts.input.name);
+  const website = normalizeUrl(opts.input.website);
+  const industry = normalizeText(opts.input.industry);
+
+  if (!website && !name) {
+    return { ok: false, status: 422, body: { error: 'Provide website or name', code: 'VALIDATION_ERROR' } };
+  }
+
+  const sb = createStaticAdminClient();
+
+  let lookup = sb
+    .from('crm_companies')
+    .select('id')
+    .eq('organization_id', opts.organizationId)
+    .is('deleted_at', null);
+
+  if (website) lookup = lookup.eq('website', website);
+  else if (name) lookup = lookup.ilike('name', name);
+
+  const existing = await lookup.maybeSingle();
+  if (existing.error) return { ok: false, status: 500, body: { error: existing.error.message, code: 'DB_ERROR' } };
+
+  const now = new Date().toISOString();
+  const payload: any = {
+    organization_id: opts.organizationId,
+    name: name || '',
+    website,
+    industry,
+    updated_at: now,
+  };
+
+  if (existing.data?.id) {
+    if (!payload.name) delete payload.name;
+    const { data, error } = await sb
+      .from('crm_companies')
+      .update(payload)
+      .eq('id', existing.data.id)
+      .select('id,name,website,industry,created_at,updated_at')
+      .single();
+    if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+    return { ok: true, status: 200, body: { data, action: 'updated' } };
+  }
+
+  if (!name) {
+    return { ok: false, status: 422, body: { error: 'Name is required to create a new company', code: 'VALIDATION_ERROR' } };
+  }
+
+  const insertPayload = {
+    organization_id: opts.organizationId,
+    name,
+    website,
+    industry,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { data, error } = await sb
+    .from('crm_companies')
+    .insert(insertPayload)
+    .select('id,name,website,industry,created_at,updated_at')
+    .single();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  return { ok: true, status: 201, body: { data, action: 'created' } };
+}
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { normalizeEmail, normalizePhone, normalizeText } from '@/lib/public-api/sanitize';
+import { sanitizeUUID } from '@/lib/supabase/utils';
+import { batchItemField, type PublicApiWriteResult } from '@/lib/public-api/batch';
+
+export const ContactUpsertSchema = z.object({
+  name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  role: z.string().optional(),
+  company_name: z.string().optional(),
+  client_company_id: z.string().uuid().optional(),
+  avatar: z.string().optional(),
+  status: z.string().optional(),
+  stage: z.string().optional(),
+  birth_date: z.string().optional(), // YYYY-MM-DD
+  last_interaction: z.string().optional(), // ISO
+  last_purchase_date: z.string().optional(), // YYYY-MM-DD
+  total_value: z.number().optional(),
+  source: z.string().optional(),
+  notes: z.string().optional(),
+}).strict();
+
+export type ContactUpsertInput = z.infer<typeof ContactUpsertSchema>;
+
+const CONTACT_FIELDS =
+  'id,name,email,phone,role,company_name,client_company_id,avatar,notes,status,stage,source,birth_date,last_interaction,last_purchase_date,total_value,created_at,updated_at';
+
+function toIsoDateString(v: string | undefined) {
+  const s = (v || '').trim();
+  if (!s) return null;
+  // Accept YYYY-MM-DD or ISO; store as YYYY-MM-DD
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return '__INVALID__';
+  return d.toISOString().slice(0, 10);
+}
+
+function toIsoTimestamp(v: string | undefined) {
+  const s = (v || '').trim();
+  if (!s) return null;
+  const d = new Date(s);
+  if (Number.isNaN(d.getTime())) return '__INVALID__';
+  return d.toISOString();
+}
+
+async function resolveCompanyIdFromName(opts: { organizationId: string; companyName: string }) {
+  const sb = createStaticAdminClient();
+  const name = normalizeText(opts.companyName);
+  if (!name) return null;
+
+  const existing = await sb
+    .from('crm_companies')
+    .select('id')
+    .eq('organization_id', opts.organizationId)
+    .is('deleted_at', null)
+    .ilike('name', name)
+    .maybeSingle();
+  if (existing.error) throw existing.error;
+  if (existing.data?.id) return existing.data.id as string;
+
+  const now = new Date().toISOString();
+  const created = await sb
+    .from('crm_companies')
+    .insert({ organization_id: opts.organizationId, name, created_at: now, updated_at: now })
+    .select('id')
+    .single();
+  if (created.error) throw created.error;
+  return created.data.id as string;
+}
+
+function validationError(error: string): PublicApiWriteResult {
+  return { ok: false, status: 422, body: { error, code: 'VALIDATION_ERROR' } };
+}
+
+/** Chaves de dedupe de um item de `POST /contacts/batch` (mesmas do lookup e da empresa por nome). */
+export function contactBatchKeys(item: unknown): Array<string | null> {
+  const email = normalizeEmail(batchItemField(item, 'email'));
+  const phone = normalizePhone(batchItemField(item, 'phone'));
+  const companyName = normalizeText(batchItemField(item, 'company_name'));
+  return [
+    email ? `email:${email}` : null,
+    phone ? `phone:${phone}` : null,
+    companyName ? `company:${companyName.toLowerCase()}` : null,
+  ];
+}
+
+/** Upsert de contato por email/telefone (`POST /contacts` e `POST /contacts/batch`). */
+export async function upsertContact(opts: { organizationId: string; input: ContactUpsertInput }): Promise<PublicApiWriteResult> {
+  const input = opts.input;
+  const email = normalizeEmail(input.email);
+  const phone = normalizePhone(input.phone);
+  const name = normalizeText(input.name);
+  const companyName = normalizeText(input.company_name);
+
+  if (!email && !phone) return validationError('Provide email or phone');
+
+  const sb = createStaticAdminClient();
+
+  const birthDate = toIsoDateString(input.birth_date);
+  if (birthDate === '__INVALID__') return validationError('Invalid birth_date');
+  const lastPurchaseDate = toIsoDateString(input.last_purchase_date);
+  if (lastPurchaseDate === '__INVALID__') return validationError('Invalid last_purchase_date');
+  const lastInteraction = toIsoTimestamp(input.last_interaction);
+  if (lastInteraction === '__INVALID__') return validationError('Invalid last_interaction');
+
+  let clientCompanyId = sanitizeUUID(input.client_company_id) || null;
+  if (!clientCompanyId && companyName) {
+    try {
+      clientCompanyId = await resolveCompanyIdFromName({ organizationId: opts.organizationId, companyName });
+    } catch (e: any) {
+      return validationError(e?.message || 'Invalid company');
+    }
+  }
+
+  let lookup = sb
+    .from('contacts')
+    .select('id')
+    .eq('organization_id', opts.organizationId)
+    .is('deleted_at', null);
+
+  if (email && phone) lookup = lookup.or(`email.eq.${email},phone.eq.${phone}`);
+  else if (email) lookup = lookup.eq('email', email);
+  else if (phone) lookup = lookup.eq('phone', phone);
+
+  const existing = await lookup.maybeSingle();
+  if (existing.error) return { ok: false, status: 500, body: { error: existing.error.message, code: 'DB_ERROR' } };
+
+  const now = new Date().toISOString();
+  const payload: any = {
+    organization_id: opts.organizationId,
+    email,
+    phone,
+    role: normalizeText(input.role),
+    company_name: companyName,
+    client_company_id: clientCompanyId,
+    avatar: normalizeText(input.avatar),
+    status: normalizeText(input.status),
+    stage: normalizeText(input.stage),
+    source: normalizeText(input.source),
+    notes: normalizeText(input.notes),
+    birth_date: birthDate,
+    last_interaction: lastInteraction,
+    last_purchase_date: lastPurchaseDate,
+    total_value: input.total_value ?? undefined,
+    updated_at: now,
+  };
+
+  if (existing.data?.id) {
+    if (name) payload.name = name;
+    const { data, error } = await sb
+      .from('contacts')
+      .update(payload)
+      .eq('id', existing.data.id)
+      .select(CONTACT_FIELDS)
+      .single();
+    if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+    return { ok: true, status: 200, body: { data, action: 'updated' } };
+  }
+
+  if (!name) return validationError('Name is required to create a new contact');
+
+  const insertPayload = {
+    ...payload,
+    name,
+    created_at: now,
+    status: 'ACTIVE',
+    stage: 'LEAD',
+  };
+
+  const { data, error } = await sb
+    .from('contacts')
+    .insert(insertPayload)
+    .select(CONTACT_FIELDS)
+    .single();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  return { ok: true, status: 201, body: { data, action: 'created' } };
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from 'node:crypto';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { isValidUUID } from '@/lib/supabase/utils';
+
+/**
+ * Sub-recursos do deal na API pública: notas, arquivos e itens (produtos).
+ *
+ * `deal_notes` / `deal_files` não têm `organization_id`: o acesso é validado pelo deal pai.
+ */
+
+export const DEAL_FILES_BUCKET = 'deal-files';
+/** Mesmo limite do bucket (`storage.buckets.file_size_limit`). */
+export const DEAL_FILE_MAX_BYTES = 10 * 1024 * 1024;
+export const DEAL_FILE_URL_TTL_SECONDS = 3600;
+
+type DealCheck =
+  | { ok: true }
+  | { ok: false; status: number; body: { error: string; code: string } };
+
+/** Confirma que o deal existe (e não foi apagado) na organização da API key. */
+export async function requireOrgDeal(organizationId: string, dealId: string): Promise<DealCheck> {
+  if (!isValidUUID(dealId)) return { ok: false, status: 422, body: { error: 'Invalid deal id', code: 'VALIDATION_ERROR' } };
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deals')
+    .select('id')
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .eq('id', dealId)
+    .maybeSingle();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  if (!data) return { ok: false, status: 404, body: { error: 'Deal not found', code: 'NOT_FOUND' } };
+  return { ok: true };
+}
+
+/** Soma `price * quantity` dos itens (mesma regra do `dealsService.recalculateDealValue` da UI). */
+export function sumDealItems(items: Array<{ price: number | string | null; quantity: number | null }>) {
+  return items.reduce((sum, i) => sum + Number(i.price ?? 0) * Number(i.quantity ?? 0), 0);
+}
+
+/** Recalcula e grava `deals.value` a partir dos itens. Retorna o novo valor. */
+export async function recalculateDealValue(organizationId: string, dealId: string) {
+  const sb = createStaticAdminClient();
+  const { data: items, error } = await sb.from('deal_items').select('price,quantity').eq('deal_id', dealId);
+  if (error) throw error;
+
+  const value = sumDealItems((items || []) as any[]);
+  const { error: updateError } = await sb
+    .from('deals')
+    .update({ value, updated_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .eq('id', dealId);
+  if (updateError) throw updateError;
+  return value;
+}
+
+/** Caminho no bucket (mesmo formato da UI: `<dealId>/<uuid>.<ext>`). */
+export function dealFileStoragePath(dealId: string, fileName: string) {
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  return `${dealId}/${randomUUID()}${ext ? `.${ext}` : ''}`;
+}
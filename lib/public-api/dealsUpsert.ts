@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { resolveBoardIdFromKey, resolveFirstStageId } from '@/lib/public-api/resolve';
+import { normalizeEmail, normalizePhone, normalizeText } from '@/lib/public-api/sanitize';
+import { sanitizeUUID } from '@/lib/supabase/utils';
+import { batchItemField, type PublicApiWriteResult } from '@/lib/public-api/batch';
+
+const ContactInlineSchema = z.object({
+  name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  role: z.string().optional(),
+  client_company_id: z.string().uuid().optional(),
+}).strict();
+
+export const DealCreateSchema = z.object({
+  title: z.string().min(1),
+  value: z.number().optional(),
+  board_id: z.string().uuid().optional(),
+  board_key: z.string().min(1).optional(),
+  stage_id: z.string().uuid().optional(),
+  contact_id: z.string().uuid().optional(),
+  contact: ContactInlineSchema.optional(),
+  client_company_id: z.string().uuid().optional(),
+}).strict();
+
+export const DealPatchSchema = z.object({
+  title: z.string().optional(),
+  value: z.number().optional(),
+  contact_id: z.string().uuid().optional(),
+  client_company_id: z.string().uuid().nullable().optional(),
+  loss_reason: z.string().nullable().optional(),
+}).strict();
+
+/** Só no batch: item com `id` atualiza o deal existente. */
+export const DealBatchUpdateSchema = DealPatchSchema.extend({ id: z.string().uuid() }).strict();
+
+export type DealCreateInput = z.infer<typeof DealCreateSchema>;
+export type DealPatchInput = z.infer<typeof DealPatchSchema>;
+
+/** Chaves de dedupe de um item de `POST /deals/batch`: o deal atualizado ou o contato inline. */
+export function dealBatchKeys(item: unknown): Array<string | null> {
+  const id = normalizeText(batchItemField(item, 'id'));
+  const contact = item && typeof item === 'object' ? (item as Record<string, unknown>).contact : undefined;
+  const email = normalizeEmail(batchItemField(contact, 'email'));
+  const phone = normalizePhone(batchItemField(contact, 'phone'));
+  return [id ? `deal:${id}` : null, email ? `email:${email}` : null, phone ? `phone:${phone}` : null];
+}
+
+const DEAL_FIELDS = 'id,title,value,board_id,stage_id,contact_id,client_company_id,is_won,is_lost,loss_reason,closed_at,created_at,updated_at';
+
+async function upsertContactForDeal(opts: {
+  organizationId: string;
+  contact: z.infer<typeof ContactInlineSchema>;
+}) {
+  const sb = createStaticAdminClient();
+  const email = normalizeEmail(opts.contact.email);
+  const phone = normalizePhone(opts.contact.phone);
+  const name = normalizeText(opts.contact.name);
+  if (!email && !phone) {
+    throw new Error('Provide contact.email or contact.phone');
+  }
+
+  let lookup = sb
+    .from('contacts')
+    .select('id')
+    .eq('organization_id', opts.organizationId)
+    .is('deleted_at', null);
+  if (email && phone) lookup = lookup.or(`email.eq.${email},phone.eq.${phone}`);
+  else if (email) lookup = lookup.eq('email', email);
+  else lookup = lookup.eq('phone', phone);
+
+  const existing = await lookup.maybeSingle();
+  if (existing.error) throw existing.error;
+
+  const now = new Date().toISOString();
+  const base: any = {
+    organization_id: opts.organizationId,
+    email,
+    phone,
+    role: normalizeText(opts.contact.role),
+    client_company_id: sanitizeUUID(opts.contact.client_company_id) || null,
+    updated_at: now,
+  };
+
+  if (existing.data?.id) {
+    if (name) base.name = name;
+    const { data, error } = await sb.from('contacts').update(base).eq('id', existing.data.id).select('id').single();
+    if (error) throw error;
+    return data.id as string;
+  }
+
+  if (!name) throw new Error('contact.name is required to create a new contact');
+  const insert = {
+    ...base,
+    name,
+    created_at: now,
+    status: 'ACTIVE',
+    stage: 'LEAD',
+  };
+  const { data, error } = await sb.from('contacts').insert(insert).select('id').single();
+  if (error) throw error;
+  return data.id as string;
+}
+
+/** Cria um deal (`POST /deals` e itens sem `id` em `POST /deals/batch`). */
+export async function createDeal(opts: { organizationId: string; input: DealCreateInput }): Promise<PublicApiWriteResult> {
+  const sb = createStaticAdminClient();
+
+  let boardId = sanitizeUUID(opts.input.board_id);
+  if (!boardId && opts.input.board_key) {
+    boardId = await resolveBoardIdFromKey({ organizationId: opts.organizationId, boardKey: opts.input.board_key });
+  }
+  if (!boardId) {
+    return { ok: false, status: 422, body: { error: 'Provide board_id or board_key', code: 'VALIDATION_ERROR' } };
+  }
+
+  let stageId = sanitizeUUID(opts.input.stage_id);
+  if (!stageId) {
+    stageId = await resolveFirstStageId({ organizationId: opts.organizationId, boardId });
+  }
+  if (!stageId) {
+    return { ok: false, status: 422, body: { error: 'No stages found for board', code: 'VALIDATION_ERROR' } };
+  }
+
+  let contactId = sanitizeUUID(opts.input.contact_id);
+  if (!contactId && opts.input.contact) {
+    try {
+      contactId = await upsertContactForDeal({ organizationId: opts.organizationId, contact: opts.input.contact });
+    } catch (e: any) {
+      return { ok: false, status: 422, body: { error: e?.message || 'Invalid contact', code: 'VALIDATION_ERROR' } };
+    }
+  }
+  if (!contactId) {
+    return { ok: false, status: 422, body: { error: 'Provide contact_id or contact', code: 'VALIDATION_ERROR' } };
+  }
+
+  const now = new Date().toISOString();
+  const value = Number(opts.input.value ?? 0);
+  const insertPayload: any = {
+    organization_id: opts.organizationId,
+    title: opts.input.title.trim(),
+    value,
+    board_id: boardId,
+    stage_id: stageId,
+    contact_id: contactId,
+    client_company_id: sanitizeUUID(opts.input.client_company_id) || null,
+    is_won: false,
+    is_lost: false,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { data, error } = await sb
+    .from('deals')
+    .insert(insertPayload)
+    .select(DEAL_FIELDS)
+    .single();
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+
+  return { ok: true, status: 201, body: { data, action: 'created' } };
+}
+
+/** Atualiza um deal (`PATCH /deals/{dealId}` e itens com `id` em `POST /deals/batch`). */
+export async function updateDeal(opts: { organizationId: string; dealId: string; input: DealPatchInput }): Promise<PublicApiWriteResult> {
+  const input = opts.input;
+  const updates: any = {};
+  if (input.title !== undefined) updates.title = normalizeText(input.title);
+  if (input.value !== undefined) updates.value = Number(input.value ?? 0);
+  if (input.contact_id !== undefined) updates.contact_id = sanitizeUUID(input.contact_id);
+  if (input.client_company_id !== undefined) updates.client_company_id = input.client_company_id === null ? null : (sanitizeUUID(input.client_company_id) || null);
+  if (input.loss_reason !== undefined) updates.loss_reason = input.loss_reason === null ? null : normalizeText(input.loss_reason);
+  updates.updated_at = new Date().toISOString();
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .from('deals')
+    .update(updates)
+    .eq('organization_id', opts.organizationId)
+    .eq('id', opts.dealId)
+    .select(DEAL_FIELDS)
+    .maybeSingle();
+
+  if (error) return { ok: false, status: 500, body: { error: error.message, code: 'DB_ERROR' } };
+  if (!data) return { ok: false, status: 404, body: { error: 'Deal not found', code: 'NOT_FOUND' } };
+  return { ok: true, status: 200, body: { data, action: 'updated' } };
+}
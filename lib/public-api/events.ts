@@ -0,0 +1,96 @@
+import { hasApiKeyScope, type ApiKeyScope } from '@/lib/public-api/scopes';
+import { OUTBOUND_WEBHOOK_EVENT_TYPES, type OutboundWebhookEventType } from '@/lib/webhooks/events';
+
+/**
+ * Feed de eventos da API pública (`GET /events`), para integrações que não recebem webhooks.
+ *
+ * - Mesmos eventos/payloads dos webhooks de saída (`webhook_events_out`), registrados mesmo sem endpoint inscrito.
+ * - O cursor é o `feed_seq` do último evento entregue: monotônico, nunca "pula" evento de transação concorrente
+ *   (a numeração acontece em `list_public_api_events`, só sobre eventos já commitados).
+ * - Os payloads trazem o registro inteiro (ex.: email/telefone do contato), então cada tipo exige também o
+ *   escopo de leitura do recurso (`PUBLIC_API_EVENT_SCOPES`), além de `events:read`.
+ */
+
+export const PUBLIC_API_EVENTS_DEFAULT_LIMIT = 100;
+export const PUBLIC_API_EVENTS_MAX_LIMIT = 500;
+
+export function encodeEventCursor(seq: number): string {
+  return Buffer.from(JSON.stringify({ seq }), 'utf8').toString('base64url');
+}
+
+/** `null` = sem cursor (início do feed); `undefined` = cursor inválido. */
+export function decodeEventCursor(cursor: string | null): number | null | undefined {
+  const raw = (cursor ?? '').trim();
+  if (!raw) return null;
+  try {
+    const json = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    const seq = Number(json?.seq);
+    return Number.isSafeInteger(seq) && seq >= 0 ? seq : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `types=deal.won,contact.created` → lista validada; `undefined` se algum tipo for desconhecido. */
+export function parseEventTypes(value: string | null): OutboundWebhookEventType[] | null | undefined {
+  const types = Array.from(new Set((value ?? '').split(',').map((t) => t.trim()).filter(Boolean)));
+  if (types.length === 0) return null;
+  const known = new Set<string>(OUTBOUND_WEBHOOK_EVENT_TYPES);
+  if (types.some((t) => !known.has(t))) return undefined;
+  return types as OutboundWebhookEventType[];
+}
+
+const PUBLIC_API_EVENT_SCOPES: Record<string, ApiKeyScope> = {
+  deal: 'deals:read',
+  contact: 'contacts:read',
+  activity: 'activities:read',
+};
+
+/** `deal.won` → `deals:read`. */
+export function eventTypeScope(type: OutboundWebhookEventType): ApiKeyScope {
+  return PUBLIC_API_EVENT_SCOPES[type.split('.')[0]!]!;
+}
+
+/**
+ * Tipos que a key pode ler, dentro do filtro `types` (`null` = todos).
+ * `missing` = escopo que falta para um tipo pedido explicitamente (ou para qualquer tipo, se nenhum sobrar).
+ */
+export function resolveReadableEventTypes(
+  granted: readonly string[],
+  types: OutboundWebhookEventType[] | null
+): { types: OutboundWebhookEventType[]; missing: null } | { types: null; missing: string } {
+  if (types) {
+    const denied = types.find((t) => !hasApiKeyScope(granted, eventTypeScope(t)));
+    return denied ? { types: null, missing: eventTypeScope(denied) } : { types, missing: null };
+  }
+  const readable = OUTBOUND_WEBHOOK_EVENT_TYPES.filter((t) => hasApiKeyScope(granted, eventTypeScope(t)));
+  if (readable.length === 0) {
+    return { types: null, missing: Object.values(PUBLIC_API_EVENT_SCOPES).join(', ') };
+  }
+  return { types: readable, missing: null };
+}
+
+export type PublicApiEventRow = {
+  id: string;
+  feed_seq: number | string;
+  event_type: string;
+  payload: Record<string, unknown> | null;
+  deal_id: string | null;
+  contact_id: string | null;
+  activity_id: string | null;
+  created_at: string;
+};
+
+export function toPublicApiEvent(row: PublicApiEventRow) {
+  const payload = row.payload || {};
+  return {
+    id: row.id,
+    cursor: encodeEventCursor(Number(row.feed_seq)),
+    event_type: row.event_type,
+    occurred_at: typeof payload.occurred_at === 'string' ? payload.occurred_at : row.created_at,
+    deal_id: row.deal_id,
+    contact_id: row.contact_id,
+    activity_id: row.activity_id,
+    payload,
+  };
+}
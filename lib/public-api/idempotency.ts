@@ -0,0 +1,137 @@
+import { createHash } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+
+/**
+ * `Idempotency-Key` nas rotas de escrita (POST/PATCH) da API pública.
+ *
+ * - `beginIdempotentRequest` (na rota, logo após o auth) reserva a chave ou devolve a resposta gravada.
+ * - `withPublicApiUsage` chama `completeIdempotentRequest` com a resposta final:
+ *   respostas < 500 ficam gravadas por 24h; 5xx liberam a chave para um novo retry.
+ * - Reserva sem resposta (request que morreu no meio) vale `IDEMPOTENCY_LEASE_SECONDS`:
+ *   depois disso um retry com o mesmo body assume a chave em vez de receber 409 para sempre.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+/** Nenhuma rota da API pública roda mais que isso (limite padrão de uma função na Vercel). */
+export const IDEMPOTENCY_LEASE_SECONDS = 300;
+
+type PendingIdempotency = { apiKeyId: string; key: string; claimedAt: string };
+
+type ClaimRow = {
+  claimed: boolean;
+  request_method: string;
+  request_path: string;
+  request_hash: string;
+  response_status: number | null;
+  response_body: unknown;
+  claimed_at: string;
+};
+
+const pendingByRequest = new WeakMap<Request, PendingIdempotency>();
+
+export function hashRequestBody(rawBody: string) {
+  return createHash('sha256').update(rawBody).digest('hex');
+}
+
+/** Lê e valida o header. `null` = sem header; `{ error }` = header inválido. */
+export function readIdempotencyKey(request: Request): { key: string } | { error: string } | null {
+  const raw = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (raw === null) return null;
+  const key = raw.trim();
+  if (!key || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    return { error: `${IDEMPOTENCY_KEY_HEADER} must have 1-${IDEMPOTENCY_KEY_MAX_LENGTH} characters` };
+  }
+  return { key };
+}
+
+/**
+ * Reserva o `Idempotency-Key` da request (se houver).
+ * Retorna `null` para seguir com a rota, ou a resposta a devolver (replay, conflito ou erro).
+ */
+export async function beginIdempotentRequest(request: Request, auth: { apiKeyId: string }): Promise<Response | null> {
+  const header = readIdempotencyKey(request);
+  if (!header) return null;
+  if ('error' in header) {
+    return NextResponse.json({ error: header.error, code: 'VALIDATION_ERROR' }, { status: 422 });
+  }
+
+  const path = new URL(request.url).pathname;
+  const requestHash = hashRequestBody(await request.clone().text());
+
+  const sb = createStaticAdminClient();
+  const { data, error } = await sb
+    .rpc('claim_api_idempotency_key', {
+      p_api_key_id: auth.apiKeyId,
+      p_idempotency_key: header.key,
+      p_method: request.method,
+      p_path: path,
+      p_request_hash: requestHash,
+      p_lease_seconds: IDEMPOTENCY_LEASE_SECONDS,
+    })
+    .maybeSingle();
+  const row = data as ClaimRow | null;
+  if (error || !row) {
+    return NextResponse.json({ error: error?.message || 'Could not check Idempotency-Key', code: 'DB_ERROR' }, { status: 500 });
+  }
+
+  if (row.claimed) {
+    pendingByRequest.set(request, { apiKeyId: auth.apiKeyId, key: header.key, claimedAt: row.claimed_at });
+    return null;
+  }
+
+  if (row.request_method !== request.method || row.request_path !== path || row.request_hash !== requestHash) {
+    return NextResponse.json(
+      { error: 'Idempotency-Key was already used with a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+      { status: 422 }
+    );
+  }
+
+  if (row.response_status === null) {
+    return NextResponse.json(
+      { error: 'A request with this Idempotency-Key is still being processed', code: 'IDEMPOTENCY_IN_PROGRESS' },
+      { status: 409, headers: { 'Retry-After': '1' } }
+    );
+  }
+
+  return NextResponse.json(row.response_body ?? null, {
+    status: row.response_status,
+    headers: { 'Idempotent-Replayed': 'true' },
+  });
+}
+
+/**
+ * Grava (ou libera, em 5xx/exceção) a chave reservada por `beginIdempotentRequest`.
+ * Só mexe na própria reserva (`created_at`): se a lease venceu e um retry assumiu, não grava por cima.
+ */
+export async function completeIdempotentRequest(request: Request, response: Response | null) {
+  const pending = pendingByRequest.get(request);
+  if (!pending) return;
+  pendingByRequest.delete(request);
+
+  const sb = createStaticAdminClient();
+  if (!response || response.status >= 500) {
+    await sb
+      .from('api_idempotency_keys')
+      .delete()
+      .eq('api_key_id', pending.apiKeyId)
+      .eq('idempotency_key', pending.key)
+      .eq('created_at', pending.claimedAt);
+    return;
+  }
+
+  let body: unknown = null;
+  try {
+    body = await response.clone().json();
+  } catch {
+    body = null;
+  }
+
+  await sb
+    .from('api_idempotency_keys')
+    .update({ response_status: response.status, response_body: body, completed_at: new Date().toISOString() })
+    .eq('api_key_id', pending.apiKeyId)
+    .eq('idempotency_key', pending.key)
+    .eq('created_at', pending.claimedAt);
+}
@@ -4,8 +4,99 @@
 // - Keep this file updated together with route implementations.
 // - Prefer stable, integration-friendly shapes (simple objects, consistent errors).
 
+import { PUBLIC_API_BATCH_MAX_ITEMS } from './batch';
+
 export type OpenApiDocument = Record<string, any>;
 
+function signedWebhookOperation(summary: string, description: string, schemaName: string) {
+  return {
+    post: {
+      tags: ['Webhooks'],
+      summary,
+      description:
+        `${description} Assinado com HMAC-SHA256 (o secret nunca é enviado). ` +
+        'Retries usam o mesmo `X-Webhook-Id`; trate o recebimento como idempotente.',
+      parameters: [
+        { $ref: '#/components/parameters/WebhookIdHeader' },
+        { $ref: '#/components/parameters/WebhookTimestampHeader' },
+        { $ref: '#/components/parameters/WebhookSignatureHeader' },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: { $ref: `#/components/schemas/${schemaName}` } },
+        },
+      },
+      responses: {
+        200: { description: 'Qualquer 2xx confirma a entrega. Outros status geram retry com backoff.' },
+      },
+    },
+  };
+}
+
+function batchOperation(tag: string, summary: string, description: string, itemSchema: Record<string, unknown>) {
+  return {
+    post: {
+      tags: [tag],
+      summary,
+      description:
+        `${description} Até ${PUBLIC_API_BATCH_MAX_ITEMS} itens por chamada, processados em paralelo; itens com o mesmo ` +
+        'email, telefone, website ou `id` rodam na ordem do lote. ' +
+        'Um item inválido não derruba o lote: cada posição de `items` tem seu resultado em `data[index]`. ' +
+        'O lote conta como 1 request no rate limit.',
+      security: [{ ApiKeyAuth: [] }],
+      parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              additionalProperties: false,
+              properties: { items: { type: 'array', minItems: 1, maxItems: PUBLIC_API_BATCH_MAX_ITEMS, items: itemSchema } },
+              required: ['items'],
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Resultado por item (mesmo com falhas parciais)',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/BatchResponse' } } },
+        },
+        401: { $ref: '#/components/responses/Unauthorized' },
+        403: { $ref: '#/components/responses/Forbidden' },
+        409: { $ref: '#/components/responses/IdempotencyInProgress' },
+        422: {
+          description: '`items` ausente, vazio ou com mais itens que o limite',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+        },
+        429: { $ref: '#/components/responses/TooManyRequests' },
+      },
+    },
+  };
+}
+
+/** Resposta 200 de listagem paginada (`{ data, nextCursor }`). */
+function paginatedResponse(schemaName: string) {
+  return {
+    description: 'OK',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            data: { type: 'array', items: { $ref: `#/components/schemas/${schemaName}` } },
+            nextCursor: { type: ['string', 'null'] },
+          },
+          required: ['data', 'nextCursor'],
+        },
+      },
+    },
+  };
+}
+
 export function getPublicApiOpenApiDocument(): OpenApiDocument {
   return {
     openapi: '3.1.2',
@@ -13,7 +104,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
       title: 'NossoCRM Public API',
       version: 'v1',
       description:
-        'API pública do NossoCRM para integrações (n8n/Make). Produto em primeiro lugar: copiar → colar → testar.',
+        'API pública do NossoCRM para integrações (n8n/Make). Produto em primeiro lugar: copiar → colar → testar. ' +
+        'Todo POST/PATCH aceita `Idempotency-Key` para retries seguros (sem deals/atividades duplicados).',
     },
     servers: [{ url: '/api/public/v1' }],
     tags: [
@@ -23,6 +115,9 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
       { name: 'Contacts', description: 'Contatos (leads/pessoas)' },
       { name: 'Deals', description: 'Negócios (cards)' },
       { name: 'Activities', description: 'Atividades (nota/tarefa/reunião/ligação)' },
+      { name: 'Products', description: 'Catálogo de produtos/serviços (itens dos deals)' },
+      { name: 'Events', description: 'Feed de mudanças (polling), alternativa aos webhooks' },
+      { name: 'Webhooks', description: 'Eventos enviados pelo CRM para a sua URL (Follow-up)' },
     ],
     components: {
       securitySchemes: {
@@ -30,7 +125,14 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           type: 'apiKey',
           in: 'header',
           name: 'X-Api-Key',
-          description: 'Chave gerada na interface (Settings → Integrações).',
+          description:
+            'Chave gerada na interface (Settings → Integrações). Cada chave tem escopos: `contacts:read|write`, ' +
+            '`companies:read|write`, `deals:read|write`, `activities:read|write`, `products:read|write`, ' +
+            '`boards:read|write`, `events:read` e `mcp:call` ' +
+            '(`*` = acesso total; `write` inclui `read`). GET exige `<recurso>:read`; POST/PATCH exigem `<recurso>:write`. ' +
+            'Chaves podem ter data de expiração e allowlist de IP. ' +
+            'Cada chave tem limite por minuto (padrão 120) e cota diária opcional: as respostas trazem `X-RateLimit-Limit` e ' +
+            '`X-RateLimit-Remaining`; acima do limite a API responde 429 `RATE_LIMITED` com `Retry-After` (segundos).',
         },
       },
       schemas: {
@@ -153,6 +255,118 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           },
           required: ['id', 'title', 'value', 'board_id', 'stage_id', 'contact_id', 'client_company_id', 'is_won', 'is_lost', 'loss_reason', 'closed_at', 'created_at', 'updated_at'],
         },
+        WebhookDealStageChangedEvent: {
+          type: 'object',
+          properties: {
+            event_type: { type: 'string', const: 'deal.stage_changed' },
+            occurred_at: { type: 'string', description: 'ISO timestamp' },
+            deal: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                title: { type: 'string' },
+                value: { type: ['number', 'null'] },
+                board_id: { type: 'string' },
+                board_name: { type: ['string', 'null'] },
+                from_stage_id: { type: ['string', 'null'] },
+                from_stage_label: { type: ['string', 'null'] },
+                to_stage_id: { type: 'string' },
+                to_stage_label: { type: ['string', 'null'] },
+                contact_id: { type: ['string', 'null'] },
+              },
+            },
+            contact: { $ref: '#/components/schemas/WebhookContact' },
+          },
+          required: ['event_type', 'occurred_at', 'deal', 'contact'],
+        },
+        WebhookContact: {
+          type: 'object',
+          description: 'Campos em `null` quando o evento não tem contato vinculado.',
+          properties: {
+            id: { type: ['string', 'null'] },
+            name: { type: ['string', 'null'] },
+            phone: { type: ['string', 'null'] },
+            email: { type: ['string', 'null'] },
+            role: { type: ['string', 'null'] },
+            company_name: { type: ['string', 'null'] },
+            client_company_id: { type: ['string', 'null'] },
+            status: { type: ['string', 'null'] },
+            stage: { type: ['string', 'null'] },
+            source: { type: ['string', 'null'] },
+          },
+        },
+        WebhookDeal: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            value: { type: ['number', 'null'] },
+            board_id: { type: ['string', 'null'] },
+            board_name: { type: ['string', 'null'] },
+            stage_id: { type: ['string', 'null'] },
+            stage_label: { type: ['string', 'null'] },
+            contact_id: { type: ['string', 'null'] },
+            is_won: { type: 'boolean' },
+            is_lost: { type: 'boolean' },
+            loss_reason: { type: ['string', 'null'], description: 'Preenchido em `deal.lost` quando informado.' },
+            closed_at: { type: ['string', 'null'] },
+          },
+        },
+        WebhookDealEvent: {
+          type: 'object',
+          properties: {
+            event_type: { type: 'string', enum: ['deal.created', 'deal.won', 'deal.lost', 'deal.reopened'] },
+            occurred_at: { type: 'string', description: 'ISO timestamp' },
+            deal: { $ref: '#/components/schemas/WebhookDeal' },
+            contact: { $ref: '#/components/schemas/WebhookContact' },
+          },
+          required: ['event_type', 'occurred_at', 'deal', 'contact'],
+        },
+        WebhookContactEvent: {
+          type: 'object',
+          properties: {
+            event_type: { type: 'string', enum: ['contact.created', 'contact.updated', 'contact.deleted'] },
+            occurred_at: { type: 'string', description: 'ISO timestamp' },
+            contact: { $ref: '#/components/schemas/WebhookContact' },
+            changed_fields: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Somente em `contact.updated`: campos editados (ex.: `email`, `phone`, `stage`).',
+            },
+          },
+          required: ['event_type', 'occurred_at', 'contact'],
+        },
+        WebhookActivityEvent: {
+          type: 'object',
+          properties: {
+            event_type: {
+              type: 'string',
+              enum: ['activity.created', 'activity.updated', 'activity.completed', 'activity.deleted'],
+            },
+            occurred_at: { type: 'string', description: 'ISO timestamp' },
+            activity: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                type: { type: 'string' },
+                title: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                date: { type: 'string' },
+                completed: { type: 'boolean' },
+                deal_id: { type: ['string', 'null'] },
+                contact_id: { type: ['string', 'null'] },
+              },
+            },
+            deal: { oneOf: [{ $ref: '#/components/schemas/WebhookDeal' }, { type: 'null' }] },
+            contact: { $ref: '#/components/schemas/WebhookContact' },
+            changed_fields: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Somente em `activity.updated`: campos editados (ex.: `date`, `title`).',
+            },
+          },
+          required: ['event_type', 'occurred_at', 'activity', 'deal', 'contact'],
+        },
         Activity: {
           type: 'object',
           additionalProperties: false,
@@ -170,6 +384,269 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           },
           required: ['id', 'title', 'description', 'type', 'date', 'completed', 'deal_id', 'contact_id', 'client_company_id', 'created_at'],
         },
+        Product: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            price: { type: 'number' },
+            sku: { type: ['string', 'null'] },
+            active: { type: 'boolean' },
+            created_at: { type: 'string' },
+            updated_at: { type: 'string' },
+          },
+          required: ['id', 'name', 'description', 'price', 'sku', 'active', 'created_at', 'updated_at'],
+        },
+        ProductInput: {
+          type: 'object',
+          additionalProperties: false,
+          description: 'No `POST`, faz upsert por `sku` quando informado. `name` é obrigatório para criar.',
+          properties: {
+            name: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            price: { type: 'number', minimum: 0 },
+            sku: { type: ['string', 'null'] },
+            active: { type: 'boolean' },
+          },
+        },
+        DealNote: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            deal_id: { type: 'string' },
+            content: { type: 'string' },
+            created_at: { type: 'string' },
+            updated_at: { type: 'string' },
+          },
+          required: ['id', 'deal_id', 'content', 'created_at', 'updated_at'],
+        },
+        DealFile: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            deal_id: { type: 'string' },
+            file_name: { type: 'string' },
+            file_path: { type: 'string' },
+            file_size: { type: ['integer', 'null'] },
+            mime_type: { type: ['string', 'null'] },
+            created_at: { type: 'string' },
+            download_url: { type: 'string', description: 'Somente em `GET /deals/{dealId}/files/{fileId}`' },
+            download_url_expires_at: { type: 'string' },
+          },
+          required: ['id', 'deal_id', 'file_name', 'file_path', 'file_size', 'mime_type', 'created_at'],
+        },
+        DealItem: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            deal_id: { type: 'string' },
+            product_id: { type: ['string', 'null'] },
+            name: { type: 'string' },
+            quantity: { type: 'integer' },
+            price: { type: 'number' },
+            created_at: { type: 'string' },
+          },
+          required: ['id', 'deal_id', 'product_id', 'name', 'quantity', 'price', 'created_at'],
+        },
+        PublicEvent: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            cursor: { type: 'string', description: 'Cursor logo após este evento' },
+            event_type: { type: 'string', description: 'Mesmos tipos dos webhooks de saída (ex.: `deal.won`)' },
+            occurred_at: { type: 'string' },
+            deal_id: { type: ['string', 'null'] },
+            contact_id: { type: ['string', 'null'] },
+            activity_id: { type: ['string', 'null'] },
+            payload: { type: 'object', description: 'Mesmo body enviado no webhook de saída deste `event_type`' },
+          },
+          required: ['id', 'cursor', 'event_type', 'occurred_at', 'deal_id', 'contact_id', 'activity_id', 'payload'],
+        },
+        DealItemWriteResponse: {
+          type: 'object',
+          properties: {
+            data: { $ref: '#/components/schemas/DealItem' },
+            deal_value: { type: 'number', description: 'Novo `deals.value` (soma de `price * quantity` dos itens)' },
+            action: { type: 'string' },
+          },
+          required: ['data', 'deal_value'],
+        },
+        CompanyUpsertInput: {
+          type: 'object',
+          additionalProperties: false,
+          description: 'Upsert por `website` (ou `name`). `name` é obrigatório para criar.',
+          properties: {
+            name: { type: 'string' },
+            website: { type: 'string' },
+            industry: { type: 'string' },
+          },
+        },
+        ContactUpsertInput: {
+          type: 'object',
+          additionalProperties: false,
+          description: 'Upsert por `email`/`phone` (informe ao menos um). `name` é obrigatório para criar.',
+          properties: {
+            name: { type: 'string' },
+            email: { type: 'string' },
+            phone: { type: 'string' },
+            role: { type: 'string' },
+            company_name: { type: 'string', description: 'Nome da empresa (auto-cria/vincula em crm_companies quando client_company_id não é enviado)' },
+            client_company_id: { type: 'string' },
+            avatar: { type: 'string' },
+            status: { type: 'string' },
+            stage: { type: 'string' },
+            birth_date: { type: 'string', description: 'YYYY-MM-DD' },
+            last_interaction: { type: 'string', description: 'ISO timestamp' },
+            last_purchase_date: { type: 'string', description: 'YYYY-MM-DD' },
+            total_value: { type: 'number' },
+            source: { type: 'string' },
+            notes: { type: 'string' },
+          },
+        },
+        DealCreateInput: {
+          type: 'object',
+          additionalProperties: false,
+          description: 'Informe `board_id` ou `board_key`; `contact_id` ou `contact` (upsert por email/telefone). Sem `stage_id`, usa a 1ª etapa.',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            value: { type: 'number' },
+            board_id: { type: 'string', format: 'uuid' },
+            board_key: { type: 'string' },
+            stage_id: { type: 'string', format: 'uuid' },
+            contact_id: { type: 'string', format: 'uuid' },
+            contact: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                name: { type: 'string' },
+                email: { type: 'string' },
+                phone: { type: 'string' },
+                role: { type: 'string' },
+                client_company_id: { type: 'string', format: 'uuid' },
+              },
+            },
+            client_company_id: { type: 'string', format: 'uuid' },
+          },
+          required: ['title'],
+        },
+        DealBatchUpdateInput: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            title: { type: 'string' },
+            value: { type: 'number' },
+            contact_id: { type: 'string', format: 'uuid' },
+            client_company_id: { type: ['string', 'null'], format: 'uuid' },
+            loss_reason: { type: ['string', 'null'] },
+          },
+          required: ['id'],
+        },
+        ActivityCreateInput: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            type: { type: 'string', description: 'CALL, MEETING, EMAIL, TASK, NOTE...' },
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            date: { type: 'string', description: 'ISO timestamp (padrão: agora)' },
+            deal_id: { type: 'string', format: 'uuid' },
+            contact_id: { type: 'string', format: 'uuid' },
+            client_company_id: { type: 'string', format: 'uuid' },
+          },
+          required: ['type', 'title'],
+        },
+        ActivityBatchUpdateInput: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            type: { type: 'string' },
+            title: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            date: { type: 'string' },
+            completed: { type: 'boolean' },
+            deal_id: { type: ['string', 'null'], format: 'uuid' },
+            contact_id: { type: ['string', 'null'], format: 'uuid' },
+            client_company_id: { type: ['string', 'null'], format: 'uuid' },
+          },
+          required: ['id'],
+        },
+        BatchItemResult: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', description: 'Posição do item em `items`' },
+            ok: { type: 'boolean' },
+            status: { type: 'integer', description: 'Status que o endpoint unitário teria devolvido (200, 201, 404, 422...)' },
+            action: { type: 'string', enum: ['created', 'updated'] },
+            data: { type: 'object', description: 'Registro salvo (quando `ok`)' },
+            error: { type: 'string' },
+            code: { type: 'string', description: 'VALIDATION_ERROR, NOT_FOUND, DB_ERROR...' },
+          },
+          required: ['index', 'ok', 'status'],
+        },
+        BatchResponse: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            data: { type: 'array', items: { $ref: '#/components/schemas/BatchItemResult' } },
+            summary: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                total: { type: 'integer' },
+                created: { type: 'integer' },
+                updated: { type: 'integer' },
+                failed: { type: 'integer' },
+              },
+              required: ['total', 'created', 'updated', 'failed'],
+            },
+          },
+          required: ['data', 'summary'],
+        },
+      },
+      parameters: {
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          schema: { type: 'string', maxLength: 255, example: 'n8n-exec-8812-deal' },
+          description:
+            'Torna o POST/PATCH seguro para retry. A primeira resposta (status + body) fica guardada por 24h para esta API key; ' +
+            'retries com a mesma chave recebem a mesma resposta, com o header `Idempotent-Replayed: true`, sem executar de novo. ' +
+            'Reusar a chave com outro método, rota ou body retorna 422 `IDEMPOTENCY_KEY_REUSED`. ' +
+            'Respostas 5xx não ficam guardadas (o retry executa de novo). ' +
+            'Uma request que morreu sem responder segura a chave por no máximo 5 min (409 `IDEMPOTENCY_IN_PROGRESS` até lá).',
+        },
+        WebhookIdHeader: {
+          name: 'X-Webhook-Id',
+          in: 'header',
+          required: true,
+          schema: { type: 'string' },
+          description: 'Id da entrega (muda a cada evento; se repete em retries/reenvios da mesma entrega).',
+        },
+        WebhookTimestampHeader: {
+          name: 'X-Webhook-Timestamp',
+          in: 'header',
+          required: true,
+          schema: { type: 'string', pattern: '^\\d+$' },
+          description: 'Unix timestamp (segundos) do envio. Rejeite se estiver fora de uma janela curta (ex.: 5 min).',
+        },
+        WebhookSignatureHeader: {
+          name: 'X-Webhook-Signature',
+          in: 'header',
+          required: true,
+          schema: { type: 'string', example: 'v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd' },
+          description:
+            '`v1=` + hex(HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${X-Webhook-Id}.${rawBody}`)). ' +
+            'Calcule sobre o body cru e compare em tempo constante. Helper: `verifyWebhookSignature` em `lib/webhooks/signature.ts`.',
+        },
       },
       responses: {
         Unauthorized: {
@@ -180,6 +657,53 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               examples: {
                 missing: { value: { error: 'Missing X-Api-Key', code: 'AUTH_MISSING' } },
                 invalid: { value: { error: 'Invalid API key', code: 'AUTH_INVALID' } },
+                expired: { value: { error: 'API key expired', code: 'AUTH_EXPIRED' } },
+              },
+            },
+          },
+        },
+        Forbidden: {
+          description: 'A API key não tem o escopo necessário ou foi usada fora da allowlist de IP',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
+              examples: {
+                scope: { value: { error: 'API key is missing the deals:write scope', code: 'AUTH_SCOPE_MISSING' } },
+                ip: { value: { error: 'API key not allowed from this IP', code: 'AUTH_IP_NOT_ALLOWED' } },
+              },
+            },
+          },
+        },
+        NotFound: {
+          description: 'Recurso não encontrado na organização da API key',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+        },
+        IdempotencyInProgress: {
+          description: 'Outra request com o mesmo `Idempotency-Key` ainda está em processamento',
+          headers: { 'Retry-After': { schema: { type: 'integer' } } },
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
+              examples: {
+                inProgress: {
+                  value: { error: 'A request with this Idempotency-Key is still being processed', code: 'IDEMPOTENCY_IN_PROGRESS' },
+                },
+              },
+            },
+          },
+        },
+        TooManyRequests: {
+          description: 'Limite por minuto ou cota diária da API key excedidos',
+          headers: {
+            'Retry-After': { schema: { type: 'integer' }, description: 'Segundos até poder tentar de novo.' },
+            'X-RateLimit-Limit': { schema: { type: 'integer' }, description: 'Limite da janela que foi excedida.' },
+            'X-RateLimit-Remaining': { schema: { type: 'integer' } },
+          },
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ErrorResponse' },
+              examples: {
+                rateLimited: { value: { error: 'Rate limit exceeded. Retry in 12s', code: 'RATE_LIMITED' } },
               },
             },
           },
@@ -220,8 +744,10 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
                           organization_id: { type: 'string' },
                           organization_name: { type: 'string' },
                           api_key_prefix: { type: 'string' },
+                          scopes: { type: 'array', items: { type: 'string' }, description: 'Escopos da chave (`*` = acesso total)' },
+                          expires_at: { type: ['string', 'null'], description: 'ISO timestamp; `null` = não expira' },
                         },
-                        required: ['organization_id', 'organization_name', 'api_key_prefix'],
+                        required: ['organization_id', 'organization_name', 'api_key_prefix', 'scopes', 'expires_at'],
                       },
                     },
                     required: ['data'],
@@ -234,6 +760,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
                           organization_id: '00000000-0000-0000-0000-000000000000',
                           organization_name: 'Minha Empresa',
                           api_key_prefix: 'ncrm_abc123',
+                          scopes: ['contacts:write', 'deals:read'],
+                          expires_at: null,
                         },
                       },
                     },
@@ -242,6 +770,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -274,6 +804,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -300,6 +832,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -328,6 +862,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -361,25 +897,20 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         post: {
           tags: ['Companies'],
           summary: 'Criar/atualizar empresa (upsert)',
           security: [{ ApiKeyAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: {
             required: true,
             content: {
               'application/json': {
-                schema: {
-                  type: 'object',
-                  additionalProperties: false,
-                  properties: {
-                    name: { type: 'string' },
-                    website: { type: 'string' },
-                    industry: { type: 'string' },
-                  },
-                },
+                schema: { $ref: '#/components/schemas/CompanyUpsertInput' },
               },
             },
           },
@@ -394,9 +925,18 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
             },
             200: { description: 'Updated', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
+      '/companies/batch': batchOperation(
+        'Companies',
+        'Criar/atualizar empresas em lote',
+        'Cada item segue as regras de `POST /companies` (upsert por website ou nome).',
+        { $ref: '#/components/schemas/CompanyUpsertInput' }
+      ),
       '/companies/{companyId}': {
         get: {
           tags: ['Companies'],
@@ -409,17 +949,22 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Company' } }, required: ['data'] } } },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         patch: {
           tags: ['Companies'],
           summary: 'Atualizar empresa',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'companyId', in: 'path', required: true, schema: { type: 'string' } }],
+          parameters: [{ name: 'companyId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -454,37 +999,20 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         post: {
           tags: ['Contacts'],
           summary: 'Criar/atualizar contato (upsert)',
           security: [{ ApiKeyAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: {
             required: true,
             content: {
               'application/json': {
-                schema: {
-                  type: 'object',
-                  additionalProperties: false,
-                  properties: {
-                    name: { type: 'string' },
-                    email: { type: 'string' },
-                    phone: { type: 'string' },
-                    role: { type: 'string' },
-                    company_name: { type: 'string', description: 'Nome da empresa (auto-cria/vincula em crm_companies quando client_company_id não é enviado)' },
-                    client_company_id: { type: 'string' },
-                    avatar: { type: 'string' },
-                    status: { type: 'string' },
-                    stage: { type: 'string' },
-                    birth_date: { type: 'string', description: 'YYYY-MM-DD' },
-                    last_interaction: { type: 'string', description: 'ISO timestamp' },
-                    last_purchase_date: { type: 'string', description: 'YYYY-MM-DD' },
-                    total_value: { type: 'number' },
-                    source: { type: 'string' },
-                    notes: { type: 'string' },
-                  },
-                },
+                schema: { $ref: '#/components/schemas/ContactUpsertInput' },
               },
             },
           },
@@ -492,9 +1020,18 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
             201: { description: 'Created', content: { 'application/json': { schema: { type: 'object' } } } },
             200: { description: 'Updated', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
+      '/contacts/batch': batchOperation(
+        'Contacts',
+        'Criar/atualizar contatos em lote',
+        'Cada item segue as regras de `POST /contacts` (upsert por email/telefone). Ideal para sincronizar um ERP.',
+        { $ref: '#/components/schemas/ContactUpsertInput' }
+      ),
       '/contacts/{contactId}': {
         get: {
           tags: ['Contacts'],
@@ -504,17 +1041,22 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Contact' } }, required: ['data'] } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         patch: {
           tags: ['Contacts'],
           summary: 'Atualizar contato',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'contactId', in: 'path', required: true, schema: { type: 'string' } }],
+          parameters: [{ name: 'contactId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -553,19 +1095,33 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         post: {
           tags: ['Deals'],
           summary: 'Criar deal',
           security: [{ ApiKeyAuth: [] }],
-          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/DealCreateInput' } } } },
           responses: {
             201: { description: 'Created', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
+      '/deals/batch': batchOperation(
+        'Deals',
+        'Criar/atualizar deals em lote',
+        'Item sem `id` cria (regras de `POST /deals`); item com `id` atualiza (campos de `PATCH /deals/{dealId}`).',
+        {
+          oneOf: [{ $ref: '#/components/schemas/DealCreateInput' }, { $ref: '#/components/schemas/DealBatchUpdateInput' }],
+        }
+      ),
       '/deals/{dealId}': {
         get: {
           tags: ['Deals'],
@@ -575,15 +1131,17 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Deal' } }, required: ['data'] } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         patch: {
           tags: ['Deals'],
           summary: 'Atualizar deal',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
-          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' } },
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' }, 409: { $ref: '#/components/responses/IdempotencyInProgress' }, 429: { $ref: '#/components/responses/TooManyRequests' } },
         },
       },
       '/deals/{dealId}/move-stage': {
@@ -591,7 +1149,7 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           tags: ['Deals'],
           summary: 'Mover etapa do deal',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: {
             required: true,
             content: {
@@ -626,7 +1184,7 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
           },
-          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' } },
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' }, 409: { $ref: '#/components/responses/IdempotencyInProgress' }, 429: { $ref: '#/components/responses/TooManyRequests' } },
         },
       },
       '/deals/move-stage-by-identity': {
@@ -636,6 +1194,7 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           description:
             'Resolve o deal aberto dentro de um board usando `phone` e/ou `email` (regra: 1 deal aberto por board por telefone OU email) e move para a etapa indicada.',
           security: [{ ApiKeyAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: {
             required: true,
             content: {
@@ -664,6 +1223,9 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -674,6 +1236,7 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           description:
             'Move etapa via `deal_id` (UUID) ou via `board_key_or_id` + `phone/email` (sem UUID). Preferir usar `to_stage_label`.',
           security: [{ ApiKeyAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: {
             required: true,
             content: {
@@ -717,6 +1280,9 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           responses: {
             200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
       },
@@ -725,8 +1291,8 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           tags: ['Deals'],
           summary: 'Marcar como ganho',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }],
-          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' } },
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' }, 409: { $ref: '#/components/responses/IdempotencyInProgress' }, 429: { $ref: '#/components/responses/TooManyRequests' } },
         },
       },
       '/deals/{dealId}/mark-lost': {
@@ -734,9 +1300,250 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
           tags: ['Deals'],
           summary: 'Marcar como perdido',
           security: [{ ApiKeyAuth: [] }],
-          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
           requestBody: { required: false, content: { 'application/json': { schema: { type: 'object', properties: { loss_reason: { type: 'string' } } } } } },
-          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' } },
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' }, 409: { $ref: '#/components/responses/IdempotencyInProgress' }, 429: { $ref: '#/components/responses/TooManyRequests' } },
+        },
+      },
+      '/deals/{dealId}/notes': {
+        get: {
+          tags: ['Deals'],
+          summary: 'Listar notas do deal',
+          description: 'Mais recentes primeiro. Escopo `deals:read`.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'dealId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 250 } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: paginatedResponse('DealNote'),
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        post: {
+          tags: ['Deals'],
+          summary: 'Adicionar nota ao deal',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', additionalProperties: false, properties: { content: { type: 'string' } }, required: ['content'] } } },
+          },
+          responses: {
+            201: { description: 'Created', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/DealNote' } }, required: ['data'] } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/deals/{dealId}/files': {
+        get: {
+          tags: ['Deals'],
+          summary: 'Listar arquivos do deal',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'dealId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 250 } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: paginatedResponse('DealFile'),
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        post: {
+          tags: ['Deals'],
+          summary: 'Anexar arquivo ao deal (URL assinada de upload)',
+          description:
+            'Registra o arquivo e devolve `upload.url`: envie o conteúdo com `PUT` nessa URL (header `Content-Type` do arquivo). ' +
+            'Limite de 10MB por arquivo.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  additionalProperties: false,
+                  properties: {
+                    file_name: { type: 'string' },
+                    file_size: { type: 'integer', minimum: 1, maximum: 10485760, description: 'Tamanho em bytes' },
+                    mime_type: { type: 'string' },
+                  },
+                  required: ['file_name', 'file_size'],
+                },
+                examples: { pdf: { value: { file_name: 'proposta.pdf', file_size: 182044, mime_type: 'application/pdf' } } },
+              },
+            },
+          },
+          responses: {
+            201: {
+              description: 'Created',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      data: { $ref: '#/components/schemas/DealFile' },
+                      upload: {
+                        type: 'object',
+                        properties: {
+                          method: { type: 'string', enum: ['PUT'] },
+                          url: { type: 'string' },
+                          token: { type: 'string' },
+                          path: { type: 'string' },
+                        },
+                        required: ['method', 'url', 'token', 'path'],
+                      },
+                      action: { type: 'string' },
+                    },
+                    required: ['data', 'upload'],
+                  },
+                },
+              },
+            },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/deals/{dealId}/files/{fileId}': {
+        get: {
+          tags: ['Deals'],
+          summary: 'Obter arquivo (com URL assinada de download)',
+          description: '`download_url` expira em 1 hora.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { name: 'fileId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/DealFile' } }, required: ['data'] } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        delete: {
+          tags: ['Deals'],
+          summary: 'Remover arquivo do deal',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { name: 'fileId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/deals/{dealId}/items': {
+        get: {
+          tags: ['Deals'],
+          summary: 'Listar itens (produtos) do deal',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'dealId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 250 } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: paginatedResponse('DealItem'),
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        post: {
+          tags: ['Deals'],
+          summary: 'Adicionar item ao deal',
+          description:
+            'Com `product_id`, `name`/`price` vêm do catálogo quando omitidos; sem `product_id`, informe `name` (item personalizado). ' +
+            'Recalcula `deals.value` (soma de `price * quantity`).',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  additionalProperties: false,
+                  properties: {
+                    product_id: { type: 'string' },
+                    name: { type: 'string' },
+                    quantity: { type: 'integer', minimum: 1, default: 1 },
+                    price: { type: 'number', minimum: 0 },
+                  },
+                },
+                examples: {
+                  fromCatalog: { value: { product_id: '00000000-0000-0000-0000-000000000000', quantity: 2 } },
+                  custom: { value: { name: 'Implantação', price: 1500 } },
+                },
+              },
+            },
+          },
+          responses: {
+            201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/DealItemWriteResponse' } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/deals/{dealId}/items/{itemId}': {
+        patch: {
+          tags: ['Deals'],
+          summary: 'Atualizar item do deal',
+          description: 'Recalcula `deals.value`.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'dealId', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'itemId', in: 'path', required: true, schema: { type: 'string' } },
+            { $ref: '#/components/parameters/IdempotencyKey' },
+          ],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', additionalProperties: false, properties: { name: { type: 'string' }, quantity: { type: 'integer', minimum: 1 }, price: { type: 'number', minimum: 0 } } } } },
+          },
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/DealItemWriteResponse' } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        delete: {
+          tags: ['Deals'],
+          summary: 'Remover item do deal',
+          description: 'Recalcula `deals.value`.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'dealId', in: 'path', required: true, schema: { type: 'string' } }, { name: 'itemId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
         },
       },
       '/activities': {
@@ -770,17 +1577,188 @@ export function getPublicApiOpenApiDocument(): OpenApiDocument {
               },
             },
             401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
           },
         },
         post: {
           tags: ['Activities'],
           summary: 'Criar atividade',
           security: [{ ApiKeyAuth: [] }],
-          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } },
-          responses: { 201: { description: 'Created', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' } },
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/ActivityCreateInput' } } } },
+          responses: { 201: { description: 'Created', content: { 'application/json': { schema: { type: 'object' } } } }, 401: { $ref: '#/components/responses/Unauthorized' }, 409: { $ref: '#/components/responses/IdempotencyInProgress' }, 429: { $ref: '#/components/responses/TooManyRequests' } },
+        },
+      },
+      '/activities/batch': batchOperation(
+        'Activities',
+        'Criar/atualizar atividades em lote',
+        'Item sem `id` cria (regras de `POST /activities`); item com `id` atualiza a atividade (ex.: `completed: true`).',
+        {
+          oneOf: [{ $ref: '#/components/schemas/ActivityCreateInput' }, { $ref: '#/components/schemas/ActivityBatchUpdateInput' }],
+        }
+      ),
+      '/products': {
+        get: {
+          tags: ['Products'],
+          summary: 'Listar produtos',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'q', in: 'query', schema: { type: 'string' }, description: 'Busca por nome' },
+            { name: 'sku', in: 'query', schema: { type: 'string' } },
+            { name: 'active', in: 'query', schema: { type: 'boolean' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 250 } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            200: paginatedResponse('Product'),
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        post: {
+          tags: ['Products'],
+          summary: 'Criar/atualizar produto (upsert por sku)',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/ProductInput' } } } },
+          responses: {
+            200: { description: 'Updated', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Product' } }, required: ['data'] } } } },
+            201: { description: 'Created', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Product' } }, required: ['data'] } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/products/{productId}': {
+        get: {
+          tags: ['Products'],
+          summary: 'Obter produto',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'productId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Product' } }, required: ['data'] } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+        patch: {
+          tags: ['Products'],
+          summary: 'Atualizar produto',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'productId', in: 'path', required: true, schema: { type: 'string' } }, { $ref: '#/components/parameters/IdempotencyKey' }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/ProductInput' } } } },
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { data: { $ref: '#/components/schemas/Product' } }, required: ['data'] } } } },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            404: { $ref: '#/components/responses/NotFound' },
+            409: { $ref: '#/components/responses/IdempotencyInProgress' },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
+        },
+      },
+      '/events': {
+        get: {
+          tags: ['Events'],
+          summary: 'Feed de eventos (tudo desde o cursor)',
+          description:
+            'Para integrações que não recebem webhooks: faça polling com o `nextCursor` da resposta anterior. ' +
+            'Eventos em ordem, sem pular nenhum (o cursor é monotônico); sem eventos novos o `nextCursor` não muda. ' +
+            'Sem `cursor`, começa no evento mais antigo retido (30 dias). Escopo `events:read`, mais o de leitura de cada ' +
+            'recurso: `deals:read` (`deal.*`), `contacts:read` (`contact.*`), `activities:read` (`activity.*`); ' +
+            'sem `types`, o feed traz só os tipos que a key pode ler.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+            {
+              name: 'types',
+              in: 'query',
+              schema: { type: 'string' },
+              description: 'Filtra por tipo, separados por vírgula (ex.: `deal.won,contact.created`)',
+            },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 500, default: 100 } },
+          ],
+          responses: {
+            200: {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                      data: { type: 'array', items: { $ref: '#/components/schemas/PublicEvent' } },
+                      nextCursor: { type: 'string' },
+                      hasMore: { type: 'boolean', description: '`true`: chame de novo já (há mais eventos acumulados)' },
+                    },
+                    required: ['data', 'nextCursor', 'hasMore'],
+                  },
+                },
+              },
+            },
+            401: { $ref: '#/components/responses/Unauthorized' },
+            403: { $ref: '#/components/responses/Forbidden' },
+            422: {
+              description: 'Cursor inválido ou tipo de evento desconhecido',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+            },
+            429: { $ref: '#/components/responses/TooManyRequests' },
+          },
         },
       },
     },
+    webhooks: {
+      'deal.stage_changed': signedWebhookOperation(
+        'Deal mudou de etapa',
+        'Enviado para a URL do Follow-up quando `deals.stage_id` muda.',
+        'WebhookDealStageChangedEvent'
+      ),
+      'deal.created': signedWebhookOperation('Deal criado', 'Enviado quando um deal é criado.', 'WebhookDealEvent'),
+      'deal.won': signedWebhookOperation('Deal ganho', 'Enviado quando o deal é marcado como ganho.', 'WebhookDealEvent'),
+      'deal.lost': signedWebhookOperation(
+        'Deal perdido',
+        'Enviado quando o deal é marcado como perdido; `deal.loss_reason` traz o motivo.',
+        'WebhookDealEvent'
+      ),
+      'deal.reopened': signedWebhookOperation(
+        'Deal reaberto',
+        'Enviado quando um deal ganho/perdido volta a ficar aberto (ex.: `reopen_deal`).',
+        'WebhookDealEvent'
+      ),
+      'contact.created': signedWebhookOperation('Contato criado', 'Enviado quando um contato é criado.', 'WebhookContactEvent'),
+      'contact.updated': signedWebhookOperation(
+        'Contato atualizado',
+        'Enviado quando campos editáveis do contato mudam (`changed_fields`).',
+        'WebhookContactEvent'
+      ),
+      'contact.deleted': signedWebhookOperation(
+        'Contato excluído',
+        'Enviado quando o contato é removido (soft delete).',
+        'WebhookContactEvent'
+      ),
+      'activity.created': signedWebhookOperation('Atividade criada', 'Enviado quando uma atividade é criada.', 'WebhookActivityEvent'),
+      'activity.updated': signedWebhookOperation(
+        'Atividade atualizada',
+        'Enviado quando campos da atividade mudam (`changed_fields`).',
+        'WebhookActivityEvent'
+      ),
+      'activity.completed': signedWebhookOperation(
+        'Atividade concluída',
+        'Enviado quando uma atividade é marcada como concluída.',
+        'WebhookActivityEvent'
+      ),
+      'activity.deleted': signedWebhookOperation(
+        'Atividade excluída',
+        'Enviado quando a atividade é removida (soft delete).',
+        'WebhookActivityEvent'
+      ),
+    },
   };
 }
 
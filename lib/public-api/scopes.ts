@@ -0,0 +1,111 @@
+/**
+ * Escopos das API keys (API pública + MCP).
+ *
+ * - Cada key guarda uma lista em `api_keys.scopes`.
+ * - `*` = acesso total (é o default das keys antigas, criadas antes dos escopos).
+ * - `<recurso>:write` inclui `<recurso>:read`.
+ */
+export const API_KEY_SCOPES = [
+  'contacts:read',
+  'contacts:write',
+  'companies:read',
+  'companies:write',
+  'deals:read',
+  'deals:write',
+  'activities:read',
+  'activities:write',
+  'products:read',
+  'products:write',
+  'boards:read',
+  'boards:write',
+  'events:read',
+  'mcp:call',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_FULL_ACCESS = '*';
+
+/** Catálogo para a UI (Settings → Integrações). */
+export const API_KEY_SCOPE_GROUPS: Array<{ label: string; scopes: Array<{ scope: ApiKeyScope; label: string }> }> = [
+  {
+    label: 'Contatos',
+    scopes: [
+      { scope: 'contacts:read', label: 'Ler' },
+      { scope: 'contacts:write', label: 'Criar/editar' },
+    ],
+  },
+  {
+    label: 'Empresas',
+    scopes: [
+      { scope: 'companies:read', label: 'Ler' },
+      { scope: 'companies:write', label: 'Criar/editar' },
+    ],
+  },
+  {
+    label: 'Negócios',
+    scopes: [
+      { scope: 'deals:read', label: 'Ler' },
+      { scope: 'deals:write', label: 'Criar/editar/mover/ganhar/perder' },
+    ],
+  },
+  {
+    label: 'Atividades',
+    scopes: [
+      { scope: 'activities:read', label: 'Ler' },
+      { scope: 'activities:write', label: 'Criar' },
+    ],
+  },
+  {
+    label: 'Produtos',
+    scopes: [
+      { scope: 'products:read', label: 'Ler' },
+      { scope: 'products:write', label: 'Criar/editar' },
+    ],
+  },
+  {
+    label: 'Boards',
+    scopes: [
+      { scope: 'boards:read', label: 'Ler boards e etapas' },
+      { scope: 'boards:write', label: 'Editar/reordenar etapas (MCP)' },
+    ],
+  },
+  { label: 'Eventos', scopes: [{ scope: 'events:read', label: 'Ler o feed de mudanças (/events)' }] },
+  { label: 'MCP', scopes: [{ scope: 'mcp:call', label: 'Usar o servidor MCP (/api/mcp)' }] },
+];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/** Limpa a lista vinda do banco/UI (mantém `*` e escopos conhecidos, sem duplicatas). */
+export function normalizeApiKeyScopes(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const out: string[] = [];
+  for (const s of raw) {
+    if ((s === API_KEY_FULL_ACCESS || isApiKeyScope(s)) && !out.includes(s)) out.push(s);
+  }
+  return out.includes(API_KEY_FULL_ACCESS) ? [API_KEY_FULL_ACCESS] : out;
+}
+
+export function hasApiKeyScope(granted: readonly string[], required: ApiKeyScope) {
+  if (granted.includes(API_KEY_FULL_ACCESS) || granted.includes(required)) return true;
+  if (required.endsWith(':read')) return granted.includes(required.replace(/:read$/, ':write'));
+  return false;
+}
+
+/**
+ * IP do cliente (allowlist de IP das keys, auditoria).
+ *
+ * - `X-Real-Ip` primeiro: na Vercel a borda grava o IP de quem abriu a conexão e descarta o valor enviado pelo cliente.
+ * - Sem ele, o **último** hop de `X-Forwarded-For` (o que o proxy na frente do app anexou). Os hops anteriores
+ *   vêm do próprio cliente e podem ser forjados para burlar a allowlist.
+ * - Atrás de outro proxy/CDN, configure-o para definir `X-Real-Ip` com o IP real.
+ */
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  const ip = request.headers.get('x-real-ip')?.trim() || forwarded || '';
+  if (!ip) return null;
+  // IPv4 mapeado em IPv6 (ex.: ::ffff:10.0.0.1)
+  return ip.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+}
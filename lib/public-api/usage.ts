@@ -0,0 +1,159 @@
+import { after } from 'next/server';
+import { createStaticAdminClient } from '@/lib/supabase/server';
+import { completeIdempotentRequest } from './idempotency';
+import { getClientIp } from './scopes';
+import { buildPublicApiAuditEntry, isAuditedMethod, recordApiKeyAuditEvent } from './audit';
+
+/**
+ * Rate limit + métricas de uso por API key.
+ *
+ * - `authPublicApi` consome a cota (`consume_api_key_rate_limit`) e marca a request com a key autenticada.
+ * - `withPublicApiUsage` envolve o handler da rota: adiciona os headers `X-RateLimit-*` e registra
+ *   status/endpoint em `api_key_usage_daily` depois da resposta (via `after`).
+ */
+
+export type ApiKeyRateLimit = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+type RequestUsage = {
+  apiKeyId: string;
+  apiKeyPrefix: string;
+  organizationId: string;
+  endpoint: string;
+  rateLimit: ApiKeyRateLimit | null;
+};
+
+const usageByRequest = new WeakMap<Request, RequestUsage>();
+
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Endpoint "template" para agregação: `PATCH /deals/{id}`, `GET /boards/{boardKeyOrId}/stages`, `POST /api/mcp`.
+ */
+export function publicApiEndpointLabel(method: string, url: string) {
+  let path = new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+  path = path.startsWith('/api/public/v1') ? path.slice('/api/public/v1'.length) || '/' : path;
+  const segments = path.split('/').map((seg, i, all) => {
+    if (UUID_SEGMENT.test(seg)) return '{id}';
+    if (i === 2 && all[1] === 'boards') return '{boardKeyOrId}';
+    return seg;
+  });
+  return `${method.toUpperCase()} ${segments.join('/')}`;
+}
+
+/** Consome 1 request da cota da key. Falha aberta (libera) se o banco não responder. */
+export async function consumeApiKeyRateLimit(apiKeyId: string, endpoint: string): Promise<ApiKeyRateLimit | null> {
+  try {
+    const sb = createStaticAdminClient();
+    const { data, error } = await sb
+      .rpc('consume_api_key_rate_limit', { p_api_key_id: apiKeyId, p_endpoint: endpoint })
+      .maybeSingle();
+    const row = data as { allowed: boolean; rate_limit: number; remaining: number; retry_after_seconds: number } | null;
+    if (error || !row) return null;
+    return {
+      allowed: !!row.allowed,
+      limit: Number(row.rate_limit) || 0,
+      remaining: Math.max(0, Number(row.remaining) || 0),
+      retryAfterSeconds: Math.max(0, Number(row.retry_after_seconds) || 0),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function rateLimitHeaders(rateLimit: ApiKeyRateLimit | null): Record<string, string> {
+  if (!rateLimit) return {};
+  return {
+    'X-RateLimit-Limit': String(rateLimit.limit),
+    'X-RateLimit-Remaining': String(rateLimit.remaining),
+    ...(rateLimit.allowed ? {} : { 'Retry-After': String(rateLimit.retryAfterSeconds) }),
+  };
+}
+
+/** Chamado por `authPublicApi` quando a key foi identificada (mesmo que a request seja negada depois). */
+export function markPublicApiRequest(request: Request, usage: RequestUsage) {
+  usageByRequest.set(request, usage);
+}
+
+export async function recordApiKeyUsage(apiKeyId: string, endpoint: string, status: number) {
+  try {
+    const sb = createStaticAdminClient();
+    await sb.rpc('record_api_key_usage', { p_api_key_id: apiKeyId, p_endpoint: endpoint, p_status: status });
+  } catch {
+    // métricas são best-effort
+  }
+}
+
+/**
+ * Envolve um route handler da API pública para registrar uso por API key
+ * (e fechar o `Idempotency-Key` reservado pela rota, se houver).
+ * Requests sem key válida (401 antes de identificar a key) não entram nas métricas.
+ *
+ * Chamadas que alteram dados (POST/PATCH/PUT/DELETE) também viram uma entrada em `audit_logs`.
+ * `opts.audit: false` desliga isso para rotas que auditam por conta própria (ex.: `/api/mcp`, por tool).
+ */
+export function withPublicApiUsage<A extends unknown[]>(
+  handler: (request: Request, ...args: A) => Promise<Response>,
+  opts?: { audit?: boolean }
+) {
+  return async (request: Request, ...args: A): Promise<Response> => {
+    // O handler consome o corpo; a cópia é lida em paralelo só para a auditoria.
+    const auditRequestBody =
+      opts?.audit !== false && isAuditedMethod(request.method) && request.body
+        ? request.clone().text().catch(() => null)
+        : null;
+
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (e) {
+      await completeIdempotentRequest(request, null).catch(() => undefined);
+      const usage = usageByRequest.get(request);
+      if (usage) after(() => recordApiKeyUsage(usage.apiKeyId, usage.endpoint, 500));
+      throw e;
+    }
+
+    // Grava antes de responder: um retry logo em seguida já encontra a resposta.
+    await completeIdempotentRequest(request, response).catch(() => undefined);
+
+    const usage = usageByRequest.get(request);
+    if (!usage) return response;
+
+    for (const [name, value] of Object.entries(rateLimitHeaders(usage.rateLimit))) {
+      if (!response.headers.has(name)) response.headers.set(name, value);
+    }
+    after(() => recordApiKeyUsage(usage.apiKeyId, usage.endpoint, response.status));
+
+    // 429 não executou nada (e auditar cada tentativa só encheria a tabela).
+    if (opts?.audit !== false && isAuditedMethod(request.method) && response.status !== 429) {
+      const responseCopy = response.clone();
+      after(async () => {
+        const [requestBody, responseBody] = await Promise.all([
+          auditRequestBody ?? Promise.resolve(null),
+          responseCopy.text().catch(() => null),
+        ]);
+        await recordApiKeyAuditEvent({
+          organizationId: usage.organizationId,
+          apiKeyId: usage.apiKeyId,
+          apiKeyPrefix: usage.apiKeyPrefix,
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get('user-agent'),
+          entry: buildPublicApiAuditEntry({
+            method: request.method,
+            url: request.url,
+            endpoint: usage.endpoint,
+            apiKeyPrefix: usage.apiKeyPrefix,
+            status: response.status,
+            requestBody,
+            responseBody,
+          }),
+        });
+      });
+    }
+    return response;
+  };
+}
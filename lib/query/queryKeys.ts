@@ -37,6 +37,12 @@ export const queryKeys = {
         byDeal: (dealId: string) => [...base.all, 'deal', dealId] as const,
     })),
 
+    // Central de Decisões (ai_decisions)
+    decisions: createExtendedQueryKeys('decisions', base => ({
+        lastRun: () => [...base.all, 'lastRun'] as const,
+        analytics: (days: number, windowDays: number) => [...base.all, 'analytics', days, windowDays] as const,
+    })),
+
     // Dashboard (non-standard structure)
     dashboard: {
         stats: ['dashboard', 'stats'] as const,
@@ -52,7 +52,8 @@ type RealtimeTable =
   | 'activities'
   | 'boards'
   | 'board_stages'
-  | 'crm_companies';
+  | 'crm_companies'
+  | 'ai_decisions';
 
 // Lazy getter for query keys mapping - avoids initialization issues in tests
 const getTableQueryKeys = (table: RealtimeTable): readonly (readonly unknown[])[] => {
@@ -63,6 +64,7 @@ const getTableQueryKeys = (table: RealtimeTable): readonly (readonly unknown[])[
     boards: [queryKeys.boards.all],
     board_stages: [queryKeys.boards.all], // stages invalidate boards
     crm_companies: [queryKeys.companies.all],
+    ai_decisions: [queryKeys.decisions.all],
   };
   return mapping[table];
 };
@@ -3,6 +3,7 @@
  * Persists user interactions with AI suggestions (dismiss, accept, snooze)
  */
 import { supabase } from './client';
+import type { PromptUsage } from '@/lib/ai/prompts/versions';
 
 export type SuggestionAction = 'ACCEPTED' | 'DISMISSED' | 'SNOOZED';
 export type SuggestionType = 'UPSELL' | 'STALLED' | 'BIRTHDAY' | 'RESCUE';
@@ -76,9 +77,10 @@ export const aiSuggestionsService = {
                 entity_id: entityId,
                 action,
                 snoozed_until: snoozedUntil?.toISOString() || null,
+                prompt_key: null,
                 created_at: new Date().toISOString(),
             }, {
-                onConflict: 'user_id,suggestion_type,entity_id',
+                onConflict: 'user_id,suggestion_type,entity_id,prompt_key',
             })
             .select()
             .single();
@@ -86,6 +88,36 @@ export const aiSuggestionsService = {
         return { data, error };
     },
 
+    /**
+     * Record feedback on a prompt output (used/discarded) for the A/B comparison of prompt versions.
+     * One row per user/deal/prompt: the latest feedback wins.
+     */
+    async recordPromptFeedback(prompt: PromptUsage, dealId: string, action: Exclude<SuggestionAction, 'SNOOZED'>) {
+        const sb = supabase;
+        if (!sb) return { error: new Error('Supabase não configurado') };
+
+        const { data: user } = await sb.auth.getUser();
+        if (!user.user) return { error: new Error('Not authenticated') };
+
+        const { error } = await sb
+            .from('ai_suggestion_interactions')
+            .upsert({
+                user_id: user.user.id,
+                suggestion_type: 'PROMPT',
+                entity_type: 'deal',
+                entity_id: dealId,
+                action,
+                snoozed_until: null,
+                prompt_key: prompt.key,
+                prompt_version: prompt.version,
+                created_at: new Date().toISOString(),
+            }, {
+                onConflict: 'user_id,suggestion_type,entity_id,prompt_key',
+            });
+
+        return { error };
+    },
+
     /**
      * Get IDs of suggestions to hide (dismissed or accepted, or snoozed until future)
      */
@@ -0,0 +1,54 @@
+/**
+ * Catálogo de eventos dos webhooks de saída (Follow-up).
+ *
+ * Os nomes espelham os triggers do banco (`notify_*` → `_webhook_emit_event`) e são gravados em
+ * `integration_outbound_endpoints.events`. Todos compartilham o envelope
+ * `{ event_type, occurred_at, deal?, contact?, activity? }`.
+ *
+ * Todo evento também fica disponível no feed `GET /api/public/v1/events` (com ou sem endpoint inscrito).
+ */
+
+export const OUTBOUND_WEBHOOK_EVENT_TYPES = [
+  'deal.stage_changed',
+  'deal.created',
+  'deal.won',
+  'deal.lost',
+  'deal.reopened',
+  'contact.created',
+  'contact.updated',
+  'contact.deleted',
+  'activity.created',
+  'activity.updated',
+  'activity.completed',
+  'activity.deleted',
+] as const;
+
+export type OutboundWebhookEventType = (typeof OUTBOUND_WEBHOOK_EVENT_TYPES)[number];
+
+/** Inscrição padrão de um endpoint novo (compatível com o comportamento original). */
+export const DEFAULT_OUTBOUND_WEBHOOK_EVENTS: OutboundWebhookEventType[] = ['deal.stage_changed'];
+
+export const OUTBOUND_WEBHOOK_EVENTS: ReadonlyArray<{
+  type: OutboundWebhookEventType;
+  label: string;
+  description: string;
+}> = [
+  { type: 'deal.stage_changed', label: 'Mudou de etapa', description: 'Negócio movido para outra etapa do funil.' },
+  { type: 'deal.created', label: 'Negócio criado', description: 'Novo negócio em qualquer board.' },
+  { type: 'deal.won', label: 'Negócio ganho', description: 'Negócio marcado como ganho.' },
+  { type: 'deal.lost', label: 'Negócio perdido', description: 'Negócio marcado como perdido (inclui o motivo da perda).' },
+  { type: 'deal.reopened', label: 'Negócio reaberto', description: 'Negócio ganho/perdido voltou a ficar aberto.' },
+  { type: 'contact.created', label: 'Contato criado', description: 'Novo contato cadastrado.' },
+  { type: 'contact.updated', label: 'Contato atualizado', description: 'Dados do contato editados (lista os campos alterados).' },
+  { type: 'contact.deleted', label: 'Contato excluído', description: 'Contato removido (lixeira).' },
+  { type: 'activity.created', label: 'Atividade criada', description: 'Nova tarefa, ligação, reunião ou nota.' },
+  { type: 'activity.updated', label: 'Atividade atualizada', description: 'Atividade editada (lista os campos alterados).' },
+  { type: 'activity.completed', label: 'Atividade concluída', description: 'Tarefa, ligação ou reunião marcada como concluída.' },
+  { type: 'activity.deleted', label: 'Atividade excluída', description: 'Atividade removida.' },
+];
+
+/** Filtra valores desconhecidos (ex.: eventos removidos) e mantém a ordem do catálogo. */
+export function normalizeOutboundWebhookEvents(events: readonly string[] | null | undefined): OutboundWebhookEventType[] {
+  const selected = new Set(events || []);
+  return OUTBOUND_WEBHOOK_EVENT_TYPES.filter((type) => selected.has(type));
+}
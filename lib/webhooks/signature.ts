@@ -0,0 +1,112 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Assinatura HMAC dos webhooks de saída (Follow-up).
+ *
+ * Cada entrega é enviada com:
+ * - `X-Webhook-Id`: id da entrega (`webhook_deliveries.id`)
+ * - `X-Webhook-Timestamp`: unix timestamp (segundos) do envio
+ * - `X-Webhook-Signature`: `v1=<hex>` = HMAC-SHA256(secret, `${timestamp}.${id}.${rawBody}`)
+ *
+ * O cálculo espelha `_webhook_dispatch_delivery` no banco. Sempre valide sobre o **body cru**
+ * recebido (não re-serialize o JSON, a ordem/espaçamento das chaves muda o hash).
+ */
+
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_SIGNATURE_VERSION = 'v1';
+
+/** Janela padrão aceita entre o envio e a verificação (anti-replay). */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export type WebhookSignatureInput = {
+  secret: string;
+  timestamp: number | string;
+  deliveryId: string;
+  body: string;
+};
+
+export type WebhookVerifyResult =
+  | { ok: true; deliveryId: string; timestamp: number }
+  | {
+      ok: false;
+      reason: 'missing_headers' | 'invalid_timestamp' | 'timestamp_out_of_tolerance' | 'invalid_signature';
+    };
+
+type HeaderBag = Headers | Record<string, string | string[] | null | undefined>;
+
+function readHeader(headers: HeaderBag, name: string): string {
+  if (typeof (headers as Headers).get === 'function') {
+    return ((headers as Headers).get(name) || '').trim();
+  }
+  const bag = headers as Record<string, string | string[] | null | undefined>;
+  const key = Object.keys(bag).find((k) => k.toLowerCase() === name);
+  const value = key ? bag[key] : undefined;
+  return (Array.isArray(value) ? value[0] : value || '').trim();
+}
+
+/**
+ * Calcula a assinatura (hex, sem o prefixo `v1=`) de uma entrega.
+ */
+export function computeWebhookSignature(input: WebhookSignatureInput): string {
+  return createHmac('sha256', input.secret)
+    .update(`${input.timestamp}.${input.deliveryId}.${input.body}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Monta os headers assinados de uma entrega (útil para testes e simuladores de receiver).
+ */
+export function buildWebhookSignatureHeaders(input: WebhookSignatureInput): Record<string, string> {
+  return {
+    'X-Webhook-Id': input.deliveryId,
+    'X-Webhook-Timestamp': String(input.timestamp),
+    'X-Webhook-Signature': `${WEBHOOK_SIGNATURE_VERSION}=${computeWebhookSignature(input)}`,
+  };
+}
+
+/**
+ * Verifica autenticidade e frescor de um webhook recebido do CRM.
+ *
+ * - Compara em tempo constante.
+ * - Rejeita timestamps fora de `toleranceSeconds` (replays antigos).
+ * - Aceita múltiplas assinaturas separadas por vírgula/espaço (rotação de secret).
+ */
+export function verifyWebhookSignature(opts: {
+  secret: string;
+  body: string;
+  headers: HeaderBag;
+  toleranceSeconds?: number;
+  /** Unix timestamp (segundos) de referência. Padrão: agora. */
+  now?: number;
+}): WebhookVerifyResult {
+  const deliveryId = readHeader(opts.headers, WEBHOOK_ID_HEADER);
+  const rawTimestamp = readHeader(opts.headers, WEBHOOK_TIMESTAMP_HEADER);
+  const rawSignature = readHeader(opts.headers, WEBHOOK_SIGNATURE_HEADER);
+  if (!deliveryId || !rawTimestamp || !rawSignature) return { ok: false, reason: 'missing_headers' };
+
+  if (!/^\d+$/.test(rawTimestamp)) return { ok: false, reason: 'invalid_timestamp' };
+  const timestamp = Number(rawTimestamp);
+
+  const tolerance = opts.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const now = opts.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > tolerance) return { ok: false, reason: 'timestamp_out_of_tolerance' };
+
+  const expected = Buffer.from(
+    computeWebhookSignature({ secret: opts.secret, timestamp: rawTimestamp, deliveryId, body: opts.body }),
+    'hex'
+  );
+
+  const candidates = rawSignature
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((part) => part.split('='))
+    .filter(([version, hex]) => version === WEBHOOK_SIGNATURE_VERSION && !!hex && /^[0-9a-f]+$/i.test(hex))
+    .map(([, hex]) => Buffer.from(hex, 'hex'));
+
+  const matches = candidates.some((sig) => sig.length === expected.length && timingSafeEqual(sig, expected));
+  if (!matches) return { ok: false, reason: 'invalid_signature' };
+
+  return { ok: true, deliveryId, timestamp };
+}
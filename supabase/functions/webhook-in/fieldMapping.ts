@@ -0,0 +1,249 @@
+/**
+ * Mapeamento configurável de campos do webhook de entrada.
+ *
+ * Cada fonte (`integration_inbound_sources.field_mapping`) guarda uma lista de regras
+ * "caminho no payload → campo do CRM". O mesmo código roda:
+ * - na Edge Function `webhook-in` (Deno), antes do upsert de contato/deal;
+ * - na UI (Configurações → Webhooks), para testar as regras contra um payload de exemplo.
+ *
+ * Por isso este arquivo é TypeScript puro, sem imports.
+ *
+ * Caminhos (JSONPath simplificado):
+ * - `$.buyer.email` ou `buyer.email` (o `$.` é opcional)
+ * - índices: `items[0].name`
+ * - curinga: `items[*].name` (retorna lista)
+ * - chaves com espaço/ponto: `fields['E-mail do lead']`
+ */
+
+/** Campos "core" do lead que a Edge Function entende. */
+export const INBOUND_CORE_FIELDS = [
+  'external_event_id',
+  'contact_name',
+  'email',
+  'phone',
+  'company_name',
+  'source',
+  'notes',
+  'deal_title',
+  'deal_value',
+] as const;
+
+export type InboundCoreField = (typeof INBOUND_CORE_FIELDS)[number];
+
+export const INBOUND_TAGS_TARGET = 'tags';
+export const INBOUND_CUSTOM_FIELD_PREFIX = 'custom_fields.';
+
+export const INBOUND_MAPPING_TRANSFORMS = ['trim', 'lowercase', 'uppercase', 'digits', 'number', 'split', 'first'] as const;
+
+export type InboundMappingTransform = (typeof INBOUND_MAPPING_TRANSFORMS)[number];
+
+export type InboundFieldMappingRule = {
+  /** Campo do CRM: um de `INBOUND_CORE_FIELDS`, `tags` ou `custom_fields.<key>`. */
+  target: string;
+  /** Caminho no payload. Vazio = usa só `value`. */
+  source?: string;
+  /** Constante (ou fallback quando `source` não encontra nada). */
+  value?: string | number | boolean | null;
+  /** Aplicadas em ordem. */
+  transforms?: InboundMappingTransform[];
+};
+
+export type InboundMappingResult = {
+  fields: Partial<Record<InboundCoreField, string | number>>;
+  tags: string[];
+  customFields: Record<string, unknown>;
+  errors: Array<{ index: number; message: string }>;
+};
+
+type PathToken = { kind: 'key'; key: string } | { kind: 'index'; index: number } | { kind: 'wildcard' };
+
+function tokenizePath(path: string): PathToken[] | null {
+  let rest = path.trim();
+  if (rest === '$') return [];
+  if (rest.startsWith('$')) rest = rest.slice(1);
+
+  const tokens: PathToken[] = [];
+  const re = /^(?:\.?([A-Za-z0-9_$-]+)|\[(\d+)\]|\[\*\]|\.\*|\[(['"])(.*?)\3\])/;
+  while (rest.length > 0) {
+    const m = rest.match(re);
+    if (!m) return null;
+    if (m[1] !== undefined) tokens.push({ kind: 'key', key: m[1] });
+    else if (m[2] !== undefined) tokens.push({ kind: 'index', index: Number(m[2]) });
+    else if (m[4] !== undefined) tokens.push({ kind: 'key', key: m[4] });
+    else tokens.push({ kind: 'wildcard' });
+    rest = rest.slice(m[0].length);
+  }
+  return tokens;
+}
+
+/**
+ * Lê um caminho do payload. Com curinga (`[*]`), retorna a lista (achatada) dos valores encontrados.
+ * Retorna `undefined` quando o caminho não existe e lança erro quando a sintaxe é inválida.
+ */
+export function readPayloadPath(payload: unknown, path: string): unknown {
+  const tokens = tokenizePath(path);
+  if (!tokens) throw new Error(`Caminho inválido: ${path}`);
+
+  let current: unknown[] = [payload];
+  let multi = false;
+
+  for (const token of tokens) {
+    const next: unknown[] = [];
+    for (const node of current) {
+      if (node === null || node === undefined) continue;
+      if (token.kind === 'wildcard') {
+        multi = true;
+        if (Array.isArray(node)) next.push(...node);
+        else if (typeof node === 'object') next.push(...Object.values(node as Record<string, unknown>));
+      } else if (token.kind === 'index') {
+        if (Array.isArray(node) && token.index < node.length) next.push(node[token.index]);
+      } else if (typeof node === 'object' && !Array.isArray(node) && token.key in (node as Record<string, unknown>)) {
+        next.push((node as Record<string, unknown>)[token.key]);
+      }
+    }
+    current = next;
+  }
+
+  if (multi) return current.filter((v) => v !== undefined && v !== null);
+  return current[0];
+}
+
+function parseNumber(v: unknown): number | null {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v !== 'string') return null;
+  const trimmed = v.trim();
+  if (!trimmed) return null;
+  // aceita "1.234,56", "1234,56" e "1234.56"
+  const normalized = trimmed.includes(',') ? trimmed.replace(/\./g, '').replace(',', '.') : trimmed;
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : null;
+}
+
+function applyTransform(value: unknown, transform: InboundMappingTransform): unknown {
+  if (Array.isArray(value)) {
+    if (transform === 'first') return value[0];
+    if (transform === 'split') return value.flatMap((v) => (applyTransform(v, 'split') as unknown[]) ?? []);
+    return value.map((v) => applyTransform(v, transform));
+  }
+  if (value === null || value === undefined) return value;
+
+  switch (transform) {
+    case 'trim':
+      return typeof value === 'string' ? value.trim() : value;
+    case 'lowercase':
+      return typeof value === 'string' ? value.toLowerCase() : value;
+    case 'uppercase':
+      return typeof value === 'string' ? value.toUpperCase() : value;
+    case 'digits':
+      return String(value).replace(/\D+/g, '');
+    case 'number':
+      return parseNumber(value);
+    case 'split':
+      return String(value)
+        .split(/[,;]/)
+        .map((s) => s.trim())
+        .filter(Boolean);
+    case 'first':
+      return value;
+  }
+}
+
+function isEmpty(value: unknown) {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function toScalar(value: unknown): string | number | null {
+  if (Array.isArray(value)) return toScalar(value[0]);
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') return value.trim() || null;
+  if (value && typeof value === 'object') return JSON.stringify(value);
+  return null;
+}
+
+/**
+ * Valida/limpa regras vindas do banco ou da UI (ignora entradas malformadas).
+ */
+export function normalizeInboundFieldMapping(raw: unknown): InboundFieldMappingRule[] {
+  if (!Array.isArray(raw)) return [];
+  const rules: InboundFieldMappingRule[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const r = item as Record<string, unknown>;
+    const target = typeof r.target === 'string' ? r.target.trim() : '';
+    if (!isValidInboundTarget(target)) continue;
+
+    const source = typeof r.source === 'string' && r.source.trim() ? r.source.trim() : undefined;
+    const value =
+      typeof r.value === 'string' || typeof r.value === 'number' || typeof r.value === 'boolean' ? r.value : undefined;
+    if (source === undefined && (value === undefined || value === '')) continue;
+
+    const transforms = Array.isArray(r.transforms)
+      ? (r.transforms.filter((t) => (INBOUND_MAPPING_TRANSFORMS as readonly unknown[]).includes(t)) as InboundMappingTransform[])
+      : [];
+
+    rules.push({ target, ...(source ? { source } : {}), ...(value !== undefined ? { value } : {}), ...(transforms.length ? { transforms } : {}) });
+  }
+  return rules;
+}
+
+export function isValidInboundTarget(target: string) {
+  if ((INBOUND_CORE_FIELDS as readonly string[]).includes(target)) return true;
+  if (target === INBOUND_TAGS_TARGET) return true;
+  return target.startsWith(INBOUND_CUSTOM_FIELD_PREFIX) && /^[A-Za-z0-9_-]+$/.test(target.slice(INBOUND_CUSTOM_FIELD_PREFIX.length));
+}
+
+/**
+ * Aplica as regras sobre o payload recebido.
+ *
+ * - Campos core: a última regra com valor vence.
+ * - `tags`: acumula (aceita lista ou texto separado por vírgula com o transform `split`).
+ * - `custom_fields.<key>`: grava o valor (escalares; listas viram a lista).
+ */
+export function applyInboundFieldMapping(payload: unknown, rules: InboundFieldMappingRule[]): InboundMappingResult {
+  const result: InboundMappingResult = { fields: {}, tags: [], customFields: {}, errors: [] };
+
+  rules.forEach((rule, index) => {
+    let value: unknown;
+    if (rule.source) {
+      try {
+        value = readPayloadPath(payload, rule.source);
+      } catch (e) {
+        result.errors.push({ index, message: (e as Error).message });
+        return;
+      }
+    }
+    if (isEmpty(value) && rule.value !== undefined && rule.value !== null) value = rule.value;
+
+    for (const t of rule.transforms ?? []) value = applyTransform(value, t);
+    if (isEmpty(value)) return;
+
+    if (rule.target === INBOUND_TAGS_TARGET) {
+      const list = Array.isArray(value) ? value : [value];
+      for (const tag of list) {
+        const s = toScalar(tag);
+        if (s !== null && !result.tags.includes(String(s))) result.tags.push(String(s));
+      }
+      return;
+    }
+
+    if (rule.target.startsWith(INBOUND_CUSTOM_FIELD_PREFIX)) {
+      const key = rule.target.slice(INBOUND_CUSTOM_FIELD_PREFIX.length);
+      result.customFields[key] = Array.isArray(value) ? value.map(toScalar).filter((v) => v !== null) : toScalar(value);
+      return;
+    }
+
+    const target = rule.target as InboundCoreField;
+    const scalar = target === 'deal_value' ? parseNumber(toScalar(value)) : toScalar(value);
+    if (scalar === null) {
+      if (target === 'deal_value') result.errors.push({ index, message: `Valor não numérico para ${target}` });
+      return;
+    }
+    result.fields[target] = target === 'deal_value' ? scalar : String(scalar);
+  });
+
+  return result;
+}
@@ -12,12 +12,38 @@
  * - Aceita **um** destes formatos:
  *   - Header `X-Webhook-Secret: <secret>`
  *   - Header `Authorization: Bearer <secret>`
+ *   - Query `?token=<secret>`: só em fontes com o preset RD Station (não permite headers personalizados)
  *   O valor deve bater com o `secret` da fonte em `integration_inbound_sources`.
+ * - Fontes com `provider` (Hotmart/Kiwify/Eduzz) também aceitam a assinatura nativa da plataforma,
+ *   validada com `provider_secret` (ver `providers.ts`).
+ *
+ * Presets de provedor:
+ * - `integration_inbound_sources.provider` escolhe o adapter que entende o payload nativo da plataforma,
+ *   usa o id do evento como `external_event_id` e decide a ação: upsert do lead, compra (deal ganho)
+ *   ou reembolso/chargeback (deal perdido). Eventos sem interesse ficam como `ignored`.
+ *
+ * Mapeamento de campos:
+ * - Se a fonte tiver regras em `field_mapping` (ver `fieldMapping.ts`), elas são aplicadas sobre o JSON
+ *   recebido e têm prioridade sobre os aliases fixos de `LeadPayload` (que continuam como fallback).
+ * - Regras também podem preencher `tags` e `custom_fields.<key>` do deal.
+ *
+ * Auditoria / replay:
+ * - Todo envio vira uma linha em `webhook_events_in` (status `received` → `processed` | `failed`).
+ * - Header `X-Webhook-Replay-Of: <webhook_events_in.id>` reprocessa o payload gravado daquele evento
+ *   (o body é ignorado). Usado pelo log de entregas em Configurações → Webhooks.
  *
  * Observação:
  * - Este handler usa `SUPABASE_SERVICE_ROLE_KEY` (segredo padrão do Supabase) e ignora RLS.
  */
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { applyInboundFieldMapping, normalizeInboundFieldMapping } from "./fieldMapping.ts";
+import {
+  acceptsQueryToken,
+  isInboundProvider,
+  normalizeProviderEvent,
+  verifyProviderSignature,
+  type InboundProvider,
+} from "./providers.ts";
 
 type LeadPayload = {
   /**
@@ -61,7 +87,7 @@ const corsHeaders = {
   // faz um preflight (OPTIONS), especialmente com JSON/headers custom.
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, X-Webhook-Secret, Authorization",
+  "Access-Control-Allow-Headers": "Content-Type, X-Webhook-Secret, X-Webhook-Replay-Of, X-Hotmart-Hottok, X-Signature, Authorization",
   // Ajuda no debug/observabilidade
   "Access-Control-Max-Age": "86400",
 };
@@ -88,7 +114,7 @@ function normalizePhone(phone?: string) {
   return cleaned || null;
 }
 
-function getSecretFromRequest(req: Request) {
+function getSecretFromRequest(req: Request, provider: InboundProvider) {
   const xSecret = req.headers.get("X-Webhook-Secret") || "";
   if (xSecret.trim()) return xSecret.trim();
 
@@ -96,7 +122,9 @@ function getSecretFromRequest(req: Request) {
   const m = auth.match(/^Bearer\s+(.+)$/i);
   if (m && m[1]) return m[1].trim();
 
-  return "";
+  if (!acceptsQueryToken(provider)) return "";
+  const token = new URL(req.url).searchParams.get("token") || "";
+  return token.trim();
 }
 
 function toNullableString(v: unknown) {
@@ -164,9 +192,6 @@ Deno.serve(async (req) => {
   const sourceId = getSourceIdFromPath(req);
   if (!sourceId) return json(404, { error: "source_id ausente na URL" });
 
-  const secretHeader = getSecretFromRequest(req);
-  if (!secretHeader) return json(401, { error: "Secret ausente" });
-
   // Prefer custom secrets (installer-managed) to avoid reserved `SUPABASE_` prefix restrictions.
   // Fallback to Supabase-provided envs when available.
   const supabaseUrl = Deno.env.get("CRM_SUPABASE_URL") ?? Deno.env.get("SUPABASE_URL");
@@ -181,69 +206,155 @@ Deno.serve(async (req) => {
 
   const { data: source, error: sourceErr } = await supabase
     .from("integration_inbound_sources")
-    .select("id, organization_id, entry_board_id, entry_stage_id, secret, active")
+    .select("id, organization_id, entry_board_id, entry_stage_id, secret, active, field_mapping, provider, provider_secret")
     .eq("id", sourceId)
     .maybeSingle();
 
   if (sourceErr) return json(500, { error: "Erro ao buscar fonte", details: sourceErr.message });
   if (!source || !source.active) return json(404, { error: "Fonte não encontrada/inativa" });
-  if (String(source.secret) !== String(secretHeader)) return json(401, { error: "Secret inválido" });
 
-  let payload: LeadPayload;
-  try {
-    payload = (await req.json()) as LeadPayload;
-  } catch {
-    return json(400, { error: "JSON inválido" });
+  const provider = isInboundProvider(source.provider) ? source.provider : "generic";
+  const secretHeader = getSecretFromRequest(req, provider);
+  const rawBody = await req.text();
+
+  // Nosso secret sempre vale (UI/replay/n8n); a assinatura nativa só para fontes com provider.
+  const authorized =
+    (!!secretHeader && String(source.secret) === String(secretHeader)) ||
+    (await verifyProviderSignature(provider, {
+      providerSecret: source.provider_secret ?? null,
+      headers: req.headers,
+      url: new URL(req.url),
+      rawBody,
+    }));
+  if (!authorized) return json(401, { error: secretHeader ? "Secret inválido" : "Secret ausente" });
+
+  const replayOf = req.headers.get("X-Webhook-Replay-Of")?.trim() || null;
+
+  let rawPayload: Record<string, unknown>;
+  let auditId: string | null = null;
+
+  if (replayOf) {
+    const { data: original, error: originalErr } = await supabase
+      .from("webhook_events_in")
+      .select("id, payload")
+      .eq("id", replayOf)
+      .eq("source_id", source.id)
+      .maybeSingle();
+
+    if (originalErr) return json(500, { error: "Erro ao buscar evento", details: originalErr.message });
+    if (!original) return json(404, { error: "Evento para reprocessar não encontrado" });
+
+    rawPayload = (original.payload ?? {}) as Record<string, unknown>;
+    auditId = original.id as string;
+  } else {
+    try {
+      const isForm = (req.headers.get("Content-Type") || "").includes("application/x-www-form-urlencoded");
+      rawPayload = isForm
+        ? Object.fromEntries(new URLSearchParams(rawBody))
+        : (JSON.parse(rawBody) as Record<string, unknown>);
+    } catch {
+      return json(400, { error: "JSON inválido" });
+    }
   }
 
+  // Ordem de prioridade: regras da fonte > preset do provedor > aliases de LeadPayload.
+  const providerEvent = normalizeProviderEvent(provider, rawPayload);
+  const mapping = applyInboundFieldMapping(rawPayload, normalizeInboundFieldMapping(source.field_mapping));
+  const payload = {
+    ...rawPayload,
+    ...(providerEvent?.lead ?? {}),
+    ...(providerEvent?.eventId ? { external_event_id: providerEvent.eventId } : {}),
+    ...mapping.fields,
+  } as LeadPayload;
+  const dealTags = [...(providerEvent?.tags ?? []), ...mapping.tags];
+  const orderId = providerEvent?.orderId ?? null;
+
+  /** Marca o evento como `failed` (best-effort) e responde com o erro. */
+  const fail = async (status: number, body: { error: string; details?: string }) => {
+    if (auditId) {
+      await supabase
+        .from("webhook_events_in")
+        .update({ status: "failed", error: body.details ? `${body.error}: ${body.details}` : body.error })
+        .eq("id", auditId);
+    }
+    return json(status, body);
+  };
+
   const leadName = getContactName(payload);
   const leadEmail = payload.email?.trim()?.toLowerCase() || null;
   const leadPhone = normalizePhone(payload.phone || undefined);
-  const externalEventId = payload.external_event_id?.trim() || null;
+  const externalEventId = toNullableString(String(payload.external_event_id ?? ""));
   const companyName = getCompanyName(payload);
   const dealTitleFromPayload = getDealTitle(payload);
   const dealValue = getDealValue(payload);
 
   // 1) Auditoria/dedupe (idempotente quando external_event_id existe)
-  if (externalEventId) {
-    const { error: insertEventErr } = await supabase
+  if (replayOf) {
+    await supabase
+      .from("webhook_events_in")
+      .update({ status: "received", error: null })
+      .eq("id", auditId);
+  } else {
+    const { data: insertedEvent, error: insertEventErr } = await supabase
       .from("webhook_events_in")
       .insert({
         organization_id: source.organization_id,
         source_id: source.id,
-        provider: payload.source || "generic",
+        provider: provider !== "generic" ? provider : payload.source || "generic",
         external_event_id: externalEventId,
-        payload: payload as unknown as Record<string, unknown>,
+        payload: rawPayload,
         status: "received",
-      });
+      })
+      .select("id")
+      .single();
+
+    if (!insertEventErr) auditId = (insertedEvent as any)?.id ?? null;
 
     // Unique violation (dedupe) -> retorna ids já processados (idempotência)
     if (insertEventErr) {
       const msg = String(insertEventErr.message).toLowerCase();
-      if (!msg.includes("duplicate")) {
+      if (!externalEventId || !msg.includes("duplicate")) {
         return json(500, { error: "Falha ao registrar evento", details: insertEventErr.message });
       }
 
       const { data: existingEvent, error: existingEventErr } = await supabase
         .from("webhook_events_in")
-        .select("created_contact_id, created_deal_id, status")
+        .select("id, created_contact_id, created_deal_id, status")
         .eq("source_id", source.id)
         .eq("external_event_id", externalEventId)
         .maybeSingle();
 
-      if (!existingEventErr && existingEvent?.created_deal_id) {
+      if (!existingEventErr && (existingEvent?.created_deal_id || existingEvent?.status === "ignored")) {
         return json(200, {
           ok: true,
           duplicate: true,
           message: "Recebido! Esse envio já tinha sido processado (não duplicamos nada).",
           organization_id: source.organization_id,
           contact_id: existingEvent.created_contact_id ?? null,
-          deal_id: existingEvent.created_deal_id,
+          deal_id: existingEvent.created_deal_id ?? null,
           status: existingEvent.status ?? "processed",
         });
       }
       // se ainda não tem IDs gravados, seguimos o fluxo (best-effort)
+      auditId = (existingEvent as any)?.id ?? null;
+    }
+  }
+
+  // 1.1) Evento do provedor sem efeito no funil (ex.: assinatura renovada): só audita
+  if (providerEvent?.action === "ignore") {
+    if (auditId) {
+      await supabase
+        .from("webhook_events_in")
+        .update({ status: "ignored", error: null })
+        .eq("id", auditId);
     }
+    return json(200, {
+      ok: true,
+      ignored: true,
+      message: `Recebido! O evento ${providerEvent.eventName ?? "(sem nome)"} não altera o funil.`,
+      organization_id: source.organization_id,
+      event_id: auditId,
+    });
   }
 
   // 2) Upsert de contato (por email e/ou telefone)
@@ -302,7 +413,7 @@ Deno.serve(async (req) => {
       .or(filters.join(","))
       .limit(1);
 
-    if (findErr) return json(500, { error: "Falha ao buscar contato", details: findErr.message });
+    if (findErr) return fail(500, { error: "Falha ao buscar contato", details: findErr.message });
 
     if (existingContacts && existingContacts.length > 0) {
       const existing = existingContacts[0];
@@ -322,7 +433,7 @@ Deno.serve(async (req) => {
           .from("contacts")
           .update(updates)
           .eq("id", contactId);
-        if (updErr) return json(500, { error: "Falha ao atualizar contato", details: updErr.message });
+        if (updErr) return fail(500, { error: "Falha ao atualizar contato", details: updErr.message });
         contactAction = "updated";
       } else {
         contactAction = "none";
@@ -343,24 +454,46 @@ Deno.serve(async (req) => {
         .select("id")
         .single();
 
-      if (createErr) return json(500, { error: "Falha ao criar contato", details: createErr.message });
+      if (createErr) return fail(500, { error: "Falha ao criar contato", details: createErr.message });
       contactId = created?.id ?? null;
       if (contactId) contactAction = "created";
     }
   }
 
   // 3) Deal (cadastro/upsert):
+  // - Pedido já conhecido (provider com order id): atualiza o mesmo deal, mesmo se já ganho/perdido (ex.: reembolso).
   // - Se já existir um deal "em aberto" do mesmo contato no mesmo board, atualiza em vez de criar outro.
   // - Se não existir (ou não tiver contato), cria.
   const dealTitle = dealTitleFromPayload || leadName || leadEmail || leadPhone || "Novo Lead";
 
   let dealId: string | null = null;
+  let dealBoardId: string = source.entry_board_id;
   let dealAction: "created" | "updated" = "created";
 
-  if (contactId) {
-    const { data: existingDeal, error: findDealErr } = await supabase
+  const dealColumns = "id, board_id, stage_id, is_won, is_lost, tags, custom_fields";
+  let existingDeal: Record<string, any> | null = null;
+
+  if (orderId) {
+    const { data: orderDeal, error: orderDealErr } = await supabase
+      .from("deals")
+      .select(dealColumns)
+      .eq("organization_id", source.organization_id)
+      .is("deleted_at", null)
+      .eq("custom_fields->>inbound_order_id", orderId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (orderDealErr) {
+      return fail(500, { error: "Falha ao buscar deal do pedido", details: orderDealErr.message });
+    }
+    existingDeal = orderDeal;
+  }
+
+  if (!existingDeal && contactId) {
+    const { data: openDeal, error: findDealErr } = await supabase
       .from("deals")
-      .select("id, stage_id, is_won, is_lost")
+      .select(dealColumns)
       .eq("organization_id", source.organization_id)
       .eq("board_id", source.entry_board_id)
       .eq("contact_id", contactId)
@@ -371,35 +504,44 @@ Deno.serve(async (req) => {
       .maybeSingle();
 
     if (findDealErr) {
-      return json(500, { error: "Falha ao buscar deal existente", details: findDealErr.message });
+      return fail(500, { error: "Falha ao buscar deal existente", details: findDealErr.message });
     }
+    existingDeal = openDeal;
+  }
 
-    if (existingDeal?.id) {
-      dealId = existingDeal.id as string;
-      dealAction = "updated";
+  if (existingDeal?.id) {
+    dealId = existingDeal.id as string;
+    dealBoardId = existingDeal.board_id as string;
+    dealAction = "updated";
 
-      const updates: Record<string, unknown> = {
-        title: dealTitle,
-        updated_at: new Date().toISOString(),
-      };
-      if (dealValue !== null) updates.value = dealValue;
-      if (clientCompanyId) updates.client_company_id = clientCompanyId;
+    const updates: Record<string, unknown> = {
+      title: dealTitle,
+      updated_at: new Date().toISOString(),
+    };
+    if (dealValue !== null) updates.value = dealValue;
+    if (clientCompanyId) updates.client_company_id = clientCompanyId;
 
-      // mantém stage atual (não “puxa” de volta pro stage de entrada)
-      // apenas carimba metadados do inbound
-      updates.custom_fields = {
-        inbound_source_id: source.id,
-        inbound_external_event_id: externalEventId,
-        inbound_company_name: companyName,
-      };
+    if (dealTags.length > 0) {
+      updates.tags = Array.from(new Set([...((existingDeal.tags as string[] | null) ?? []), ...dealTags]));
+    }
 
-      const { error: updDealErr } = await supabase
-        .from("deals")
-        .update(updates)
-        .eq("id", dealId);
+    // mantém stage atual (não “puxa” de volta pro stage de entrada)
+    // apenas carimba metadados do inbound (preservando os custom fields já preenchidos)
+    updates.custom_fields = {
+      ...((existingDeal.custom_fields as Record<string, unknown> | null) ?? {}),
+      ...mapping.customFields,
+      inbound_source_id: source.id,
+      inbound_external_event_id: externalEventId,
+      inbound_company_name: companyName,
+      ...(orderId ? { inbound_order_id: orderId } : {}),
+    };
+
+    const { error: updDealErr } = await supabase
+      .from("deals")
+      .update(updates)
+      .eq("id", dealId);
 
-      if (updDealErr) return json(500, { error: "Falha ao atualizar deal", details: updDealErr.message });
-    }
+    if (updDealErr) return fail(500, { error: "Falha ao atualizar deal", details: updDealErr.message });
   }
 
   if (!dealId) {
@@ -416,46 +558,82 @@ Deno.serve(async (req) => {
         contact_id: contactId,
         client_company_id: clientCompanyId,
         last_stage_change_date: new Date().toISOString(),
-        tags: ["Novo"],
+        tags: Array.from(new Set(["Novo", ...dealTags])),
         custom_fields: {
+          ...mapping.customFields,
           inbound_source_id: source.id,
           inbound_external_event_id: externalEventId,
           inbound_company_name: companyName,
+          ...(orderId ? { inbound_order_id: orderId } : {}),
         },
       })
       .select("id")
       .single();
 
-    if (dealErr) return json(500, { error: "Falha ao criar deal", details: dealErr.message });
+    if (dealErr) return fail(500, { error: "Falha ao criar deal", details: dealErr.message });
     dealId = createdDeal?.id ?? null;
     dealAction = "created";
   }
 
+  // 4) Compra / reembolso do provedor: fecha o deal (e move para a etapa de ganho/perda do board, se houver)
+  let dealOutcome: "won" | "lost" | null = null;
+  if (dealId && (providerEvent?.action === "won" || providerEvent?.action === "lost")) {
+    dealOutcome = providerEvent.action;
+    const { data: board } = await supabase
+      .from("boards")
+      .select("won_stage_id, lost_stage_id")
+      .eq("id", dealBoardId)
+      .maybeSingle();
+
+    const now = new Date().toISOString();
+    const closeUpdates: Record<string, unknown> =
+      dealOutcome === "won"
+        ? { is_won: true, is_lost: false, closed_at: now, updated_at: now }
+        : { is_won: false, is_lost: true, loss_reason: providerEvent.lossReason, closed_at: now, updated_at: now };
+    const closeStageId = dealOutcome === "won" ? board?.won_stage_id : board?.lost_stage_id;
+    if (closeStageId) {
+      closeUpdates.stage_id = closeStageId;
+      closeUpdates.last_stage_change_date = now;
+    }
+
+    const { error: closeErr } = await supabase.from("deals").update(closeUpdates).eq("id", dealId);
+    if (closeErr) return fail(500, { error: "Falha ao fechar deal", details: closeErr.message });
+  }
+
   // Atualiza auditoria (best-effort)
-  if (externalEventId) {
+  if (auditId) {
     await supabase
       .from("webhook_events_in")
       .update({
         status: "processed",
+        error: null,
         created_contact_id: contactId,
         created_deal_id: dealId,
       })
-      .eq("source_id", source.id)
-      .eq("external_event_id", externalEventId);
+      .eq("id", auditId);
   }
 
   return json(200, {
     ok: true,
     message:
-      dealAction === "updated"
-        ? "Recebido! Atualizamos o negócio existente com os dados mais recentes."
-        : "Recebido! Criamos um novo negócio no funil configurado.",
+      dealOutcome === "won"
+        ? "Recebido! Compra confirmada: negócio marcado como ganho."
+        : dealOutcome === "lost"
+          ? `Recebido! Negócio marcado como perdido (${providerEvent?.lossReason ?? "sem motivo"}).`
+          : dealAction === "updated"
+            ? "Recebido! Atualizamos o negócio existente com os dados mais recentes."
+            : "Recebido! Criamos um novo negócio no funil configurado.",
     action: {
       contact: contactAction,
       company: companyAction,
       deal: dealAction,
+      ...(dealOutcome ? { outcome: dealOutcome } : {}),
     },
+    ...(providerEvent ? { provider, provider_event: providerEvent.eventName } : {}),
     organization_id: source.organization_id,
+    event_id: auditId,
+    replayed: !!replayOf,
+    ...(mapping.errors.length > 0 ? { mapping_errors: mapping.errors } : {}),
     contact_id: contactId,
     deal_id: dealId,
   });
@@ -0,0 +1,322 @@
+/**
+ * Presets de provedores para o webhook de entrada (Hotmart, Kiwify, Eduzz, RD Station).
+ *
+ * Cada adapter:
+ * - valida a assinatura nativa da plataforma (quando ela não permite mandar o nosso `X-Webhook-Secret`);
+ * - traduz o payload nativo para os campos do lead (`contact_name`, `email`, `deal_value`...);
+ * - classifica o evento em uma ação do CRM: `upsert` (lead/carrinho), `won` (compra), `lost` (reembolso/chargeback)
+ *   ou `ignore` (eventos que não interessam ao funil);
+ * - devolve o id do evento na plataforma para o dedupe de `webhook_events_in.external_event_id`.
+ *
+ * Assim como `fieldMapping.ts`, é TypeScript puro (roda no Deno e nos testes/UI do app).
+ */
+
+export const INBOUND_PROVIDERS = ['generic', 'hotmart', 'kiwify', 'eduzz', 'rdstation'] as const;
+
+export type InboundProvider = (typeof INBOUND_PROVIDERS)[number];
+
+export type InboundProviderAction = 'upsert' | 'won' | 'lost' | 'ignore';
+
+export type InboundProviderEvent = {
+  provider: InboundProvider;
+  /** Nome do evento na plataforma (ex.: `PURCHASE_APPROVED`). */
+  eventName: string | null;
+  /** Id único do evento (dedupe). */
+  eventId: string | null;
+  /** Id do pedido/transação: liga compra → reembolso ao mesmo deal. */
+  orderId: string | null;
+  action: InboundProviderAction;
+  lossReason: string | null;
+  /** Campos core do lead (mesmas chaves de `INBOUND_CORE_FIELDS`). */
+  lead: Record<string, string | number>;
+  tags: string[];
+};
+
+const PROVIDER_TAGS: Record<Exclude<InboundProvider, 'generic'>, string> = {
+  hotmart: 'Hotmart',
+  kiwify: 'Kiwify',
+  eduzz: 'Eduzz',
+  rdstation: 'RD Station',
+};
+
+const ABANDONED_CART_TAG = 'Carrinho abandonado';
+
+export function isInboundProvider(value: unknown): value is InboundProvider {
+  return typeof value === 'string' && (INBOUND_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * `?token=<secret>` na URL só vale para o RD Station (não permite headers personalizados).
+ * Nas outras fontes a URL vai parar em logs de proxy/plataforma: o secret precisa vir em header.
+ */
+export function acceptsQueryToken(provider: InboundProvider) {
+  return provider === 'rdstation';
+}
+
+function get(obj: unknown, path: string): unknown {
+  let current: unknown = obj;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current) && /^\d+$/.test(key)) current = current[Number(key)];
+    else if (typeof current === 'object') current = (current as Record<string, unknown>)[key];
+    else return undefined;
+  }
+  return current;
+}
+
+function str(...values: unknown[]): string | null {
+  for (const v of values) {
+    if (typeof v === 'string' && v.trim()) return v.trim();
+    if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  }
+  return null;
+}
+
+function num(value: unknown, divisor = 1): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n / divisor : null;
+}
+
+function compact(lead: Record<string, string | number | null>): Record<string, string | number> {
+  const out: Record<string, string | number> = {};
+  for (const [k, v] of Object.entries(lead)) if (v !== null && v !== '') out[k] = v;
+  return out;
+}
+
+function withEventSuffix(base: string | null, eventName: string | null) {
+  return base && eventName ? `${base}:${eventName}` : base;
+}
+
+type Classified = { action: InboundProviderAction; lossReason?: string; abandoned?: boolean };
+
+function classifyHotmart(event: string): Classified {
+  switch (event) {
+    case 'PURCHASE_APPROVED':
+    case 'PURCHASE_COMPLETE':
+      return { action: 'won' };
+    case 'PURCHASE_REFUNDED':
+      return { action: 'lost', lossReason: 'Reembolso' };
+    case 'PURCHASE_CHARGEBACK':
+      return { action: 'lost', lossReason: 'Chargeback' };
+    case 'PURCHASE_CANCELED':
+      return { action: 'lost', lossReason: 'Compra cancelada' };
+    case 'PURCHASE_EXPIRED':
+      return { action: 'lost', lossReason: 'Pagamento expirado' };
+    case 'PURCHASE_OUT_OF_SHOPPING_CART':
+      return { action: 'upsert', abandoned: true };
+    case 'PURCHASE_BILLET_PRINTED':
+    case 'PURCHASE_DELAYED':
+    case 'PURCHASE_PROTEST':
+      return { action: 'upsert' };
+    default:
+      return { action: 'ignore' };
+  }
+}
+
+function classifyKiwify(event: string): Classified {
+  switch (event) {
+    case 'order_approved':
+    case 'paid':
+      return { action: 'won' };
+    case 'order_refunded':
+    case 'refunded':
+      return { action: 'lost', lossReason: 'Reembolso' };
+    case 'chargeback':
+    case 'chargedback':
+      return { action: 'lost', lossReason: 'Chargeback' };
+    case 'order_rejected':
+    case 'refused':
+      return { action: 'lost', lossReason: 'Pagamento recusado' };
+    case 'abandoned_cart':
+      return { action: 'upsert', abandoned: true };
+    case 'billet_created':
+    case 'pix_created':
+    case 'waiting_payment':
+      return { action: 'upsert' };
+    default:
+      return { action: 'ignore' };
+  }
+}
+
+function classifyEduzz(event: string): Classified {
+  switch (event.replace(/^myeduzz\./, '')) {
+    case 'invoice_paid':
+      return { action: 'won' };
+    case 'invoice_refunded':
+      return { action: 'lost', lossReason: 'Reembolso' };
+    case 'invoice_canceled':
+      return { action: 'lost', lossReason: 'Fatura cancelada' };
+    case 'invoice_expired':
+      return { action: 'lost', lossReason: 'Fatura expirada' };
+    case 'cart_abandonment':
+      return { action: 'upsert', abandoned: true };
+    case 'invoice_opened':
+    case 'invoice_waiting_payment':
+      return { action: 'upsert' };
+    default:
+      return { action: 'ignore' };
+  }
+}
+
+function build(
+  provider: Exclude<InboundProvider, 'generic'>,
+  eventName: string | null,
+  eventId: string | null,
+  orderId: string | null,
+  classified: Classified,
+  lead: Record<string, string | number | null>,
+  extraTags: string[] = []
+): InboundProviderEvent {
+  const tags = [PROVIDER_TAGS[provider], ...(classified.abandoned ? [ABANDONED_CART_TAG] : []), ...extraTags];
+  return {
+    provider,
+    eventName,
+    eventId,
+    orderId,
+    action: classified.action,
+    lossReason: classified.lossReason ?? null,
+    lead: compact({ source: provider, ...lead }),
+    tags: Array.from(new Set(tags.filter(Boolean))),
+  };
+}
+
+/**
+ * Traduz o payload nativo da plataforma. Retorna `null` para `generic` (fluxo padrão).
+ */
+export function normalizeProviderEvent(provider: InboundProvider, payload: unknown): InboundProviderEvent | null {
+  if (provider === 'hotmart') {
+    const eventName = str(get(payload, 'event'));
+    const orderId = str(get(payload, 'data.purchase.transaction'));
+    return build(
+      'hotmart',
+      eventName,
+      str(get(payload, 'id')) ?? withEventSuffix(orderId, eventName),
+      orderId,
+      classifyHotmart(eventName ?? ''),
+      {
+        contact_name: str(get(payload, 'data.buyer.name')),
+        email: str(get(payload, 'data.buyer.email')),
+        phone: str(get(payload, 'data.buyer.checkout_phone'), get(payload, 'data.buyer.phone')),
+        deal_title: str(get(payload, 'data.product.name')),
+        deal_value: num(get(payload, 'data.purchase.price.value')),
+      }
+    );
+  }
+
+  if (provider === 'kiwify') {
+    const isCart = get(payload, 'status') === 'abandoned' || (!get(payload, 'order_id') && !!get(payload, 'checkout_link'));
+    const eventName = isCart
+      ? 'abandoned_cart'
+      : str(get(payload, 'webhook_event_type'), get(payload, 'order_status'));
+    const orderId = str(get(payload, 'order_id'));
+    return build(
+      'kiwify',
+      eventName,
+      withEventSuffix(orderId ?? str(get(payload, 'id')), eventName),
+      orderId,
+      classifyKiwify(eventName ?? ''),
+      {
+        contact_name: str(get(payload, 'Customer.full_name'), get(payload, 'name')),
+        email: str(get(payload, 'Customer.email'), get(payload, 'email')),
+        phone: str(get(payload, 'Customer.mobile'), get(payload, 'phone')),
+        deal_title: str(get(payload, 'Product.product_name'), get(payload, 'product_name')),
+        // Kiwify envia valores em centavos
+        deal_value: num(get(payload, 'Commissions.charge_amount'), 100),
+      }
+    );
+  }
+
+  if (provider === 'eduzz') {
+    const eventName = str(get(payload, 'event'));
+    const orderId = str(get(payload, 'data.id'));
+    return build(
+      'eduzz',
+      eventName,
+      str(get(payload, 'id')) ?? withEventSuffix(orderId, eventName),
+      orderId,
+      classifyEduzz(eventName ?? ''),
+      {
+        contact_name: str(get(payload, 'data.buyer.name')),
+        email: str(get(payload, 'data.buyer.email')),
+        phone: str(get(payload, 'data.buyer.cellphone'), get(payload, 'data.buyer.phone')),
+        deal_title: str(get(payload, 'data.items.0.name'), get(payload, 'data.product.name')),
+        deal_value: num(get(payload, 'data.price.value') ?? get(payload, 'data.paid.value')),
+      }
+    );
+  }
+
+  if (provider === 'rdstation') {
+    // RD Station Marketing envia `{ leads: [...] }` (conversão ou marcação como oportunidade).
+    const lead = get(payload, 'leads.0');
+    if (!lead) return build('rdstation', null, null, null, { action: 'ignore' }, {});
+    const isOpportunity = String(get(lead, 'opportunity')) === 'true';
+    const eventName = isOpportunity ? 'opportunity' : 'conversion';
+    const leadId = str(get(lead, 'uuid'), get(lead, 'id'));
+    const convertedAt = str(get(lead, 'last_conversion.created_at'));
+    const conversion = str(get(lead, 'last_conversion.content.identificador'), get(lead, 'first_conversion.content.identificador'));
+    const rdTags = Array.isArray(get(lead, 'tags')) ? (get(lead, 'tags') as unknown[]).map((t) => str(t)).filter(Boolean) : [];
+    return build(
+      'rdstation',
+      eventName,
+      leadId && convertedAt ? `${leadId}:${eventName}:${convertedAt}` : null,
+      null,
+      { action: 'upsert' },
+      {
+        contact_name: str(get(lead, 'name')),
+        email: str(get(lead, 'email')),
+        phone: str(get(lead, 'mobile_phone'), get(lead, 'personal_phone')),
+        company_name: str(get(lead, 'company')),
+        deal_title: conversion,
+      },
+      [...(rdTags as string[]), ...(isOpportunity ? ['Oportunidade'] : [])]
+    );
+  }
+
+  return null;
+}
+
+function timingSafeEqualString(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+async function hmacHex(algorithm: 'SHA-1' | 'SHA-256', secret: string, body: string) {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  const sig = await crypto.subtle.sign('HMAC', key, enc.encode(body));
+  return Array.from(new Uint8Array(sig))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Valida a assinatura nativa da plataforma.
+ *
+ * - Hotmart: header `X-Hotmart-Hottok` igual ao hottok da conta
+ * - Kiwify: query `?signature=` = HMAC-SHA1(body cru, token)
+ * - Eduzz: header `X-Signature` = HMAC-SHA256(body cru, secret)
+ * - RD Station: sem assinatura nativa (use `?token=<secret da fonte>` na URL)
+ */
+export async function verifyProviderSignature(
+  provider: InboundProvider,
+  input: { providerSecret: string | null; headers: Headers; url: URL; rawBody: string }
+): Promise<boolean> {
+  const secret = input.providerSecret?.trim();
+  if (!secret) return false;
+
+  if (provider === 'hotmart') {
+    const hottok = input.headers.get('x-hotmart-hottok')?.trim() || '';
+    return !!hottok && timingSafeEqualString(hottok, secret);
+  }
+  if (provider === 'kiwify') {
+    const signature = input.url.searchParams.get('signature')?.trim().toLowerCase() || '';
+    return !!signature && timingSafeEqualString(signature, await hmacHex('SHA-1', secret, input.rawBody));
+  }
+  if (provider === 'eduzz') {
+    const signature = input.headers.get('x-signature')?.trim().toLowerCase() || '';
+    return !!signature && timingSafeEqualString(signature, await hmacHex('SHA-256', secret, input.rawBody));
+  }
+  return false;
+}
@@ -57,6 +57,17 @@ CREATE TABLE IF NOT EXISTS public.organization_settings (
     ai_anthropic_key text,
     -- org-wide toggle (admin): desliga/ligar IA para toda a organização
     ai_enabled boolean NOT NULL DEFAULT true,
+    -- cadeia ordenada de fallback: [{ "provider": "openai", "model": "gpt-4o" }, ...]
+    ai_fallback_chain jsonb NOT NULL DEFAULT '[]'::jsonb,
+    -- provedor self-hosted compatível com OpenAI (Ollama, vLLM, LM Studio)
+    ai_local_base_url text,
+    ai_local_key text,
+    -- resultado do probe de tool calling (NULL = ainda não testado)
+    ai_local_supports_tools boolean,
+    ai_local_probed_at timestamptz,
+    -- orçamentos mensais (USD estimados; NULL = sem limite)
+    ai_monthly_budget_usd numeric(12,2),
+    ai_user_monthly_budget_usd numeric(12,2),
     created_at timestamptz DEFAULT now(),
     updated_at timestamptz DEFAULT now()
 );
@@ -67,6 +78,19 @@ ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.organization_settings
 ADD COLUMN IF NOT EXISTS ai_enabled BOOLEAN NOT NULL DEFAULT true;
 
+ALTER TABLE public.organization_settings
+ADD COLUMN IF NOT EXISTS ai_fallback_chain JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.organization_settings
+ADD COLUMN IF NOT EXISTS ai_local_base_url TEXT,
+ADD COLUMN IF NOT EXISTS ai_local_key TEXT,
+ADD COLUMN IF NOT EXISTS ai_local_supports_tools BOOLEAN,
+ADD COLUMN IF NOT EXISTS ai_local_probed_at TIMESTAMPTZ;
+
+ALTER TABLE public.organization_settings
+ADD COLUMN IF NOT EXISTS ai_monthly_budget_usd NUMERIC(12,2),
+ADD COLUMN IF NOT EXISTS ai_user_monthly_budget_usd NUMERIC(12,2);
+
 -- -----------------------------------------------------------------------------
 -- 3. PROFILES (Usuários - estende auth.users)
 -- -----------------------------------------------------------------------------
@@ -452,19 +476,33 @@ ALTER TABLE public.ai_conversations ENABLE ROW LEVEL SECURITY;
 -- -----------------------------------------------------------------------------
 -- 18. AI_DECISIONS (Fila de decisões da IA)
 -- -----------------------------------------------------------------------------
+-- Gerada no servidor pelos analyzers (features/decisions/analyzers) e compartilhada pela organização:
+-- - user_id = responsável (dono do deal/atividade); NULL = sem dono, visível para todos
+-- - dedupe_key (`tipo:entidade`) evita a mesma sugestão duas vezes (um aberto por organização)
+-- - processed_at marca aprovação/rejeição; o cooldown do analyzer é contado a partir dele
 CREATE TABLE IF NOT EXISTS public.ai_decisions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
     user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
     deal_id UUID REFERENCES public.deals(id) ON DELETE CASCADE,
     contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE,
+    analyzer_id TEXT,
+    dedupe_key TEXT,
     decision_type TEXT NOT NULL,
+    category TEXT,
     priority TEXT DEFAULT 'medium',
     title TEXT NOT NULL,
     description TEXT,
     suggested_action JSONB,
+    alternative_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
     status TEXT DEFAULT 'pending',
     snoozed_until TIMESTAMPTZ,
+    -- Quantas vezes foi adiada (o status volta a pending quando o adiamento vence)
+    snooze_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ,
     processed_at TIMESTAMPTZ,
+    processed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
     ai_reasoning TEXT,
     confidence_score NUMERIC(3,2),
     created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -473,6 +511,78 @@ CREATE TABLE IF NOT EXISTS public.ai_decisions (
 
 ALTER TABLE public.ai_decisions ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS activity_id UUID REFERENCES public.activities(id) ON DELETE CASCADE;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS analyzer_id TEXT;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS alternative_actions JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS processed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.ai_decisions ADD COLUMN IF NOT EXISTS snooze_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.ai_decisions DROP CONSTRAINT IF EXISTS ai_decisions_status_check;
+ALTER TABLE public.ai_decisions
+  ADD CONSTRAINT ai_decisions_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'snoozed', 'expired'));
+
+-- Uma decisão aberta por entidade/tipo na organização (dois vendedores não recebem a mesma sugestão)
+CREATE UNIQUE INDEX IF NOT EXISTS ai_decisions_org_dedupe_open_unique
+  ON public.ai_decisions (organization_id, dedupe_key)
+  WHERE status IN ('pending', 'snoozed');
+
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_org_status ON public.ai_decisions (organization_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_user_status ON public.ai_decisions (user_id, status);
+-- Relatório de resultados da fila (decisões criadas no período)
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_org_created ON public.ai_decisions (organization_id, created_at DESC);
+-- Cooldown: decisões processadas recentemente por dedupe_key
+CREATE INDEX IF NOT EXISTS idx_ai_decisions_org_processed
+  ON public.ai_decisions (organization_id, processed_at DESC)
+  WHERE processed_at IS NOT NULL;
+
+-- Execuções dos analyzers (agendadas ou manuais): "Última análise" e histórico por analyzer
+CREATE TABLE IF NOT EXISTS public.ai_decision_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    triggered_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    decisions_added INTEGER NOT NULL DEFAULT 0,
+    -- [{ analyzerId, analyzerName, itemsAnalyzed, decisionsGenerated, errors? }]
+    results JSONB NOT NULL DEFAULT '[]'::jsonb,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.ai_decision_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ai_decision_runs_org_started ON public.ai_decision_runs (organization_id, started_at DESC);
+
+-- Regras dos analyzers por organização (board_id NULL = padrão da organização; com board = só aquele board)
+CREATE TABLE IF NOT EXISTS public.ai_decision_analyzer_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    analyzer_id TEXT NOT NULL,
+    board_id UUID REFERENCES public.boards(id) ON DELETE CASCADE,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Só as chaves alteradas; o restante vem do `AnalyzerConfig` do código
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    max_decisions_per_run INTEGER CHECK (max_decisions_per_run IS NULL OR max_decisions_per_run BETWEEN 1 AND 100),
+    cooldown_days INTEGER CHECK (cooldown_days IS NULL OR cooldown_days BETWEEN 0 AND 365),
+    -- Níveis somados à prioridade das decisões geradas (+1 = um nível acima; NULL = herda o escopo acima)
+    priority_offset SMALLINT CHECK (priority_offset IS NULL OR priority_offset BETWEEN -3 AND 3),
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.ai_decision_analyzer_settings ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.ai_decision_analyzer_settings
+  ADD COLUMN IF NOT EXISTS priority_offset SMALLINT CHECK (priority_offset IS NULL OR priority_offset BETWEEN -3 AND 3);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ai_decision_analyzer_settings_scope_unique
+  ON public.ai_decision_analyzer_settings (organization_id, analyzer_id, board_id) NULLS NOT DISTINCT;
+
 -- -----------------------------------------------------------------------------
 -- 19. AI_AUDIO_NOTES (Notas de áudio transcritas)
 -- -----------------------------------------------------------------------------
@@ -537,15 +647,32 @@ CREATE TABLE IF NOT EXISTS public.ai_suggestion_interactions (
     entity_id UUID NOT NULL,
     action TEXT NOT NULL CHECK (action IN ('ACCEPTED', 'DISMISSED', 'SNOOZED')),
     snoozed_until TIMESTAMPTZ,
-    created_at TIMESTAMPTZ DEFAULT NOW(),
-    
-    UNIQUE(user_id, suggestion_type, entity_id)
+    -- Feedback de saída de prompt (suggestion_type = 'PROMPT'): key + versão que gerou o texto (NULL = padrão do catálogo)
+    prompt_key TEXT,
+    prompt_version INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 ALTER TABLE public.ai_suggestion_interactions ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE public.ai_suggestion_interactions ADD COLUMN IF NOT EXISTS prompt_key TEXT;
+ALTER TABLE public.ai_suggestion_interactions ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+
+ALTER TABLE public.ai_suggestion_interactions DROP CONSTRAINT IF EXISTS ai_suggestion_interactions_suggestion_type_check;
+ALTER TABLE public.ai_suggestion_interactions
+  ADD CONSTRAINT ai_suggestion_interactions_suggestion_type_check
+  CHECK (suggestion_type IN ('UPSELL', 'STALLED', 'BIRTHDAY', 'RESCUE', 'PROMPT'));
+
+-- Uma interação por usuário/sugestão/entidade (e por prompt, no feedback de prompts).
+ALTER TABLE public.ai_suggestion_interactions DROP CONSTRAINT IF EXISTS ai_suggestion_interactions_user_id_suggestion_type_entity_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS ai_suggestion_interactions_unique
+  ON public.ai_suggestion_interactions (user_id, suggestion_type, entity_id, prompt_key) NULLS NOT DISTINCT;
+
 CREATE INDEX IF NOT EXISTS idx_ai_suggestion_user ON public.ai_suggestion_interactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_ai_suggestion_entity ON public.ai_suggestion_interactions(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_ai_suggestion_prompt
+  ON public.ai_suggestion_interactions (prompt_key, prompt_version)
+  WHERE prompt_key IS NOT NULL;
 
 -- -----------------------------------------------------------------------------
 -- 22.1 AI_PROMPT_TEMPLATES (Override/versioning por organização)
@@ -609,6 +736,85 @@ CREATE POLICY "Members can view ai prompts"
     )
   );
 
+-- Teste A/B: parte do tráfego (bucket estável por usuário) recebe `variant_version` em vez da versão ativa.
+-- A comparação usa o feedback em ai_suggestion_interactions (suggestion_type = 'PROMPT').
+CREATE TABLE IF NOT EXISTS public.ai_prompt_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  -- Versão ativa quando o teste começou (NULL = padrão do catálogo)
+  control_version INTEGER,
+  variant_version INTEGER NOT NULL,
+  traffic_percent INTEGER NOT NULL DEFAULT 50 CHECK (traffic_percent BETWEEN 1 AND 99),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.ai_prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Apenas um teste em andamento por key/organization
+CREATE UNIQUE INDEX IF NOT EXISTS ai_prompt_experiments_org_key_running_unique
+  ON public.ai_prompt_experiments(organization_id, key)
+  WHERE status = 'running';
+
+DROP POLICY IF EXISTS "Admins can manage ai prompt experiments" ON public.ai_prompt_experiments;
+CREATE POLICY "Admins can manage ai prompt experiments"
+  ON public.ai_prompt_experiments
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM public.profiles
+      WHERE organization_id = ai_prompt_experiments.organization_id
+      AND role = 'admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT id FROM public.profiles
+      WHERE organization_id = ai_prompt_experiments.organization_id
+      AND role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view ai prompt experiments" ON public.ai_prompt_experiments;
+CREATE POLICY "Members can view ai prompt experiments"
+  ON public.ai_prompt_experiments
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM public.profiles
+      WHERE organization_id = ai_prompt_experiments.organization_id
+    )
+  );
+
+-- Aceite por versão de um prompt (feedback dos usuários da organização)
+CREATE OR REPLACE FUNCTION public.ai_prompt_feedback_stats(p_organization_id UUID, p_key TEXT, p_since TIMESTAMPTZ)
+RETURNS TABLE (prompt_version INTEGER, accepted BIGINT, dismissed BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.prompt_version,
+    COUNT(*) FILTER (WHERE i.action = 'ACCEPTED'),
+    COUNT(*) FILTER (WHERE i.action = 'DISMISSED')
+  FROM public.ai_suggestion_interactions i
+  JOIN public.profiles p ON p.id = i.user_id
+  WHERE p.organization_id = p_organization_id
+    AND i.suggestion_type = 'PROMPT'
+    AND i.prompt_key = p_key
+    AND i.created_at >= p_since
+  GROUP BY i.prompt_version;
+$$;
+
+REVOKE ALL ON FUNCTION public.ai_prompt_feedback_stats(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_prompt_feedback_stats(UUID, TEXT, TIMESTAMPTZ) TO service_role;
+
 -- -----------------------------------------------------------------------------
 -- 22.2 AI_FEATURE_FLAGS (org-wide): habilitar/desabilitar funções específicas de IA
 -- -----------------------------------------------------------------------------
@@ -1576,10 +1782,89 @@ CREATE POLICY "Enable all access for authenticated users" ON public.leads FOR AL
 
 -- AI Tables
 CREATE POLICY "Enable all access for authenticated users" ON public.ai_conversations FOR ALL TO authenticated USING (true);
-CREATE POLICY "Enable all access for authenticated users" ON public.ai_decisions FOR ALL TO authenticated USING (true);
 CREATE POLICY "Enable all access for authenticated users" ON public.ai_audio_notes FOR ALL TO authenticated USING (true);
 CREATE POLICY "Enable all access for authenticated users" ON public.ai_suggestion_interactions FOR ALL TO authenticated USING (true);
 
+-- AI Decisions (hardened): o responsável vê/decide as suas, decisões sem dono são da equipe e admins veem tudo.
+-- Inserts só pelo servidor (service role), nos runs dos analyzers.
+DROP POLICY IF EXISTS "Enable all access for authenticated users" ON public.ai_decisions;
+
+DROP POLICY IF EXISTS "Members can view own or shared ai decisions" ON public.ai_decisions;
+CREATE POLICY "Members can view own or shared ai decisions"
+    ON public.ai_decisions
+    FOR SELECT
+    TO authenticated
+    USING (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decisions.organization_id
+            AND (ai_decisions.user_id IS NULL OR ai_decisions.user_id = auth.uid() OR role = 'admin')
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can decide own or shared ai decisions" ON public.ai_decisions;
+CREATE POLICY "Members can decide own or shared ai decisions"
+    ON public.ai_decisions
+    FOR UPDATE
+    TO authenticated
+    USING (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decisions.organization_id
+            AND (ai_decisions.user_id IS NULL OR ai_decisions.user_id = auth.uid() OR role = 'admin')
+        )
+    )
+    WITH CHECK (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decisions.organization_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can view ai decision runs" ON public.ai_decision_runs;
+CREATE POLICY "Members can view ai decision runs"
+    ON public.ai_decision_runs
+    FOR SELECT
+    TO authenticated
+    USING (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decision_runs.organization_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Admins can manage ai decision analyzer settings" ON public.ai_decision_analyzer_settings;
+CREATE POLICY "Admins can manage ai decision analyzer settings"
+    ON public.ai_decision_analyzer_settings
+    FOR ALL
+    TO authenticated
+    USING (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decision_analyzer_settings.organization_id
+            AND role = 'admin'
+        )
+    )
+    WITH CHECK (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decision_analyzer_settings.organization_id
+            AND role = 'admin'
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can view ai decision analyzer settings" ON public.ai_decision_analyzer_settings;
+CREATE POLICY "Members can view ai decision analyzer settings"
+    ON public.ai_decision_analyzer_settings
+    FOR SELECT
+    TO authenticated
+    USING (
+        auth.uid() IN (
+            SELECT id FROM public.profiles
+            WHERE organization_id = ai_decision_analyzer_settings.organization_id
+        )
+    );
+
 -- System Tables
 -- Organization Invites (hardened)
 DROP POLICY IF EXISTS "Enable all access for authenticated users" ON public.organization_invites;
@@ -1682,7 +1967,9 @@ CREATE POLICY "avatar_delete" ON storage.objects
 -- =============================================================================
 -- Obs:
 -- - Usamos pg_net (HTTP async) e persistimos request_id em webhook_deliveries.
--- - Retries/backoff não fazem parte do MVP.
+-- - Um worker (`process_webhook_deliveries`, agendado via pg_cron quando disponível) reconcilia
+--   as respostas do pg_net, faz retry com backoff exponencial e move entregas esgotadas para
+--   a dead-letter (`status = 'dead'`), que pode ser reenviada pela UI (`replay_webhook_delivery`).
 
 -- (redundante por segurança: o topo já cria, mas manter é barato e evita drift)
 CREATE EXTENSION IF NOT EXISTS pg_net;
@@ -1702,6 +1989,15 @@ CREATE TABLE IF NOT EXISTS public.api_keys (
   key_prefix TEXT NOT NULL,
   key_hash TEXT NOT NULL, -- sha256 hex do token completo
   created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Escopos (ver lib/public-api/scopes.ts). '*' = acesso total (default das keys antigas).
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['*']::TEXT[],
+  -- Opcional: a key para de funcionar depois desta data
+  expires_at TIMESTAMPTZ,
+  -- Opcional: IPs/redes (CIDR) de onde a key pode ser usada. Vazio = qualquer IP.
+  allowed_ips INET[] NOT NULL DEFAULT '{}'::INET[],
+  -- Cota: requisições por minuto (janela deslizante em rate_limits) e, opcional, por dia (UTC)
+  rate_limit_per_minute INT NOT NULL DEFAULT 120 CHECK (rate_limit_per_minute BETWEEN 1 AND 10000),
+  daily_quota INT CHECK (daily_quota IS NULL OR daily_quota > 0),
   revoked_at TIMESTAMPTZ,
   last_used_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -1710,6 +2006,17 @@ CREATE TABLE IF NOT EXISTS public.api_keys (
 
 ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
 
+-- Upgrade-safe: escopos, expiração e allowlist de IP
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['*']::TEXT[],
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS allowed_ips INET[] NOT NULL DEFAULT '{}'::INET[];
+
+-- Upgrade-safe: cotas por chave
+ALTER TABLE public.api_keys
+  ADD COLUMN IF NOT EXISTS rate_limit_per_minute INT NOT NULL DEFAULT 120 CHECK (rate_limit_per_minute BETWEEN 1 AND 10000),
+  ADD COLUMN IF NOT EXISTS daily_quota INT CHECK (daily_quota IS NULL OR daily_quota > 0);
+
 CREATE INDEX IF NOT EXISTS idx_api_keys_org ON public.api_keys(organization_id);
 CREATE INDEX IF NOT EXISTS idx_api_keys_org_active ON public.api_keys(organization_id) WHERE revoked_at IS NULL;
 
@@ -1762,8 +2069,76 @@ AS $$
   SELECT encode(digest(token, 'sha256'), 'hex');
 $$;
 
+-- Valida a lista de escopos (formato `recurso:ação` ou '*'). NULL/vazio é erro: uma lista vazia
+-- não pode virar acesso total (o default '*' das keys antigas fica só em create_api_key).
+CREATE OR REPLACE FUNCTION public._api_key_normalize_scopes(p_scopes TEXT[])
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  s TEXT;
+  result TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF p_scopes IS NULL OR cardinality(p_scopes) = 0 THEN
+    RAISE EXCEPTION 'At least one scope is required';
+  END IF;
+
+  FOREACH s IN ARRAY p_scopes LOOP
+    s := btrim(s);
+    IF s = '*' THEN
+      RETURN ARRAY['*']::TEXT[];
+    END IF;
+    IF s !~ '^[a-z_]+:(read|write|call)$' THEN
+      RAISE EXCEPTION 'Invalid scope: %', s;
+    END IF;
+    IF NOT s = ANY(result) THEN
+      result := result || s;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- A key pode ser usada deste IP? (allowlist vazia = qualquer IP)
+CREATE OR REPLACE FUNCTION public._api_key_ip_allowed(p_allowed INET[], p_client_ip TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  ip INET;
+BEGIN
+  IF p_allowed IS NULL OR cardinality(p_allowed) = 0 THEN
+    RETURN true;
+  END IF;
+  IF p_client_ip IS NULL OR btrim(p_client_ip) = '' THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    ip := btrim(p_client_ip)::INET;
+  EXCEPTION WHEN others THEN
+    RETURN false;
+  END;
+
+  RETURN EXISTS (SELECT 1 FROM unnest(p_allowed) a WHERE ip <<= a);
+END;
+$$;
+
 -- Create API key (admin via UI) - returns the token ONCE
-CREATE OR REPLACE FUNCTION public.create_api_key(p_name TEXT)
+-- (assinaturas antigas removidas para não ficarem ambíguas com os defaults)
+DROP FUNCTION IF EXISTS public.create_api_key(TEXT);
+DROP FUNCTION IF EXISTS public.create_api_key(TEXT, TEXT[], TIMESTAMPTZ, TEXT[]);
+CREATE OR REPLACE FUNCTION public.create_api_key(
+  p_name TEXT,
+  p_scopes TEXT[] DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_allowed_ips TEXT[] DEFAULT NULL,
+  p_rate_limit_per_minute INT DEFAULT NULL,
+  p_daily_quota INT DEFAULT NULL
+)
 RETURNS TABLE (
   api_key_id UUID,
   token TEXT,
@@ -1801,12 +2176,32 @@ BEGIN
     RAISE EXCEPTION 'Forbidden';
   END IF;
 
+  IF p_expires_at IS NOT NULL AND p_expires_at <= now() THEN
+    RAISE EXCEPTION 'Expiration must be in the future';
+  END IF;
+
   t := public._api_key_make_token();
   prefix := left(t, 12);
   h := public._api_key_sha256_hex(t);
 
-  INSERT INTO public.api_keys (organization_id, name, key_prefix, key_hash, created_by, updated_at)
-  VALUES (org_id, COALESCE(NULLIF(btrim(p_name), ''), 'Integração'), prefix, h, uid, now())
+  INSERT INTO public.api_keys (
+    organization_id, name, key_prefix, key_hash, scopes, expires_at, allowed_ips,
+    rate_limit_per_minute, daily_quota, created_by, updated_at
+  )
+  VALUES (
+    org_id,
+    COALESCE(NULLIF(btrim(p_name), ''), 'Integração'),
+    prefix,
+    h,
+    -- sem p_scopes (chamadas anteriores aos escopos) = acesso total; lista vazia é erro
+    public._api_key_normalize_scopes(COALESCE(p_scopes, ARRAY['*']::TEXT[])),
+    p_expires_at,
+    COALESCE(p_allowed_ips, ARRAY[]::TEXT[])::INET[],
+    COALESCE(p_rate_limit_per_minute, 120),
+    p_daily_quota,
+    uid,
+    now()
+  )
   RETURNING id INTO api_key_id;
 
   token := t;
@@ -1866,13 +2261,81 @@ BEGIN
 END;
 $$;
 
+-- Update API key permissions (admin via UI): escopos, expiração, allowlist de IP e cotas
+DROP FUNCTION IF EXISTS public.update_api_key(UUID, TEXT[], TIMESTAMPTZ, TEXT[]);
+CREATE OR REPLACE FUNCTION public.update_api_key(
+  p_api_key_id UUID,
+  p_scopes TEXT[],
+  p_expires_at TIMESTAMPTZ,
+  p_allowed_ips TEXT[],
+  p_rate_limit_per_minute INT DEFAULT NULL,
+  p_daily_quota INT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  uid UUID;
+  org_id UUID;
+  key_org UUID;
+BEGIN
+  uid := auth.uid();
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT p.organization_id INTO org_id
+  FROM public.profiles p
+  WHERE p.id = uid;
+
+  IF org_id IS NULL THEN
+    RAISE EXCEPTION 'Organization not found for user';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = uid AND p.organization_id = org_id AND p.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  SELECT k.organization_id INTO key_org
+  FROM public.api_keys k
+  WHERE k.id = p_api_key_id;
+
+  IF key_org IS NULL THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+
+  IF key_org <> org_id THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  UPDATE public.api_keys
+    SET scopes = public._api_key_normalize_scopes(p_scopes),
+        expires_at = p_expires_at,
+        allowed_ips = COALESCE(p_allowed_ips, ARRAY[]::TEXT[])::INET[],
+        rate_limit_per_minute = COALESCE(p_rate_limit_per_minute, rate_limit_per_minute),
+        daily_quota = p_daily_quota,
+        updated_at = now()
+  WHERE id = p_api_key_id;
+END;
+$$;
+
 -- Validate API key (public API auth)
-CREATE OR REPLACE FUNCTION public.validate_api_key(p_token TEXT)
+-- Retorna a key mesmo expirada/fora da allowlist para o app responder com o erro certo
+-- (`AUTH_EXPIRED` / `AUTH_IP_NOT_ALLOWED`); revogadas não retornam nada.
+DROP FUNCTION IF EXISTS public.validate_api_key(TEXT);
+CREATE OR REPLACE FUNCTION public.validate_api_key(p_token TEXT, p_client_ip TEXT DEFAULT NULL)
 RETURNS TABLE (
   api_key_id UUID,
   api_key_prefix TEXT,
   organization_id UUID,
-  organization_name TEXT
+  organization_name TEXT,
+  scopes TEXT[],
+  expires_at TIMESTAMPTZ,
+  ip_allowed BOOLEAN
 )
 LANGUAGE plpgsql
 SECURITY DEFINER
@@ -1888,7 +2351,7 @@ BEGIN
 
   RETURN QUERY
   WITH k AS (
-    SELECT ak.id, ak.key_prefix, ak.organization_id
+    SELECT ak.id, ak.key_prefix, ak.organization_id, ak.scopes, ak.expires_at, ak.allowed_ips
     FROM public.api_keys ak
     WHERE ak.key_hash = h
       AND ak.revoked_at IS NULL
@@ -1898,78 +2361,583 @@ BEGIN
     k.id,
     k.key_prefix,
     k.organization_id,
-    o.name
+    o.name,
+    k.scopes,
+    k.expires_at,
+    public._api_key_ip_allowed(k.allowed_ips, p_client_ip)
   FROM k
   JOIN public.organizations o ON o.id = k.organization_id;
 
-  -- Touch last_used_at (best-effort)
-  UPDATE public.api_keys
+  -- Touch last_used_at (best-effort; só conta uso válido)
+  UPDATE public.api_keys ak
     SET last_used_at = now(),
         updated_at = now()
-  WHERE key_hash = h
-    AND revoked_at IS NULL;
+  WHERE ak.key_hash = h
+    AND ak.revoked_at IS NULL
+    AND (ak.expires_at IS NULL OR ak.expires_at > now())
+    AND public._api_key_ip_allowed(ak.allowed_ips, p_client_ip);
 END;
 $$;
 
 -- Explicit grants (avoid accidental PUBLIC execute on admin RPCs)
-REVOKE ALL ON FUNCTION public.create_api_key(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.create_api_key(TEXT, TEXT[], TIMESTAMPTZ, TEXT[], INT, INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.update_api_key(UUID, TEXT[], TIMESTAMPTZ, TEXT[], INT, INT) FROM PUBLIC;
 REVOKE ALL ON FUNCTION public.revoke_api_key(UUID) FROM PUBLIC;
-REVOKE ALL ON FUNCTION public.validate_api_key(TEXT) FROM PUBLIC;
-GRANT EXECUTE ON FUNCTION public.create_api_key(TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.validate_api_key(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_api_key(TEXT, TEXT[], TIMESTAMPTZ, TEXT[], INT, INT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_api_key(UUID, TEXT[], TIMESTAMPTZ, TEXT[], INT, INT) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.revoke_api_key(UUID) TO authenticated;
-GRANT EXECUTE ON FUNCTION public.validate_api_key(TEXT) TO anon, authenticated;
-
--- Config: fontes inbound (admin-only)
-CREATE TABLE IF NOT EXISTS public.integration_inbound_sources (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
-  name TEXT NOT NULL DEFAULT 'Entrada de Leads',
-  entry_board_id UUID NOT NULL REFERENCES public.boards(id),
-  entry_stage_id UUID NOT NULL REFERENCES public.board_stages(id),
-  secret TEXT NOT NULL,
-  active BOOLEAN NOT NULL DEFAULT true,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
-);
+GRANT EXECUTE ON FUNCTION public.validate_api_key(TEXT, TEXT) TO anon, authenticated;
 
-ALTER TABLE public.integration_inbound_sources ENABLE ROW LEVEL SECURITY;
+-- =============================================================================
+-- API keys: rate limit + métricas de uso
+-- =============================================================================
+-- - `consume_api_key_rate_limit`: janela deslizante de 1 min em `rate_limits` (identifier = 'api_key:<id>')
+--   + cota diária opcional (dia UTC, somando `api_key_usage_daily`)
+-- - `record_api_key_usage`: agregado diário por endpoint (requests, erros >= 400, 429)
+-- Ambas são chamadas pelo servidor (service role) em `lib/public-api/auth.ts` / `usage.ts`.
 
--- Config: endpoints outbound (admin-only)
-CREATE TABLE IF NOT EXISTS public.integration_outbound_endpoints (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+CREATE TABLE IF NOT EXISTS public.api_key_usage_daily (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
   organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
-  name TEXT NOT NULL DEFAULT 'Follow-up (Webhook)',
-  url TEXT NOT NULL,
-  secret TEXT NOT NULL,
-  events TEXT[] NOT NULL DEFAULT ARRAY['deal.stage_changed'],
-  active BOOLEAN NOT NULL DEFAULT true,
-  created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  day DATE NOT NULL,
+  endpoint TEXT NOT NULL, -- ex.: 'POST /deals/{id}/mark-lost'
+  request_count INT NOT NULL DEFAULT 0,
+  error_count INT NOT NULL DEFAULT 0,
+  rate_limited_count INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, day, endpoint)
 );
 
-ALTER TABLE public.integration_outbound_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage_daily ENABLE ROW LEVEL SECURITY;
 
--- Auditoria mínima: inbound events
-CREATE TABLE IF NOT EXISTS public.webhook_events_in (
-  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
-  source_id UUID NOT NULL REFERENCES public.integration_inbound_sources(id) ON DELETE CASCADE,
-  provider TEXT NOT NULL DEFAULT 'generic',
-  external_event_id TEXT,
-  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
-  status TEXT NOT NULL DEFAULT 'received',
-  error TEXT,
-  -- manter auditoria mesmo se contato/deal forem removidos
-  created_contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
-  created_deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
-  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-);
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_daily_org_day ON public.api_key_usage_daily(organization_id, day DESC);
 
-ALTER TABLE public.webhook_events_in ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Admins can view api key usage" ON public.api_key_usage_daily;
+CREATE POLICY "Admins can view api key usage"
+  ON public.api_key_usage_daily
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM public.profiles
+      WHERE organization_id = api_key_usage_daily.organization_id
+        AND role = 'admin'
+    )
+  );
 
--- Dedupe inbound quando existir external_event_id
-CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_in_dedupe
-  ON public.webhook_events_in(source_id, external_event_id)
+CREATE OR REPLACE FUNCTION public.consume_api_key_rate_limit(p_api_key_id UUID, p_endpoint TEXT)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  rate_limit INT,
+  remaining INT,
+  retry_after_seconds INT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_identifier TEXT := 'api_key:' || p_api_key_id::TEXT;
+  v_limit INT;
+  v_quota INT;
+  v_today_count INT;
+  v_window_count INT;
+  v_oldest TIMESTAMPTZ;
+BEGIN
+  SELECT k.rate_limit_per_minute, k.daily_quota INTO v_limit, v_quota
+  FROM public.api_keys k
+  WHERE k.id = p_api_key_id;
+
+  IF v_limit IS NULL THEN
+    allowed := false; rate_limit := 0; remaining := 0; retry_after_seconds := 60;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  -- serializa requisições concorrentes da mesma chave (contagem + insert)
+  PERFORM pg_advisory_xact_lock(hashtext(v_identifier));
+
+  IF v_quota IS NOT NULL THEN
+    SELECT COALESCE(SUM(u.request_count - u.rate_limited_count), 0) INTO v_today_count
+    FROM public.api_key_usage_daily u
+    WHERE u.api_key_id = p_api_key_id
+      AND u.day = (now() AT TIME ZONE 'UTC')::DATE;
+
+    IF v_today_count >= v_quota THEN
+      allowed := false;
+      rate_limit := v_limit;
+      remaining := 0;
+      retry_after_seconds := GREATEST(
+        1,
+        CEIL(EXTRACT(EPOCH FROM ((((now() AT TIME ZONE 'UTC')::DATE + 1)::TIMESTAMP AT TIME ZONE 'UTC') - now())))::INT
+      );
+      RETURN NEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COUNT(*)::INT, MIN(r.created_at) INTO v_window_count, v_oldest
+  FROM public.rate_limits r
+  WHERE r.identifier = v_identifier
+    AND r.created_at > now() - INTERVAL '1 minute';
+
+  IF v_window_count >= v_limit THEN
+    allowed := false;
+    rate_limit := v_limit;
+    remaining := 0;
+    retry_after_seconds := GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + INTERVAL '1 minute' - now())))::INT);
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limits (identifier, endpoint) VALUES (v_identifier, p_endpoint);
+
+  allowed := true;
+  rate_limit := v_limit;
+  remaining := v_limit - v_window_count - 1;
+  retry_after_seconds := 0;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_api_key_usage(p_api_key_id UUID, p_endpoint TEXT, p_status INT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.api_key_usage_daily (
+    api_key_id, organization_id, day, endpoint, request_count, error_count, rate_limited_count
+  )
+  SELECT
+    k.id,
+    k.organization_id,
+    (now() AT TIME ZONE 'UTC')::DATE,
+    left(COALESCE(NULLIF(btrim(p_endpoint), ''), 'unknown'), 200),
+    1,
+    CASE WHEN p_status >= 400 THEN 1 ELSE 0 END,
+    CASE WHEN p_status = 429 THEN 1 ELSE 0 END
+  FROM public.api_keys k
+  WHERE k.id = p_api_key_id
+  ON CONFLICT (api_key_id, day, endpoint) DO UPDATE
+    SET request_count = public.api_key_usage_daily.request_count + 1,
+        error_count = public.api_key_usage_daily.error_count + EXCLUDED.error_count,
+        rate_limited_count = public.api_key_usage_daily.rate_limited_count + EXCLUDED.rate_limited_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_api_key_rate_limit(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_api_key_usage(UUID, TEXT, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.consume_api_key_rate_limit(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_api_key_usage(UUID, TEXT, INT) TO service_role;
+
+-- Limpa a janela do rate limit a cada 5 min (best-effort: só quando pg_cron existe no projeto)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'cleanup-rate-limits',
+      '*/5 * * * *',
+      'SELECT public.cleanup_rate_limits()'
+    );
+  END IF;
+END $$;
+
+-- =============================================================================
+-- API pública: Idempotency-Key (POST/PATCH)
+-- =============================================================================
+-- A primeira request com um `Idempotency-Key` "reserva" a chave (por API key);
+-- a resposta (status + body) é gravada ao final e devolvida nos retries por 24h.
+-- Uma reserva sem resposta vale por uma lease curta: se a request morreu no meio
+-- (timeout/crash), um retry igual depois da lease assume a chave.
+-- Acesso só pelo servidor (service role) em `lib/public-api/idempotency.ts`.
+
+CREATE TABLE IF NOT EXISTS public.api_idempotency_keys (
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- sha256 do body cru
+  response_status INT, -- NULL = em processamento
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '24 hours'),
+  PRIMARY KEY (api_key_id, idempotency_key)
+);
+
+ALTER TABLE public.api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_expires_at ON public.api_idempotency_keys(expires_at);
+
+DROP FUNCTION IF EXISTS public.claim_api_idempotency_key(UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.claim_api_idempotency_key(
+  p_api_key_id UUID,
+  p_idempotency_key TEXT,
+  p_method TEXT,
+  p_path TEXT,
+  p_request_hash TEXT,
+  p_lease_seconds INT DEFAULT 300
+)
+RETURNS TABLE (
+  claimed BOOLEAN,
+  request_method TEXT,
+  request_path TEXT,
+  request_hash TEXT,
+  response_status INT,
+  response_body JSONB,
+  claimed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_row public.api_idempotency_keys%ROWTYPE;
+  v_claimed_at TIMESTAMPTZ;
+BEGIN
+  SELECT k.organization_id INTO v_org_id FROM public.api_keys k WHERE k.id = p_api_key_id;
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+
+  -- Chave vencida pode ser reutilizada
+  DELETE FROM public.api_idempotency_keys i
+  WHERE i.api_key_id = p_api_key_id
+    AND i.idempotency_key = p_idempotency_key
+    AND i.expires_at <= NOW();
+
+  INSERT INTO public.api_idempotency_keys (api_key_id, idempotency_key, organization_id, request_method, request_path, request_hash)
+  VALUES (p_api_key_id, p_idempotency_key, v_org_id, p_method, p_path, p_request_hash)
+  ON CONFLICT (api_key_id, idempotency_key) DO NOTHING
+  RETURNING created_at INTO v_claimed_at;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT TRUE, p_method, p_path, p_request_hash, NULL::INT, NULL::JSONB, v_claimed_at;
+    RETURN;
+  END IF;
+
+  -- Reserva abandonada (mesma request, sem resposta, lease vencida): o retry assume.
+  -- `created_at` novo = nova reserva; a request antiga, se ainda terminar, não grava por cima.
+  UPDATE public.api_idempotency_keys i
+  SET created_at = NOW(), expires_at = NOW() + INTERVAL '24 hours'
+  WHERE i.api_key_id = p_api_key_id
+    AND i.idempotency_key = p_idempotency_key
+    AND i.response_status IS NULL
+    AND i.request_method = p_method
+    AND i.request_path = p_path
+    AND i.request_hash = p_request_hash
+    AND i.created_at <= NOW() - p_lease_seconds * INTERVAL '1 second'
+  RETURNING i.created_at INTO v_claimed_at;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT TRUE, p_method, p_path, p_request_hash, NULL::INT, NULL::JSONB, v_claimed_at;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_row
+  FROM public.api_idempotency_keys i
+  WHERE i.api_key_id = p_api_key_id AND i.idempotency_key = p_idempotency_key;
+
+  RETURN QUERY SELECT FALSE, v_row.request_method, v_row.request_path, v_row.request_hash, v_row.response_status, v_row.response_body, v_row.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cleanup_api_idempotency_keys()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM public.api_idempotency_keys WHERE expires_at <= NOW();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_api_idempotency_key(UUID, TEXT, TEXT, TEXT, TEXT, INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.cleanup_api_idempotency_keys() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_api_idempotency_key(UUID, TEXT, TEXT, TEXT, TEXT, INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cleanup_api_idempotency_keys() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'cleanup-api-idempotency-keys',
+      '17 * * * *',
+      'SELECT public.cleanup_api_idempotency_keys()'
+    );
+  END IF;
+END $$;
+
+-- =============================================================================
+-- Auditoria: chamadas feitas com API key (API pública + MCP)
+-- =============================================================================
+-- Escritas da API pública e `tools/call` do MCP gravam em `audit_logs` (ver lib/public-api/audit.ts).
+-- A key fica em colunas próprias para o filtro por key do AuditLogDashboard; o prefixo sobrevive à
+-- exclusão da key.
+
+ALTER TABLE public.audit_logs
+  ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS api_key_prefix TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_api_key
+  ON public.audit_logs (organization_id, api_key_id, created_at DESC)
+  WHERE api_key_id IS NOT NULL;
+
+-- =============================================================================
+-- MCP: aprovação humana de tools destrutivas (`needsApproval`)
+-- =============================================================================
+-- `tools/call` de uma tool com `needsApproval` não executa: grava o pedido aqui e devolve o id como
+-- token. Um humano aprova/rejeita na Central de Decisões (`/api/mcp/approvals/[id]`); na aprovação o
+-- servidor executa a tool com os argumentos gravados e guarda o resultado para o client consultar.
+-- Escrita só pelo servidor (service role); membros da organização podem ler.
+
+CREATE TABLE IF NOT EXISTS public.mcp_tool_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  -- Dono da API key: a tool executa em nome dele
+  requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  tool_name TEXT NOT NULL,
+  tool_title TEXT,
+  internal_key TEXT NOT NULL,
+  arguments JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- pending -> approved (executando) -> executed | failed; ou pending -> rejected | expired
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'expired', 'executed', 'failed')),
+  decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_reason TEXT,
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  executed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.mcp_tool_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_mcp_tool_approvals_org_status
+  ON public.mcp_tool_approvals (organization_id, status, created_at DESC);
+
+DROP POLICY IF EXISTS "Members can view mcp tool approvals" ON public.mcp_tool_approvals;
+CREATE POLICY "Members can view mcp tool approvals"
+  ON public.mcp_tool_approvals
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() IN (
+      SELECT id FROM public.profiles
+      WHERE organization_id = mcp_tool_approvals.organization_id
+    )
+  );
+
+-- =============================================================================
+-- MCP: sessões do transporte Streamable HTTP (`Mcp-Session-Id`)
+-- =============================================================================
+-- `initialize` cria a sessão e devolve o id no header `Mcp-Session-Id`; requests seguintes com o header
+-- são validadas aqui (mesma API key, não encerrada, sem ficar ociosa > 24h). `tools_fingerprint` guarda
+-- o hash do `tools/list` visto pelo client, para o stream SSE emitir `notifications/tools/list_changed`.
+-- Sem o header o endpoint continua stateless. Acesso só pelo servidor (service role).
+
+CREATE TABLE IF NOT EXISTS public.mcp_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  protocol_version TEXT NOT NULL,
+  client_info JSONB,
+  tools_fingerprint TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.mcp_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_last_seen
+  ON public.mcp_sessions (last_seen_at);
+
+CREATE OR REPLACE FUNCTION public.cleanup_mcp_sessions()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM public.mcp_sessions
+  WHERE closed_at IS NOT NULL
+     OR last_seen_at < now() - interval '24 hours';
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cleanup_mcp_sessions() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.cleanup_mcp_sessions() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'cleanup-mcp-sessions',
+      '17 * * * *',
+      'SELECT public.cleanup_mcp_sessions()'
+    );
+  END IF;
+END $$;
+
+-- =============================================================================
+-- IA: consumo por chamada de modelo (tokens + custo estimado) e orçamentos mensais
+-- =============================================================================
+-- Cada chamada ao modelo (chat do agente, `/api/ai/tasks/*`, `/api/ai/actions`) grava uma linha; cada
+-- passo do loop do agente é uma chamada. `tools/call` do MCP também entra (source = 'mcp', sem tokens),
+-- para o consumo por API key aparecer no mesmo painel. O custo é estimado pela tabela de preços em
+-- lib/ai/usage.ts. Orçamentos em `organization_settings.ai_*monthly_budget_usd`. Acesso só pelo servidor.
+CREATE TABLE IF NOT EXISTS public.ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('chat', 'task', 'action', 'mcp')),
+  feature_key TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_org_created
+  ON public.ai_usage_events (organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_org_user_created
+  ON public.ai_usage_events (organization_id, user_id, created_at DESC);
+
+-- Gasto do mês corrente (UTC): organização inteira e o usuário informado.
+CREATE OR REPLACE FUNCTION public.ai_usage_month_spend(p_organization_id UUID, p_user_id UUID)
+RETURNS TABLE (organization_cost_usd NUMERIC, user_cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(cost_usd), 0),
+    COALESCE(SUM(cost_usd) FILTER (WHERE user_id = p_user_id), 0)
+  FROM public.ai_usage_events
+  WHERE organization_id = p_organization_id
+    AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$;
+
+REVOKE ALL ON FUNCTION public.ai_usage_month_spend(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_usage_month_spend(UUID, UUID) TO service_role;
+
+-- Agregado para o painel: uma linha por (feature, provedor, modelo, usuário, API key, origem).
+CREATE OR REPLACE FUNCTION public.ai_usage_summary(p_organization_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  source TEXT,
+  feature_key TEXT,
+  provider TEXT,
+  model TEXT,
+  user_id UUID,
+  api_key_id UUID,
+  requests BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.source, e.feature_key, e.provider, e.model, e.user_id, e.api_key_id,
+    COUNT(*), COALESCE(SUM(e.input_tokens), 0), COALESCE(SUM(e.output_tokens), 0), COALESCE(SUM(e.cost_usd), 0)
+  FROM public.ai_usage_events e
+  WHERE e.organization_id = p_organization_id
+    AND e.created_at >= p_since
+  GROUP BY e.source, e.feature_key, e.provider, e.model, e.user_id, e.api_key_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.ai_usage_summary(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_usage_summary(UUID, TIMESTAMPTZ) TO service_role;
+
+-- Config: fontes inbound (admin-only)
+CREATE TABLE IF NOT EXISTS public.integration_inbound_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Entrada de Leads',
+  entry_board_id UUID NOT NULL REFERENCES public.boards(id),
+  entry_stage_id UUID NOT NULL REFERENCES public.board_stages(id),
+  secret TEXT NOT NULL,
+  -- Regras de mapeamento (caminho no payload -> campo do CRM); ver supabase/functions/webhook-in/fieldMapping.ts
+  field_mapping JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(field_mapping) = 'array'),
+  -- Preset do provedor (payload/assinatura nativos); ver supabase/functions/webhook-in/providers.ts
+  provider TEXT NOT NULL DEFAULT 'generic' CHECK (provider IN ('generic', 'hotmart', 'kiwify', 'eduzz', 'rdstation')),
+  -- Segredo do lado do provedor (hottok da Hotmart, token da Kiwify, chave da Eduzz)
+  provider_secret TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.integration_inbound_sources ENABLE ROW LEVEL SECURITY;
+
+-- Config: endpoints outbound (admin-only)
+CREATE TABLE IF NOT EXISTS public.integration_outbound_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Follow-up (Webhook)',
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT ARRAY['deal.stage_changed'],
+  -- Total de tentativas por entrega (1ª + retries) antes de ir para a dead-letter
+  max_attempts INT NOT NULL DEFAULT 5 CHECK (max_attempts BETWEEN 1 AND 20),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.integration_outbound_endpoints ENABLE ROW LEVEL SECURITY;
+
+-- Auditoria mínima: inbound events
+CREATE TABLE IF NOT EXISTS public.webhook_events_in (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  source_id UUID NOT NULL REFERENCES public.integration_inbound_sources(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'generic',
+  external_event_id TEXT,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'received',
+  error TEXT,
+  -- manter auditoria mesmo se contato/deal forem removidos
+  created_contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  created_deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.webhook_events_in ENABLE ROW LEVEL SECURITY;
+
+-- Dedupe inbound quando existir external_event_id
+CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_in_dedupe
+  ON public.webhook_events_in(source_id, external_event_id)
   WHERE external_event_id IS NOT NULL;
 
 -- Auditoria mínima: outbound events
@@ -1980,6 +2948,8 @@ CREATE TABLE IF NOT EXISTS public.webhook_events_out (
   payload JSONB NOT NULL DEFAULT '{}'::jsonb,
   -- manter auditoria mesmo se o deal/estágios forem removidos
   deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  activity_id UUID REFERENCES public.activities(id) ON DELETE SET NULL,
   from_stage_id UUID REFERENCES public.board_stages(id) ON DELETE SET NULL,
   to_stage_id UUID REFERENCES public.board_stages(id) ON DELETE SET NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -1994,14 +2964,71 @@ CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
   endpoint_id UUID NOT NULL REFERENCES public.integration_outbound_endpoints(id) ON DELETE CASCADE,
   event_id UUID NOT NULL REFERENCES public.webhook_events_out(id) ON DELETE CASCADE,
   request_id BIGINT,
+  -- queued (aguardando resposta do pg_net) | retrying | delivered | dead (dead-letter) | failed (legado)
   status TEXT NOT NULL DEFAULT 'queued',
   attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  attempt_count INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
   response_status INT,
+  response_body TEXT,
   error TEXT
 );
 
 ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
 
+-- Upgrade-safe: colunas de retry/dead-letter em instalações antigas
+ALTER TABLE public.integration_outbound_endpoints
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 5 CHECK (max_attempts BETWEEN 1 AND 20);
+
+ALTER TABLE public.webhook_deliveries
+  ADD COLUMN IF NOT EXISTS attempt_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS response_body TEXT;
+
+-- Upgrade-safe: mapeamento de campos por fonte inbound
+ALTER TABLE public.integration_inbound_sources
+  ADD COLUMN IF NOT EXISTS field_mapping JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(field_mapping) = 'array');
+
+-- Upgrade-safe: presets de provedor (Hotmart, Kiwify, Eduzz, RD Station)
+ALTER TABLE public.integration_inbound_sources
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'generic' CHECK (provider IN ('generic', 'hotmart', 'kiwify', 'eduzz', 'rdstation')),
+  ADD COLUMN IF NOT EXISTS provider_secret TEXT;
+
+-- Upgrade-safe: eventos outbound de contato/atividade
+ALTER TABLE public.webhook_events_out
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS activity_id UUID REFERENCES public.activities(id) ON DELETE SET NULL;
+
+-- Upgrade-safe: feed de eventos da API pública (`GET /api/public/v1/events`).
+-- `feed_seq` é atribuído na leitura (`list_public_api_events`), só para eventos já commitados:
+-- a ordem do cursor é estável mesmo com transações concorrentes.
+ALTER TABLE public.webhook_events_out
+  ADD COLUMN IF NOT EXISTS feed_seq BIGINT;
+
+CREATE SEQUENCE IF NOT EXISTS public.webhook_events_out_feed_seq;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_out_feed
+  ON public.webhook_events_out (organization_id, feed_seq)
+  WHERE feed_seq IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_out_unsequenced
+  ON public.webhook_events_out (organization_id, created_at, id)
+  WHERE feed_seq IS NULL;
+
+-- Worker: fila de entregas pendentes (queued aguardando resposta / retrying aguardando backoff)
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+  ON public.webhook_deliveries (status, next_attempt_at)
+  WHERE status IN ('queued', 'retrying');
+
+-- Log de entregas (Configurações → Webhooks): listagem recente por organização
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_org_attempted
+  ON public.webhook_deliveries (organization_id, attempted_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_in_org_received
+  ON public.webhook_events_in (organization_id, received_at DESC);
+
 -- Upgrade-safe: ajustar FKs para não bloquear deleções (evita 409 em deletes via PostgREST)
 ALTER TABLE public.webhook_events_in
   DROP CONSTRAINT IF EXISTS webhook_events_in_created_contact_id_fkey,
@@ -2106,24 +3133,399 @@ CREATE POLICY "Admins can view deliveries"
     )
   );
 
--- Trigger: deal mudou de estágio -> dispara webhook outbound (MVP)
-CREATE OR REPLACE FUNCTION public.notify_deal_stage_changed()
-RETURNS trigger
+-- -----------------------------------------------------------------------------
+-- Entrega outbound: dispatch, retry com backoff e dead-letter
+-- -----------------------------------------------------------------------------
+
+-- Backoff exponencial a partir da tentativa N: 1min, 2min, 4min, 8min... (teto: 6h)
+CREATE OR REPLACE FUNCTION public._webhook_backoff_interval(p_attempt INT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_interval(secs => LEAST(60 * power(2, GREATEST(p_attempt - 1, 0)), 21600));
+$$;
+
+-- Falha de uma tentativa: agenda retry ou move para dead-letter quando esgotar max_attempts
+CREATE OR REPLACE FUNCTION public._webhook_schedule_retry(
+  p_delivery_id UUID,
+  p_response_status INT,
+  p_error TEXT
+)
+RETURNS VOID
 LANGUAGE plpgsql
 SECURITY DEFINER
 AS $$
 DECLARE
-  endpoint RECORD;
-  board_name TEXT;
-  from_label TEXT;
-  to_label TEXT;
-  contact_name TEXT;
-  contact_phone TEXT;
-  contact_email TEXT;
-  payload JSONB;
-  event_id UUID;
-  delivery_id UUID;
+  attempts INT;
+  max_allowed INT;
+BEGIN
+  SELECT wd.attempt_count, e.max_attempts
+    INTO attempts, max_allowed
+  FROM public.webhook_deliveries wd
+  JOIN public.integration_outbound_endpoints e ON e.id = wd.endpoint_id
+  WHERE wd.id = p_delivery_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF attempts >= COALESCE(max_allowed, 5) THEN
+    UPDATE public.webhook_deliveries
+      SET status = 'dead',
+          response_status = p_response_status,
+          error = p_error,
+          next_attempt_at = NULL,
+          completed_at = now()
+    WHERE id = p_delivery_id;
+  ELSE
+    UPDATE public.webhook_deliveries
+      SET status = 'retrying',
+          response_status = p_response_status,
+          error = p_error,
+          next_attempt_at = now() + public._webhook_backoff_interval(attempts)
+    WHERE id = p_delivery_id;
+  END IF;
+END;
+$$;
+
+-- Assinatura HMAC-SHA256 (hex) de uma entrega: HMAC(secret, "<timestamp>.<delivery_id>.<body>").
+-- Espelha `computeWebhookSignature` em lib/webhooks/signature.ts.
+CREATE OR REPLACE FUNCTION public._webhook_sign(p_secret TEXT, p_timestamp TEXT, p_delivery_id UUID, p_body TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(hmac(p_timestamp || '.' || p_delivery_id::TEXT || '.' || p_body, p_secret, 'sha256'), 'hex');
+$$;
+
+-- Dispara (ou re-dispara) uma entrega via pg_net. A resposta é reconciliada depois pelo worker.
+-- O secret nunca trafega: o destino valida `X-Webhook-Signature` (ver docs/webhooks.md).
+CREATE OR REPLACE FUNCTION public._webhook_dispatch_delivery(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  d RECORD;
   req_id BIGINT;
+  ts TEXT;
+BEGIN
+  SELECT wd.id, e.url, e.secret, ev.payload
+    INTO d
+  FROM public.webhook_deliveries wd
+  JOIN public.integration_outbound_endpoints e ON e.id = wd.endpoint_id
+  JOIN public.webhook_events_out ev ON ev.id = wd.event_id
+  WHERE wd.id = p_delivery_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.webhook_deliveries
+    SET status = 'queued',
+        attempt_count = attempt_count + 1,
+        attempted_at = now(),
+        next_attempt_at = NULL,
+        request_id = NULL,
+        response_status = NULL,
+        response_body = NULL,
+        error = NULL
+  WHERE id = p_delivery_id;
+
+  ts := floor(extract(epoch FROM clock_timestamp()))::BIGINT::TEXT;
+
+  BEGIN
+    -- pg_net serializa o body como `payload::text`; assinamos exatamente esses bytes.
+    SELECT net.http_post(
+      url := d.url,
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'X-Webhook-Id', p_delivery_id::TEXT,
+        'X-Webhook-Timestamp', ts,
+        'X-Webhook-Signature', 'v1=' || public._webhook_sign(d.secret, ts, p_delivery_id, d.payload::TEXT)
+      ),
+      body := d.payload
+    ) INTO req_id;
+
+    UPDATE public.webhook_deliveries
+      SET request_id = req_id
+    WHERE id = p_delivery_id;
+  EXCEPTION WHEN OTHERS THEN
+    PERFORM public._webhook_schedule_retry(p_delivery_id, NULL, SQLERRM);
+  END;
+END;
+$$;
+
+-- Worker: reconcilia respostas do pg_net e re-dispara entregas cujo backoff venceu.
+-- Idempotente e seguro para rodar em paralelo (SKIP LOCKED).
+CREATE OR REPLACE FUNCTION public.process_webhook_deliveries(p_batch_size INT DEFAULT 100)
+RETURNS TABLE (
+  reconciled INT,
+  retried INT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  d RECORD;
+BEGIN
+  reconciled := 0;
+  retried := 0;
+
+  -- 1) Respostas do pg_net -> response_status / delivered / retry
+  FOR d IN
+    SELECT
+      wd.id,
+      wd.attempted_at,
+      (r.id IS NOT NULL) AS has_response,
+      r.status_code,
+      r.timed_out,
+      r.error_msg,
+      r.content
+    FROM public.webhook_deliveries wd
+    LEFT JOIN net._http_response r ON r.id = wd.request_id
+    WHERE wd.status = 'queued'
+      AND wd.request_id IS NOT NULL
+    ORDER BY wd.attempted_at
+    LIMIT p_batch_size
+    FOR UPDATE OF wd SKIP LOCKED
+  LOOP
+    IF NOT d.has_response THEN
+      -- pg_net ainda não respondeu. Depois de 10 min consideramos perdida (timeout/TTL da tabela de respostas).
+      IF d.attempted_at < now() - interval '10 minutes' THEN
+        PERFORM public._webhook_schedule_retry(d.id, NULL, 'Sem resposta do destino (timeout)');
+        reconciled := reconciled + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.webhook_deliveries
+      SET response_body = left(d.content, 4000)
+    WHERE id = d.id;
+
+    IF d.status_code BETWEEN 200 AND 299 THEN
+      UPDATE public.webhook_deliveries
+        SET status = 'delivered',
+            response_status = d.status_code,
+            error = NULL,
+            completed_at = now()
+      WHERE id = d.id;
+    ELSE
+      PERFORM public._webhook_schedule_retry(
+        d.id,
+        d.status_code,
+        COALESCE(
+          NULLIF(d.error_msg, ''),
+          CASE WHEN d.timed_out THEN 'Timeout' ELSE 'HTTP ' || d.status_code::TEXT END
+        )
+      );
+    END IF;
+
+    reconciled := reconciled + 1;
+  END LOOP;
+
+  -- 2) Retries vencidos (endpoints inativos ficam parados até reativar)
+  FOR d IN
+    SELECT wd.id
+    FROM public.webhook_deliveries wd
+    JOIN public.integration_outbound_endpoints e ON e.id = wd.endpoint_id
+    WHERE wd.status = 'retrying'
+      AND wd.next_attempt_at <= now()
+      AND e.active = true
+    ORDER BY wd.next_attempt_at
+    LIMIT p_batch_size
+    FOR UPDATE OF wd SKIP LOCKED
+  LOOP
+    PERFORM public._webhook_dispatch_delivery(d.id);
+    retried := retried + 1;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Replay (admin via UI): reenvia uma entrega (ex.: da dead-letter) zerando as tentativas
+CREATE OR REPLACE FUNCTION public.replay_webhook_delivery(p_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  uid UUID;
+  org_id UUID;
+  delivery_org UUID;
+BEGIN
+  uid := auth.uid();
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT p.organization_id INTO org_id
+  FROM public.profiles p
+  WHERE p.id = uid AND p.role = 'admin';
+
+  IF org_id IS NULL THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  SELECT wd.organization_id INTO delivery_org
+  FROM public.webhook_deliveries wd
+  WHERE wd.id = p_delivery_id;
+
+  IF delivery_org IS NULL THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF delivery_org <> org_id THEN
+    RAISE EXCEPTION 'Forbidden';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+    SET attempt_count = 0,
+        completed_at = NULL
+  WHERE id = p_delivery_id;
+
+  PERFORM public._webhook_dispatch_delivery(p_delivery_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._webhook_sign(TEXT, TEXT, UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public._webhook_schedule_retry(UUID, INT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public._webhook_dispatch_delivery(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.process_webhook_deliveries(INT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.replay_webhook_delivery(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_webhook_deliveries(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.replay_webhook_delivery(UUID) TO authenticated;
+
+-- Agenda o worker a cada minuto (best-effort: só quando pg_cron existe no projeto)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'process-webhook-deliveries',
+      '* * * * *',
+      'SELECT public.process_webhook_deliveries()'
+    );
+  END IF;
+END $$;
+
+-- Helpers de payload: todos os eventos compartilham o envelope
+-- { event_type, occurred_at, deal?, contact?, activity? }
+CREATE OR REPLACE FUNCTION public._webhook_deal_json(d public.deals)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'id', d.id,
+    'title', d.title,
+    'value', d.value,
+    'board_id', d.board_id,
+    'board_name', (SELECT b.name FROM public.boards b WHERE b.id = d.board_id),
+    'stage_id', d.stage_id,
+    'stage_label', (SELECT bs.label FROM public.board_stages bs WHERE bs.id = d.stage_id),
+    'contact_id', d.contact_id,
+    'is_won', d.is_won,
+    'is_lost', d.is_lost,
+    'loss_reason', d.loss_reason,
+    'closed_at', d.closed_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public._webhook_contact_json(p_contact_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'phone', c.phone,
+    'email', c.email,
+    'role', c.role,
+    'company_name', c.company_name,
+    'client_company_id', c.client_company_id,
+    'status', c.status,
+    'stage', c.stage,
+    'source', c.source
+  )
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.contacts c ON c.id = p_contact_id;
+$$;
+
+-- Registra o evento (sempre: alimenta o feed `GET /events` da API pública) e enfileira
+-- uma entrega por endpoint ativo inscrito em p_event_type.
+CREATE OR REPLACE FUNCTION public._webhook_emit_event(
+  p_organization_id UUID,
+  p_event_type TEXT,
+  p_payload JSONB,
+  p_deal_id UUID DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL,
+  p_activity_id UUID DEFAULT NULL,
+  p_from_stage_id UUID DEFAULT NULL,
+  p_to_stage_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  endpoint RECORD;
+  payload JSONB;
+  event_id UUID;
+  delivery_id UUID;
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  payload := jsonb_build_object('event_type', p_event_type, 'occurred_at', now())
+    || COALESCE(p_payload, '{}'::jsonb);
+
+  INSERT INTO public.webhook_events_out (
+    organization_id, event_type, payload, deal_id, contact_id, activity_id, from_stage_id, to_stage_id
+  )
+  VALUES (
+    p_organization_id, p_event_type, payload, p_deal_id, p_contact_id, p_activity_id, p_from_stage_id, p_to_stage_id
+  )
+  RETURNING id INTO event_id;
+
+  FOR endpoint IN
+    SELECT e.id FROM public.integration_outbound_endpoints e
+    WHERE e.organization_id = p_organization_id
+      AND e.active = true
+      AND p_event_type = ANY(e.events)
+  LOOP
+    INSERT INTO public.webhook_deliveries (organization_id, endpoint_id, event_id, status)
+    VALUES (p_organization_id, endpoint.id, event_id, 'queued')
+    RETURNING id INTO delivery_id;
+
+    -- Dispara HTTP async (falhas viram retry/dead-letter via worker)
+    PERFORM public._webhook_dispatch_delivery(delivery_id);
+  END LOOP;
+
+  RETURN event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._webhook_deal_json(public.deals) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public._webhook_contact_json(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public._webhook_emit_event(UUID, TEXT, JSONB, UUID, UUID, UUID, UUID, UUID) FROM PUBLIC;
+
+-- Trigger: deal mudou de estágio -> dispara webhook outbound
+CREATE OR REPLACE FUNCTION public.notify_deal_stage_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  board_name TEXT;
+  from_label TEXT;
+  to_label TEXT;
 BEGIN
   IF (TG_OP <> 'UPDATE') THEN
     RETURN NEW;
@@ -2138,22 +3540,10 @@ BEGIN
   SELECT bs.label INTO to_label FROM public.board_stages bs WHERE bs.id = NEW.stage_id;
   SELECT bs.label INTO from_label FROM public.board_stages bs WHERE bs.id = OLD.stage_id;
 
-  IF NEW.contact_id IS NOT NULL THEN
-    SELECT c.name, c.phone, c.email
-      INTO contact_name, contact_phone, contact_email
-    FROM public.contacts c
-    WHERE c.id = NEW.contact_id;
-  END IF;
-
-  FOR endpoint IN
-    SELECT * FROM public.integration_outbound_endpoints e
-    WHERE e.organization_id = NEW.organization_id
-      AND e.active = true
-      AND 'deal.stage_changed' = ANY(e.events)
-  LOOP
-    payload := jsonb_build_object(
-      'event_type', 'deal.stage_changed',
-      'occurred_at', now(),
+  PERFORM public._webhook_emit_event(
+    NEW.organization_id,
+    'deal.stage_changed',
+    jsonb_build_object(
       'deal', jsonb_build_object(
         'id', NEW.id,
         'title', NEW.title,
@@ -2167,53 +3557,367 @@ BEGIN
         'to_stage_label', to_label,
         'contact_id', NEW.contact_id
       ),
-      'contact', jsonb_build_object(
-        'name', contact_name,
-        'phone', contact_phone,
-        'email', contact_email
-      )
+      'contact', public._webhook_contact_json(NEW.contact_id)
+    ),
+    p_deal_id => NEW.id,
+    p_contact_id => NEW.contact_id,
+    p_from_stage_id => OLD.stage_id,
+    p_to_stage_id => NEW.stage_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_deal_stage_changed ON public.deals;
+CREATE TRIGGER trg_notify_deal_stage_changed
+AFTER UPDATE ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_deal_stage_changed();
+
+-- Trigger: ciclo de vida do deal -> deal.created | deal.won | deal.lost | deal.reopened
+-- (cobre mark_deal_won/mark_deal_lost/reopen_deal e updates diretos via app/API)
+CREATE OR REPLACE FUNCTION public.notify_deal_lifecycle_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lifecycle_event TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    lifecycle_event := 'deal.created';
+  ELSIF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  ELSIF COALESCE(NEW.is_won, false) AND NOT COALESCE(OLD.is_won, false) THEN
+    lifecycle_event := 'deal.won';
+  ELSIF COALESCE(NEW.is_lost, false) AND NOT COALESCE(OLD.is_lost, false) THEN
+    lifecycle_event := 'deal.lost';
+  ELSIF (COALESCE(OLD.is_won, false) OR COALESCE(OLD.is_lost, false))
+    AND NOT COALESCE(NEW.is_won, false) AND NOT COALESCE(NEW.is_lost, false) THEN
+    lifecycle_event := 'deal.reopened';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM public._webhook_emit_event(
+    NEW.organization_id,
+    lifecycle_event,
+    jsonb_build_object(
+      'deal', public._webhook_deal_json(NEW),
+      'contact', public._webhook_contact_json(NEW.contact_id)
+    ),
+    p_deal_id => NEW.id,
+    p_contact_id => NEW.contact_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notify_deal_lifecycle_changed ON public.deals;
+CREATE TRIGGER trg_notify_deal_lifecycle_changed
+AFTER INSERT OR UPDATE ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_deal_lifecycle_changed();
+
+-- Trigger: contato criado/editado/excluído -> contact.created | contact.updated | contact.deleted
+CREATE OR REPLACE FUNCTION public.notify_contact_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  tracked TEXT[] := ARRAY[
+    'name', 'email', 'phone', 'role', 'company_name', 'client_company_id',
+    'notes', 'status', 'stage', 'source', 'birth_date', 'owner_id'
+  ];
+  changed_fields TEXT[];
+  payload JSONB;
+BEGIN
+  -- Exclusão definitiva: a linha já não existe (sem FK no evento; o payload vem de OLD).
+  -- Se a organização inteira está sendo apagada, não há feed para alimentar.
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL AND EXISTS (SELECT 1 FROM public.organizations o WHERE o.id = OLD.organization_id) THEN
+      PERFORM public._webhook_emit_event(
+        OLD.organization_id,
+        'contact.deleted',
+        jsonb_build_object('contact', jsonb_build_object(
+          'id', OLD.id,
+          'name', OLD.name,
+          'phone', OLD.phone,
+          'email', OLD.email,
+          'role', OLD.role,
+          'company_name', OLD.company_name,
+          'client_company_id', OLD.client_company_id,
+          'status', OLD.status,
+          'stage', OLD.stage,
+          'source', OLD.source
+        ))
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    PERFORM public._webhook_emit_event(
+      NEW.organization_id,
+      'contact.deleted',
+      jsonb_build_object('contact', public._webhook_contact_json(NEW.id)),
+      p_contact_id => NEW.id
     );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
 
-    INSERT INTO public.webhook_events_out (organization_id, event_type, payload, deal_id, from_stage_id, to_stage_id)
-    VALUES (NEW.organization_id, 'deal.stage_changed', payload, NEW.id, OLD.stage_id, NEW.stage_id)
-    RETURNING id INTO event_id;
+  payload := jsonb_build_object('contact', public._webhook_contact_json(NEW.id));
 
-    INSERT INTO public.webhook_deliveries (organization_id, endpoint_id, event_id, status)
-    VALUES (NEW.organization_id, endpoint.id, event_id, 'queued')
-    RETURNING id INTO delivery_id;
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public._webhook_emit_event(NEW.organization_id, 'contact.created', payload, p_contact_id => NEW.id);
+    RETURN NEW;
+  END IF;
 
-    -- Dispara HTTP async (MVP)
-    BEGIN
-      SELECT net.http_post(
-        url := endpoint.url,
-        headers := jsonb_build_object(
-          'Content-Type', 'application/json',
-          'X-Webhook-Secret', endpoint.secret,
-          'Authorization', ('Bearer ' || endpoint.secret)
-        ),
-        body := payload
-      ) INTO req_id;
+  -- Só campos editáveis: ignora updated_at/last_interaction/total_value (derivados)
+  SELECT array_agg(f ORDER BY f) INTO changed_fields
+  FROM unnest(tracked) AS f
+  WHERE to_jsonb(NEW) -> f IS DISTINCT FROM to_jsonb(OLD) -> f;
 
-      UPDATE public.webhook_deliveries
-        SET request_id = req_id
-      WHERE id = delivery_id;
-    EXCEPTION WHEN OTHERS THEN
-      UPDATE public.webhook_deliveries
-        SET status = 'failed',
-            error = SQLERRM
-      WHERE id = delivery_id;
-    END;
-  END LOOP;
+  IF changed_fields IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public._webhook_emit_event(
+    NEW.organization_id,
+    'contact.updated',
+    payload || jsonb_build_object('changed_fields', to_jsonb(changed_fields)),
+    p_contact_id => NEW.id
+  );
 
   RETURN NEW;
 END;
 $$;
 
-DROP TRIGGER IF EXISTS trg_notify_deal_stage_changed ON public.deals;
-CREATE TRIGGER trg_notify_deal_stage_changed
-AFTER UPDATE ON public.deals
+DROP TRIGGER IF EXISTS trg_notify_contact_changed ON public.contacts;
+CREATE TRIGGER trg_notify_contact_changed
+AFTER INSERT OR UPDATE OR DELETE ON public.contacts
 FOR EACH ROW
-EXECUTE FUNCTION public.notify_deal_stage_changed();
+EXECUTE FUNCTION public.notify_contact_changed();
+
+-- Trigger: ciclo de vida da atividade -> activity.created | activity.updated | activity.completed | activity.deleted
+CREATE OR REPLACE FUNCTION public.notify_activity_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  tracked TEXT[] := ARRAY[
+    'title', 'description', 'type', 'date', 'completed', 'deal_id', 'contact_id', 'client_company_id', 'owner_id'
+  ];
+  changed_fields TEXT[];
+  deal_row public.deals%ROWTYPE;
+  activity_contact_id UUID;
+  payload JSONB;
+  became_completed BOOLEAN;
+BEGIN
+  -- Exclusão definitiva (inclusive em cascata do deal): evento sem FKs, payload vem de OLD.
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.deleted_at IS NULL AND EXISTS (SELECT 1 FROM public.organizations o WHERE o.id = OLD.organization_id) THEN
+      IF OLD.deal_id IS NOT NULL THEN
+        SELECT * INTO deal_row FROM public.deals d WHERE d.id = OLD.deal_id;
+      END IF;
+      activity_contact_id := COALESCE(OLD.contact_id, deal_row.contact_id);
+
+      PERFORM public._webhook_emit_event(
+        OLD.organization_id,
+        'activity.deleted',
+        jsonb_build_object(
+          'activity', jsonb_build_object(
+            'id', OLD.id,
+            'type', OLD.type,
+            'title', OLD.title,
+            'description', OLD.description,
+            'date', OLD.date,
+            'completed', COALESCE(OLD.completed, false),
+            'deal_id', OLD.deal_id,
+            'contact_id', activity_contact_id
+          ),
+          'deal', CASE WHEN deal_row.id IS NULL THEN NULL ELSE public._webhook_deal_json(deal_row) END,
+          'contact', public._webhook_contact_json(activity_contact_id)
+        )
+      );
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deal_id IS NOT NULL THEN
+    SELECT * INTO deal_row FROM public.deals d WHERE d.id = NEW.deal_id;
+  END IF;
+
+  activity_contact_id := COALESCE(NEW.contact_id, deal_row.contact_id);
+
+  payload := jsonb_build_object(
+    'activity', jsonb_build_object(
+      'id', NEW.id,
+      'type', NEW.type,
+      'title', NEW.title,
+      'description', NEW.description,
+      'date', NEW.date,
+      'completed', COALESCE(NEW.completed, false),
+      'deal_id', NEW.deal_id,
+      'contact_id', activity_contact_id
+    ),
+    'deal', CASE WHEN deal_row.id IS NULL THEN NULL ELSE public._webhook_deal_json(deal_row) END,
+    'contact', public._webhook_contact_json(activity_contact_id)
+  );
+
+  IF TG_OP = 'UPDATE' AND NEW.deleted_at IS NOT NULL THEN
+    PERFORM public._webhook_emit_event(
+      NEW.organization_id, 'activity.deleted', payload,
+      p_deal_id => NEW.deal_id, p_contact_id => activity_contact_id, p_activity_id => NEW.id
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  became_completed := COALESCE(NEW.completed, false)
+    AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.completed, false));
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public._webhook_emit_event(
+      NEW.organization_id, 'activity.created', payload,
+      p_deal_id => NEW.deal_id, p_contact_id => activity_contact_id, p_activity_id => NEW.id
+    );
+  ELSE
+    SELECT array_agg(f ORDER BY f) INTO changed_fields
+    FROM unnest(tracked) AS f
+    WHERE to_jsonb(NEW) -> f IS DISTINCT FROM to_jsonb(OLD) -> f;
+
+    IF changed_fields IS NOT NULL THEN
+      PERFORM public._webhook_emit_event(
+        NEW.organization_id, 'activity.updated',
+        payload || jsonb_build_object('changed_fields', to_jsonb(changed_fields)),
+        p_deal_id => NEW.deal_id, p_contact_id => activity_contact_id, p_activity_id => NEW.id
+      );
+    END IF;
+  END IF;
+
+  IF became_completed THEN
+    PERFORM public._webhook_emit_event(
+      NEW.organization_id, 'activity.completed', payload,
+      p_deal_id => NEW.deal_id, p_contact_id => activity_contact_id, p_activity_id => NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Substituído por notify_activity_changed (activity.completed continua sendo emitido por ele)
+DROP TRIGGER IF EXISTS trg_notify_activity_completed ON public.activities;
+DROP FUNCTION IF EXISTS public.notify_activity_completed();
+
+DROP TRIGGER IF EXISTS trg_notify_activity_changed ON public.activities;
+CREATE TRIGGER trg_notify_activity_changed
+AFTER INSERT OR UPDATE OR DELETE ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_activity_changed();
+
+-- Feed de eventos da API pública (`GET /api/public/v1/events`).
+-- Numera (feed_seq) os eventos já commitados ainda sem número, sob lock por organização, e lista os
+-- posteriores ao cursor. Como a numeração é serializada e só vê linhas commitadas, um evento nunca
+-- ganha número menor que um cursor já entregue.
+CREATE OR REPLACE FUNCTION public.list_public_api_events(
+  p_organization_id UUID,
+  p_after_seq BIGINT DEFAULT 0,
+  p_limit INT DEFAULT 100,
+  p_event_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  feed_seq BIGINT,
+  event_type TEXT,
+  payload JSONB,
+  deal_id UUID,
+  contact_id UUID,
+  activity_id UUID,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('public_api_events:' || p_organization_id::text));
+
+  UPDATE public.webhook_events_out ev
+  SET feed_seq = numbered.seq
+  FROM (
+    SELECT pending.id, nextval('public.webhook_events_out_feed_seq') AS seq
+    FROM (
+      SELECT e.id
+      FROM public.webhook_events_out e
+      WHERE e.organization_id = p_organization_id
+        AND e.feed_seq IS NULL
+      ORDER BY e.created_at, e.id
+      LIMIT 5000
+    ) AS pending
+  ) AS numbered
+  WHERE ev.id = numbered.id;
+
+  RETURN QUERY
+  SELECT ev.id, ev.feed_seq, ev.event_type, ev.payload, ev.deal_id, ev.contact_id, ev.activity_id, ev.created_at
+  FROM public.webhook_events_out ev
+  WHERE ev.organization_id = p_organization_id
+    AND ev.feed_seq > COALESCE(p_after_seq, 0)
+    AND (p_event_types IS NULL OR ev.event_type = ANY(p_event_types))
+  ORDER BY ev.feed_seq
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 100), 1000));
+END;
+$$;
+
+-- Retenção: eventos sem entregas (só alimentam o feed) ficam 30 dias.
+-- Eventos com entregas seguem junto com o log de entregas (Configurações → Webhooks).
+CREATE OR REPLACE FUNCTION public.cleanup_public_api_events()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM public.webhook_events_out ev
+  WHERE ev.created_at < now() - interval '30 days'
+    AND NOT EXISTS (SELECT 1 FROM public.webhook_deliveries wd WHERE wd.event_id = ev.id);
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_public_api_events(UUID, BIGINT, INT, TEXT[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.cleanup_public_api_events() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_public_api_events(UUID, BIGINT, INT, TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cleanup_public_api_events() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'cleanup-public-api-events',
+      '41 3 * * *',
+      'SELECT public.cleanup_public_api_events()'
+    );
+  END IF;
+END $$;
 
 -- =============================================================================
 -- PART 6: REALTIME CONFIGURATION
@@ -2247,6 +3951,10 @@ BEGIN
     IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'boards') THEN
         ALTER PUBLICATION supabase_realtime ADD TABLE boards;
     END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'ai_decisions') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE ai_decisions;
+    END IF;
 END $$;
 
 -- =============================================================================
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { APICallError } from 'ai';
+import {
+  buildAIModelChain,
+  createFallbackMiddleware,
+  isQuotaOrRateLimitError,
+  parseAIFallbackChain,
+  providerCredentialsFromSettings,
+} from '@/lib/ai/provider';
+
+function apiError(statusCode: number, responseBody = '') {
+  return new APICallError({ message: `HTTP ${statusCode}`, url: 'https://example.test', requestBodyValues: {}, statusCode, responseBody });
+}
+
+function fakeModel(provider: string, modelId: string, doGenerate: () => Promise<unknown>) {
+  return { specificationVersion: 'v3', provider, modelId, supportedUrls: {}, doGenerate, doStream: doGenerate } as any;
+}
+
+describe('parseAIFallbackChain', () => {
+  it('keeps valid entries in order and drops the rest', () => {
+    expect(
+      parseAIFallbackChain([
+        { provider: 'openai', model: ' gpt-4o ' },
+        { provider: 'mistral', model: 'x' },
+        'anthropic',
+        { provider: 'anthropic' },
+        { provider: 'openai', model: 'gpt-4o' },
+      ])
+    ).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'anthropic', model: '' },
+    ]);
+  });
+
+  it('caps the chain and tolerates non-arrays', () => {
+    const many = ['google', 'openai', 'anthropic'].flatMap((provider) => [{ provider, model: 'a' }, { provider, model: 'b' }]);
+    expect(parseAIFallbackChain(many)).toHaveLength(3);
+    expect(parseAIFallbackChain(null)).toEqual([]);
+    expect(parseAIFallbackChain({ provider: 'google' })).toEqual([]);
+  });
+});
+
+describe('providerCredentialsFromSettings', () => {
+  it('requires a key for cloud providers and a base URL for the local one', () => {
+    expect(
+      providerCredentialsFromSettings({ ai_google_key: ' g ', ai_openai_key: '', ai_local_base_url: 'http://ollama:11434/v1' })
+    ).toEqual({
+      google: { apiKey: 'g' },
+      openai: null,
+      anthropic: null,
+      openai_compatible: { apiKey: '', baseURL: 'http://ollama:11434/v1' },
+    });
+    expect(providerCredentialsFromSettings({ ai_local_key: 'k' }).openai_compatible).toBeNull();
+  });
+});
+
+describe('buildAIModelChain', () => {
+  it('puts the primary first and skips providers without a key', () => {
+    const chain = buildAIModelChain({
+      primary: { provider: 'google', model: 'gemini-2.5-flash' },
+      fallbacks: [
+        { provider: 'openai', model: 'gpt-4o' },
+        { provider: 'anthropic', model: '' },
+        { provider: 'google', model: 'gemini-2.5-flash' },
+      ],
+      credentials: providerCredentialsFromSettings({ ai_google_key: 'g-key', ai_openai_key: '  ', ai_anthropic_key: 'a-key' }),
+    });
+    expect(chain.map((c) => `${c.provider}:${c.model}`)).toEqual(['google:gemini-2.5-flash', 'anthropic:']);
+    expect(chain[1].apiKey).toBe('a-key');
+  });
+
+  it('lets the first keyed fallback take over when the primary has no key', () => {
+    const chain = buildAIModelChain({
+      primary: { provider: 'openai', model: 'gpt-4o' },
+      fallbacks: [{ provider: 'google', model: '' }],
+      credentials: { google: { apiKey: 'g-key' } },
+    });
+    expect(chain).toEqual([{ provider: 'google', model: '', apiKey: 'g-key' }]);
+  });
+
+  it('passes the base URL of the local provider and requires its model', () => {
+    const credentials = { openai_compatible: { apiKey: '', baseURL: 'http://vllm:8000/v1' } };
+    expect(
+      buildAIModelChain({ primary: { provider: 'openai_compatible', model: 'llama3.1' }, fallbacks: [], credentials })
+    ).toEqual([{ provider: 'openai_compatible', model: 'llama3.1', apiKey: '', baseURL: 'http://vllm:8000/v1' }]);
+    expect(buildAIModelChain({ primary: { provider: 'openai_compatible', model: '' }, fallbacks: [], credentials })).toEqual([]);
+  });
+});
+
+describe('isQuotaOrRateLimitError', () => {
+  it('detects quota and rate limit responses', () => {
+    expect(isQuotaOrRateLimitError(apiError(429))).toBe(true);
+    expect(isQuotaOrRateLimitError(apiError(529))).toBe(true);
+    expect(isQuotaOrRateLimitError(apiError(403, '{"error":{"status":"RESOURCE_EXHAUSTED"}}'))).toBe(true);
+    expect(isQuotaOrRateLimitError(apiError(400, '{"error":{"code":"insufficient_quota"}}'))).toBe(true);
+    expect(isQuotaOrRateLimitError({ status: 429 })).toBe(true);
+  });
+
+  it('ignores other failures', () => {
+    expect(isQuotaOrRateLimitError(apiError(400, 'invalid prompt'))).toBe(false);
+    expect(isQuotaOrRateLimitError(apiError(401, 'invalid api key'))).toBe(false);
+    expect(isQuotaOrRateLimitError(new Error('boom'))).toBe(false);
+    expect(isQuotaOrRateLimitError(null)).toBe(false);
+  });
+});
+
+describe('createFallbackMiddleware', () => {
+  const primary = fakeModel('google', 'gemini', async () => ({}));
+
+  it('retries the next model on quota errors', async () => {
+    const openai = fakeModel('openai', 'gpt-4o', vi.fn(async () => { throw apiError(429); }));
+    const anthropic = fakeModel('anthropic', 'claude', vi.fn(async () => ({ text: 'ok' })));
+    const onFallback = vi.fn();
+    const middleware = createFallbackMiddleware([openai, anthropic], onFallback);
+
+    const out = await middleware.wrapGenerate!({
+      doGenerate: async () => { throw apiError(429); },
+      doStream: async () => { throw new Error('unused'); },
+      params: { prompt: [] } as any,
+      model: primary,
+    });
+
+    expect(out).toEqual({ text: 'ok' });
+    expect(onFallback.mock.calls.map(([info]) => [info.from, info.to])).toEqual([
+      ['google:gemini', 'openai:gpt-4o'],
+      ['openai:gpt-4o', 'anthropic:claude'],
+    ]);
+  });
+
+  it('does not fall back on non-quota errors', async () => {
+    const openai = fakeModel('openai', 'gpt-4o', vi.fn(async () => ({ text: 'never' })));
+    const middleware = createFallbackMiddleware([openai]);
+    const error = apiError(400, 'invalid prompt');
+
+    await expect(
+      middleware.wrapGenerate!({
+        doGenerate: async () => { throw error; },
+        doStream: async () => { throw new Error('unused'); },
+        params: { prompt: [] } as any,
+        model: primary,
+      })
+    ).rejects.toBe(error);
+    expect(openai.doGenerate).not.toHaveBeenCalled();
+  });
+});
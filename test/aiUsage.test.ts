@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AIBudgetExceededError,
+  createAIUsageMeterFromState,
+  estimateAICostUsd,
+  findExceededAIBudget,
+  remainingAIBudgetUsd,
+  summarizeAIUsage,
+  tokensFromUsage,
+  type AIUsageEvent,
+} from '@/lib/ai/usage';
+
+const context = { organizationId: 'org-1', userId: 'user-1', source: 'task' as const, feature: 'ai_email_draft' };
+
+function usage(input: number, output: number) {
+  return {
+    inputTokens: { total: input, noCache: input, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: output, text: output, reasoning: 0 },
+  };
+}
+
+function generateArgs(modelProvider: string, modelId: string, result: unknown) {
+  return {
+    doGenerate: vi.fn(async () => result),
+    doStream: async () => { throw new Error('unused'); },
+    params: { prompt: [] } as any,
+    model: { specificationVersion: 'v3', provider: modelProvider, modelId, supportedUrls: {} } as any,
+  };
+}
+
+describe('estimateAICostUsd', () => {
+  it('prices by the longest matching model prefix', () => {
+    expect(estimateAICostUsd({ provider: 'google', model: 'gemini-2.5-flash', inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.3);
+    expect(estimateAICostUsd({ provider: 'google', model: 'gemini-2.5-flash-lite', inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.1);
+    expect(estimateAICostUsd({ provider: 'openai', model: 'gpt-5.2-chat-latest', inputTokens: 0, outputTokens: 1_000_000 })).toBe(14);
+  });
+
+  it('falls back to the provider default and charges nothing for local models', () => {
+    expect(estimateAICostUsd({ provider: 'anthropic', model: 'claude-unknown', inputTokens: 1_000_000, outputTokens: 0 })).toBe(3);
+    expect(estimateAICostUsd({ provider: 'openai_compatible', model: 'gpt-4o', inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(0);
+    expect(estimateAICostUsd({ provider: null, model: 'mystery', inputTokens: 10, outputTokens: 10 })).toBe(0);
+  });
+});
+
+describe('tokensFromUsage', () => {
+  it('reads v3 usage objects and plain numbers', () => {
+    expect(tokensFromUsage(usage(12, 34))).toEqual({ inputTokens: 12, outputTokens: 34 });
+    expect(tokensFromUsage({ inputTokens: 5, outputTokens: undefined })).toEqual({ inputTokens: 5, outputTokens: 0 });
+    expect(tokensFromUsage(undefined)).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+});
+
+describe('budgets', () => {
+  it('uses the tighter of the organization and user limits', () => {
+    expect(remainingAIBudgetUsd({ organizationUsd: 10, userUsd: 2 }, { organizationUsd: 5, userUsd: 1.5 })).toBe(0.5);
+    expect(remainingAIBudgetUsd({ organizationUsd: null, userUsd: null }, { organizationUsd: 99, userUsd: 99 })).toBeNull();
+  });
+
+  it('reports the organization limit first', () => {
+    expect(findExceededAIBudget({ organizationUsd: 10, userUsd: 1 }, { organizationUsd: 10, userUsd: 3 })).toEqual({
+      scope: 'organization',
+      limitUsd: 10,
+      spentUsd: 10,
+    });
+    expect(findExceededAIBudget({ organizationUsd: 10, userUsd: 1 }, { organizationUsd: 4, userUsd: 1 })?.scope).toBe('user');
+    expect(findExceededAIBudget({ organizationUsd: null, userUsd: 1 }, { organizationUsd: 4, userUsd: 0.5 })).toBeNull();
+  });
+});
+
+describe('createAIUsageMeterFromState', () => {
+  it('refuses to start when the month is already over budget', () => {
+    expect(() =>
+      createAIUsageMeterFromState({
+        context,
+        limits: { organizationUsd: 5, userUsd: null },
+        spend: { organizationUsd: 5, userUsd: 0 },
+        record: async () => {},
+      })
+    ).toThrow(AIBudgetExceededError);
+  });
+
+  it('records the model that answered with its tokens and cost', async () => {
+    const events: AIUsageEvent[] = [];
+    const meter = createAIUsageMeterFromState({
+      context,
+      limits: { organizationUsd: null, userUsd: null },
+      spend: { organizationUsd: 0, userUsd: 0 },
+      record: async (e) => { events.push(e); },
+    });
+
+    await meter.middleware.wrapGenerate!(generateArgs('anthropic.messages', 'claude-haiku-4-5', { usage: usage(1000, 200) }));
+
+    expect(events).toEqual([
+      {
+        ...context,
+        provider: 'anthropic',
+        model: 'claude-haiku-4-5',
+        inputTokens: 1000,
+        outputTokens: 200,
+        costUsd: 0.002,
+      },
+    ]);
+    expect(meter.spentUsd()).toBe(0.002);
+  });
+
+  it('stops further calls once the request spends what was left', async () => {
+    const meter = createAIUsageMeterFromState({
+      context,
+      limits: { organizationUsd: null, userUsd: 1 },
+      spend: { organizationUsd: 0, userUsd: 0.99 },
+      record: async () => {},
+    });
+
+    // gpt-4o: 10 USD / 1M output → 0.05 USD, mais do que restava (0.01).
+    await meter.middleware.wrapGenerate!(generateArgs('openai.chat', 'gpt-4o', { usage: usage(0, 5000) }));
+
+    const next = generateArgs('openai.chat', 'gpt-4o', { usage: usage(0, 1000) });
+    await expect(meter.middleware.wrapGenerate!(next)).rejects.toMatchObject({ code: 'AI_BUDGET_EXCEEDED', scope: 'user' });
+    expect(next.doGenerate).not.toHaveBeenCalled();
+  });
+
+  it('meters streams from the finish part', async () => {
+    const events: AIUsageEvent[] = [];
+    const meter = createAIUsageMeterFromState({
+      context: { ...context, source: 'chat', feature: 'ai_chat_agent' },
+      limits: { organizationUsd: null, userUsd: null },
+      spend: { organizationUsd: 0, userUsd: 0 },
+      record: async (e) => { events.push(e); },
+    });
+
+    const parts = [
+      { type: 'text-delta', id: '1', delta: 'oi' },
+      { type: 'finish', finishReason: 'stop', usage: usage(100, 10) },
+    ];
+    const { stream } = await meter.middleware.wrapStream!({
+      doGenerate: async () => { throw new Error('unused'); },
+      doStream: async () => ({
+        stream: new ReadableStream({
+          start(controller) {
+            for (const p of parts) controller.enqueue(p);
+            controller.close();
+          },
+        }),
+      }) as any,
+      params: { prompt: [] } as any,
+      model: { specificationVersion: 'v3', provider: 'google.generative-ai', modelId: 'gemini-2.5-flash', supportedUrls: {} } as any,
+    });
+
+    const seen: unknown[] = [];
+    const reader = stream.getReader();
+    for (let r = await reader.read(); !r.done; r = await reader.read()) seen.push(r.value);
+
+    expect(seen).toEqual(parts);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ provider: 'google', model: 'gemini-2.5-flash', inputTokens: 100, outputTokens: 10 });
+  });
+});
+
+describe('summarizeAIUsage', () => {
+  it('folds summary rows by feature, user, model and API key', () => {
+    const summary = summarizeAIUsage([
+      { source: 'task', feature_key: 'ai_email_draft', provider: 'google', model: 'gemini-2.5-flash', user_id: 'u1', api_key_id: null, requests: '2', input_tokens: '100', output_tokens: '50', cost_usd: '0.5' },
+      { source: 'chat', feature_key: 'ai_chat_agent', provider: 'google', model: 'gemini-2.5-flash', user_id: 'u2', api_key_id: null, requests: 1, input_tokens: 10, output_tokens: 5, cost_usd: 1 },
+      { source: 'mcp', feature_key: 'crm.deals.list', provider: null, model: null, user_id: 'u1', api_key_id: 'k1', requests: 3, input_tokens: 0, output_tokens: 0, cost_usd: 0 },
+    ]);
+
+    expect(summary.totals).toEqual({ requests: 6, inputTokens: 110, outputTokens: 55, costUsd: 1.5 });
+    expect(summary.byFeature.map((b) => b.key)).toEqual(['chat:ai_chat_agent', 'task:ai_email_draft', 'mcp:crm.deals.list']);
+    expect(summary.byUser.map((b) => [b.key, b.totals.requests])).toEqual([['u2', 1], ['u1', 5]]);
+    expect(summary.byModel).toEqual([{ key: 'google:gemini-2.5-flash', totals: { requests: 3, inputTokens: 110, outputTokens: 55, costUsd: 1.5 } }]);
+    expect(summary.byApiKey.map((b) => b.key)).toEqual(['k1']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_DECIDED_FOR_TUNING,
+  computeDecisionAnalytics,
+  recommendPriorityOffset,
+  type DealOutcomeRow,
+  type DecisionOutcomeRow,
+  type OutcomeStats,
+} from '@/lib/decisions/analytics';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+
+function row(overrides: Partial<DecisionOutcomeRow> = {}): DecisionOutcomeRow {
+  return {
+    analyzer_id: 'stagnant_deals',
+    status: 'pending',
+    deal_id: null,
+    snooze_count: 0,
+    created_at: ago(40 * DAY),
+    processed_at: null,
+    ...overrides,
+  };
+}
+
+function deal(id: string, overrides: Partial<DealOutcomeRow> = {}): DealOutcomeRow {
+  return { id, is_won: false, closed_at: null, last_stage_change_date: null, ...overrides };
+}
+
+const analytics = (rows: DecisionOutcomeRow[], deals: DealOutcomeRow[] = []) =>
+  computeDecisionAnalytics(rows, deals, { since: ago(90 * DAY), windowDays: 14, now: NOW });
+
+function stats(overrides: Partial<OutcomeStats>): OutcomeStats {
+  const group = { observed: 0, advanced: 0, won: 0, advanceRate: null };
+  return {
+    total: 0,
+    approved: 0,
+    rejected: 0,
+    expired: 0,
+    open: 0,
+    snoozed: 0,
+    approvalRate: null,
+    rejectionRate: null,
+    snoozeRate: null,
+    medianHoursToDecision: null,
+    approvedOutcome: group,
+    ignoredOutcome: group,
+    lift: null,
+    ...overrides,
+  };
+}
+
+describe('computeDecisionAnalytics', () => {
+  it('computes approval, rejection and snooze rates per analyzer', () => {
+    const report = analytics([
+      row({ status: 'approved', processed_at: ago(40 * DAY - 2 * HOUR) }),
+      row({ status: 'approved', processed_at: ago(40 * DAY - 4 * HOUR), snooze_count: 1 }),
+      row({ status: 'rejected', processed_at: ago(40 * DAY - 6 * HOUR) }),
+      row({ status: 'snoozed', snooze_count: 2 }),
+      row({ analyzer_id: 'hot_leads', status: 'expired' }),
+    ]);
+
+    const stagnant = report.analyzers[0];
+    expect(stagnant).toMatchObject({ analyzerId: 'stagnant_deals', total: 4, approved: 2, rejected: 1, open: 1, snoozed: 2 });
+    expect(stagnant.approvalRate).toBeCloseTo(2 / 3);
+    expect(stagnant.snoozeRate).toBe(0.5);
+    expect(stagnant.medianHoursToDecision).toBe(4);
+
+    expect(report.analyzers[1]).toMatchObject({ analyzerId: 'hot_leads', expired: 1, approvalRate: null });
+    expect(report.totals.total).toBe(5);
+  });
+
+  it('compares deal progress of approved and ignored decisions inside the window', () => {
+    const approvedAt = 30 * DAY;
+    const report = analytics(
+      [
+        row({ status: 'approved', deal_id: 'moved', processed_at: ago(approvedAt) }),
+        row({ status: 'approved', deal_id: 'won', processed_at: ago(approvedAt) }),
+        row({ status: 'approved', deal_id: 'late', processed_at: ago(approvedAt) }),
+        row({ status: 'rejected', deal_id: 'still', processed_at: ago(approvedAt) }),
+        row({ status: 'pending', deal_id: 'open' }),
+        // janela ainda aberta: fica fora da comparação
+        row({ status: 'approved', deal_id: 'recent', processed_at: ago(3 * DAY) }),
+      ],
+      [
+        deal('moved', { last_stage_change_date: ago(approvedAt - 2 * DAY) }),
+        deal('won', { is_won: true, closed_at: ago(approvedAt - 5 * DAY) }),
+        deal('late', { last_stage_change_date: ago(approvedAt - 20 * DAY) }),
+        deal('still', { last_stage_change_date: ago(60 * DAY) }),
+        deal('open', { last_stage_change_date: ago(35 * DAY) }),
+        deal('recent', { last_stage_change_date: ago(DAY) }),
+      ]
+    );
+
+    const { approvedOutcome, ignoredOutcome } = report.totals;
+    expect(approvedOutcome).toEqual({ observed: 3, advanced: 2, won: 1, advanceRate: 2 / 3 });
+    expect(ignoredOutcome).toEqual({ observed: 2, advanced: 1, won: 0, advanceRate: 0.5 });
+    // amostra pequena nos dois grupos: sem comparação
+    expect(report.totals.lift).toBeNull();
+  });
+});
+
+describe('recommendPriorityOffset', () => {
+  const decided = (approved: number, rejected: number) => ({
+    approved,
+    rejected,
+    approvalRate: approved / (approved + rejected),
+  });
+
+  it('waits for enough decisions', () => {
+    const rec = recommendPriorityOffset(stats(decided(3, 1)));
+    expect(rec.offset).toBe(0);
+    expect(rec.reason).toContain(String(MIN_DECIDED_FOR_TUNING));
+  });
+
+  it('raises analyzers the team approves and lowers the ones it rejects', () => {
+    expect(recommendPriorityOffset(stats(decided(9, 3))).offset).toBe(1);
+    expect(recommendPriorityOffset(stats({ ...decided(9, 3), lift: 12 })).reason).toContain('12 p.p.');
+    expect(recommendPriorityOffset(stats(decided(2, 10))).offset).toBe(-1);
+    expect(recommendPriorityOffset(stats(decided(6, 6))).offset).toBe(0);
+  });
+
+  it('lowers analyzers whose approved decisions do not move deals', () => {
+    expect(recommendPriorityOffset(stats({ ...decided(9, 3), lift: -10 })).offset).toBe(-1);
+  });
+});
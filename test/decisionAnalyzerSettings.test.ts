@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DealView } from '@/types';
+import { stagnantDealsConfig } from '@/features/decisions/analyzers/stagnantDealsAnalyzer';
+import {
+  AnalyzerSettingInputSchema,
+  previewAnalyzerSetting,
+  resolveAnalyzerConfig,
+  runConfiguredAnalyzers,
+  sanitizeAnalyzerParams,
+  shiftPriority,
+  type AnalyzerOverride,
+} from '@/lib/decisions/analyzerSettings';
+import { buildActivity, buildDealView } from './helpers/crmFixtures';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const ONBOARDING = '11111111-1111-4111-8111-111111111111';
+const ENTERPRISE = '22222222-2222-4222-8222-222222222222';
+
+function deal(id: string, boardId: string, daysIdle: number): DealView {
+  const idleSince = new Date(NOW - daysIdle * DAY).toISOString();
+  return buildDealView({
+    id,
+    title: `Deal ${id}`,
+    contactId: `contact-${id}`,
+    boardId,
+    createdAt: idleSince,
+    updatedAt: idleSince,
+    lastStageChangeDate: idleSince,
+  });
+}
+
+function override(overrides: Partial<AnalyzerOverride> = {}): AnalyzerOverride {
+  return { analyzerId: 'stagnant_deals', boardId: null, enabled: true, params: {}, ...overrides };
+}
+
+const stagnantIds = (runs: ReturnType<typeof runConfiguredAnalyzers>) =>
+  runs
+    .filter((r) => r.analyzerId === 'stagnant_deals')
+    .flatMap((r) => r.result.decisions.map((d) => d.dealId))
+    .sort();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('sanitizeAnalyzerParams', () => {
+  it('accepts known keys with the default type and trims lists', () => {
+    expect(
+      sanitizeAnalyzerParams(stagnantDealsConfig.params, { minDaysStagnant: 2, excludeStatuses: [' WON ', ''] })
+    ).toEqual({ ok: true, params: { minDaysStagnant: 2, excludeStatuses: ['WON'] } });
+  });
+
+  it('rejects unknown keys, wrong types and negative numbers', () => {
+    expect(sanitizeAnalyzerParams(stagnantDealsConfig.params, { foo: 1 }).ok).toBe(false);
+    expect(sanitizeAnalyzerParams(stagnantDealsConfig.params, { minDaysStagnant: '2' }).ok).toBe(false);
+    expect(sanitizeAnalyzerParams(stagnantDealsConfig.params, { minDaysStagnant: -1 }).ok).toBe(false);
+    expect(sanitizeAnalyzerParams(stagnantDealsConfig.params, { excludeStatuses: [1] }).ok).toBe(false);
+  });
+});
+
+describe('AnalyzerSettingInputSchema', () => {
+  it('bounds the run limit and cooldown', () => {
+    const base = { analyzerId: 'stagnant_deals', boardId: null, enabled: true, params: {} };
+    expect(AnalyzerSettingInputSchema.safeParse({ ...base, maxDecisionsPerRun: 20, cooldownDays: 0 }).success).toBe(true);
+    expect(AnalyzerSettingInputSchema.safeParse({ ...base, maxDecisionsPerRun: 0 }).success).toBe(false);
+    expect(AnalyzerSettingInputSchema.safeParse({ ...base, boardId: 'not-a-uuid' }).success).toBe(false);
+  });
+});
+
+describe('resolveAnalyzerConfig', () => {
+  it('layers code defaults, the organization default and the board rule', () => {
+    const overrides = [
+      override({ params: { minDaysStagnant: 10 }, maxDecisionsPerRun: 20 }),
+      override({ boardId: ONBOARDING, params: { minDaysStagnant: 2 }, cooldownDays: 1 }),
+    ];
+
+    const org = resolveAnalyzerConfig(stagnantDealsConfig, overrides, null);
+    expect(org.params.minDaysStagnant).toBe(10);
+    expect(org.maxDecisionsPerRun).toBe(20);
+    expect(org.cooldownDays).toBe(stagnantDealsConfig.cooldownDays);
+
+    const board = resolveAnalyzerConfig(stagnantDealsConfig, overrides, ONBOARDING);
+    expect(board.params).toMatchObject({ minDaysStagnant: 2, criticalDaysStagnant: 14 });
+    expect(board.maxDecisionsPerRun).toBe(20);
+    expect(board.cooldownDays).toBe(1);
+
+    // o config do código não é alterado
+    expect(stagnantDealsConfig.params.minDaysStagnant).toBe(7);
+  });
+});
+
+describe('runConfiguredAnalyzers', () => {
+  const deals = [deal('onb', ONBOARDING, 3), deal('ent', ENTERPRISE, 10), deal('ent-old', ENTERPRISE, 40)];
+
+  it('uses the code defaults without rules', () => {
+    expect(stagnantIds(runConfiguredAnalyzers(deals, [], []))).toEqual(['ent', 'ent-old']);
+  });
+
+  it('applies each board rule only to its own deals', () => {
+    const overrides = [
+      override({ boardId: ONBOARDING, params: { minDaysStagnant: 2 } }),
+      override({ boardId: ENTERPRISE, params: { minDaysStagnant: 30 } }),
+    ];
+    const runs = runConfiguredAnalyzers(deals, [], overrides);
+
+    expect(stagnantIds(runs)).toEqual(['ent-old', 'onb']);
+    expect(runs.filter((r) => r.analyzerId === 'stagnant_deals').map((r) => r.boardId).sort()).toEqual(
+      [ENTERPRISE, ONBOARDING, null].sort()
+    );
+  });
+
+  it('skips disabled scopes but keeps board rules that enable the analyzer', () => {
+    const overrides = [override({ enabled: false }), override({ boardId: ONBOARDING, params: { minDaysStagnant: 2 } })];
+    const runs = runConfiguredAnalyzers(deals, [], overrides);
+    expect(stagnantIds(runs)).toEqual(['onb']);
+  });
+
+  it('routes activities to the scope of their deal', () => {
+    const activity = buildActivity({ dealId: 'onb', dealTitle: 'Deal onb', date: new Date(NOW - DAY).toISOString() });
+    const runs = runConfiguredAnalyzers(deals, [activity], [override({ boardId: ONBOARDING, params: { minDaysStagnant: 2 } })], {
+      analyzerId: 'stagnant_deals',
+    });
+    expect(stagnantIds(runs)).toEqual(['ent', 'ent-old']);
+  });
+});
+
+describe('priority offset', () => {
+  it('shifts priorities within critical/low', () => {
+    expect(shiftPriority('medium', 1)).toBe('high');
+    expect(shiftPriority('high', -2)).toBe('low');
+    expect(shiftPriority('critical', 3)).toBe('critical');
+  });
+
+  it('applies the board offset, falling back to the organization default', () => {
+    const deals = [deal('onb', ONBOARDING, 10), deal('ent', ENTERPRISE, 10)];
+    const overrides = [
+      override({ priorityOffset: -1 }),
+      override({ boardId: ONBOARDING, priorityOffset: null }),
+      override({ boardId: ENTERPRISE, priorityOffset: 1 }),
+    ];
+    const priorities = Object.fromEntries(
+      runConfiguredAnalyzers(deals, [], overrides, { analyzerId: 'stagnant_deals' }).flatMap((r) =>
+        r.result.decisions.map((d) => [d.dealId, d.priority])
+      )
+    );
+
+    // 10 dias parado = high no código
+    expect(priorities).toEqual({ onb: 'medium', ent: 'critical' });
+  });
+});
+
+describe('previewAnalyzerSetting', () => {
+  it('runs only the candidate scope with the unsaved rule', () => {
+    const deals = [deal('onb', ONBOARDING, 3), deal('ent', ENTERPRISE, 10)];
+    const run = previewAnalyzerSetting(deals, [], [], override({ boardId: ONBOARDING, params: { minDaysStagnant: 2 } }));
+
+    expect(run?.boardId).toBe(ONBOARDING);
+    expect(run?.result.decisions.map((d) => d.dealId)).toEqual(['onb']);
+  });
+
+  it('returns null when the rule disables the analyzer', () => {
+    expect(previewAnalyzerSetting([deal('onb', ONBOARDING, 3)], [], [], override({ enabled: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DealView } from '@/types';
+import {
+  analyzeDeadlinesApproaching,
+  analyzeDealsAtRisk,
+  analyzeHotLeads,
+  analyzeNewLeadsAssigned,
+  analyzeRescueOpportunities,
+  analyzeUnansweredProposals,
+  analyzeWinOpportunities,
+  analyzers,
+} from '@/features/decisions/analyzers';
+import { buildActivity, buildDealView } from './helpers/crmFixtures';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+const ahead = (ms: number) => new Date(NOW + ms).toISOString();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('registry', () => {
+  it('registers one analyzer per config id', () => {
+    const ids = analyzers.map((a) => a.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        'stagnant_deals',
+        'overdue_activities',
+        'hot_leads',
+        'deadline_approaching',
+        'unanswered_proposals',
+        'deals_at_risk',
+        'win_opportunities',
+        'rescue_opportunities',
+        'new_leads',
+      ])
+    );
+  });
+});
+
+describe('analyzeHotLeads', () => {
+  const recent = [1, 2, 3].map((d) => buildActivity({ id: `act-${d}`, date: ago(d * DAY) }));
+
+  it('flags engaged deals without a next step', () => {
+    const result = analyzeHotLeads([buildDealView()], recent);
+    expect(result.decisions).toHaveLength(1);
+    expect(result.decisions[0]).toMatchObject({ type: 'hot_lead', dealId: 'deal-1', priority: 'medium' });
+    expect(result.decisions[0].suggestedAction.payload.activityType).toBe('MEETING');
+  });
+
+  it('ignores deals with a scheduled activity or too few interactions', () => {
+    const scheduled = buildActivity({ id: 'next', completed: false, date: ahead(DAY) });
+    expect(analyzeHotLeads([buildDealView()], [...recent, scheduled]).decisions).toHaveLength(0);
+    expect(analyzeHotLeads([buildDealView()], recent.slice(0, 2)).decisions).toHaveLength(0);
+    expect(analyzeHotLeads([buildDealView({ probability: 10 })], recent).decisions).toHaveLength(0);
+  });
+
+  it('raises the priority of high-value deals', () => {
+    expect(analyzeHotLeads([buildDealView({ value: 80000 })], recent).decisions[0].priority).toBe('high');
+  });
+});
+
+describe('analyzeDeadlinesApproaching', () => {
+  it('flags open activities due inside the window', () => {
+    const result = analyzeDeadlinesApproaching(
+      [
+        buildActivity({ id: 'soon', completed: false, date: ahead(5 * HOUR) }),
+        buildActivity({ id: 'later', completed: false, date: ahead(36 * HOUR) }),
+        buildActivity({ id: 'far', completed: false, date: ahead(5 * DAY) }),
+        buildActivity({ id: 'done', completed: true, date: ahead(5 * HOUR) }),
+      ],
+      [buildDealView()]
+    );
+
+    expect(result.decisions.map((d) => [d.activityId, d.priority])).toEqual([
+      ['soon', 'high'],
+      ['later', 'medium'],
+    ]);
+    expect(result.decisions[0].expiresAt).toBe(ahead(5 * HOUR));
+  });
+
+  it('skips activities of closed deals', () => {
+    const result = analyzeDeadlinesApproaching(
+      [buildActivity({ completed: false, date: ahead(5 * HOUR) })],
+      [buildDealView({ isWon: true })]
+    );
+    expect(result.decisions).toHaveLength(0);
+  });
+});
+
+describe('analyzeUnansweredProposals', () => {
+  const proposal = (overrides: Partial<DealView> = {}) =>
+    buildDealView({ stageLabel: 'Proposta Enviada', lastStageChangeDate: ago(4 * DAY), ...overrides });
+
+  it('flags deals waiting in a proposal stage', () => {
+    const result = analyzeUnansweredProposals([proposal(), proposal({ id: 'deal-2', lastStageChangeDate: ago(12 * DAY) })], []);
+    expect(result.decisions.map((d) => [d.dealId, d.priority])).toEqual([
+      ['deal-2', 'high'],
+      ['deal-1', 'medium'],
+    ]);
+  });
+
+  it('matches stage names without accents', () => {
+    expect(analyzeUnansweredProposals([proposal({ stageLabel: 'Orçamento' })], []).decisions).toHaveLength(1);
+    expect(analyzeUnansweredProposals([proposal({ stageLabel: 'Negociação' })], []).decisions).toHaveLength(0);
+  });
+
+  it('ignores proposals with an interaction after the stage change', () => {
+    const result = analyzeUnansweredProposals([proposal()], [buildActivity({ date: ago(2 * DAY) })]);
+    expect(result.decisions).toHaveLength(0);
+  });
+});
+
+describe('analyzeDealsAtRisk', () => {
+  it('flags high-probability deals with enough risk signals', () => {
+    const risky = buildDealView({ probability: 70, lastStageChangeDate: ago(30 * DAY) });
+    const result = analyzeDealsAtRisk([risky], [buildActivity({ date: ago(15 * DAY) })]);
+
+    expect(result.decisions).toHaveLength(1);
+    // estágio parado + silêncio + sem próximo passo
+    expect(result.decisions[0]).toMatchObject({ type: 'deal_at_risk', category: 'risk', priority: 'critical' });
+  });
+
+  it('ignores low-probability deals and deals with a single signal', () => {
+    const stale = { lastStageChangeDate: ago(30 * DAY) };
+    expect(analyzeDealsAtRisk([buildDealView({ probability: 30, ...stale })], []).decisions).toHaveLength(0);
+
+    const onTrack = buildDealView({ probability: 70, ...stale });
+    const activities = [buildActivity({ date: ago(2 * DAY) }), buildActivity({ id: 'next', completed: false, date: ahead(DAY) })];
+    expect(analyzeDealsAtRisk([onTrack], activities).decisions).toHaveLength(0);
+  });
+});
+
+describe('analyzeWinOpportunities', () => {
+  it('flags likely wins with a recent interaction and no closing meeting', () => {
+    const result = analyzeWinOpportunities([buildDealView({ probability: 80 })], [buildActivity({ date: ago(2 * DAY) })]);
+    expect(result.decisions).toHaveLength(1);
+    expect(result.decisions[0]).toMatchObject({ type: 'win_opportunity', priority: 'high' });
+  });
+
+  it('requires recent activity and no scheduled next step', () => {
+    expect(analyzeWinOpportunities([buildDealView({ probability: 80 })], [buildActivity({ date: ago(20 * DAY) })]).decisions).toHaveLength(0);
+    expect(
+      analyzeWinOpportunities(
+        [buildDealView({ probability: 80 })],
+        [buildActivity({ date: ago(2 * DAY) }), buildActivity({ id: 'next', completed: false, date: ahead(DAY) })]
+      ).decisions
+    ).toHaveLength(0);
+    expect(analyzeWinOpportunities([buildDealView({ probability: 60 })], [buildActivity({ date: ago(2 * DAY) })]).decisions).toHaveLength(0);
+  });
+});
+
+describe('analyzeRescueOpportunities', () => {
+  it('flags deals lost inside the rescue window', () => {
+    const result = analyzeRescueOpportunities([
+      buildDealView({ id: 'recent', isLost: true, closedAt: ago(10 * DAY) }),
+      buildDealView({ id: 'rescue', isLost: true, closedAt: ago(60 * DAY), lossReason: 'Preço' }),
+      buildDealView({ id: 'old', isLost: true, closedAt: ago(400 * DAY) }),
+      buildDealView({ id: 'open' }),
+    ]);
+
+    expect(result.decisions.map((d) => d.dealId)).toEqual(['rescue']);
+    expect(result.decisions[0].reasoning).toContain('Preço');
+    expect(result.decisions[0].suggestedAction.type).toBe('send_message');
+  });
+
+  it('skips excluded loss reasons', () => {
+    const result = analyzeRescueOpportunities([buildDealView({ isLost: true, closedAt: ago(60 * DAY), lossReason: 'Empresa fechou' })], {
+      ...analyzers.find((a) => a.id === 'rescue_opportunities')!.config,
+      params: { minDaysSinceLoss: 30, maxDaysSinceLoss: 180, minDealValue: 0, highValue: 50000, excludeLossReasons: ['empresa fechou'] },
+    });
+    expect(result.decisions).toHaveLength(0);
+  });
+});
+
+describe('analyzeNewLeadsAssigned', () => {
+  it('flags fresh deals with an owner and no activity', () => {
+    const result = analyzeNewLeadsAssigned(
+      [
+        buildDealView({ id: 'fresh', createdAt: ago(6 * HOUR) }),
+        buildDealView({ id: 'contacted', createdAt: ago(6 * HOUR) }),
+        buildDealView({ id: 'unassigned', createdAt: ago(6 * HOUR), ownerId: undefined }),
+        buildDealView({ id: 'old', createdAt: ago(5 * DAY) }),
+      ],
+      [buildActivity({ dealId: 'contacted', date: ago(HOUR) })]
+    );
+
+    expect(result.decisions.map((d) => [d.dealId, d.priority])).toEqual([['fresh', 'high']]);
+    expect(result.decisions[0].suggestedAction.payload.activityType).toBe('CALL');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { Decision } from '@/features/decisions/types';
+import {
+  decisionDedupeKey,
+  filterNewDecisions,
+  fromDecisionRow,
+  isDecisionActionable,
+  resolveDecisionOwner,
+  toDecisionRow,
+} from '@/lib/decisions/queue';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function decision(overrides: Partial<Decision> = {}): Decision {
+  return {
+    id: 'd-1',
+    type: 'stagnant_deal',
+    priority: 'high',
+    category: 'follow_up',
+    title: 'Deal parado',
+    description: 'desc',
+    reasoning: 'motivo',
+    dealId: 'deal-1',
+    contactId: 'contact-1',
+    suggestedAction: {
+      id: 'a-1',
+      type: 'create_activity',
+      label: 'Agendar Ligação',
+      payload: { activityType: 'CALL', dealId: 'deal-1' },
+      requiresConfirmation: true,
+      allowEdit: true,
+    },
+    status: 'pending',
+    createdAt: new Date(NOW).toISOString(),
+    expiresAt: new Date(NOW + 7 * DAY).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('decisionDedupeKey', () => {
+  it('uses the deal, then contact, then activity', () => {
+    expect(decisionDedupeKey(decision())).toBe('stagnant_deal:deal-1');
+    expect(decisionDedupeKey(decision({ dealId: undefined }))).toBe('stagnant_deal:contact-1');
+    expect(
+      decisionDedupeKey(decision({ type: 'overdue_activity', dealId: undefined, contactId: undefined, activityId: 'act-1' }))
+    ).toBe('overdue_activity:act-1');
+  });
+});
+
+describe('filterNewDecisions', () => {
+  it('skips keys that are already open or repeated in the batch', () => {
+    const out = filterNewDecisions(
+      [decision({ id: 'a' }), decision({ id: 'b' }), decision({ id: 'c', dealId: 'deal-2' }), decision({ id: 'd', dealId: 'deal-3' })],
+      { openKeys: new Set(['stagnant_deal:deal-3']), processedAt: new Map(), cooldownDays: 3, now: NOW }
+    );
+    expect(out.map((d) => d.id)).toEqual(['a', 'c']);
+  });
+
+  it('respects the analyzer cooldown after approve/reject', () => {
+    const processedAt = new Map([
+      ['stagnant_deal:deal-1', new Date(NOW - 2 * DAY).toISOString()],
+      ['stagnant_deal:deal-2', new Date(NOW - 4 * DAY).toISOString()],
+    ]);
+    const out = filterNewDecisions([decision({ id: 'a' }), decision({ id: 'b', dealId: 'deal-2' })], {
+      openKeys: new Set(),
+      processedAt,
+      cooldownDays: 3,
+      now: NOW,
+    });
+    expect(out.map((d) => d.id)).toEqual(['b']);
+  });
+});
+
+describe('resolveDecisionOwner', () => {
+  const owners = {
+    deals: new Map<string, string | null>([['deal-1', 'user-deal'], ['deal-2', null]]),
+    activities: new Map<string, string | null>([['act-1', 'user-activity']]),
+  };
+
+  it('prefers the activity owner, then the deal owner', () => {
+    expect(resolveDecisionOwner({ dealId: 'deal-1', activityId: 'act-1' }, owners)).toBe('user-activity');
+    expect(resolveDecisionOwner({ dealId: 'deal-1', activityId: 'act-unknown' }, owners)).toBe('user-deal');
+  });
+
+  it('returns null (shared with the team) without an owner', () => {
+    expect(resolveDecisionOwner({ dealId: 'deal-2' }, owners)).toBeNull();
+    expect(resolveDecisionOwner({}, owners)).toBeNull();
+  });
+});
+
+describe('row mapping', () => {
+  it('round-trips a decision through an ai_decisions row', () => {
+    const original = decision({ alternativeActions: [] });
+    const row = toDecisionRow(original, { organizationId: 'org-1', userId: 'user-1', analyzerId: 'stagnant_deals' });
+
+    expect(row).toMatchObject({
+      organization_id: 'org-1',
+      user_id: 'user-1',
+      dedupe_key: 'stagnant_deal:deal-1',
+      decision_type: 'stagnant_deal',
+      status: 'pending',
+    });
+
+    const back = fromDecisionRow({ ...row, processed_at: null, snoozed_until: null });
+    expect(back).toMatchObject({
+      id: original.id,
+      type: original.type,
+      priority: original.priority,
+      reasoning: original.reasoning,
+      dealId: 'deal-1',
+      suggestedAction: original.suggestedAction,
+      userId: 'user-1',
+    });
+  });
+});
+
+describe('isDecisionActionable', () => {
+  it('hides expired decisions and snoozed ones until the snooze ends', () => {
+    expect(isDecisionActionable(decision(), NOW)).toBe(true);
+    expect(isDecisionActionable(decision({ expiresAt: new Date(NOW - 1).toISOString() }), NOW)).toBe(false);
+    expect(isDecisionActionable(decision({ status: 'snoozed', snoozeUntil: new Date(NOW + DAY).toISOString() }), NOW)).toBe(false);
+    expect(isDecisionActionable(decision({ status: 'snoozed', snoozeUntil: new Date(NOW - DAY).toISOString() }), NOW)).toBe(true);
+    expect(isDecisionActionable(decision({ status: 'approved' }), NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = Record<string, any>;
+
+const mocks = vi.hoisted(() => {
+  const rows: Row[] = [];
+
+  /** `update(...).eq/in(...)` aplicado no `await` ou em `maybeSingle()`, como o PostgREST. */
+  const from = (_table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let values: Row = {};
+    const run = () => {
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      for (const row of matched) Object.assign(row, values);
+      return matched;
+    };
+    const builder = {
+      update: (patch: Row) => {
+        values = patch;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, list: unknown[]) => {
+        filters.push((row) => list.includes(row[column]));
+        return builder;
+      },
+      select: () => builder,
+      maybeSingle: async () => {
+        const matched = run();
+        return { data: matched[0] ? { id: matched[0].id } : null, error: null };
+      },
+      then: (resolve: (value: { error: null }) => unknown) => {
+        run();
+        return Promise.resolve(resolve({ error: null }));
+      },
+    };
+    return builder;
+  };
+
+  return {
+    rows,
+    supabase: { from, auth: { getUser: async () => ({ data: { user: { id: 'user-1' } } }) } },
+  };
+});
+
+vi.mock('@/lib/supabase/client', () => ({ supabase: mocks.supabase }));
+
+import { decisionQueueService } from '@/features/decisions/services/decisionQueueService';
+
+describe('decisionQueueService approval claim', () => {
+  beforeEach(() => {
+    mocks.rows.length = 0;
+    mocks.rows.push({ id: 'd-1', status: 'pending', processed_at: null, processed_by: null });
+  });
+
+  it('lets only one of two concurrent approvals run the action', async () => {
+    const [first, second] = await Promise.all([
+      decisionQueueService.claimDecision('d-1'),
+      decisionQueueService.claimDecision('d-1'),
+    ]);
+
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+    expect(mocks.rows[0]).toMatchObject({ status: 'approved', processed_by: 'user-1' });
+  });
+
+  it('puts the decision back in the queue when the action fails', async () => {
+    mocks.rows[0].status = 'snoozed';
+    const claimedAt = await decisionQueueService.claimDecision('d-1');
+    expect(claimedAt).toEqual(expect.any(String));
+
+    await decisionQueueService.releaseDecision('d-1', claimedAt!, 'snoozed');
+    expect(mocks.rows[0]).toMatchObject({ status: 'snoozed', processed_at: null, processed_by: null });
+    expect(await decisionQueueService.claimDecision('d-1')).toEqual(expect.any(String));
+  });
+
+  it('does not undo an approval it no longer owns', async () => {
+    const claimedAt = await decisionQueueService.claimDecision('d-1');
+    mocks.rows[0].processed_at = '2026-03-10T12:00:01.000Z';
+
+    await decisionQueueService.releaseDecision('d-1', claimedAt!, 'pending');
+    expect(mocks.rows[0].status).toBe('approved');
+  });
+});
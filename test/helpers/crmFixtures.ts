@@ -0,0 +1,49 @@
+import type { Activity, DealView } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Datas relativas a `Date.now()` na chamada, então respeitam `vi.setSystemTime`.
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+/** Deal aberto, com contato e dono, pronto para os analyzers. */
+export function buildDealView(overrides: Partial<DealView> = {}): DealView {
+  return {
+    id: 'deal-1',
+    title: 'Projeto Alpha',
+    contactId: 'contact-1',
+    boardId: 'board-1',
+    value: 10000,
+    items: [],
+    status: 'stage-1',
+    isWon: false,
+    isLost: false,
+    createdAt: daysAgo(60),
+    updatedAt: daysAgo(1),
+    probability: 50,
+    priority: 'medium',
+    owner: { name: '', avatar: '' },
+    ownerId: 'user-1',
+    tags: [],
+    customFields: {},
+    lastStageChangeDate: daysAgo(5),
+    contactName: 'Maria',
+    contactEmail: 'maria@example.com',
+    stageLabel: 'Negociação',
+    ...overrides,
+  };
+}
+
+/** Ligação concluída ontem no deal padrão de `buildDealView`. */
+export function buildActivity(overrides: Partial<Activity> = {}): Activity {
+  return {
+    id: 'act-1',
+    dealId: 'deal-1',
+    dealTitle: 'Projeto Alpha',
+    type: 'CALL',
+    title: 'Ligação',
+    date: daysAgo(1),
+    user: { name: '', avatar: '' },
+    completed: true,
+    ...overrides,
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MCP_APPROVAL_STATUS_TOOL,
+  effectiveMcpApprovalStatus,
+  mcpApprovalKeyError,
+  toMcpApprovalPayload,
+  type McpApprovalRow,
+} from '@/lib/mcp/approvals';
+
+const NOW = Date.parse('2026-01-10T12:00:00.000Z');
+
+function row(patch: Partial<McpApprovalRow> = {}): McpApprovalRow {
+  return {
+    id: '7b0c3c1e-2f0f-4f55-9d3e-6d0b1a2c3d4e',
+    organization_id: 'org-1',
+    api_key_id: 'key-1',
+    requested_by: 'user-1',
+    tool_name: 'crm.deals.move',
+    tool_title: 'Move deal',
+    internal_key: 'moveDeal',
+    arguments: { dealId: 'd1', stageId: 's2' },
+    status: 'pending',
+    decided_by: null,
+    decided_at: null,
+    decision_reason: null,
+    result: null,
+    error: null,
+    created_at: '2026-01-10T11:00:00.000Z',
+    expires_at: '2026-01-11T11:00:00.000Z',
+    executed_at: null,
+    ...patch,
+  };
+}
+
+describe('effectiveMcpApprovalStatus', () => {
+  it('keeps pending while not expired', () => {
+    expect(effectiveMcpApprovalStatus(row(), NOW)).toBe('pending');
+  });
+
+  it('reports pending rows past expires_at as expired', () => {
+    expect(effectiveMcpApprovalStatus(row({ expires_at: '2026-01-10T11:59:59.000Z' }), NOW)).toBe('expired');
+  });
+
+  it('does not touch decided rows', () => {
+    expect(effectiveMcpApprovalStatus(row({ status: 'executed', expires_at: '2026-01-01T00:00:00.000Z' }), NOW)).toBe('executed');
+  });
+});
+
+describe('toMcpApprovalPayload', () => {
+  it('returns the token and a polling hint while pending', () => {
+    const payload = toMcpApprovalPayload(row(), NOW);
+    expect(payload.approval).toMatchObject({ token: row().id, status: 'pending', tool: 'crm.deals.move' });
+    expect(payload.message).toContain(MCP_APPROVAL_STATUS_TOOL.name);
+    expect(payload).not.toHaveProperty('result');
+  });
+
+  it('includes the tool output once executed', () => {
+    const payload = toMcpApprovalPayload(row({ status: 'executed', result: { ok: true } }), NOW);
+    expect(payload).toMatchObject({ approval: { status: 'executed' }, result: { ok: true } });
+  });
+
+  it('includes the error when execution failed and the reason when rejected', () => {
+    expect(toMcpApprovalPayload(row({ status: 'failed', error: 'boom' }), NOW)).toMatchObject({ error: 'boom' });
+    expect(toMcpApprovalPayload(row({ status: 'rejected', decision_reason: 'no' }), NOW).approval).toMatchObject({
+      status: 'rejected',
+      reason: 'no',
+    });
+  });
+
+  it('validates the polling token as a uuid', () => {
+    expect(MCP_APPROVAL_STATUS_TOOL.inputSchemaZod.safeParse({ token: 'nope' }).success).toBe(false);
+    expect(MCP_APPROVAL_STATUS_TOOL.inputSchemaZod.safeParse({ token: row().id }).success).toBe(true);
+  });
+});
+
+describe('mcpApprovalKeyError', () => {
+  const key = { revoked_at: null, expires_at: null, scopes: ['mcp:call', 'deals:write'] };
+  const moveDeal = { scope: 'deals:write' as const };
+
+  it('lets a still-valid key run the approved tool', () => {
+    expect(mcpApprovalKeyError(key, moveDeal, NOW)).toBeNull();
+    expect(mcpApprovalKeyError({ ...key, expires_at: '2026-01-11T00:00:00.000Z' }, moveDeal, NOW)).toBeNull();
+  });
+
+  it('fails when the key was deleted, revoked or expired while the request waited', () => {
+    expect(mcpApprovalKeyError(null, moveDeal, NOW)).toBe('API key no longer exists');
+    expect(mcpApprovalKeyError({ ...key, revoked_at: '2026-01-10T11:30:00.000Z' }, moveDeal, NOW)).toBe('API key was revoked');
+    expect(mcpApprovalKeyError({ ...key, expires_at: '2026-01-10T11:30:00.000Z' }, moveDeal, NOW)).toBe('API key expired');
+  });
+
+  it('fails when the key lost the scope the tool needs', () => {
+    expect(mcpApprovalKeyError({ ...key, scopes: ['mcp:call', 'deals:read'] }, moveDeal, NOW)).toBe(
+      'API key is missing the deals:write scope'
+    );
+    expect(mcpApprovalKeyError({ ...key, scopes: ['deals:write'] }, moveDeal, NOW)).toBe('API key is missing the mcp:call scope');
+    expect(mcpApprovalKeyError({ ...key, scopes: ['*'] }, { scope: null }, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { crmResourceUri, parseCrmResourceUri } from '@/lib/mcp/crmResources';
+import { buildCrmMcpPromptMessages, extractPromptTemplateVariables, listCrmMcpPrompts } from '@/lib/mcp/crmPrompts';
+import { PROMPT_CATALOG, getPromptCatalogMap } from '@/lib/ai/prompts/catalog';
+
+const ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+describe('MCP resources', () => {
+  it('parses crm:// URIs and round-trips them', () => {
+    expect(parseCrmResourceUri(`crm://deals/${ID}`)).toEqual({ kind: 'deal', id: ID });
+    expect(parseCrmResourceUri(`crm://deals/${ID}/notes`)).toEqual({ kind: 'deal_notes', id: ID });
+    expect(parseCrmResourceUri(`crm://boards/${ID.toUpperCase()}`)).toEqual({ kind: 'board', id: ID });
+    for (const kind of ['board', 'deal', 'deal_notes', 'contact'] as const) {
+      expect(parseCrmResourceUri(crmResourceUri({ kind, id: ID }))).toEqual({ kind, id: ID });
+    }
+  });
+
+  it('rejects unknown schemes, paths and non-uuid ids', () => {
+    expect(parseCrmResourceUri(`https://deals/${ID}`)).toBeNull();
+    expect(parseCrmResourceUri(`crm://companies/${ID}`)).toBeNull();
+    expect(parseCrmResourceUri('crm://deals/1')).toBeNull();
+    expect(parseCrmResourceUri(`crm://deals/${ID}/files`)).toBeNull();
+    expect(parseCrmResourceUri(42)).toBeNull();
+  });
+});
+
+describe('MCP prompts', () => {
+  it('publishes one prompt per catalog entry with its template variables as arguments', () => {
+    const prompts = listCrmMcpPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(PROMPT_CATALOG.map((p) => p.key));
+
+    const email = prompts.find((p) => p.name === 'task_deals_email_draft');
+    expect(email?.arguments.map((a) => a.name)).toEqual(['contactName', 'companyName', 'dealTitle']);
+    expect(extractPromptTemplateVariables('{{a}} {{ b.c }} {{a}}')).toEqual(['a', 'b.c']);
+  });
+
+  it('renders the resolved template with the given arguments', () => {
+    const item = getPromptCatalogMap().task_deals_objection_responses;
+    const out = buildCrmMcpPromptMessages({
+      item,
+      template: item.defaultTemplate,
+      args: { objection: 'Está caro', dealTitle: 'Plano anual' },
+    });
+    expect(out.messages).toHaveLength(1);
+    expect(out.messages[0].role).toBe('user');
+    expect(out.messages[0].content.text).toContain('Objeção: "Está caro" no deal "Plano anual"');
+  });
+});
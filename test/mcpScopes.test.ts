@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CRM_TOOL_CATALOG } from '@/lib/mcp/crmToolCatalog';
+import { crmResourceUri } from '@/lib/mcp/crmResources';
+import { MCP_DEFAULT_KEY_SCOPES, canReadCrmResource, canUseMcpTool, crmResourceScope } from '@/lib/mcp/scopes';
+import { normalizeApiKeyScopes } from '@/lib/public-api/scopes';
+
+const ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+describe('MCP tool scopes', () => {
+  it('maps read-only tools to read scopes and writing tools to write scopes', () => {
+    for (const entry of Object.values(CRM_TOOL_CATALOG)) {
+      const expected = entry.description.startsWith('Read-only') ? ':read' : ':write';
+      expect(entry.scope.endsWith(expected), entry.name).toBe(true);
+    }
+    expect(CRM_TOOL_CATALOG.moveDeal.scope).toBe('deals:write');
+    expect(CRM_TOOL_CATALOG.searchContacts.scope).toBe('contacts:read');
+  });
+
+  it('checks the tool scope on top of mcp:call', () => {
+    const readOnly = ['mcp:call', 'deals:read'];
+    expect(canUseMcpTool(readOnly, { scope: 'deals:read' })).toBe(true);
+    expect(canUseMcpTool(readOnly, { scope: 'deals:write' })).toBe(false);
+    expect(canUseMcpTool(readOnly, { scope: 'contacts:read' })).toBe(false);
+    expect(canUseMcpTool(['mcp:call', 'deals:write'], { scope: 'deals:read' })).toBe(true);
+  });
+
+  it('keeps unmapped tools to full-access keys', () => {
+    expect(canUseMcpTool(['*'], { scope: null })).toBe(true);
+    expect(canUseMcpTool(MCP_DEFAULT_KEY_SCOPES, { scope: null })).toBe(false);
+  });
+
+  it('gives keys created by the MCP screen every catalog tool', () => {
+    expect(normalizeApiKeyScopes(MCP_DEFAULT_KEY_SCOPES)).toEqual(MCP_DEFAULT_KEY_SCOPES);
+    for (const entry of Object.values(CRM_TOOL_CATALOG)) {
+      expect(canUseMcpTool(MCP_DEFAULT_KEY_SCOPES, entry), entry.name).toBe(true);
+    }
+  });
+});
+
+describe('MCP resource scopes', () => {
+  it('maps each crm:// resource to the read scope of its records', () => {
+    expect(crmResourceScope(crmResourceUri({ kind: 'contact', id: ID }))).toBe('contacts:read');
+    expect(crmResourceScope(crmResourceUri({ kind: 'deal_notes', id: ID }))).toBe('deals:read');
+    expect(crmResourceScope(crmResourceUri({ kind: 'board', id: ID }))).toBe('boards:read');
+    expect(crmResourceScope('crm://companies/1')).toBeNull();
+  });
+
+  it('hides contacts from a deals-only key', () => {
+    const granted = ['mcp:call', 'deals:write'];
+    expect(canReadCrmResource(granted, `crm://deals/${ID}`)).toBe(true);
+    expect(canReadCrmResource(granted, `crm://deals/${ID}/notes`)).toBe(true);
+    expect(canReadCrmResource(granted, `crm://contacts/${ID}`)).toBe(false);
+    expect(canReadCrmResource(['*'], `crm://contacts/${ID}`)).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  acceptsEventStream,
+  encodeSseMessage,
+  getProgressToken,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  parseJsonRpcBody,
+  toolsFingerprint,
+} from '@/lib/mcp/transport';
+import { MCP_SESSION_IDLE_TTL_MS, isMcpSessionUsable } from '@/lib/mcp/sessions';
+
+describe('parseJsonRpcBody', () => {
+  it('accepts a single message', () => {
+    const parsed = parseJsonRpcBody({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    expect(parsed).toMatchObject({ ok: true, batch: false });
+  });
+
+  it('accepts batches mixing requests, notifications and client responses', () => {
+    const parsed = parseJsonRpcBody([
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'srv-1', result: {} },
+    ]);
+    expect(parsed.ok && parsed.batch && parsed.messages.length).toBe(3);
+  });
+
+  it('rejects empty batches and malformed entries', () => {
+    expect(parseJsonRpcBody([]).ok).toBe(false);
+    expect(parseJsonRpcBody([{ jsonrpc: '2.0', id: 1, method: 'ping' }, { id: 2, method: 'ping' }]).ok).toBe(false);
+    expect(parseJsonRpcBody(null).ok).toBe(false);
+    expect(parseJsonRpcBody({ jsonrpc: '2.0', id: 1 }).ok).toBe(false);
+  });
+});
+
+describe('message kinds', () => {
+  it('tells requests from notifications', () => {
+    expect(isJsonRpcRequest({ jsonrpc: '2.0', id: 0, method: 'ping' })).toBe(true);
+    expect(isJsonRpcRequest({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBe(false);
+    expect(isJsonRpcNotification({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBe(true);
+    expect(isJsonRpcRequest({ jsonrpc: '2.0', id: 1, result: {} })).toBe(false);
+  });
+
+  it('reads the progress token from params._meta', () => {
+    expect(getProgressToken({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { _meta: { progressToken: 'p1' } } })).toBe('p1');
+    expect(getProgressToken({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { _meta: { progressToken: 7 } } })).toBe(7);
+    expect(getProgressToken({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: {} })).toBeNull();
+  });
+});
+
+describe('SSE helpers', () => {
+  it('detects text/event-stream in Accept', () => {
+    const req = new Request('https://crm.test/api/mcp', { headers: { accept: 'application/json, text/event-stream' } });
+    expect(acceptsEventStream(req)).toBe(true);
+    expect(acceptsEventStream(new Request('https://crm.test/api/mcp'))).toBe(false);
+  });
+
+  it('encodes one JSON-RPC message per event', () => {
+    expect(encodeSseMessage({ jsonrpc: '2.0', method: 'ping' }, '5')).toBe(
+      'id: 5\nevent: message\ndata: {"jsonrpc":"2.0","method":"ping"}\n\n'
+    );
+  });
+});
+
+describe('toolsFingerprint', () => {
+  const a = { name: 'crm.a', description: 'A', inputSchema: { type: 'object' } };
+  const b = { name: 'crm.b', description: 'B', inputSchema: { type: 'object' } };
+
+  it('ignores ordering', () => {
+    expect(toolsFingerprint([a, b])).toBe(toolsFingerprint([b, a]));
+  });
+
+  it('changes when a tool is added or its schema changes', () => {
+    expect(toolsFingerprint([a])).not.toBe(toolsFingerprint([a, b]));
+    expect(toolsFingerprint([a])).not.toBe(toolsFingerprint([{ ...a, inputSchema: { type: 'string' } }]));
+  });
+});
+
+describe('isMcpSessionUsable', () => {
+  const now = Date.parse('2026-01-10T12:00:00.000Z');
+  const auth = { organizationId: 'org-1', apiKeyId: 'key-1' };
+  const session = {
+    organization_id: 'org-1',
+    api_key_id: 'key-1',
+    last_seen_at: '2026-01-10T11:00:00.000Z',
+    closed_at: null,
+  };
+
+  it('accepts an active session of the same key', () => {
+    expect(isMcpSessionUsable(session, auth, now)).toBe(true);
+  });
+
+  it('rejects closed, idle-expired or foreign sessions', () => {
+    expect(isMcpSessionUsable({ ...session, closed_at: '2026-01-10T11:30:00.000Z' }, auth, now)).toBe(false);
+    expect(isMcpSessionUsable({ ...session, last_seen_at: new Date(now - MCP_SESSION_IDLE_TTL_MS).toISOString() }, auth, now)).toBe(false);
+    expect(isMcpSessionUsable(session, { ...auth, apiKeyId: 'key-2' }, now)).toBe(false);
+  });
+});
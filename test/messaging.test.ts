@@ -0,0 +1,326 @@
+import net from 'node:net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import { MessagingError } from '@/lib/messaging/types';
+import { sendDealMessage } from '@/lib/messaging/server';
+import { buildMessageActivity, resolveRecipient } from '@/lib/messaging/recipients';
+import {
+  configuredChannels,
+  createFakeTransport,
+  createSmsHttpTransport,
+  createSmtpTransport,
+  createWhatsAppCloudTransport,
+  resolveTransport,
+} from '@/lib/messaging/transports';
+import { buildMimeMessage, encodeHeaderWord } from '@/lib/messaging/transports/smtp';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+describe('resolveTransport', () => {
+  it('returns null for channels without configuration', () => {
+    expect(configuredChannels({})).toEqual({ email: false, whatsapp: false, sms: false });
+    expect(resolveTransport('email', { SMTP_HOST: 'smtp.example.com' })).toBeNull();
+  });
+
+  it('picks the provider of each configured channel', () => {
+    const env = {
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_FROM: 'Vendas <vendas@example.com>',
+      WHATSAPP_CLOUD_TOKEN: 'token',
+      WHATSAPP_CLOUD_PHONE_NUMBER_ID: '123',
+      SMS_HTTP_URL: 'https://sms.example.com/send',
+    };
+    expect(resolveTransport('email', env)?.name).toBe('smtp');
+    expect(resolveTransport('whatsapp', env)?.name).toBe('whatsapp_cloud');
+    expect(resolveTransport('sms', env)?.name).toBe('sms_http');
+  });
+
+  it('switches every channel to the fake transport', () => {
+    expect(configuredChannels({ MESSAGING_TRANSPORT: 'fake' })).toEqual({ email: true, whatsapp: true, sms: true });
+    expect(resolveTransport('sms', { MESSAGING_TRANSPORT: 'fake' })?.name).toBe('fake');
+  });
+});
+
+describe('createFakeTransport', () => {
+  it('records sent messages and can simulate failures', async () => {
+    const transport = createFakeTransport('whatsapp');
+    await expect(transport.send({ channel: 'whatsapp', to: '5511988887777', body: 'Oi' })).resolves.toEqual({
+      transport: 'fake',
+      providerMessageId: 'fake-whatsapp-1',
+    });
+    expect(transport.sent).toHaveLength(1);
+
+    const failing = createFakeTransport('email', { failWith: 'caixa cheia' });
+    await expect(failing.send({ channel: 'email', to: 'a@b.com', body: 'Oi' })).rejects.toThrow('caixa cheia');
+  });
+});
+
+const ORG = 'org-1';
+
+/** Client mínimo: `select().eq()...maybeSingle()` sobre as linhas dadas e `insert().select().single()`. */
+function fakeSupabase(tables: Record<string, Array<Record<string, unknown>>>) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const from = (table: string) => {
+    const filters: Record<string, unknown> = {};
+    const builder = {
+      select: () => builder,
+      is: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters[column] = value;
+        return builder;
+      },
+      maybeSingle: async () => ({
+        data: (tables[table] || []).find((row) => Object.entries(filters).every(([k, v]) => row[k] === v)) ?? null,
+        error: null,
+      }),
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row);
+        return builder;
+      },
+      single: async () => ({ data: { id: 'activity-1' }, error: null }),
+    };
+    return builder;
+  };
+  return { client: { from } as unknown as SupabaseClient, inserted };
+}
+
+describe('sendDealMessage', () => {
+  const tables = {
+    deals: [{ id: 'deal-1', organization_id: ORG, contact_id: 'contact-1', title: 'Proposta Acme' }],
+    contacts: [{ id: 'contact-1', organization_id: ORG, name: 'Maria', email: 'maria@example.com', phone: null }],
+  };
+
+  it('refuses messages that are not tied to a deal or contact', async () => {
+    const transport = createFakeTransport('email');
+    const { client } = fakeSupabase(tables);
+    await expect(
+      sendDealMessage(client, { organizationId: ORG, userId: 'u1', channel: 'email', to: 'anyone@example.com', body: 'Oi' }, { transport })
+    ).rejects.toMatchObject({ code: 'INVALID_RECIPIENT' });
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('emails the deal contact with the deal title as the default subject', async () => {
+    const transport = createFakeTransport('email');
+    const { client, inserted } = fakeSupabase(tables);
+    const result = await sendDealMessage(
+      client,
+      { organizationId: ORG, userId: 'u1', channel: 'email', dealId: 'deal-1', body: 'Oi' },
+      { transport }
+    );
+
+    expect(result.to).toBe('maria@example.com');
+    expect(transport.sent[0]).toMatchObject({ to: 'maria@example.com', subject: 'Proposta Acme' });
+    expect(inserted[0]).toMatchObject({ deal_id: 'deal-1', contact_id: 'contact-1', type: 'EMAIL', title: 'Proposta Acme' });
+  });
+
+  it('uses `to` only as the address override for the record', async () => {
+    const transport = createFakeTransport('email');
+    const { client, inserted } = fakeSupabase(tables);
+    await sendDealMessage(
+      client,
+      { organizationId: ORG, userId: 'u1', channel: 'email', dealId: 'deal-1', to: 'compras@acme.com', subject: 'Contrato', body: 'Oi' },
+      { transport }
+    );
+
+    expect(transport.sent[0]).toMatchObject({ to: 'compras@acme.com', subject: 'Contrato' });
+    expect(inserted[0]).toMatchObject({ deal_id: 'deal-1', contact_id: 'contact-1' });
+  });
+
+  it('rejects deals from another organization', async () => {
+    const { client } = fakeSupabase(tables);
+    await expect(
+      sendDealMessage(
+        client,
+        { organizationId: 'org-2', userId: 'u1', channel: 'email', dealId: 'deal-1', body: 'Oi' },
+        { transport: createFakeTransport('email') }
+      )
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('resolveRecipient', () => {
+  const contact = { email: 'Maria@Example.com', phone: '+55 11 98888-7777' };
+
+  it('formats the contact address for each channel', () => {
+    expect(resolveRecipient('email', contact)).toBe('maria@example.com');
+    expect(resolveRecipient('whatsapp', contact)).toBe('5511988887777');
+    expect(resolveRecipient('sms', contact)).toBe('+5511988887777');
+  });
+
+  it('prefers the explicit recipient', () => {
+    expect(resolveRecipient('email', contact, 'outro@example.com')).toBe('outro@example.com');
+  });
+
+  it('rejects missing or invalid recipients', () => {
+    expect(() => resolveRecipient('email', { email: null })).toThrow(MessagingError);
+    expect(() => resolveRecipient('email', null, 'sem-arroba')).toThrow(/Email inválido/);
+    expect(() => resolveRecipient('whatsapp', { phone: '123' })).toThrow(MessagingError);
+  });
+});
+
+describe('buildMessageActivity', () => {
+  it('logs email as EMAIL with the subject and provider id', () => {
+    const activity = buildMessageActivity({
+      channel: 'email',
+      to: 'maria@example.com',
+      subject: 'Proposta',
+      body: 'Segue a proposta.',
+      transport: 'smtp',
+      providerMessageId: '<abc@example.com>',
+      logContext: 'Fonte: Cockpit',
+    });
+
+    expect(activity.type).toBe('EMAIL');
+    expect(activity.title).toBe('Proposta');
+    expect(activity.description.split('\n').slice(0, 5)).toEqual([
+      'Fonte: Cockpit',
+      'Canal: E-mail',
+      'Enviado pelo CRM: sim',
+      'Para: maria@example.com',
+      'ID no provedor (smtp): <abc@example.com>',
+    ]);
+    expect(activity.description).toContain('Assunto: Proposta');
+  });
+
+  it('logs other channels as a NOTE', () => {
+    const activity = buildMessageActivity({
+      channel: 'whatsapp',
+      to: '5511988887777',
+      body: 'Oi',
+      transport: 'fake',
+      providerMessageId: null,
+    });
+    expect(activity).toMatchObject({ type: 'NOTE', title: 'WhatsApp' });
+    expect(activity.description).not.toContain('ID no provedor');
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('encodes accented headers and the body in base64 with CRLF', () => {
+    expect(encodeHeaderWord('Proposta')).toBe('Proposta');
+    expect(encodeHeaderWord('Reunião')).toBe(`=?UTF-8?B?${Buffer.from('Reunião').toString('base64')}?=`);
+
+    const mime = buildMimeMessage({
+      from: 'João <vendas@example.com>',
+      to: 'maria@example.com',
+      subject: 'Olá',
+      body: 'linha 1\nlinha 2',
+      messageId: '<id@example.com>',
+      date: new Date('2026-03-10T12:00:00Z'),
+    });
+    const [headers, body] = mime.split('\r\n\r\n');
+
+    expect(headers).toContain(`From: ${encodeHeaderWord('João')} <vendas@example.com>`);
+    expect(headers).toContain('Message-ID: <id@example.com>');
+    expect(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')).toBe('linha 1\r\nlinha 2');
+  });
+});
+
+describe('HTTP transports', () => {
+  it('sends WhatsApp text messages through the Cloud API', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse({ messages: [{ id: 'wamid.1' }] }));
+    const transport = createWhatsAppCloudTransport({ accessToken: 'tok', phoneNumberId: '123', fetchImpl });
+
+    await expect(transport.send({ channel: 'whatsapp', to: '5511988887777', body: 'Oi' })).resolves.toEqual({
+      transport: 'whatsapp_cloud',
+      providerMessageId: 'wamid.1',
+    });
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://graph.facebook.com/v21.0/123/messages');
+    expect(JSON.parse(String(init.body))).toMatchObject({ to: '5511988887777', text: { body: 'Oi' } });
+  });
+
+  it('surfaces provider errors', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse({ error: { message: 'Fora da janela de 24h' } }, 400));
+    const transport = createWhatsAppCloudTransport({ accessToken: 'tok', phoneNumberId: '123', fetchImpl });
+    await expect(transport.send({ channel: 'whatsapp', to: '5511988887777', body: 'Oi' })).rejects.toThrow(
+      'Fora da janela de 24h'
+    );
+  });
+
+  it('posts SMS to the configured webhook', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse({ sid: 'sms-1' }));
+    const transport = createSmsHttpTransport({ url: 'https://sms.example.com/send', token: 'tok', from: 'CRM', fetchImpl });
+
+    await expect(transport.send({ channel: 'sms', to: '+5511988887777', body: 'Oi' })).resolves.toEqual({
+      transport: 'sms_http',
+      providerMessageId: 'sms-1',
+    });
+    const [, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body))).toEqual({ to: '+5511988887777', from: 'CRM', text: 'Oi' });
+  });
+});
+
+describe('createSmtpTransport', () => {
+  it('delivers a message over a plain SMTP session', async () => {
+    const commands: string[] = [];
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let idx: number;
+        while ((idx = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+            continue;
+          }
+          commands.push(line.split(' ')[0]);
+          if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+          else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go\r\n');
+          } else if (line === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      const transport = createSmtpTransport({
+        host: '127.0.0.1',
+        port,
+        requireTls: false,
+        user: 'user',
+        pass: 'pass',
+        from: 'vendas@example.com',
+        timeoutMs: 5000,
+      });
+      const result = await transport.send({ channel: 'email', to: 'maria@example.com', subject: 'Oi', body: 'Olá' });
+
+      expect(result.transport).toBe('smtp');
+      expect(result.providerMessageId).toMatch(/^<.+@example\.com>$/);
+      expect(commands).toEqual(['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('refuses plain text when the server does not offer STARTTLS', async () => {
+    const server = net.createServer((socket) => {
+      socket.write('220 test\r\n');
+      socket.on('data', () => socket.write('250 test\r\n'));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port, from: 'vendas@example.com', timeoutMs: 5000 });
+      await expect(transport.send({ channel: 'email', to: 'maria@example.com', body: 'Olá' })).rejects.toThrow(/STARTTLS/);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
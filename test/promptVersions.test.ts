@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { listPromptTemplateVariables } from '@/lib/ai/prompts/render';
+import {
+  MIN_EXPERIMENT_SAMPLE,
+  comparePromptExperiment,
+  diffPromptLines,
+  pickPromptExperimentArm,
+} from '@/lib/ai/prompts/versions';
+
+describe('diffPromptLines', () => {
+  it('marks added, removed and unchanged lines', () => {
+    const diff = diffPromptLines('Olá\nSeja breve\nAssine', 'Olá\nSeja objetivo\nAssine');
+    expect(diff).toEqual([
+      { type: 'same', text: 'Olá' },
+      { type: 'remove', text: 'Seja breve' },
+      { type: 'add', text: 'Seja objetivo' },
+      { type: 'same', text: 'Assine' },
+    ]);
+  });
+
+  it('handles appended lines and identical prompts', () => {
+    expect(diffPromptLines('a', 'a\nb').map((l) => l.type)).toEqual(['same', 'add']);
+    expect(diffPromptLines('a\nb', 'a\nb').every((l) => l.type === 'same')).toBe(true);
+  });
+});
+
+describe('pickPromptExperimentArm', () => {
+  it('is stable for the same user and experiment', () => {
+    const exp = { id: 'exp-1', traffic_percent: 50 };
+    expect(pickPromptExperimentArm(exp, 'user-1')).toBe(pickPromptExperimentArm(exp, 'user-1'));
+  });
+
+  it('splits traffic roughly by traffic_percent', () => {
+    const exp = { id: 'exp-2', traffic_percent: 30 };
+    let variant = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickPromptExperimentArm(exp, `user-${i}`) === 'variant') variant++;
+    }
+    expect(variant / 2000).toBeGreaterThan(0.25);
+    expect(variant / 2000).toBeLessThan(0.35);
+  });
+});
+
+describe('comparePromptExperiment', () => {
+  it('does not declare a winner below the minimum sample', () => {
+    const result = comparePromptExperiment(
+      [
+        { prompt_version: null, accepted: 1, dismissed: 2 },
+        { prompt_version: 3, accepted: '5', dismissed: '0' },
+      ],
+      { control: null, variant: 3 }
+    );
+    expect(result.control).toMatchObject({ accepted: 1, dismissed: 2, total: 3 });
+    expect(result.variant.acceptanceRate).toBe(1);
+    expect(result.winner).toBeNull();
+    expect(MIN_EXPERIMENT_SAMPLE).toBeGreaterThan(5);
+  });
+
+  it('declares the variant when it is significantly better', () => {
+    const result = comparePromptExperiment(
+      [
+        { prompt_version: 2, accepted: 20, dismissed: 30 },
+        { prompt_version: 3, accepted: 40, dismissed: 10 },
+      ],
+      { control: 2, variant: 3 }
+    );
+    expect(result.winner).toBe('variant');
+    expect(result.zScore).toBeGreaterThan(1.96);
+  });
+
+  it('keeps the winner empty when the difference is not significant', () => {
+    const result = comparePromptExperiment(
+      [
+        { prompt_version: 2, accepted: 25, dismissed: 25 },
+        { prompt_version: 3, accepted: 27, dismissed: 23 },
+      ],
+      { control: 2, variant: 3 }
+    );
+    expect(result.winner).toBeNull();
+  });
+});
+
+describe('listPromptTemplateVariables', () => {
+  it('lists unique variables in order of appearance', () => {
+    expect(listPromptTemplateVariables('Oi {{contactName}}, {{ deal.title }} e {{contactName}}')).toEqual([
+      'contactName',
+      'deal.title',
+    ]);
+  });
+});
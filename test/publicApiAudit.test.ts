@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AUDIT_REDACTED,
+  buildMcpToolAuditEntry,
+  buildPublicApiAuditEntry,
+  collectAuditResourceIds,
+  isAuditedMethod,
+  redactAuditArguments,
+} from '@/lib/public-api/audit';
+
+const DEAL_ID = '0d8a3a5e-6c1f-4d6b-9a59-2f7b1c7e9a10';
+const CONTACT_ID = '5b0f0d2c-2e4f-4c1a-8f0e-6f1d2b3c4a5e';
+
+describe('isAuditedMethod', () => {
+  it('audits only writes', () => {
+    expect(['POST', 'patch', 'PUT', 'DELETE'].every(isAuditedMethod)).toBe(true);
+    expect(isAuditedMethod('GET')).toBe(false);
+  });
+});
+
+describe('redactAuditArguments', () => {
+  it('masks secrets at any depth', () => {
+    expect(
+      redactAuditArguments({ name: 'Acme', apiKey: 'k', nested: { password: 'p', access_token: 't', note: 'ok' } })
+    ).toEqual({ name: 'Acme', apiKey: AUDIT_REDACTED, nested: { password: AUDIT_REDACTED, access_token: AUDIT_REDACTED, note: 'ok' } });
+  });
+
+  it('truncates long strings and arrays', () => {
+    const out = redactAuditArguments({ text: 'x'.repeat(600), list: Array.from({ length: 60 }, (_, i) => i) }) as any;
+    expect(out.text).toHaveLength(501);
+    expect(out.list).toHaveLength(51);
+    expect(out.list[50]).toBe('… +10');
+  });
+});
+
+describe('collectAuditResourceIds', () => {
+  it('collects ids from id / *Id / *_id / *Ids fields, deduplicated', () => {
+    expect(
+      collectAuditResourceIds(
+        { dealId: DEAL_ID, query: 'not-an-id', contactIds: [CONTACT_ID] },
+        { data: [{ id: DEAL_ID }, { contact_id: CONTACT_ID }] }
+      )
+    ).toEqual([DEAL_ID, CONTACT_ID]);
+  });
+
+  it('ignores non-uuid values', () => {
+    expect(collectAuditResourceIds({ id: 'abc', boardId: 42 })).toEqual([]);
+  });
+});
+
+describe('buildPublicApiAuditEntry', () => {
+  it('records route, redacted body, ids and success', () => {
+    const entry = buildPublicApiAuditEntry({
+      method: 'PATCH',
+      url: `https://crm.test/api/public/v1/deals/${DEAL_ID}`,
+      endpoint: 'PATCH /deals/{id}',
+      apiKeyPrefix: 'ncrm_ab12',
+      status: 200,
+      requestBody: JSON.stringify({ title: 'Novo', contactId: CONTACT_ID, secret: 's' }),
+      responseBody: JSON.stringify({ data: { id: DEAL_ID, contact_id: CONTACT_ID } }),
+    });
+    expect(entry).toMatchObject({
+      action: 'API_KEY_REQUEST',
+      resourceType: 'deals',
+      resourceId: DEAL_ID,
+      severity: 'info',
+      details: {
+        source: 'public_api',
+        api_key_prefix: 'ncrm_ab12',
+        route: 'PATCH /deals/{id}',
+        arguments: { title: 'Novo', contactId: CONTACT_ID, secret: AUDIT_REDACTED },
+        resource_ids: [DEAL_ID, CONTACT_ID],
+        outcome: 'success',
+        status: 200,
+      },
+    });
+  });
+
+  it('marks denied and failed calls', () => {
+    const base = {
+      method: 'POST',
+      url: 'https://crm.test/api/public/v1/contacts',
+      endpoint: 'POST /contacts',
+      apiKeyPrefix: 'ncrm_ab12',
+      requestBody: '{"name":"x"}',
+    };
+    const denied = buildPublicApiAuditEntry({ ...base, status: 403, responseBody: '{"error":"x","code":"AUTH_SCOPE_MISSING"}' });
+    expect(denied.details).toMatchObject({ outcome: 'denied', error_code: 'AUTH_SCOPE_MISSING' });
+    expect(denied.severity).toBe('warning');
+    const invalid = buildPublicApiAuditEntry({ ...base, status: 422, responseBody: 'not json' });
+    expect(invalid.details).toMatchObject({ outcome: 'error', status: 422 });
+    expect(invalid.resourceId).toBeNull();
+  });
+});
+
+describe('buildMcpToolAuditEntry', () => {
+  it('records tool, outcome and ids from args and result', () => {
+    const entry = buildMcpToolAuditEntry({
+      toolName: 'crm.deals.move',
+      apiKeyPrefix: 'ncrm_ab12',
+      args: { dealId: DEAL_ID },
+      result: { contactId: CONTACT_ID },
+      outcome: 'success',
+    });
+    expect(entry).toMatchObject({
+      action: 'MCP_TOOL_CALL',
+      resourceType: 'mcp_tool',
+      resourceId: DEAL_ID,
+      details: { tool: 'crm.deals.move', resource_ids: [DEAL_ID, CONTACT_ID], outcome: 'success' },
+    });
+  });
+
+  it('flags errors as warnings', () => {
+    const entry = buildMcpToolAuditEntry({ toolName: 'crm.x', apiKeyPrefix: null, args: {}, result: null, outcome: 'error', error: 'boom' });
+    expect(entry.severity).toBe('warning');
+    expect(entry.details).toMatchObject({ error: 'boom' });
+    expect(entry.details).not.toHaveProperty('api_key_prefix');
+  });
+});
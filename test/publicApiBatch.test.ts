@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BatchRequestSchema,
+  invalidItem,
+  PUBLIC_API_BATCH_CONCURRENCY,
+  PUBLIC_API_BATCH_MAX_ITEMS,
+  runBatch,
+  type PublicApiWriteResult,
+} from '@/lib/public-api/batch';
+import { contactBatchKeys } from '@/lib/public-api/contactsUpsert';
+import { dealBatchKeys } from '@/lib/public-api/dealsUpsert';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+const created = (data: unknown): PublicApiWriteResult => ({ ok: true, status: 201, body: { data, action: 'created' } });
+
+describe('Public API batch endpoints', () => {
+  it('returns one result per item, in order, without failing the whole batch', async () => {
+    const result = await runBatch([{ email: 'a@x.com' }, { nope: true }, { email: 'b@x.com', existing: true }, { boom: true }], async (item: any) => {
+      if (item.boom) throw new Error('connection reset');
+      if (!item.email) return invalidItem();
+      return item.existing
+        ? { ok: true, status: 200, body: { data: { email: item.email }, action: 'updated' } }
+        : { ok: true, status: 201, body: { data: { email: item.email }, action: 'created' } };
+    });
+
+    expect(result.data).toEqual([
+      { index: 0, ok: true, status: 201, action: 'created', data: { email: 'a@x.com' } },
+      { index: 1, ok: false, status: 422, error: 'Invalid payload', code: 'VALIDATION_ERROR' },
+      { index: 2, ok: true, status: 200, action: 'updated', data: { email: 'b@x.com' } },
+      { index: 3, ok: false, status: 500, error: 'connection reset', code: 'DB_ERROR' },
+    ]);
+    expect(result.summary).toEqual({ total: 4, created: 1, updated: 1, failed: 2 });
+  });
+
+  it('limits the batch size', () => {
+    expect(BatchRequestSchema.safeParse({ items: [] }).success).toBe(false);
+    expect(BatchRequestSchema.safeParse({ items: Array(PUBLIC_API_BATCH_MAX_ITEMS).fill({}) }).success).toBe(true);
+    expect(BatchRequestSchema.safeParse({ items: Array(PUBLIC_API_BATCH_MAX_ITEMS + 1).fill({}) }).success).toBe(false);
+  });
+
+  it('runs items in parallel up to the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const items = Array.from({ length: 40 }, (_, i) => ({ n: i }));
+    const result = await runBatch(items, async (item: any) => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+      return created(item.n);
+    });
+
+    expect(peak).toBe(PUBLIC_API_BATCH_CONCURRENCY);
+    expect(result.data.map((r) => (r.ok ? r.data : null))).toEqual(items.map((i) => i.n));
+  });
+
+  it('runs items that share a key in batch order', async () => {
+    const seen: string[] = [];
+    const items = [
+      { id: 'a1', email: 'Ana@X.com' },
+      { id: 'b1', email: 'bia@x.com' },
+      { id: 'a2', phone: '+55 11 99999-0000', email: 'ana@x.com' },
+      { id: 'a3', phone: '+5511999990000' },
+    ];
+    await runBatch(
+      items,
+      async (item: any) => {
+        // O primeiro item é o mais lento: sem as chaves, a2/a3 terminariam antes dele.
+        if (item.id === 'a1') await tick();
+        seen.push(item.id);
+        return created(item.id);
+      },
+      contactBatchKeys
+    );
+
+    expect(seen.filter((id) => id.startsWith('a'))).toEqual(['a1', 'a2', 'a3']);
+    expect(seen.indexOf('b1')).toBeLessThan(seen.indexOf('a1'));
+  });
+
+  it('keys deal items by deal id and inline contact', () => {
+    expect(dealBatchKeys({ id: 'deal-1', title: 'x' })).toEqual(['deal:deal-1', null, null]);
+    expect(dealBatchKeys({ title: 'x', contact: { email: ' Ana@X.com ' } })).toEqual([null, 'email:ana@x.com', null]);
+    expect(dealBatchKeys('not an object')).toEqual([null, null, null]);
+  });
+});
@@ -0,0 +1,187 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { dealFileStoragePath, sumDealItems } from '@/lib/public-api/dealRelations';
+
+type Row = Record<string, any>;
+
+const mocks = vi.hoisted(() => {
+  const db: Record<string, Row[]> = {};
+
+  /** Query builder em memória com o subconjunto do PostgREST que as rotas de itens usam. */
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let action: { kind: 'select' | 'insert' | 'update'; values?: Row } = { kind: 'select' };
+    let range: [number, number] | null = null;
+    let withCount = false;
+
+    const run = () => {
+      const rows = (db[table] ||= []);
+      if (action.kind === 'insert') {
+        const row = { id: `${table}-${rows.length + 1}`, created_at: new Date().toISOString(), ...action.values };
+        rows.push(row);
+        return { data: [row], count: null, error: null };
+      }
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (action.kind === 'update') {
+        for (const row of matched) Object.assign(row, action.values);
+        return { data: null, count: null, error: null };
+      }
+      const sorted = [...matched].sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] === b[column]) continue;
+          return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+        }
+        return 0;
+      });
+      return {
+        data: range ? sorted.slice(range[0], range[1] + 1) : sorted,
+        count: withCount ? sorted.length : null,
+        error: null,
+      };
+    };
+
+    const builder = {
+      select: (_fields?: string, opts?: { count?: string }) => {
+        withCount = withCount || Boolean(opts?.count);
+        return builder;
+      },
+      insert: (values: Row) => {
+        action = { kind: 'insert', values };
+        return builder;
+      },
+      update: (values: Row) => {
+        action = { kind: 'update', values };
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      order: (column: string, opts?: { ascending?: boolean }) => {
+        orders.push({ column, ascending: opts?.ascending !== false });
+        return builder;
+      },
+      range: (fromIndex: number, toIndex: number) => {
+        range = [fromIndex, toIndex];
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      single: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] ?? null, error };
+      },
+      then: (resolve: (value: ReturnType<typeof run>) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return { db, supabase: { from } };
+});
+
+vi.mock('@/lib/supabase/server', () => ({ createStaticAdminClient: () => mocks.supabase }));
+
+vi.mock('@/lib/public-api/auth', () => ({
+  authPublicApi: async () => ({
+    ok: true,
+    organizationId: 'org-1',
+    organizationName: 'Org',
+    apiKeyId: 'key-1',
+    apiKeyPrefix: 'ncrm_test',
+    scopes: ['*'],
+    expiresAt: null,
+  }),
+}));
+
+import { GET as listItems, POST as createItem } from '@/app/api/public/v1/deals/[dealId]/items/route';
+
+const DEAL_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_ORG_DEAL_ID = '22222222-2222-4222-8222-222222222222';
+
+const params = (dealId: string) => ({ params: Promise.resolve({ dealId }) });
+const url = (dealId: string, query = '') => `https://crm.test/api/public/v1/deals/${dealId}/items${query}`;
+
+const postItem = (dealId: string, body: unknown) =>
+  createItem(
+    new Request(url(dealId), { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) }),
+    params(dealId)
+  );
+
+const getItems = async (dealId: string, query = '') => {
+  const res = await listItems(new Request(url(dealId, query)), params(dealId));
+  return { status: res.status, body: await res.json() };
+};
+
+describe('Public API deal relations', () => {
+  it('sums price * quantity of deal items (numeric strings included)', () => {
+    expect(sumDealItems([])).toBe(0);
+    expect(sumDealItems([{ price: '1500.50', quantity: 2 }, { price: 99, quantity: 1 }, { price: null, quantity: 3 }])).toBe(3100);
+  });
+
+  it('stores uploads under the deal folder with a random name and a safe extension', () => {
+    const dealId = '11111111-1111-4111-8111-111111111111';
+    const path = dealFileStoragePath(dealId, 'Proposta Final.PDF');
+    expect(path).toMatch(new RegExp(`^${dealId}/[0-9a-f-]{36}\\.pdf$`));
+    expect(dealFileStoragePath(dealId, 'LEIAME')).toMatch(new RegExp(`^${dealId}/[0-9a-f-]{36}$`));
+    expect(dealFileStoragePath(dealId, 'x.p$h/p')).toMatch(/\.php$/);
+  });
+});
+
+describe('Public API deal items routes', () => {
+  beforeEach(() => {
+    mocks.db.deals = [
+      { id: DEAL_ID, organization_id: 'org-1', deleted_at: null, value: 100 },
+      { id: OTHER_ORG_DEAL_ID, organization_id: 'org-2', deleted_at: null, value: 0 },
+    ];
+    mocks.db.deal_items = [
+      { id: 'item-a', deal_id: DEAL_ID, organization_id: 'org-1', name: 'Licença', quantity: 1, price: '100', created_at: '2026-03-01T10:00:00Z' },
+    ];
+    mocks.db.products = [{ id: '33333333-3333-4333-8333-333333333333', organization_id: 'org-1', name: 'Suporte', price: '80' }];
+  });
+
+  it('recalculates deals.value when an item is added', async () => {
+    const res = await postItem(DEAL_ID, { name: 'Implantação', quantity: 2, price: 250 });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toMatchObject({ data: { name: 'Implantação', price: 250 }, deal_value: 600, action: 'created' });
+    expect(mocks.db.deals[0].value).toBe(600);
+
+    // Produto do catálogo: nome e preço vêm do produto
+    const fromCatalog = await postItem(DEAL_ID, { product_id: '33333333-3333-4333-8333-333333333333' });
+    expect(await fromCatalog.json()).toMatchObject({ data: { name: 'Suporte', price: 80 }, deal_value: 680 });
+  });
+
+  it("rejects another organization's deal", async () => {
+    const res = await postItem(OTHER_ORG_DEAL_ID, { name: 'Intruso', price: 1 });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toMatchObject({ code: 'NOT_FOUND' });
+    expect(mocks.db.deal_items).toHaveLength(1);
+    expect(mocks.db.deals[1].value).toBe(0);
+
+    expect(await getItems(OTHER_ORG_DEAL_ID)).toMatchObject({ status: 404, body: { code: 'NOT_FOUND' } });
+    expect(await getItems('not-a-uuid')).toMatchObject({ status: 422, body: { code: 'VALIDATION_ERROR' } });
+  });
+
+  it('pages items with the cursor in creation order', async () => {
+    mocks.db.deal_items.push(
+      { id: 'item-c', deal_id: DEAL_ID, organization_id: 'org-1', name: 'C', quantity: 1, price: 1, created_at: '2026-03-03T10:00:00Z' },
+      { id: 'item-b', deal_id: DEAL_ID, organization_id: 'org-1', name: 'B', quantity: 1, price: 1, created_at: '2026-03-02T10:00:00Z' }
+    );
+
+    const first = await getItems(DEAL_ID, '?limit=2');
+    expect(first.status).toBe(200);
+    expect(first.body.data.map((i: Row) => i.id)).toEqual(['item-a', 'item-b']);
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const second = await getItems(DEAL_ID, `?limit=2&cursor=${first.body.nextCursor}`);
+    expect(second.body.data.map((i: Row) => i.id)).toEqual(['item-c']);
+    expect(second.body.nextCursor).toBeNull();
+  });
+});
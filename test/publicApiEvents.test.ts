@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeEventCursor,
+  encodeEventCursor,
+  parseEventTypes,
+  resolveReadableEventTypes,
+  toPublicApiEvent,
+} from '@/lib/public-api/events';
+
+const mocks = vi.hoisted(() => ({
+  scopes: ['*'] as string[],
+  rpc: vi.fn(async (_fn: string, _args: Record<string, unknown>) => ({ data: [] as unknown[], error: null })),
+}));
+
+vi.mock('@/lib/supabase/server', () => ({ createStaticAdminClient: () => ({ rpc: mocks.rpc }) }));
+
+vi.mock('@/lib/public-api/auth', () => ({
+  authPublicApi: async () => ({
+    ok: true,
+    organizationId: 'org-1',
+    organizationName: 'Org',
+    apiKeyId: 'key-1',
+    apiKeyPrefix: 'ncrm_test',
+    scopes: mocks.scopes,
+    expiresAt: null,
+  }),
+}));
+
+import { GET as listEvents } from '@/app/api/public/v1/events/route';
+
+const getEvents = async (query = '') => {
+  const res = await listEvents(new Request(`https://crm.test/api/public/v1/events${query}`));
+  return { status: res.status, body: await res.json() };
+};
+
+describe('Public API events feed', () => {
+  it('round-trips the sequence cursor and rejects garbage instead of restarting the feed', () => {
+    expect(decodeEventCursor(encodeEventCursor(42))).toBe(42);
+    expect(decodeEventCursor(null)).toBeNull();
+    expect(decodeEventCursor('  ')).toBeNull();
+    expect(decodeEventCursor('not-a-cursor')).toBeUndefined();
+    expect(decodeEventCursor(Buffer.from(JSON.stringify({ seq: -1 })).toString('base64url'))).toBeUndefined();
+  });
+
+  it('validates the types filter against the outbound event catalog', () => {
+    expect(parseEventTypes(null)).toBeNull();
+    expect(parseEventTypes('deal.won, contact.created,deal.won')).toEqual(['deal.won', 'contact.created']);
+    expect(parseEventTypes('deal.won,deal.exploded')).toBeUndefined();
+  });
+
+  it('maps a stored event to the feed shape with its own cursor', () => {
+    const event = toPublicApiEvent({
+      id: 'e1',
+      feed_seq: '7',
+      event_type: 'activity.created',
+      payload: { event_type: 'activity.created', occurred_at: '2026-01-02T03:04:05Z', activity: { id: 'a1' } },
+      deal_id: null,
+      contact_id: 'c1',
+      activity_id: 'a1',
+      created_at: '2026-01-02T03:04:06Z',
+    });
+    expect(event.occurred_at).toBe('2026-01-02T03:04:05Z');
+    expect(decodeEventCursor(event.cursor)).toBe(7);
+    expect(event.payload).toMatchObject({ activity: { id: 'a1' } });
+  });
+});
+
+describe('GET /events scopes', () => {
+  beforeEach(() => {
+    mocks.rpc.mockClear();
+  });
+
+  it('narrows the feed to the event types the key can read', () => {
+    expect(resolveReadableEventTypes(['*'], null).types).toHaveLength(12);
+    expect(resolveReadableEventTypes(['events:read', 'deals:write'], null).types).toEqual([
+      'deal.stage_changed',
+      'deal.created',
+      'deal.won',
+      'deal.lost',
+      'deal.reopened',
+    ]);
+    expect(resolveReadableEventTypes(['events:read', 'deals:read'], ['deal.won', 'contact.created'])).toEqual({
+      types: null,
+      missing: 'contacts:read',
+    });
+  });
+
+  it('refuses a key that only has events:read', async () => {
+    mocks.scopes = ['events:read'];
+    const res = await getEvents();
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: 'AUTH_SCOPE_MISSING' });
+    expect(res.body.error).toContain('contacts:read');
+    expect(mocks.rpc).not.toHaveBeenCalled();
+  });
+
+  it('only asks the database for readable types', async () => {
+    mocks.scopes = ['events:read', 'contacts:read'];
+    expect((await getEvents()).status).toBe(200);
+    expect(mocks.rpc).toHaveBeenLastCalledWith(
+      'list_public_api_events',
+      expect.objectContaining({ p_event_types: ['contact.created', 'contact.updated', 'contact.deleted'] })
+    );
+
+    expect(await getEvents('?types=contact.created,activity.created')).toMatchObject({
+      status: 403,
+      body: { error: 'API key is missing the activities:read scope', code: 'AUTH_SCOPE_MISSING' },
+    });
+    expect(mocks.rpc).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PublicApiWriteResult } from '@/lib/public-api/batch';
+
+type StoredKey = {
+  request_method: string;
+  request_path: string;
+  request_hash: string;
+  response_status: number | null;
+  response_body: unknown;
+  created_at: string;
+};
+
+const mocks = vi.hoisted(() => {
+  const state = {
+    now: Date.parse('2026-03-10T12:00:00Z'),
+    keys: new Map<string, StoredKey>(),
+  };
+
+  // Mesmas regras de `claim_api_idempotency_key` (schema_init.sql), em memória.
+  const claim = (args: Record<string, any>) => {
+    const id = `${args.p_api_key_id}:${args.p_idempotency_key}`;
+    const now = new Date(state.now).toISOString();
+    const row = state.keys.get(id);
+    const sameRequest =
+      row?.request_method === args.p_method && row?.request_path === args.p_path && row?.request_hash === args.p_request_hash;
+    const abandoned =
+      row?.response_status === null && sameRequest && Date.parse(row.created_at) <= state.now - args.p_lease_seconds * 1000;
+
+    if (!row || abandoned) {
+      state.keys.set(id, {
+        request_method: args.p_method,
+        request_path: args.p_path,
+        request_hash: args.p_request_hash,
+        response_status: null,
+        response_body: null,
+        created_at: now,
+      });
+      return { claimed: true, ...state.keys.get(id), claimed_at: now };
+    }
+    return { claimed: false, ...row, claimed_at: row.created_at };
+  };
+
+  // `.delete()` / `.update()` + `.eq(...)` encadeados, aplicados no `await`.
+  const mutation = (apply: (id: string, row: StoredKey) => void) => {
+    const filters: Record<string, unknown> = {};
+    const builder = {
+      eq(column: string, value: unknown) {
+        filters[column] = value;
+        return builder;
+      },
+      then(resolve: (value: { error: null }) => void) {
+        const id = `${filters.api_key_id}:${filters.idempotency_key}`;
+        const row = state.keys.get(id);
+        if (row && (!('created_at' in filters) || row.created_at === filters.created_at)) apply(id, row);
+        resolve({ error: null });
+      },
+    };
+    return builder;
+  };
+
+  const supabase = {
+    rpc: (_fn: string, args: Record<string, unknown>) => ({
+      maybeSingle: async () => ({ data: claim(args), error: null }),
+    }),
+    from: (table: string) => {
+      if (table !== 'api_idempotency_keys') throw new Error(`Unexpected table: ${table}`);
+      return {
+        delete: () => mutation((id) => state.keys.delete(id)),
+        update: (values: Partial<StoredKey>) => mutation((_id, row) => Object.assign(row, values)),
+      };
+    },
+  };
+
+  return { state, supabase, upsertCompany: vi.fn<(...args: any[]) => Promise<PublicApiWriteResult>>() };
+});
+
+vi.mock('@/lib/supabase/server', () => ({ createStaticAdminClient: () => mocks.supabase }));
+
+vi.mock('@/lib/public-api/auth', () => ({
+  authPublicApi: async () => ({
+    ok: true,
+    organizationId: 'org-1',
+    organizationName: 'Org',
+    apiKeyId: 'key-1',
+    apiKeyPrefix: 'ncrm_test',
+    scopes: ['*'],
+    expiresAt: null,
+  }),
+}));
+
+vi.mock('@/lib/public-api/companiesUpsert', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/public-api/companiesUpsert')>()),
+  upsertCompany: mocks.upsertCompany,
+}));
+
+import { IDEMPOTENCY_LEASE_SECONDS, hashRequestBody, readIdempotencyKey } from '@/lib/public-api/idempotency';
+import { POST as createCompany } from '@/app/api/public/v1/companies/route';
+
+const req = (headers: Record<string, string>) =>
+  new Request('https://crm.test/api/public/v1/deals', { method: 'POST', headers });
+
+const post = (key: string, body: unknown) =>
+  createCompany(
+    new Request('https://crm.test/api/public/v1/companies', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'Idempotency-Key': key },
+      body: JSON.stringify(body),
+    })
+  );
+
+const created = (id: string): PublicApiWriteResult => ({ ok: true, status: 201, body: { data: { id }, action: 'created' } });
+
+describe('Public API Idempotency-Key', () => {
+  it('reads and validates the header', () => {
+    expect(readIdempotencyKey(req({}))).toBeNull();
+    expect(readIdempotencyKey(req({ 'Idempotency-Key': '  n8n-exec-1  ' }))).toEqual({ key: 'n8n-exec-1' });
+    expect(readIdempotencyKey(req({ 'Idempotency-Key': ' ' }))).toHaveProperty('error');
+    expect(readIdempotencyKey(req({ 'Idempotency-Key': 'x'.repeat(256) }))).toHaveProperty('error');
+  });
+
+  it('fingerprints the raw body so a reused key with another payload is detected', () => {
+    const a = hashRequestBody(JSON.stringify({ title: 'Deal A' }));
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashRequestBody(JSON.stringify({ title: 'Deal A' }))).toBe(a);
+    expect(hashRequestBody(JSON.stringify({ title: 'Deal B' }))).not.toBe(a);
+  });
+});
+
+describe('Idempotency-Key on POST /companies', () => {
+  beforeEach(() => {
+    mocks.state.keys.clear();
+    mocks.upsertCompany.mockReset();
+  });
+
+  it('replays the stored status and body without running the route again', async () => {
+    mocks.upsertCompany.mockResolvedValueOnce(created('c-1'));
+
+    const first = await post('n8n-1', { name: 'Acme' });
+    expect(first.status).toBe(201);
+
+    const retry = await post('n8n-1', { name: 'Acme' });
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await retry.json()).toEqual({ data: { id: 'c-1' }, action: 'created' });
+    expect(mocks.upsertCompany).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects the same key with a different body', async () => {
+    mocks.upsertCompany.mockResolvedValueOnce(created('c-1'));
+    await post('n8n-1', { name: 'Acme' });
+
+    const reused = await post('n8n-1', { name: 'Other' });
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    expect(mocks.upsertCompany).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    let finish!: (result: PublicApiWriteResult) => void;
+    mocks.upsertCompany.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    const first = post('n8n-1', { name: 'Acme' });
+    await vi.waitFor(() => expect(mocks.upsertCompany).toHaveBeenCalledTimes(1));
+
+    const concurrent = await post('n8n-1', { name: 'Acme' });
+    expect(concurrent.status).toBe(409);
+    expect(concurrent.headers.get('Retry-After')).toBe('1');
+    expect(await concurrent.json()).toMatchObject({ code: 'IDEMPOTENCY_IN_PROGRESS' });
+
+    finish(created('c-1'));
+    expect((await first).status).toBe(201);
+  });
+
+  it('lets a retry take over a claim abandoned past the lease', async () => {
+    let finishStuck!: (result: PublicApiWriteResult) => void;
+    mocks.upsertCompany
+      .mockReturnValueOnce(new Promise((resolve) => (finishStuck = resolve)))
+      .mockResolvedValueOnce(created('c-2'));
+
+    const stuck = post('n8n-1', { name: 'Acme' });
+    await vi.waitFor(() => expect(mocks.upsertCompany).toHaveBeenCalledTimes(1));
+    mocks.state.now += (IDEMPOTENCY_LEASE_SECONDS + 1) * 1000;
+
+    const retry = await post('n8n-1', { name: 'Acme' });
+    expect(retry.status).toBe(201);
+    expect(await retry.json()).toMatchObject({ data: { id: 'c-2' } });
+
+    // A request antiga termina depois: não sobrescreve a resposta do retry.
+    finishStuck(created('c-1'));
+    await stuck;
+    const replay = await post('n8n-1', { name: 'Acme' });
+    expect(await replay.json()).toMatchObject({ data: { id: 'c-2' } });
+  });
+
+  it('releases the key on 5xx so the retry runs again', async () => {
+    mocks.upsertCompany
+      .mockResolvedValueOnce({ ok: false, status: 500, body: { error: 'boom', code: 'DB_ERROR' } })
+      .mockResolvedValueOnce(created('c-1'));
+
+    expect((await post('n8n-1', { name: 'Acme' })).status).toBe(500);
+    expect(mocks.state.keys.size).toBe(0);
+
+    const retry = await post('n8n-1', { name: 'Acme' });
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(mocks.upsertCompany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,34 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { getSupabaseAdminClient } from './helpers/supabaseAdmin';
+import { getServiceRoleKey, getSupabaseUrl, loadEnvFile } from './helpers/env';
+
+// Env antes de decidir o skip (o módulo pode ser avaliado antes dos setupFiles).
+loadEnvFile(`${process.cwd()}/.env`);
+loadEnvFile(`${process.cwd()}/.env.local`, { override: true });
+
+const serviceRoleKey = getServiceRoleKey();
+const hasRealSupabaseCreds = Boolean(getSupabaseUrl()) && Boolean(serviceRoleKey) && !serviceRoleKey.startsWith('your_');
+
+const describeSupabase = hasRealSupabaseCreds ? describe : describe.skip;
+
+// `create_api_key` e `update_api_key` gravam `_api_key_normalize_scopes(p_scopes)`.
+describeSupabase('API key scopes (SQL)', () => {
+  const normalize = (p_scopes: string[] | null) =>
+    getSupabaseAdminClient().rpc('_api_key_normalize_scopes', { p_scopes });
+
+  it('rejects empty or missing scope lists instead of granting full access', async () => {
+    const empty = await normalize([]);
+    expect(empty.error?.message).toMatch(/At least one scope is required/);
+    expect(empty.data).toBeNull();
+
+    const missing = await normalize(null);
+    expect(missing.error?.message).toMatch(/At least one scope is required/);
+  });
+
+  it('keeps explicit scopes and full access', async () => {
+    expect((await normalize(['deals:read', ' deals:read '])).data).toEqual(['deals:read']);
+    expect((await normalize(['contacts:read', '*'])).data).toEqual(['*']);
+    expect((await normalize(['admin:all'])).error?.message).toMatch(/Invalid scope/);
+  });
+});
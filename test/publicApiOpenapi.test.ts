@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { getPublicApiOpenApiDocument } from '@/lib/public-api/openapi';
+import { OUTBOUND_WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events';
 
 describe('Public API OpenAPI', () => {
   it('declares OpenAPI 3.1.2 and basic security scheme', () => {
@@ -29,11 +30,49 @@ describe('Public API OpenAPI', () => {
       '/deals/{dealId}/mark-won',
       '/deals/{dealId}/mark-lost',
       '/activities',
+      '/contacts/batch',
+      '/companies/batch',
+      '/deals/batch',
+      '/activities/batch',
+      '/products',
+      '/products/{productId}',
+      '/deals/{dealId}/notes',
+      '/deals/{dealId}/files',
+      '/deals/{dealId}/files/{fileId}',
+      '/deals/{dealId}/items',
+      '/deals/{dealId}/items/{itemId}',
+      '/events',
     ];
 
     for (const p of required) {
       expect(paths).toContain(p);
     }
   });
+
+  it('only references components that exist', () => {
+    const doc = getPublicApiOpenApiDocument();
+    const refs = JSON.stringify(doc).match(/#\/components\/[A-Za-z]+\/[A-Za-z]+/g) || [];
+    for (const ref of new Set(refs)) {
+      const [, , section, name] = ref.split('/');
+      expect(doc.components?.[section]?.[name], ref).toBeTruthy();
+    }
+  });
+
+  it('documents signed outbound webhooks', () => {
+    const doc = getPublicApiOpenApiDocument();
+    const op = doc.webhooks?.['deal.stage_changed']?.post;
+    expect(op).toBeTruthy();
+
+    const headerRefs = (op.parameters || []).map((p: any) => p.$ref);
+    expect(headerRefs).toContain('#/components/parameters/WebhookSignatureHeader');
+    expect(doc.components?.parameters?.WebhookSignatureHeader?.name).toBe('X-Webhook-Signature');
+  });
+
+  it('documents every outbound event type from the catalog', () => {
+    const doc = getPublicApiOpenApiDocument();
+    for (const type of OUTBOUND_WEBHOOK_EVENT_TYPES) {
+      expect(doc.webhooks?.[type]?.post, type).toBeTruthy();
+    }
+  });
 });
 
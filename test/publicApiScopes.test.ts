@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  keyRow: null as Record<string, unknown> | null,
+  rpc: vi.fn(),
+}));
+
+// `validate_api_key` (RPC) devolve a linha da key; o resto da regra fica em `authPublicApi`.
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    rpc: (fn: string, args: unknown) => {
+      mocks.rpc(fn, args);
+      return { maybeSingle: async () => ({ data: mocks.keyRow, error: null }) };
+    },
+  }),
+}));
+
+vi.mock('@/lib/public-api/usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/public-api/usage')>()),
+  consumeApiKeyRateLimit: async () => null,
+}));
+
+import { authPublicApi } from '@/lib/public-api/auth';
+import { getClientIp, hasApiKeyScope, normalizeApiKeyScopes } from '@/lib/public-api/scopes';
+
+describe('Public API key scopes', () => {
+  it('grants everything to full-access keys', () => {
+    expect(hasApiKeyScope(['*'], 'deals:write')).toBe(true);
+    expect(hasApiKeyScope(['*'], 'mcp:call')).toBe(true);
+  });
+
+  it('treats write as implying read, but not the other way around', () => {
+    expect(hasApiKeyScope(['deals:write'], 'deals:read')).toBe(true);
+    expect(hasApiKeyScope(['deals:read'], 'deals:write')).toBe(false);
+    expect(hasApiKeyScope(['contacts:write'], 'deals:read')).toBe(false);
+    expect(hasApiKeyScope(['contacts:read', 'contacts:write'], 'mcp:call')).toBe(false);
+    expect(hasApiKeyScope(['products:write'], 'products:read')).toBe(true);
+  });
+
+  it('normalizes stored scopes (drops unknown values and duplicates; * wins)', () => {
+    expect(normalizeApiKeyScopes(['contacts:read', 'contacts:read', 'admin:all', 42])).toEqual(['contacts:read']);
+    expect(normalizeApiKeyScopes(['deals:read', '*'])).toEqual(['*']);
+    expect(normalizeApiKeyScopes(null)).toEqual([]);
+  });
+
+  it('reads the client IP from proxy headers', () => {
+    const req = (headers: Record<string, string>) => new Request('https://crm.test/api/public/v1/me', { headers });
+    // o primeiro hop vem do cliente (forjável); vale o último, anexado pelo proxy
+    expect(getClientIp(req({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('10.0.0.1');
+    expect(getClientIp(req({ 'x-real-ip': '::ffff:198.51.100.2' }))).toBe('198.51.100.2');
+    expect(getClientIp(req({ 'x-real-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('198.51.100.2');
+    expect(getClientIp(req({}))).toBeNull();
+  });
+});
+
+describe('authPublicApi key restrictions', () => {
+  const request = () =>
+    new Request('https://crm.test/api/public/v1/deals', {
+      headers: { 'X-Api-Key': 'ncrm_test_key', 'x-real-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7, 198.51.100.2' },
+    });
+
+  const keyRow = (overrides: Record<string, unknown> = {}) => ({
+    api_key_id: 'key-1',
+    api_key_prefix: 'ncrm_test',
+    organization_id: 'org-1',
+    organization_name: 'Org',
+    scopes: ['deals:read'],
+    expires_at: null,
+    ip_allowed: true,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'https://project.supabase.co');
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY', 'anon-key');
+    mocks.rpc.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a valid key with the required scope', async () => {
+    mocks.keyRow = keyRow();
+    const auth = await authPublicApi(request(), 'deals:read');
+    expect(auth).toMatchObject({ ok: true, organizationId: 'org-1', apiKeyId: 'key-1', scopes: ['deals:read'] });
+  });
+
+  it('rejects expired keys with 401', async () => {
+    mocks.keyRow = keyRow({ expires_at: '2020-01-01T00:00:00Z' });
+    expect(await authPublicApi(request(), 'deals:read')).toMatchObject({
+      ok: false,
+      status: 401,
+      body: { code: 'AUTH_EXPIRED' },
+    });
+  });
+
+  it('rejects calls from outside the IP allowlist with 403, checking the trusted client IP', async () => {
+    mocks.keyRow = keyRow({ ip_allowed: false });
+    expect(await authPublicApi(request(), 'deals:read')).toMatchObject({
+      ok: false,
+      status: 403,
+      body: { code: 'AUTH_IP_NOT_ALLOWED' },
+    });
+    expect(mocks.rpc).toHaveBeenCalledWith('validate_api_key', { p_token: 'ncrm_test_key', p_client_ip: '198.51.100.2' });
+  });
+
+  it('rejects keys without the route scope with 403', async () => {
+    mocks.keyRow = keyRow();
+    expect(await authPublicApi(request(), 'deals:write')).toMatchObject({
+      ok: false,
+      status: 403,
+      body: { code: 'AUTH_SCOPE_MISSING' },
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { publicApiEndpointLabel, rateLimitHeaders } from '@/lib/public-api/usage';
+
+describe('Public API usage metering', () => {
+  it('groups requests by endpoint template', () => {
+    expect(publicApiEndpointLabel('get', 'https://crm.test/api/public/v1/contacts?limit=10')).toBe('GET /contacts');
+    expect(
+      publicApiEndpointLabel('PATCH', 'https://crm.test/api/public/v1/deals/0b7c6c1e-8f0a-4d2b-9a53-2f1d1f0c9e11/')
+    ).toBe('PATCH /deals/{id}');
+    expect(publicApiEndpointLabel('GET', 'https://crm.test/api/public/v1/boards/vendas/stages')).toBe(
+      'GET /boards/{boardKeyOrId}/stages'
+    );
+    expect(publicApiEndpointLabel('POST', 'https://crm.test/api/mcp')).toBe('POST /api/mcp');
+  });
+
+  it('exposes X-RateLimit-* headers and Retry-After only when blocked', () => {
+    expect(rateLimitHeaders(null)).toEqual({});
+    expect(rateLimitHeaders({ allowed: true, limit: 120, remaining: 119, retryAfterSeconds: 0 })).toEqual({
+      'X-RateLimit-Limit': '120',
+      'X-RateLimit-Remaining': '119',
+    });
+    expect(rateLimitHeaders({ allowed: false, limit: 120, remaining: 0, retryAfterSeconds: 17 })).toEqual({
+      'X-RateLimit-Limit': '120',
+      'X-RateLimit-Remaining': '0',
+      'Retry-After': '17',
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyInboundFieldMapping,
+  normalizeInboundFieldMapping,
+  readPayloadPath,
+} from '@/supabase/functions/webhook-in/fieldMapping';
+
+const hotmartLike = {
+  event: 'PURCHASE_APPROVED',
+  id: 'evt-123',
+  data: {
+    buyer: { name: '  Maria Silva ', email: 'MARIA@Exemplo.com', checkout_phone: '(11) 99999-0000' },
+    product: { name: 'Curso X' },
+    purchase: { price: { value: '1.234,56' } },
+    items: [{ sku: 'A1' }, { sku: 'B2' }],
+    'utm source': 'instagram',
+  },
+};
+
+describe('webhook-in field mapping', () => {
+  it('reads JSONPath-like paths (dots, indexes, wildcards, quoted keys)', () => {
+    expect(readPayloadPath(hotmartLike, '$.data.buyer.email')).toBe('MARIA@Exemplo.com');
+    expect(readPayloadPath(hotmartLike, 'data.items[1].sku')).toBe('B2');
+    expect(readPayloadPath(hotmartLike, '$.data.items[*].sku')).toEqual(['A1', 'B2']);
+    expect(readPayloadPath(hotmartLike, "data['utm source']")).toBe('instagram');
+    expect(readPayloadPath(hotmartLike, 'data.missing.key')).toBeUndefined();
+    expect(() => readPayloadPath(hotmartLike, 'data..buyer')).toThrow();
+  });
+
+  it('maps core fields, tags and deal custom fields with transforms and constants', () => {
+    const rules = normalizeInboundFieldMapping([
+      { target: 'external_event_id', source: '$.id' },
+      { target: 'contact_name', source: '$.data.buyer.name', transforms: ['trim'] },
+      { target: 'email', source: '$.data.buyer.email', transforms: ['lowercase'] },
+      { target: 'phone', source: '$.data.buyer.checkout_phone', transforms: ['digits'] },
+      { target: 'deal_title', source: '$.data.product.name' },
+      { target: 'deal_value', source: '$.data.purchase.price.value', transforms: ['number'] },
+      { target: 'source', value: 'hotmart' },
+      { target: 'tags', source: '$.data.items[*].sku' },
+      { target: 'tags', value: 'comprador, hotmart', transforms: ['split'] },
+      { target: 'custom_fields.utm_source', source: "$.data['utm source']" },
+    ]);
+
+    const result = applyInboundFieldMapping(hotmartLike, rules);
+    expect(result.errors).toEqual([]);
+    expect(result.fields).toEqual({
+      external_event_id: 'evt-123',
+      contact_name: 'Maria Silva',
+      email: 'maria@exemplo.com',
+      phone: '11999990000',
+      deal_title: 'Curso X',
+      deal_value: 1234.56,
+      source: 'hotmart',
+    });
+    expect(result.tags).toEqual(['A1', 'B2', 'comprador', 'hotmart']);
+    expect(result.customFields).toEqual({ utm_source: 'instagram' });
+  });
+
+  it('uses the constant as fallback when the path is empty', () => {
+    const result = applyInboundFieldMapping({}, [{ target: 'deal_title', source: '$.product.name', value: 'Lead do site' }]);
+    expect(result.fields.deal_title).toBe('Lead do site');
+  });
+
+  it('reports invalid paths and non-numeric values per rule', () => {
+    const result = applyInboundFieldMapping({ price: 'grátis' }, [
+      { target: 'email', source: 'a..b' },
+      { target: 'deal_value', source: 'price' },
+    ]);
+    expect(result.errors.map((e) => e.index)).toEqual([0, 1]);
+  });
+
+  it('drops malformed rules and unknown targets', () => {
+    expect(
+      normalizeInboundFieldMapping([
+        null,
+        { target: 'password', source: 'x' },
+        { target: 'email' },
+        { target: 'custom_fields.bad key', source: 'x' },
+        { target: 'email', source: ' $.e ', transforms: ['lowercase', 'explode'] },
+      ])
+    ).toEqual([{ target: 'email', source: '$.e', transforms: ['lowercase'] }]);
+    expect(normalizeInboundFieldMapping({})).toEqual([]);
+  });
+});
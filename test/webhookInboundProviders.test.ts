@@ -0,0 +1,128 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { acceptsQueryToken, normalizeProviderEvent, verifyProviderSignature } from '@/supabase/functions/webhook-in/providers';
+
+function hotmart(event: string) {
+  return {
+    id: `evt-${event}`,
+    event,
+    data: {
+      buyer: { name: 'Maria Silva', email: 'maria@exemplo.com', checkout_phone: '11999990000' },
+      product: { name: 'Curso X' },
+      purchase: { transaction: 'HP123', price: { value: 497 } },
+    },
+  };
+}
+
+describe('webhook-in provider presets', () => {
+  it('maps Hotmart purchase, refund, abandoned cart and unrelated events', () => {
+    const won = normalizeProviderEvent('hotmart', hotmart('PURCHASE_APPROVED'));
+    expect(won).toMatchObject({
+      action: 'won',
+      eventId: 'evt-PURCHASE_APPROVED',
+      orderId: 'HP123',
+      lead: { source: 'hotmart', contact_name: 'Maria Silva', email: 'maria@exemplo.com', deal_title: 'Curso X', deal_value: 497 },
+      tags: ['Hotmart'],
+    });
+
+    expect(normalizeProviderEvent('hotmart', hotmart('PURCHASE_REFUNDED'))).toMatchObject({
+      action: 'lost',
+      lossReason: 'Reembolso',
+      orderId: 'HP123',
+    });
+    expect(normalizeProviderEvent('hotmart', hotmart('PURCHASE_OUT_OF_SHOPPING_CART'))?.tags).toEqual([
+      'Hotmart',
+      'Carrinho abandonado',
+    ]);
+    expect(normalizeProviderEvent('hotmart', hotmart('SUBSCRIPTION_CANCELLATION'))?.action).toBe('ignore');
+  });
+
+  it('maps Kiwify orders (value in cents) and abandoned carts', () => {
+    const paid = normalizeProviderEvent('kiwify', {
+      order_id: 'K1',
+      webhook_event_type: 'order_approved',
+      Customer: { full_name: 'João', email: 'joao@exemplo.com', mobile: '+5511988887777' },
+      Product: { product_name: 'Mentoria' },
+      Commissions: { charge_amount: 19990 },
+    });
+    expect(paid).toMatchObject({ action: 'won', orderId: 'K1', eventId: 'K1:order_approved' });
+    expect(paid?.lead.deal_value).toBe(199.9);
+
+    const cart = normalizeProviderEvent('kiwify', {
+      id: 'cart-9',
+      status: 'abandoned',
+      name: 'Ana',
+      email: 'ana@exemplo.com',
+      product_name: 'Mentoria',
+      checkout_link: 'abc',
+    });
+    expect(cart).toMatchObject({ action: 'upsert', eventId: 'cart-9:abandoned_cart', orderId: null });
+    expect(cart?.tags).toContain('Carrinho abandonado');
+  });
+
+  it('maps Eduzz invoices and RD Station conversions', () => {
+    expect(
+      normalizeProviderEvent('eduzz', {
+        id: 'ev-1',
+        event: 'myeduzz.invoice_canceled',
+        data: { id: 'INV-1', buyer: { name: 'Bia', email: 'bia@exemplo.com' }, items: [{ name: 'Ebook' }], price: { value: 47 } },
+      })
+    ).toMatchObject({ action: 'lost', lossReason: 'Fatura cancelada', orderId: 'INV-1', lead: { deal_title: 'Ebook', deal_value: 47 } });
+
+    const rd = normalizeProviderEvent('rdstation', {
+      leads: [
+        {
+          uuid: 'u-1',
+          name: 'Carlos',
+          email: 'carlos@exemplo.com',
+          company: 'ACME',
+          opportunity: 'true',
+          tags: ['webinar'],
+          last_conversion: { created_at: '2026-01-01T10:00:00Z', content: { identificador: 'ebook-vendas' } },
+        },
+      ],
+    });
+    expect(rd).toMatchObject({
+      action: 'upsert',
+      eventId: 'u-1:opportunity:2026-01-01T10:00:00Z',
+      lead: { company_name: 'ACME', deal_title: 'ebook-vendas' },
+      tags: ['RD Station', 'webinar', 'Oportunidade'],
+    });
+    expect(normalizeProviderEvent('rdstation', {})?.action).toBe('ignore');
+    expect(normalizeProviderEvent('generic', { email: 'x@y.z' })).toBeNull();
+  });
+
+  it('verifies native signatures (Hotmart hottok, Kiwify HMAC-SHA1, Eduzz HMAC-SHA256)', async () => {
+    const rawBody = JSON.stringify({ order_id: 'K1' });
+    const url = new URL('https://x.supabase.co/functions/v1/webhook-in/abc');
+
+    await expect(
+      verifyProviderSignature('hotmart', { providerSecret: 'hot-123', headers: new Headers({ 'X-Hotmart-Hottok': 'hot-123' }), url, rawBody })
+    ).resolves.toBe(true);
+    await expect(
+      verifyProviderSignature('hotmart', { providerSecret: 'hot-123', headers: new Headers({ 'X-Hotmart-Hottok': 'nope' }), url, rawBody })
+    ).resolves.toBe(false);
+
+    const kiwifyUrl = new URL(url);
+    kiwifyUrl.searchParams.set('signature', createHmac('sha1', 'kw-token').update(rawBody).digest('hex'));
+    await expect(verifyProviderSignature('kiwify', { providerSecret: 'kw-token', headers: new Headers(), url: kiwifyUrl, rawBody })).resolves.toBe(true);
+    await expect(
+      verifyProviderSignature('kiwify', { providerSecret: 'kw-token', headers: new Headers(), url: kiwifyUrl, rawBody: rawBody + ' ' })
+    ).resolves.toBe(false);
+
+    const eduzzSig = createHmac('sha256', 'ed-secret').update(rawBody).digest('hex');
+    await expect(
+      verifyProviderSignature('eduzz', { providerSecret: 'ed-secret', headers: new Headers({ 'X-Signature': eduzzSig }), url, rawBody })
+    ).resolves.toBe(true);
+
+    await expect(verifyProviderSignature('rdstation', { providerSecret: 'x', headers: new Headers(), url, rawBody })).resolves.toBe(false);
+    await expect(verifyProviderSignature('hotmart', { providerSecret: null, headers: new Headers(), url, rawBody })).resolves.toBe(false);
+  });
+
+  it('accepts the secret in the query string only for RD Station', () => {
+    expect(acceptsQueryToken('rdstation')).toBe(true);
+    for (const provider of ['generic', 'hotmart', 'kiwify', 'eduzz'] as const) {
+      expect(acceptsQueryToken(provider)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildWebhookSignatureHeaders,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+} from '@/lib/webhooks/signature';
+
+const secret = 'whsec_test';
+const deliveryId = '11111111-1111-1111-1111-111111111111';
+const body = '{"deal": {"id": "d1"}, "event_type": "deal.stage_changed"}';
+const timestamp = 1_760_000_000;
+
+describe('Webhook signature (HMAC)', () => {
+  it('verifies a signature produced with the same secret/body', () => {
+    const headers = buildWebhookSignatureHeaders({ secret, timestamp, deliveryId, body });
+    const res = verifyWebhookSignature({ secret, body, headers, now: timestamp + 10 });
+    expect(res).toEqual({ ok: true, deliveryId, timestamp });
+  });
+
+  it('accepts a Headers instance and multiple signatures (secret rotation)', () => {
+    const sig = computeWebhookSignature({ secret, timestamp, deliveryId, body });
+    const headers = new Headers({
+      'X-Webhook-Id': deliveryId,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': `v1=${'0'.repeat(64)}, v1=${sig}`,
+    });
+    expect(verifyWebhookSignature({ secret, body, headers, now: timestamp }).ok).toBe(true);
+  });
+
+  it('rejects tampered bodies and wrong secrets', () => {
+    const headers = buildWebhookSignatureHeaders({ secret, timestamp, deliveryId, body });
+    expect(verifyWebhookSignature({ secret, body: body.replace('d1', 'd2'), headers, now: timestamp })).toEqual({
+      ok: false,
+      reason: 'invalid_signature',
+    });
+    expect(verifyWebhookSignature({ secret: 'other', body, headers, now: timestamp })).toEqual({
+      ok: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  it('rejects replays outside the tolerance window', () => {
+    const headers = buildWebhookSignatureHeaders({ secret, timestamp, deliveryId, body });
+    expect(verifyWebhookSignature({ secret, body, headers, now: timestamp + 301 })).toEqual({
+      ok: false,
+      reason: 'timestamp_out_of_tolerance',
+    });
+    expect(verifyWebhookSignature({ secret, body, headers, now: timestamp + 301, toleranceSeconds: 600 }).ok).toBe(true);
+  });
+
+  it('reports missing headers', () => {
+    expect(verifyWebhookSignature({ secret, body, headers: {}, now: timestamp })).toEqual({
+      ok: false,
+      reason: 'missing_headers',
+    });
+  });
+});